@@ -0,0 +1,115 @@
+/**
+ * Paper Service Adapter
+ * Adapts the UnifiedPaperService to implement IBrokerService interface
+ */
+
+import {
+  IBrokerService,
+  BrokerCredentials,
+  LoginResponse,
+  OrderRequest,
+  OrderResponse,
+  OrderStatus,
+  Position,
+  Quote
+} from '@copytrade/unified-broker';
+import { UnifiedPaperService } from './UnifiedPaperService';
+import { PaperOrder, PaperPosition } from './types';
+
+const toOrderStatus = (order: PaperOrder): OrderStatus => ({
+  orderId: order.orderId,
+  status: order.status,
+  quantity: order.quantity,
+  filledQuantity: order.filledQuantity,
+  price: order.price,
+  averagePrice: order.averagePrice,
+  timestamp: new Date(order.updatedAt)
+});
+
+export class PaperServiceAdapter extends IBrokerService {
+  private paperService: UnifiedPaperService;
+
+  constructor() {
+    super('paper');
+    this.paperService = new UnifiedPaperService();
+  }
+
+  async login(credentials: BrokerCredentials): Promise<LoginResponse> {
+    const response = await this.paperService.connect(credentials);
+    if (!response.success || !response.accountInfo) {
+      return this.createErrorResponse(response.message, response);
+    }
+
+    this.setConnected(true, response.accountInfo.accountId);
+    return this.createSuccessResponse('Login successful', response.accountInfo);
+  }
+
+  async logout(): Promise<boolean> {
+    const result = await this.paperService.disconnect();
+    this.setConnected(false);
+    return result;
+  }
+
+  async validateSession(_accountId?: string): Promise<boolean> {
+    const validation = await this.paperService.validateSession({});
+    return validation.isValid;
+  }
+
+  async placeOrder(orderRequest: OrderRequest): Promise<OrderResponse> {
+    try {
+      const response = await this.paperService.placeOrder(orderRequest);
+      if (!response.success) {
+        return this.createErrorResponse(response.message);
+      }
+      return {
+        ...this.createSuccessResponse(response.message, response.data),
+        orderId: response.data.orderId
+      };
+    } catch (error: any) {
+      return this.createErrorResponse(error.message || 'Order placement failed', error);
+    }
+  }
+
+  async getOrderStatus(accountId: string, orderId: string): Promise<OrderStatus> {
+    const response = await this.paperService.getOrderStatus(accountId, orderId);
+    if (!response.success) {
+      throw new Error(`Failed to get order status: ${response.message}`);
+    }
+    return toOrderStatus(response.data);
+  }
+
+  async getOrderHistory(accountId: string): Promise<OrderStatus[]> {
+    const orders: PaperOrder[] = await this.paperService.getOrderHistory(accountId);
+    return orders.map(toOrderStatus);
+  }
+
+  async getPositions(accountId: string): Promise<Position[]> {
+    const positions: PaperPosition[] = await this.paperService.getPositions(accountId);
+    return positions.map(position => ({
+      symbol: position.symbol,
+      quantity: position.quantity,
+      averagePrice: position.averagePrice,
+      currentPrice: position.lastPrice,
+      pnl: position.pnl,
+      exchange: position.exchange,
+      productType: position.productType
+    }));
+  }
+
+  async getQuote(symbol: string, exchange: string): Promise<Quote> {
+    const quote = await this.paperService.getQuote(symbol, exchange);
+    return {
+      symbol,
+      price: quote.ltp,
+      change: 0,
+      changePercent: 0,
+      volume: 0,
+      exchange,
+      timestamp: new Date(quote.timestamp)
+    };
+  }
+
+  async searchSymbols(query: string, exchange: string): Promise<any[]> {
+    return this.paperService.searchSymbols(query, exchange);
+  }
+}
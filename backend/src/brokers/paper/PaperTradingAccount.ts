@@ -0,0 +1,448 @@
+/**
+ * Paper Trading Account
+ * Simulated broker account with a virtual cash balance. Orders are matched
+ * against the prices fed into applyPrice(); the account itself never fetches
+ * prices, which keeps the matching rules deterministic and testable.
+ *
+ * Margin is not modelled: intraday (MIS/NRML) sells may open short
+ * positions, delivery (CNC) sells need held quantity.
+ */
+
+import {
+  PaperAccountOptions,
+  PaperAccountSnapshot,
+  PaperFunds,
+  PaperOrder,
+  PaperOrderModification,
+  PaperOrderRequest,
+  PaperPosition,
+  PaperTrade
+} from './types';
+
+const OPEN_STATUSES: PaperOrder['status'][] = ['PENDING', 'PLACED', 'PARTIALLY_FILLED'];
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const instrumentKey = (exchange: string, symbol: string): string => `${exchange}:${symbol}`;
+
+export const isPaperOrderOpen = (order: PaperOrder): boolean => OPEN_STATUSES.includes(order.status);
+
+export class PaperTradingAccount {
+  readonly accountId: string;
+  private readonly initialCapital: number;
+  private maxFillQuantity: number;
+  private cash: number;
+  private sequence = 0;
+  private orders: PaperOrder[] = [];
+  private trades: PaperTrade[] = [];
+  private positions = new Map<string, PaperPosition>();
+  private lastPrices = new Map<string, number>();
+
+  constructor(accountId: string, options: PaperAccountOptions) {
+    this.accountId = accountId;
+    this.initialCapital = options.initialCapital;
+    this.maxFillQuantity = options.maxFillQuantity || 0;
+    this.cash = options.initialCapital;
+  }
+
+  /**
+   * Rebuild an account saved with toSnapshot()
+   */
+  static fromSnapshot(snapshot: PaperAccountSnapshot): PaperTradingAccount {
+    const account = new PaperTradingAccount(snapshot.accountId, {
+      initialCapital: snapshot.initialCapital,
+      maxFillQuantity: snapshot.maxFillQuantity
+    });
+    account.cash = snapshot.cash;
+    account.sequence = snapshot.sequence;
+    account.orders = snapshot.orders.map(order => ({ ...order }));
+    account.trades = snapshot.trades.map(trade => ({ ...trade }));
+    for (const position of snapshot.positions) {
+      account.positions.set(`${instrumentKey(position.exchange, position.symbol)}:${position.productType}`, { ...position });
+    }
+    account.lastPrices = new Map(Object.entries(snapshot.lastPrices));
+    return account;
+  }
+
+  toSnapshot(): PaperAccountSnapshot {
+    return {
+      accountId: this.accountId,
+      initialCapital: this.initialCapital,
+      maxFillQuantity: this.maxFillQuantity,
+      cash: this.cash,
+      sequence: this.sequence,
+      orders: this.orders.map(order => ({ ...order })),
+      trades: this.trades.map(trade => ({ ...trade })),
+      positions: Array.from(this.positions.values()).map(position => ({ ...position })),
+      lastPrices: Object.fromEntries(this.lastPrices)
+    };
+  }
+
+  hasOpenOrders(): boolean {
+    return this.orders.some(isPaperOrderOpen);
+  }
+
+  setMaxFillQuantity(maxFillQuantity: number | undefined): void {
+    this.maxFillQuantity = maxFillQuantity || 0;
+  }
+
+  /**
+   * Order book, newest first
+   */
+  getOrders(): PaperOrder[] {
+    return this.orders.map(order => ({ ...order })).reverse();
+  }
+
+  getOrder(orderId: string): PaperOrder | null {
+    const order = this.findOrder(orderId);
+    return order ? { ...order } : null;
+  }
+
+  /**
+   * Fills, newest first
+   */
+  getTrades(): PaperTrade[] {
+    return this.trades.map(trade => ({ ...trade })).reverse();
+  }
+
+  getPositions(): PaperPosition[] {
+    return Array.from(this.positions.values()).map(position => {
+      const unrealizedPnl = position.quantity * (position.lastPrice - position.averagePrice);
+      return {
+        ...position,
+        averagePrice: round(position.averagePrice),
+        realizedPnl: round(position.realizedPnl),
+        unrealizedPnl: round(unrealizedPnl),
+        pnl: round(position.realizedPnl + unrealizedPnl)
+      };
+    });
+  }
+
+  getFunds(): PaperFunds {
+    const positions = this.getPositions();
+    const blocked = this.orders
+      .filter(order => isPaperOrderOpen(order) && order.action === 'BUY')
+      .reduce((total, order) => total + (order.quantity - order.filledQuantity) * this.estimatePrice(order), 0);
+
+    return {
+      initialCapital: this.initialCapital,
+      cash: round(this.cash),
+      blocked: round(blocked),
+      available: round(this.cash - blocked),
+      realizedPnl: round(positions.reduce((total, position) => total + position.realizedPnl, 0)),
+      unrealizedPnl: round(positions.reduce((total, position) => total + position.unrealizedPnl, 0))
+    };
+  }
+
+  /**
+   * Instruments that need prices: anything with an open order or a position
+   */
+  getWatchedInstruments(): Array<{ symbol: string; exchange: string }> {
+    const instruments = new Map<string, { symbol: string; exchange: string }>();
+    for (const order of this.orders.filter(isPaperOrderOpen)) {
+      instruments.set(instrumentKey(order.exchange, order.symbol), { symbol: order.symbol, exchange: order.exchange });
+    }
+    for (const position of this.positions.values()) {
+      instruments.set(instrumentKey(position.exchange, position.symbol), { symbol: position.symbol, exchange: position.exchange });
+    }
+    return Array.from(instruments.values());
+  }
+
+  /**
+   * Accept or reject an order, then try to match it against the reference
+   * price. Rejected orders stay in the order book like on a real broker.
+   */
+  placeOrder(request: PaperOrderRequest, referencePrice: number | null, now: Date = new Date()): PaperOrder {
+    const timestamp = now.toISOString();
+    const isStopOrder = request.orderType === 'SL-LIMIT' || request.orderType === 'SL-MARKET';
+    const order: PaperOrder = {
+      orderId: `PT${now.getTime()}${String(++this.sequence).padStart(4, '0')}`,
+      symbol: request.symbol.trim().toUpperCase(),
+      exchange: (request.exchange || 'NSE').toUpperCase(),
+      action: request.action,
+      quantity: request.quantity,
+      filledQuantity: 0,
+      averagePrice: 0,
+      price: request.price || 0,
+      triggerPrice: request.triggerPrice || 0,
+      orderType: request.orderType,
+      productType: (request.productType || 'CNC').toUpperCase(),
+      validity: (request.validity || 'DAY').toUpperCase(),
+      status: isStopOrder ? 'PENDING' : 'PLACED',
+      triggered: !isStopOrder,
+      remarks: request.remarks,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+
+    if (referencePrice) {
+      this.lastPrices.set(instrumentKey(order.exchange, order.symbol), referencePrice);
+    }
+
+    const rejectionReason = this.validateOrder(order);
+    this.orders.push(order);
+    if (rejectionReason) {
+      order.status = 'REJECTED';
+      order.rejectionReason = rejectionReason;
+      return { ...order };
+    }
+
+    if (referencePrice) {
+      this.matchOrder(order, referencePrice, now);
+    }
+
+    // Immediate-or-cancel orders never rest in the book
+    if (order.validity === 'IOC' && isPaperOrderOpen(order)) {
+      order.status = 'CANCELLED';
+      order.updatedAt = timestamp;
+    }
+
+    return { ...order };
+  }
+
+  cancelOrder(orderId: string, now: Date = new Date()): PaperOrder {
+    const order = this.getOpenOrder(orderId);
+    order.status = 'CANCELLED';
+    order.updatedAt = now.toISOString();
+    return { ...order };
+  }
+
+  modifyOrder(orderId: string, modification: PaperOrderModification, referencePrice: number | null, now: Date = new Date()): PaperOrder {
+    const order = this.getOpenOrder(orderId);
+    const updated: PaperOrder = {
+      ...order,
+      ...(modification.quantity !== undefined && { quantity: modification.quantity }),
+      ...(modification.price !== undefined && { price: modification.price }),
+      ...(modification.triggerPrice !== undefined && { triggerPrice: modification.triggerPrice }),
+      ...(modification.orderType && { orderType: modification.orderType })
+    };
+
+    if (updated.quantity <= order.filledQuantity) {
+      throw new Error(`Quantity must be greater than the filled quantity of ${order.filledQuantity}`);
+    }
+    const rejectionReason = this.validateOrder(updated, order);
+    if (rejectionReason) {
+      throw new Error(rejectionReason);
+    }
+
+    Object.assign(order, updated, { updatedAt: now.toISOString() });
+    if (order.orderType === 'MARKET' || order.orderType === 'LIMIT') {
+      order.triggered = true;
+      if (order.status === 'PENDING') {
+        order.status = 'PLACED';
+      }
+    }
+
+    if (referencePrice) {
+      this.matchOrder(order, referencePrice, now);
+    }
+    return { ...order };
+  }
+
+  /**
+   * Feed a traded price for an instrument: marks positions to market,
+   * triggers stop orders and fills every order the price crosses.
+   * Returns the orders whose state changed.
+   */
+  applyPrice(symbol: string, exchange: string, price: number, now: Date = new Date()): PaperOrder[] {
+    if (!(price > 0)) {
+      return [];
+    }
+
+    const normalizedSymbol = symbol.trim().toUpperCase();
+    const normalizedExchange = exchange.toUpperCase();
+    this.lastPrices.set(instrumentKey(normalizedExchange, normalizedSymbol), price);
+
+    for (const position of this.positions.values()) {
+      if (position.symbol === normalizedSymbol && position.exchange === normalizedExchange) {
+        position.lastPrice = price;
+      }
+    }
+
+    const changed: PaperOrder[] = [];
+    for (const order of this.orders) {
+      if (order.symbol !== normalizedSymbol || order.exchange !== normalizedExchange || !isPaperOrderOpen(order)) {
+        continue;
+      }
+      if (this.matchOrder(order, price, now)) {
+        changed.push({ ...order });
+      }
+    }
+    return changed;
+  }
+
+  private findOrder(orderId: string): PaperOrder | undefined {
+    return this.orders.find(order => order.orderId === orderId);
+  }
+
+  private getOpenOrder(orderId: string): PaperOrder {
+    const order = this.findOrder(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+    if (!isPaperOrderOpen(order)) {
+      throw new Error(`Order ${orderId} is already ${order.status.toLowerCase()}`);
+    }
+    return order;
+  }
+
+  /**
+   * Price used to reserve cash for a buy order that has not filled yet
+   */
+  private estimatePrice(order: PaperOrder): number {
+    if (order.orderType === 'LIMIT' || order.orderType === 'SL-LIMIT') {
+      return order.price;
+    }
+    if (order.orderType === 'SL-MARKET') {
+      return order.triggerPrice;
+    }
+    return this.lastPrices.get(instrumentKey(order.exchange, order.symbol)) || 0;
+  }
+
+  /**
+   * Returns the rejection reason, if any. When modifying, the existing order
+   * is passed so its own reservation is not counted twice.
+   */
+  private validateOrder(order: PaperOrder, existing?: PaperOrder): string | null {
+    if (!Number.isInteger(order.quantity) || order.quantity <= 0) {
+      return 'Quantity must be a positive whole number';
+    }
+    if ((order.orderType === 'LIMIT' || order.orderType === 'SL-LIMIT') && !(order.price > 0)) {
+      return `Price is required for ${order.orderType} orders`;
+    }
+    if ((order.orderType === 'SL-LIMIT' || order.orderType === 'SL-MARKET') && !(order.triggerPrice > 0)) {
+      return `Trigger price is required for ${order.orderType} orders`;
+    }
+
+    const remaining = order.quantity - order.filledQuantity;
+    if (order.action === 'BUY') {
+      const estimatedPrice = this.estimatePrice(order);
+      if (order.orderType === 'MARKET' && !estimatedPrice) {
+        return `No market price available for ${order.symbol}`;
+      }
+      const alreadyReserved = existing ? (existing.quantity - existing.filledQuantity) * this.estimatePrice(existing) : 0;
+      const available = this.getFunds().available + alreadyReserved;
+      if (remaining * estimatedPrice > available) {
+        return `Insufficient funds: required ${round(remaining * estimatedPrice)}, available ${round(available)}`;
+      }
+      return null;
+    }
+
+    if (order.orderType === 'MARKET' && !this.lastPrices.get(instrumentKey(order.exchange, order.symbol))) {
+      return `No market price available for ${order.symbol}`;
+    }
+
+    if (order.productType === 'CNC') {
+      const position = this.positions.get(`${instrumentKey(order.exchange, order.symbol)}:CNC`);
+      const pendingSells = this.orders
+        .filter(item => item !== existing && isPaperOrderOpen(item) && item.action === 'SELL' &&
+          item.productType === 'CNC' && item.symbol === order.symbol && item.exchange === order.exchange)
+        .reduce((total, item) => total + item.quantity - item.filledQuantity, 0);
+      const sellable = Math.max((position?.quantity || 0) - pendingSells, 0);
+      if (remaining > sellable) {
+        return `Insufficient holdings: ${sellable} ${order.symbol} available to sell`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Trigger and fill a single open order at the given price. Returns true
+   * when the order changed. Cash was reserved at an estimate, so a buy that
+   * fills above it is checked again and rejected (or its remainder
+   * cancelled) rather than overdrawing the account.
+   */
+  private matchOrder(order: PaperOrder, price: number, now: Date): boolean {
+    let changed = false;
+
+    if (!order.triggered) {
+      const triggered = order.action === 'BUY' ? price >= order.triggerPrice : price <= order.triggerPrice;
+      if (!triggered) {
+        return false;
+      }
+      order.triggered = true;
+      order.status = 'PLACED';
+      changed = true;
+    }
+
+    const isLimit = order.orderType === 'LIMIT' || order.orderType === 'SL-LIMIT';
+    const crosses = !isLimit || (order.action === 'BUY' ? price <= order.price : price >= order.price);
+    if (crosses) {
+      const remaining = order.quantity - order.filledQuantity;
+      const fillQuantity = this.maxFillQuantity > 0 ? Math.min(remaining, this.maxFillQuantity) : remaining;
+
+      if (order.action === 'BUY') {
+        const available = this.getFunds().available + remaining * this.estimatePrice(order);
+        if (fillQuantity * price > available) {
+          order.status = order.filledQuantity > 0 ? 'CANCELLED' : 'REJECTED';
+          order.rejectionReason = `Insufficient funds: required ${round(fillQuantity * price)}, available ${round(available)}`;
+          order.updatedAt = now.toISOString();
+          return true;
+        }
+      }
+
+      order.averagePrice = (order.averagePrice * order.filledQuantity + price * fillQuantity) / (order.filledQuantity + fillQuantity);
+      order.filledQuantity += fillQuantity;
+      order.status = order.filledQuantity === order.quantity ? 'EXECUTED' : 'PARTIALLY_FILLED';
+      this.applyFill(order, fillQuantity, price, now);
+      changed = true;
+    }
+
+    if (changed) {
+      order.updatedAt = now.toISOString();
+    }
+    return changed;
+  }
+
+  /**
+   * Record the trade, move cash and update the net position for a fill
+   */
+  private applyFill(order: PaperOrder, quantity: number, price: number, now: Date): void {
+    this.trades.push({
+      tradeId: `${order.orderId}-${this.trades.filter(trade => trade.orderId === order.orderId).length + 1}`,
+      orderId: order.orderId,
+      symbol: order.symbol,
+      exchange: order.exchange,
+      action: order.action,
+      quantity,
+      price,
+      productType: order.productType,
+      tradeTime: now.toISOString()
+    });
+
+    const key = `${instrumentKey(order.exchange, order.symbol)}:${order.productType}`;
+    const position: PaperPosition = this.positions.get(key) || {
+      symbol: order.symbol,
+      exchange: order.exchange,
+      productType: order.productType,
+      quantity: 0,
+      averagePrice: 0,
+      lastPrice: price,
+      realizedPnl: 0,
+      unrealizedPnl: 0,
+      pnl: 0
+    };
+    const signedQuantity = order.action === 'BUY' ? quantity : -quantity;
+
+    if (position.quantity === 0 || Math.sign(position.quantity) === Math.sign(signedQuantity)) {
+      const openQuantity = Math.abs(position.quantity);
+      position.averagePrice = (position.averagePrice * openQuantity + price * quantity) / (openQuantity + quantity);
+    } else {
+      const closingQuantity = Math.min(quantity, Math.abs(position.quantity));
+      position.realizedPnl += closingQuantity * (price - position.averagePrice) * Math.sign(position.quantity);
+      if (quantity > closingQuantity) {
+        // Position flipped sides; the remainder opens at the fill price
+        position.averagePrice = price;
+      }
+    }
+
+    position.quantity += signedQuantity;
+    if (position.quantity === 0) {
+      position.averagePrice = 0;
+    }
+    position.lastPrice = price;
+    this.positions.set(key, position);
+    this.cash -= signedQuantity * price;
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * Unified Paper Service
+ * Implements IUnifiedBrokerService on top of a simulated paper trading
+ * account, so strategies and the multi-account flow can run without real money.
+ * Order statuses are returned in the app's own vocabulary (PLACED, EXECUTED, ...).
+ */
+
+import {
+  IUnifiedBrokerService,
+  UnifiedConnectionResponse,
+  UnifiedOAuthResponse,
+  UnifiedTokenRefreshResponse,
+  UnifiedValidationResponse,
+  UnifiedAccountInfo,
+  UnifiedTokenInfo,
+  UnifiedResponseHelper,
+  UnifiedHolding,
+  UnifiedFunds,
+  UnifiedTrade,
+  UnifiedCandle,
+  CandleInterval,
+  AccountStatus
+} from '@copytrade/unified-broker';
+import { symbolDatabaseService } from '../../services/symbolDatabaseService';
+import { paperExchange } from './paperExchange';
+import { PaperTradingAccount } from './PaperTradingAccount';
+import { PaperCredentials, PaperOrderType } from './types';
+
+export const DEFAULT_PAPER_CAPITAL = 1000000;
+
+const PAPER_ORDER_TYPES: PaperOrderType[] = ['MARKET', 'LIMIT', 'SL-LIMIT', 'SL-MARKET'];
+
+export class UnifiedPaperService implements IUnifiedBrokerService {
+  private account: PaperTradingAccount | null = null;
+  private accountInfo: UnifiedAccountInfo | null = null;
+  private tokenInfo: UnifiedTokenInfo | null = null;
+
+  getBrokerName(): string {
+    return 'paper';
+  }
+
+  /**
+   * Open (or reopen) the paper account. The generated account id is written
+   * back to the credentials so reconnecting resumes the same account.
+   */
+  async connect(credentials: any): Promise<UnifiedConnectionResponse> {
+    const paperCredentials = (credentials || {}) as PaperCredentials;
+    const initialCapital = paperCredentials.initialCapital !== undefined
+      ? Number(paperCredentials.initialCapital)
+      : DEFAULT_PAPER_CAPITAL;
+
+    if (!(initialCapital > 0)) {
+      return UnifiedResponseHelper.createErrorResponse(
+        'Initial capital must be a positive amount',
+        'VALIDATION_ERROR',
+        'INACTIVE',
+        'DIRECT_AUTH'
+      );
+    }
+
+    if (!paperCredentials.accountId) {
+      paperCredentials.accountId = `PAPER${Date.now().toString(36).toUpperCase()}`;
+    }
+
+    try {
+      this.account = await paperExchange.getOrCreateAccount(paperCredentials.accountId, {
+        initialCapital,
+        maxFillQuantity: Number(paperCredentials.maxFillQuantity) || 0
+      });
+    } catch (error: any) {
+      // Never open a fresh account over one that couldn't be loaded
+      return UnifiedResponseHelper.createErrorResponse(
+        `Paper trading account could not be loaded: ${error.message}`,
+        'BROKER_ERROR',
+        'INACTIVE',
+        'DIRECT_AUTH'
+      );
+    }
+
+    this.accountInfo = {
+      accountId: paperCredentials.accountId,
+      userName: paperCredentials.accountName || 'Paper Trader',
+      brokerDisplayName: 'Paper Trading',
+      exchanges: ['NSE', 'BSE'],
+      products: ['CNC', 'MIS', 'NRML']
+    };
+
+    // Paper sessions never expire
+    this.tokenInfo = {
+      expiryTime: null,
+      isExpired: false,
+      canRefresh: false
+    };
+
+    return UnifiedResponseHelper.createSuccessResponse(
+      'Paper trading account connected successfully',
+      'ACTIVE',
+      'DIRECT_AUTH',
+      this.accountInfo,
+      this.tokenInfo
+    );
+  }
+
+  /**
+   * Paper trading doesn't use OAuth, so this method returns an error
+   */
+  async completeOAuth(_authCode: string, _credentials: any): Promise<UnifiedOAuthResponse> {
+    return UnifiedResponseHelper.createErrorResponse(
+      'Paper trading does not support OAuth authentication',
+      'VALIDATION_ERROR',
+      'INACTIVE',
+      'DIRECT_AUTH'
+    ) as UnifiedOAuthResponse;
+  }
+
+  async refreshToken(_credentials: any): Promise<UnifiedTokenRefreshResponse> {
+    if (this.account && this.tokenInfo) {
+      return UnifiedResponseHelper.createSuccessResponse(
+        'Paper trading sessions do not require refresh',
+        'ACTIVE',
+        'DIRECT_AUTH',
+        this.accountInfo || undefined,
+        this.tokenInfo
+      ) as UnifiedTokenRefreshResponse;
+    }
+
+    return UnifiedResponseHelper.createErrorResponse(
+      'No active paper trading session to refresh',
+      'AUTH_FAILED',
+      'INACTIVE',
+      'REAUTH_REQUIRED'
+    ) as UnifiedTokenRefreshResponse;
+  }
+
+  async validateSession(_credentials: any): Promise<UnifiedValidationResponse> {
+    if (!this.account || !this.tokenInfo) {
+      return {
+        isValid: false,
+        accountStatus: 'INACTIVE',
+        message: 'No active paper trading session',
+        errorType: 'AUTH_FAILED'
+      };
+    }
+
+    return {
+      isValid: true,
+      accountStatus: 'ACTIVE',
+      message: 'Paper trading session is valid',
+      tokenInfo: this.tokenInfo
+    };
+  }
+
+  /**
+   * Disconnect keeps the simulated account so a reconnect resumes it
+   */
+  async disconnect(): Promise<boolean> {
+    this.account = null;
+    this.accountInfo = null;
+    this.tokenInfo = null;
+    return true;
+  }
+
+  getAccountInfo(): UnifiedAccountInfo | null {
+    return this.accountInfo;
+  }
+
+  getTokenInfo(): UnifiedTokenInfo | null {
+    return this.tokenInfo;
+  }
+
+  isConnected(): boolean {
+    return this.account !== null;
+  }
+
+  getAccountStatus(): AccountStatus {
+    return this.account ? 'ACTIVE' : 'INACTIVE';
+  }
+
+  // Trading operations - executed against the simulated account
+  async placeOrder(orderRequest: any): Promise<any> {
+    const account = this.getConnectedAccount();
+
+    if (!PAPER_ORDER_TYPES.includes(orderRequest.orderType)) {
+      return {
+        success: false,
+        message: `Unsupported order type: ${orderRequest.orderType}`,
+        data: null
+      };
+    }
+
+    // The simulator fills against live prices, so there is no next-session queue to hold an AMO
+    if (orderRequest.variety === 'AMO') {
+      return {
+        success: false,
+        message: 'After-market orders are not supported on paper trading accounts',
+        data: null
+      };
+    }
+
+    const exchange = orderRequest.exchange || 'NSE';
+    const referencePrice = await paperExchange.getPrice(orderRequest.symbol, exchange);
+    const order = account.placeOrder({
+      symbol: orderRequest.symbol,
+      action: orderRequest.action,
+      quantity: Number(orderRequest.quantity),
+      orderType: orderRequest.orderType,
+      price: Number(orderRequest.price) || undefined,
+      triggerPrice: Number(orderRequest.triggerPrice) || undefined,
+      exchange,
+      productType: orderRequest.productType,
+      validity: orderRequest.validity,
+      remarks: orderRequest.remarks
+    }, referencePrice);
+    await paperExchange.persist(account);
+
+    if (order.status === 'REJECTED') {
+      return {
+        success: false,
+        message: order.rejectionReason || 'Order rejected',
+        data: null
+      };
+    }
+
+    return {
+      success: true,
+      message: 'Order placed successfully',
+      data: {
+        brokerOrderId: order.orderId,
+        orderId: order.orderId,
+        status: 'PLACED'
+      }
+    };
+  }
+
+  async cancelOrder(orderId: string): Promise<any> {
+    try {
+      const account = this.getConnectedAccount();
+      const order = account.cancelOrder(orderId);
+      await paperExchange.persist(account);
+      return {
+        success: true,
+        message: 'Order cancelled successfully',
+        data: {
+          orderId: order.orderId,
+          brokerOrderId: order.orderId,
+          status: order.status
+        }
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        message: error.message || 'Order cancellation failed',
+        data: null
+      };
+    }
+  }
+
+  async modifyOrder(orderId: string, modifications: any): Promise<any> {
+    try {
+      const account = this.getConnectedAccount();
+      const existing = account.getOrder(orderId);
+      const referencePrice = existing ? await paperExchange.getPrice(existing.symbol, existing.exchange) : null;
+      const order = account.modifyOrder(orderId, {
+        quantity: modifications.quantity !== undefined ? Number(modifications.quantity) : undefined,
+        price: modifications.price !== undefined ? Number(modifications.price) : undefined,
+        triggerPrice: modifications.triggerPrice !== undefined ? Number(modifications.triggerPrice) : undefined,
+        orderType: PAPER_ORDER_TYPES.includes(modifications.orderType) ? modifications.orderType : undefined
+      }, referencePrice);
+      await paperExchange.persist(account);
+
+      return {
+        success: true,
+        message: 'Order modified successfully',
+        data: {
+          orderId: order.orderId,
+          brokerOrderId: order.orderId,
+          status: order.status
+        }
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        message: error.message || 'Order modification failed',
+        data: null
+      };
+    }
+  }
+
+  async getOrderStatus(_accountId: string, orderId: string): Promise<any> {
+    const order = this.getConnectedAccount().getOrder(orderId);
+    if (!order) {
+      return {
+        success: false,
+        message: `Order ${orderId} not found`,
+        data: null
+      };
+    }
+
+    return {
+      success: true,
+      message: 'Order status retrieved successfully',
+      data: {
+        ...order,
+        executedQuantity: order.filledQuantity,
+        ...(order.rejectionReason && { rejectionReason: order.rejectionReason }),
+        updateTime: order.updatedAt
+      }
+    };
+  }
+
+  async getOrderHistory(_accountId: string): Promise<any> {
+    return this.getConnectedAccount().getOrders();
+  }
+
+  async getPositions(_accountId: string): Promise<any> {
+    return this.getConnectedAccount().getPositions();
+  }
+
+  /**
+   * Delivery (CNC) positions; paper trades settle immediately
+   */
+  async getHoldings(_accountId: string): Promise<UnifiedHolding[]> {
+    return this.getConnectedAccount().getPositions()
+      .filter(position => position.productType === 'CNC' && position.quantity > 0)
+      .map(position => ({
+        symbol: position.symbol,
+        exchange: position.exchange,
+        quantity: position.quantity,
+        t1Quantity: 0,
+        averagePrice: position.averagePrice,
+        lastPrice: position.lastPrice,
+        pnl: position.unrealizedPnl
+      }));
+  }
+
+  /**
+   * Virtual cash balance; open buy orders count as used margin
+   */
+  async getFunds(_accountId: string): Promise<UnifiedFunds> {
+    const funds = this.getConnectedAccount().getFunds();
+    return {
+      availableCash: funds.available,
+      usedMargin: funds.blocked,
+      totalBalance: funds.cash,
+      collateral: 0,
+      realizedPnl: funds.realizedPnl
+    };
+  }
+
+  async getTradeBook(_accountId: string): Promise<UnifiedTrade[]> {
+    return this.getConnectedAccount().getTrades();
+  }
+
+  async getQuote(symbol: string, exchange: string): Promise<any> {
+    const price = await paperExchange.getPrice(symbol, exchange);
+    if (!price) {
+      throw new Error(`No market price available for ${symbol}`);
+    }
+    return {
+      symbol,
+      exchange,
+      ltp: price,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  async searchSymbols(query: string, exchange: string): Promise<any> {
+    const exchangeFilter = exchange === 'NSE' || exchange === 'BSE' ? exchange : 'ALL';
+    return symbolDatabaseService.searchSymbols(query, 20, exchangeFilter);
+  }
+
+  async getCandles(_symbol: string, _exchange: string, _interval: CandleInterval, _from: Date, _to: Date): Promise<UnifiedCandle[]> {
+    // The paper exchange keeps no history; charts fall back to stored and live bars
+    return [];
+  }
+
+  private getConnectedAccount(): PaperTradingAccount {
+    if (!this.account) {
+      throw new Error('Not connected to paper trading account. Please connect first.');
+    }
+    return this.account;
+  }
+}
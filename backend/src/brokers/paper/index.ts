@@ -0,0 +1,82 @@
+/**
+ * Paper Broker Plugin
+ * Simulated broker for paper trading, registered like any other broker
+ */
+
+import { BrokerRegistry, BrokerPlugin, UnifiedBrokerFactory } from '@copytrade/unified-broker';
+import { marketDataService } from '../../services/marketDataService';
+import { userDatabase } from '../../services/databaseCompatibility';
+import { PaperServiceAdapter } from './PaperServiceAdapter';
+import { UnifiedPaperService } from './UnifiedPaperService';
+import { paperExchange } from './paperExchange';
+import { PaperAccountSnapshot, PaperAccountStore, PaperPriceSource } from './types';
+
+// Plugin metadata
+const PLUGIN_INFO: Omit<BrokerPlugin, 'createInstance'> = {
+  name: 'paper',
+  version: '1.0.0',
+  description: 'Paper trading broker with simulated order execution',
+  dependencies: []
+};
+
+// Plugin factory function
+const createPaperInstance = () => {
+  return new PaperServiceAdapter();
+};
+
+// Complete plugin configuration
+const paperPlugin: BrokerPlugin = {
+  ...PLUGIN_INFO,
+  createInstance: createPaperInstance
+};
+
+/**
+ * Live NSE/BSE prices; trading symbols carry a -EQ suffix the market data API doesn't use
+ */
+export const marketDataPriceSource: PaperPriceSource = async (symbol, exchange) => {
+  const marketPrice = await marketDataService.getPrice(symbol.replace(/-EQ$/i, ''), exchange);
+  return marketPrice?.price || null;
+};
+
+/**
+ * Paper accounts saved through the database adapter
+ */
+export const databaseAccountStore: PaperAccountStore = {
+  load: async accountId => {
+    const state = await userDatabase.getPaperAccountState(accountId);
+    return state ? state.snapshot as PaperAccountSnapshot : null;
+  },
+  loadAll: async () => {
+    const states = await userDatabase.getPaperAccountStates();
+    return states.map(state => state.snapshot as PaperAccountSnapshot);
+  },
+  save: async snapshot => {
+    await userDatabase.savePaperAccountState(snapshot.accountId, snapshot);
+  }
+};
+
+/**
+ * Register the paper broker with the plugin registry and the unified broker
+ * factory, which is what getAvailableBrokers() reports
+ */
+export function registerPaperPlugin(
+  registry: BrokerRegistry,
+  priceSource: PaperPriceSource = marketDataPriceSource,
+  store: PaperAccountStore = databaseAccountStore
+): void {
+  registry.registerPlugin(paperPlugin);
+  UnifiedBrokerFactory.getInstance().registerBroker(PLUGIN_INFO.name, () => new UnifiedPaperService());
+  paperExchange.setPriceSource(priceSource);
+  paperExchange.setStore(store);
+}
+
+// Default export for auto-registration
+export default {
+  register: registerPaperPlugin,
+  plugin: paperPlugin,
+  createInstance: createPaperInstance
+};
+
+// Named exports for manual usage
+export { PaperServiceAdapter, UnifiedPaperService, paperExchange };
+export * from './types';
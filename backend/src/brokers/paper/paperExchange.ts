@@ -0,0 +1,230 @@
+/**
+ * Paper Exchange
+ * Holds every paper trading account and matches their open orders against
+ * market prices. Accounts are kept in memory and saved to the account store
+ * after every change, so a restart picks them up where they left off; on
+ * start the accounts with open orders are loaded and matched again.
+ *
+ * Prices come from the configured price source on each tick; feedPrice()
+ * lets a replayed price feed drive the matching instead.
+ */
+
+import { logger } from '../../utils/logger';
+import { PaperTradingAccount } from './PaperTradingAccount';
+import { PaperAccountOptions, PaperAccountStore, PaperPriceSource } from './types';
+
+export class PaperExchange {
+  private accounts = new Map<string, PaperTradingAccount>();
+  private priceSource: PaperPriceSource = async () => null;
+  private store: PaperAccountStore = {
+    load: async () => null,
+    loadAll: async () => [],
+    save: async () => {}
+  };
+  // Last pending save per account, so snapshots are written in order
+  private saves = new Map<string, Promise<void>>();
+  private tickInterval: NodeJS.Timeout | null = null;
+  private isTicking: boolean = false;
+  private readonly TICK_INTERVAL = 2000; // 2 seconds
+
+  setPriceSource(priceSource: PaperPriceSource): void {
+    this.priceSource = priceSource;
+  }
+
+  setStore(store: PaperAccountStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Existing account (in memory, else from the store), or a new one funded
+   * with the initial capital
+   */
+  async getOrCreateAccount(accountId: string, options: PaperAccountOptions): Promise<PaperTradingAccount> {
+    let account = this.accounts.get(accountId);
+    if (!account) {
+      const snapshot = await this.store.load(accountId);
+      // Another connect may have opened the account while the store was read
+      account = this.accounts.get(accountId);
+      if (!account && snapshot) {
+        account = PaperTradingAccount.fromSnapshot(snapshot);
+        this.accounts.set(accountId, account);
+      }
+    }
+
+    if (!account) {
+      account = new PaperTradingAccount(accountId, options);
+      this.accounts.set(accountId, account);
+      logger.info('Paper trading account opened', {
+        component: 'PAPER_BROKER',
+        operation: 'OPEN_ACCOUNT',
+        accountId,
+        initialCapital: options.initialCapital
+      });
+    } else {
+      account.setMaxFillQuantity(options.maxFillQuantity);
+    }
+
+    await this.persist(account);
+    return account;
+  }
+
+  /**
+   * Save the account's current state. Failures are logged, not thrown: the
+   * in-memory account stays authoritative and the next change saves again.
+   */
+  persist(account: PaperTradingAccount): Promise<void> {
+    const snapshot = account.toSnapshot();
+    const previous = this.saves.get(account.accountId) || Promise.resolve();
+    const save = previous
+      .then(() => this.store.save(snapshot))
+      .catch(error => {
+        logger.warn('Paper account could not be saved', {
+          component: 'PAPER_BROKER',
+          operation: 'SAVE_ACCOUNT',
+          accountId: account.accountId
+        }, error);
+      });
+    this.saves.set(account.accountId, save);
+    return save;
+  }
+
+  /**
+   * Load stored accounts that still have open orders, so they keep matching
+   * before their owners reconnect
+   */
+  async restoreAccounts(): Promise<number> {
+    let restored = 0;
+    for (const snapshot of await this.store.loadAll()) {
+      if (this.accounts.has(snapshot.accountId)) {
+        continue;
+      }
+      const account = PaperTradingAccount.fromSnapshot(snapshot);
+      if (account.hasOpenOrders()) {
+        this.accounts.set(snapshot.accountId, account);
+        restored++;
+      }
+    }
+    return restored;
+  }
+
+  getAccount(accountId: string): PaperTradingAccount | null {
+    return this.accounts.get(accountId) || null;
+  }
+
+  async getPrice(symbol: string, exchange: string): Promise<number | null> {
+    try {
+      return await this.priceSource(symbol, exchange);
+    } catch (error) {
+      logger.warn('Paper broker price lookup failed', {
+        component: 'PAPER_BROKER',
+        operation: 'GET_PRICE',
+        symbol,
+        exchange
+      }, error);
+      return null;
+    }
+  }
+
+  /**
+   * Apply a price to every account, e.g. from a replayed price feed
+   */
+  feedPrice(symbol: string, exchange: string, price: number, now: Date = new Date()): void {
+    for (const account of this.accounts.values()) {
+      if (account.applyPrice(symbol, exchange, price, now).length > 0) {
+        void this.persist(account);
+      }
+    }
+  }
+
+  /**
+   * Start the matching loop
+   */
+  start(): void {
+    if (this.tickInterval) {
+      return;
+    }
+
+    this.restoreAccounts()
+      .then(restored => {
+        if (restored > 0) {
+          logger.info('Paper accounts restored', {
+            component: 'PAPER_BROKER',
+            operation: 'RESTORE_ACCOUNTS',
+            restored
+          });
+        }
+      })
+      .catch(error => {
+        logger.error('Paper accounts could not be restored', {
+          component: 'PAPER_BROKER',
+          operation: 'RESTORE_ACCOUNTS'
+        }, error);
+      });
+
+    this.tickInterval = setInterval(() => {
+      this.tick().catch(error => {
+        logger.error('Paper exchange tick failed', {
+          component: 'PAPER_BROKER',
+          operation: 'TICK'
+        }, error);
+      });
+    }, this.TICK_INTERVAL);
+
+    logger.info('Paper exchange started', {
+      component: 'PAPER_BROKER',
+      operation: 'START',
+      tickInterval: this.TICK_INTERVAL
+    });
+  }
+
+  /**
+   * Stop the matching loop
+   */
+  stop(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+
+    logger.info('Paper exchange stopped', {
+      component: 'PAPER_BROKER',
+      operation: 'STOP'
+    });
+  }
+
+  isRunning(): boolean {
+    return this.tickInterval !== null;
+  }
+
+  /**
+   * Fetch one price per watched instrument and apply it to every account
+   */
+  async tick(): Promise<void> {
+    // Skip if the previous tick is still running
+    if (this.isTicking) {
+      return;
+    }
+
+    this.isTicking = true;
+    try {
+      const instruments = new Map<string, { symbol: string; exchange: string }>();
+      for (const account of this.accounts.values()) {
+        for (const instrument of account.getWatchedInstruments()) {
+          instruments.set(`${instrument.exchange}:${instrument.symbol}`, instrument);
+        }
+      }
+
+      const now = new Date();
+      for (const { symbol, exchange } of instruments.values()) {
+        const price = await this.getPrice(symbol, exchange);
+        if (price) {
+          this.feedPrice(symbol, exchange, price, now);
+        }
+      }
+    } finally {
+      this.isTicking = false;
+    }
+  }
+}
+
+export const paperExchange = new PaperExchange();
@@ -0,0 +1,118 @@
+/**
+ * Paper Broker Types
+ * Type definitions for the simulated paper trading broker
+ */
+
+export interface PaperCredentials {
+  accountId?: string; // assigned on first connect and reused afterwards
+  accountName?: string;
+  initialCapital?: number;
+  maxFillQuantity?: number; // largest quantity filled per price update, 0 fills in full
+}
+
+// PENDING = stop order waiting for its trigger price
+export type PaperOrderStatus = 'PENDING' | 'PLACED' | 'PARTIALLY_FILLED' | 'EXECUTED' | 'CANCELLED' | 'REJECTED';
+
+export type PaperOrderType = 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET';
+
+export interface PaperOrderRequest {
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  orderType: PaperOrderType;
+  price?: number | undefined;
+  triggerPrice?: number | undefined;
+  exchange?: string | undefined;
+  productType?: string | undefined;
+  validity?: string | undefined;
+  remarks?: string | undefined;
+}
+
+export interface PaperOrderModification {
+  quantity?: number | undefined;
+  price?: number | undefined;
+  triggerPrice?: number | undefined;
+  orderType?: PaperOrderType | undefined;
+}
+
+export interface PaperOrder {
+  orderId: string;
+  symbol: string;
+  exchange: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  filledQuantity: number;
+  averagePrice: number;
+  price: number;
+  triggerPrice: number;
+  orderType: PaperOrderType;
+  productType: string;
+  validity: string;
+  status: PaperOrderStatus;
+  triggered: boolean;
+  rejectionReason?: string | undefined;
+  remarks?: string | undefined;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PaperPosition {
+  symbol: string;
+  exchange: string;
+  productType: string;
+  quantity: number; // signed net quantity, negative for short positions
+  averagePrice: number;
+  lastPrice: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  pnl: number;
+}
+
+export interface PaperTrade {
+  tradeId: string;
+  orderId: string;
+  symbol: string;
+  exchange: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  productType: string;
+  tradeTime: string;
+}
+
+export interface PaperFunds {
+  initialCapital: number;
+  cash: number;
+  blocked: number; // value reserved for open buy orders
+  available: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+}
+
+export interface PaperAccountOptions {
+  initialCapital: number;
+  maxFillQuantity?: number | undefined;
+}
+
+export type PaperPriceSource = (symbol: string, exchange: string) => Promise<number | null>;
+
+/**
+ * Everything needed to rebuild an account after a restart
+ */
+export interface PaperAccountSnapshot {
+  accountId: string;
+  initialCapital: number;
+  maxFillQuantity: number;
+  cash: number;
+  sequence: number;
+  orders: PaperOrder[];
+  trades: PaperTrade[];
+  positions: PaperPosition[];
+  lastPrices: Record<string, number>;
+}
+
+export interface PaperAccountStore {
+  load(accountId: string): Promise<PaperAccountSnapshot | null>;
+  loadAll(): Promise<PaperAccountSnapshot[]>;
+  save(snapshot: PaperAccountSnapshot): Promise<void>;
+}
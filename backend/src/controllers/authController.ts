@@ -1,28 +1,40 @@
 import { Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { validationResult } from 'express-validator';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { getDatabase } from '../services/databaseFactory';
 import { User } from '../interfaces/IDatabaseAdapter';
 import { populateCacheForUser } from './brokerController';
+import { IssuedTokens, authSessionService } from '../services/authSessionService';
+import { twoFactorService } from '../services/twoFactorService';
+import { auditService } from '../services/auditService';
 
-// Helper function to generate JWT token
-const generateToken = (user: Pick<User, 'id' | 'email' | 'name'>): string => {
-  const jwtSecret = process.env.JWT_SECRET;
-  if (!jwtSecret) {
-    throw new Error('JWT_SECRET not configured');
+const toUserResponse = (user: User) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  createdAt: user.created_at,
+  twoFactorEnabled: user.two_factor_enabled,
+});
+
+const toTokenResponse = (tokens: IssuedTokens) => ({
+  token: tokens.token,
+  refreshToken: tokens.refreshToken,
+  expiresIn: tokens.expiresIn,
+});
+
+const sendValidationErrors = (req: Request, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
   }
 
-  return jwt.sign(
-    {
-      id: user.id.toString(),
-      email: user.email,
-      name: user.name,
-    },
-    jwtSecret,
-    { expiresIn: '24h' }
-  );
+  res.status(400).json({
+    success: false,
+    message: 'Validation failed',
+    errors: errors.array(),
+  });
+  return true;
 };
 
 export const register = async (
@@ -32,13 +44,7 @@ export const register = async (
 ): Promise<void> => {
   try {
     // Check validation errors
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      res.status(400).json({
-        success: false,
-        message: 'Validation failed',
-        errors: errors.array(),
-      });
+    if (sendValidationErrors(req, res)) {
       return;
     }
 
@@ -56,24 +62,14 @@ export const register = async (
       password: hashedPassword,
     });
 
-    // Generate token
-    const token = generateToken({
-      id: newUser.id,
-      email: newUser.email,
-      name: newUser.name,
-    });
+    const tokens = await authSessionService.createSession(newUser, req);
 
     res.status(201).json({
       success: true,
       message: 'User registered successfully',
       data: {
-        user: {
-          id: newUser.id,
-          email: newUser.email,
-          name: newUser.name,
-          createdAt: newUser.created_at,
-        },
-        token,
+        user: toUserResponse(newUser),
+        ...toTokenResponse(tokens),
       },
     });
   } catch (error) {
@@ -88,13 +84,7 @@ export const login = async (
 ): Promise<void> => {
   try {
     // Check validation errors
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      res.status(400).json({
-        success: false,
-        message: 'Validation failed',
-        errors: errors.array(),
-      });
+    if (sendValidationErrors(req, res)) {
       return;
     }
 
@@ -121,12 +111,76 @@ export const login = async (
       return;
     }
 
-    // Generate token
-    const token = generateToken({
-      id: user.id,
-      email: user.email,
-      name: user.name,
+    // The session is only created once the second factor is checked
+    if (user.two_factor_enabled) {
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor code required',
+        data: {
+          requiresTwoFactor: true,
+          challengeToken: authSessionService.issueTwoFactorChallenge(user.id.toString()),
+        },
+      });
+      return;
+    }
+
+    const tokens = await authSessionService.createSession(user, req);
+
+    // Populate broker account cache for this user
+    await populateCacheForUser(user.id.toString());
+
+    res.status(200).json({
+      success: true,
+      message: 'Login successful',
+      data: {
+        user: toUserResponse(user),
+        ...toTokenResponse(tokens),
+      },
     });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Second login step for users with 2FA: exchange the challenge token and an
+ * authenticator or recovery code for a session
+ */
+export const verifyTwoFactorLogin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (sendValidationErrors(req, res)) {
+      return;
+    }
+
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    const userId = authSessionService.verifyTwoFactorChallenge(challengeToken);
+    const database = await getDatabase();
+    const user = userId ? await database.findUserById(userId) : null;
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        message: 'Login attempt expired. Please log in again.',
+      });
+      return;
+    }
+
+    const result = await twoFactorService.verifySecondFactor(user, { code, recoveryCode });
+    if (!result.valid) {
+      res.status(result.lockedOut ? 429 : 401).json({
+        success: false,
+        message: result.lockedOut
+          ? 'Too many incorrect codes. Please try again later.'
+          : 'Invalid two-factor code',
+      });
+      return;
+    }
+
+    const tokens = await authSessionService.createSession(user, req);
 
     // Populate broker account cache for this user
     await populateCacheForUser(user.id.toString());
@@ -135,13 +189,9 @@ export const login = async (
       success: true,
       message: 'Login successful',
       data: {
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          createdAt: user.created_at,
-        },
-        token,
+        user: toUserResponse(user),
+        ...toTokenResponse(tokens),
+        ...(result.usedRecoveryCode && { remainingRecoveryCodes: result.remainingRecoveryCodes }),
       },
     });
   } catch (error) {
@@ -149,19 +199,66 @@ export const login = async (
   }
 };
 
-export const logout = (
-  _req: AuthenticatedRequest,
+/**
+ * Rotate the refresh token and issue a new access token
+ */
+export const refreshToken = async (
+  req: Request,
   res: Response,
-  _next: NextFunction
-): void => {
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (sendValidationErrors(req, res)) {
+      return;
+    }
+
+    const result = await authSessionService.refresh(req.body.refreshToken, req);
+    if (!result.success) {
+      if (result.reason === 'REUSED') {
+        await auditService.record({
+          userId: result.userId,
+          action: 'SESSION_REVOKED',
+          resourceId: result.sessionId,
+          details: { reason: 'REFRESH_TOKEN_REUSE' },
+        }, req);
+      }
+
+      res.status(401).json({
+        success: false,
+        message: 'Session has ended. Please log in again.',
+        errorType: 'REFRESH_FAILED',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        user: toUserResponse(result.user),
+        ...toTokenResponse(result.tokens),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const logout = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
-    // In a real application, you might want to blacklist the token
+    if (req.user?.sessionId) {
+      await authSessionService.revokeSession(req.user.id, req.user.sessionId, 'LOGOUT');
+    }
+
     res.status(200).json({
       success: true,
       message: 'Logout successful',
     });
   } catch (error) {
-    _next(error);
+    next(error);
   }
 };
 
@@ -189,3 +286,401 @@ export const getProfile = (
     next(error);
   }
 };
+
+export const getSessions = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const sessions = await authSessionService.listSessions(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        sessions: sessions.map(session => ({
+          id: session.id,
+          deviceName: session.device_name,
+          userAgent: session.user_agent,
+          ipAddress: session.ip_address,
+          createdAt: session.created_at,
+          lastUsedAt: session.last_used_at,
+          expiresAt: session.expires_at,
+          current: session.id === req.user?.sessionId,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeSession = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const { sessionId } = req.params;
+    const revoked = await authSessionService.revokeSession(req.user.id, sessionId, 'USER_REVOKED');
+    if (!revoked) {
+      res.status(404).json({
+        success: false,
+        message: 'Session not found',
+      });
+      return;
+    }
+
+    await auditService.record({
+      userId: req.user.id,
+      action: 'SESSION_REVOKED',
+      resourceId: sessionId,
+      details: { reason: 'USER_REVOKED', current: sessionId === req.user.sessionId },
+    }, req);
+
+    res.status(200).json({
+      success: true,
+      message: 'Session logged out',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * "Log out other sessions": revoke every session except the one making the request
+ */
+export const revokeOtherSessions = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const revoked = await authSessionService.revokeOtherSessions(req.user.id, req.user.sessionId || null, 'USER_REVOKED_OTHERS');
+
+    await auditService.record({
+      userId: req.user.id,
+      action: 'OTHER_SESSIONS_REVOKED',
+      details: { revoked },
+    }, req);
+
+    res.status(200).json({
+      success: true,
+      message: `Logged out ${revoked} other session${revoked === 1 ? '' : 's'}`,
+      data: { revoked },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Re-authenticate before sensitive operations: the authenticator or a recovery
+ * code when 2FA is enabled, the password otherwise
+ */
+export const stepUp = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (sendValidationErrors(req, res)) {
+      return;
+    }
+
+    if (!req.user?.sessionId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const database = await getDatabase();
+    const user = await database.findUserById(req.user.id);
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const { password, code, recoveryCode } = req.body;
+
+    if (user.two_factor_enabled) {
+      const result = await twoFactorService.verifySecondFactor(user, { code, recoveryCode });
+      if (!result.valid) {
+        res.status(result.lockedOut ? 429 : 401).json({
+          success: false,
+          message: result.lockedOut
+            ? 'Too many incorrect codes. Please try again later.'
+            : 'Invalid two-factor code',
+        });
+        return;
+      }
+    } else if (!password || !(await bcrypt.compare(password, user.password))) {
+      res.status(401).json({
+        success: false,
+        message: 'Incorrect password',
+      });
+      return;
+    }
+
+    const stepUpAt = await authSessionService.markSteppedUp(req.user.sessionId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Identity confirmed',
+      data: {
+        stepUpAt,
+        method: user.two_factor_enabled ? 'TWO_FACTOR' : 'PASSWORD',
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTwoFactorStatus = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const database = await getDatabase();
+    const user = req.user ? await database.findUserById(req.user.id) : null;
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        enabled: user.two_factor_enabled,
+        recoveryCodesRemaining: user.two_factor_recovery_codes.length,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Start enabling 2FA: generate a secret for the authenticator app. It only
+ * takes effect once a code from the app is confirmed.
+ */
+export const setupTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const database = await getDatabase();
+    const user = req.user ? await database.findUserById(req.user.id) : null;
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    if (user.two_factor_enabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled',
+      });
+      return;
+    }
+
+    const secret = twoFactorService.generateSecret();
+    await database.updateUser(user.id, { two_factor_pending_secret: secret });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        secret,
+        otpauthUrl: twoFactorService.getOtpAuthUrl(user.email, secret),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Confirm the first code from the authenticator app and switch 2FA on.
+ * Returns the recovery codes, which are not shown again.
+ */
+export const enableTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (sendValidationErrors(req, res)) {
+      return;
+    }
+
+    const database = await getDatabase();
+    const user = req.user ? await database.findUserById(req.user.id) : null;
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    if (user.two_factor_enabled || !user.two_factor_pending_secret) {
+      res.status(400).json({
+        success: false,
+        message: user.two_factor_enabled
+          ? 'Two-factor authentication is already enabled'
+          : 'Start two-factor setup first',
+      });
+      return;
+    }
+
+    const step = twoFactorService.matchCodeStep(user.two_factor_pending_secret, req.body.code);
+    if (step === null) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid two-factor code',
+      });
+      return;
+    }
+
+    const { codes, hashes } = twoFactorService.generateRecoveryCodes();
+    await database.updateUser(user.id, {
+      two_factor_enabled: true,
+      two_factor_secret: user.two_factor_pending_secret,
+      two_factor_pending_secret: null,
+      two_factor_recovery_codes: hashes,
+      // The confirming code can't then be replayed to log in
+      two_factor_last_step: step,
+    });
+
+    await auditService.record({
+      userId: user.id.toString(),
+      action: 'TWO_FACTOR_ENABLED',
+      details: { recoveryCodes: codes.length },
+    }, req);
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: { recoveryCodes: codes },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const disableTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const database = await getDatabase();
+    await database.updateUser(req.user.id, {
+      two_factor_enabled: false,
+      two_factor_secret: null,
+      two_factor_pending_secret: null,
+      two_factor_recovery_codes: [],
+    });
+
+    await auditService.record({
+      userId: req.user.id,
+      action: 'TWO_FACTOR_DISABLED',
+    }, req);
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const regenerateRecoveryCodes = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const database = await getDatabase();
+    const user = req.user ? await database.findUserById(req.user.id) : null;
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    if (!user.two_factor_enabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled',
+      });
+      return;
+    }
+
+    const { codes, hashes } = twoFactorService.generateRecoveryCodes();
+    await database.updateUser(user.id, { two_factor_recovery_codes: hashes });
+
+    await auditService.record({
+      userId: user.id.toString(),
+      action: 'RECOVERY_CODES_REGENERATED',
+      details: { recoveryCodes: codes.length },
+    }, req);
+
+    res.status(200).json({
+      success: true,
+      message: 'New recovery codes generated',
+      data: { recoveryCodes: codes },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -8,6 +8,7 @@ import BrokerConnectionHelper from '../helpers/brokerConnectionHelper';
 import { logger } from '../utils/logger';
 import { orderStatusLogger, OrderStatusLogContext } from '../services/orderStatusLogger';
 import { OrderStatusErrorHandler } from '../utils/orderStatusErrorHandler';
+import { toOrderEventData } from '../utils/outboundWebhooks';
 import { OrderStatusErrorCode } from '../types/orderStatusTypes';
 
 import { enhancedUnifiedBrokerManager } from '../services/enhancedUnifiedBrokerManager';
@@ -20,177 +21,107 @@ import {
   createActivationResponse
 } from '@copytrade/shared-types';
 import websocketService from '../services/websocketService';
-import { OrderErrorClassifier } from '../services/orderErrorClassifier';
 import { orderRetryService } from '../services/orderRetryService';
+import {
+  addToBrokerAccountCache,
+  removeFromBrokerAccountCache,
+  placeBrokerOrder,
+  ensureAccountActive,
+  handleFailedOrder,
+  placeSizedOrderOnAccounts,
+  AccountOrderResult
+} from '../services/orderPlacementService';
+import { positionSizingService } from '../services/positionSizingService';
+import { riskManagementService } from '../services/riskManagementService';
+import { killSwitchService } from '../services/killSwitchService';
+import { marketClockService } from '../services/marketClockService';
+import { brokerAccountDataService } from '../services/brokerAccountDataService';
+import { derivativesCSVService } from '../services/derivativesCSVService';
+import { strategyOrderService } from '../services/strategyOrderService';
+import { auditService } from '../services/auditService';
+import { accountAccessService } from '../services/accountAccessService';
+import { webhookService } from '../services/webhookService';
+import { ConnectedAccount, OrderVariety, StrategyLeg } from '../interfaces/IDatabaseAdapter';
 
 // All broker connections now managed by Enhanced Unified Broker Manager
 
 /**
- * Helper function to logout from broker using enhanced unified broker manager
+ * Load the accounts selected for a multi-account order: the user's own and
+ * those a workspace lets them trade. Returns the first account id the user
+ * may not trade instead, if any.
  */
-async function logoutFromBroker(userId: string, brokerName: string, accountId: string): Promise<void> {
-  try {
-    await enhancedUnifiedBrokerManager.disconnect(userId, brokerName, accountId);
-
-    // Unregister session from health monitoring
-    brokerSessionManager.unregisterSession(userId, brokerName, accountId);
-  } catch (error) {
-    console.error(`🚨 Logout failed for ${brokerName}:`, error);
-    throw error;
+async function loadSelectedAccounts(
+  userId: string,
+  selectedAccounts: string[]
+): Promise<{ accounts: ConnectedAccount[]; deniedAccountId?: string }> {
+  const accounts: ConnectedAccount[] = [];
+  for (const accountId of selectedAccounts) {
+    const access = await accountAccessService.checkAccess(userId, accountId, 'TRADE');
+    if (!access) {
+      return { accounts, deniedAccountId: accountId };
+    }
+    accounts.push(access.account);
   }
+  return { accounts };
 }
 
 /**
- * Helper function to place order using unified broker manager
+ * Record a multi-account placement in the audit trail, one event per account.
+ * Events belong to the account's owner; orders placed on a client's account
+ * name the workspace member who placed them.
  */
-async function placeBrokerOrder(
+async function auditAccountOrders(
+  req: AuthenticatedRequest,
   userId: string,
-  brokerName: string,
-  databaseAccountId: string,
-  orderRequest: any
-): Promise<any> {
-  try {
-    // Get account details from database to find the broker's account ID
-    const account = await userDatabase.getConnectedAccountById(databaseAccountId);
-    if (!account) {
-      throw new Error(`Account ${databaseAccountId} not found in database`);
-    }
-
-    // Use the broker's account ID (not the database account ID) for the connection lookup
-    const brokerAccountId = account.account_id;
-    const brokerService = enhancedUnifiedBrokerManager.getBrokerService(userId, brokerName, brokerAccountId);
-
-    if (!brokerService) {
-      throw new Error(`No active connection found for ${brokerName} account ${brokerAccountId} (database ID: ${databaseAccountId})`);
-    }
-
-    return await brokerService.placeOrder(orderRequest);
-  } catch (error) {
-    console.error(`🚨 Order placement failed for ${brokerName}:`, error);
-    throw error;
+  accounts: ConnectedAccount[],
+  orderRequest: Record<string, any>,
+  successfulOrders: AccountOrderResult[],
+  failedOrders: AccountOrderResult[],
+  source: Record<string, any> = {}
+): Promise<void> {
+  const { symbol, action, orderType, price, triggerPrice, exchange, productType, variety } = orderRequest;
+  const ownerIds = new Map(accounts.map(account => [account.id.toString(), account.user_id.toString()]));
+  const outcomes = [
+    ...successfulOrders.map(result => ({ result, success: true })),
+    ...failedOrders.map(result => ({ result, success: false }))
+  ];
+
+  for (const { result, success } of outcomes) {
+    const ownerId = ownerIds.get(result.accountId) || userId;
+    await auditService.record({
+      userId: ownerId,
+      action: 'ORDER_PLACED',
+      accountId: result.accountId,
+      brokerName: result.brokerName,
+      resourceId: result.orderHistoryId || null,
+      details: {
+        symbol, action, quantity: result.quantity, orderType, price, triggerPrice, exchange, productType, variety,
+        brokerOrderId: result.orderId,
+        errorType: result.errorType,
+        ...source,
+        ...(ownerId !== userId && { actedBy: userId })
+      },
+      success,
+      errorMessage: result.error || null
+    }, req);
   }
 }
 
 /**
- * Auto-reactivate account if session is expired
- * Returns true if account is active/reactivated, false if reactivation failed
+ * Helper function to logout from broker using enhanced unified broker manager
  */
-async function ensureAccountActive(userId: string, accountId: string): Promise<boolean> {
+async function logoutFromBroker(userId: string, brokerName: string, accountId: string): Promise<void> {
   try {
-    console.log(`🔄 Ensuring account ${accountId} is active for user ${userId}`);
-
-    // Get account details from database
-    const account = await userDatabase.getConnectedAccountById(accountId);
-    if (!account) {
-      console.log(`❌ Account ${accountId} not found in database`);
-      return false;
-    }
-
-    // Check if connection exists using enhanced unified broker manager
-    const existingConnection = enhancedUnifiedBrokerManager.getConnection(userId, account.broker_name, account.account_id);
-
-    if (existingConnection) {
-      // Test if existing connection is still valid
-      try {
-        // Get credentials for validation
-        const credentials = await userDatabase.getAccountCredentials(account.id);
-
-        const validationResult = await enhancedUnifiedBrokerManager.validateSession(
-          userId,
-          account.broker_name,
-          account.account_id,
-          credentials
-        );
-
-        if (validationResult.isValid) {
-          console.log(`✅ Account ${accountId} session is already valid`);
-          return true;
-        } else {
-          console.log(`⚠️ Account ${accountId} session is invalid, removing connection`);
-          await enhancedUnifiedBrokerManager.disconnect(userId, account.broker_name, account.account_id);
-        }
-      } catch (error: any) {
-        console.log(`⚠️ Session validation failed for ${accountId}:`, error.message);
-        await enhancedUnifiedBrokerManager.disconnect(userId, account.broker_name, account.account_id);
-      }
-    }
-
-    // Auto-reactivate the account
-    console.log(`🔄 Auto-reactivating account ${accountId}...`);
-
-    // Get decrypted credentials
-    const credentials = await userDatabase.getAccountCredentials(accountId);
-    if (!credentials) {
-      console.log(`❌ Failed to retrieve credentials for account ${accountId}`);
-      return false;
-    }
-
-    // Actually connect to the broker through enhanced unified broker manager
-    try {
-      console.log(`🔄 Connecting to ${account.broker_name} for account ${accountId}...`);
-
-      // Connect to broker using enhanced unified broker manager
-      const connectionResult = await enhancedUnifiedBrokerManager.connectToBroker(
-        userId,
-        account.broker_name,
-        credentials
-      );
-
-      if (connectionResult.success) {
-        // Add to broker account cache for fast lookups
-        addToBrokerAccountCache(
-          account.account_id, // broker account ID
-          userId, // user ID
-          account.broker_name, // broker name
-          account.user_name // user display name
-        );
+    await enhancedUnifiedBrokerManager.disconnect(userId, brokerName, accountId);
 
-        console.log(`✅ Successfully auto-reactivated ${account.broker_name} account ${accountId}`);
-        return true;
-      } else {
-        console.log(`❌ Failed to connect to ${account.broker_name}: ${connectionResult.message}`);
-        return false;
-      }
-    } catch (error: any) {
-      console.log(`❌ Failed to auto-reactivate ${account.broker_name} account ${accountId}:`, error.message);
-      return false;
-    }
-  } catch (error: any) {
-    console.error(`🚨 Auto-reactivation failed for account ${accountId}:`, error.message);
-    return false;
+    // Unregister session from health monitoring
+    brokerSessionManager.unregisterSession(userId, brokerName, accountId);
+  } catch (error) {
+    console.error(`🚨 Logout failed for ${brokerName}:`, error);
+    throw error;
   }
 }
 
-// Broker Account Cache: Maps broker account IDs to user IDs and broker info
-interface BrokerAccountMapping {
-  userId: string;
-  brokerName: string;
-  accountId: string;
-  userDisplayName: string;
-}
-
-const brokerAccountCache = new Map<string, BrokerAccountMapping>();
-
-// Cache Management Functions
-const addToBrokerAccountCache = (accountId: string, userId: string, brokerName: string, userDisplayName: string) => {
-  brokerAccountCache.set(accountId, {
-    userId,
-    brokerName,
-    accountId,
-    userDisplayName
-  });
-  console.log(`📝 Added to broker cache: ${accountId} -> User ${userId} (${brokerName})`);
-};
-
-const removeFromBrokerAccountCache = (accountId: string) => {
-  const removed = brokerAccountCache.delete(accountId);
-  if (removed) {
-    console.log(`🗑️ Removed from broker cache: ${accountId}`);
-  }
-};
-
-
-
 // Initialize broker account cache from database
 export const initializeBrokerAccountCache = async () => {
   try {
@@ -430,6 +361,14 @@ export const completeOAuthAuth = async (
           createdAt: updatedAccount.created_at,
         };
 
+        await auditService.record({
+          userId,
+          action: 'ACCOUNT_OAUTH_COMPLETED',
+          accountId,
+          brokerName: account.broker_name,
+          details: { brokerAccountId: updatedAccount.account_id, accountStatus: updatedAccount.account_status }
+        }, req);
+
         res.status(200).json({
           success: true,
           message: result.message || 'OAuth authentication completed successfully',
@@ -462,6 +401,16 @@ export const completeOAuthAuth = async (
             userFriendlyMessage = result.message || 'Authentication failed. Please try again.';
         }
 
+        await auditService.record({
+          userId,
+          action: 'ACCOUNT_OAUTH_COMPLETED',
+          accountId,
+          brokerName: account.broker_name,
+          details: { errorType: result.errorType },
+          success: false,
+          errorMessage: result.message
+        }, req);
+
         res.status(400).json({
           success: false,
           message: userFriendlyMessage,
@@ -672,6 +621,14 @@ export const handleOAuthCallback = async (
           console.error('⚠️ Failed to update account after OAuth callback:', updateError.message);
         }
 
+        await auditService.record({
+          userId,
+          action: 'ACCOUNT_OAUTH_COMPLETED',
+          accountId,
+          brokerName: broker as string,
+          details: { brokerAccountId: result.accountInfo.accountId, accountStatus: result.accountStatus }
+        }, req);
+
         // Redirect to frontend with success
         const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
         res.redirect(`${frontendUrl}/account-setup?oauth=success&broker=${broker}&account=${result.accountInfo.accountId}&message=${encodeURIComponent('Account connected successfully!')}`);
@@ -695,6 +652,16 @@ export const handleOAuthCallback = async (
             userFriendlyMessage = result.message || 'OAuth authentication failed. Please try again.';
         }
 
+        await auditService.record({
+          userId,
+          action: 'ACCOUNT_OAUTH_COMPLETED',
+          accountId,
+          brokerName: broker as string,
+          details: { errorType: result.errorType },
+          success: false,
+          errorMessage: result.message
+        }, req);
+
         // Redirect to frontend with error
         const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
         res.redirect(`${frontendUrl}/account-setup?oauth=error&message=${encodeURIComponent(userFriendlyMessage)}`);
@@ -822,6 +789,14 @@ export const connectBroker = async (
             createdAt: dbAccount.created_at,
           };
 
+          await auditService.record({
+            userId,
+            action: 'ACCOUNT_CONNECTED',
+            accountId: dbAccount.id.toString(),
+            brokerName,
+            details: { brokerAccountId: dbAccount.account_id, accountStatus: dbAccount.account_status }
+          }, req);
+
           res.status(200).json({
             success: true,
             message: result.message,
@@ -893,6 +868,14 @@ export const connectBroker = async (
             stateToken: stateToken, // Include state token for frontend
           };
 
+          await auditService.record({
+            userId,
+            action: 'ACCOUNT_CONNECTED',
+            accountId: dbAccount.id.toString(),
+            brokerName,
+            details: { accountStatus: dbAccount.account_status, oauthPending: true }
+          }, req);
+
           res.status(200).json({
             success: true,
             message: result.message,
@@ -907,6 +890,15 @@ export const connectBroker = async (
         }
       } else {
         // Authentication failed - return standardized error response
+        await auditService.record({
+          userId,
+          action: 'ACCOUNT_CONNECTED',
+          brokerName,
+          details: { errorType: result.errorType },
+          success: false,
+          errorMessage: result.message
+        }, req);
+
         res.status(400).json({
           success: false,
           message: result.message,
@@ -1042,19 +1034,32 @@ export const getConnectedAccounts = async (
 
     // Get connected accounts from database (no is_active field - pure real-time validation)
     try {
-      const dbAccounts = await userDatabase.getConnectedAccountsByUserId(userId);
+      // The user's own accounts and the client accounts shared with them through workspaces
+      const accesses = await accountAccessService.getAccessibleAccounts(userId);
+      const delegated = accesses.filter(access => !access.isOwner);
+      const [owners, workspaces] = await Promise.all([
+        Promise.all(Array.from(new Set(delegated.map(access => access.ownerId))).map(id => userDatabase.findUserById(id))),
+        delegated.length > 0
+          ? userDatabase.getWorkspacesByIds(Array.from(new Set(delegated.flatMap(access => access.via.map(grant => grant.workspaceId)))))
+          : Promise.resolve([])
+      ]);
+      const ownerNames = new Map(owners.flatMap(owner => owner ? [[owner.id.toString(), owner.name] as const] : []));
+      const workspaceNames = new Map(workspaces.map(workspace => [workspace.id, workspace.name] as const));
 
       // Validate session status for each account using session health monitoring
+      // Broker connections belong to the account's owner, also for shared accounts
       const accountsWithValidatedStatus = await Promise.all(
-        dbAccounts.map(async (dbAccount: any) => {
+        accesses.map(async (access) => {
+          const dbAccount = access.account;
+          const ownerId = access.ownerId;
           let isReallyActive = false;
           let sessionHealth = null;
 
           // Get session health metrics from session manager
-          sessionHealth = brokerSessionManager.getSessionHealth(userId, dbAccount.broker_name, dbAccount.account_id);
+          sessionHealth = brokerSessionManager.getSessionHealth(ownerId, dbAccount.broker_name, dbAccount.account_id);
 
           // Check if broker connection exists in enhanced manager
-          const connection = enhancedUnifiedBrokerManager.getConnection(userId, dbAccount.broker_name, dbAccount.account_id);
+          const connection = enhancedUnifiedBrokerManager.getConnection(ownerId, dbAccount.broker_name, dbAccount.account_id);
 
           if (connection) {
             // Use session manager for validation if available, otherwise fallback to direct validation
@@ -1067,7 +1072,7 @@ export const getConnectedAccounts = async (
               } else {
                 // Validate session using session manager
                 const validationResult = await brokerSessionManager.validateSession(
-                  userId,
+                  ownerId,
                   dbAccount.broker_name,
                   dbAccount.account_id
                 );
@@ -1082,7 +1087,7 @@ export const getConnectedAccounts = async (
 
                 // Use enhanced manager's validation
                 const validationResult = await enhancedUnifiedBrokerManager.validateSession(
-                  userId,
+                  ownerId,
                   dbAccount.broker_name,
                   dbAccount.account_id,
                   credentials
@@ -1094,7 +1099,7 @@ export const getConnectedAccounts = async (
 
                   // Register with session manager for future monitoring
                   brokerSessionManager.registerSession(
-                    userId,
+                    ownerId,
                     dbAccount.broker_name,
                     dbAccount.account_id,
                     dbAccount.token_expiry_time
@@ -1102,22 +1107,22 @@ export const getConnectedAccounts = async (
                 } else {
                   console.log(`⚠️ Session expired for ${dbAccount.broker_name} account ${dbAccount.account_id}`);
                   // Remove connection if session is invalid
-                  await enhancedUnifiedBrokerManager.disconnect(userId, dbAccount.broker_name, dbAccount.account_id);
-                  brokerSessionManager.unregisterSession(userId, dbAccount.broker_name, dbAccount.account_id);
+                  await enhancedUnifiedBrokerManager.disconnect(ownerId, dbAccount.broker_name, dbAccount.account_id);
+                  brokerSessionManager.unregisterSession(ownerId, dbAccount.broker_name, dbAccount.account_id);
                   isReallyActive = false;
                 }
               } catch (validationError: any) {
                 console.error(`🚨 Session validation error for ${dbAccount.broker_name}:`, validationError.message);
                 // On validation error, remove connection and mark as inactive
-                await enhancedUnifiedBrokerManager.disconnect(userId, dbAccount.broker_name, dbAccount.account_id);
-                brokerSessionManager.unregisterSession(userId, dbAccount.broker_name, dbAccount.account_id);
+                await enhancedUnifiedBrokerManager.disconnect(ownerId, dbAccount.broker_name, dbAccount.account_id);
+                brokerSessionManager.unregisterSession(ownerId, dbAccount.broker_name, dbAccount.account_id);
                 isReallyActive = false;
               }
             }
           } else {
             // No broker service in memory means not active
             console.log(`⚠️ No active connection found for ${dbAccount.broker_name} account ${dbAccount.account_id}`);
-            brokerSessionManager.unregisterSession(userId, dbAccount.broker_name, dbAccount.account_id);
+            brokerSessionManager.unregisterSession(ownerId, dbAccount.broker_name, dbAccount.account_id);
             isReallyActive = false;
           }
 
@@ -1191,6 +1196,16 @@ export const getConnectedAccounts = async (
             shouldShowDeactivateButton,
             createdAt: dbAccount.created_at,
             sessionHealth: healthInfo, // Include session health metrics
+            accessType: access.isOwner ? 'OWNER' : 'DELEGATED',
+            permissions: access.permissions,
+            ...(!access.isOwner && {
+              ownerName: ownerNames.get(ownerId) || null,
+              workspaces: access.via.map(grant => ({
+                id: grant.workspaceId,
+                name: workspaceNames.get(grant.workspaceId) || null,
+                role: grant.role
+              }))
+            })
           };
 
           console.log('🔍 DEBUG: Returning account data:', accountData);
@@ -1238,15 +1253,16 @@ export const checkAccountSessionStatus = async (
       return;
     }
 
-    // Get account from database
-    const account = await userDatabase.getConnectedAccountById(accountId);
-    if (!account) {
+    // Get account from database; shared accounts report their owner's broker session
+    const access = await accountAccessService.checkAccess(userId, accountId, 'VIEW');
+    if (!access) {
       res.status(404).json({
         success: false,
         message: 'Account not found',
       });
       return;
     }
+    const { account, ownerId } = access;
 
     let isActive = false;
     let sessionInfo = {
@@ -1256,7 +1272,7 @@ export const checkAccountSessionStatus = async (
     };
 
     // Check if broker connection exists in enhanced manager
-    const connection = enhancedUnifiedBrokerManager.getConnection(userId, account.broker_name, account.account_id);
+    const connection = enhancedUnifiedBrokerManager.getConnection(ownerId, account.broker_name, account.account_id);
 
     if (connection) {
       try {
@@ -1265,7 +1281,7 @@ export const checkAccountSessionStatus = async (
 
         // Use enhanced manager's validation
         const validationResult = await enhancedUnifiedBrokerManager.validateSession(
-          userId,
+          ownerId,
           account.broker_name,
           account.account_id,
           credentials
@@ -1280,7 +1296,7 @@ export const checkAccountSessionStatus = async (
           };
         } else {
           // Remove connection if session is invalid
-          await enhancedUnifiedBrokerManager.disconnect(userId, account.broker_name, account.account_id);
+          await enhancedUnifiedBrokerManager.disconnect(ownerId, account.broker_name, account.account_id);
           sessionInfo = {
             lastChecked: new Date().toISOString(),
             status: 'expired',
@@ -1290,7 +1306,7 @@ export const checkAccountSessionStatus = async (
       } catch (validationError: any) {
         console.error(`🚨 Session validation error for ${account.broker_name}:`, validationError.message);
         // On validation error, remove connection
-        await enhancedUnifiedBrokerManager.disconnect(userId, account.broker_name, account.account_id);
+        await enhancedUnifiedBrokerManager.disconnect(ownerId, account.broker_name, account.account_id);
         sessionInfo = {
           lastChecked: new Date().toISOString(),
           status: 'error',
@@ -1375,8 +1391,8 @@ export const removeConnectedAccount = async (
 
     // Remove account from database and logout
     try {
-      // Get account details before deletion for logout
-      const account = await userDatabase.getConnectedAccountById(accountId);
+      // Get account details before deletion for logout; only the owner may remove it
+      const account = (await accountAccessService.checkAccess(userId, accountId, 'MANAGE'))?.account;
       if (!account) {
         res.status(404).json({
           success: false,
@@ -1410,6 +1426,14 @@ export const removeConnectedAccount = async (
       // Remove from broker account cache
       removeFromBrokerAccountCache(account.account_id);
 
+      await auditService.record({
+        userId,
+        action: 'ACCOUNT_REMOVED',
+        accountId,
+        brokerName: account.broker_name,
+        details: { brokerAccountId: account.account_id }
+      }, req);
+
       res.status(200).json({
         success: true,
         message: 'Account removed and logged out successfully',
@@ -1448,8 +1472,8 @@ export const activateAccount = async (
       return;
     }
 
-    // Get account from database
-    const account = await userDatabase.getConnectedAccountById(accountId);
+    // Get account from database; connecting and disconnecting is left to its owner
+    const account = (await accountAccessService.checkAccess(userId, accountId, 'MANAGE'))?.account;
     if (!account) {
       res.status(404).json({
         success: false,
@@ -1513,6 +1537,14 @@ export const activateAccount = async (
           }
         );
 
+        await auditService.record({
+          userId,
+          action: 'ACCOUNT_ACTIVATED',
+          accountId,
+          brokerName: account?.broker_name,
+          details: { brokerAccountId: account?.account_id }
+        }, req);
+
         res.status(200).json(response);
       } else {
         console.log(`❌ Account ${accountId} activation failed: ${result.message}`);
@@ -1533,6 +1565,16 @@ export const activateAccount = async (
         // Handle other failures
         const errorCode = ApiErrorCode.BROKER_ERROR;
 
+        await auditService.record({
+          userId,
+          action: 'ACCOUNT_ACTIVATED',
+          accountId,
+          brokerName: account.broker_name,
+          details: { errorType: result.errorType },
+          success: false,
+          errorMessage: result.message
+        }, req);
+
         const response: ActivateAccountResponse = createActivationResponse(
           false,
           result.message,
@@ -1587,8 +1629,8 @@ export const deactivateAccount = async (
       return;
     }
 
-    // Get account from database
-    const account = await userDatabase.getConnectedAccountById(accountId);
+    // Get account from database; connecting and disconnecting is left to its owner
+    const account = (await accountAccessService.checkAccess(userId, accountId, 'MANAGE'))?.account;
     if (!account) {
       res.status(404).json({
         success: false,
@@ -1611,6 +1653,14 @@ export const deactivateAccount = async (
 
     // Note: No database status update needed - status is determined by real-time validation
 
+    await auditService.record({
+      userId,
+      action: 'ACCOUNT_DEACTIVATED',
+      accountId,
+      brokerName: account.broker_name,
+      details: { brokerAccountId: account.account_id }
+    }, req);
+
     res.status(200).json({
       success: true,
       message: `Successfully deactivated ${account.broker_name} account`,
@@ -1682,6 +1732,54 @@ export const disconnectBroker = async (
 
 // Note: ensureBrokerConnection function removed as it's not used and doesn't support multiple accounts per broker
 
+export interface MultiAccountOrderPlacement {
+  accounts: ConnectedAccount[];
+  successfulOrders: AccountOrderResult[];
+  failedOrders: AccountOrderResult[];
+  deniedAccountId?: string;
+}
+
+/**
+ * Place a validated multi-account order request on each selected account the
+ * user may trade, sized per account, and record it in the audit trail. Shared
+ * by the order form and inbound signals; `source` is added to the audit details.
+ */
+export async function executeMultiAccountOrder(
+  req: AuthenticatedRequest,
+  userId: string,
+  orderBody: Record<string, any>,
+  source: Record<string, any> = {}
+): Promise<MultiAccountOrderPlacement> {
+  const { selectedAccounts, symbol, action, quantity, orderType, price, triggerPrice, exchange, productType, variety, remarks } = orderBody;
+
+  // Validate the user may trade every selected account
+  const { accounts, deniedAccountId } = await loadSelectedAccounts(userId, selectedAccounts);
+  if (deniedAccountId) {
+    return { accounts, successfulOrders: [], failedOrders: [], deniedAccountId };
+  }
+
+  // Create unified order request template
+  const baseOrderRequest = {
+    symbol,
+    action: action as 'BUY' | 'SELL',
+    quantity: parseInt(quantity),
+    orderType: orderType as 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET',
+    price: price ? parseFloat(price) : undefined,
+    triggerPrice: triggerPrice ? parseFloat(triggerPrice) : undefined,
+    exchange: exchange || 'NSE',
+    productType,
+    validity: 'DAY' as 'DAY' | 'IOC' | 'GTD',
+    variety: (variety || 'REGULAR') as OrderVariety,
+    remarks: remarks || `Multi-account order placed via CopyTrade Pro`,
+  };
+
+  // Size the order for each account using its sizing rule and place it on all selected accounts
+  const { successfulOrders, failedOrders } = await placeSizedOrderOnAccounts(userId, accounts, baseOrderRequest);
+  await auditAccountOrders(req, userId, accounts, baseOrderRequest, successfulOrders, failedOrders, source);
+
+  return { accounts, successfulOrders, failedOrders };
+}
+
 // Multi-account order placement
 export const placeMultiAccountOrder = async (
   req: AuthenticatedRequest,
@@ -1704,12 +1802,7 @@ export const placeMultiAccountOrder = async (
       symbol,
       action,
       quantity,
-      orderType,
-      price,
-      triggerPrice,
-      exchange,
-      productType: rawProductType,
-      remarks
+      orderType
     } = req.body;
 
     const userId = req.user?.id;
@@ -1730,145 +1823,15 @@ export const placeMultiAccountOrder = async (
       return;
     }
 
-    // Validate all selected accounts belong to the user
-    const accounts = [];
-    for (const accountId of selectedAccounts) {
-      const account = await userDatabase.getConnectedAccountById(accountId);
-      if (!account || account.user_id.toString() !== userId.toString()) {
-        res.status(404).json({
-          success: false,
-          message: `Account ${accountId} not found or access denied`,
-        });
-        return;
-      }
-      accounts.push(account);
-    }
-
-    // Create unified order request template
-    const baseOrderRequest = {
-      symbol,
-      action: action as 'BUY' | 'SELL',
-      quantity: parseInt(quantity),
-      orderType: orderType as 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET',
-      price: price ? parseFloat(price) : undefined,
-      triggerPrice: triggerPrice ? parseFloat(triggerPrice) : undefined,
-      exchange: exchange || 'NSE',
-      productType: rawProductType,
-      validity: 'DAY' as 'DAY' | 'IOC' | 'GTD',
-      remarks: remarks || `Multi-account order placed via CopyTrade Pro`,
-    };
-
-    // Place orders on all selected accounts
-    const orderResults = [];
-    const successfulOrders = [];
-    const failedOrders = [];
-
-    for (const account of accounts) {
-      try {
-        console.log(`🔄 Placing order on ${account.broker_name} account ${account.account_id}...`);
-
-        // Ensure account is active (auto-reactivate if needed)
-        const isAccountActive = await ensureAccountActive(userId, account.id.toString());
-        if (!isAccountActive) {
-          const error = `Failed to activate ${account.broker_name} account ${account.account_id}`;
-          console.error(`❌ ${error}`);
-          failedOrders.push({
-            accountId: account.id.toString(),
-            brokerName: account.broker_name,
-            accountDisplayName: `${account.broker_name} (${account.account_id})`,
-            error: error,
-            errorType: 'ACTIVATION_FAILED'
-          });
-          continue;
-        }
-
-        // Create account-specific order request
-        const orderRequest = {
-          ...baseOrderRequest,
-          accountId: account.account_id,
-          remarks: `${baseOrderRequest.remarks} - Account: ${account.account_id}`
-        };
-
-        // Place order using unified broker interface
-        const orderResponse = await placeBrokerOrder(userId, account.broker_name, account.id.toString(), orderRequest);
-
-        // Handle session expiry with auto-retry
-        if (!orderResponse.success && orderResponse.data?.errorType === 'SESSION_EXPIRED') {
-          console.log(`🔄 Session expired during order placement for ${account.account_id}. Attempting auto-reactivation...`);
-
-          const reactivated = await ensureAccountActive(userId, account.id.toString());
-          if (reactivated) {
-            console.log(`✅ Auto-reactivation successful for ${account.account_id}. Retrying order placement...`);
-            const retryResponse = await placeBrokerOrder(userId, account.broker_name, account.id.toString(), orderRequest);
-
-            if (retryResponse.success) {
-              await handleSuccessfulOrder(userId, account, retryResponse, baseOrderRequest);
-              successfulOrders.push({
-                accountId: account.id.toString(),
-                brokerName: account.broker_name,
-                accountDisplayName: `${account.broker_name} (${account.account_id})`,
-                orderId: retryResponse.data?.brokerOrderId || retryResponse.data?.orderId,
-                message: retryResponse.message || 'Order placed successfully'
-              });
-            } else {
-              failedOrders.push({
-                accountId: account.id.toString(),
-                brokerName: account.broker_name,
-                accountDisplayName: `${account.broker_name} (${account.account_id})`,
-                error: retryResponse.message || 'Order placement failed after retry',
-                errorType: 'ORDER_FAILED'
-              });
-            }
-          } else {
-            failedOrders.push({
-              accountId: account.id.toString(),
-              brokerName: account.broker_name,
-              accountDisplayName: `${account.broker_name} (${account.account_id})`,
-              error: 'Session expired and auto-reactivation failed',
-              errorType: 'SESSION_EXPIRED'
-            });
-          }
-        } else if (orderResponse.success) {
-          // Order placed successfully
-          await handleSuccessfulOrder(userId, account, orderResponse, baseOrderRequest);
-          successfulOrders.push({
-            accountId: account.id.toString(),
-            brokerName: account.broker_name,
-            accountDisplayName: `${account.broker_name} (${account.account_id})`,
-            orderId: orderResponse.data?.brokerOrderId || orderResponse.data?.orderId,
-            message: orderResponse.message || 'Order placed successfully'
-          });
-        } else {
-          // Order placement failed - save to database with error details
-          await handleFailedOrder(userId, account, orderResponse, baseOrderRequest);
-          failedOrders.push({
-            accountId: account.id.toString(),
-            brokerName: account.broker_name,
-            accountDisplayName: `${account.broker_name} (${account.account_id})`,
-            error: orderResponse.message || 'Order placement failed',
-            errorType: 'ORDER_FAILED'
-          });
-        }
-
-      } catch (error: any) {
-        console.error(`🚨 Order placement error for ${account.broker_name} account ${account.account_id}:`, error);
-
-        // Save failed order to database with error details
-        await handleFailedOrder(userId, account, {
-          success: false,
-          message: error.message || 'Unexpected error during order placement',
-          data: { errorType: 'SYSTEM_ERROR' }
-        }, baseOrderRequest);
-
-        failedOrders.push({
-          accountId: account.id.toString(),
-          brokerName: account.broker_name,
-          accountDisplayName: `${account.broker_name} (${account.account_id})`,
-          error: error.message || 'Unexpected error during order placement',
-          errorType: 'SYSTEM_ERROR'
-        });
-      }
+    const placement = await executeMultiAccountOrder(req, userId, req.body);
+    if (placement.deniedAccountId) {
+      res.status(404).json({
+        success: false,
+        message: `Account ${placement.deniedAccountId} not found or access denied`,
+      });
+      return;
     }
+    const { accounts, successfulOrders, failedOrders } = placement;
 
     // Determine overall success status
     const totalAccounts = accounts.length;
@@ -1910,130 +1873,614 @@ export const placeMultiAccountOrder = async (
     });
 
   } catch (error: any) {
-    console.error('🚨 Multi-account order placement error:', error);
+    console.error('🚨 Multi-account order placement error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to place multi-account orders',
+      error: error.message
+    });
+  }
+};
+
+// Preview the per-account quantity of a multi-account order before submission
+export const previewMultiAccountOrder = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const validationErrors = validationResult(req);
+    if (!validationErrors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: validationErrors.array(),
+      });
+      return;
+    }
+
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const { selectedAccounts, symbol, quantity, price, triggerPrice, exchange } = req.body;
+
+    const { accounts, deniedAccountId } = await loadSelectedAccounts(userId, selectedAccounts);
+    if (deniedAccountId) {
+      res.status(404).json({
+        success: false,
+        message: `Account ${deniedAccountId} not found or access denied`,
+      });
+      return;
+    }
+
+    const order = {
+      symbol,
+      exchange: exchange || 'NSE',
+      quantity: parseInt(quantity),
+      price: price ? parseFloat(price) : undefined,
+      triggerPrice: triggerPrice ? parseFloat(triggerPrice) : undefined
+    };
+    const accountSizings = await positionSizingService.sizeForAccounts(accounts, order);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        symbol,
+        exchange: order.exchange,
+        sourceQuantity: order.quantity,
+        lotSize: positionSizingService.getLotSize(symbol, order.exchange),
+        accounts: accountSizings.map(({ account, sizing }) => ({
+          accountId: account.id.toString(),
+          brokerName: account.broker_name,
+          accountDisplayName: `${account.broker_name} (${account.account_id})`,
+          quantity: sizing.quantity,
+          method: sizing.method,
+          note: sizing.note
+        }))
+      }
+    });
+  } catch (error: any) {
+    console.error('🚨 Order preview error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to preview order',
+      error: error.message
+    });
+  }
+};
+
+const toStrategyLegs = (legs: any[]): StrategyLeg[] =>
+  legs.map(leg => ({
+    symbol: String(leg.symbol).trim().toUpperCase(),
+    exchange: leg.exchange || 'NFO',
+    action: leg.action,
+    quantity: parseInt(leg.quantity),
+    option_type: leg.optionType || undefined,
+    strike: leg.strike !== undefined && leg.strike !== null ? parseFloat(leg.strike) : undefined,
+    expiry: leg.expiry || undefined,
+    order_type: leg.orderType || 'MARKET',
+    price: leg.price !== undefined && leg.price !== null ? parseFloat(leg.price) : undefined,
+    premium: parseFloat(leg.premium),
+    product_type: leg.productType || 'NRML'
+  }));
+
+// Preview the payoff and execution order of a multi-leg strategy
+export const previewStrategyOrder = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const validationErrors = validationResult(req);
+    if (!validationErrors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: validationErrors.array(),
+      });
+      return;
+    }
+
+    if (!req.user?.id) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: strategyOrderService.preview(toStrategyLegs(req.body.legs))
+    });
+  } catch (error: any) {
+    console.error('🚨 Strategy preview error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to preview strategy',
+      error: error.message
+    });
+  }
+};
+
+// Place a multi-leg strategy as one basket on every selected account
+export const placeStrategyOrder = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const validationErrors = validationResult(req);
+    if (!validationErrors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: validationErrors.array(),
+      });
+      return;
+    }
+
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const { selectedAccounts, name, strategyType, underlying, onLegFailure } = req.body;
+    const legs = toStrategyLegs(req.body.legs);
+
+    const { accounts, deniedAccountId } = await loadSelectedAccounts(userId, selectedAccounts);
+    if (deniedAccountId) {
+      res.status(404).json({
+        success: false,
+        message: `Account ${deniedAccountId} not found or access denied`,
+      });
+      return;
+    }
+
+    // Reject the whole basket up front rather than failing half way through it
+    const legErrors = strategyOrderService.validateLegs(legs);
+    if (legErrors.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: legErrors.map(legError => `Leg ${legError.legIndex + 1}: ${legError.error}`).join('; '),
+        errorType: 'LOT_SIZE_VIOLATION',
+        data: { legErrors }
+      });
+      return;
+    }
+
+    const strategyOrder = await strategyOrderService.placeStrategyOrder(userId, accounts, {
+      name: name || `${strategyType} ${underlying || ''}`.trim(),
+      strategyType,
+      underlying,
+      legs,
+      onLegFailure: onLegFailure || 'ROLLBACK'
+    });
+
+    for (const result of strategyOrder.account_results) {
+      await auditService.record({
+        userId,
+        action: 'ORDER_PLACED',
+        accountId: result.account_id,
+        brokerName: accounts.find(account => account.id.toString() === result.account_id)?.broker_name,
+        resourceId: strategyOrder.id,
+        details: {
+          strategyName: strategyOrder.name,
+          strategyType: strategyOrder.strategy_type,
+          legs: strategyOrder.legs.length,
+          strategyStatus: result.status,
+          placedLegs: result.placed_legs
+        },
+        success: result.status === 'PLACED',
+        errorMessage: result.error || null
+      }, req);
+    }
+
+    const placedCount = strategyOrder.account_results.filter(result => result.status === 'PLACED').length;
+    const totalAccounts = accounts.length;
+    const statusMessage = strategyOrder.status === 'PLACED'
+      ? `Strategy placed on all ${totalAccounts} account${totalAccounts > 1 ? 's' : ''}`
+      : `Strategy placed on ${placedCount} of ${totalAccounts} accounts (${strategyOrder.status})`;
+
+    res.status(placedCount > 0 ? 200 : 400).json({
+      success: placedCount > 0,
+      message: statusMessage,
+      data: {
+        strategyOrder,
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error: any) {
+    console.error('🚨 Strategy order placement error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to place strategy order',
+      error: error.message
+    });
+  }
+};
+
+// Get the user's recent strategy orders; legs are in order history by strategy_order_id
+export const getStrategyOrders = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const strategyOrders = await strategyOrderService.getStrategyOrders(userId, limit);
+
+    res.status(200).json({
+      success: true,
+      data: strategyOrders
+    });
+  } catch (error: any) {
+    console.error('🚨 Get strategy orders error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get strategy orders',
+      error: error.message
+    });
+  }
+};
+
+// Get position sizing rules for all of the user's accounts
+export const getSizingRules = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const rules = await userDatabase.getSizingRulesByUserId(userId.toString());
+
+    res.status(200).json({
+      success: true,
+      data: rules
+    });
+  } catch (error: any) {
+    console.error('🚨 Get sizing rules error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get sizing rules',
+      error: error.message
+    });
+  }
+};
+
+// Create or replace the position sizing rule of an account
+export const saveSizingRule = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const validationErrors = validationResult(req);
+    if (!validationErrors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: validationErrors.array(),
+      });
+      return;
+    }
+
+    const userId = req.user?.id;
+    const { accountId } = req.params;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const access = accountId ? await accountAccessService.checkAccess(userId, accountId, 'MANAGE') : null;
+    const account = access?.account;
+    if (!account) {
+      res.status(404).json({
+        success: false,
+        message: 'Account not found or access denied',
+      });
+      return;
+    }
+
+    const { method, value, capital, minQuantity, maxQuantity, roundToLot } = req.body;
+
+    if (minQuantity !== undefined && maxQuantity !== undefined && parseInt(minQuantity) > parseInt(maxQuantity)) {
+      res.status(400).json({
+        success: false,
+        message: 'Minimum quantity cannot exceed maximum quantity',
+      });
+      return;
+    }
+
+    if (method === 'PERCENT_OF_CAPITAL' && !capital) {
+      res.status(400).json({
+        success: false,
+        message: 'Capital is required for percent of capital sizing',
+      });
+      return;
+    }
+
+    const rule = await userDatabase.upsertSizingRule({
+      user_id: userId.toString(),
+      account_id: account.id.toString(),
+      method,
+      value: parseFloat(value),
+      ...(capital !== undefined && capital !== null && { capital: parseFloat(capital) }),
+      ...(minQuantity !== undefined && minQuantity !== null && { min_quantity: parseInt(minQuantity) }),
+      ...(maxQuantity !== undefined && maxQuantity !== null && { max_quantity: parseInt(maxQuantity) }),
+      round_to_lot: roundToLot !== false
+    });
+
+    await auditService.record({
+      userId: userId.toString(),
+      action: 'SIZING_RULE_UPDATED',
+      accountId: account.id.toString(),
+      brokerName: account.broker_name,
+      resourceId: rule.id.toString(),
+      details: { rule }
+    }, req);
+
+    res.status(200).json({
+      success: true,
+      message: 'Sizing rule saved',
+      data: rule
+    });
+  } catch (error: any) {
+    console.error('🚨 Save sizing rule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save sizing rule',
+      error: error.message
+    });
+  }
+};
+
+// Remove the sizing rule of an account (falls back to the source quantity)
+export const deleteSizingRule = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { accountId } = req.params;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const access = accountId ? await accountAccessService.checkAccess(userId, accountId, 'MANAGE') : null;
+    const account = access?.account;
+    if (!account) {
+      res.status(404).json({
+        success: false,
+        message: 'Account not found or access denied',
+      });
+      return;
+    }
+
+    await userDatabase.deleteSizingRule(account.id.toString());
+
+    await auditService.record({
+      userId: userId.toString(),
+      action: 'SIZING_RULE_REMOVED',
+      accountId: account.id.toString(),
+      brokerName: account.broker_name
+    }, req);
+
+    res.status(200).json({
+      success: true,
+      message: 'Sizing rule removed'
+    });
+  } catch (error: any) {
+    console.error('🚨 Delete sizing rule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete sizing rule',
+      error: error.message
+    });
+  }
+};
+
+// Get the user-wide and per-account risk limits of the user
+export const getRiskLimits = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const limits = await userDatabase.getRiskLimitsByUserId(userId.toString());
+
+    res.status(200).json({
+      success: true,
+      data: limits
+    });
+  } catch (error: any) {
+    console.error('🚨 Get risk limits error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get risk limits',
+      error: error.message
+    });
+  }
+};
+
+const optionalLimit = (value: any, parse: (value: string) => number) =>
+  value !== undefined && value !== null && value !== '' ? parse(value) : undefined;
+
+const toUpperList = (values: any): string[] =>
+  Array.isArray(values) ? values.map((value: any) => String(value).trim().toUpperCase()).filter(Boolean) : [];
+
+// Create or replace risk limits - user-wide without an account ID, otherwise for that account
+export const saveRiskLimits = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const validationErrors = validationResult(req);
+    if (!validationErrors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: validationErrors.array(),
+      });
+      return;
+    }
+
+    const userId = req.user?.id;
+    const { accountId } = req.params;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    if (accountId) {
+      if (!await accountAccessService.checkAccess(userId, accountId, 'MANAGE')) {
+        res.status(404).json({
+          success: false,
+          message: 'Account not found or access denied',
+        });
+        return;
+      }
+    }
+
+    const {
+      isEnabled,
+      maxOrderValue,
+      maxQuantityPerSymbol,
+      maxOpenPositions,
+      dailyLossLimit,
+      maxOrdersPerMinute,
+      allowedExchanges,
+      allowedProducts,
+      restrictedSymbols
+    } = req.body;
+
+    const limitValues = {
+      max_order_value: optionalLimit(maxOrderValue, parseFloat),
+      max_quantity_per_symbol: optionalLimit(maxQuantityPerSymbol, parseInt),
+      max_open_positions: optionalLimit(maxOpenPositions, parseInt),
+      daily_loss_limit: optionalLimit(dailyLossLimit, parseFloat),
+      max_orders_per_minute: optionalLimit(maxOrdersPerMinute, parseInt)
+    };
+
+    const limits = await userDatabase.upsertRiskLimits({
+      user_id: userId.toString(),
+      account_id: accountId || null,
+      is_enabled: isEnabled !== false,
+      ...Object.fromEntries(Object.entries(limitValues).filter(([, value]) => value !== undefined)),
+      allowed_exchanges: toUpperList(allowedExchanges),
+      allowed_products: toUpperList(allowedProducts),
+      restricted_symbols: toUpperList(restrictedSymbols)
+    });
+
+    await auditService.record({
+      userId: userId.toString(),
+      action: 'RISK_LIMITS_UPDATED',
+      accountId: accountId || null,
+      resourceId: limits.id.toString(),
+      details: { limits }
+    }, req);
+
+    res.status(200).json({
+      success: true,
+      message: 'Risk limits saved',
+      data: limits
+    });
+  } catch (error: any) {
+    console.error('🚨 Save risk limits error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to place multi-account orders',
+      message: 'Failed to save risk limits',
       error: error.message
     });
   }
 };
 
-// Helper function to handle failed order processing
-async function handleFailedOrder(
-  userId: string,
-  account: any,
-  orderResponse: any,
-  baseOrderRequest: any
-): Promise<void> {
+// Remove risk limits - user-wide without an account ID, otherwise for that account
+export const deleteRiskLimits = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
   try {
-    const errorClassifier = OrderErrorClassifier.getInstance();
-    const errorClassification = errorClassifier.classifyFyersError({
-      message: orderResponse.message,
-      code: orderResponse.data?.errorCode,
-      s: orderResponse.data?.s
-    });
-
-    // Generate a unique broker order ID for failed orders
-    const failedOrderId = `FAILED_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
-
-    const orderHistoryData = {
-      user_id: userId,
-      account_id: account.id.toString(),
-      broker_name: account.broker_name,
-      broker_order_id: failedOrderId,
-      symbol: baseOrderRequest.symbol,
-      action: baseOrderRequest.action as 'BUY' | 'SELL',
-      quantity: baseOrderRequest.quantity,
-      price: baseOrderRequest.price || 0,
-      order_type: baseOrderRequest.orderType as 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET',
-      status: 'FAILED' as const,
-      exchange: baseOrderRequest.exchange || 'NSE',
-      product_type: baseOrderRequest.productType,
-      remarks: `Failed: ${orderResponse.message}`,
-      executed_at: new Date().toISOString(),
-      // Error details
-      error_message: orderResponse.message,
-      error_code: orderResponse.data?.errorCode || orderResponse.data?.s,
-      error_type: errorClassification.errorType,
-      failure_reason: errorClassification.userMessage,
-      is_retryable: errorClassification.isRetryable,
-      retry_count: 0,
-      max_retries: errorClassification.maxRetries
-    };
-
-    const savedOrder = await userDatabase.createOrderHistory(orderHistoryData);
-    console.log(`💾 Failed order saved to history: ${failedOrderId} for ${account.broker_name}`);
-
-    // Schedule automatic retry if retryable
-    if (errorClassification.isRetryable && errorClassification.maxRetries > 0) {
-      const retryDelay = errorClassifier.calculateRetryDelay(errorClassification.retryDelay, 0);
-      await orderRetryService.scheduleAutoRetry(savedOrder.id.toString(), retryDelay);
-      console.log(`⏰ Scheduled auto-retry for failed order ${failedOrderId} in ${retryDelay}ms`);
+    const userId = req.user?.id;
+    const { accountId } = req.params;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
     }
 
-  } catch (historyError: any) {
-    console.error(`⚠️ Failed to save failed order history for ${account.broker_name}:`, historyError.message);
-  }
-}
-
-// Helper function to handle successful order processing
-async function handleSuccessfulOrder(
-  userId: string,
-  account: any,
-  orderResponse: any,
-  baseOrderRequest: any
-): Promise<void> {
-  try {
-    // Save order to history with PLACED status
-    const orderHistoryData = {
-      user_id: userId,
-      account_id: account.id.toString(),
-      broker_name: account.broker_name,
-      broker_order_id: orderResponse.data?.brokerOrderId || orderResponse.data?.orderId,
-      symbol: baseOrderRequest.symbol,
-      action: baseOrderRequest.action,
-      quantity: baseOrderRequest.quantity,
-      price: baseOrderRequest.price || 0,
-      order_type: baseOrderRequest.orderType,
-      status: 'PLACED' as const,
-      exchange: baseOrderRequest.exchange,
-      product_type: baseOrderRequest.productType,
-      remarks: baseOrderRequest.remarks,
-      executed_at: new Date().toISOString(),
-    };
+    if (accountId) {
+      if (!await accountAccessService.checkAccess(userId, accountId, 'MANAGE')) {
+        res.status(404).json({
+          success: false,
+          message: 'Account not found or access denied',
+        });
+        return;
+      }
+    }
 
-    const savedOrder = await userDatabase.createOrderHistory(orderHistoryData);
-    const orderId = orderResponse.data?.brokerOrderId || orderResponse.data?.orderId;
-    console.log(`✅ Order placed and saved to history for ${account.broker_name}:`, orderId);
+    await userDatabase.deleteRiskLimits(userId.toString(), accountId || null);
 
-    // Add order to real-time monitoring
-    const orderForMonitoring = {
-      id: savedOrder.id.toString(),
-      user_id: userId,
-      account_id: account.id.toString(),
-      symbol: baseOrderRequest.symbol,
-      action: baseOrderRequest.action,
-      quantity: baseOrderRequest.quantity,
-      price: baseOrderRequest.price || 0,
-      status: 'PLACED',
-      broker_name: account.broker_name,
-      broker_order_id: orderId,
-      order_type: baseOrderRequest.orderType,
-      exchange: baseOrderRequest.exchange,
-      product_type: baseOrderRequest.productType,
-      remarks: baseOrderRequest.remarks,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
+    await auditService.record({
+      userId: userId.toString(),
+      action: 'RISK_LIMITS_REMOVED',
+      accountId: accountId || null
+    }, req);
 
-    await orderStatusService.addOrderToMonitoring(orderForMonitoring);
-    console.log(`📊 Order added to real-time monitoring for ${account.broker_name}:`, orderId);
-  } catch (historyError: any) {
-    console.error(`⚠️ Failed to save order history for ${account.broker_name}:`, historyError.message);
-    // Don't throw error as the order was placed successfully
+    res.status(200).json({
+      success: true,
+      message: 'Risk limits removed'
+    });
+  } catch (error: any) {
+    console.error('🚨 Delete risk limits error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete risk limits',
+      error: error.message
+    });
   }
-}
+};
 
 // Single-account order placement
 export const placeOrder = async (
@@ -2051,9 +2498,28 @@ export const placeOrder = async (
   let rawProductType: string | undefined;
   let remarks: string | undefined;
   let userId: string | undefined;
+  let actedBy: string | undefined;
   let account: any;
   let brokerName: string | undefined;
 
+  // Every attempt that gets past validation ends up in the audit trail, placed or not
+  const auditPlacement = (success: boolean, details: Record<string, any>, errorMessage: string | null = null, orderHistoryId: string | null = null) =>
+    auditService.record({
+      userId: userId!.toString(),
+      action: 'ORDER_PLACED',
+      accountId: account.id.toString(),
+      brokerName,
+      resourceId: orderHistoryId,
+      details: {
+        symbol, action, quantity: parseInt(quantity!), orderType, price, triggerPrice,
+        exchange: exchange || 'NSE', productType: rawProductType, variety: req.body.variety || 'REGULAR',
+        ...(actedBy && { actedBy }),
+        ...details
+      },
+      success,
+      errorMessage
+    }, req);
+
   try {
     // Check validation errors
     const validationErrors = validationResult(req);
@@ -2078,6 +2544,7 @@ export const placeOrder = async (
     rawProductType = requestBody.productType;
     remarks = requestBody.remarks;
     const accountId = requestBody.accountId;
+    const variety: OrderVariety = requestBody.variety || 'REGULAR';
 
     userId = req.user?.id;
 
@@ -2098,18 +2565,145 @@ export const placeOrder = async (
       return;
     }
 
-    // Validate that the user owns the specified account
-    account = await userDatabase.getConnectedAccountById(accountId);
-    if (!account || account.user_id.toString() !== userId.toString()) {
+    // Validate that the user may trade the specified account
+    const access = await accountAccessService.checkAccess(userId, accountId, 'TRADE');
+    if (!access) {
       res.status(404).json({
         success: false,
         message: 'Account not found or access denied',
       });
       return;
     }
+    account = access.account;
+
+    // An order on a client's account runs as the client from here on
+    if (!access.isOwner) {
+      actedBy = userId.toString();
+      userId = access.ownerId;
+    }
 
     brokerName = account.broker_name;
 
+    // Futures and options must be ordered in whole lots
+    const lotSizeError = derivativesCSVService.validateOrderQuantity(exchange || 'NSE', symbol, parseInt(quantity));
+    if (lotSizeError) {
+      res.status(400).json({
+        success: false,
+        message: lotSizeError,
+        data: {
+          orderId: null,
+          brokerName,
+          symbol,
+          action,
+          quantity,
+          orderType,
+          status: 'FAILED',
+          timestamp: new Date().toISOString(),
+          errorType: 'LOT_SIZE_VIOLATION',
+          isRetryable: false
+        }
+      });
+      return;
+    }
+
+    // Market orders need a live session and AMOs a closed one
+    const sessionError = marketClockService.getOrderSessionError(exchange || 'NSE', orderType, variety);
+    if (sessionError) {
+      res.status(400).json({
+        success: false,
+        message: sessionError,
+        data: {
+          orderId: null,
+          brokerName,
+          symbol,
+          action,
+          quantity,
+          orderType,
+          variety,
+          status: 'FAILED',
+          timestamp: new Date().toISOString(),
+          errorType: 'MARKET_CLOSED',
+          ...(variety === 'REGULAR' && marketClockService.isAmoWindow(exchange || 'NSE') && { suggestedVariety: 'AMO' }),
+          isRetryable: false
+        }
+      });
+      return;
+    }
+
+    // Reject outright while a kill switch covers the account
+    const killSwitch = await killSwitchService.getBlockingSwitch(userId.toString(), account.id.toString());
+    if (killSwitch) {
+      await auditPlacement(false, { errorType: 'KILL_SWITCH_ACTIVE', killSwitchId: killSwitch.id }, killSwitchService.getBlockedMessage(killSwitch));
+      res.status(403).json({
+        success: false,
+        message: killSwitchService.getBlockedMessage(killSwitch),
+        data: {
+          orderId: null,
+          brokerName,
+          symbol,
+          action,
+          quantity,
+          orderType,
+          status: 'FAILED',
+          timestamp: new Date().toISOString(),
+          errorType: 'KILL_SWITCH_ACTIVE',
+          isRetryable: false
+        }
+      });
+      return;
+    }
+
+    // Pre-trade risk checks
+    const riskCheck = await riskManagementService.checkOrder(userId.toString(), account.id.toString(), {
+      symbol,
+      action: action as 'BUY' | 'SELL',
+      quantity: parseInt(quantity),
+      exchange: exchange || 'NSE',
+      productType: rawProductType,
+      price: price ? parseFloat(price) : undefined,
+      triggerPrice: triggerPrice ? parseFloat(triggerPrice) : undefined
+    });
+    if (!riskCheck.allowed) {
+      const riskMessage = riskCheck.violations.map(violation => violation.message).join('; ');
+      await auditPlacement(false, { errorType: 'RISK_VIOLATION', riskViolations: riskCheck.violations }, riskMessage);
+      await handleFailedOrder(userId, account, {
+        success: false,
+        message: riskMessage,
+        data: { errorType: 'RISK_VIOLATION' }
+      }, {
+        symbol,
+        action: action as 'BUY' | 'SELL',
+        quantity: parseInt(quantity),
+        orderType: orderType as 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET',
+        price: price ? parseFloat(price) : 0,
+        exchange: exchange || 'NSE',
+        productType: rawProductType
+      });
+
+      res.status(400).json({
+        success: false,
+        message: riskMessage,
+        data: {
+          orderId: null,
+          brokerName,
+          symbol,
+          action,
+          quantity,
+          orderType,
+          price,
+          triggerPrice,
+          exchange,
+          status: 'FAILED',
+          timestamp: new Date().toISOString(),
+          error: riskMessage,
+          errorType: 'RISK_VIOLATION',
+          riskViolations: riskCheck.violations,
+          isRetryable: false
+        }
+      });
+      return;
+    }
+
     // Ensure account is active (auto-reactivate if needed)
     const isAccountActive = await ensureAccountActive(userId, accountId);
     if (!isAccountActive) {
@@ -2131,6 +2725,7 @@ export const placeOrder = async (
       exchange: exchange || 'NSE',
       productType: rawProductType,
       validity: 'DAY' as 'DAY' | 'IOC' | 'GTD',
+      variety,
       remarks: remarks || `Order placed via CopyTrade Pro for account ${account.account_id}`,
       accountId: account.account_id
     };
@@ -2153,8 +2748,10 @@ export const placeOrder = async (
     }
 
     // Handle unified response
+    const placedStatus = variety === 'AMO' ? 'AMO_PLACED' as const : 'PLACED' as const;
     if (orderResponse.success) {
-      // Save order to history with PLACED status
+      // Save order to history with PLACED status, or AMO_PLACED while it waits for the next session
+      let orderHistoryId: string | null = null;
       try {
         const orderHistoryData = {
           user_id: userId,
@@ -2166,7 +2763,8 @@ export const placeOrder = async (
           quantity: parseInt(quantity),
           price: price ? parseFloat(price) : 0,
           order_type: orderType as 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET',
-          status: 'PLACED' as const,
+          variety,
+          status: placedStatus,
           exchange: exchange || 'NSE',
           product_type: rawProductType,
           remarks: remarks || `Order placed via CopyTrade Pro`,
@@ -2174,6 +2772,7 @@ export const placeOrder = async (
         };
 
         const savedOrder = await userDatabase.createOrderHistory(orderHistoryData);
+        orderHistoryId = savedOrder.id.toString();
         const orderId = orderResponse.data?.brokerOrderId || orderResponse.data?.orderId;
         console.log('✅ Order placed and saved to history:', orderId);
 
@@ -2186,7 +2785,7 @@ export const placeOrder = async (
           action: action,
           quantity: parseInt(quantity),
           price: price ? parseFloat(price) : 0,
-          status: 'PLACED',
+          status: placedStatus,
           broker_name: brokerName!,
           broker_order_id: orderId,
           order_type: orderType,
@@ -2203,6 +2802,11 @@ export const placeOrder = async (
         console.error('⚠️ Failed to save order history:', historyError.message);
       }
 
+      await auditPlacement(true, {
+        brokerOrderId: orderResponse.data?.brokerOrderId || orderResponse.data?.orderId,
+        orderStatus: placedStatus
+      }, null, orderHistoryId);
+
       res.status(200).json({
         success: true,
         message: orderResponse.message || 'Order placed successfully (awaiting execution)',
@@ -2216,9 +2820,12 @@ export const placeOrder = async (
           price,
           triggerPrice,
           exchange,
-          status: 'PLACED',
+          variety,
+          status: placedStatus,
           timestamp: new Date().toISOString(),
-          note: 'Order has been submitted to the exchange and is awaiting execution',
+          note: variety === 'AMO'
+            ? 'After-market order has been queued with the broker and will be sent to the exchange when the market opens'
+            : 'Order has been submitted to the exchange and is awaiting execution',
         },
       });
     } else {
@@ -2231,7 +2838,8 @@ export const placeOrder = async (
           orderType: orderType as 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET',
           price: price ? parseFloat(price) : 0,
           exchange: exchange || 'NSE',
-          productType: rawProductType
+          productType: rawProductType,
+          variety
         };
 
         await handleFailedOrder(userId, account, orderResponse, failedOrderData);
@@ -2239,6 +2847,8 @@ export const placeOrder = async (
         console.error('⚠️ Failed to save failed order history:', historyError.message);
       }
 
+      await auditPlacement(false, { errorType: orderResponse.data?.errorType }, orderResponse.message || 'Order placement failed');
+
       res.status(400).json({
         success: false,
         message: orderResponse.message || 'Failed to place order',
@@ -2273,7 +2883,8 @@ export const placeOrder = async (
           orderType: orderType as 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET',
           price: price ? parseFloat(price) : 0,
           exchange: exchange || 'NSE',
-          productType: rawProductType
+          productType: rawProductType,
+          variety: req.body.variety || 'REGULAR'
         };
 
         await handleFailedOrder(userId, account, {
@@ -2284,6 +2895,8 @@ export const placeOrder = async (
       } catch (historyError: any) {
         console.error('⚠️ Failed to save system error order history:', historyError.message);
       }
+
+      await auditPlacement(false, { errorType: 'SYSTEM_ERROR' }, error.message || 'System error during order placement');
     }
 
     res.status(500).json({
@@ -2471,17 +3084,20 @@ export const cancelOrder = async (
       return;
     }
 
-    // Verify user owns the order
-    if (orderHistory.user_id.toString() !== userId) {
+    // The account's owner or a workspace member who may trade it
+    const access = await accountAccessService.checkAccess(userId, orderHistory.account_id.toString(), 'TRADE');
+    if (!access) {
       res.status(403).json({
         success: false,
         message: 'Access denied',
       });
       return;
     }
+    const account = access.account;
+    const ownerId = access.ownerId;
 
     // Check if order can be cancelled
-    if (!['PLACED', 'PENDING', 'PARTIALLY_FILLED'].includes(orderHistory.status)) {
+    if (!['PLACED', 'AMO_PLACED', 'PENDING', 'PARTIALLY_FILLED'].includes(orderHistory.status)) {
       res.status(400).json({
         success: false,
         message: `Cannot cancel order with status: ${orderHistory.status}`,
@@ -2489,18 +3105,8 @@ export const cancelOrder = async (
       return;
     }
 
-    // Get account details
-    const account = await userDatabase.getConnectedAccountById(orderHistory.account_id.toString());
-    if (!account) {
-      res.status(404).json({
-        success: false,
-        message: 'Associated account not found',
-      });
-      return;
-    }
-
     // Ensure account is active
-    const isAccountActive = await ensureAccountActive(userId, account.id.toString());
+    const isAccountActive = await ensureAccountActive(ownerId, account.id.toString());
     if (!isAccountActive) {
       res.status(400).json({
         success: false,
@@ -2511,7 +3117,7 @@ export const cancelOrder = async (
 
     try {
       // Cancel order using broker service
-      const brokerService = enhancedUnifiedBrokerManager.getBrokerService(userId, account.broker_name, account.account_id);
+      const brokerService = enhancedUnifiedBrokerManager.getBrokerService(ownerId, account.broker_name, account.account_id);
       if (!brokerService) {
         res.status(400).json({
           success: false,
@@ -2523,6 +3129,24 @@ export const cancelOrder = async (
       // Cancel order using unified broker interface
       const cancelResult = await brokerService.cancelOrder(orderHistory.broker_order_id);
 
+      await auditService.record({
+        userId: ownerId,
+        action: 'ORDER_CANCELLED',
+        accountId: account.id.toString(),
+        brokerName: account.broker_name,
+        resourceId: orderHistory.id.toString(),
+        details: {
+          brokerOrderId: orderHistory.broker_order_id,
+          symbol: orderHistory.symbol,
+          action: orderHistory.action,
+          quantity: orderHistory.quantity,
+          previousStatus: orderHistory.status,
+          ...(!access.isOwner && { actedBy: userId })
+        },
+        success: !!cancelResult.success,
+        errorMessage: cancelResult.success ? null : cancelResult.message || 'Failed to cancel order at broker'
+      }, req);
+
       if (cancelResult.success) {
         // Update order status in database
         const updated = await userDatabase.updateOrderStatusByBrokerOrderId(
@@ -2534,7 +3158,7 @@ export const cancelOrder = async (
           console.log(`✅ Order ${orderId} cancelled successfully`);
 
           // Send WebSocket update
-          websocketService.sendToUser(userId, 'orderStatusUpdate', {
+          websocketService.sendToUser(ownerId, 'orderStatusUpdate', {
             orderId: orderHistory.id.toString(),
             brokerOrderId: orderHistory.broker_order_id,
             symbol: orderHistory.symbol,
@@ -2549,6 +3173,13 @@ export const cancelOrder = async (
             timestamp: new Date().toISOString()
           });
 
+          // The account owner's subscriptions hear about it, also when a workspace member cancelled
+          webhookService.publish(
+            orderHistory.user_id.toString(),
+            'order.cancelled',
+            toOrderEventData(orderHistory, { status: 'CANCELLED' })
+          );
+
           res.status(200).json({
             success: true,
             message: 'Order cancelled successfully',
@@ -2630,17 +3261,20 @@ export const modifyOrder = async (
       return;
     }
 
-    // Verify user owns the order
-    if (orderHistory.user_id.toString() !== userId) {
+    // The account's owner or a workspace member who may trade it
+    const access = await accountAccessService.checkAccess(userId, orderHistory.account_id.toString(), 'TRADE');
+    if (!access) {
       res.status(403).json({
         success: false,
         message: 'Access denied',
       });
       return;
     }
+    const account = access.account;
+    const ownerId = access.ownerId;
 
     // Check if order can be modified
-    if (!['PLACED', 'PENDING', 'PARTIALLY_FILLED'].includes(orderHistory.status)) {
+    if (!['PLACED', 'AMO_PLACED', 'PENDING', 'PARTIALLY_FILLED'].includes(orderHistory.status)) {
       res.status(400).json({
         success: false,
         message: `Cannot modify order with status: ${orderHistory.status}`,
@@ -2648,18 +3282,8 @@ export const modifyOrder = async (
       return;
     }
 
-    // Get account details
-    const account = await userDatabase.getConnectedAccountById(orderHistory.account_id.toString());
-    if (!account) {
-      res.status(404).json({
-        success: false,
-        message: 'Associated account not found',
-      });
-      return;
-    }
-
     // Ensure account is active
-    const isAccountActive = await ensureAccountActive(userId, account.id.toString());
+    const isAccountActive = await ensureAccountActive(ownerId, account.id.toString());
     if (!isAccountActive) {
       res.status(400).json({
         success: false,
@@ -2670,7 +3294,7 @@ export const modifyOrder = async (
 
     try {
       // Modify order using broker service
-      const brokerService = enhancedUnifiedBrokerManager.getBrokerService(userId, account.broker_name, account.account_id);
+      const brokerService = enhancedUnifiedBrokerManager.getBrokerService(ownerId, account.broker_name, account.account_id);
       if (!brokerService) {
         res.status(400).json({
           success: false,
@@ -2700,6 +3324,23 @@ export const modifyOrder = async (
 
       const modifyResult = await brokerService.modifyOrder(orderHistory.broker_order_id, modifications);
 
+      await auditService.record({
+        userId: ownerId,
+        action: 'ORDER_MODIFIED',
+        accountId: account.id.toString(),
+        brokerName: account.broker_name,
+        resourceId: orderHistory.id.toString(),
+        details: {
+          brokerOrderId: orderHistory.broker_order_id,
+          symbol: orderHistory.symbol,
+          previous: { quantity: orderHistory.quantity, price: orderHistory.price, orderType: orderHistory.order_type },
+          requested: modifyRequest,
+          ...(!access.isOwner && { actedBy: userId })
+        },
+        success: !!modifyResult.success,
+        errorMessage: modifyResult.success ? null : modifyResult.message || 'Failed to modify order at broker'
+      }, req);
+
       if (modifyResult.success) {
         // Update order in database with new details
         const updateData = {
@@ -2713,7 +3354,7 @@ export const modifyOrder = async (
         console.log(`✅ Order ${orderId} modified successfully`);
 
         // Send WebSocket update
-        websocketService.sendToUser(userId, 'orderModified', {
+        websocketService.sendToUser(ownerId, 'orderModified', {
           orderId: orderHistory.id.toString(),
           brokerOrderId: orderHistory.broker_order_id,
           symbol: orderHistory.symbol,
@@ -3834,6 +4475,102 @@ export const getPositions = async (
   }
 };
 
+// Demat holdings across the user's accounts, or one account with ?accountId=
+export const getHoldings = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const accountId = typeof req.query.accountId === 'string' ? req.query.accountId : undefined;
+    const data = await brokerAccountDataService.getHoldings(userId.toString(), accountId);
+
+    res.status(200).json({
+      success: true,
+      data
+    });
+  } catch (error: any) {
+    console.error('🚨 Get holdings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get holdings',
+      error: error.message
+    });
+  }
+};
+
+// Funds and margin limits across the user's accounts, or one account with ?accountId=
+export const getFunds = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const accountId = typeof req.query.accountId === 'string' ? req.query.accountId : undefined;
+    const data = await brokerAccountDataService.getFunds(userId.toString(), accountId);
+
+    res.status(200).json({
+      success: true,
+      data
+    });
+  } catch (error: any) {
+    console.error('🚨 Get funds error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get funds',
+      error: error.message
+    });
+  }
+};
+
+// Trade book across the user's accounts, or one account with ?accountId=
+export const getTradeBook = async (
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const accountId = typeof req.query.accountId === 'string' ? req.query.accountId : undefined;
+    const data = await brokerAccountDataService.getTradeBook(userId.toString(), accountId);
+
+    res.status(200).json({
+      success: true,
+      data
+    });
+  } catch (error: any) {
+    console.error('🚨 Get trade book error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get trade book',
+      error: error.message
+    });
+  }
+};
+
 export const searchSymbol = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -4025,6 +4762,23 @@ export const retryOrder = async (
 
     const retryResult = await orderRetryService.retryOrder(orderId, userId);
 
+    const retriedOrder = await userDatabase.getOrderHistoryById(orderId);
+    await auditService.record({
+      userId,
+      action: 'ORDER_RETRIED',
+      accountId: retriedOrder?.account_id.toString() ?? null,
+      brokerName: retriedOrder?.broker_name ?? null,
+      resourceId: orderId,
+      details: {
+        symbol: retriedOrder?.symbol,
+        brokerOrderId: retryResult.orderId,
+        newStatus: retryResult.newStatus,
+        retryCount: retryResult.retryCount
+      },
+      success: retryResult.success,
+      errorMessage: retryResult.success ? null : retryResult.message
+    }, req);
+
     if (retryResult.success) {
       res.status(200).json({
         success: true,
@@ -4092,8 +4846,8 @@ export const deleteOrder = async (
       return;
     }
 
-    // Verify order belongs to user
-    if (order.user_id.toString() !== userId) {
+    // The account's owner or a workspace member who may trade it
+    if (!await accountAccessService.checkAccess(userId, order.account_id.toString(), 'TRADE')) {
       res.status(403).json({
         success: false,
         message: 'Access denied',
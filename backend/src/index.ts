@@ -17,7 +17,18 @@ import advancedOrdersRoutes from './routes/advancedOrders';
 import marketDataRoutes from './routes/marketData';
 import logsRoutes from './routes/logs';
 import monitoringRoutes from './routes/monitoring';
+import copyTradingRoutes from './routes/copyTrading';
+import killSwitchRoutes from './routes/killSwitch';
+import adminRoutes from './routes/admin';
+import alertRoutes from './routes/alerts';
+import squareOffRoutes from './routes/squareOff';
+import auditRoutes from './routes/audit';
+import workspaceRoutes from './routes/workspaces';
+import apiKeyRoutes from './routes/apiKeys';
+import signalRoutes from './routes/signals';
+import webhookRoutes from './routes/webhooks';
 import { errorHandler } from './middleware/errorHandler';
+import { ApiKeyRequest } from './middleware/auth';
 import { loggingMiddleware, errorLoggingMiddleware } from './middleware/loggingMiddleware';
 import { performanceMonitoring, requestIdMiddleware } from './middleware/performanceMonitoring';
 import { validateEnv } from './utils/validateEnv';
@@ -32,6 +43,17 @@ import './services/symbolDatabaseService';
 import { getDatabase, DatabaseFactory } from './services/databaseFactory';
 import { initializeBrokerAccountCache } from './controllers/brokerController';
 import { productionMonitoringService } from './services/productionMonitoringService';
+import { copyTradingService } from './services/copyTradingService';
+import { advancedOrderEngine } from './services/advancedOrderEngine';
+import { registerPaperPlugin, paperExchange } from './brokers/paper';
+import { derivativesCSVService } from './services/derivativesCSVService';
+import { orderStreamService } from './services/orderStreamService';
+import { marketDataFeedService } from './services/marketDataFeedService';
+import { priceAlertService } from './services/priceAlertService';
+import { intradaySquareOffService } from './services/intradaySquareOffService';
+import { marketClockService } from './services/marketClockService';
+import { auditService } from './services/auditService';
+import { webhookService } from './services/webhookService';
 
 // Load environment variables
 dotenv.config();
@@ -97,6 +119,13 @@ app.use(cors({
 }));
 
 // Body parsing middleware
+// Signals are signed over the exact request body, so their raw bytes are kept
+app.use('/api/signals', express.json({
+  limit: '64kb',
+  verify: (req, _res, buf) => {
+    (req as ApiKeyRequest).rawBody = buf;
+  }
+}));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
@@ -171,6 +200,16 @@ app.use('/api/advanced-orders', advancedOrdersRoutes);
 app.use('/api/market-data', marketDataRoutes);
 app.use('/api/logs', logsRoutes);
 app.use('/api/monitoring', monitoringRoutes);
+app.use('/api/copy-trading', copyTradingRoutes);
+app.use('/api/kill-switch', killSwitchRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/square-off', squareOffRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/workspaces', workspaceRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/signals', signalRoutes);
+app.use('/api/webhooks', webhookRoutes);
 app.use('/api/notifications', require('./routes/notifications').default);
 
 
@@ -316,6 +355,20 @@ async function startServer() {
       }, error);
     }
 
+    try {
+      // Register the simulated paper trading broker
+      registerPaperPlugin(registry);
+      logger.info('Paper broker plugin registered directly', {
+        component: 'SERVER_STARTUP',
+        operation: 'REGISTER_PAPER_PLUGIN'
+      });
+    } catch (error) {
+      logger.error('Failed to register paper broker', {
+        component: 'SERVER_STARTUP',
+        operation: 'REGISTER_PAPER_PLUGIN_ERROR'
+      }, error);
+    }
+
     // Final status check
     const availableBrokers = registry.getAvailableBrokers();
     logger.info('Unified broker system ready', {
@@ -328,6 +381,9 @@ async function startServer() {
     // Initialize broker account cache
     await initializeBrokerAccountCache();
 
+    // Start market clock first: polling, order checks and schedulers follow its sessions
+    marketClockService.start();
+
     // Start order status monitoring
     orderStatusService.startMonitoring().catch((error: any) => {
       logger.error('Failed to start order status monitoring', {
@@ -336,6 +392,12 @@ async function startServer() {
       }, error);
     });
 
+    // Open broker order-update streams (polling covers accounts without one)
+    orderStreamService.start();
+
+    // Open the broker tick feed (NSE/Yahoo polling covers symbols it can't)
+    marketDataFeedService.start();
+
     // Start production monitoring service
     logger.info('Starting production monitoring service', {
       component: 'SERVER_STARTUP',
@@ -347,6 +409,30 @@ async function startServer() {
       operation: 'PRODUCTION_MONITORING_STARTED'
     });
 
+    // Start copy trading engine (master -> follower replication)
+    copyTradingService.start();
+
+    // Start advanced order engine (bracket, iceberg and trailing-stop execution)
+    advancedOrderEngine.start();
+
+    // Start price alert evaluation (price, volume, position and portfolio alerts)
+    priceAlertService.start();
+
+    // Start intraday square-off scheduler (closes MIS positions before the broker does)
+    intradaySquareOffService.start();
+
+    // Start audit retention (prunes audit events older than AUDIT_RETENTION_DAYS)
+    auditService.start();
+
+    // Start webhook retries (redelivers failed webhook events with backoff)
+    webhookService.start();
+
+    // Start paper exchange (order matching for paper trading accounts)
+    paperExchange.start();
+
+    // Load the F&O instrument master (NFO, BFO, MCX) and schedule its daily refresh
+    derivativesCSVService.start();
+
     // Start server with error handling - bind to 0.0.0.0 for EC2 access
     server.listen(Number(PORT), '0.0.0.0', () => {
       console.log(`🚀 Server running on port ${PORT}`);
@@ -422,7 +508,18 @@ async function gracefulShutdown(signal: string) {
     // Stop services
     websocketService.shutdown();
     orderStatusService.stopMonitoring();
+    orderStreamService.stop();
+    marketDataFeedService.stop();
     productionMonitoringService.stop();
+    copyTradingService.stop();
+    advancedOrderEngine.stop();
+    priceAlertService.stop();
+    intradaySquareOffService.stop();
+    auditService.stop();
+    webhookService.stop();
+    paperExchange.stop();
+    derivativesCSVService.stop();
+    marketClockService.stop();
 
     // Close database connection
     await DatabaseFactory.closeConnection();
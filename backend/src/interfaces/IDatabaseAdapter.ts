@@ -5,6 +5,11 @@ export interface User {
   email: string;
   name: string;
   password: string;
+  two_factor_enabled: boolean;
+  two_factor_secret: string | null; // TOTP secret, stored encrypted
+  two_factor_pending_secret: string | null; // set during setup until the first code is confirmed
+  two_factor_recovery_codes: string[]; // sha256 hashes of unused recovery codes
+  two_factor_last_step: number | null; // TOTP time step of the last accepted code; that code and older ones are refused
   created_at: string;
   updated_at: string;
 }
@@ -19,8 +24,34 @@ export interface UpdateUserData {
   email?: string;
   name?: string;
   password?: string;
+  two_factor_enabled?: boolean;
+  two_factor_secret?: string | null;
+  two_factor_pending_secret?: string | null;
+  two_factor_recovery_codes?: string[];
+  two_factor_last_step?: number | null;
 }
 
+// Login session - one per signed-in device, holding the current refresh token
+export interface AuthSession {
+  id: string;
+  user_id: string;
+  refresh_token_hash: string; // sha256 of the current refresh token; rotated on every refresh
+  previous_refresh_token_hash: string | null; // the token it replaced, still honoured for a few seconds
+  rotated_at: string | null;
+  device_name: string; // e.g. "Chrome on Windows"
+  user_agent: string | null;
+  ip_address: string | null;
+  step_up_at: string | null; // last time the user re-authenticated for sensitive operations
+  last_used_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+  revoke_reason: string | null;
+  created_at: string;
+}
+
+export type CreateAuthSessionData = Pick<AuthSession, 'user_id' | 'refresh_token_hash' | 'device_name' | 'user_agent' | 'ip_address' | 'expires_at'>;
+export type UpdateAuthSessionData = Partial<Pick<AuthSession, 'refresh_token_hash' | 'ip_address' | 'user_agent' | 'step_up_at' | 'last_used_at' | 'expires_at'>>;
+
 // Account status enum for authentication flow
 export type AccountStatus = 'ACTIVE' | 'INACTIVE' | 'PROCEED_TO_OAUTH';
 
@@ -35,6 +66,7 @@ export interface ConnectedAccount {
   exchanges: string; // JSON string
   products: string; // JSON string
   encrypted_credentials: string; // Encrypted JSON
+  credentials_key_version?: number | undefined; // Master key version of encrypted_credentials, 0 before envelope encryption
   account_status: AccountStatus; // Authentication status
   token_expiry_time: string | null; // ISO string or null for infinity (Shoonya)
   created_at: string;
@@ -55,6 +87,15 @@ export interface CreateConnectedAccountData {
   token_expiry_time?: string | null; // ISO string or null for infinity (Shoonya)
 }
 
+// Category of an order failure; RISK marks orders blocked by the pre-trade risk checks
+export type OrderErrorType = 'NETWORK' | 'BROKER' | 'VALIDATION' | 'AUTH' | 'SYSTEM' | 'MARKET' | 'RISK';
+
+// Where an order originated from
+export type OrderSource = 'MANUAL' | 'COPY_TRADE' | 'ADVANCED_ORDER' | 'KILL_SWITCH' | 'STRATEGY' | 'SQUARE_OFF';
+
+// AMO (after-market) orders are queued by the broker and reach the exchange at the next session
+export type OrderVariety = 'REGULAR' | 'AMO';
+
 export interface OrderHistory {
   id: number | string;
   user_id: number | string;
@@ -66,7 +107,8 @@ export interface OrderHistory {
   quantity: number;
   price: number;
   order_type: 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET';
-  status: 'PLACED' | 'PENDING' | 'EXECUTED' | 'CANCELLED' | 'REJECTED' | 'PARTIALLY_FILLED' | 'FAILED';
+  variety?: OrderVariety | undefined;
+  status: 'PLACED' | 'AMO_PLACED' | 'PENDING' | 'EXECUTED' | 'CANCELLED' | 'REJECTED' | 'PARTIALLY_FILLED' | 'FAILED';
   exchange: string;
   product_type: string;
   remarks: string;
@@ -80,12 +122,19 @@ export interface OrderHistory {
   // Enhanced fields for error handling and retry functionality
   error_message?: string | undefined;
   error_code?: string | undefined;
-  error_type?: 'NETWORK' | 'BROKER' | 'VALIDATION' | 'AUTH' | 'SYSTEM' | 'MARKET' | undefined;
+  error_type?: OrderErrorType | undefined;
   retry_count?: number | undefined;
   max_retries?: number | undefined;
   last_retry_at?: string | undefined;
   is_retryable?: boolean | undefined;
   failure_reason?: string | undefined;
+  // Copy trading linkage - follower orders point back to the master order they copy
+  source?: OrderSource | undefined;
+  parent_broker_order_id?: string | undefined;
+  master_account_id?: string | undefined;
+  // Strategy linkage - legs of a multi-leg strategy order point back to it
+  strategy_order_id?: string | undefined;
+  strategy_leg?: number | undefined; // index of the leg in the strategy
   account_info?: {
     account_id: string;
     user_name: string;
@@ -103,7 +152,8 @@ export interface CreateOrderHistoryData {
   quantity: number;
   price: number;
   order_type: 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET';
-  status?: 'PLACED' | 'PENDING' | 'EXECUTED' | 'CANCELLED' | 'REJECTED' | 'PARTIALLY_FILLED' | 'FAILED';
+  variety?: OrderVariety;
+  status?: 'PLACED' | 'AMO_PLACED' | 'PENDING' | 'EXECUTED' | 'CANCELLED' | 'REJECTED' | 'PARTIALLY_FILLED' | 'FAILED';
   exchange?: string;
   product_type?: string;
   remarks?: string;
@@ -111,24 +161,734 @@ export interface CreateOrderHistoryData {
   // Enhanced fields for error handling and retry functionality
   error_message?: string;
   error_code?: string;
-  error_type?: 'NETWORK' | 'BROKER' | 'VALIDATION' | 'AUTH' | 'SYSTEM' | 'MARKET';
+  error_type?: OrderErrorType;
   retry_count?: number;
   max_retries?: number;
   last_retry_at?: string;
   is_retryable?: boolean;
   failure_reason?: string;
+  // Copy trading linkage
+  source?: OrderSource;
+  parent_broker_order_id?: string;
+  master_account_id?: string;
+  // Strategy linkage
+  strategy_order_id?: string;
+  strategy_leg?: number;
 }
 
 export interface OrderFilters {
   status?: string;
   symbol?: string;
   brokerName?: string;
+  accountId?: string;
   startDate?: string;
   endDate?: string;
   action?: 'BUY' | 'SELL';
   search?: string;
 }
 
+// Copy trading - a master account whose orders are replicated to a follower account
+export interface CopyTradeLink {
+  id: string;
+  user_id: string;
+  master_account_id: string;
+  follower_account_id: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateCopyTradeLinkData {
+  user_id: string;
+  master_account_id: string;
+  follower_account_id: string;
+  is_active?: boolean;
+}
+
+export type CopiedOrderStatus = 'COPIED' | 'FAILED' | 'CANCELLED';
+
+// Record of a master order replicated to one follower; unique per (master order, follower)
+export interface CopiedOrder {
+  id: string;
+  user_id: string;
+  link_id: string;
+  master_account_id: string;
+  master_broker_order_id: string;
+  follower_account_id: string;
+  follower_order_id?: string | undefined; // OrderHistory id on the follower side
+  follower_broker_order_id?: string | undefined;
+  status: CopiedOrderStatus;
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  trigger_price?: number | undefined;
+  order_type: 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET';
+  error_message?: string | undefined;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateCopiedOrderData {
+  user_id: string;
+  link_id: string;
+  master_account_id: string;
+  master_broker_order_id: string;
+  follower_account_id: string;
+  follower_order_id?: string;
+  follower_broker_order_id?: string;
+  status: CopiedOrderStatus;
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  trigger_price?: number;
+  order_type: 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET';
+  error_message?: string;
+}
+
+export interface UpdateCopiedOrderData {
+  status?: CopiedOrderStatus;
+  quantity?: number;
+  price?: number;
+  trigger_price?: number;
+  order_type?: 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET';
+  error_message?: string;
+}
+
+// Position sizing - how a connected account scales the quantity of a fanned-out order
+export type SizingMethod = 'FIXED_QUANTITY' | 'MULTIPLIER' | 'PERCENT_OF_CAPITAL' | 'FIXED_NOTIONAL';
+
+export interface AccountSizingRule {
+  id: string;
+  user_id: string;
+  account_id: string; // ConnectedAccount id
+  method: SizingMethod;
+  value: number; // quantity, multiplier, percent or rupee notional depending on method
+  capital?: number | undefined; // PERCENT_OF_CAPITAL base when the broker's available funds can't be fetched
+  min_quantity?: number | undefined;
+  max_quantity?: number | undefined;
+  round_to_lot: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UpsertAccountSizingRuleData {
+  user_id: string;
+  account_id: string;
+  method: SizingMethod;
+  value: number;
+  capital?: number;
+  min_quantity?: number;
+  max_quantity?: number;
+  round_to_lot?: boolean;
+}
+
+// Pre-trade risk limits - a user-wide set (account_id null) plus optional per-account sets
+export interface RiskLimits {
+  id: string;
+  user_id: string;
+  account_id: string | null; // ConnectedAccount id, null for the user-wide limits
+  is_enabled: boolean;
+  max_order_value?: number | undefined; // rupee value of a single order
+  max_quantity_per_symbol?: number | undefined; // absolute net quantity held in one symbol after the order
+  max_open_positions?: number | undefined; // symbols with a non-zero net position today
+  daily_loss_limit?: number | undefined; // rupee loss after which only position-reducing orders are allowed
+  max_orders_per_minute?: number | undefined;
+  allowed_exchanges: string[]; // empty allows every exchange
+  allowed_products: string[]; // empty allows every product type
+  restricted_symbols: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UpsertRiskLimitsData {
+  user_id: string;
+  account_id: string | null;
+  is_enabled?: boolean;
+  max_order_value?: number;
+  max_quantity_per_symbol?: number;
+  max_open_positions?: number;
+  daily_loss_limit?: number;
+  max_orders_per_minute?: number;
+  allowed_exchanges?: string[];
+  allowed_products?: string[];
+  restricted_symbols?: string[];
+}
+
+// Kill switch - halts new orders for all of a user's accounts (account_id null) or for one account
+export interface KillSwitch {
+  id: string;
+  user_id: string;
+  account_id: string | null; // ConnectedAccount id, null for the user-wide switch
+  is_active: boolean;
+  reason?: string | undefined;
+  activated_at?: string | undefined;
+  deactivated_at?: string | undefined;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UpsertKillSwitchData {
+  user_id: string;
+  account_id: string | null;
+  is_active: boolean;
+  reason?: string;
+}
+
+export type KillSwitchAction = 'ACTIVATED' | 'DEACTIVATED';
+
+// A broker call that failed while cancelling an account's orders or closing its positions
+export interface AccountFlattenFailure {
+  account_id: string;
+  operation: 'ACTIVATE_ACCOUNT' | 'CANCEL_ORDER' | 'SQUARE_OFF' | 'FETCH_ORDERS' | 'FETCH_POSITIONS';
+  reference?: string | undefined; // broker order id or symbol the failure relates to
+  message: string;
+}
+
+export type KillSwitchFailure = AccountFlattenFailure;
+
+// Audit trail of kill switch activations and deactivations
+export interface KillSwitchEvent {
+  id: string;
+  user_id: string;
+  account_id: string | null;
+  action: KillSwitchAction;
+  reason?: string | undefined;
+  square_off: boolean;
+  cancelled_orders: number;
+  squared_off_positions: number;
+  failures: KillSwitchFailure[];
+  created_at: string;
+}
+
+export type CreateKillSwitchEventData = Omit<KillSwitchEvent, 'id' | 'created_at'>;
+
+// Intraday square-off - a user-wide schedule (account_id null) plus optional per-account overrides
+export interface SquareOffSettings {
+  id: string;
+  user_id: string;
+  account_id: string | null; // ConnectedAccount id, null for the user-wide default
+  enabled: boolean;
+  square_off_time: string; // HH:MM market time (IST)
+  cancel_pending_orders: boolean; // also cancel open intraday orders
+  created_at: string;
+  updated_at: string;
+}
+
+export type UpsertSquareOffSettingsData = Omit<SquareOffSettings, 'id' | 'created_at' | 'updated_at'>;
+
+export type SquareOffTrigger = 'SCHEDULED' | 'MANUAL';
+export type SquareOffRunStatus = 'COMPLETED' | 'PARTIAL' | 'FAILED' | 'NOTHING_TO_DO';
+
+// Outcome of squaring off one account on one trading day
+export interface SquareOffRun {
+  id: string;
+  user_id: string;
+  account_id: string;
+  trading_date: string; // YYYY-MM-DD in market time
+  trigger: SquareOffTrigger;
+  status: SquareOffRunStatus;
+  cancelled_orders: number;
+  squared_off_positions: number;
+  retried_orders: number; // square-off orders that went through on a retry
+  failures: AccountFlattenFailure[];
+  created_at: string;
+}
+
+export type CreateSquareOffRunData = Omit<SquareOffRun, 'id' | 'created_at'>;
+
+// Advanced orders - bracket, iceberg, trailing-stop and conditional orders run by the server-side engine
+export type AdvancedOrderType = 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET' | 'BRACKET' | 'COVER' | 'ICEBERG' | 'TRAILING_SL';
+export type AdvancedOrderStatus = 'PENDING' | 'ACTIVE' | 'TRIGGERED' | 'EXECUTED' | 'CANCELLED' | 'EXPIRED';
+export type AdvancedOrderLeg = 'ENTRY' | 'STOP_LOSS' | 'TAKE_PROFIT' | 'SLICE';
+export type OrderValidity = 'DAY' | 'IOC' | 'GTD';
+export type AdvancedOrderConditionType = 'PRICE_ABOVE' | 'PRICE_BELOW' | 'TIME_BASED' | 'VOLUME_BASED';
+
+export interface OrderTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string | undefined;
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  order_type: AdvancedOrderType;
+  price?: number | undefined;
+  trigger_price?: number | undefined;
+  stop_loss?: number | undefined;
+  take_profit?: number | undefined;
+  exchange: string;
+  product_type: string;
+  validity: OrderValidity;
+  iceberg_quantity?: number | undefined;
+  trail_amount?: number | undefined;
+  trail_percent?: number | undefined;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateOrderTemplateData = Omit<OrderTemplate, 'id' | 'created_at' | 'updated_at'>;
+export type UpdateOrderTemplateData = Partial<Omit<OrderTemplate, 'id' | 'user_id' | 'created_at' | 'updated_at'>>;
+
+// One order of an advanced order group; child legs point at their parent and share order_group_id
+export interface AdvancedOrder {
+  id: string;
+  user_id: string;
+  account_id: string; // ConnectedAccount id the legs are placed on
+  account_ids?: string[] | undefined; // conditional orders fan out to every listed account when they fire
+  parent_order_id?: string | undefined;
+  order_group_id?: string | undefined;
+  leg?: AdvancedOrderLeg | undefined;
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  order_type: AdvancedOrderType;
+  price?: number | undefined;
+  trigger_price?: number | undefined;
+  stop_loss?: number | undefined;
+  take_profit?: number | undefined;
+  status: AdvancedOrderStatus;
+  exchange: string;
+  product_type: string;
+  validity: OrderValidity;
+  expiry_date?: string | undefined;
+  iceberg_quantity?: number | undefined;
+  iceberg_executed: number;
+  trail_amount?: number | undefined;
+  trail_percent?: number | undefined;
+  trail_trigger_price?: number | undefined; // current stop level of a trailing stop
+  condition_type?: AdvancedOrderConditionType | undefined;
+  condition_value?: number | undefined; // price or day volume the condition is checked against
+  scheduled_at?: string | undefined; // when a TIME_BASED order fires
+  is_bracket_order: boolean;
+  bracket_stop_loss?: number | undefined;
+  bracket_take_profit?: number | undefined;
+  broker_order_id?: string | undefined;
+  order_history_id?: string | undefined;
+  error_message?: string | undefined;
+  remarks?: string | undefined;
+  created_at: string;
+  updated_at: string;
+  executed_at?: string | undefined;
+}
+
+export type CreateAdvancedOrderData = Omit<AdvancedOrder, 'id' | 'created_at' | 'updated_at'>;
+
+export interface UpdateAdvancedOrderData {
+  status?: AdvancedOrderStatus;
+  quantity?: number;
+  price?: number;
+  trigger_price?: number;
+  iceberg_executed?: number;
+  trail_trigger_price?: number;
+  broker_order_id?: string;
+  order_history_id?: string;
+  error_message?: string;
+  remarks?: string;
+  executed_at?: string;
+}
+
+export interface OrderModification {
+  id: string;
+  user_id: string;
+  order_id: string; // AdvancedOrder id
+  broker_order_id?: string | undefined;
+  modification_type: 'PRICE' | 'QUANTITY' | 'TRIGGER_PRICE' | 'STOP_LOSS' | 'TAKE_PROFIT' | 'CANCEL';
+  old_value?: number | undefined;
+  new_value?: number | undefined;
+  status: 'PENDING' | 'SUCCESS' | 'FAILED';
+  error_message?: string | undefined;
+  created_at: string;
+}
+
+export type CreateOrderModificationData = Omit<OrderModification, 'id' | 'created_at'>;
+
+// Strategy orders - multi-leg option strategies placed as one basket across accounts
+export type StrategyType = 'SPREAD' | 'STRADDLE' | 'STRANGLE' | 'IRON_CONDOR' | 'CUSTOM';
+export type StrategyOrderStatus = 'PENDING' | 'PLACED' | 'PARTIALLY_PLACED' | 'ROLLED_BACK' | 'FAILED';
+export type StrategyLegFailureAction = 'ROLLBACK' | 'ALERT';
+
+export interface StrategyLeg {
+  symbol: string;
+  exchange: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  option_type?: 'CE' | 'PE' | undefined; // omitted for futures legs
+  strike?: number | undefined;
+  expiry?: string | undefined;
+  order_type: 'MARKET' | 'LIMIT';
+  price?: number | undefined; // limit price
+  premium: number; // expected fill price used for the payoff
+  product_type: string;
+}
+
+export interface StrategyAccountResult {
+  account_id: string;
+  status: 'PLACED' | 'ROLLED_BACK' | 'PARTIALLY_PLACED' | 'FAILED';
+  placed_legs: Array<{ leg_index: number; broker_order_id: string }>;
+  failed_leg?: number | undefined;
+  error?: string | undefined;
+  rollback_errors?: string[] | undefined;
+}
+
+export interface StrategyOrder {
+  id: string;
+  user_id: string;
+  name: string;
+  strategy_type: StrategyType;
+  underlying?: string | undefined;
+  legs: StrategyLeg[];
+  net_premium: number; // per strategy, positive for a net credit
+  max_profit: number | null; // null when unlimited
+  max_loss: number | null; // null when unlimited
+  breakevens: number[];
+  on_leg_failure: StrategyLegFailureAction;
+  status: StrategyOrderStatus;
+  account_results: StrategyAccountResult[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateStrategyOrderData = Omit<StrategyOrder, 'id' | 'created_at' | 'updated_at'>;
+export type UpdateStrategyOrderData = Partial<Pick<StrategyOrder, 'status' | 'account_results'>>;
+
+// Trade ledger - executed fills, the source of positions and realised P&L
+export interface LedgerFill {
+  id: string;
+  user_id: string;
+  account_id: string;
+  order_history_id: string;
+  broker_name: string;
+  symbol: string;
+  exchange: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  cumulative_quantity: number; // executed quantity of the order including this fill
+  executed_at: string;
+  created_at: string;
+}
+
+export type CreateLedgerFillData = Omit<LedgerFill, 'id' | 'created_at'>;
+
+// Market data - OHLCV bars, one per instrument, interval and bar start
+export interface Candle {
+  symbol: string;
+  exchange: string;
+  interval: '1m' | '5m' | '15m' | '1d';
+  start: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  source: 'broker' | 'file' | 'ticks';
+}
+
+// Credential encryption - accounts per master key version
+export interface CredentialKeyStatus {
+  activeVersion: number;
+  accountsByVersion: Record<string, number>;
+  usersByVersion: Record<string, number>; // users' two-factor secrets, current and pending
+  apiKeysByVersion: Record<string, number>; // API key signing secrets
+  webhooksByVersion: Record<string, number>; // webhook subscription signing secrets
+}
+
+// Price alerts - user-defined market and portfolio conditions evaluated by the server
+export type PriceAlertCondition =
+  | 'PRICE_ABOVE'
+  | 'PRICE_BELOW'
+  | 'PERCENT_CHANGE'
+  | 'VOLUME_SPIKE'
+  | 'WEEK52_HIGH'
+  | 'WEEK52_LOW'
+  | 'POSITION_PNL'
+  | 'PORTFOLIO_DRAWDOWN';
+export type PriceAlertTrigger = 'ONCE' | 'RECURRING';
+export type PriceAlertStatus = 'ACTIVE' | 'TRIGGERED' | 'DISABLED';
+export type PriceAlertChannel = 'PUSH' | 'WEBSOCKET' | 'EMAIL' | 'WEBHOOK';
+
+export interface PriceAlert {
+  id: string;
+  user_id: string;
+  name: string;
+  condition: PriceAlertCondition;
+  symbol: string | null; // null for PORTFOLIO_DRAWDOWN
+  exchange: string | null;
+  // Price for PRICE_*, signed day change % for PERCENT_CHANGE, multiple of average volume for
+  // VOLUME_SPIKE, signed ₹ for POSITION_PNL, drawdown % for PORTFOLIO_DRAWDOWN; unused for WEEK52_*
+  threshold: number;
+  trigger: PriceAlertTrigger;
+  cooldown_minutes: number; // minimum gap between recurring triggers
+  channels: PriceAlertChannel[];
+  webhook_url: string | null;
+  status: PriceAlertStatus;
+  armed: boolean; // the condition has been false since the last trigger, so the next crossing fires
+  peak_value: number | null; // PORTFOLIO_DRAWDOWN high-water mark
+  last_value: number | null;
+  last_triggered_at: string | null;
+  trigger_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreatePriceAlertData = Omit<PriceAlert, 'id' | 'created_at' | 'updated_at'>;
+export type UpdatePriceAlertData = Partial<Omit<PriceAlert, 'id' | 'user_id' | 'created_at' | 'updated_at'>>;
+
+// Workspaces - a team such as an advisor and their clients. Members see and trade the connected
+// accounts that clients grant to the workspace, within what their role allows.
+export type WorkspaceRole = 'owner' | 'trader' | 'viewer';
+export type AccountPermission = 'VIEW' | 'TRADE';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  owner_id: string; // the user who created it; always a member with the owner role
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateWorkspaceData = Pick<Workspace, 'name' | 'owner_id'>;
+
+export interface WorkspaceMember {
+  id: string;
+  workspace_id: string;
+  user_id: string;
+  role: WorkspaceRole;
+  added_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateWorkspaceMemberData = Pick<WorkspaceMember, 'workspace_id' | 'user_id' | 'role' | 'added_by'>;
+
+// An account owner's grant of one connected account to a workspace
+export interface AccountGrant {
+  id: string;
+  workspace_id: string;
+  account_id: string; // ConnectedAccount id
+  owner_id: string; // user the account belongs to
+  permissions: AccountPermission[];
+  revoked_at: string | null;
+  revoked_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateAccountGrantData = Pick<AccountGrant, 'workspace_id' | 'account_id' | 'owner_id' | 'permissions'>;
+
+export interface AccountGrantFilters {
+  workspaceIds?: string[] | undefined;
+  accountId?: string | undefined;
+  ownerId?: string | undefined;
+}
+
+// API keys - let scripts and alert services (TradingView, Amibroker, ...) act for a user without
+// a browser login, limited to the key's scopes, source addresses and account groups
+export type ApiKeyScope = 'signals:write' | 'signals:read';
+
+// Named set of accounts a signal can target
+export interface ApiKeyAccountGroup {
+  name: string;
+  account_ids: string[]; // ConnectedAccount ids
+}
+
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  key_prefix: string; // start of the key, to tell keys apart; the key itself is shown once
+  key_hash: string; // sha256 of the key
+  signing_secret: string; // HMAC secret for request signatures (encrypted at rest)
+  scopes: ApiKeyScope[];
+  ip_allowlist: string[]; // addresses or IPv4 CIDR ranges; empty allows any address
+  require_signature: boolean;
+  account_groups: ApiKeyAccountGroup[];
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateApiKeyData = Pick<ApiKey,
+  'user_id' | 'name' | 'key_prefix' | 'key_hash' | 'signing_secret' | 'scopes' | 'ip_allowlist' | 'require_signature' | 'account_groups'>;
+export type UpdateApiKeyData = Partial<Pick<ApiKey,
+  'name' | 'scopes' | 'ip_allowlist' | 'require_signature' | 'account_groups' | 'last_used_at' | 'last_used_ip'>>;
+
+// Inbound signals - order instructions received through an API key, with the orders they produced
+export type SignalStatus = 'PROCESSING' | 'COMPLETED' | 'PARTIAL' | 'FAILED' | 'REJECTED';
+
+export interface SignalOrder {
+  account_id: string;
+  broker_name: string;
+  order_history_id: string | null;
+  broker_order_id: string | null;
+  quantity: number;
+  success: boolean;
+  error: string | null;
+}
+
+export interface Signal {
+  id: string;
+  user_id: string;
+  api_key_id: string;
+  idempotency_key: string | null; // a repeated key returns the first signal's result instead of trading again
+  payload: Record<string, any>; // as received
+  account_group: string | null;
+  order: Record<string, any> | null; // the order request the payload was read as
+  status: SignalStatus;
+  error: string | null;
+  orders: SignalOrder[];
+  source_ip: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export type CreateSignalData = Pick<Signal, 'user_id' | 'api_key_id' | 'idempotency_key' | 'payload' | 'source_ip'>;
+export type UpdateSignalData = Partial<Pick<Signal, 'account_group' | 'order' | 'status' | 'error' | 'orders' | 'completed_at'>>;
+
+export interface SignalFilters {
+  apiKeyId?: string | undefined;
+  status?: SignalStatus | undefined;
+}
+
+// Outbound webhooks - user-configured endpoints that are sent signed CopyTrade events
+export type WebhookEvent =
+  | 'order.placed'
+  | 'order.filled'
+  | 'order.rejected'
+  | 'order.cancelled'
+  | 'account.session_expired'
+  | 'alert.triggered'
+  | 'webhook.test'; // only sent from the "send test event" button
+
+export interface WebhookSubscription {
+  id: string;
+  user_id: string;
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  secret: string; // HMAC secret for payload signatures (encrypted at rest)
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateWebhookSubscriptionData = Pick<WebhookSubscription, 'user_id' | 'name' | 'url' | 'events' | 'secret'>;
+export type UpdateWebhookSubscriptionData = Partial<Pick<WebhookSubscription, 'name' | 'url' | 'events' | 'is_active'>>;
+
+// PENDING until the first attempt reports back, RETRYING between attempts, DEAD_LETTER once retries run out
+export type WebhookDeliveryStatus = 'PENDING' | 'DELIVERED' | 'RETRYING' | 'DEAD_LETTER';
+
+export interface WebhookDelivery {
+  id: string; // also sent to the endpoint, so receivers can drop repeats
+  subscription_id: string;
+  user_id: string;
+  event: WebhookEvent;
+  data: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null; // when the retry worker picks it up
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export type CreateWebhookDeliveryData = Pick<WebhookDelivery, 'subscription_id' | 'user_id' | 'event' | 'data' | 'next_attempt_at'>;
+export type UpdateWebhookDeliveryData = Partial<Pick<WebhookDelivery,
+  'status' | 'attempts' | 'next_attempt_at' | 'last_status_code' | 'last_error' | 'delivered_at'>>;
+
+export interface WebhookDeliveryFilters {
+  subscriptionId?: string | undefined;
+  status?: WebhookDeliveryStatus | undefined;
+}
+
+// Paper trading - the simulated account's whole book, keyed by the paper account id
+export interface PaperAccountState {
+  account_id: string;
+  snapshot: Record<string, any>;
+  updated_at: string;
+}
+
+// Audit trail - append-only record of trading and account actions, hash-chained in sequence order
+export type AuditCategory = 'ORDER' | 'ACCOUNT' | 'RISK' | 'SETTINGS' | 'SECURITY' | 'SYSTEM';
+export type AuditAction =
+  | 'ORDER_PLACED'
+  | 'ORDER_MODIFIED'
+  | 'ORDER_CANCELLED'
+  | 'ORDER_RETRIED'
+  | 'ACCOUNT_CONNECTED'
+  | 'ACCOUNT_OAUTH_COMPLETED'
+  | 'ACCOUNT_ACTIVATED'
+  | 'ACCOUNT_DEACTIVATED'
+  | 'ACCOUNT_REMOVED'
+  | 'RISK_LIMITS_UPDATED'
+  | 'RISK_LIMITS_REMOVED'
+  | 'KILL_SWITCH_ACTIVATED'
+  | 'KILL_SWITCH_DEACTIVATED'
+  | 'SIZING_RULE_UPDATED'
+  | 'SIZING_RULE_REMOVED'
+  | 'SQUARE_OFF_SETTINGS_UPDATED'
+  | 'SQUARE_OFF_SETTINGS_REMOVED'
+  | 'NOTIFICATION_PREFERENCES_UPDATED'
+  | 'TWO_FACTOR_ENABLED'
+  | 'TWO_FACTOR_DISABLED'
+  | 'RECOVERY_CODES_REGENERATED'
+  | 'SESSION_REVOKED'
+  | 'OTHER_SESSIONS_REVOKED'
+  | 'WORKSPACE_CREATED'
+  | 'WORKSPACE_MEMBER_ADDED'
+  | 'WORKSPACE_MEMBER_UPDATED'
+  | 'WORKSPACE_MEMBER_REMOVED'
+  | 'ACCOUNT_ACCESS_GRANTED'
+  | 'ACCOUNT_ACCESS_UPDATED'
+  | 'ACCOUNT_ACCESS_REVOKED'
+  | 'API_KEY_CREATED'
+  | 'API_KEY_UPDATED'
+  | 'API_KEY_REVOKED'
+  | 'SIGNAL_REJECTED'
+  | 'WEBHOOK_CREATED'
+  | 'WEBHOOK_UPDATED'
+  | 'WEBHOOK_DELETED'
+  | 'AUDIT_RETENTION_APPLIED';
+
+export interface AuditEvent {
+  id: string;
+  sequence: number; // position in the chain, starting at 1
+  user_id: string | null; // whose data was touched, null for system events
+  action: AuditAction;
+  category: AuditCategory;
+  account_id: string | null; // ConnectedAccount id
+  broker_name: string | null;
+  resource_id: string | null; // order id, alert id, ... when the action targets one
+  details: Record<string, any>;
+  success: boolean;
+  error_message: string | null;
+  request_id: string | null; // X-Request-ID of the API call that caused it
+  ip_address: string | null;
+  user_agent: string | null;
+  previous_hash: string; // hash of the previous event, or the genesis hash
+  hash: string; // sha256 over this event's fields and previous_hash
+  created_at: string;
+}
+
+export type CreateAuditEventData = Omit<AuditEvent, 'id'>;
+
+export interface AuditEventFilters {
+  userId?: string | undefined;
+  accountId?: string | undefined;
+  category?: AuditCategory | undefined;
+  actions?: AuditAction[] | undefined;
+  requestId?: string | undefined;
+  success?: boolean | undefined;
+  startDate?: string | undefined;
+  endDate?: string | undefined;
+}
+
 /**
  * Database Adapter Interface
  * Provides a unified interface for different database implementations (MongoDB, etc.)
@@ -146,6 +906,8 @@ export interface IDatabaseAdapter {
   getUserByEmail(email: string): Promise<User | null> | User | null;
   findUserByEmail(email: string): Promise<User | null> | User | null;
   updateUser(id: number | string, userData: UpdateUserData): Promise<User | null> | User | null;
+  // Record an accepted TOTP time step; false if it is not newer than the last one, i.e. a replayed code
+  claimTwoFactorStep(id: number | string, step: number): Promise<boolean> | boolean;
   deleteUser(id: number | string): Promise<boolean> | boolean;
   getUserCount(): Promise<number> | number;
   searchUsers(query: string): Promise<User[]> | User[];
@@ -170,7 +932,7 @@ export interface IDatabaseAdapter {
     status: string;
     error_message?: string;
     error_code?: string;
-    error_type?: 'NETWORK' | 'BROKER' | 'VALIDATION' | 'AUTH' | 'SYSTEM' | 'MARKET';
+    error_type?: OrderErrorType;
     failure_reason?: string;
     is_retryable?: boolean;
   }): Promise<boolean> | boolean;
@@ -181,7 +943,7 @@ export interface IDatabaseAdapter {
     rejection_reason?: string;
     error_message?: string;
     error_code?: string;
-    error_type?: 'NETWORK' | 'BROKER' | 'VALIDATION' | 'AUTH' | 'SYSTEM' | 'MARKET';
+    error_type?: OrderErrorType;
     failure_reason?: string;
     is_retryable?: boolean;
     last_updated?: Date;
@@ -190,6 +952,171 @@ export interface IDatabaseAdapter {
   deleteOrderHistory(id: string): Promise<boolean> | boolean;
   getAllOrderHistory(limit?: number, offset?: number): Promise<OrderHistory[]> | OrderHistory[];
   getOrderCountByUserIdWithFilters(userId: number | string, filters?: OrderFilters): Promise<number> | number;
+  getOpenOrders(): Promise<OrderHistory[]> | OrderHistory[]; // all users, still working at the broker
+
+  // Copy Trading Management
+  createCopyTradeLink(linkData: CreateCopyTradeLinkData): Promise<CopyTradeLink> | CopyTradeLink;
+  getCopyTradeLinkById(id: string): Promise<CopyTradeLink | null> | CopyTradeLink | null;
+  getCopyTradeLinksByUserId(userId: string): Promise<CopyTradeLink[]> | CopyTradeLink[];
+  // Links of any user where one of the accounts is the master or the follower
+  getCopyTradeLinksByAccountIds(accountIds: string[]): Promise<CopyTradeLink[]> | CopyTradeLink[];
+  getActiveCopyTradeLinks(): Promise<CopyTradeLink[]> | CopyTradeLink[];
+  updateCopyTradeLink(id: string, linkData: Partial<CreateCopyTradeLinkData>): Promise<CopyTradeLink | null> | CopyTradeLink | null;
+  deleteCopyTradeLink(id: string): Promise<boolean> | boolean;
+  createCopiedOrder(orderData: CreateCopiedOrderData): Promise<CopiedOrder> | CopiedOrder;
+  getCopiedOrder(masterAccountId: string, masterBrokerOrderId: string, followerAccountId: string): Promise<CopiedOrder | null> | CopiedOrder | null;
+  getCopiedOrdersByMasterOrder(masterAccountId: string, masterBrokerOrderId: string): Promise<CopiedOrder[]> | CopiedOrder[];
+  getCopiedOrdersByUserId(userId: string, limit?: number, offset?: number): Promise<CopiedOrder[]> | CopiedOrder[];
+  updateCopiedOrder(id: string, updateData: UpdateCopiedOrderData): Promise<CopiedOrder | null> | CopiedOrder | null;
+
+  // Position Sizing Rules
+  getSizingRuleByAccountId(accountId: string): Promise<AccountSizingRule | null> | AccountSizingRule | null;
+  getSizingRulesByUserId(userId: string): Promise<AccountSizingRule[]> | AccountSizingRule[];
+  upsertSizingRule(ruleData: UpsertAccountSizingRuleData): Promise<AccountSizingRule> | AccountSizingRule;
+  deleteSizingRule(accountId: string): Promise<boolean> | boolean;
+
+  // Risk Limits
+  getRiskLimits(userId: string, accountId: string | null): Promise<RiskLimits | null> | RiskLimits | null;
+  getRiskLimitsByUserId(userId: string): Promise<RiskLimits[]> | RiskLimits[];
+  upsertRiskLimits(limitsData: UpsertRiskLimitsData): Promise<RiskLimits> | RiskLimits;
+  deleteRiskLimits(userId: string, accountId: string | null): Promise<boolean> | boolean;
+
+  // Kill Switch
+  getKillSwitchesByUserId(userId: string): Promise<KillSwitch[]> | KillSwitch[];
+  upsertKillSwitch(switchData: UpsertKillSwitchData): Promise<KillSwitch> | KillSwitch;
+  createKillSwitchEvent(eventData: CreateKillSwitchEventData): Promise<KillSwitchEvent> | KillSwitchEvent;
+  getKillSwitchEventsByUserId(userId: string, limit?: number): Promise<KillSwitchEvent[]> | KillSwitchEvent[];
+
+  // Intraday Square-off
+  getSquareOffSettingsByUserId(userId: string): Promise<SquareOffSettings[]> | SquareOffSettings[];
+  getEnabledSquareOffSettings(): Promise<SquareOffSettings[]> | SquareOffSettings[];
+  upsertSquareOffSettings(settingsData: UpsertSquareOffSettingsData): Promise<SquareOffSettings> | SquareOffSettings;
+  deleteSquareOffSettings(userId: string, accountId: string | null): Promise<boolean> | boolean;
+  createSquareOffRun(runData: CreateSquareOffRunData): Promise<SquareOffRun> | SquareOffRun;
+  getSquareOffRunsByUserId(userId: string, limit?: number): Promise<SquareOffRun[]> | SquareOffRun[];
+  hasScheduledSquareOffRun(accountId: string, tradingDate: string): Promise<boolean> | boolean;
+
+  // Advanced Orders
+  createOrderTemplate(templateData: CreateOrderTemplateData): Promise<OrderTemplate> | OrderTemplate;
+  getOrderTemplateById(id: string): Promise<OrderTemplate | null> | OrderTemplate | null;
+  getOrderTemplatesByUserId(userId: string, activeOnly?: boolean): Promise<OrderTemplate[]> | OrderTemplate[];
+  updateOrderTemplate(id: string, updateData: UpdateOrderTemplateData): Promise<OrderTemplate | null> | OrderTemplate | null;
+  deleteOrderTemplate(id: string): Promise<boolean> | boolean;
+  createAdvancedOrder(orderData: CreateAdvancedOrderData): Promise<AdvancedOrder> | AdvancedOrder;
+  getAdvancedOrderById(id: string): Promise<AdvancedOrder | null> | AdvancedOrder | null;
+  getAdvancedOrdersByUserId(userId: string, status?: AdvancedOrderStatus): Promise<AdvancedOrder[]> | AdvancedOrder[];
+  getAdvancedOrdersByGroupId(orderGroupId: string): Promise<AdvancedOrder[]> | AdvancedOrder[];
+  getOpenAdvancedOrders(): Promise<AdvancedOrder[]> | AdvancedOrder[];
+  updateAdvancedOrder(id: string, updateData: UpdateAdvancedOrderData): Promise<AdvancedOrder | null> | AdvancedOrder | null;
+  createOrderModification(modificationData: CreateOrderModificationData): Promise<OrderModification> | OrderModification;
+  getOrderModificationsByOrderId(orderId: string): Promise<OrderModification[]> | OrderModification[];
+
+  // Strategy Orders
+  createStrategyOrder(strategyData: CreateStrategyOrderData): Promise<StrategyOrder> | StrategyOrder;
+  getStrategyOrderById(id: string): Promise<StrategyOrder | null> | StrategyOrder | null;
+  getStrategyOrdersByUserId(userId: string, limit?: number): Promise<StrategyOrder[]> | StrategyOrder[];
+  updateStrategyOrder(id: string, updateData: UpdateStrategyOrderData): Promise<StrategyOrder | null> | StrategyOrder | null;
+
+  // Trade Ledger
+  getExecutedOrdersByUserId(userId: string): Promise<OrderHistory[]> | OrderHistory[];
+  createLedgerFills(fills: CreateLedgerFillData[]): Promise<LedgerFill[]> | LedgerFill[];
+  getLedgerFillsByUserId(userId: string, accountId?: string): Promise<LedgerFill[]> | LedgerFill[];
+
+  // Credential key rotation
+  getCredentialKeyStatus(): Promise<CredentialKeyStatus> | CredentialKeyStatus;
+  getAccountsForCredentialRotation(afterId: string | null, limit: number): Promise<ConnectedAccount[]> | ConnectedAccount[];
+  reencryptAccountCredentials(id: string): Promise<boolean> | boolean;
+  // Ids of users with a two-factor secret under an older master key, after `afterId` in id order
+  getUsersForSecretRotation(afterId: string | null, limit: number): Promise<string[]> | string[];
+  reencryptUserSecrets(id: string): Promise<boolean> | boolean;
+  // Ids of API keys whose signing secret is under an older master key
+  getApiKeysForSecretRotation(afterId: string | null, limit: number): Promise<string[]> | string[];
+  reencryptApiKeySecret(id: string): Promise<boolean> | boolean;
+  // Ids of webhook subscriptions whose signing secret is under an older master key
+  getWebhooksForSecretRotation(afterId: string | null, limit: number): Promise<string[]> | string[];
+  reencryptWebhookSecret(id: string): Promise<boolean> | boolean;
+
+  // Candles
+  upsertCandles(candles: Candle[]): Promise<number> | number;
+  getCandles(symbol: string, exchange: string, interval: Candle['interval'], from: string, to: string): Promise<Candle[]> | Candle[];
+
+  // Price Alerts
+  createPriceAlert(alertData: CreatePriceAlertData): Promise<PriceAlert> | PriceAlert;
+  getPriceAlertById(id: string): Promise<PriceAlert | null> | PriceAlert | null;
+  getPriceAlertsByUserId(userId: string): Promise<PriceAlert[]> | PriceAlert[];
+  getActivePriceAlerts(): Promise<PriceAlert[]> | PriceAlert[];
+  updatePriceAlert(id: string, updateData: UpdatePriceAlertData): Promise<PriceAlert | null> | PriceAlert | null;
+  deletePriceAlert(id: string): Promise<boolean> | boolean;
+
+  // Audit Trail
+  createAuditEvent(eventData: CreateAuditEventData): Promise<AuditEvent> | AuditEvent;
+  getLastAuditEvent(): Promise<AuditEvent | null> | AuditEvent | null;
+  searchAuditEvents(filters: AuditEventFilters, limit: number, offset: number): Promise<{ events: AuditEvent[]; total: number }> | { events: AuditEvent[]; total: number };
+  getAuditEventsAfterSequence(sequence: number, limit: number): Promise<AuditEvent[]> | AuditEvent[];
+  // Deletes events created before `before`, always keeping the newest event
+  deleteAuditEventsBefore(before: string): Promise<number> | number;
+
+  // Login Sessions
+  createAuthSession(sessionData: CreateAuthSessionData): Promise<AuthSession> | AuthSession;
+  getAuthSessionById(id: string): Promise<AuthSession | null> | AuthSession | null;
+  getActiveAuthSessionsByUserId(userId: string): Promise<AuthSession[]> | AuthSession[];
+  updateAuthSession(id: string, updateData: UpdateAuthSessionData): Promise<AuthSession | null> | AuthSession | null;
+  // Replaces the refresh token only while it is still `currentHash`; null when another refresh got there first
+  rotateAuthSessionRefreshToken(id: string, currentHash: string, nextHash: string, updateData: UpdateAuthSessionData): Promise<AuthSession | null> | AuthSession | null;
+  revokeAuthSession(id: string, reason: string): Promise<boolean> | boolean;
+  // Revokes every active session of the user except `exceptSessionId`, returning how many were revoked
+  revokeAuthSessionsByUserId(userId: string, reason: string, exceptSessionId?: string): Promise<number> | number;
+
+  // Workspaces
+  createWorkspace(workspaceData: CreateWorkspaceData): Promise<Workspace> | Workspace;
+  getWorkspaceById(id: string): Promise<Workspace | null> | Workspace | null;
+  getWorkspacesByIds(ids: string[]): Promise<Workspace[]> | Workspace[];
+  addWorkspaceMember(memberData: CreateWorkspaceMemberData): Promise<WorkspaceMember> | WorkspaceMember;
+  getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> | WorkspaceMember[];
+  getWorkspaceMembershipsByUserId(userId: string): Promise<WorkspaceMember[]> | WorkspaceMember[];
+  updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMember | null> | WorkspaceMember | null;
+  removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> | boolean;
+  createAccountGrant(grantData: CreateAccountGrantData): Promise<AccountGrant> | AccountGrant;
+  getAccountGrantById(id: string): Promise<AccountGrant | null> | AccountGrant | null;
+  // Grants not yet revoked; filters narrow them down and combine with AND
+  getActiveAccountGrants(filters: AccountGrantFilters): Promise<AccountGrant[]> | AccountGrant[];
+  updateAccountGrantPermissions(id: string, permissions: AccountPermission[]): Promise<AccountGrant | null> | AccountGrant | null;
+  revokeAccountGrant(id: string, revokedBy: string): Promise<boolean> | boolean;
+
+  // API Keys
+  createApiKey(keyData: CreateApiKeyData): Promise<ApiKey> | ApiKey;
+  getApiKeyById(id: string): Promise<ApiKey | null> | ApiKey | null;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | null> | ApiKey | null;
+  getApiKeysByUserId(userId: string): Promise<ApiKey[]> | ApiKey[];
+  updateApiKey(id: string, updateData: UpdateApiKeyData): Promise<ApiKey | null> | ApiKey | null;
+  revokeApiKey(id: string): Promise<boolean> | boolean;
+
+  // Inbound Signals
+  createSignal(signalData: CreateSignalData): Promise<Signal> | Signal;
+  getSignalByIdempotencyKey(apiKeyId: string, idempotencyKey: string): Promise<Signal | null> | Signal | null;
+  updateSignal(id: string, updateData: UpdateSignalData): Promise<Signal | null> | Signal | null;
+  getSignalsByUserId(userId: string, filters: SignalFilters, limit: number, offset: number): Promise<{ signals: Signal[]; total: number }> | { signals: Signal[]; total: number };
+
+  // Outbound Webhooks
+  createWebhookSubscription(subscriptionData: CreateWebhookSubscriptionData): Promise<WebhookSubscription> | WebhookSubscription;
+  getWebhookSubscriptionById(id: string): Promise<WebhookSubscription | null> | WebhookSubscription | null;
+  getWebhookSubscriptionsByUserId(userId: string): Promise<WebhookSubscription[]> | WebhookSubscription[];
+  // Active subscriptions of the user that listen for the event
+  getWebhookSubscriptionsForEvent(userId: string, event: WebhookEvent): Promise<WebhookSubscription[]> | WebhookSubscription[];
+  updateWebhookSubscription(id: string, updateData: UpdateWebhookSubscriptionData): Promise<WebhookSubscription | null> | WebhookSubscription | null;
+  // Also removes the subscription's deliveries
+  deleteWebhookSubscription(id: string): Promise<boolean> | boolean;
+  createWebhookDelivery(deliveryData: CreateWebhookDeliveryData): Promise<WebhookDelivery> | WebhookDelivery;
+  getWebhookDeliveryById(id: string): Promise<WebhookDelivery | null> | WebhookDelivery | null;
+  updateWebhookDelivery(id: string, updateData: UpdateWebhookDeliveryData): Promise<WebhookDelivery | null> | WebhookDelivery | null;
+  // PENDING and RETRYING deliveries whose next attempt is due, oldest first
+  getDueWebhookDeliveries(before: Date, limit: number): Promise<WebhookDelivery[]> | WebhookDelivery[];
+  getWebhookDeliveriesByUserId(userId: string, filters: WebhookDeliveryFilters, limit: number, offset: number): Promise<{ deliveries: WebhookDelivery[]; total: number }> | { deliveries: WebhookDelivery[]; total: number };
+
+  // Paper Trading
+  getPaperAccountState(accountId: string): Promise<PaperAccountState | null> | PaperAccountState | null;
+  getPaperAccountStates(): Promise<PaperAccountState[]> | PaperAccountState[];
+  savePaperAccountState(accountId: string, snapshot: Record<string, any>): Promise<PaperAccountState> | PaperAccountState;
 
   // Notification Preferences (if needed)
   saveUserNotificationPreferences(preferences: any): Promise<boolean> | boolean;
@@ -1,22 +1,36 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { authSessionService } from '../services/authSessionService';
+import { apiKeyService } from '../services/apiKeyService';
+import { auditService } from '../services/auditService';
+import { userDatabase } from '../services/databaseCompatibility';
+import { ApiKey, ApiKeyScope } from '../interfaces/IDatabaseAdapter';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
     email: string;
     name: string;
+    sessionId?: string;
   };
   body: any;
   params: any;
   query: any;
 }
 
-export const authenticateToken = (
+export interface ApiKeyRequest extends AuthenticatedRequest {
+  apiKey?: ApiKey;
+  rawBody?: Buffer; // kept by the body parser for signature checks
+}
+
+/**
+ * Verify the access token and that its login session has not been revoked.
+ * An expired access token gets 401 TOKEN_EXPIRED so the client can refresh it.
+ */
+export const authenticateToken = async (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   const authHeader = req.headers.authorization;
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
 
@@ -30,20 +44,34 @@ export const authenticateToken = (
       return;
     }
 
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      throw new Error('JWT_SECRET not configured');
+    const decoded = await authSessionService.verifyAccessToken(token);
+
+    if (!decoded) {
+      res.status(401).json({
+        success: false,
+        message: 'Session has ended. Please log in again.',
+        errorType: 'SESSION_REVOKED',
+      });
+      return;
     }
 
-    const decoded = jwt.verify(token, jwtSecret) as {
-      id: string;
-      email: string;
-      name: string;
+    req.user = {
+      id: decoded.id,
+      email: decoded.email,
+      name: decoded.name,
+      sessionId: decoded.sid,
     };
-
-    req.user = decoded;
     next();
   } catch (error: any) {
+    if (error.name === 'TokenExpiredError') {
+      res.status(401).json({
+        success: false,
+        message: 'Access token expired',
+        errorType: 'TOKEN_EXPIRED',
+      });
+      return;
+    }
+
     console.error('🚨 Authentication error:', error.message);
     console.error('🔍 Token details:', {
       hasAuthHeader: !!authHeader,
@@ -56,3 +84,130 @@ export const authenticateToken = (
     });
   }
 };
+
+/**
+ * Authenticate a public API request by its API key (X-API-Key header or
+ * `apiKey` body field) instead of a login. The key must hold `scope`, the request must come from one of the
+ * key's allowed addresses and, unless the key waives it, be signed with
+ * X-Signature / X-Signature-Timestamp. The key's owner becomes req.user.
+ */
+export const authenticateApiKey = (scope: ApiKeyScope) => async (
+  req: ApiKeyRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    // Sources that can't set headers (TradingView) put the key in the JSON body
+    const key = req.get('X-API-Key') || (typeof req.body?.apiKey === 'string' ? req.body.apiKey : undefined);
+    if (!key) {
+      res.status(401).json({
+        success: false,
+        message: 'API key required',
+      });
+      return;
+    }
+
+    const check = await apiKeyService.authenticate({
+      key,
+      scope,
+      ip: req.ip,
+      signature: req.get('X-Signature'),
+      timestamp: req.get('X-Signature-Timestamp'),
+      body: req.rawBody ? req.rawBody.toString('utf8') : ''
+    });
+    if (!check.success) {
+      // A real key used from the wrong place or without a valid signature is worth a look
+      if (check.apiKey) {
+        await auditService.record({
+          userId: check.apiKey.user_id,
+          action: 'SIGNAL_REJECTED',
+          resourceId: check.apiKey.id,
+          details: { keyName: check.apiKey.name, keyPrefix: check.apiKey.key_prefix, path: req.originalUrl },
+          success: false,
+          errorMessage: check.reason
+        }, req);
+      }
+      res.status(check.status).json({
+        success: false,
+        message: check.reason,
+      });
+      return;
+    }
+
+    const user = await userDatabase.findUserById(check.apiKey.user_id);
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid API key',
+      });
+      return;
+    }
+
+    await apiKeyService.recordUse(check.apiKey, req.ip);
+    req.apiKey = check.apiKey;
+    req.user = {
+      id: user.id.toString(),
+      email: user.email,
+      name: user.name,
+    };
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Require the user to have re-authenticated (POST /api/auth/step-up) on this
+ * session within the last few minutes. Use after authenticateToken.
+ */
+export const requireStepUp = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const sessionId = req.user?.sessionId;
+    if (!sessionId || !(await authSessionService.hasRecentStepUp(sessionId))) {
+      res.status(403).json({
+        success: false,
+        message: 'Please confirm your identity to continue',
+        errorType: 'STEP_UP_REQUIRED',
+      });
+      return;
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Whether the user is one of the administrators listed in ADMIN_EMAILS
+ */
+export const isAdmin = (user: { email?: string } | undefined): boolean => {
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  return !!user?.email && adminEmails.includes(user.email.toLowerCase());
+};
+
+/**
+ * Allow only administrators, listed by email in ADMIN_EMAILS (comma separated).
+ * Use after authenticateToken.
+ */
+export const requireAdmin = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!isAdmin(req.user)) {
+    res.status(403).json({
+      success: false,
+      message: 'Administrator access required',
+    });
+    return;
+  }
+  next();
+};
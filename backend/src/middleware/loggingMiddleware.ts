@@ -15,8 +15,8 @@ declare global {
 }
 
 export const loggingMiddleware = (req: Request, res: Response, next: NextFunction): void => {
-  // Generate unique request ID
-  req.requestId = uuidv4();
+  // Keep the ID set by requestIdMiddleware so logs, responses and the audit trail agree
+  req.requestId = req.requestId || uuidv4();
   req.startTime = Date.now();
 
   // Create request-specific logger context
@@ -0,0 +1,80 @@
+import express from 'express';
+import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { credentialRotationService } from '../services/credentialRotationService';
+import { marketClockService } from '../services/marketClockService';
+
+const router = express.Router();
+
+/**
+ * Get accounts, two-factor users, API keys and webhooks per credential master key version and the latest rotation job
+ */
+router.get('/credentials/rotation', authenticateToken, requireAdmin, async (req: any, res: any) => {
+  try {
+    const keyStatus = await credentialRotationService.getKeyStatus();
+
+    return res.json({
+      success: true,
+      data: {
+        ...keyStatus,
+        job: credentialRotationService.getCurrentJob()
+      }
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to get credential rotation status:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get credential rotation status',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Re-encrypt all broker credentials, two-factor secrets and API key and webhook signing secrets under the active master key
+ */
+router.post('/credentials/rotate', authenticateToken, requireAdmin, async (req: any, res: any) => {
+  try {
+    const job = await credentialRotationService.startRotation(req.user.email);
+    console.log(`🔐 Credential rotation ${job.id} to key version ${job.targetVersion} requested by ${req.user.email}`);
+
+    return res.status(202).json({
+      success: true,
+      data: job
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to start credential rotation:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to start credential rotation',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Re-read the trading calendar file after editing holidays or special sessions
+ */
+router.post('/market-calendar/reload', authenticateToken, requireAdmin, async (req: any, res: any) => {
+  try {
+    const loaded = marketClockService.reloadCalendar();
+    console.log(`📅 Trading calendar reload requested by ${req.user.email}`);
+
+    return res.json({
+      success: true,
+      data: {
+        loadedFile: loaded,
+        status: marketClockService.getMarketStatus(),
+        ...marketClockService.getUpcomingCalendar(90)
+      }
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to reload trading calendar:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to reload trading calendar',
+      details: error.message
+    });
+  }
+});
+
+export default router;
@@ -1,10 +1,43 @@
 import express from 'express';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireStepUp } from '../middleware/auth';
 import { advancedOrderService } from '../services/advancedOrderService';
+import { accountAccessService } from '../services/accountAccessService';
+import { validateBracketLevels } from '../utils/advancedOrderRules';
 import { body, validationResult } from 'express-validator';
 
 const router = express.Router();
 
+/**
+ * Check that the user may trade the connected account an order runs on: their own,
+ * or one shared with them through a workspace
+ */
+const canTradeAccount = async (accountId: string, userId: string): Promise<boolean> => (
+  !!(await accountAccessService.checkAccess(userId, accountId, 'TRADE'))
+);
+
+const PRICE_CONDITIONS = ['PRICE_ABOVE', 'PRICE_BELOW', 'VOLUME_BASED'];
+
+// Fields of the order a conditional or scheduled order places when it fires
+const triggeredOrderValidation = [
+  body('account_ids').isArray({ min: 1 }).withMessage('Select at least one trading account'),
+  body('account_ids.*').isString().notEmpty().withMessage('Invalid trading account'),
+  body('symbol').notEmpty().withMessage('Symbol is required'),
+  body('action').isIn(['BUY', 'SELL']).withMessage('Action must be BUY or SELL'),
+  body('quantity').isInt({ min: 1 }).withMessage('Quantity must be a positive integer'),
+  body('order_type').isIn(['MARKET', 'LIMIT']).withMessage('Order type must be MARKET or LIMIT'),
+  body('price').optional().isFloat({ gt: 0 }).withMessage('Price must be a positive number'),
+  body('exchange').optional().isString(),
+  body('product_type').optional().isString()
+];
+
+/**
+ * Check that the user may trade every account an order fans out to
+ */
+const canTradeAccounts = async (accountIds: string[], userId: string): Promise<boolean> => {
+  const allowed = await Promise.all(accountIds.map(accountId => canTradeAccount(accountId, userId)));
+  return allowed.every(Boolean);
+};
+
 /**
  * Create order template
  */
@@ -40,7 +73,7 @@ router.post('/templates',
       }
 
       const templateData = {
-        user_id: userId,
+        user_id: userId.toString(),
         name: req.body.name,
         description: req.body.description,
         symbol: req.body.symbol,
@@ -60,7 +93,7 @@ router.post('/templates',
         is_active: req.body.is_active !== false
       };
 
-      const template = advancedOrderService.createOrderTemplate(templateData);
+      const template = await advancedOrderService.createOrderTemplate(templateData);
 
       return res.json({
         success: true,
@@ -91,7 +124,7 @@ router.get('/templates', authenticateToken, async (req: any, res: any) => {
     }
 
     const activeOnly = req.query.active_only === 'true';
-    const templates = advancedOrderService.getUserOrderTemplates(userId, activeOnly);
+    const templates = await advancedOrderService.getUserOrderTemplates(userId.toString(), activeOnly);
 
     return res.json({
       success: true,
@@ -123,8 +156,8 @@ router.get('/templates/:id', authenticateToken, async (req: any, res: any) => {
       });
     }
 
-    const templateId = parseInt(req.params.id);
-    const template = advancedOrderService.getOrderTemplate(templateId);
+    const templateId = req.params.id;
+    const template = await advancedOrderService.getOrderTemplate(templateId);
 
     if (!template) {
       return res.status(404).json({
@@ -134,7 +167,7 @@ router.get('/templates/:id', authenticateToken, async (req: any, res: any) => {
     }
 
     // Check if template belongs to user
-    if (template.user_id !== userId) {
+    if (template.user_id !== userId.toString()) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
@@ -187,8 +220,8 @@ router.put('/templates/:id',
         });
       }
 
-      const templateId = parseInt(req.params.id);
-      const template = advancedOrderService.getOrderTemplate(templateId);
+      const templateId = req.params.id;
+      const template = await advancedOrderService.getOrderTemplate(templateId);
 
       if (!template) {
         return res.status(404).json({
@@ -198,7 +231,7 @@ router.put('/templates/:id',
       }
 
       // Check if template belongs to user
-      if (template.user_id !== userId) {
+      if (template.user_id !== userId.toString()) {
         return res.status(403).json({
           success: false,
           error: 'Access denied'
@@ -225,17 +258,15 @@ router.put('/templates/:id',
         is_active: req.body.is_active
       };
 
-      const success = advancedOrderService.updateOrderTemplate(templateId, updates);
+      const updatedTemplate = await advancedOrderService.updateOrderTemplate(templateId, updates);
 
-      if (!success) {
+      if (!updatedTemplate) {
         return res.status(500).json({
           success: false,
           error: 'Failed to update order template'
         });
       }
 
-      const updatedTemplate = advancedOrderService.getOrderTemplate(templateId);
-
       return res.json({
         success: true,
         data: updatedTemplate
@@ -264,8 +295,8 @@ router.delete('/templates/:id', authenticateToken, async (req: any, res: any) =>
       });
     }
 
-    const templateId = parseInt(req.params.id);
-    const template = advancedOrderService.getOrderTemplate(templateId);
+    const templateId = req.params.id;
+    const template = await advancedOrderService.getOrderTemplate(templateId);
 
     if (!template) {
       return res.status(404).json({
@@ -275,14 +306,14 @@ router.delete('/templates/:id', authenticateToken, async (req: any, res: any) =>
     }
 
     // Check if template belongs to user
-    if (template.user_id !== userId) {
+    if (template.user_id !== userId.toString()) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
       });
     }
 
-    const success = advancedOrderService.deleteOrderTemplate(templateId, userId);
+    const success = await advancedOrderService.deleteOrderTemplate(templateId);
 
     if (!success) {
       return res.status(500).json({
@@ -311,6 +342,7 @@ router.delete('/templates/:id', authenticateToken, async (req: any, res: any) =>
 router.post('/bracket',
   authenticateToken,
   [
+    body('account_id').notEmpty().withMessage('Trading account is required'),
     body('symbol').notEmpty().withMessage('Symbol is required'),
     body('action').isIn(['BUY', 'SELL']).withMessage('Action must be BUY or SELL'),
     body('quantity').isInt({ min: 1 }).withMessage('Quantity must be a positive integer'),
@@ -340,7 +372,28 @@ router.post('/bracket',
         });
       }
 
+      if (!(await canTradeAccount(req.body.account_id, userId))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Trading account not found or access denied'
+        });
+      }
+
+      const levelError = validateBracketLevels(
+        req.body.action,
+        parseFloat(req.body.price),
+        parseFloat(req.body.stop_loss),
+        parseFloat(req.body.take_profit)
+      );
+      if (levelError) {
+        return res.status(400).json({
+          success: false,
+          error: levelError
+        });
+      }
+
       const orderData = {
+        account_id: req.body.account_id,
         symbol: req.body.symbol,
         action: req.body.action,
         quantity: req.body.quantity,
@@ -352,8 +405,8 @@ router.post('/bracket',
         validity: req.body.validity || 'DAY'
       };
 
-      const orderGroupId = advancedOrderService.createBracketOrder(userId, orderData);
-      const orders = advancedOrderService.getOrdersByGroupId(orderGroupId);
+      const orderGroupId = await advancedOrderService.createBracketOrder(userId.toString(), orderData);
+      const orders = await advancedOrderService.getOrdersByGroupId(orderGroupId);
 
       return res.json({
         success: true,
@@ -380,6 +433,7 @@ router.post('/bracket',
 router.post('/iceberg',
   authenticateToken,
   [
+    body('account_id').notEmpty().withMessage('Trading account is required'),
     body('symbol').notEmpty().withMessage('Symbol is required'),
     body('action').isIn(['BUY', 'SELL']).withMessage('Action must be BUY or SELL'),
     body('quantity').isInt({ min: 1 }).withMessage('Quantity must be a positive integer'),
@@ -408,6 +462,13 @@ router.post('/iceberg',
         });
       }
 
+      if (!(await canTradeAccount(req.body.account_id, userId))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Trading account not found or access denied'
+        });
+      }
+
       // Validate iceberg quantity is less than total quantity
       if (req.body.iceberg_quantity >= req.body.quantity) {
         return res.status(400).json({
@@ -417,6 +478,7 @@ router.post('/iceberg',
       }
 
       const orderData = {
+        account_id: req.body.account_id,
         symbol: req.body.symbol,
         action: req.body.action,
         quantity: req.body.quantity,
@@ -427,8 +489,7 @@ router.post('/iceberg',
         validity: req.body.validity || 'DAY'
       };
 
-      const orderId = advancedOrderService.createIcebergOrder(userId, orderData);
-      const order = advancedOrderService.getAdvancedOrder(orderId);
+      const order = await advancedOrderService.createIcebergOrder(userId.toString(), orderData);
 
       return res.json({
         success: true,
@@ -454,6 +515,7 @@ router.post('/iceberg',
 router.post('/trailing-stop',
   authenticateToken,
   [
+    body('account_id').notEmpty().withMessage('Trading account is required'),
     body('symbol').notEmpty().withMessage('Symbol is required'),
     body('action').isIn(['BUY', 'SELL']).withMessage('Action must be BUY or SELL'),
     body('quantity').isInt({ min: 1 }).withMessage('Quantity must be a positive integer'),
@@ -483,6 +545,13 @@ router.post('/trailing-stop',
         });
       }
 
+      if (!(await canTradeAccount(req.body.account_id, userId))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Trading account not found or access denied'
+        });
+      }
+
       // Validate that either trail_amount or trail_percent is provided
       if (!req.body.trail_amount && !req.body.trail_percent) {
         return res.status(400).json({
@@ -492,6 +561,7 @@ router.post('/trailing-stop',
       }
 
       const orderData = {
+        account_id: req.body.account_id,
         symbol: req.body.symbol,
         action: req.body.action,
         quantity: req.body.quantity,
@@ -503,8 +573,7 @@ router.post('/trailing-stop',
         validity: req.body.validity || 'DAY'
       };
 
-      const orderId = advancedOrderService.createTrailingStopOrder(userId, orderData);
-      const order = advancedOrderService.getAdvancedOrder(orderId);
+      const order = await advancedOrderService.createTrailingStopOrder(userId.toString(), orderData);
 
       return res.json({
         success: true,
@@ -524,6 +593,205 @@ router.post('/trailing-stop',
   }
 );
 
+/**
+ * Create conditional order (GTT), optionally with a one-cancels-other pair
+ */
+router.post('/conditional',
+  authenticateToken,
+  requireStepUp,
+  [
+    ...triggeredOrderValidation,
+    body('condition_type').isIn(PRICE_CONDITIONS).withMessage(`Condition must be one of ${PRICE_CONDITIONS.join(', ')}`),
+    body('condition_value').isFloat({ gt: 0 }).withMessage('Condition value must be a positive number'),
+    body('expiry_date').optional().isISO8601().withMessage('Expiry date must be a valid date'),
+    body('oco').optional().isObject().withMessage('OCO order must be an object'),
+    body('oco.condition_type').if(body('oco').exists()).isIn(PRICE_CONDITIONS).withMessage(`OCO condition must be one of ${PRICE_CONDITIONS.join(', ')}`),
+    body('oco.condition_value').if(body('oco').exists()).isFloat({ gt: 0 }).withMessage('OCO condition value must be a positive number'),
+    body('oco.action').optional().isIn(['BUY', 'SELL']).withMessage('OCO action must be BUY or SELL'),
+    body('oco.order_type').optional().isIn(['MARKET', 'LIMIT']).withMessage('OCO order type must be MARKET or LIMIT'),
+    body('oco.price').optional().isFloat({ gt: 0 }).withMessage('OCO price must be a positive number')
+  ],
+  async (req: any, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      if (!(await canTradeAccounts(req.body.account_ids, userId))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Trading account not found or access denied'
+        });
+      }
+
+      const oco = req.body.oco;
+      const ocoOrderType = oco?.order_type || req.body.order_type;
+      if ((req.body.order_type === 'LIMIT' && !req.body.price) || (oco && ocoOrderType === 'LIMIT' && !(oco.price || req.body.price))) {
+        return res.status(400).json({
+          success: false,
+          error: 'Price is required for LIMIT orders'
+        });
+      }
+
+      if (req.body.expiry_date && new Date(req.body.expiry_date).getTime() <= Date.now()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Expiry date must be in the future'
+        });
+      }
+
+      const orders = await advancedOrderService.createConditionalOrder(userId.toString(), {
+        account_ids: req.body.account_ids,
+        symbol: req.body.symbol,
+        action: req.body.action,
+        quantity: Number(req.body.quantity),
+        order_type: req.body.order_type,
+        ...(req.body.price && { price: Number(req.body.price) }),
+        condition_type: req.body.condition_type,
+        condition_value: Number(req.body.condition_value),
+        exchange: req.body.exchange || 'NSE',
+        product_type: req.body.product_type || 'C',
+        ...(req.body.expiry_date && { expiry_date: new Date(req.body.expiry_date).toISOString() }),
+        ...(oco && {
+          oco: {
+            condition_type: oco.condition_type,
+            condition_value: Number(oco.condition_value),
+            ...(oco.action && { action: oco.action }),
+            ...(oco.order_type && { order_type: oco.order_type }),
+            ...(oco.price && { price: Number(oco.price) })
+          }
+        })
+      });
+
+      return res.json({
+        success: true,
+        data: {
+          orders,
+          orderGroupId: orders[0]!.order_group_id,
+          message: oco ? 'OCO conditional orders created successfully' : 'Conditional order created successfully'
+        }
+      });
+    } catch (error: any) {
+      console.error('Failed to create conditional order:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create conditional order',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Create scheduled order, placed at an exact time or the next weekday
+ * occurrence of a market time such as 09:15:05 or 15:20
+ */
+router.post('/scheduled',
+  authenticateToken,
+  requireStepUp,
+  [
+    ...triggeredOrderValidation,
+    body('scheduled_at').optional().isISO8601().withMessage('Scheduled time must be a valid date'),
+    body('scheduled_time').optional().matches(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/).withMessage('Market time must be HH:MM or HH:MM:SS')
+  ],
+  async (req: any, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      if (!req.body.scheduled_at === !req.body.scheduled_time) {
+        return res.status(400).json({
+          success: false,
+          error: 'Provide either scheduled_at or scheduled_time'
+        });
+      }
+
+      if (req.body.scheduled_at && new Date(req.body.scheduled_at).getTime() <= Date.now()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Scheduled time must be in the future'
+        });
+      }
+
+      if (req.body.order_type === 'LIMIT' && !req.body.price) {
+        return res.status(400).json({
+          success: false,
+          error: 'Price is required for LIMIT orders'
+        });
+      }
+
+      if (!(await canTradeAccounts(req.body.account_ids, userId))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Trading account not found or access denied'
+        });
+      }
+
+      const order = await advancedOrderService.createScheduledOrder(userId.toString(), {
+        account_ids: req.body.account_ids,
+        symbol: req.body.symbol,
+        action: req.body.action,
+        quantity: Number(req.body.quantity),
+        order_type: req.body.order_type,
+        ...(req.body.price && { price: Number(req.body.price) }),
+        ...(req.body.scheduled_at && { scheduled_at: req.body.scheduled_at }),
+        ...(req.body.scheduled_time && { scheduled_time: req.body.scheduled_time }),
+        exchange: req.body.exchange || 'NSE',
+        product_type: req.body.product_type || 'C'
+      });
+
+      if (!order) {
+        return res.status(400).json({
+          success: false,
+          error: 'Could not schedule the order at that time'
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: {
+          order,
+          message: `Order scheduled for ${order.scheduled_at}`
+        }
+      });
+    } catch (error: any) {
+      console.error('Failed to create scheduled order:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create scheduled order',
+        details: error.message
+      });
+    }
+  }
+);
+
 /**
  * Get user's advanced orders
  */
@@ -537,8 +805,15 @@ router.get('/orders', authenticateToken, async (req: any, res: any) => {
       });
     }
 
-    const status = req.query.status as string;
-    const orders = advancedOrderService.getUserAdvancedOrders(userId, status);
+    const status = req.query.status as string | undefined;
+    if (status && !['PENDING', 'ACTIVE', 'TRIGGERED', 'EXECUTED', 'CANCELLED', 'EXPIRED'].includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid status: ${status}`
+      });
+    }
+
+    const orders = await advancedOrderService.getUserAdvancedOrders(userId.toString(), status as any);
 
     return res.json({
       success: true,
@@ -570,8 +845,8 @@ router.get('/orders/:id', authenticateToken, async (req: any, res: any) => {
       });
     }
 
-    const orderId = parseInt(req.params.id);
-    const order = advancedOrderService.getAdvancedOrder(orderId);
+    const orderId = req.params.id;
+    const order = await advancedOrderService.getAdvancedOrder(orderId);
 
     if (!order) {
       return res.status(404).json({
@@ -581,7 +856,7 @@ router.get('/orders/:id', authenticateToken, async (req: any, res: any) => {
     }
 
     // Check if order belongs to user
-    if (order.user_id !== userId) {
+    if (order.user_id !== userId.toString()) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
@@ -589,7 +864,7 @@ router.get('/orders/:id', authenticateToken, async (req: any, res: any) => {
     }
 
     // Get order modifications
-    const modifications = advancedOrderService.getOrderModifications(orderId);
+    const modifications = await advancedOrderService.getOrderModifications(orderId);
 
     return res.json({
       success: true,
@@ -621,8 +896,8 @@ router.post('/orders/:id/cancel', authenticateToken, async (req: any, res: any)
       });
     }
 
-    const orderId = parseInt(req.params.id);
-    const order = advancedOrderService.getAdvancedOrder(orderId);
+    const orderId = req.params.id;
+    const order = await advancedOrderService.getAdvancedOrder(orderId);
 
     if (!order) {
       return res.status(404).json({
@@ -632,7 +907,7 @@ router.post('/orders/:id/cancel', authenticateToken, async (req: any, res: any)
     }
 
     // Check if order belongs to user
-    if (order.user_id !== userId) {
+    if (order.user_id !== userId.toString()) {
       return res.status(403).json({
         success: false,
         error: 'Access denied'
@@ -647,7 +922,7 @@ router.post('/orders/:id/cancel', authenticateToken, async (req: any, res: any)
       });
     }
 
-    const success = advancedOrderService.cancelAdvancedOrder(orderId, userId);
+    const success = await advancedOrderService.cancelAdvancedOrder(orderId, userId.toString());
 
     if (!success) {
       return res.status(500).json({
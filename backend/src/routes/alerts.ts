@@ -0,0 +1,281 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { body, param, validationResult } from 'express-validator';
+import { userDatabase } from '../services/databaseCompatibility';
+import { PriceAlert, PriceAlertCondition, UpdatePriceAlertData } from '../interfaces/IDatabaseAdapter';
+import { SYMBOL_ALERT_CONDITIONS, isInitiallyArmed, validateAlertThreshold } from '../utils/priceAlerts';
+
+const router = express.Router();
+
+const CONDITIONS: PriceAlertCondition[] = [...SYMBOL_ALERT_CONDITIONS, 'PORTFOLIO_DRAWDOWN'];
+const CHANNELS = ['PUSH', 'WEBSOCKET', 'EMAIL', 'WEBHOOK'];
+
+const alertSettingsValidation = [
+  body('name').optional().isString().trim().isLength({ min: 1, max: 100 }).withMessage('Name must be 1-100 characters'),
+  body('threshold').optional().isFloat().withMessage('Threshold must be a number'),
+  body('trigger').optional().isIn(['ONCE', 'RECURRING']).withMessage('Trigger must be ONCE or RECURRING'),
+  body('cooldownMinutes').optional().isInt({ min: 1, max: 1440 }).withMessage('Cooldown must be 1-1440 minutes'),
+  body('channels').optional().isArray({ min: 1 }).withMessage('Choose at least one channel'),
+  body('channels.*').isIn(CHANNELS).withMessage(`Channels must be among ${CHANNELS.join(', ')}`),
+  body('webhookUrl').optional({ values: 'null' }).isURL({ protocols: ['https', 'http'], require_protocol: true }).withMessage('Webhook URL must be an http(s) URL')
+];
+
+/**
+ * Check that a webhook channel comes with somewhere to send it
+ */
+const validateWebhook = (channels: string[], webhookUrl: string | null): string | null =>
+  channels.includes('WEBHOOK') && !webhookUrl ? 'A webhook URL is required for the webhook channel' : null;
+
+/**
+ * Load an alert if it belongs to the user
+ */
+const getOwnedAlert = async (userId: string, alertId: string): Promise<PriceAlert | null> => {
+  const alert = await userDatabase.getPriceAlertById(alertId);
+  return alert && alert.user_id === userId ? alert : null;
+};
+
+/**
+ * List the user's alerts
+ */
+router.get('/', authenticateToken, async (req: any, res: any) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const alerts = await userDatabase.getPriceAlertsByUserId(userId.toString());
+
+    return res.json({
+      success: true,
+      data: alerts
+    });
+  } catch (error: any) {
+    console.error('Failed to get price alerts:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get price alerts',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Create an alert
+ */
+router.post('/',
+  authenticateToken,
+  [
+    body('name').isString().trim().notEmpty().withMessage('Name is required'),
+    body('condition').isIn(CONDITIONS).withMessage(`Condition must be one of ${CONDITIONS.join(', ')}`),
+    body('symbol').optional({ values: 'null' }).isString().trim().notEmpty().withMessage('Symbol must be a string'),
+    body('exchange').optional({ values: 'null' }).isString().trim().notEmpty().withMessage('Exchange must be a string'),
+    ...alertSettingsValidation
+  ],
+  async (req: any, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const condition: PriceAlertCondition = req.body.condition;
+      const perSymbol = condition !== 'PORTFOLIO_DRAWDOWN';
+      const symbol: string | null = perSymbol ? (req.body.symbol || '').toUpperCase() || null : null;
+      const threshold = Number(req.body.threshold ?? 0);
+      const channels: PriceAlert['channels'] = req.body.channels || ['WEBSOCKET', 'PUSH'];
+      const webhookUrl: string | null = req.body.webhookUrl || null;
+
+      const invalid = (perSymbol && !symbol ? 'Symbol is required for this condition' : null)
+        || validateAlertThreshold(condition, threshold)
+        || validateWebhook(channels, webhookUrl);
+      if (invalid) {
+        return res.status(400).json({
+          success: false,
+          error: invalid
+        });
+      }
+
+      const alert = await userDatabase.createPriceAlert({
+        user_id: userId.toString(),
+        name: req.body.name.trim(),
+        condition,
+        symbol,
+        exchange: perSymbol ? (req.body.exchange || 'NSE').toUpperCase() : null,
+        threshold,
+        trigger: req.body.trigger || 'ONCE',
+        cooldown_minutes: req.body.cooldownMinutes ?? 15,
+        channels,
+        webhook_url: webhookUrl,
+        status: 'ACTIVE',
+        armed: isInitiallyArmed(condition),
+        peak_value: null,
+        last_value: null,
+        last_triggered_at: null,
+        trigger_count: 0
+      });
+
+      console.log(`🔔 Price alert created for user ${userId}: ${alert.condition} ${alert.symbol || 'portfolio'}`);
+
+      return res.status(201).json({
+        success: true,
+        data: alert
+      });
+    } catch (error: any) {
+      console.error('Failed to create price alert:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create price alert',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Change an alert's settings, or pause and re-activate it. The condition and
+ * symbol are fixed; create a new alert for a different one.
+ */
+router.put('/:id',
+  authenticateToken,
+  [
+    param('id').isMongoId().withMessage('Invalid alert ID'),
+    body('status').optional().isIn(['ACTIVE', 'DISABLED']).withMessage('Status must be ACTIVE or DISABLED'),
+    ...alertSettingsValidation
+  ],
+  async (req: any, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const alert = await getOwnedAlert(userId.toString(), req.params.id);
+      if (!alert) {
+        return res.status(404).json({
+          success: false,
+          error: 'Alert not found'
+        });
+      }
+
+      const update: UpdatePriceAlertData = {
+        ...(req.body.name !== undefined && { name: req.body.name.trim() }),
+        ...(req.body.threshold !== undefined && { threshold: Number(req.body.threshold) }),
+        ...(req.body.trigger !== undefined && { trigger: req.body.trigger }),
+        ...(req.body.cooldownMinutes !== undefined && { cooldown_minutes: Number(req.body.cooldownMinutes) }),
+        ...(req.body.channels !== undefined && { channels: req.body.channels }),
+        ...(req.body.webhookUrl !== undefined && { webhook_url: req.body.webhookUrl || null }),
+        ...(req.body.status !== undefined && { status: req.body.status })
+      };
+
+      const invalid = validateAlertThreshold(alert.condition, update.threshold ?? alert.threshold)
+        || validateWebhook(update.channels ?? alert.channels, update.webhook_url !== undefined ? update.webhook_url : alert.webhook_url);
+      if (invalid) {
+        return res.status(400).json({
+          success: false,
+          error: invalid
+        });
+      }
+
+      // A new threshold or a re-activated alert starts watching afresh
+      const reactivated = update.status === 'ACTIVE' && alert.status !== 'ACTIVE';
+      if (reactivated || (update.threshold !== undefined && update.threshold !== alert.threshold)) {
+        update.armed = isInitiallyArmed(alert.condition);
+        update.peak_value = null;
+      }
+
+      const updated = await userDatabase.updatePriceAlert(alert.id, update);
+
+      return res.json({
+        success: true,
+        data: updated
+      });
+    } catch (error: any) {
+      console.error('Failed to update price alert:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update price alert',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Delete an alert
+ */
+router.delete('/:id',
+  authenticateToken,
+  [param('id').isMongoId().withMessage('Invalid alert ID')],
+  async (req: any, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const alert = await getOwnedAlert(userId.toString(), req.params.id);
+      if (!alert) {
+        return res.status(404).json({
+          success: false,
+          error: 'Alert not found'
+        });
+      }
+
+      await userDatabase.deletePriceAlert(alert.id);
+
+      return res.json({
+        success: true,
+        data: { id: alert.id }
+      });
+    } catch (error: any) {
+      console.error('Failed to delete price alert:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete price alert',
+        details: error.message
+      });
+    }
+  }
+);
+
+export default router;
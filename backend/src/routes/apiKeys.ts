@@ -0,0 +1,399 @@
+import express from 'express';
+import { authenticateToken, requireStepUp } from '../middleware/auth';
+import { body, param, query, validationResult } from 'express-validator';
+import { userDatabase } from '../services/databaseCompatibility';
+import { accountAccessService } from '../services/accountAccessService';
+import { apiKeyService, API_KEY_SCOPES } from '../services/apiKeyService';
+import { auditService } from '../services/auditService';
+import { isValidAllowlistEntry } from '../utils/inboundSignals';
+import { toSignalView } from './signals';
+import { ApiKey, ApiKeyAccountGroup, SignalStatus } from '../interfaces/IDatabaseAdapter';
+
+// Management of the user's API keys and their signal log, from the app
+const router = express.Router();
+
+const SIGNAL_STATUSES: SignalStatus[] = ['PROCESSING', 'COMPLETED', 'PARTIAL', 'FAILED', 'REJECTED'];
+
+const keyIdValidation = param('keyId').isMongoId().withMessage('Invalid API key ID');
+
+// Rules shared by create (all required) and update (all optional)
+const apiKeySettingsValidation = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+  return [
+    field('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Name must be 1-100 characters'),
+    field('scopes').isArray({ min: 1 }).withMessage('Choose at least one scope'),
+    body('scopes.*').isIn(API_KEY_SCOPES).withMessage(`Scopes must be among ${API_KEY_SCOPES.join(', ')}`),
+    body('ipAllowlist').optional().isArray({ max: 50 }).withMessage('IP allow-list can hold up to 50 entries'),
+    body('ipAllowlist.*')
+      .isString()
+      .custom(value => isValidAllowlistEntry(value))
+      .withMessage('Allow-list entries must be IP addresses or IPv4 CIDR ranges'),
+    body('requireSignature').optional().isBoolean().withMessage('requireSignature must be true or false'),
+    body('accountGroups').optional().isArray({ max: 20 }).withMessage('A key can have up to 20 account groups'),
+    body('accountGroups.*.name')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 50 })
+      .withMessage('Account group names must be 1-50 characters'),
+    body('accountGroups.*.accountIds').isArray({ min: 1, max: 50 }).withMessage('Each account group needs 1-50 accounts'),
+    body('accountGroups.*.accountIds.*').isString().withMessage('Invalid account ID')
+  ];
+};
+
+const toApiKeyView = (apiKey: ApiKey) => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  keyPrefix: apiKey.key_prefix,
+  scopes: apiKey.scopes,
+  ipAllowlist: apiKey.ip_allowlist,
+  requireSignature: apiKey.require_signature,
+  accountGroups: apiKey.account_groups.map(group => ({ name: group.name, accountIds: group.account_ids })),
+  lastUsedAt: apiKey.last_used_at,
+  lastUsedIp: apiKey.last_used_ip,
+  createdAt: apiKey.created_at
+});
+
+/**
+ * Read and check the account groups of a request: names must be unique and
+ * the user must be able to trade every account. Returns an error message instead when not.
+ */
+const readAccountGroups = async (
+  userId: string,
+  groups: Array<{ name: string; accountIds: string[] }>
+): Promise<ApiKeyAccountGroup[] | string> => {
+  const names = new Set<string>();
+  const accountGroups: ApiKeyAccountGroup[] = [];
+
+  for (const group of groups) {
+    const name = group.name.trim();
+    if (names.has(name.toLowerCase())) {
+      return `Account group "${name}" is listed twice`;
+    }
+    names.add(name.toLowerCase());
+
+    const accountIds = Array.from(new Set(group.accountIds));
+    for (const accountId of accountIds) {
+      if (!(await accountAccessService.checkAccess(userId, accountId, 'TRADE'))) {
+        return `Account ${accountId} not found or access denied`;
+      }
+    }
+    accountGroups.push({ name, account_ids: accountIds });
+  }
+
+  return accountGroups;
+};
+
+// Unsigned requests are only safe when the sources are pinned down
+const UNSIGNED_NEEDS_ALLOWLIST = 'Keys that accept unsigned requests need an IP allow-list';
+
+const sendValidationErrors = (req: any, res: any): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+  res.status(400).json({
+    success: false,
+    error: 'Validation failed',
+    details: errors.array()
+  });
+  return true;
+};
+
+/**
+ * List the user's API keys that have not been revoked
+ */
+router.get('/', authenticateToken, async (req: any, res: any) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const apiKeys = await userDatabase.getApiKeysByUserId(userId.toString());
+    return res.json({
+      success: true,
+      data: apiKeys.filter(apiKey => !apiKey.revoked_at).map(toApiKeyView)
+    });
+  } catch (error: any) {
+    console.error('Failed to get API keys:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get API keys',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Create an API key. The key and its signing secret are only returned here.
+ */
+router.post('/',
+  authenticateToken,
+  requireStepUp,
+  apiKeySettingsValidation(false),
+  async (req: any, res: any) => {
+    try {
+      if (sendValidationErrors(req, res)) {
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const ipAllowlist: string[] = (req.body.ipAllowlist || []).map((entry: string) => entry.trim());
+      const requireSignature = req.body.requireSignature ?? true;
+      if (!requireSignature && ipAllowlist.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: UNSIGNED_NEEDS_ALLOWLIST
+        });
+      }
+
+      const accountGroups = await readAccountGroups(userId.toString(), req.body.accountGroups || []);
+      if (typeof accountGroups === 'string') {
+        return res.status(400).json({
+          success: false,
+          error: accountGroups
+        });
+      }
+
+      const { apiKey, key, signingSecret } = await apiKeyService.createKey({
+        userId: userId.toString(),
+        name: req.body.name.trim(),
+        scopes: Array.from(new Set(req.body.scopes)) as ApiKey['scopes'],
+        ipAllowlist,
+        requireSignature,
+        accountGroups
+      });
+
+      await auditService.record({
+        userId: userId.toString(),
+        action: 'API_KEY_CREATED',
+        resourceId: apiKey.id,
+        details: {
+          name: apiKey.name,
+          keyPrefix: apiKey.key_prefix,
+          scopes: apiKey.scopes,
+          ipAllowlist: apiKey.ip_allowlist,
+          requireSignature: apiKey.require_signature,
+          accountGroups: apiKey.account_groups.map(group => group.name)
+        }
+      }, req);
+
+      return res.status(201).json({
+        success: true,
+        data: { ...toApiKeyView(apiKey), key, signingSecret }
+      });
+    } catch (error: any) {
+      console.error('Failed to create API key:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create API key',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Signals received with the user's API keys, newest first
+ */
+router.get('/signals',
+  authenticateToken,
+  [
+    query('apiKeyId').optional().isMongoId().withMessage('Invalid API key ID'),
+    query('status').optional().isIn(SIGNAL_STATUSES).withMessage(`Status must be one of ${SIGNAL_STATUSES.join(', ')}`),
+    query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('Limit must be between 1 and 200'),
+    query('offset').optional().isInt({ min: 0 }).withMessage('Offset must be a non-negative integer')
+  ],
+  async (req: any, res: any) => {
+    try {
+      if (sendValidationErrors(req, res)) {
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const limit = parseInt(req.query.limit) || 50;
+      const offset = parseInt(req.query.offset) || 0;
+      const { signals, total } = await userDatabase.getSignalsByUserId(
+        userId.toString(),
+        { apiKeyId: req.query.apiKeyId, status: req.query.status },
+        limit,
+        offset
+      );
+
+      return res.json({
+        success: true,
+        data: {
+          signals: signals.map(toSignalView),
+          total,
+          limit,
+          offset
+        }
+      });
+    } catch (error: any) {
+      console.error('Failed to get signals:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get signals',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Change an API key's name, scopes, allowed addresses, signature requirement or account groups
+ */
+router.put('/:keyId',
+  authenticateToken,
+  requireStepUp,
+  [keyIdValidation, ...apiKeySettingsValidation(true)],
+  async (req: any, res: any) => {
+    try {
+      if (sendValidationErrors(req, res)) {
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const apiKey = await userDatabase.getApiKeyById(req.params.keyId);
+      if (!apiKey || apiKey.user_id !== userId.toString() || apiKey.revoked_at) {
+        return res.status(404).json({
+          success: false,
+          error: 'API key not found'
+        });
+      }
+
+      const ipAllowlist: string[] = req.body.ipAllowlist
+        ? req.body.ipAllowlist.map((entry: string) => entry.trim())
+        : apiKey.ip_allowlist;
+      const requireSignature = req.body.requireSignature ?? apiKey.require_signature;
+      if (!requireSignature && ipAllowlist.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: UNSIGNED_NEEDS_ALLOWLIST
+        });
+      }
+
+      const accountGroups = req.body.accountGroups
+        ? await readAccountGroups(userId.toString(), req.body.accountGroups)
+        : apiKey.account_groups;
+      if (typeof accountGroups === 'string') {
+        return res.status(400).json({
+          success: false,
+          error: accountGroups
+        });
+      }
+
+      const updated = await userDatabase.updateApiKey(apiKey.id, {
+        ...(req.body.name !== undefined && { name: req.body.name.trim() }),
+        ...(req.body.scopes !== undefined && { scopes: Array.from(new Set(req.body.scopes)) as ApiKey['scopes'] }),
+        ip_allowlist: ipAllowlist,
+        require_signature: requireSignature,
+        account_groups: accountGroups
+      });
+      if (!updated) {
+        return res.status(404).json({
+          success: false,
+          error: 'API key not found'
+        });
+      }
+
+      await auditService.record({
+        userId: userId.toString(),
+        action: 'API_KEY_UPDATED',
+        resourceId: updated.id,
+        details: {
+          name: updated.name,
+          keyPrefix: updated.key_prefix,
+          scopes: updated.scopes,
+          ipAllowlist: updated.ip_allowlist,
+          requireSignature: updated.require_signature,
+          accountGroups: updated.account_groups.map(group => group.name)
+        }
+      }, req);
+
+      return res.json({
+        success: true,
+        data: toApiKeyView(updated)
+      });
+    } catch (error: any) {
+      console.error('Failed to update API key:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update API key',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Revoke an API key; requests made with it are refused from then on
+ */
+router.delete('/:keyId', authenticateToken, [keyIdValidation], async (req: any, res: any) => {
+  try {
+    if (sendValidationErrors(req, res)) {
+      return;
+    }
+
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const apiKey = await userDatabase.getApiKeyById(req.params.keyId);
+    if (!apiKey || apiKey.user_id !== userId.toString() || !(await userDatabase.revokeApiKey(apiKey.id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'API key not found'
+      });
+    }
+
+    await auditService.record({
+      userId: userId.toString(),
+      action: 'API_KEY_REVOKED',
+      resourceId: apiKey.id,
+      details: { name: apiKey.name, keyPrefix: apiKey.key_prefix }
+    }, req);
+
+    return res.json({
+      success: true,
+      message: 'API key revoked'
+    });
+  } catch (error: any) {
+    console.error('Failed to revoke API key:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to revoke API key',
+      details: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,198 @@
+import express from 'express';
+import { authenticateToken, isAdmin, requireAdmin } from '../middleware/auth';
+import { query, validationResult } from 'express-validator';
+import { auditService } from '../services/auditService';
+import { AuditAction, AuditCategory, AuditEvent, AuditEventFilters } from '../interfaces/IDatabaseAdapter';
+import { AUDIT_ACTIONS } from '../utils/auditChain';
+
+const router = express.Router();
+
+const AUDIT_CATEGORIES: AuditCategory[] = ['ORDER', 'ACCOUNT', 'RISK', 'SETTINGS', 'SECURITY', 'SYSTEM'];
+const MAX_PAGE_SIZE = 500;
+const MAX_EXPORT_ROWS = 10000;
+
+const CSV_COLUMNS: (keyof AuditEvent)[] = [
+  'sequence', 'created_at', 'user_id', 'action', 'category', 'account_id', 'broker_name', 'resource_id',
+  'success', 'error_message', 'request_id', 'ip_address', 'user_agent', 'details', 'previous_hash', 'hash'
+];
+
+const filterValidation = [
+  query('userId').optional().isString().notEmpty().withMessage('User ID must be a string'),
+  query('accountId').optional().isString().notEmpty().withMessage('Account ID must be a string'),
+  query('category').optional().isIn(AUDIT_CATEGORIES).withMessage(`Category must be one of ${AUDIT_CATEGORIES.join(', ')}`),
+  query('action').optional().isString().custom(value => {
+    const invalid = String(value).split(',').filter(action => !AUDIT_ACTIONS.includes(action as AuditAction));
+    if (invalid.length > 0) {
+      throw new Error(`Unknown audit action: ${invalid.join(', ')}`);
+    }
+    return true;
+  }),
+  query('requestId').optional().isString().notEmpty().withMessage('Request ID must be a string'),
+  query('success').optional().isBoolean().withMessage('success must be true or false'),
+  query('startDate').optional().isISO8601().withMessage('Start date must be an ISO 8601 date'),
+  query('endDate').optional().isISO8601().withMessage('End date must be an ISO 8601 date')
+];
+
+/**
+ * Filters from the query string. Only administrators can look at other
+ * users' events (or at every user's); everyone else sees their own.
+ */
+const getFilters = (req: any): AuditEventFilters => {
+  const userId = req.user.id.toString();
+  return {
+    userId: isAdmin(req.user) ? req.query.userId || undefined : userId,
+    accountId: req.query.accountId || undefined,
+    category: req.query.category || undefined,
+    actions: req.query.action ? String(req.query.action).split(',') as AuditAction[] : undefined,
+    requestId: req.query.requestId || undefined,
+    success: req.query.success !== undefined ? req.query.success === 'true' : undefined,
+    startDate: req.query.startDate || undefined,
+    endDate: req.query.endDate || undefined
+  };
+};
+
+const toCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (events: AuditEvent[]): string =>
+  [
+    CSV_COLUMNS.join(','),
+    ...events.map(event => CSV_COLUMNS.map(column => toCsvValue(event[column])).join(','))
+  ].join('\n');
+
+/**
+ * Search audit events, newest first
+ */
+router.get('/',
+  authenticateToken,
+  [
+    ...filterValidation,
+    query('limit').optional().isInt({ min: 1, max: MAX_PAGE_SIZE }).withMessage(`Limit must be between 1 and ${MAX_PAGE_SIZE}`),
+    query('offset').optional().isInt({ min: 0 }).withMessage('Offset must be a non-negative integer')
+  ],
+  async (req: any, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const limit = parseInt(req.query.limit, 10) || 50;
+      const offset = parseInt(req.query.offset, 10) || 0;
+      const { events, total } = await auditService.search(getFilters(req), limit, offset);
+
+      return res.json({
+        success: true,
+        data: {
+          events,
+          total,
+          limit,
+          offset,
+          isAdmin: isAdmin(req.user)
+        }
+      });
+    } catch (error: any) {
+      console.error('Failed to search audit events:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to search audit events',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Download the matching events as CSV or JSON
+ */
+router.get('/export',
+  authenticateToken,
+  [
+    ...filterValidation,
+    query('format').optional().isIn(['csv', 'json']).withMessage('Format must be csv or json')
+  ],
+  async (req: any, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const format = req.query.format || 'csv';
+      const { events, total } = await auditService.search(getFilters(req), MAX_EXPORT_ROWS, 0);
+      const fileName = `audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.setHeader('X-Total-Count', total.toString());
+
+      if (format === 'json') {
+        return res.json({ exportedAt: new Date().toISOString(), total, events });
+      }
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      return res.send(toCsv(events));
+    } catch (error: any) {
+      console.error('Failed to export audit events:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to export audit events',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Recompute the hash chain over every stored event
+ */
+router.get('/verify', authenticateToken, requireAdmin, async (_req: any, res: any) => {
+  try {
+    const result = await auditService.verify();
+
+    return res.json({
+      success: true,
+      data: {
+        ...result,
+        retentionDays: auditService.getRetentionDays()
+      }
+    });
+  } catch (error: any) {
+    console.error('Failed to verify audit trail:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to verify audit trail',
+      details: error.message
+    });
+  }
+});
+
+export default router;
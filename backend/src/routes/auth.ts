@@ -1,7 +1,23 @@
 import express from 'express';
 import { body } from 'express-validator';
-import { login, register, logout, getProfile } from '../controllers/authController';
-import { authenticateToken } from '../middleware/auth';
+import {
+  login,
+  register,
+  logout,
+  getProfile,
+  verifyTwoFactorLogin,
+  refreshToken,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+  stepUp,
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes
+} from '../controllers/authController';
+import { authenticateToken, requireStepUp } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -32,10 +48,72 @@ const registerValidation = [
     .withMessage('Name must be between 2 and 50 characters'),
 ];
 
+const codeValidation = body('code')
+  .optional()
+  .matches(/^\s*\d{3}\s*\d{3}\s*$/)
+  .withMessage('Code must be 6 digits');
+
+const recoveryCodeValidation = body('recoveryCode')
+  .optional()
+  .isString()
+  .isLength({ min: 10, max: 20 })
+  .withMessage('Recovery code is invalid');
+
+const twoFactorLoginValidation = [
+  body('challengeToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Challenge token is required'),
+  codeValidation,
+  recoveryCodeValidation,
+  body().custom(value => {
+    if (!value?.code && !value?.recoveryCode) {
+      throw new Error('Provide a two-factor code or a recovery code');
+    }
+    return true;
+  }),
+];
+
+const refreshValidation = [
+  body('refreshToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Refresh token is required'),
+];
+
+const stepUpValidation = [
+  body('password').optional().isString(),
+  codeValidation,
+  recoveryCodeValidation,
+];
+
+const enableTwoFactorValidation = [
+  body('code')
+    .matches(/^\s*\d{3}\s*\d{3}\s*$/)
+    .withMessage('Code must be 6 digits'),
+];
+
 // Routes
 router.post('/login', loginValidation, login);
+router.post('/login/2fa', twoFactorLoginValidation, verifyTwoFactorLogin);
 router.post('/register', registerValidation, register);
+router.post('/refresh', refreshValidation, refreshToken);
 router.post('/logout', authenticateToken, logout);
 router.get('/profile', authenticateToken, getProfile);
 
+// Login sessions
+router.get('/sessions', authenticateToken, getSessions);
+router.post('/sessions/revoke-others', authenticateToken, revokeOtherSessions);
+router.delete('/sessions/:sessionId', authenticateToken, revokeSession);
+
+// Re-authentication before sensitive operations
+router.post('/step-up', authenticateToken, stepUpValidation, stepUp);
+
+// Two-factor authentication; changing it needs a recent step-up
+router.get('/2fa', authenticateToken, getTwoFactorStatus);
+router.post('/2fa/setup', authenticateToken, requireStepUp, setupTwoFactor);
+router.post('/2fa/enable', authenticateToken, enableTwoFactorValidation, enableTwoFactor);
+router.post('/2fa/disable', authenticateToken, requireStepUp, disableTwoFactor);
+router.post('/2fa/recovery-codes', authenticateToken, requireStepUp, regenerateRecoveryCodes);
+
 export default router;
@@ -1,5 +1,5 @@
 import express from 'express';
-import { body } from 'express-validator';
+import { body, param } from 'express-validator';
 import {
   connectBroker,
   validateBrokerAuthCode,
@@ -15,6 +15,16 @@ import {
   handleOAuthCallback,
   placeOrder,
   placeMultiAccountOrder,
+  previewMultiAccountOrder,
+  previewStrategyOrder,
+  placeStrategyOrder,
+  getStrategyOrders,
+  getSizingRules,
+  saveSizingRule,
+  deleteSizingRule,
+  getRiskLimits,
+  saveRiskLimits,
+  deleteRiskLimits,
   refreshAllOrderStatus,
   refreshOrderStatus,
   cancelOrder,
@@ -26,6 +36,9 @@ import {
   getOrderSearchSuggestions,
   getOrderBook,
   getPositions,
+  getHoldings,
+  getFunds,
+  getTradeBook,
   searchSymbol,
   getQuotes
 } from '../controllers/brokerController';
@@ -37,15 +50,15 @@ import {
   refreshAccountToken
 } from '../controllers/sessionHealthController';
 
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireStepUp } from '../middleware/auth';
 
 const router = express.Router();
 
 // Validation rules for broker connection
 const connectBrokerValidation = [
   body('brokerName')
-    .isIn(['shoonya', 'fyers'])
-    .withMessage('Supported brokers: shoonya, fyers'),
+    .isIn(['shoonya', 'fyers', 'paper'])
+    .withMessage('Supported brokers: shoonya, fyers, paper'),
 
   // Conditional validation for Shoonya
   body('credentials.userId')
@@ -92,6 +105,19 @@ const connectBrokerValidation = [
     .trim()
     .isURL()
     .withMessage('Valid Redirect URI is required for Fyers'),
+
+  // Conditional validation for paper trading
+  body('credentials.initialCapital')
+    .if(body('brokerName').equals('paper'))
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('Initial capital must be a positive amount'),
+  body('credentials.accountName')
+    .if(body('brokerName').equals('paper'))
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Account name must be at most 100 characters'),
 ];
 
 // Validation rules for placing orders
@@ -114,15 +140,19 @@ const placeOrderValidation = [
     .isIn(['MARKET', 'LIMIT', 'SL-LIMIT', 'SL-MARKET'])
     .withMessage('Invalid order type'),
   body('exchange')
-    .isIn(['NSE', 'BSE', 'NFO', 'MCX', 'CDS'])
+    .isIn(['NSE', 'BSE', 'NFO', 'BFO', 'MCX', 'CDS'])
     .withMessage('Invalid exchange'),
   body('productType')
     .isIn(['C', 'M', 'H', 'B', 'CNC', 'MIS', 'NRML', 'BO'])
     .withMessage('Invalid product type'),
+  body('variety')
+    .optional()
+    .isIn(['REGULAR', 'AMO'])
+    .withMessage('Variety must be REGULAR or AMO'),
 ];
 
 // Validation rules for multi-account order placement
-const placeMultiAccountOrderValidation = [
+export const placeMultiAccountOrderValidation = [
   body('selectedAccounts')
     .isArray({ min: 1 })
     .withMessage('At least one account must be selected'),
@@ -144,11 +174,151 @@ const placeMultiAccountOrderValidation = [
     .isIn(['MARKET', 'LIMIT', 'SL-LIMIT', 'SL-MARKET'])
     .withMessage('Invalid order type'),
   body('exchange')
-    .isIn(['NSE', 'BSE', 'NFO', 'MCX', 'CDS'])
+    .isIn(['NSE', 'BSE', 'NFO', 'BFO', 'MCX', 'CDS'])
     .withMessage('Invalid exchange'),
   body('productType')
     .isIn(['C', 'M', 'H', 'B', 'CNC', 'MIS', 'NRML', 'BO'])
     .withMessage('Invalid product type'),
+  body('variety')
+    .optional()
+    .isIn(['REGULAR', 'AMO'])
+    .withMessage('Variety must be REGULAR or AMO'),
+];
+
+// Validation rules for previewing per-account order quantities
+const previewMultiAccountOrderValidation = [
+  body('selectedAccounts')
+    .isArray({ min: 1 })
+    .withMessage('At least one account must be selected'),
+  body('symbol')
+    .trim()
+    .isLength({ min: 1 })
+    .withMessage('Trading symbol is required'),
+  body('quantity')
+    .isInt({ min: 1 })
+    .withMessage('Quantity must be a positive integer'),
+  body('exchange')
+    .optional()
+    .isIn(['NSE', 'BSE', 'NFO', 'BFO', 'MCX', 'CDS'])
+    .withMessage('Invalid exchange'),
+];
+
+// Validation rules for the legs of a multi-leg strategy
+const strategyLegsValidation = [
+  body('legs')
+    .isArray({ min: 1, max: 8 })
+    .withMessage('A strategy needs between 1 and 8 legs'),
+  body('legs.*.symbol')
+    .trim()
+    .isLength({ min: 1 })
+    .withMessage('Leg trading symbol is required'),
+  body('legs.*.exchange')
+    .optional()
+    .isIn(['NFO', 'BFO', 'MCX', 'CDS'])
+    .withMessage('Strategy legs must be derivatives'),
+  body('legs.*.action')
+    .isIn(['BUY', 'SELL'])
+    .withMessage('Leg action must be BUY or SELL'),
+  body('legs.*.quantity')
+    .isInt({ min: 1 })
+    .withMessage('Leg quantity must be a positive integer'),
+  body('legs.*.optionType')
+    .optional({ values: 'null' })
+    .isIn(['CE', 'PE'])
+    .withMessage('Leg option type must be CE or PE'),
+  body('legs.*.strike')
+    .optional({ values: 'null' })
+    .isFloat({ gt: 0 })
+    .withMessage('Leg strike must be a positive number'),
+  body('legs.*.orderType')
+    .optional()
+    .isIn(['MARKET', 'LIMIT'])
+    .withMessage('Leg order type must be MARKET or LIMIT'),
+  body('legs.*.price')
+    .if(body('legs.*.orderType').equals('LIMIT'))
+    .isFloat({ gt: 0 })
+    .withMessage('Limit legs need a positive price'),
+  body('legs.*.premium')
+    .isFloat({ min: 0 })
+    .withMessage('Leg premium must be zero or more'),
+  body('legs.*.productType')
+    .optional()
+    .isIn(['NRML', 'MIS', 'M', 'I'])
+    .withMessage('Invalid leg product type'),
+];
+
+// Validation rules for placing a multi-leg strategy
+const placeStrategyOrderValidation = [
+  body('selectedAccounts')
+    .isArray({ min: 1 })
+    .withMessage('At least one account must be selected'),
+  body('selectedAccounts.*')
+    .trim()
+    .isLength({ min: 1 })
+    .withMessage('Invalid account ID'),
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Strategy name must be at most 100 characters'),
+  body('strategyType')
+    .isIn(['SPREAD', 'STRADDLE', 'STRANGLE', 'IRON_CONDOR', 'CUSTOM'])
+    .withMessage('Invalid strategy type'),
+  body('onLegFailure')
+    .optional()
+    .isIn(['ROLLBACK', 'ALERT'])
+    .withMessage('onLegFailure must be ROLLBACK or ALERT'),
+  ...strategyLegsValidation,
+];
+
+// Validation rules for position sizing rules
+const sizingRuleValidation = [
+  param('accountId')
+    .trim()
+    .isLength({ min: 1 })
+    .withMessage('Account ID is required'),
+  body('method')
+    .isIn(['FIXED_QUANTITY', 'MULTIPLIER', 'PERCENT_OF_CAPITAL', 'FIXED_NOTIONAL'])
+    .withMessage('Invalid sizing method'),
+  body('value')
+    .isFloat({ gt: 0 })
+    .withMessage('Value must be a positive number'),
+  body('capital')
+    .optional({ values: 'null' })
+    .isFloat({ gt: 0 })
+    .withMessage('Capital must be a positive number'),
+  body('minQuantity')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Minimum quantity must be a positive integer'),
+  body('maxQuantity')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Maximum quantity must be a positive integer'),
+  body('roundToLot')
+    .optional()
+    .isBoolean()
+    .withMessage('roundToLot must be a boolean'),
+];
+
+// Validation rules for pre-trade risk limits
+const riskLimitsValidation = [
+  body('isEnabled')
+    .optional()
+    .isBoolean()
+    .withMessage('isEnabled must be a boolean'),
+  body(['maxOrderValue', 'dailyLossLimit'])
+    .optional({ values: 'falsy' })
+    .isFloat({ gt: 0 })
+    .withMessage('Value limits must be positive numbers'),
+  body(['maxQuantityPerSymbol', 'maxOpenPositions', 'maxOrdersPerMinute'])
+    .optional({ values: 'falsy' })
+    .isInt({ min: 1 })
+    .withMessage('Count limits must be positive integers'),
+  body(['allowedExchanges', 'allowedProducts', 'restrictedSymbols'])
+    .optional()
+    .isArray()
+    .withMessage('Exchange, product and symbol lists must be arrays'),
 ];
 
 // Routes
@@ -166,13 +336,25 @@ router.get('/oauth/callback', authenticateToken, handleOAuthCallback);
 router.get('/accounts', authenticateToken, getConnectedAccounts);
 router.get('/accounts/:accountId/status', authenticateToken, checkAccountSessionStatus);
 router.post('/accounts', authenticateToken, saveConnectedAccount);
-router.delete('/accounts/:accountId', authenticateToken, removeConnectedAccount);
+router.delete('/accounts/:accountId', authenticateToken, requireStepUp, removeConnectedAccount);
 router.post('/accounts/:accountId/activate', authenticateToken, activateAccount);
 router.post('/accounts/:accountId/deactivate', authenticateToken, deactivateAccount);
 
 router.post('/disconnect', authenticateToken, disconnectBroker);
 router.post('/place-order', authenticateToken, placeOrderValidation, placeOrder);
-router.post('/place-multi-account-order', authenticateToken, placeMultiAccountOrderValidation, placeMultiAccountOrder);
+router.post('/place-multi-account-order', authenticateToken, requireStepUp, placeMultiAccountOrderValidation, placeMultiAccountOrder);
+router.post('/preview-multi-account-order', authenticateToken, previewMultiAccountOrderValidation, previewMultiAccountOrder);
+router.get('/strategy-orders', authenticateToken, getStrategyOrders);
+router.post('/strategy-orders', authenticateToken, requireStepUp, placeStrategyOrderValidation, placeStrategyOrder);
+router.post('/strategy-orders/preview', authenticateToken, strategyLegsValidation, previewStrategyOrder);
+router.get('/sizing-rules', authenticateToken, getSizingRules);
+router.put('/sizing-rules/:accountId', authenticateToken, requireStepUp, sizingRuleValidation, saveSizingRule);
+router.delete('/sizing-rules/:accountId', authenticateToken, requireStepUp, deleteSizingRule);
+router.get('/risk-limits', authenticateToken, getRiskLimits);
+router.put('/risk-limits', authenticateToken, requireStepUp, riskLimitsValidation, saveRiskLimits);
+router.put('/risk-limits/:accountId', authenticateToken, requireStepUp, riskLimitsValidation, saveRiskLimits);
+router.delete('/risk-limits', authenticateToken, requireStepUp, deleteRiskLimits);
+router.delete('/risk-limits/:accountId', authenticateToken, requireStepUp, deleteRiskLimits);
 router.post('/refresh-all-order-status', authenticateToken, refreshAllOrderStatus);
 router.post('/refresh-order-status/:orderId', authenticateToken, refreshOrderStatus);
 router.post('/cancel-order/:orderId', authenticateToken, cancelOrder);
@@ -185,6 +367,9 @@ router.post('/check-order-status', authenticateToken, checkOrderStatus);
 router.get('/order-search-suggestions', authenticateToken, getOrderSearchSuggestions);
 router.get('/orders/:brokerName', authenticateToken, getOrderBook);
 router.get('/positions/:brokerName', authenticateToken, getPositions);
+router.get('/holdings', authenticateToken, getHoldings);
+router.get('/funds', authenticateToken, getFunds);
+router.get('/tradebook', authenticateToken, getTradeBook);
 router.get('/search/:brokerName/:exchange/:symbol', authenticateToken, searchSymbol);
 router.get('/quotes/:brokerName/:exchange/:token', authenticateToken, getQuotes);
 
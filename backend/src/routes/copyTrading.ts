@@ -0,0 +1,257 @@
+import express from 'express';
+import { authenticateToken, requireStepUp } from '../middleware/auth';
+import { body, param, validationResult } from 'express-validator';
+import { userDatabase } from '../services/databaseCompatibility';
+import { accountAccessService } from '../services/accountAccessService';
+import { copyTradingService } from '../services/copyTradingService';
+
+const router = express.Router();
+
+/**
+ * Get copy trading links (master -> follower) for the user
+ */
+router.get('/links', authenticateToken, async (req: any, res: any) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const links = await userDatabase.getCopyTradeLinksByUserId(userId.toString());
+
+    return res.json({
+      success: true,
+      data: {
+        links,
+        engineRunning: copyTradingService.isRunning()
+      }
+    });
+  } catch (error: any) {
+    console.error('Failed to get copy trading links:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get copy trading links',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Link a follower account to a master account
+ */
+router.post('/links',
+  authenticateToken,
+  requireStepUp,
+  [
+    body('masterAccountId').notEmpty().withMessage('Master account is required'),
+    body('followerAccountId').notEmpty().withMessage('Follower account is required')
+  ],
+  async (req: any, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const { masterAccountId, followerAccountId } = req.body;
+
+      if (masterAccountId === followerAccountId) {
+        return res.status(400).json({
+          success: false,
+          error: 'An account cannot follow itself'
+        });
+      }
+
+      // The user must be able to see the master and trade the follower
+      for (const [accountId, permission] of [[masterAccountId, 'VIEW'], [followerAccountId, 'TRADE']] as const) {
+        if (!(await accountAccessService.checkAccess(userId, accountId, permission))) {
+          return res.status(404).json({
+            success: false,
+            error: `Account ${accountId} not found or access denied`
+          });
+        }
+      }
+
+      // Shared accounts can be linked by several users, so look at everyone's links on the two accounts
+      const existingLinks = await userDatabase.getCopyTradeLinksByAccountIds([masterAccountId, followerAccountId]);
+      if (existingLinks.some(link => link.master_account_id === masterAccountId && link.follower_account_id === followerAccountId)) {
+        return res.status(409).json({
+          success: false,
+          error: 'Follower account is already linked to this master account'
+        });
+      }
+
+      // Prevent chains where the master itself follows another account
+      if (existingLinks.some(link => link.follower_account_id === masterAccountId || link.master_account_id === followerAccountId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Chained copy trading is not supported - an account cannot be both a master and a follower'
+        });
+      }
+
+      const link = await userDatabase.createCopyTradeLink({
+        user_id: userId.toString(),
+        master_account_id: masterAccountId,
+        follower_account_id: followerAccountId
+      });
+
+      return res.json({
+        success: true,
+        data: link
+      });
+    } catch (error: any) {
+      // Another request linked the same pair in the meantime
+      if (error.code === 'DUPLICATE_LINK') {
+        return res.status(409).json({
+          success: false,
+          error: error.message
+        });
+      }
+      console.error('Failed to create copy trading link:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create copy trading link',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Pause or resume a copy trading link
+ */
+router.patch('/links/:id',
+  authenticateToken,
+  [
+    param('id').notEmpty(),
+    body('isActive').isBoolean().withMessage('isActive must be a boolean')
+  ],
+  async (req: any, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const link = await userDatabase.getCopyTradeLinkById(req.params.id);
+      if (!link || link.user_id !== userId.toString()) {
+        return res.status(404).json({
+          success: false,
+          error: 'Copy trading link not found'
+        });
+      }
+
+      const updatedLink = await userDatabase.updateCopyTradeLink(link.id, { is_active: req.body.isActive });
+
+      return res.json({
+        success: true,
+        data: updatedLink
+      });
+    } catch (error: any) {
+      console.error('Failed to update copy trading link:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update copy trading link',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Remove a copy trading link
+ */
+router.delete('/links/:id', authenticateToken, async (req: any, res: any) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const link = await userDatabase.getCopyTradeLinkById(req.params.id);
+    if (!link || link.user_id !== userId.toString()) {
+      return res.status(404).json({
+        success: false,
+        error: 'Copy trading link not found'
+      });
+    }
+
+    await userDatabase.deleteCopyTradeLink(link.id);
+
+    return res.json({
+      success: true,
+      message: 'Copy trading link removed'
+    });
+  } catch (error: any) {
+    console.error('Failed to delete copy trading link:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete copy trading link',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Get copied orders (master order -> follower order records)
+ */
+router.get('/orders', authenticateToken, async (req: any, res: any) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const copiedOrders = await userDatabase.getCopiedOrdersByUserId(userId.toString(), limit, offset);
+
+    return res.json({
+      success: true,
+      data: copiedOrders
+    });
+  } catch (error: any) {
+    console.error('Failed to get copied orders:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get copied orders',
+      details: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,184 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { body, validationResult } from 'express-validator';
+import { AccountAccessLevel, accountAccessService } from '../services/accountAccessService';
+import { killSwitchService } from '../services/killSwitchService';
+import { auditService } from '../services/auditService';
+
+const router = express.Router();
+
+const killSwitchValidation = [
+  body('accountId').optional({ values: 'null' }).isString().notEmpty().withMessage('Account ID must be a string'),
+  body('reason').optional({ values: 'null' }).isString().isLength({ max: 500 }).withMessage('Reason must be at most 500 characters')
+];
+
+/**
+ * Whose kill switch a request changes: for a specific account, its owner when the user
+ * holds the permission (null otherwise); a null account targets every one of the user's own accounts
+ */
+const getKillSwitchOwner = async (userId: string, accountId: string | null, permission: AccountAccessLevel): Promise<string | null> => {
+  if (!accountId) {
+    return userId;
+  }
+  const access = await accountAccessService.checkAccess(userId, accountId, permission);
+  return access ? access.ownerId : null;
+};
+
+/**
+ * Get kill switch state and recent activations for the user
+ */
+router.get('/', authenticateToken, async (req: any, res: any) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const status = await killSwitchService.getStatus(userId.toString());
+
+    return res.json({
+      success: true,
+      data: status
+    });
+  } catch (error: any) {
+    console.error('Failed to get kill switch status:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get kill switch status',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Halt trading on one account or on all of the user's accounts, cancel open
+ * orders and optionally square off open positions
+ */
+router.post('/activate',
+  authenticateToken,
+  [
+    ...killSwitchValidation,
+    body('squareOff').optional().isBoolean().withMessage('squareOff must be a boolean')
+  ],
+  async (req: any, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const accountId: string | null = req.body.accountId || null;
+      const ownerId = await getKillSwitchOwner(userId.toString(), accountId, 'TRADE');
+      if (!ownerId) {
+        return res.status(404).json({
+          success: false,
+          error: 'Account not found or access denied'
+        });
+      }
+      const actedBy = ownerId !== userId.toString() ? { actedBy: userId.toString() } : {};
+
+      const result = await killSwitchService.activate(ownerId, {
+        accountId,
+        reason: req.body.reason || undefined,
+        squareOff: req.body.squareOff === true
+      });
+
+      await auditService.record({
+        userId: ownerId,
+        action: 'KILL_SWITCH_ACTIVATED',
+        accountId,
+        resourceId: result.killSwitch.id.toString(),
+        details: { reason: req.body.reason || null, squareOff: req.body.squareOff === true, event: result.event, ...actedBy }
+      }, req);
+
+      return res.json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      console.error('Failed to activate kill switch:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to activate kill switch',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Allow trading again on one account or on all accounts
+ */
+router.post('/deactivate',
+  authenticateToken,
+  killSwitchValidation,
+  async (req: any, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      // Anyone who may trade an account can halt it, but only its owner can let trading resume
+      const accountId: string | null = req.body.accountId || null;
+      const ownerId = await getKillSwitchOwner(userId.toString(), accountId, 'MANAGE');
+      if (!ownerId) {
+        return res.status(404).json({
+          success: false,
+          error: 'Account not found or access denied'
+        });
+      }
+
+      const result = await killSwitchService.deactivate(ownerId, accountId, req.body.reason || undefined);
+
+      await auditService.record({
+        userId: ownerId,
+        action: 'KILL_SWITCH_DEACTIVATED',
+        accountId,
+        resourceId: result.killSwitch.id.toString(),
+        details: { reason: req.body.reason || null, event: result.event }
+      }, req);
+
+      return res.json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      console.error('Failed to deactivate kill switch:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to deactivate kill switch',
+        details: error.message
+      });
+    }
+  }
+);
+
+export default router;
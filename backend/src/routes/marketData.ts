@@ -2,6 +2,14 @@ import express from 'express';
 import { marketDataService } from '../services/marketDataService';
 import { authenticateToken } from '../middleware/auth';
 import { symbolDatabaseService } from '../services/symbolDatabaseService';
+import { derivativesCSVService } from '../services/derivativesCSVService';
+import { isDerivativeExchange } from '../utils/derivativeInstruments';
+import { candleService } from '../services/candleService';
+import { marketClockService } from '../services/marketClockService';
+import { tradeLedgerService } from '../services/tradeLedgerService';
+import { userDatabase } from '../services/databaseCompatibility';
+import { CANDLE_INTERVALS, CANDLE_INTERVAL_MS, CandleInterval } from '../utils/candleAggregation';
+import { aggregateLedgerPositions } from '../utils/tradeLedger';
 
 const router = express.Router();
 
@@ -134,7 +142,7 @@ router.get('/search/:query', authenticateToken, async (req: any, res: any) => {
       console.log(`🔍 Searching symbols for query: "${query}" on ${exchange}`);
 
       // Search using symbol database service with exchange filter
-      const exchangeFilter = exchange === 'NSE' ? 'NSE' : exchange === 'BSE' ? 'BSE' : 'ALL';
+      const exchangeFilter = exchange === 'NSE' || exchange === 'BSE' || isDerivativeExchange(exchange) ? exchange : 'ALL';
       const unifiedResults = await symbolDatabaseService.searchSymbols(query, parseInt(limit as string), exchangeFilter);
 
       searchResults = unifiedResults.map((result: any) => ({
@@ -145,6 +153,15 @@ router.get('/search/:query', authenticateToken, async (req: any, res: any) => {
         isin: result.isin,
         series: result.series,
         group: result.group,
+        ...(result.underlying && {
+          underlying: result.underlying,
+          instrumentType: result.instrumentType,
+          expiry: result.expiry,
+          strike: result.strike,
+          optionType: result.optionType,
+          lotSize: result.lotSize,
+          tickSize: result.tickSize
+        }),
         source: `${result.exchange.toLowerCase()}_official`
       }));
 
@@ -201,6 +218,230 @@ router.get('/search/:query', authenticateToken, async (req: any, res: any) => {
   }
 });
 
+/**
+ * Search futures and options by underlying, expiry, instrument and option type
+ */
+router.get('/instruments', authenticateToken, async (req: any, res: any) => {
+  try {
+    const { query, underlying, expiry, instrumentType, optionType, limit = 50 } = req.query;
+    const exchange = req.query.exchange ? String(req.query.exchange).toUpperCase() : undefined;
+
+    if (!query && !underlying) {
+      return res.status(400).json({
+        success: false,
+        error: 'Either query or underlying is required'
+      });
+    }
+
+    if (exchange && !isDerivativeExchange(exchange)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Exchange must be NFO, BFO or MCX'
+      });
+    }
+
+    const instruments = derivativesCSVService.searchInstruments({
+      query,
+      exchange: isDerivativeExchange(exchange) ? exchange : undefined,
+      underlying,
+      expiry,
+      instrumentType: instrumentType === 'FUT' || instrumentType === 'OPT' ? instrumentType : undefined,
+      optionType: optionType === 'CE' || optionType === 'PE' ? optionType : undefined,
+      limit: Math.min(parseInt(limit as string) || 50, 500)
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        instruments,
+        count: instruments.length
+      }
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to search instruments:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to search instruments',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Upcoming expiries of an underlying
+ */
+router.get('/expiries/:underlying', authenticateToken, async (req: any, res: any) => {
+  try {
+    const { underlying } = req.params;
+    const exchange = String(req.query.exchange || 'NFO').toUpperCase();
+    const instrumentType = req.query.instrumentType === 'FUT' ? 'FUT' : 'OPT';
+
+    if (!isDerivativeExchange(exchange)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Exchange must be NFO, BFO or MCX'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        underlying: underlying.toUpperCase(),
+        exchange,
+        instrumentType,
+        expiries: derivativesCSVService.getExpiries(underlying, exchange, instrumentType)
+      }
+    });
+  } catch (error: any) {
+    console.error(`❌ Failed to get expiries for ${req.params.underlying}:`, error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get expiries',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Option chain of an underlying for one expiry (nearest expiry by default)
+ */
+router.get('/option-chain/:underlying', authenticateToken, async (req: any, res: any) => {
+  try {
+    const { underlying } = req.params;
+    const exchange = String(req.query.exchange || 'NFO').toUpperCase();
+    const expiry = req.query.expiry ? String(req.query.expiry) : undefined;
+
+    if (!isDerivativeExchange(exchange)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Exchange must be NFO, BFO or MCX'
+      });
+    }
+
+    const chain = derivativesCSVService.getOptionChain(underlying, exchange, expiry);
+    if (!chain) {
+      return res.status(404).json({
+        success: false,
+        error: `No options found for ${underlying.toUpperCase()}${expiry ? ` expiring ${expiry}` : ''}`
+      });
+    }
+
+    // Spot price marks the at-the-money strike; index and commodity prices may be unavailable
+    const spot = exchange === 'MCX' ? null : await marketDataService.getPrice(chain.underlying, exchange === 'BFO' ? 'BSE' : 'NSE');
+    const spotPrice = spot?.price || null;
+    const atmStrike = spotPrice
+      ? chain.rows.reduce<number | null>((closest, row) =>
+        closest === null || Math.abs(row.strike - spotPrice) < Math.abs(closest - spotPrice) ? row.strike : closest, null)
+      : null;
+
+    return res.json({
+      success: true,
+      data: {
+        ...chain,
+        spotPrice,
+        atmStrike
+      }
+    });
+  } catch (error: any) {
+    console.error(`❌ Failed to get option chain for ${req.params.underlying}:`, error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get option chain',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Get OHLCV candles for a symbol, with the user's orders on it and the
+ * average price of their open position for chart markers
+ */
+router.get('/candles/:symbol', authenticateToken, async (req: any, res: any) => {
+  try {
+    const userId = req.user?.id;
+    const symbol = String(req.params.symbol).toUpperCase();
+    const exchange = String(req.query.exchange || 'NSE').toUpperCase();
+    const interval = String(req.query.interval || '1d') as CandleInterval;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    if (!CANDLE_INTERVALS.includes(interval)) {
+      return res.status(400).json({
+        success: false,
+        error: `Interval must be one of ${CANDLE_INTERVALS.join(', ')}`
+      });
+    }
+
+    // Default lookback scales with the interval, from a day of 1m bars to a year of daily bars
+    const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+    const from = req.query.from
+      ? new Date(String(req.query.from))
+      : new Date(to.getTime() - (interval === '1d' ? 365 : CANDLE_INTERVAL_MS[interval] / 60000) * 24 * 60 * 60 * 1000);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return res.status(400).json({
+        success: false,
+        error: 'from and to must be valid dates with from before to'
+      });
+    }
+
+    if ((to.getTime() - from.getTime()) / CANDLE_INTERVAL_MS[interval] > 20000) {
+      return res.status(400).json({
+        success: false,
+        error: 'Requested range is too long for the interval'
+      });
+    }
+
+    const [candles, orders, ledger] = await Promise.all([
+      candleService.getCandles(symbol, exchange, interval, from, to),
+      userDatabase.getOrderHistoryByUserIdWithFilters(userId, 500, 0, {
+        symbol,
+        startDate: from.toISOString(),
+        endDate: to.toISOString()
+      }),
+      tradeLedgerService.getLedger(userId)
+    ]);
+
+    const markers = orders
+      .filter(order => order.symbol.toUpperCase() === symbol && order.exchange === exchange && ['EXECUTED', 'PARTIALLY_FILLED', 'PLACED', 'AMO_PLACED', 'PENDING'].includes(order.status))
+      .map(order => ({
+        orderId: order.id.toString(),
+        time: order.executed_at || order.created_at,
+        action: order.action,
+        price: order.average_price || order.price,
+        quantity: order.executed_quantity || order.quantity,
+        status: order.status
+      }));
+
+    const position = aggregateLedgerPositions(ledger.positions)
+      .find(candidate => candidate.symbol === symbol && candidate.exchange === exchange && candidate.quantity !== 0);
+
+    return res.json({
+      success: true,
+      data: {
+        symbol,
+        exchange,
+        interval,
+        candles,
+        markers,
+        position: position ? { quantity: position.quantity, averagePrice: position.averagePrice } : null
+      }
+    });
+  } catch (error: any) {
+    console.error(`❌ Failed to get candles for ${req.params.symbol}:`, error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get candles',
+      details: error.message
+    });
+  }
+});
+
 /**
  * Check symbol database status (for debugging)
  */
@@ -225,20 +466,47 @@ router.get('/symbol-status', authenticateToken, async (req: any, res: any) => {
 });
 
 /**
- * Get NSE market status - DISABLED
- * Disabled due to NSE API reliability issues causing timeouts
+ * Get the market session of every segment from the market clock
  */
 router.get('/market-status', authenticateToken, async (req: any, res: any) => {
-  console.log('📊 Market status endpoint disabled due to API reliability issues');
-  
-  return res.json({
-    success: true,
-    data: {
-      status: 'Unknown',
-      isOpen: false,
-      message: 'Market status functionality temporarily disabled due to API reliability issues'
-    }
-  });
+  try {
+    return res.json({
+      success: true,
+      data: marketClockService.getMarketStatus()
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to get market status:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get market status',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Get exchange holidays and special sessions in the coming days
+ */
+router.get('/market-calendar', authenticateToken, async (req: any, res: any) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 90, 1), 366);
+
+    return res.json({
+      success: true,
+      data: {
+        days,
+        ...marketClockService.getUpcomingCalendar(days),
+        nextOpen: marketClockService.getNextSessionStart('EQUITY', 'NORMAL')?.toISOString() || null
+      }
+    });
+  } catch (error: any) {
+    console.error('❌ Failed to get market calendar:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get market calendar',
+      details: error.message
+    });
+  }
 });
 
 /**
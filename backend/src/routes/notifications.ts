@@ -1,6 +1,7 @@
 import express from 'express';
 import { authenticateToken } from '../middleware/auth';
 import { notificationService } from '../services/notificationService';
+import { auditService } from '../services/auditService';
 import { logger } from '../utils/logger';
 
 const router = express.Router();
@@ -169,6 +170,13 @@ router.put('/preferences', authenticateToken, async (req: any, res: any) => {
 
     const success = await notificationService.updateNotificationPreferences(userId.toString(), preferences);
 
+    await auditService.record({
+      userId: userId.toString(),
+      action: 'NOTIFICATION_PREFERENCES_UPDATED',
+      details: { preferences },
+      success
+    }, req);
+
     if (success) {
       return res.json({
         success: true,
@@ -1,15 +1,31 @@
 import express from 'express';
 import { authenticateToken } from '../middleware/auth';
 import { portfolioAnalyticsService } from '../services/portfolioAnalyticsService';
+import { tradeLedgerService } from '../services/tradeLedgerService';
+import { accountAccessService } from '../services/accountAccessService';
 
 const router = express.Router();
 
+/**
+ * Whose ledger a request reads: the user's own, or with an account id that
+ * account's owner when the user may view it, e.g. a client's account shared
+ * through a workspace. Null when the user may not view the account.
+ */
+const resolvePortfolioOwner = async (userId: string, accountId: string | undefined): Promise<string | null> => {
+  if (!accountId) {
+    return userId;
+  }
+  const access = await accountAccessService.checkAccess(userId, accountId, 'VIEW');
+  return access ? access.ownerId : null;
+};
+
 /**
  * Get portfolio positions
  */
 router.get('/positions', authenticateToken, async (req: any, res: any) => {
   try {
     const userId = req.user?.id;
+    const accountId = req.query.accountId as string | undefined;
 
     if (!userId) {
       return res.status(401).json({
@@ -18,8 +34,16 @@ router.get('/positions', authenticateToken, async (req: any, res: any) => {
       });
     }
 
-    console.log(`📊 Calculating positions with live prices for user ${userId}...`);
-    const positions = await portfolioAnalyticsService.calculatePortfolioPositions(userId);
+    const ownerId = await resolvePortfolioOwner(userId, accountId);
+    if (!ownerId) {
+      return res.status(404).json({
+        success: false,
+        error: 'Account not found or access denied'
+      });
+    }
+
+    console.log(`📊 Calculating positions with live prices for user ${ownerId}...`);
+    const positions = await portfolioAnalyticsService.calculatePortfolioPositions(ownerId, accountId);
     console.log(`✅ Calculated ${positions.length} positions with live market data`);
 
     return res.json({
@@ -39,6 +63,63 @@ router.get('/positions', authenticateToken, async (req: any, res: any) => {
   }
 });
 
+/**
+ * Get the trade ledger: open positions per account and netted across
+ * accounts, and the closed trades with their realised P&L
+ */
+router.get('/ledger', authenticateToken, async (req: any, res: any) => {
+  try {
+    const userId = req.user?.id;
+    const accountId = req.query.accountId as string | undefined;
+    const method = (req.query.method as string | undefined) || 'FIFO';
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    if (method !== 'FIFO' && method !== 'WEIGHTED_AVERAGE') {
+      return res.status(400).json({
+        success: false,
+        error: 'Method must be FIFO or WEIGHTED_AVERAGE'
+      });
+    }
+
+    const ownerId = await resolvePortfolioOwner(userId, accountId);
+    if (!ownerId) {
+      return res.status(404).json({
+        success: false,
+        error: 'Account not found or access denied'
+      });
+    }
+
+    const [positions, ledger] = await Promise.all([
+      tradeLedgerService.getOpenPositions(ownerId, { accountId, method }),
+      tradeLedgerService.getLedger(ownerId, { accountId, method })
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        method,
+        positions,
+        closedTrades: ledger.closedTrades.slice().reverse(),
+        realizedPnl: Math.round(ledger.closedTrades.reduce((sum, trade) => sum + trade.realizedPnl, 0) * 100) / 100,
+        unrealizedPnl: Math.round(positions.accounts.reduce((sum, position) => sum + position.unrealizedPnl, 0) * 100) / 100
+      }
+    });
+  } catch (error: any) {
+    console.error('Failed to get trade ledger:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get trade ledger',
+      details: error.message
+    });
+  }
+});
+
 /**
  * Get portfolio metrics
  */
@@ -53,7 +134,7 @@ router.get('/metrics', authenticateToken, async (req: any, res: any) => {
       });
     }
 
-    const metrics = portfolioAnalyticsService.calculatePortfolioMetrics(userId);
+    const metrics = await portfolioAnalyticsService.calculatePortfolioMetrics(userId);
 
     return res.json({
       success: true,
@@ -83,7 +164,7 @@ router.get('/trading-stats', authenticateToken, async (req: any, res: any) => {
       });
     }
 
-    const stats = portfolioAnalyticsService.calculateTradingStats(userId);
+    const stats = await portfolioAnalyticsService.calculateTradingStats(userId);
 
     return res.json({
       success: true,
@@ -121,7 +202,7 @@ router.get('/performance', authenticateToken, async (req: any, res: any) => {
       });
     }
 
-    const performanceData = portfolioAnalyticsService.getPerformanceData(userId, days);
+    const performanceData = await portfolioAnalyticsService.getPerformanceData(userId, days);
 
     return res.json({
       success: true,
@@ -0,0 +1,210 @@
+import express from 'express';
+import { query, validationResult } from 'express-validator';
+import { authenticateApiKey } from '../middleware/auth';
+import { executeMultiAccountOrder } from '../controllers/brokerController';
+import { placeMultiAccountOrderValidation } from './broker';
+import { signalService } from '../services/signalService';
+import { userDatabase } from '../services/databaseCompatibility';
+import { parseSignalPayload, resolveAccountGroup } from '../utils/inboundSignals';
+import { Signal, SignalStatus } from '../interfaces/IDatabaseAdapter';
+
+// Public API for external signal sources; requests authenticate with an API key, not a login
+const router = express.Router();
+
+const SIGNAL_STATUSES: SignalStatus[] = ['PROCESSING', 'COMPLETED', 'PARTIAL', 'FAILED', 'REJECTED'];
+
+export const toSignalView = (signal: Signal) => ({
+  id: signal.id,
+  apiKeyId: signal.api_key_id,
+  idempotencyKey: signal.idempotency_key,
+  status: signal.status,
+  error: signal.error,
+  accountGroup: signal.account_group,
+  order: signal.order,
+  payload: signal.payload,
+  orders: signal.orders.map(order => ({
+    accountId: order.account_id,
+    brokerName: order.broker_name,
+    orderHistoryId: order.order_history_id,
+    brokerOrderId: order.broker_order_id,
+    quantity: order.quantity,
+    success: order.success,
+    error: order.error
+  })),
+  sourceIp: signal.source_ip,
+  receivedAt: signal.created_at,
+  completedAt: signal.completed_at
+});
+
+/**
+ * Receive an order signal and place it on every account of the named account group.
+ * The payload is read like an alert template (symbol, action, quantity, accountGroup,
+ * ...) and then validated and fanned out exactly like a multi-account order from the app.
+ */
+router.post('/', authenticateApiKey('signals:write'), async (req: any, res: any) => {
+  // The received signal until it is rejected or completed
+  let pending: Signal | null = null;
+
+  try {
+    const apiKey = req.apiKey;
+    const userId = req.user?.id;
+    if (!apiKey || !userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'API key required'
+      });
+    }
+
+    // The key itself is never logged
+    const { apiKey: _key, ...payload } = req.body && typeof req.body === 'object' && !Array.isArray(req.body) ? req.body : {};
+    const parsed = parseSignalPayload(payload);
+    const idempotencyKey = (req.get('Idempotency-Key') || parsed.idempotencyKey || '').trim().slice(0, 200) || null;
+
+    const { signal, duplicate } = await signalService.receive(apiKey, payload, idempotencyKey, req.ip || null);
+    if (duplicate) {
+      if (signal.status === 'PROCESSING') {
+        return res.status(409).json({
+          success: false,
+          error: 'A signal with this idempotency key is still being processed',
+          data: toSignalView(signal)
+        });
+      }
+      const placed = signal.status !== 'REJECTED' && signal.status !== 'FAILED';
+      return res.json({
+        success: placed,
+        duplicate: true,
+        ...(!placed && { error: `A signal with this idempotency key was already processed and ended ${signal.status}` }),
+        data: toSignalView(signal)
+      });
+    }
+    pending = signal;
+
+    const group = resolveAccountGroup(apiKey.account_groups, parsed.accountGroup);
+    if (!group) {
+      const error = parsed.accountGroup
+        ? `Unknown account group "${parsed.accountGroup}"`
+        : 'Name the account group to trade with accountGroup';
+      const rejected = await signalService.reject(signal, error, { accountGroup: parsed.accountGroup, order: parsed.order });
+      pending = null;
+      return res.status(400).json({
+        success: false,
+        error,
+        data: toSignalView(rejected)
+      });
+    }
+
+    // Same validation as the multi-account order form
+    req.body = { ...parsed.order, selectedAccounts: group.account_ids };
+    for (const rule of placeMultiAccountOrderValidation) {
+      await rule.run(req);
+    }
+    const validationErrors = validationResult(req);
+    if (!validationErrors.isEmpty()) {
+      const details = validationErrors.array();
+      const rejected = await signalService.reject(signal, details.map(detail => detail.msg).join('; '), {
+        accountGroup: group.name,
+        order: parsed.order
+      });
+      pending = null;
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details,
+        data: toSignalView(rejected)
+      });
+    }
+
+    const placement = await executeMultiAccountOrder(req, userId, req.body, { signalId: signal.id, apiKeyId: apiKey.id });
+    if (placement.deniedAccountId) {
+      const error = `Account ${placement.deniedAccountId} not found or access denied`;
+      const rejected = await signalService.reject(signal, error, { accountGroup: group.name, order: parsed.order });
+      pending = null;
+      return res.status(403).json({
+        success: false,
+        error,
+        data: toSignalView(rejected)
+      });
+    }
+
+    const completed = await signalService.complete(
+      signal,
+      group.name,
+      parsed.order,
+      placement.successfulOrders,
+      placement.failedOrders
+    );
+    pending = null;
+    const placed = placement.successfulOrders.length;
+    return res.status(placed > 0 ? 200 : 400).json({
+      success: placed > 0,
+      message: `Orders placed on ${placed} of ${placement.accounts.length} account${placement.accounts.length === 1 ? '' : 's'}`,
+      data: toSignalView(completed)
+    });
+  } catch (error: any) {
+    console.error('Failed to process signal:', error);
+    const failed = pending
+      ? await signalService.fail(pending, error.message || 'Failed to process signal').catch((failError: any) => {
+        console.error('Failed to mark signal as failed:', failError);
+        return null;
+      })
+      : null;
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to process signal',
+      details: error.message,
+      ...(failed && { data: toSignalView(failed) })
+    });
+  }
+});
+
+/**
+ * Signals received with this API key, newest first
+ */
+router.get('/',
+  authenticateApiKey('signals:read'),
+  [
+    query('status').optional().isIn(SIGNAL_STATUSES).withMessage(`Status must be one of ${SIGNAL_STATUSES.join(', ')}`),
+    query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('Limit must be between 1 and 200'),
+    query('offset').optional().isInt({ min: 0 }).withMessage('Offset must be a non-negative integer')
+  ],
+  async (req: any, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const limit = parseInt(req.query.limit) || 50;
+      const offset = parseInt(req.query.offset) || 0;
+      const { signals, total } = await userDatabase.getSignalsByUserId(
+        req.user.id,
+        { apiKeyId: req.apiKey.id, status: req.query.status },
+        limit,
+        offset
+      );
+
+      return res.json({
+        success: true,
+        data: {
+          signals: signals.map(toSignalView),
+          total,
+          limit,
+          offset
+        }
+      });
+    } catch (error: any) {
+      console.error('Failed to get signals:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get signals',
+        details: error.message
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,252 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { body, param, validationResult } from 'express-validator';
+import { userDatabase } from '../services/databaseCompatibility';
+import { AccountAccessLevel, accountAccessService } from '../services/accountAccessService';
+import { intradaySquareOffService } from '../services/intradaySquareOffService';
+import { auditService } from '../services/auditService';
+import { DEFAULT_SQUARE_OFF_TIME, validateSquareOffTime } from '../utils/intradaySquareOff';
+
+const router = express.Router();
+
+const RECENT_RUNS_LIMIT = 50;
+
+/**
+ * Whose square-off a request acts on: for a specific account, its owner when the user
+ * holds the permission (null otherwise); a null account means the user's own default
+ */
+const getSquareOffOwner = async (userId: string, accountId: string | null, permission: AccountAccessLevel): Promise<string | null> => {
+  if (!accountId) {
+    return userId;
+  }
+  const access = await accountAccessService.checkAccess(userId, accountId, permission);
+  return access ? access.ownerId : null;
+};
+
+/**
+ * Get square-off settings, recent runs and the accounts they apply to
+ */
+router.get('/', authenticateToken, async (req: any, res: any) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const [settings, runs, accounts] = await Promise.all([
+      userDatabase.getSquareOffSettingsByUserId(userId.toString()),
+      userDatabase.getSquareOffRunsByUserId(userId.toString(), RECENT_RUNS_LIMIT),
+      userDatabase.getConnectedAccountsByUserId(userId)
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        settings,
+        runs,
+        accounts: accounts.map(account => ({
+          id: account.id.toString(),
+          broker_name: account.broker_name,
+          account_id: account.account_id,
+          user_name: account.user_name,
+          broker_display_name: account.broker_display_name,
+          account_status: account.account_status
+        })),
+        defaultSquareOffTime: DEFAULT_SQUARE_OFF_TIME
+      }
+    });
+  } catch (error: any) {
+    console.error('Failed to get square-off settings:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get square-off settings',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Save the user-wide default schedule, or an override for one account
+ */
+router.put('/',
+  authenticateToken,
+  [
+    body('accountId').optional({ values: 'null' }).isString().notEmpty().withMessage('Account ID must be a string'),
+    body('enabled').isBoolean().withMessage('enabled must be a boolean'),
+    body('squareOffTime').isString().custom(value => {
+      const error = validateSquareOffTime(value);
+      if (error) {
+        throw new Error(error);
+      }
+      return true;
+    }),
+    body('cancelPendingOrders').optional().isBoolean().withMessage('cancelPendingOrders must be a boolean')
+  ],
+  async (req: any, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      // An account's schedule is one of its settings, which only its owner changes
+      const accountId: string | null = req.body.accountId || null;
+      if (!(await getSquareOffOwner(userId.toString(), accountId, 'MANAGE'))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Account not found or access denied'
+        });
+      }
+
+      const settings = await userDatabase.upsertSquareOffSettings({
+        user_id: userId.toString(),
+        account_id: accountId,
+        enabled: req.body.enabled,
+        square_off_time: req.body.squareOffTime,
+        cancel_pending_orders: req.body.cancelPendingOrders !== false
+      });
+
+      await auditService.record({
+        userId: userId.toString(),
+        action: 'SQUARE_OFF_SETTINGS_UPDATED',
+        accountId,
+        resourceId: settings.id.toString(),
+        details: { settings }
+      }, req);
+
+      return res.json({
+        success: true,
+        data: settings
+      });
+    } catch (error: any) {
+      console.error('Failed to save square-off settings:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to save square-off settings',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Remove an account override so the account follows the user-wide default again
+ */
+router.delete('/:accountId',
+  authenticateToken,
+  [param('accountId').isString().notEmpty().withMessage('Account ID is required')],
+  async (req: any, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const deleted = await userDatabase.deleteSquareOffSettings(userId.toString(), req.params.accountId);
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Square-off override not found'
+        });
+      }
+
+      await auditService.record({
+        userId: userId.toString(),
+        action: 'SQUARE_OFF_SETTINGS_REMOVED',
+        accountId: req.params.accountId
+      }, req);
+
+      return res.json({
+        success: true,
+        data: { accountId: req.params.accountId }
+      });
+    } catch (error: any) {
+      console.error('Failed to delete square-off override:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete square-off override',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Square off intraday orders and positions now on one account or on all accounts
+ */
+router.post('/run',
+  authenticateToken,
+  [body('accountId').optional({ values: 'null' }).isString().notEmpty().withMessage('Account ID must be a string')],
+  async (req: any, res: any) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const accountId: string | null = req.body.accountId || null;
+      const ownerId = await getSquareOffOwner(userId.toString(), accountId, 'TRADE');
+      if (!ownerId) {
+        return res.status(404).json({
+          success: false,
+          error: 'Account not found or access denied'
+        });
+      }
+
+      const runs = await intradaySquareOffService.runNow(ownerId, accountId);
+
+      return res.json({
+        success: true,
+        data: runs
+      });
+    } catch (error: any) {
+      console.error('Failed to run intraday square-off:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to run intraday square-off',
+        details: error.message
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,474 @@
+import express from 'express';
+import { authenticateToken, requireStepUp } from '../middleware/auth';
+import { body, param, query, validationResult } from 'express-validator';
+import { userDatabase } from '../services/databaseCompatibility';
+import { webhookService } from '../services/webhookService';
+import { auditService } from '../services/auditService';
+import { WEBHOOK_EVENTS, checkWebhookHost, generateWebhookSecret, isAllowedWebhookUrl } from '../utils/outboundWebhooks';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookEvent, WebhookSubscription } from '../interfaces/IDatabaseAdapter';
+
+// The user's webhook subscriptions, their delivery log and the dead-letter list
+const router = express.Router();
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['PENDING', 'DELIVERED', 'RETRYING', 'DEAD_LETTER'];
+const MAX_SUBSCRIPTIONS = 10;
+
+const subscriptionIdValidation = param('subscriptionId').isMongoId().withMessage('Invalid webhook ID');
+
+const deliveryListValidation = [
+  query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('Limit must be between 1 and 200'),
+  query('offset').optional().isInt({ min: 0 }).withMessage('Offset must be a non-negative integer')
+];
+
+// Rules shared by create (all required) and update (all optional)
+const subscriptionSettingsValidation = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+  return [
+    field('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Name must be 1-100 characters'),
+    field('url')
+      .isString()
+      .trim()
+      .isLength({ max: 2000 })
+      .custom(value => isAllowedWebhookUrl(value))
+      .withMessage('Enter an https URL on a public address')
+      .bail()
+      .custom(async value => {
+        const error = await checkWebhookHost(value);
+        if (error) {
+          throw new Error(error);
+        }
+      }),
+    field('events').isArray({ min: 1 }).withMessage('Choose at least one event'),
+    body('events.*').isIn(WEBHOOK_EVENTS).withMessage(`Events must be among ${WEBHOOK_EVENTS.join(', ')}`),
+    body('isActive').optional().isBoolean().withMessage('isActive must be true or false')
+  ];
+};
+
+const toWebhookView = (subscription: WebhookSubscription) => ({
+  id: subscription.id,
+  name: subscription.name,
+  url: subscription.url,
+  events: subscription.events,
+  isActive: subscription.is_active,
+  createdAt: subscription.created_at,
+  updatedAt: subscription.updated_at
+});
+
+const toDeliveryView = (delivery: WebhookDelivery) => ({
+  id: delivery.id,
+  subscriptionId: delivery.subscription_id,
+  event: delivery.event,
+  data: delivery.data,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  nextAttemptAt: delivery.next_attempt_at,
+  lastStatusCode: delivery.last_status_code,
+  lastError: delivery.last_error,
+  createdAt: delivery.created_at,
+  deliveredAt: delivery.delivered_at
+});
+
+const sendValidationErrors = (req: any, res: any): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+  res.status(400).json({
+    success: false,
+    error: 'Validation failed',
+    details: errors.array()
+  });
+  return true;
+};
+
+// The subscription, when it exists and belongs to the user
+const getOwnSubscription = async (userId: string, subscriptionId: string): Promise<WebhookSubscription | null> => {
+  const subscription = await userDatabase.getWebhookSubscriptionById(subscriptionId);
+  return subscription && subscription.user_id === userId ? subscription : null;
+};
+
+/**
+ * List the user's webhook subscriptions
+ */
+router.get('/', authenticateToken, async (req: any, res: any) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const subscriptions = await userDatabase.getWebhookSubscriptionsByUserId(userId.toString());
+    return res.json({
+      success: true,
+      data: subscriptions.map(toWebhookView)
+    });
+  } catch (error: any) {
+    console.error('Failed to get webhooks:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get webhooks',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Subscribe an endpoint to events. The signing secret is only returned here.
+ */
+router.post('/',
+  authenticateToken,
+  requireStepUp,
+  subscriptionSettingsValidation(false),
+  async (req: any, res: any) => {
+    try {
+      if (sendValidationErrors(req, res)) {
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const existing = await userDatabase.getWebhookSubscriptionsByUserId(userId.toString());
+      if (existing.length >= MAX_SUBSCRIPTIONS) {
+        return res.status(400).json({
+          success: false,
+          error: `You can have up to ${MAX_SUBSCRIPTIONS} webhooks`
+        });
+      }
+
+      const secret = generateWebhookSecret();
+      const subscription = await userDatabase.createWebhookSubscription({
+        user_id: userId.toString(),
+        name: req.body.name.trim(),
+        url: req.body.url.trim(),
+        events: Array.from(new Set(req.body.events)) as WebhookEvent[],
+        secret
+      });
+
+      await auditService.record({
+        userId: userId.toString(),
+        action: 'WEBHOOK_CREATED',
+        resourceId: subscription.id,
+        details: { name: subscription.name, url: subscription.url, events: subscription.events }
+      }, req);
+
+      return res.status(201).json({
+        success: true,
+        data: { ...toWebhookView(subscription), secret }
+      });
+    } catch (error: any) {
+      console.error('Failed to create webhook:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create webhook',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Deliveries that used up their retries, across all of the user's webhooks, newest first
+ */
+router.get('/dead-letters', authenticateToken, deliveryListValidation, async (req: any, res: any) => {
+  try {
+    if (sendValidationErrors(req, res)) {
+      return;
+    }
+
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const limit = parseInt(req.query.limit) || 50;
+    const offset = parseInt(req.query.offset) || 0;
+    const { deliveries, total } = await userDatabase.getWebhookDeliveriesByUserId(
+      userId.toString(),
+      { status: 'DEAD_LETTER' },
+      limit,
+      offset
+    );
+
+    return res.json({
+      success: true,
+      data: {
+        deliveries: deliveries.map(toDeliveryView),
+        total,
+        limit,
+        offset
+      }
+    });
+  } catch (error: any) {
+    console.error('Failed to get dead-lettered deliveries:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get dead-lettered deliveries',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Send a delivery again now, whatever its status
+ */
+router.post('/deliveries/:deliveryId/redeliver',
+  authenticateToken,
+  [param('deliveryId').isMongoId().withMessage('Invalid delivery ID')],
+  async (req: any, res: any) => {
+    try {
+      if (sendValidationErrors(req, res)) {
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const delivery = await userDatabase.getWebhookDeliveryById(req.params.deliveryId);
+      const subscription = delivery && delivery.user_id === userId.toString()
+        ? await getOwnSubscription(userId.toString(), delivery.subscription_id)
+        : null;
+      if (!delivery || !subscription) {
+        return res.status(404).json({
+          success: false,
+          error: 'Delivery not found'
+        });
+      }
+
+      const redelivered = await webhookService.redeliver(delivery, subscription);
+      return res.json({
+        success: redelivered.status === 'DELIVERED',
+        data: toDeliveryView(redelivered)
+      });
+    } catch (error: any) {
+      console.error('Failed to redeliver webhook:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to redeliver webhook',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Change a webhook's name, URL or events, or pause and resume it
+ */
+router.put('/:subscriptionId',
+  authenticateToken,
+  requireStepUp,
+  [subscriptionIdValidation, ...subscriptionSettingsValidation(true)],
+  async (req: any, res: any) => {
+    try {
+      if (sendValidationErrors(req, res)) {
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const subscription = await getOwnSubscription(userId.toString(), req.params.subscriptionId);
+      const updated = subscription && await userDatabase.updateWebhookSubscription(subscription.id, {
+        ...(req.body.name !== undefined && { name: req.body.name.trim() }),
+        ...(req.body.url !== undefined && { url: req.body.url.trim() }),
+        ...(req.body.events !== undefined && { events: Array.from(new Set(req.body.events)) as WebhookEvent[] }),
+        ...(req.body.isActive !== undefined && { is_active: req.body.isActive })
+      });
+      if (!updated) {
+        return res.status(404).json({
+          success: false,
+          error: 'Webhook not found'
+        });
+      }
+
+      await auditService.record({
+        userId: userId.toString(),
+        action: 'WEBHOOK_UPDATED',
+        resourceId: updated.id,
+        details: { name: updated.name, url: updated.url, events: updated.events, isActive: updated.is_active }
+      }, req);
+
+      return res.json({
+        success: true,
+        data: toWebhookView(updated)
+      });
+    } catch (error: any) {
+      console.error('Failed to update webhook:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update webhook',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Delete a webhook and its delivery log
+ */
+router.delete('/:subscriptionId', authenticateToken, [subscriptionIdValidation], async (req: any, res: any) => {
+  try {
+    if (sendValidationErrors(req, res)) {
+      return;
+    }
+
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const subscription = await getOwnSubscription(userId.toString(), req.params.subscriptionId);
+    if (!subscription || !(await userDatabase.deleteWebhookSubscription(subscription.id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook not found'
+      });
+    }
+
+    await auditService.record({
+      userId: userId.toString(),
+      action: 'WEBHOOK_DELETED',
+      resourceId: subscription.id,
+      details: { name: subscription.name, url: subscription.url }
+    }, req);
+
+    return res.json({
+      success: true,
+      message: 'Webhook deleted'
+    });
+  } catch (error: any) {
+    console.error('Failed to delete webhook:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete webhook',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Send a webhook.test event to the endpoint and report how it answered
+ */
+router.post('/:subscriptionId/test', authenticateToken, [subscriptionIdValidation], async (req: any, res: any) => {
+  try {
+    if (sendValidationErrors(req, res)) {
+      return;
+    }
+
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const subscription = await getOwnSubscription(userId.toString(), req.params.subscriptionId);
+    if (!subscription) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook not found'
+      });
+    }
+
+    const delivery = await webhookService.sendTest(subscription);
+    return res.json({
+      success: delivery.status === 'DELIVERED',
+      data: toDeliveryView(delivery)
+    });
+  } catch (error: any) {
+    console.error('Failed to send test event:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to send test event',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Delivery log of a webhook, newest first
+ */
+router.get('/:subscriptionId/deliveries',
+  authenticateToken,
+  [
+    subscriptionIdValidation,
+    query('status').optional().isIn(DELIVERY_STATUSES).withMessage(`Status must be one of ${DELIVERY_STATUSES.join(', ')}`),
+    ...deliveryListValidation
+  ],
+  async (req: any, res: any) => {
+    try {
+      if (sendValidationErrors(req, res)) {
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const subscription = await getOwnSubscription(userId.toString(), req.params.subscriptionId);
+      if (!subscription) {
+        return res.status(404).json({
+          success: false,
+          error: 'Webhook not found'
+        });
+      }
+
+      const limit = parseInt(req.query.limit) || 50;
+      const offset = parseInt(req.query.offset) || 0;
+      const { deliveries, total } = await userDatabase.getWebhookDeliveriesByUserId(
+        userId.toString(),
+        { subscriptionId: subscription.id, status: req.query.status },
+        limit,
+        offset
+      );
+
+      return res.json({
+        success: true,
+        data: {
+          deliveries: deliveries.map(toDeliveryView),
+          total,
+          limit,
+          offset
+        }
+      });
+    } catch (error: any) {
+      console.error('Failed to get webhook deliveries:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get webhook deliveries',
+        details: error.message
+      });
+    }
+  }
+);
+
+export default router;
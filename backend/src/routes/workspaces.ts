@@ -0,0 +1,725 @@
+import express from 'express';
+import { authenticateToken, requireStepUp } from '../middleware/auth';
+import { body, param, validationResult } from 'express-validator';
+import { userDatabase } from '../services/databaseCompatibility';
+import { accountAccessService } from '../services/accountAccessService';
+import { auditService } from '../services/auditService';
+import { AccountGrant, AccountPermission, Workspace, WorkspaceMember, WorkspaceRole } from '../interfaces/IDatabaseAdapter';
+
+const router = express.Router();
+
+const ROLES: WorkspaceRole[] = ['owner', 'trader', 'viewer'];
+const PERMISSIONS: AccountPermission[] = ['VIEW', 'TRADE'];
+
+const workspaceIdValidation = param('workspaceId').isMongoId().withMessage('Invalid workspace ID');
+
+const permissionsValidation = [
+  body('permissions').isArray({ min: 1 }).withMessage('Choose at least one permission'),
+  body('permissions.*').isIn(PERMISSIONS).withMessage(`Permissions must be among ${PERMISSIONS.join(', ')}`)
+];
+
+/**
+ * Load a workspace and the user's membership of it; null unless they are a member
+ */
+const getMembership = async (
+  userId: string,
+  workspaceId: string
+): Promise<{ workspace: Workspace; membership: WorkspaceMember } | null> => {
+  const [workspace, members] = await Promise.all([
+    userDatabase.getWorkspaceById(workspaceId),
+    userDatabase.getWorkspaceMembers(workspaceId)
+  ]);
+  const membership = members.find(member => member.user_id === userId);
+  return workspace && membership ? { workspace, membership } : null;
+};
+
+/**
+ * Load a grant of the workspace that is still in force
+ */
+const getActiveGrant = async (workspaceId: string, grantId: string): Promise<AccountGrant | null> => {
+  const grant = await userDatabase.getAccountGrantById(grantId);
+  return grant && grant.workspace_id === workspaceId && !grant.revoked_at ? grant : null;
+};
+
+// VIEW comes with TRADE: an account can't be traded blind
+const normalizePermissions = (permissions: AccountPermission[]): AccountPermission[] =>
+  PERMISSIONS.filter(permission => permissions.includes(permission) || (permission === 'VIEW' && permissions.includes('TRADE')));
+
+/**
+ * Grants with the account and owner they refer to, for display
+ */
+const toGrantViews = async (grants: AccountGrant[]) => {
+  const views = await Promise.all(grants.map(async grant => {
+    const [account, owner] = await Promise.all([
+      userDatabase.getConnectedAccountById(grant.account_id),
+      userDatabase.findUserById(grant.owner_id)
+    ]);
+    return account ? {
+      id: grant.id,
+      workspaceId: grant.workspace_id,
+      accountId: grant.account_id,
+      brokerName: account.broker_name,
+      brokerAccountId: account.account_id,
+      accountName: account.user_name,
+      ownerId: grant.owner_id,
+      ownerName: owner?.name || null,
+      permissions: grant.permissions,
+      grantedAt: grant.created_at
+    } : null;
+  }));
+  return views.filter(view => view !== null);
+};
+
+const sendValidationErrors = (req: any, res: any): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+  res.status(400).json({
+    success: false,
+    error: 'Validation failed',
+    details: errors.array()
+  });
+  return true;
+};
+
+/**
+ * List the workspaces the user belongs to
+ */
+router.get('/', authenticateToken, async (req: any, res: any) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const memberships = await userDatabase.getWorkspaceMembershipsByUserId(userId.toString());
+    const workspaces = await userDatabase.getWorkspacesByIds(memberships.map(member => member.workspace_id));
+    const roles = new Map(memberships.map(member => [member.workspace_id, member.role]));
+
+    return res.json({
+      success: true,
+      data: workspaces.map(workspace => ({
+        id: workspace.id,
+        name: workspace.name,
+        ownerId: workspace.owner_id,
+        role: roles.get(workspace.id),
+        createdAt: workspace.created_at
+      }))
+    });
+  } catch (error: any) {
+    console.error('Failed to get workspaces:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get workspaces',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Create a workspace; the creator becomes its owner
+ */
+router.post('/',
+  authenticateToken,
+  [body('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Name must be 1-100 characters')],
+  async (req: any, res: any) => {
+    try {
+      if (sendValidationErrors(req, res)) {
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const workspace = await userDatabase.createWorkspace({ name: req.body.name.trim(), owner_id: userId.toString() });
+      await userDatabase.addWorkspaceMember({
+        workspace_id: workspace.id,
+        user_id: userId.toString(),
+        role: 'owner',
+        added_by: userId.toString()
+      });
+
+      await auditService.record({
+        userId: userId.toString(),
+        action: 'WORKSPACE_CREATED',
+        resourceId: workspace.id,
+        details: { name: workspace.name }
+      }, req);
+
+      return res.status(201).json({
+        success: true,
+        data: {
+          id: workspace.id,
+          name: workspace.name,
+          ownerId: workspace.owner_id,
+          role: 'owner',
+          createdAt: workspace.created_at
+        }
+      });
+    } catch (error: any) {
+      console.error('Failed to create workspace:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create workspace',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Active grants on the user's own accounts, across every workspace
+ */
+router.get('/grants', authenticateToken, async (req: any, res: any) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const grants = await userDatabase.getActiveAccountGrants({ ownerId: userId.toString() });
+    const workspaces = await userDatabase.getWorkspacesByIds(Array.from(new Set(grants.map(grant => grant.workspace_id))));
+    const workspaceNames = new Map(workspaces.map(workspace => [workspace.id, workspace.name]));
+
+    const views = await toGrantViews(grants);
+    return res.json({
+      success: true,
+      data: views.map(view => ({ ...view, workspaceName: workspaceNames.get(view.workspaceId) || null }))
+    });
+  } catch (error: any) {
+    console.error('Failed to get account grants:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get account grants',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Get a workspace with its members and the accounts granted to it
+ */
+router.get('/:workspaceId', authenticateToken, [workspaceIdValidation], async (req: any, res: any) => {
+  try {
+    if (sendValidationErrors(req, res)) {
+      return;
+    }
+
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const found = await getMembership(userId.toString(), req.params.workspaceId);
+    if (!found) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workspace not found'
+      });
+    }
+
+    const { workspace, membership } = found;
+    const [members, grants] = await Promise.all([
+      userDatabase.getWorkspaceMembers(workspace.id),
+      userDatabase.getActiveAccountGrants({ workspaceIds: [workspace.id] })
+    ]);
+    const users = await Promise.all(members.map(member => userDatabase.findUserById(member.user_id)));
+
+    return res.json({
+      success: true,
+      data: {
+        id: workspace.id,
+        name: workspace.name,
+        ownerId: workspace.owner_id,
+        role: membership.role,
+        createdAt: workspace.created_at,
+        members: members.map((member, index) => ({
+          userId: member.user_id,
+          name: users[index]?.name || null,
+          email: users[index]?.email || null,
+          role: member.role,
+          addedAt: member.created_at
+        })),
+        grants: await toGrantViews(grants)
+      }
+    });
+  } catch (error: any) {
+    console.error('Failed to get workspace:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get workspace',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Add a registered user to the workspace (owners only)
+ */
+router.post('/:workspaceId/members',
+  authenticateToken,
+  [
+    workspaceIdValidation,
+    body('email').isEmail().normalizeEmail().withMessage('A valid email is required'),
+    body('role').isIn(ROLES).withMessage(`Role must be one of ${ROLES.join(', ')}`)
+  ],
+  async (req: any, res: any) => {
+    try {
+      if (sendValidationErrors(req, res)) {
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const found = await getMembership(userId.toString(), req.params.workspaceId);
+      if (!found) {
+        return res.status(404).json({
+          success: false,
+          error: 'Workspace not found'
+        });
+      }
+      if (found.membership.role !== 'owner') {
+        return res.status(403).json({
+          success: false,
+          error: 'Only workspace owners can add members'
+        });
+      }
+
+      const user = await userDatabase.findUserByEmail(req.body.email);
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: 'No user is registered with that email'
+        });
+      }
+
+      const members = await userDatabase.getWorkspaceMembers(found.workspace.id);
+      if (members.some(member => member.user_id === user.id.toString())) {
+        return res.status(409).json({
+          success: false,
+          error: 'User is already a member of this workspace'
+        });
+      }
+
+      const member = await userDatabase.addWorkspaceMember({
+        workspace_id: found.workspace.id,
+        user_id: user.id.toString(),
+        role: req.body.role,
+        added_by: userId.toString()
+      });
+
+      await auditService.record({
+        userId: userId.toString(),
+        action: 'WORKSPACE_MEMBER_ADDED',
+        resourceId: found.workspace.id,
+        details: { workspace: found.workspace.name, memberId: member.user_id, email: user.email, role: member.role }
+      }, req);
+
+      return res.status(201).json({
+        success: true,
+        data: {
+          userId: member.user_id,
+          name: user.name,
+          email: user.email,
+          role: member.role,
+          addedAt: member.created_at
+        }
+      });
+    } catch (error: any) {
+      console.error('Failed to add workspace member:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to add workspace member',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Change a member's role (owners only). The creator always stays an owner.
+ */
+router.put('/:workspaceId/members/:memberId',
+  authenticateToken,
+  [
+    workspaceIdValidation,
+    param('memberId').isMongoId().withMessage('Invalid member ID'),
+    body('role').isIn(ROLES).withMessage(`Role must be one of ${ROLES.join(', ')}`)
+  ],
+  async (req: any, res: any) => {
+    try {
+      if (sendValidationErrors(req, res)) {
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const found = await getMembership(userId.toString(), req.params.workspaceId);
+      if (!found) {
+        return res.status(404).json({
+          success: false,
+          error: 'Workspace not found'
+        });
+      }
+      if (found.membership.role !== 'owner') {
+        return res.status(403).json({
+          success: false,
+          error: 'Only workspace owners can change roles'
+        });
+      }
+      if (req.params.memberId === found.workspace.owner_id) {
+        return res.status(400).json({
+          success: false,
+          error: 'The workspace creator always remains an owner'
+        });
+      }
+
+      const member = await userDatabase.updateWorkspaceMemberRole(found.workspace.id, req.params.memberId, req.body.role);
+      if (!member) {
+        return res.status(404).json({
+          success: false,
+          error: 'Member not found'
+        });
+      }
+
+      await auditService.record({
+        userId: userId.toString(),
+        action: 'WORKSPACE_MEMBER_UPDATED',
+        resourceId: found.workspace.id,
+        details: { workspace: found.workspace.name, memberId: member.user_id, role: member.role }
+      }, req);
+
+      return res.json({
+        success: true,
+        data: {
+          userId: member.user_id,
+          role: member.role
+        }
+      });
+    } catch (error: any) {
+      console.error('Failed to update workspace member:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update workspace member',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Remove a member (owners), or leave the workspace (any member). The
+ * member's grants to the workspace end with their membership.
+ */
+router.delete('/:workspaceId/members/:memberId',
+  authenticateToken,
+  [workspaceIdValidation, param('memberId').isMongoId().withMessage('Invalid member ID')],
+  async (req: any, res: any) => {
+    try {
+      if (sendValidationErrors(req, res)) {
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const found = await getMembership(userId.toString(), req.params.workspaceId);
+      if (!found) {
+        return res.status(404).json({
+          success: false,
+          error: 'Workspace not found'
+        });
+      }
+
+      const memberId: string = req.params.memberId;
+      if (memberId !== userId.toString() && found.membership.role !== 'owner') {
+        return res.status(403).json({
+          success: false,
+          error: 'Only workspace owners can remove members'
+        });
+      }
+      if (memberId === found.workspace.owner_id) {
+        return res.status(400).json({
+          success: false,
+          error: 'The workspace creator cannot be removed'
+        });
+      }
+
+      const removed = await userDatabase.removeWorkspaceMember(found.workspace.id, memberId);
+      if (!removed) {
+        return res.status(404).json({
+          success: false,
+          error: 'Member not found'
+        });
+      }
+
+      const grants = await userDatabase.getActiveAccountGrants({ workspaceIds: [found.workspace.id], ownerId: memberId });
+      for (const grant of grants) {
+        await userDatabase.revokeAccountGrant(grant.id, userId.toString());
+      }
+
+      await auditService.record({
+        userId: userId.toString(),
+        action: 'WORKSPACE_MEMBER_REMOVED',
+        resourceId: found.workspace.id,
+        details: { workspace: found.workspace.name, memberId, revokedGrants: grants.length }
+      }, req);
+
+      return res.json({
+        success: true,
+        data: { userId: memberId, revokedGrants: grants.length }
+      });
+    } catch (error: any) {
+      console.error('Failed to remove workspace member:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to remove workspace member',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Share one of the user's own accounts with the workspace
+ */
+router.post('/:workspaceId/grants',
+  authenticateToken,
+  requireStepUp,
+  [
+    workspaceIdValidation,
+    body('accountId').isString().notEmpty().withMessage('Account ID is required'),
+    ...permissionsValidation
+  ],
+  async (req: any, res: any) => {
+    try {
+      if (sendValidationErrors(req, res)) {
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const found = await getMembership(userId.toString(), req.params.workspaceId);
+      if (!found) {
+        return res.status(404).json({
+          success: false,
+          error: 'Workspace not found'
+        });
+      }
+
+      // Only the account's owner can share it
+      const access = await accountAccessService.checkAccess(userId, req.body.accountId, 'MANAGE');
+      if (!access) {
+        return res.status(404).json({
+          success: false,
+          error: 'Account not found or access denied'
+        });
+      }
+
+      const existing = await userDatabase.getActiveAccountGrants({
+        workspaceIds: [found.workspace.id],
+        accountId: access.account.id.toString()
+      });
+      if (existing.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: 'This account is already shared with the workspace'
+        });
+      }
+
+      const grant = await userDatabase.createAccountGrant({
+        workspace_id: found.workspace.id,
+        account_id: access.account.id.toString(),
+        owner_id: userId.toString(),
+        permissions: normalizePermissions(req.body.permissions)
+      });
+
+      await auditService.record({
+        userId: userId.toString(),
+        action: 'ACCOUNT_ACCESS_GRANTED',
+        accountId: grant.account_id,
+        brokerName: access.account.broker_name,
+        resourceId: grant.id,
+        details: { workspaceId: found.workspace.id, workspace: found.workspace.name, permissions: grant.permissions }
+      }, req);
+
+      const [view] = await toGrantViews([grant]);
+      return res.status(201).json({
+        success: true,
+        data: view
+      });
+    } catch (error: any) {
+      console.error('Failed to grant account access:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to grant account access',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Change what the workspace may do with a shared account (account owner only)
+ */
+router.put('/:workspaceId/grants/:grantId',
+  authenticateToken,
+  requireStepUp,
+  [
+    workspaceIdValidation,
+    param('grantId').isMongoId().withMessage('Invalid grant ID'),
+    ...permissionsValidation
+  ],
+  async (req: any, res: any) => {
+    try {
+      if (sendValidationErrors(req, res)) {
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const grant = await getActiveGrant(req.params.workspaceId, req.params.grantId);
+      if (!grant || grant.owner_id !== userId.toString()) {
+        return res.status(404).json({
+          success: false,
+          error: 'Grant not found'
+        });
+      }
+
+      const updated = await userDatabase.updateAccountGrantPermissions(grant.id, normalizePermissions(req.body.permissions));
+      if (!updated) {
+        return res.status(404).json({
+          success: false,
+          error: 'Grant not found'
+        });
+      }
+
+      await auditService.record({
+        userId: userId.toString(),
+        action: 'ACCOUNT_ACCESS_UPDATED',
+        accountId: updated.account_id,
+        resourceId: updated.id,
+        details: { workspaceId: updated.workspace_id, previousPermissions: grant.permissions, permissions: updated.permissions }
+      }, req);
+
+      const [view] = await toGrantViews([updated]);
+      return res.json({
+        success: true,
+        data: view
+      });
+    } catch (error: any) {
+      console.error('Failed to update account grant:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update account grant',
+        details: error.message
+      });
+    }
+  }
+);
+
+/**
+ * Stop sharing an account. The account's owner or a workspace owner can revoke.
+ */
+router.delete('/:workspaceId/grants/:grantId',
+  authenticateToken,
+  [workspaceIdValidation, param('grantId').isMongoId().withMessage('Invalid grant ID')],
+  async (req: any, res: any) => {
+    try {
+      if (sendValidationErrors(req, res)) {
+        return;
+      }
+
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: 'User not authenticated'
+        });
+      }
+
+      const grant = await getActiveGrant(req.params.workspaceId, req.params.grantId);
+      const isAccountOwner = grant?.owner_id === userId.toString();
+      const found = grant && !isAccountOwner ? await getMembership(userId.toString(), grant.workspace_id) : null;
+      if (!grant || (!isAccountOwner && found?.membership.role !== 'owner')) {
+        return res.status(404).json({
+          success: false,
+          error: 'Grant not found'
+        });
+      }
+
+      await userDatabase.revokeAccountGrant(grant.id, userId.toString());
+
+      // The event belongs to the account's owner, whoever revoked it
+      await auditService.record({
+        userId: grant.owner_id,
+        action: 'ACCOUNT_ACCESS_REVOKED',
+        accountId: grant.account_id,
+        resourceId: grant.id,
+        details: {
+          workspaceId: grant.workspace_id,
+          permissions: grant.permissions,
+          ...(!isAccountOwner && { actedBy: userId.toString() })
+        }
+      }, req);
+
+      return res.json({
+        success: true,
+        data: { id: grant.id }
+      });
+    } catch (error: any) {
+      console.error('Failed to revoke account grant:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to revoke account grant',
+        details: error.message
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,157 @@
+/**
+ * Account Access Service
+ * Decides what a user may do with a connected account. Owners have full
+ * control of their own accounts; anyone else only reaches an account through
+ * a workspace its owner granted it to, limited by both the grant's
+ * permissions and their role in that workspace.
+ */
+
+import { userDatabase } from './databaseCompatibility';
+import {
+  AccountGrant,
+  AccountPermission,
+  ConnectedAccount,
+  WorkspaceMember,
+  WorkspaceRole
+} from '../interfaces/IDatabaseAdapter';
+
+// MANAGE covers the account's settings, connection and removal and is never delegated
+export type AccountAccessLevel = AccountPermission | 'MANAGE';
+
+// What each role may do with the accounts granted to its workspace
+export const ROLE_PERMISSIONS: Record<WorkspaceRole, AccountPermission[]> = {
+  owner: ['VIEW', 'TRADE'],
+  trader: ['VIEW', 'TRADE'],
+  viewer: ['VIEW']
+};
+
+const OWNER_PERMISSIONS: AccountAccessLevel[] = ['VIEW', 'TRADE', 'MANAGE'];
+
+export interface DelegatedAccess {
+  workspaceId: string;
+  grantId: string;
+  role: WorkspaceRole;
+  permissions: AccountPermission[];
+}
+
+export interface AccountAccess {
+  account: ConnectedAccount;
+  ownerId: string;
+  isOwner: boolean;
+  permissions: AccountAccessLevel[];
+  via: DelegatedAccess[]; // the grants a non-owner reaches the account through
+}
+
+/**
+ * Permissions a workspace member holds on an account through its grants:
+ * each grant counts only in workspaces the member belongs to, capped by the
+ * member's role there
+ */
+export function resolveDelegatedAccess(
+  ownerId: string,
+  grants: AccountGrant[],
+  memberships: WorkspaceMember[]
+): DelegatedAccess[] {
+  const roles = new Map(memberships.map(member => [member.workspace_id, member.role]));
+
+  return grants.flatMap(grant => {
+    const role = roles.get(grant.workspace_id);
+    // Only the account's owner can share it
+    if (!role || grant.revoked_at || grant.owner_id !== ownerId) {
+      return [];
+    }
+    const permissions = grant.permissions.filter(permission => ROLE_PERMISSIONS[role].includes(permission));
+    return permissions.length > 0
+      ? [{ workspaceId: grant.workspace_id, grantId: grant.id, role, permissions }]
+      : [];
+  });
+}
+
+class AccountAccessService {
+  /**
+   * The user's access to an account, or null when they have none
+   */
+  async getAccountAccess(userId: number | string, accountId: string): Promise<AccountAccess | null> {
+    const account = await userDatabase.getConnectedAccountById(accountId);
+    if (!account) {
+      return null;
+    }
+
+    const ownerId = account.user_id.toString();
+    if (ownerId === userId.toString()) {
+      return { account, ownerId, isOwner: true, permissions: OWNER_PERMISSIONS, via: [] };
+    }
+
+    const grants = await userDatabase.getActiveAccountGrants({ accountId: account.id.toString() });
+    if (grants.length === 0) {
+      return null;
+    }
+
+    const memberships = await userDatabase.getWorkspaceMembershipsByUserId(userId.toString());
+    return this.toDelegatedAccess(account, resolveDelegatedAccess(ownerId, grants, memberships));
+  }
+
+  /**
+   * Access check for a single permission; null when the user lacks it
+   */
+  async checkAccess(userId: number | string, accountId: string, permission: AccountAccessLevel): Promise<AccountAccess | null> {
+    const access = await this.getAccountAccess(userId, accountId);
+    return access && access.permissions.includes(permission) ? access : null;
+  }
+
+  /**
+   * The user's own accounts followed by those shared with them through their workspaces
+   */
+  async getAccessibleAccounts(userId: number | string): Promise<AccountAccess[]> {
+    const [ownAccounts, memberships] = await Promise.all([
+      userDatabase.getConnectedAccountsByUserId(userId),
+      userDatabase.getWorkspaceMembershipsByUserId(userId.toString())
+    ]);
+
+    const accesses: AccountAccess[] = ownAccounts.map(account => ({
+      account,
+      ownerId: account.user_id.toString(),
+      isOwner: true,
+      permissions: OWNER_PERMISSIONS,
+      via: []
+    }));
+    if (memberships.length === 0) {
+      return accesses;
+    }
+
+    const ownAccountIds = new Set(ownAccounts.map(account => account.id.toString()));
+    const grants = await userDatabase.getActiveAccountGrants({
+      workspaceIds: memberships.map(member => member.workspace_id)
+    });
+
+    const grantsByAccount = new Map<string, AccountGrant[]>();
+    for (const grant of grants) {
+      if (!ownAccountIds.has(grant.account_id)) {
+        grantsByAccount.set(grant.account_id, [...(grantsByAccount.get(grant.account_id) || []), grant]);
+      }
+    }
+
+    for (const [accountId, accountGrants] of grantsByAccount) {
+      const account = await userDatabase.getConnectedAccountById(accountId);
+      if (!account) {
+        continue;
+      }
+      const access = this.toDelegatedAccess(account, resolveDelegatedAccess(account.user_id.toString(), accountGrants, memberships));
+      if (access) {
+        accesses.push(access);
+      }
+    }
+
+    return accesses;
+  }
+
+  private toDelegatedAccess(account: ConnectedAccount, via: DelegatedAccess[]): AccountAccess | null {
+    if (via.length === 0) {
+      return null;
+    }
+    const permissions = Array.from(new Set(via.flatMap(access => access.permissions)));
+    return { account, ownerId: account.user_id.toString(), isOwner: false, permissions, via };
+  }
+}
+
+export const accountAccessService = new AccountAccessService();
@@ -0,0 +1,635 @@
+/**
+ * Advanced Order Engine
+ * Server-side execution of bracket, iceberg, trailing-stop and conditional
+ * orders. Each tick it checks broker fills of placed legs, watches market
+ * prices for held exit legs, trailing stops and conditions, and places child
+ * orders linked by order_group_id.
+ */
+
+import { logger } from '../utils/logger';
+import { userDatabase } from './databaseCompatibility';
+import { enhancedUnifiedBrokerManager } from './enhancedUnifiedBrokerManager';
+import { marketDataService } from './marketDataService';
+import { realTimeDataService } from './realTimeDataService';
+import websocketService from './websocketService';
+import { marketClockService } from './marketClockService';
+import { accountAccessService } from './accountAccessService';
+import {
+  BaseOrderRequest,
+  ensureAccountActive,
+  placeOrderOnAccount,
+  placeSizedOrderOnAccounts
+} from './orderPlacementService';
+import { AdvancedOrder, UpdateAdvancedOrderData } from '../interfaces/IDatabaseAdapter';
+import { MasterOrderSnapshot, normalizeMasterOrderBook } from '../utils/masterOrderNormalizer';
+import { getSegmentForExchange } from '../utils/tradingCalendar';
+import {
+  computeTrailingStop,
+  isConditionMet,
+  isOrderExpired,
+  isStopTriggered,
+  isTargetReached,
+  nextIcebergSliceQuantity,
+  toProductType
+} from '../utils/advancedOrderRules';
+
+const OPEN_STATUSES: AdvancedOrder['status'][] = ['PENDING', 'ACTIVE', 'TRIGGERED'];
+
+interface Quote {
+  price: number;
+  volume: number;
+}
+
+// Per-tick caches so each account's order book and each symbol's quote is fetched once
+interface TickContext {
+  now: Date;
+  orderBooks: Map<string, Map<string, MasterOrderSnapshot> | null>;
+  quotes: Map<string, Quote | null>;
+  settled: Set<string>; // orders already changed during this tick
+}
+
+export class AdvancedOrderEngine {
+  private tickInterval: NodeJS.Timeout | null = null;
+  private isTicking: boolean = false;
+  private readonly TICK_INTERVAL = 3000; // 3 seconds
+  private readonly LIVE_PRICE_MAX_AGE = 10000; // streamed prices older than this are refetched
+
+  /**
+   * Start the execution loop
+   */
+  start(): void {
+    if (this.tickInterval) {
+      return;
+    }
+
+    this.tickInterval = setInterval(() => {
+      this.tick().catch(error => {
+        logger.error('Advanced order engine tick failed', {
+          component: 'ADVANCED_ORDERS',
+          operation: 'TICK'
+        }, error);
+      });
+    }, this.TICK_INTERVAL);
+
+    logger.info('Advanced order engine started', {
+      component: 'ADVANCED_ORDERS',
+      operation: 'START',
+      tickInterval: this.TICK_INTERVAL
+    });
+  }
+
+  /**
+   * Stop the execution loop
+   */
+  stop(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+
+    logger.info('Advanced order engine stopped', {
+      component: 'ADVANCED_ORDERS',
+      operation: 'STOP'
+    });
+  }
+
+  isRunning(): boolean {
+    return this.tickInterval !== null;
+  }
+
+  /**
+   * Process every open advanced order once
+   */
+  async tick(): Promise<void> {
+    // Skip if the previous tick is still running
+    if (this.isTicking) {
+      return;
+    }
+
+    this.isTicking = true;
+    try {
+      const openOrders = await userDatabase.getOpenAdvancedOrders();
+      if (openOrders.length === 0) {
+        return;
+      }
+
+      const ctx: TickContext = {
+        now: new Date(),
+        orderBooks: new Map(),
+        quotes: new Map(),
+        settled: new Set()
+      };
+
+      for (const order of openOrders) {
+        if (ctx.settled.has(order.id)) {
+          continue;
+        }
+
+        try {
+          await this.processOrder(order, ctx);
+        } catch (error) {
+          logger.error('Failed to process advanced order', {
+            component: 'ADVANCED_ORDERS',
+            operation: 'PROCESS_ORDER',
+            userId: order.user_id,
+            orderId: order.id
+          }, error);
+        }
+      }
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Cancel an order and every open leg that depends on it, including the
+   * other order of a conditional OCO pair. Legs already placed with the
+   * broker are cancelled there as well.
+   */
+  async cancelOrder(order: AdvancedOrder, reason: string): Promise<boolean> {
+    if (!OPEN_STATUSES.includes(order.status)) {
+      return false;
+    }
+
+    const dependents = order.order_group_id
+      ? (await userDatabase.getAdvancedOrdersByGroupId(order.order_group_id))
+        .filter(leg => leg.id !== order.id && OPEN_STATUSES.includes(leg.status))
+        .filter(leg => leg.parent_order_id === order.id || (!!order.condition_type && !!leg.condition_type))
+      : [];
+
+    for (const leg of [order, ...dependents]) {
+      if (leg.broker_order_id) {
+        await this.cancelBrokerOrder(leg);
+      }
+
+      await this.updateOrder(leg, { status: 'CANCELLED', error_message: reason });
+      await userDatabase.createOrderModification({
+        user_id: leg.user_id,
+        order_id: leg.id,
+        ...(leg.broker_order_id && { broker_order_id: leg.broker_order_id }),
+        modification_type: 'CANCEL',
+        status: 'SUCCESS'
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Advance a single order through its state machine
+   */
+  private async processOrder(order: AdvancedOrder, ctx: TickContext): Promise<void> {
+    // Triggered legs are already on their way out - only expire orders still waiting
+    if (order.status !== 'TRIGGERED' && isOrderExpired(order, ctx.now)) {
+      await this.expireOrder(order, ctx);
+      return;
+    }
+
+    // Legs placed with the broker: wait for the fill
+    if (order.broker_order_id && (order.status === 'ACTIVE' || order.status === 'TRIGGERED')) {
+      await this.checkBrokerFill(order, ctx);
+      return;
+    }
+
+    // Placing legs and watching prices need a live session: outside it quotes
+    // are stale and brokers reject regular orders
+    if (!marketClockService.isOpen(getSegmentForExchange(order.exchange), ctx.now)) {
+      return;
+    }
+
+    if (order.status === 'PENDING' && order.leg === 'ENTRY') {
+      await this.placeLeg(order, { orderType: 'LIMIT', price: order.price }, 'ACTIVE', ctx);
+      return;
+    }
+
+    if (order.status !== 'ACTIVE') {
+      // Exit legs stay PENDING until their entry fills
+      return;
+    }
+
+    if (order.condition_type) {
+      await this.watchCondition(order, ctx);
+    } else if (order.leg === 'STOP_LOSS' || order.leg === 'TAKE_PROFIT') {
+      await this.watchBracketExit(order, ctx);
+    } else if (order.order_type === 'ICEBERG') {
+      await this.manageIceberg(order, ctx);
+    } else if (order.order_type === 'TRAILING_SL') {
+      await this.manageTrailingStop(order, ctx);
+    }
+  }
+
+  /**
+   * Compare a placed leg with the account's order book
+   */
+  private async checkBrokerFill(order: AdvancedOrder, ctx: TickContext): Promise<void> {
+    const orderBook = await this.getOrderBook(order, ctx);
+    const snapshot = orderBook?.get(order.broker_order_id!);
+    if (!snapshot) {
+      return;
+    }
+
+    if (snapshot.state === 'FILLED') {
+      await this.onLegFilled(order, ctx);
+    } else if (snapshot.state === 'CANCELLED' || snapshot.state === 'REJECTED') {
+      await this.onLegFailed(order, `Broker order ${snapshot.state.toLowerCase()}`, ctx);
+    }
+  }
+
+  private async onLegFilled(order: AdvancedOrder, ctx: TickContext): Promise<void> {
+    await this.updateOrder(order, { status: 'EXECUTED', executed_at: ctx.now.toISOString() }, ctx);
+
+    if (order.leg === 'ENTRY' && order.order_group_id) {
+      // Entry filled - arm the stop loss and take profit legs
+      const exitLegs = (await userDatabase.getAdvancedOrdersByGroupId(order.order_group_id))
+        .filter(leg => leg.parent_order_id === order.id && leg.status === 'PENDING');
+      for (const leg of exitLegs) {
+        await this.updateOrder(leg, { status: 'ACTIVE' }, ctx);
+      }
+    } else if (order.leg === 'SLICE' && order.parent_order_id) {
+      const parent = await userDatabase.getAdvancedOrderById(order.parent_order_id);
+      if (!parent || !OPEN_STATUSES.includes(parent.status)) {
+        return;
+      }
+
+      const executed = parent.iceberg_executed + order.quantity;
+      await this.updateOrder(parent, {
+        iceberg_executed: executed,
+        ...(executed >= parent.quantity && { status: 'EXECUTED', executed_at: ctx.now.toISOString() })
+      }, ctx);
+    }
+  }
+
+  private async onLegFailed(order: AdvancedOrder, reason: string, ctx: TickContext): Promise<void> {
+    await this.updateOrder(order, { status: 'CANCELLED', error_message: reason }, ctx);
+
+    if (order.leg === 'ENTRY' && order.order_group_id) {
+      const exitLegs = (await userDatabase.getAdvancedOrdersByGroupId(order.order_group_id))
+        .filter(leg => leg.parent_order_id === order.id && OPEN_STATUSES.includes(leg.status));
+      for (const leg of exitLegs) {
+        await this.updateOrder(leg, { status: 'CANCELLED', error_message: 'Entry order did not fill' }, ctx);
+      }
+    } else if (order.leg === 'SLICE' && order.parent_order_id) {
+      // Stop slicing once a slice fails
+      const parent = await userDatabase.getAdvancedOrderById(order.parent_order_id);
+      if (parent && OPEN_STATUSES.includes(parent.status)) {
+        await this.updateOrder(parent, { status: 'CANCELLED', error_message: `Slice failed: ${reason}` }, ctx);
+      }
+    }
+  }
+
+  /**
+   * Bracket exit legs are held server-side. The first one whose level is
+   * crossed is sent to the broker and its sibling is cancelled (one-cancels-other).
+   */
+  private async watchBracketExit(order: AdvancedOrder, ctx: TickContext): Promise<void> {
+    const lastPrice = await this.getLastPrice(order, ctx);
+    if (!lastPrice) {
+      return;
+    }
+
+    const hit = order.leg === 'STOP_LOSS'
+      ? isStopTriggered(order.action, order.trigger_price!, lastPrice)
+      : isTargetReached(order.action, order.price!, lastPrice);
+    if (!hit) {
+      return;
+    }
+
+    const placed = order.leg === 'STOP_LOSS'
+      ? await this.placeLeg(order, { orderType: 'MARKET' }, 'TRIGGERED', ctx)
+      : await this.placeLeg(order, { orderType: 'LIMIT', price: order.price }, 'TRIGGERED', ctx);
+
+    if (placed && order.order_group_id) {
+      const siblings = (await userDatabase.getAdvancedOrdersByGroupId(order.order_group_id))
+        .filter(leg => leg.id !== order.id && leg.parent_order_id === order.parent_order_id && OPEN_STATUSES.includes(leg.status));
+      const label = order.leg === 'STOP_LOSS' ? 'stop loss' : 'take profit';
+      for (const sibling of siblings) {
+        await this.updateOrder(sibling, { status: 'CANCELLED', error_message: `Cancelled because ${label} triggered` }, ctx);
+      }
+    }
+  }
+
+  /**
+   * Conditional and scheduled orders are held server-side until their price,
+   * volume or time condition is met, then placed on every account they were
+   * created for. The other order of a one-cancels-other pair is cancelled.
+   */
+  private async watchCondition(order: AdvancedOrder, ctx: TickContext): Promise<void> {
+    const quote = order.condition_type === 'TIME_BASED' ? null : await this.getQuote(order, ctx);
+    const met = isConditionMet(order, { lastPrice: quote?.price, volume: quote?.volume }, ctx.now);
+    if (!met) {
+      return;
+    }
+
+    const accountIds = order.account_ids && order.account_ids.length > 0 ? order.account_ids : [order.account_id];
+    // Accounts shared through a workspace only while the grant still lets the user trade them
+    const accounts = (await Promise.all(accountIds.map(accountId => this.getTradableAccount(order.user_id, accountId))))
+      .filter(account => account !== null);
+    if (accounts.length === 0) {
+      await this.updateOrder(order, { status: 'CANCELLED', error_message: 'Trading accounts not found' }, ctx);
+      return;
+    }
+
+    const orderRequest: BaseOrderRequest = {
+      symbol: order.symbol,
+      action: order.action,
+      quantity: order.quantity,
+      orderType: order.order_type === 'LIMIT' ? 'LIMIT' : 'MARKET',
+      ...(order.order_type === 'LIMIT' && { price: order.price }),
+      exchange: order.exchange,
+      productType: toProductType(order.product_type),
+      validity: 'DAY',
+      remarks: `${order.condition_type === 'TIME_BASED' ? 'Scheduled' : 'Conditional'} order ${order.id}`
+    };
+
+    const { successfulOrders, failedOrders } = await placeSizedOrderOnAccounts(
+      order.user_id, accounts, orderRequest, { source: 'ADVANCED_ORDER' }
+    );
+
+    // The condition is spent either way; fills are tracked in order history per account
+    const summary = `Placed on ${successfulOrders.length} of ${accounts.length} accounts`;
+    const firstPlaced = successfulOrders[0];
+    if (firstPlaced) {
+      await this.updateOrder(order, {
+        status: 'EXECUTED',
+        executed_at: ctx.now.toISOString(),
+        remarks: summary,
+        ...(firstPlaced.orderId && { broker_order_id: firstPlaced.orderId }),
+        ...(firstPlaced.orderHistoryId && { order_history_id: firstPlaced.orderHistoryId }),
+        ...(failedOrders.length > 0 && {
+          error_message: failedOrders.map(failed => `${failed.accountDisplayName}: ${failed.error}`).join('; ')
+        })
+      }, ctx);
+    } else {
+      await this.updateOrder(order, {
+        status: 'CANCELLED',
+        remarks: summary,
+        error_message: failedOrders.map(failed => `${failed.accountDisplayName}: ${failed.error}`).join('; ') || 'Order placement failed'
+      }, ctx);
+    }
+
+    logger.info('Conditional order triggered', {
+      component: 'ADVANCED_ORDERS',
+      operation: 'TRIGGER_CONDITION',
+      userId: order.user_id,
+      orderId: order.id,
+      condition: order.condition_type,
+      successful: successfulOrders.length,
+      failed: failedOrders.length
+    });
+
+    if (order.order_group_id) {
+      const siblings = (await userDatabase.getAdvancedOrdersByGroupId(order.order_group_id))
+        .filter(other => other.id !== order.id && other.condition_type && OPEN_STATUSES.includes(other.status));
+      for (const sibling of siblings) {
+        await this.updateOrder(sibling, { status: 'CANCELLED', error_message: 'Cancelled because the other order of the pair triggered' }, ctx);
+      }
+    }
+  }
+
+  /**
+   * Keep exactly one slice of an iceberg order working at the broker
+   */
+  private async manageIceberg(order: AdvancedOrder, ctx: TickContext): Promise<void> {
+    const groupOrders = order.order_group_id ? await userDatabase.getAdvancedOrdersByGroupId(order.order_group_id) : [];
+    const workingSlice = groupOrders.find(leg => leg.parent_order_id === order.id && OPEN_STATUSES.includes(leg.status));
+    if (workingSlice) {
+      return;
+    }
+
+    const sliceQuantity = nextIcebergSliceQuantity(order.quantity, order.iceberg_executed, order.iceberg_quantity || order.quantity);
+    if (sliceQuantity <= 0) {
+      await this.updateOrder(order, { status: 'EXECUTED', executed_at: ctx.now.toISOString() }, ctx);
+      return;
+    }
+
+    const slice = await userDatabase.createAdvancedOrder({
+      user_id: order.user_id,
+      account_id: order.account_id,
+      parent_order_id: order.id,
+      ...(order.order_group_id && { order_group_id: order.order_group_id }),
+      leg: 'SLICE',
+      symbol: order.symbol,
+      action: order.action,
+      quantity: sliceQuantity,
+      order_type: 'LIMIT',
+      ...(order.price !== undefined && { price: order.price }),
+      status: 'PENDING',
+      exchange: order.exchange,
+      product_type: order.product_type,
+      validity: order.validity,
+      iceberg_executed: 0,
+      is_bracket_order: false
+    });
+
+    await this.placeLeg(slice, { orderType: 'LIMIT', price: order.price }, 'ACTIVE', ctx);
+  }
+
+  /**
+   * Ratchet the stop with the price and fire a market order once it is hit
+   */
+  private async manageTrailingStop(order: AdvancedOrder, ctx: TickContext): Promise<void> {
+    const lastPrice = await this.getLastPrice(order, ctx);
+    if (!lastPrice) {
+      return;
+    }
+
+    const currentStop = order.trail_trigger_price ?? order.trigger_price ?? 0;
+
+    if (isStopTriggered(order.action, currentStop, lastPrice)) {
+      await this.placeLeg(order, { orderType: 'MARKET' }, 'TRIGGERED', ctx);
+      return;
+    }
+
+    const newStop = computeTrailingStop(order, currentStop, lastPrice);
+    if (newStop === currentStop) {
+      return;
+    }
+
+    await this.updateOrder(order, { trail_trigger_price: newStop }, ctx);
+    await userDatabase.createOrderModification({
+      user_id: order.user_id,
+      order_id: order.id,
+      modification_type: 'TRIGGER_PRICE',
+      old_value: currentStop,
+      new_value: newStop,
+      status: 'SUCCESS'
+    });
+  }
+
+  /**
+   * Send a leg to the broker through the shared order placement flow
+   */
+  private async placeLeg(
+    order: AdvancedOrder,
+    overrides: Pick<BaseOrderRequest, 'orderType'> & Partial<BaseOrderRequest>,
+    nextStatus: AdvancedOrder['status'],
+    ctx: TickContext
+  ): Promise<boolean> {
+    const account = await this.getTradableAccount(order.user_id, order.account_id);
+    if (!account) {
+      await this.onLegFailed(order, 'Trading account not found', ctx);
+      return false;
+    }
+
+    const orderRequest: BaseOrderRequest = {
+      symbol: order.symbol,
+      action: order.action,
+      quantity: order.quantity,
+      exchange: order.exchange,
+      productType: toProductType(order.product_type),
+      validity: 'DAY',
+      remarks: `Advanced ${order.leg || order.order_type} order ${order.order_group_id || order.id}`,
+      ...overrides
+    };
+
+    const { success, result } = await placeOrderOnAccount(order.user_id, account, orderRequest, { source: 'ADVANCED_ORDER' });
+
+    if (!success || !result.orderId) {
+      await this.onLegFailed(order, result.error || 'Order placement failed', ctx);
+      return false;
+    }
+
+    await this.updateOrder(order, {
+      status: nextStatus,
+      broker_order_id: result.orderId,
+      ...(result.orderHistoryId && { order_history_id: result.orderHistoryId })
+    }, ctx);
+
+    logger.info('Advanced order leg placed', {
+      component: 'ADVANCED_ORDERS',
+      operation: 'PLACE_LEG',
+      userId: order.user_id,
+      accountId: account.account_id,
+      orderId: result.orderId,
+      leg: order.leg || order.order_type
+    });
+
+    return true;
+  }
+
+  private async expireOrder(order: AdvancedOrder, ctx: TickContext): Promise<void> {
+    if (order.broker_order_id) {
+      await this.cancelBrokerOrder(order);
+    }
+    await this.updateOrder(order, { status: 'EXPIRED', error_message: `${order.validity} validity ended` }, ctx);
+  }
+
+  private async cancelBrokerOrder(order: AdvancedOrder): Promise<void> {
+    try {
+      const brokerService = await this.getBrokerService(order.user_id, order.account_id);
+      if (!brokerService) {
+        return;
+      }
+
+      const cancelResult = await brokerService.cancelOrder(order.broker_order_id!);
+      if (!cancelResult?.success) {
+        logger.warn('Broker rejected advanced order cancellation', {
+          component: 'ADVANCED_ORDERS',
+          operation: 'CANCEL_ORDER',
+          orderId: order.broker_order_id,
+          message: cancelResult?.message
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to cancel advanced order leg at broker', {
+        component: 'ADVANCED_ORDERS',
+        operation: 'CANCEL_ORDER',
+        orderId: order.broker_order_id
+      }, error);
+    }
+  }
+
+  private async updateOrder(order: AdvancedOrder, updates: UpdateAdvancedOrderData, ctx?: TickContext): Promise<void> {
+    const updatedOrder = await userDatabase.updateAdvancedOrder(order.id, updates);
+    ctx?.settled.add(order.id);
+
+    if (updatedOrder) {
+      websocketService.sendToUser(order.user_id, 'advancedOrderUpdate', {
+        order: updatedOrder,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  private async getOrderBook(order: AdvancedOrder, ctx: TickContext): Promise<Map<string, MasterOrderSnapshot> | null> {
+    if (ctx.orderBooks.has(order.account_id)) {
+      return ctx.orderBooks.get(order.account_id)!;
+    }
+
+    let orderBook: Map<string, MasterOrderSnapshot> | null = null;
+    try {
+      const account = await this.getTradableAccount(order.user_id, order.account_id);
+      const brokerService = account
+        ? enhancedUnifiedBrokerManager.getBrokerService(account.user_id.toString(), account.broker_name, account.account_id)
+        : null;
+      if (account && brokerService) {
+        const rawOrderBook = await brokerService.getOrderHistory(account.account_id);
+        const orders = normalizeMasterOrderBook(account.broker_name, rawOrderBook);
+        orderBook = new Map(orders.map(snapshot => [snapshot.brokerOrderId, snapshot]));
+      }
+    } catch (error) {
+      logger.error('Failed to fetch order book for advanced orders', {
+        component: 'ADVANCED_ORDERS',
+        operation: 'GET_ORDER_BOOK',
+        accountId: order.account_id
+      }, error);
+    }
+
+    ctx.orderBooks.set(order.account_id, orderBook);
+    return orderBook;
+  }
+
+  private async getLastPrice(order: AdvancedOrder, ctx: TickContext): Promise<number | null> {
+    const quote = await this.getQuote(order, ctx);
+    return quote?.price || null;
+  }
+
+  /**
+   * Latest price and day volume, from the live feed when it is streaming the symbol
+   */
+  private async getQuote(order: AdvancedOrder, ctx: TickContext): Promise<Quote | null> {
+    const symbol = order.symbol.replace(/-EQ$/i, '');
+    const key = `${order.exchange}:${symbol}`;
+    if (ctx.quotes.has(key)) {
+      return ctx.quotes.get(key)!;
+    }
+
+    let quote: Quote | null = realTimeDataService.getLatestPrice(symbol, order.exchange, this.LIVE_PRICE_MAX_AGE);
+    if (!quote) {
+      try {
+        quote = await marketDataService.getPrice(symbol, order.exchange);
+      } catch (error) {
+        logger.warn('Failed to get price for advanced order', {
+          component: 'ADVANCED_ORDERS',
+          operation: 'GET_PRICE',
+          symbol: order.symbol
+        });
+      }
+    }
+
+    ctx.quotes.set(key, quote);
+    return quote;
+  }
+
+  private async getTradableAccount(userId: string, accountId: string) {
+    return (await accountAccessService.checkAccess(userId, accountId, 'TRADE'))?.account || null;
+  }
+
+  // Broker connections belong to the account's owner
+  private async getBrokerService(userId: string, accountId: string) {
+    const account = await this.getTradableAccount(userId, accountId);
+    if (!account) {
+      return null;
+    }
+    const ownerId = account.user_id.toString();
+
+    const isAccountActive = await ensureAccountActive(ownerId, accountId);
+    if (!isAccountActive) {
+      return null;
+    }
+
+    return enhancedUnifiedBrokerManager.getBrokerService(ownerId, account.broker_name, account.account_id);
+  }
+}
+
+export const advancedOrderEngine = new AdvancedOrderEngine();
@@ -1,79 +1,27 @@
-// TODO: Reimplement with MongoDB adapter methods
-// import { userDatabase } from './databaseCompatibility';
+import { userDatabase } from './databaseCompatibility';
+import { advancedOrderEngine } from './advancedOrderEngine';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  OrderTemplate,
+  AdvancedOrder,
+  OrderModification,
+  CreateOrderTemplateData,
+  UpdateOrderTemplateData,
+  CreateOrderModificationData,
+  AdvancedOrderStatus,
+  AdvancedOrderConditionType
+} from '../interfaces/IDatabaseAdapter';
+import { getNextScheduledTime, oppositeAction } from '../utils/advancedOrderRules';
+import { getSegmentForExchange } from '../utils/tradingCalendar';
+import { marketClockService } from './marketClockService';
 
-export interface OrderTemplate {
-  id?: number;
-  user_id: number;
-  name: string;
-  description?: string;
-  symbol: string;
-  action: 'BUY' | 'SELL';
-  quantity: number;
-  order_type: 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET' | 'BRACKET' | 'COVER' | 'ICEBERG' | 'TRAILING_SL';
-  price?: number;
-  trigger_price?: number;
-  stop_loss?: number;
-  take_profit?: number;
-  exchange: string;
-  product_type: string;
-  validity: 'DAY' | 'IOC' | 'GTD';
-  iceberg_quantity?: number;
-  trail_amount?: number;
-  trail_percent?: number;
-  is_active: boolean;
-  created_at?: string;
-  updated_at?: string;
-}
-
-export interface AdvancedOrder {
-  id?: number;
-  user_id: number;
-  parent_order_id?: number;
-  order_group_id?: string;
-  symbol: string;
-  action: 'BUY' | 'SELL';
-  quantity: number;
-  order_type: 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET' | 'BRACKET' | 'COVER' | 'ICEBERG' | 'TRAILING_SL';
-  price?: number;
-  trigger_price?: number;
-  stop_loss?: number;
-  take_profit?: number;
-  status: 'PENDING' | 'ACTIVE' | 'TRIGGERED' | 'EXECUTED' | 'CANCELLED' | 'EXPIRED';
-  exchange: string;
-  product_type: string;
-  validity: 'DAY' | 'IOC' | 'GTD';
-  expiry_date?: string;
-  iceberg_quantity?: number;
-  iceberg_executed: number;
-  trail_amount?: number;
-  trail_percent?: number;
-  trail_trigger_price?: number;
-  condition_type?: 'PRICE_ABOVE' | 'PRICE_BELOW' | 'TIME_BASED' | 'VOLUME_BASED';
-  condition_value?: number;
-  is_bracket_order: boolean;
-  bracket_stop_loss?: number;
-  bracket_take_profit?: number;
-  remarks?: string;
-  created_at?: string;
-  updated_at?: string;
-  executed_at?: string;
-}
+const DEFAULT_CONDITIONAL_VALIDITY_DAYS = 365;
+const SCHEDULE_GRACE_MS = 5 * 60 * 1000; // a scheduled order still fires if the engine was briefly down
 
-export interface OrderModification {
-  id?: number;
-  user_id: number;
-  order_id: number;
-  broker_order_id: string;
-  modification_type: 'PRICE' | 'QUANTITY' | 'TRIGGER_PRICE' | 'STOP_LOSS' | 'TAKE_PROFIT' | 'CANCEL';
-  old_value?: number;
-  new_value?: number;
-  status: 'PENDING' | 'SUCCESS' | 'FAILED';
-  error_message?: string;
-  created_at?: string;
-}
+export type { OrderTemplate, AdvancedOrder, OrderModification } from '../interfaces/IDatabaseAdapter';
 
 export interface BracketOrderRequest {
+  account_id: string;
   symbol: string;
   action: 'BUY' | 'SELL';
   quantity: number;
@@ -86,6 +34,7 @@ export interface BracketOrderRequest {
 }
 
 export interface IcebergOrderRequest {
+  account_id: string;
   symbol: string;
   action: 'BUY' | 'SELL';
   quantity: number;
@@ -97,6 +46,7 @@ export interface IcebergOrderRequest {
 }
 
 export interface TrailingStopOrderRequest {
+  account_id: string;
   symbol: string;
   action: 'BUY' | 'SELL';
   quantity: number;
@@ -108,6 +58,39 @@ export interface TrailingStopOrderRequest {
   validity?: 'DAY' | 'IOC' | 'GTD';
 }
 
+// The order a conditional order places once its condition is met
+interface TriggeredOrder {
+  action: 'BUY' | 'SELL';
+  order_type: 'MARKET' | 'LIMIT';
+  price?: number;
+}
+
+export interface ConditionalOrderRequest extends TriggeredOrder {
+  account_ids: string[];
+  symbol: string;
+  quantity: number;
+  condition_type: Exclude<AdvancedOrderConditionType, 'TIME_BASED'>;
+  condition_value: number;
+  exchange?: string;
+  product_type?: string;
+  expiry_date?: string;
+  // Second order of a one-cancels-other pair, e.g. a target above and a stop below
+  oco?: Partial<TriggeredOrder> & {
+    condition_type: Exclude<AdvancedOrderConditionType, 'TIME_BASED'>;
+    condition_value: number;
+  };
+}
+
+export interface ScheduledOrderRequest extends TriggeredOrder {
+  account_ids: string[];
+  symbol: string;
+  quantity: number;
+  scheduled_at?: string; // an exact time, or
+  scheduled_time?: string; // HH:MM[:SS] IST, placed at its next weekday occurrence
+  exchange?: string;
+  product_type?: string;
+}
+
 export interface BulkOrderRequest {
   orders: Array<{
     symbol: string;
@@ -124,156 +107,302 @@ export interface BulkOrderRequest {
 }
 
 /**
- * Advanced Order Service - Stub Implementation
- * TODO: Reimplement all methods with MongoDB adapter
+ * Advanced Order Service
+ * Persists order templates and advanced orders. Orders are created in their
+ * initial state here; the advanced order engine places and manages the legs.
  */
 class AdvancedOrderService {
 
   /**
    * Create order template
-   * TODO: Reimplement with MongoDB adapter
    */
-  createOrderTemplate(templateData: Omit<OrderTemplate, 'id' | 'created_at' | 'updated_at'>): OrderTemplate {
-    throw new Error('Advanced order templates not implemented with MongoDB yet');
+  async createOrderTemplate(templateData: CreateOrderTemplateData): Promise<OrderTemplate> {
+    return await userDatabase.createOrderTemplate(templateData);
   }
 
   /**
    * Get order template by ID
-   * TODO: Reimplement with MongoDB adapter
    */
-  getOrderTemplate(templateId: number): OrderTemplate | null {
-    throw new Error('Advanced order templates not implemented with MongoDB yet');
+  async getOrderTemplate(templateId: string): Promise<OrderTemplate | null> {
+    return await userDatabase.getOrderTemplateById(templateId);
   }
 
   /**
    * Get user's order templates
-   * TODO: Reimplement with MongoDB adapter
    */
-  getUserOrderTemplates(userId: number, activeOnly: boolean = false): OrderTemplate[] {
-    throw new Error('Advanced order templates not implemented with MongoDB yet');
+  async getUserOrderTemplates(userId: string, activeOnly: boolean = false): Promise<OrderTemplate[]> {
+    return await userDatabase.getOrderTemplatesByUserId(userId, activeOnly);
   }
 
   /**
    * Update order template
-   * TODO: Reimplement with MongoDB adapter
    */
-  updateOrderTemplate(templateId: number, updates: Partial<OrderTemplate>): boolean {
-    throw new Error('Advanced order templates not implemented with MongoDB yet');
+  async updateOrderTemplate(templateId: string, updates: UpdateOrderTemplateData): Promise<OrderTemplate | null> {
+    // Ignore fields that were not sent so a partial update does not clear them
+    const definedUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    ) as UpdateOrderTemplateData;
+
+    return await userDatabase.updateOrderTemplate(templateId, definedUpdates);
   }
 
   /**
    * Delete order template
-   * TODO: Reimplement with MongoDB adapter
    */
-  deleteOrderTemplate(templateId: number, userId: number): boolean {
-    throw new Error('Advanced order templates not implemented with MongoDB yet');
+  async deleteOrderTemplate(templateId: string): Promise<boolean> {
+    return await userDatabase.deleteOrderTemplate(templateId);
   }
 
   /**
-   * Create bracket order
-   * TODO: Reimplement with MongoDB adapter
+   * Create bracket order: an entry leg plus stop loss and take profit exit
+   * legs that become active once the entry fills. Returns the order group ID.
    */
-  createBracketOrder(userId: number, orderData: BracketOrderRequest): string {
-    throw new Error('Advanced orders not implemented with MongoDB yet');
+  async createBracketOrder(userId: string, orderData: BracketOrderRequest): Promise<string> {
+    const orderGroupId = uuidv4();
+    const common = {
+      user_id: userId,
+      account_id: orderData.account_id,
+      order_group_id: orderGroupId,
+      symbol: orderData.symbol,
+      quantity: orderData.quantity,
+      exchange: orderData.exchange || 'NSE',
+      product_type: orderData.product_type || 'C',
+      validity: orderData.validity || 'DAY',
+      iceberg_executed: 0
+    };
+
+    const entryOrder = await userDatabase.createAdvancedOrder({
+      ...common,
+      leg: 'ENTRY',
+      action: orderData.action,
+      order_type: 'BRACKET',
+      price: orderData.price,
+      stop_loss: orderData.stop_loss,
+      take_profit: orderData.take_profit,
+      status: 'PENDING',
+      is_bracket_order: true,
+      bracket_stop_loss: orderData.stop_loss,
+      bracket_take_profit: orderData.take_profit
+    });
+
+    const exitAction = oppositeAction(orderData.action);
+
+    await userDatabase.createAdvancedOrder({
+      ...common,
+      parent_order_id: entryOrder.id,
+      leg: 'STOP_LOSS',
+      action: exitAction,
+      order_type: 'SL-MARKET',
+      trigger_price: orderData.stop_loss,
+      status: 'PENDING',
+      is_bracket_order: true
+    });
+
+    await userDatabase.createAdvancedOrder({
+      ...common,
+      parent_order_id: entryOrder.id,
+      leg: 'TAKE_PROFIT',
+      action: exitAction,
+      order_type: 'LIMIT',
+      price: orderData.take_profit,
+      status: 'PENDING',
+      is_bracket_order: true
+    });
+
+    return orderGroupId;
   }
 
   /**
    * Get advanced order by ID
-   * TODO: Reimplement with MongoDB adapter
    */
-  getAdvancedOrder(orderId: number): AdvancedOrder | null {
-    throw new Error('Advanced orders not implemented with MongoDB yet');
+  async getAdvancedOrder(orderId: string): Promise<AdvancedOrder | null> {
+    return await userDatabase.getAdvancedOrderById(orderId);
   }
 
   /**
    * Get user's advanced orders
-   * TODO: Reimplement with MongoDB adapter
    */
-  getUserAdvancedOrders(userId: number, status?: string): AdvancedOrder[] {
-    throw new Error('Advanced orders not implemented with MongoDB yet');
+  async getUserAdvancedOrders(userId: string, status?: AdvancedOrderStatus): Promise<AdvancedOrder[]> {
+    return await userDatabase.getAdvancedOrdersByUserId(userId, status);
   }
 
   /**
-   * Create iceberg order
-   * TODO: Reimplement with MongoDB adapter
+   * Create iceberg order. The engine works through the total quantity one
+   * visible slice at a time.
    */
-  createIcebergOrder(userId: number, orderData: IcebergOrderRequest): number {
-    throw new Error('Advanced orders not implemented with MongoDB yet');
+  async createIcebergOrder(userId: string, orderData: IcebergOrderRequest): Promise<AdvancedOrder> {
+    return await userDatabase.createAdvancedOrder({
+      user_id: userId,
+      account_id: orderData.account_id,
+      order_group_id: uuidv4(),
+      symbol: orderData.symbol,
+      action: orderData.action,
+      quantity: orderData.quantity,
+      order_type: 'ICEBERG',
+      price: orderData.price,
+      status: 'ACTIVE',
+      exchange: orderData.exchange || 'NSE',
+      product_type: orderData.product_type || 'C',
+      validity: orderData.validity || 'DAY',
+      iceberg_quantity: orderData.iceberg_quantity,
+      iceberg_executed: 0,
+      is_bracket_order: false
+    });
   }
 
   /**
-   * Create trailing stop order
-   * TODO: Reimplement with MongoDB adapter
+   * Create trailing stop order. The stop starts at the trigger price and is
+   * ratcheted by the engine as the price moves in the position's favour.
    */
-  createTrailingStopOrder(userId: number, orderData: TrailingStopOrderRequest): number {
-    throw new Error('Advanced orders not implemented with MongoDB yet');
+  async createTrailingStopOrder(userId: string, orderData: TrailingStopOrderRequest): Promise<AdvancedOrder> {
+    return await userDatabase.createAdvancedOrder({
+      user_id: userId,
+      account_id: orderData.account_id,
+      symbol: orderData.symbol,
+      action: orderData.action,
+      quantity: orderData.quantity,
+      order_type: 'TRAILING_SL',
+      trigger_price: orderData.trigger_price,
+      trail_trigger_price: orderData.trigger_price,
+      ...(orderData.trail_amount && { trail_amount: orderData.trail_amount }),
+      ...(orderData.trail_percent && { trail_percent: orderData.trail_percent }),
+      status: 'ACTIVE',
+      exchange: orderData.exchange || 'NSE',
+      product_type: orderData.product_type || 'C',
+      validity: orderData.validity || 'DAY',
+      iceberg_executed: 0,
+      is_bracket_order: false
+    });
   }
 
   /**
-   * Record order modification
-   * TODO: Reimplement with MongoDB adapter
+   * Create a conditional (GTT-style) order held by the engine until the price
+   * or day volume crosses its level, then placed on every listed account. An
+   * OCO pair shares an order group; when one triggers the other is cancelled.
    */
-  recordOrderModification(modificationData: Omit<OrderModification, 'id' | 'created_at'>): OrderModification {
-    throw new Error('Advanced orders not implemented with MongoDB yet');
-  }
+  async createConditionalOrder(userId: string, orderData: ConditionalOrderRequest): Promise<AdvancedOrder[]> {
+    const expiryDate = orderData.expiry_date
+      || new Date(Date.now() + DEFAULT_CONDITIONAL_VALIDITY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const common = {
+      user_id: userId,
+      account_id: orderData.account_ids[0]!,
+      account_ids: orderData.account_ids,
+      order_group_id: uuidv4(),
+      symbol: orderData.symbol,
+      quantity: orderData.quantity,
+      status: 'ACTIVE' as const,
+      exchange: orderData.exchange || 'NSE',
+      product_type: orderData.product_type || 'C',
+      validity: 'GTD' as const,
+      expiry_date: expiryDate,
+      iceberg_executed: 0,
+      is_bracket_order: false
+    };
 
-  /**
-   * Get order modification by ID
-   * TODO: Reimplement with MongoDB adapter
-   */
-  getOrderModification(modificationId: number): OrderModification | null {
-    throw new Error('Advanced orders not implemented with MongoDB yet');
+    const orders = [await userDatabase.createAdvancedOrder({
+      ...common,
+      action: orderData.action,
+      order_type: orderData.order_type,
+      ...(orderData.order_type === 'LIMIT' && { price: orderData.price }),
+      condition_type: orderData.condition_type,
+      condition_value: orderData.condition_value
+    })];
+
+    if (orderData.oco) {
+      const orderType = orderData.oco.order_type || orderData.order_type;
+      orders.push(await userDatabase.createAdvancedOrder({
+        ...common,
+        action: orderData.oco.action || orderData.action,
+        order_type: orderType,
+        ...(orderType === 'LIMIT' && { price: orderData.oco.price ?? orderData.price }),
+        condition_type: orderData.oco.condition_type,
+        condition_value: orderData.oco.condition_value
+      }));
+    }
+
+    return orders;
   }
 
   /**
-   * Get order modifications for a specific order
-   * TODO: Reimplement with MongoDB adapter
+   * Create an order placed on every listed account at a set market time.
+   * Returns null when the time cannot be scheduled.
    */
-  getOrderModifications(orderId: number): OrderModification[] {
-    throw new Error('Advanced orders not implemented with MongoDB yet');
+  async createScheduledOrder(userId: string, orderData: ScheduledOrderRequest): Promise<AdvancedOrder | null> {
+    const scheduledAt = orderData.scheduled_time
+      ? getNextScheduledTime(
+        orderData.scheduled_time,
+        new Date(),
+        getSegmentForExchange(orderData.exchange || 'NSE'),
+        marketClockService.getCalendar()
+      )
+      : new Date(orderData.scheduled_at!);
+    if (!scheduledAt || isNaN(scheduledAt.getTime())) {
+      return null;
+    }
+
+    return await userDatabase.createAdvancedOrder({
+      user_id: userId,
+      account_id: orderData.account_ids[0]!,
+      account_ids: orderData.account_ids,
+      symbol: orderData.symbol,
+      action: orderData.action,
+      quantity: orderData.quantity,
+      order_type: orderData.order_type,
+      ...(orderData.order_type === 'LIMIT' && { price: orderData.price }),
+      status: 'ACTIVE',
+      exchange: orderData.exchange || 'NSE',
+      product_type: orderData.product_type || 'C',
+      validity: 'GTD',
+      expiry_date: new Date(scheduledAt.getTime() + SCHEDULE_GRACE_MS).toISOString(),
+      condition_type: 'TIME_BASED',
+      scheduled_at: scheduledAt.toISOString(),
+      iceberg_executed: 0,
+      is_bracket_order: false
+    });
   }
 
   /**
-   * Update advanced order status
-   * TODO: Reimplement with MongoDB adapter
+   * Record order modification
    */
-  updateAdvancedOrderStatus(orderId: number, status: AdvancedOrder['status'], executedAt?: string): boolean {
-    throw new Error('Advanced orders not implemented with MongoDB yet');
+  async recordOrderModification(modificationData: CreateOrderModificationData): Promise<OrderModification> {
+    return await userDatabase.createOrderModification(modificationData);
   }
 
   /**
-   * Cancel advanced order
-   * TODO: Reimplement with MongoDB adapter
+   * Get order modifications for a specific order
    */
-  cancelAdvancedOrder(orderId: number, userId: number): boolean {
-    throw new Error('Advanced orders not implemented with MongoDB yet');
+  async getOrderModifications(orderId: string): Promise<OrderModification[]> {
+    return await userDatabase.getOrderModificationsByOrderId(orderId);
   }
 
   /**
-   * Get orders by group ID
-   * TODO: Reimplement with MongoDB adapter
+   * Update advanced order status
    */
-  getOrdersByGroupId(orderGroupId: string): AdvancedOrder[] {
-    throw new Error('Advanced orders not implemented with MongoDB yet');
+  async updateAdvancedOrderStatus(orderId: string, status: AdvancedOrderStatus, executedAt?: string): Promise<boolean> {
+    const updatedOrder = await userDatabase.updateAdvancedOrder(orderId, {
+      status,
+      ...(executedAt && { executed_at: executedAt })
+    });
+    return !!updatedOrder;
   }
 
   /**
-   * Update iceberg order execution
-   * TODO: Reimplement with MongoDB adapter
+   * Cancel advanced order together with the legs that depend on it
    */
-  updateIcebergExecution(orderId: number, executedQuantity: number): boolean {
-    throw new Error('Advanced orders not implemented with MongoDB yet');
+  async cancelAdvancedOrder(orderId: string, userId: string): Promise<boolean> {
+    const order = await userDatabase.getAdvancedOrderById(orderId);
+    if (!order || order.user_id !== userId) {
+      return false;
+    }
+    return await advancedOrderEngine.cancelOrder(order, 'Cancelled by user');
   }
 
   /**
-   * Update trailing stop trigger price
-   * TODO: Reimplement with MongoDB adapter
+   * Get orders by group ID
    */
-  updateTrailingStopTrigger(orderId: number, newTriggerPrice: number): boolean {
-    throw new Error('Advanced orders not implemented with MongoDB yet');
+  async getOrdersByGroupId(orderGroupId: string): Promise<AdvancedOrder[]> {
+    return await userDatabase.getAdvancedOrdersByGroupId(orderGroupId);
   }
-
-
 }
 
 export const advancedOrderService = new AdvancedOrderService();
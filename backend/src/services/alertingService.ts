@@ -160,6 +160,45 @@ export class AlertingService extends EventEmitter {
     await Promise.allSettled(promises);
   }
 
+  /**
+   * Send an alert to a user's own email address or webhook rather than the
+   * operator channels configured from the environment
+   */
+  async sendToRecipient(alert: Alert, recipient: { email?: string | undefined; webhookUrl?: string | undefined }): Promise<void> {
+    const channels: AlertChannel[] = [];
+
+    if (recipient.email) {
+      channels.push({
+        id: `email-${alert.ruleId}`,
+        name: 'User Email',
+        type: 'email',
+        config: {
+          from: process.env.ALERT_EMAIL_FROM,
+          to: [recipient.email]
+        },
+        enabled: true,
+        severityFilter: [alert.severity]
+      });
+    }
+
+    if (recipient.webhookUrl) {
+      channels.push({
+        id: `webhook-${alert.ruleId}`,
+        name: 'User Webhook',
+        type: 'webhook',
+        config: {
+          url: recipient.webhookUrl,
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' }
+        },
+        enabled: true,
+        severityFilter: [alert.severity]
+      });
+    }
+
+    await Promise.allSettled(channels.map(channel => this.sendToChannel(alert, channel)));
+  }
+
   /**
    * Send alert to specific channel
    */
@@ -314,7 +353,8 @@ export class AlertingService extends EventEmitter {
         severity: alert.severity,
         message: alert.message,
         timestamp: alert.timestamp,
-        metrics: alert.metrics
+        metrics: alert.metrics,
+        details: alert.details
       },
       source: 'copytrade-monitoring',
       timestamp: new Date().toISOString()
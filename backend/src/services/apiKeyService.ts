@@ -0,0 +1,102 @@
+/**
+ * API Key Service
+ * Per-user keys for the public signal API. A key is shown once and only its
+ * hash is stored; requests must also come from an allowed address, carry the
+ * scope they need and, unless the key waives it, an HMAC signature made with
+ * the key's signing secret.
+ */
+
+import { userDatabase } from './databaseCompatibility';
+import { ApiKey, ApiKeyAccountGroup, ApiKeyScope } from '../interfaces/IDatabaseAdapter';
+import {
+  generateApiKey,
+  generateSigningSecret,
+  hashApiKey,
+  isIpAllowed,
+  verifySignature
+} from '../utils/inboundSignals';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['signals:write', 'signals:read'];
+
+export interface CreateApiKeyInput {
+  userId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  ipAllowlist: string[];
+  requireSignature: boolean;
+  accountGroups: ApiKeyAccountGroup[];
+}
+
+export interface ApiKeyRequestInfo {
+  key: string;
+  scope: ApiKeyScope;
+  ip: string | undefined;
+  signature: string | undefined;
+  timestamp: string | undefined;
+  body: string;
+}
+
+export type ApiKeyCheck =
+  | { success: true; apiKey: ApiKey }
+  | { success: false; status: 401 | 403; reason: string; apiKey: ApiKey | null };
+
+class ApiKeyService {
+  /**
+   * Create a key; the key and its signing secret are returned only this once
+   */
+  async createKey(input: CreateApiKeyInput): Promise<{ apiKey: ApiKey; key: string; signingSecret: string }> {
+    const { key, prefix, hash } = generateApiKey();
+    const signingSecret = generateSigningSecret();
+
+    const apiKey = await userDatabase.createApiKey({
+      user_id: input.userId,
+      name: input.name,
+      key_prefix: prefix,
+      key_hash: hash,
+      signing_secret: signingSecret,
+      scopes: input.scopes,
+      ip_allowlist: input.ipAllowlist,
+      require_signature: input.requireSignature,
+      account_groups: input.accountGroups
+    });
+
+    return { apiKey, key, signingSecret };
+  }
+
+  /**
+   * Check a request made with an API key: the key must be live, allowed from
+   * the request's address, hold the scope and, when required, be signed
+   */
+  async authenticate(request: ApiKeyRequestInfo, now: number = Date.now()): Promise<ApiKeyCheck> {
+    const apiKey = await userDatabase.getApiKeyByHash(hashApiKey(request.key));
+    if (!apiKey || apiKey.revoked_at) {
+      return { success: false, status: 401, reason: 'Invalid API key', apiKey: null };
+    }
+
+    if (!isIpAllowed(request.ip, apiKey.ip_allowlist)) {
+      return { success: false, status: 403, reason: `Address ${request.ip || 'unknown'} is not allowed for this API key`, apiKey };
+    }
+
+    if (!apiKey.scopes.includes(request.scope)) {
+      return { success: false, status: 403, reason: `API key lacks the ${request.scope} scope`, apiKey };
+    }
+
+    if (apiKey.require_signature) {
+      const { valid, reason } = verifySignature(apiKey.signing_secret, request.signature, request.timestamp, request.body, now);
+      if (!valid) {
+        return { success: false, status: 401, reason: reason || 'Invalid request signature', apiKey };
+      }
+    }
+
+    return { success: true, apiKey };
+  }
+
+  async recordUse(apiKey: ApiKey, ip: string | undefined): Promise<void> {
+    await userDatabase.updateApiKey(apiKey.id, {
+      last_used_at: new Date().toISOString(),
+      last_used_ip: ip || null
+    });
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
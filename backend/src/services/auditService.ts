@@ -0,0 +1,217 @@
+/**
+ * Audit Service
+ * Append-only trail of who did what to which order or account. Events are
+ * written to the database as one hash chain, so tampering with stored events
+ * shows up on verification, and a daily job removes events older than the
+ * retention period.
+ */
+
+import { Request } from 'express';
+import { logger } from '../utils/logger';
+import { userDatabase } from './databaseCompatibility';
+import { AuditAction, AuditEvent, AuditEventFilters } from '../interfaces/IDatabaseAdapter';
+import { AuditChainVerification, buildAuditEvent, verifyAuditChain } from '../utils/auditChain';
+
+export interface AuditRecord {
+  userId: string | null;
+  action: AuditAction;
+  accountId?: string | null | undefined;
+  brokerName?: string | null | undefined;
+  resourceId?: string | null | undefined; // order id, rule id, ...
+  details?: Record<string, any> | undefined;
+  success?: boolean | undefined; // defaults to true
+  errorMessage?: string | null | undefined;
+}
+
+export interface AuditRequestContext {
+  requestId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+class AuditService {
+  private retentionInterval: NodeJS.Timeout | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  private readonly RETENTION_CHECK_INTERVAL = 24 * 60 * 60 * 1000; // daily
+  private readonly MAX_APPEND_ATTEMPTS = 3;
+  private readonly VERIFY_BATCH_SIZE = 1000;
+
+  start(): void {
+    if (this.retentionInterval) {
+      return;
+    }
+
+    this.retentionInterval = setInterval(() => {
+      this.applyRetention().catch(error => {
+        logger.error('Audit retention failed', {
+          component: 'AUDIT',
+          operation: 'RETENTION'
+        }, error);
+      });
+    }, this.RETENTION_CHECK_INTERVAL);
+
+    logger.info('Audit retention scheduler started', {
+      component: 'AUDIT',
+      operation: 'START',
+      retentionDays: this.getRetentionDays()
+    });
+  }
+
+  stop(): void {
+    if (this.retentionInterval) {
+      clearInterval(this.retentionInterval);
+      this.retentionInterval = null;
+    }
+
+    logger.info('Audit retention scheduler stopped', {
+      component: 'AUDIT',
+      operation: 'STOP'
+    });
+  }
+
+  isRunning(): boolean {
+    return this.retentionInterval !== null;
+  }
+
+  /**
+   * Days to keep audit events (AUDIT_RETENTION_DAYS, 0 keeps them forever)
+   */
+  getRetentionDays(): number {
+    const days = parseInt(process.env.AUDIT_RETENTION_DAYS || '1825', 10);
+    return Number.isFinite(days) && days > 0 ? days : 0;
+  }
+
+  getRequestContext(req?: Request): AuditRequestContext {
+    return {
+      requestId: req?.requestId || null,
+      ipAddress: req?.ip || null,
+      userAgent: req?.get('User-Agent') || null
+    };
+  }
+
+  /**
+   * Append an event to the trail. Never throws: a failed audit write is
+   * logged but does not fail the action being audited.
+   */
+  async record(record: AuditRecord, req?: Request): Promise<AuditEvent | null> {
+    const context = this.getRequestContext(req);
+
+    // Appends go one at a time so each event links to the one before it
+    const append = this.writeQueue.then(() => this.append(record, context));
+    this.writeQueue = append.catch(() => undefined);
+
+    try {
+      return await append;
+    } catch (error: any) {
+      logger.error('Failed to record audit event', {
+        component: 'AUDIT',
+        operation: 'RECORD',
+        userId: record.userId || undefined,
+        auditAction: record.action,
+        requestId: context.requestId || undefined
+      }, error);
+      return null;
+    }
+  }
+
+  async search(filters: AuditEventFilters, limit: number, offset: number): Promise<{ events: AuditEvent[]; total: number }> {
+    return await userDatabase.searchAuditEvents(filters, limit, offset);
+  }
+
+  /**
+   * Walk the whole stored chain in sequence order and report the first break
+   */
+  async verify(): Promise<AuditChainVerification> {
+    let previous: AuditEvent | null = null;
+    let firstSequence: number | null = null;
+    let checked = 0;
+
+    for (;;) {
+      const batch = await userDatabase.getAuditEventsAfterSequence(previous ? previous.sequence : 0, this.VERIFY_BATCH_SIZE);
+      if (batch.length === 0) {
+        break;
+      }
+
+      const result = verifyAuditChain(batch, previous);
+      firstSequence = firstSequence ?? result.firstSequence;
+      checked += result.checked;
+      if (!result.valid) {
+        return { ...result, checked, firstSequence };
+      }
+
+      previous = batch[batch.length - 1] || null;
+    }
+
+    return {
+      valid: true,
+      checked,
+      firstSequence,
+      lastSequence: previous ? previous.sequence : null,
+      brokenAt: null,
+      reason: null
+    };
+  }
+
+  /**
+   * Delete events older than the retention period and record that it happened,
+   * so the verified chain starting later than event 1 is accounted for
+   */
+  async applyRetention(now: Date = new Date()): Promise<number> {
+    const retentionDays = this.getRetentionDays();
+    if (retentionDays === 0) {
+      return 0;
+    }
+
+    const before = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+    const deleted = await userDatabase.deleteAuditEventsBefore(before);
+
+    if (deleted > 0) {
+      await this.record({
+        userId: null,
+        action: 'AUDIT_RETENTION_APPLIED',
+        details: { before, deleted, retentionDays }
+      });
+
+      logger.info('Audit retention applied', {
+        component: 'AUDIT',
+        operation: 'RETENTION',
+        deleted,
+        retentionDays
+      });
+    }
+
+    return deleted;
+  }
+
+  private async append(record: AuditRecord, context: AuditRequestContext): Promise<AuditEvent> {
+    for (let attempt = 1; ; attempt++) {
+      const previous = await userDatabase.getLastAuditEvent();
+      const event = buildAuditEvent({
+        user_id: record.userId,
+        action: record.action,
+        account_id: record.accountId ?? null,
+        broker_name: record.brokerName ?? null,
+        resource_id: record.resourceId ?? null,
+        details: record.details || {},
+        success: record.success ?? true,
+        error_message: record.errorMessage ?? null,
+        request_id: context.requestId,
+        ip_address: context.ipAddress,
+        user_agent: context.userAgent,
+        created_at: new Date().toISOString()
+      }, previous);
+
+      try {
+        return await userDatabase.createAuditEvent(event);
+      } catch (error: any) {
+        // Another server instance took this sequence number; link to its event instead
+        if (error?.code === 11000 && attempt < this.MAX_APPEND_ATTEMPTS) {
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+}
+
+export const auditService = new AuditService();
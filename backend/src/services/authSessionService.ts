@@ -0,0 +1,319 @@
+/**
+ * Auth Session Service
+ * Server-side login sessions. Each login gets a short-lived access token
+ * (JWT carrying the session id) and a refresh token that is rotated on every
+ * use, so a session can be listed, revoked, and asked to re-authenticate
+ * (step-up) before sensitive operations.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Request } from 'express';
+import { logger } from '../utils/logger';
+import { userDatabase } from './databaseCompatibility';
+import { AuthSession, User } from '../interfaces/IDatabaseAdapter';
+
+export interface AccessTokenPayload {
+  id: string;
+  email: string;
+  name: string;
+  sid: string;
+}
+
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // seconds until the access token expires
+  sessionId: string;
+}
+
+export type RefreshResult =
+  | { success: true; tokens: IssuedTokens; user: User }
+  | { success: false; reason: 'INVALID' | 'EXPIRED' }
+  | { success: false; reason: 'REUSED'; userId: string; sessionId: string };
+
+export const STEP_UP_WINDOW_MS = 5 * 60 * 1000;
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Chrome\//, 'Chrome'],
+  [/Firefox\//, 'Firefox'],
+  [/Safari\//, 'Safari']
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux']
+];
+
+/**
+ * Readable device label such as "Chrome on Windows" from a User-Agent header
+ */
+export const getDeviceName = (userAgent: string | null | undefined): string => {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+  return browser || platform || userAgent.slice(0, 60);
+};
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+// Challenge tokens carry their own audience so they are never taken for access tokens
+const TWO_FACTOR_CHALLENGE_AUDIENCE = 'copytrade:2fa-challenge';
+
+const getJwtSecret = (): string => {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error('JWT_SECRET not configured');
+  }
+  return jwtSecret;
+};
+
+class AuthSessionService {
+  private activeSessions = new Map<string, { active: boolean; checkedAt: number }>();
+  private readonly ACTIVE_CACHE_TTL = 15 * 1000;
+  private readonly TWO_FACTOR_CHALLENGE_TTL = '5m';
+  // How long the refresh token just rotated away is still accepted
+  private readonly ROTATION_GRACE_MS = 30 * 1000;
+  private readonly ROTATION_ATTEMPTS = 3;
+
+  /**
+   * Access token lifetime (ACCESS_TOKEN_TTL_MINUTES, default 15 minutes)
+   */
+  getAccessTokenTtlSeconds(): number {
+    const minutes = parseInt(process.env.ACCESS_TOKEN_TTL_MINUTES || '15', 10);
+    return (Number.isFinite(minutes) && minutes > 0 ? minutes : 15) * 60;
+  }
+
+  /**
+   * Sliding refresh token lifetime (REFRESH_TOKEN_TTL_DAYS, default 30 days)
+   */
+  getRefreshTokenTtlMs(): number {
+    const days = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+    return (Number.isFinite(days) && days > 0 ? days : 30) * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Start a session for a user who has just logged in
+   */
+  async createSession(user: Pick<User, 'id' | 'email' | 'name'>, req?: Request): Promise<IssuedTokens> {
+    const secret = crypto.randomBytes(32).toString('base64url');
+    const userAgent = req?.get('User-Agent') || null;
+
+    const session = await userDatabase.createAuthSession({
+      user_id: user.id.toString(),
+      refresh_token_hash: hashToken(secret),
+      device_name: getDeviceName(userAgent),
+      user_agent: userAgent,
+      ip_address: req?.ip || null,
+      expires_at: new Date(Date.now() + this.getRefreshTokenTtlMs()).toISOString()
+    });
+
+    this.activeSessions.set(session.id, { active: true, checkedAt: Date.now() });
+
+    logger.info('Login session created', {
+      component: 'AUTH_SESSION',
+      operation: 'CREATE',
+      userId: user.id.toString(),
+      sessionId: session.id
+    });
+
+    return this.issueTokens(user, session.id, secret);
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token. A refresh
+   * token that was already rotated away means it was copied, so the session is
+   * revoked - unless it was rotated moments ago, which is another tab of the same
+   * browser refreshing at the same time.
+   */
+  async refresh(refreshToken: string, req?: Request): Promise<RefreshResult> {
+    const [sessionId, secret] = refreshToken.split('.');
+    if (!sessionId || !secret || !/^[0-9a-f]{24}$/i.test(sessionId)) {
+      return { success: false, reason: 'INVALID' };
+    }
+    const presentedHash = hashToken(secret);
+
+    for (let attempt = 0; attempt < this.ROTATION_ATTEMPTS; attempt++) {
+      const session = await userDatabase.getAuthSessionById(sessionId);
+      if (!session || session.revoked_at) {
+        return { success: false, reason: 'INVALID' };
+      }
+      if (new Date(session.expires_at).getTime() <= Date.now()) {
+        return { success: false, reason: 'EXPIRED' };
+      }
+
+      if (session.refresh_token_hash !== presentedHash && !this.isWithinRotationGrace(session, presentedHash)) {
+        await this.revoke(session.id, 'REFRESH_TOKEN_REUSE');
+        logger.warn('Refresh token reuse detected, session revoked', {
+          component: 'AUTH_SESSION',
+          operation: 'REFRESH',
+          userId: session.user_id,
+          sessionId: session.id
+        });
+        return { success: false, reason: 'REUSED', userId: session.user_id, sessionId: session.id };
+      }
+
+      const user = await userDatabase.findUserById(session.user_id);
+      if (!user) {
+        await this.revoke(session.id, 'USER_NOT_FOUND');
+        return { success: false, reason: 'INVALID' };
+      }
+
+      // Only replaces the token this read saw; a concurrent refresh makes it miss and go round again
+      const nextSecret = crypto.randomBytes(32).toString('base64url');
+      const updated = await userDatabase.rotateAuthSessionRefreshToken(session.id, session.refresh_token_hash, hashToken(nextSecret), {
+        last_used_at: new Date().toISOString(),
+        expires_at: new Date(Date.now() + this.getRefreshTokenTtlMs()).toISOString(),
+        ip_address: req?.ip || session.ip_address,
+        user_agent: req?.get('User-Agent') || session.user_agent
+      });
+      if (updated) {
+        return { success: true, tokens: this.issueTokens(user, session.id, nextSecret), user };
+      }
+    }
+
+    return { success: false, reason: 'INVALID' };
+  }
+
+  private isWithinRotationGrace(session: AuthSession, presentedHash: string): boolean {
+    return session.previous_refresh_token_hash === presentedHash
+      && !!session.rotated_at
+      && Date.now() - new Date(session.rotated_at).getTime() <= this.ROTATION_GRACE_MS;
+  }
+
+  /**
+   * Whether the session behind an access token is still usable. Results are
+   * cached briefly; revocations on this server take effect immediately.
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const cached = this.activeSessions.get(sessionId);
+    if (cached && Date.now() - cached.checkedAt < this.ACTIVE_CACHE_TTL) {
+      return cached.active;
+    }
+
+    const session = await userDatabase.getAuthSessionById(sessionId);
+    const active = !!session && !session.revoked_at && new Date(session.expires_at).getTime() > Date.now();
+    this.activeSessions.set(sessionId, { active, checkedAt: Date.now() });
+    return active;
+  }
+
+  /**
+   * Payload of an access token whose session is still active, or null when the
+   * token is some other kind of token or its session has ended. JWT errors such
+   * as TokenExpiredError are thrown so callers can tell expiry apart.
+   */
+  async verifyAccessToken(token: string): Promise<AccessTokenPayload | null> {
+    const decoded = jwt.verify(token, getJwtSecret()) as Partial<AccessTokenPayload> & { purpose?: string; aud?: unknown };
+    if (decoded.purpose || decoded.aud || !decoded.id || !decoded.sid) {
+      return null;
+    }
+    return (await this.isSessionActive(decoded.sid)) ? decoded as AccessTokenPayload : null;
+  }
+
+  async listSessions(userId: string): Promise<AuthSession[]> {
+    return await userDatabase.getActiveAuthSessionsByUserId(userId);
+  }
+
+  /**
+   * Revoke one of the user's own sessions
+   */
+  async revokeSession(userId: string, sessionId: string, reason: string): Promise<boolean> {
+    const session = await userDatabase.getAuthSessionById(sessionId);
+    if (!session || session.user_id !== userId) {
+      return false;
+    }
+    return await this.revoke(sessionId, reason);
+  }
+
+  /**
+   * Revoke every session of the user except the current one
+   */
+  async revokeOtherSessions(userId: string, currentSessionId: string | null, reason: string): Promise<number> {
+    const sessions = await userDatabase.getActiveAuthSessionsByUserId(userId);
+    const revoked = await userDatabase.revokeAuthSessionsByUserId(userId, reason, currentSessionId || undefined);
+
+    sessions
+      .filter(session => session.id !== currentSessionId)
+      .forEach(session => this.activeSessions.set(session.id, { active: false, checkedAt: Date.now() }));
+
+    return revoked;
+  }
+
+  /**
+   * Record that the user re-authenticated on this session
+   */
+  async markSteppedUp(sessionId: string): Promise<string | null> {
+    const updated = await userDatabase.updateAuthSession(sessionId, { step_up_at: new Date().toISOString() });
+    return updated?.step_up_at || null;
+  }
+
+  /**
+   * Whether the user re-authenticated on this session within the step-up window
+   */
+  async hasRecentStepUp(sessionId: string, now: number = Date.now()): Promise<boolean> {
+    const session = await userDatabase.getAuthSessionById(sessionId);
+    if (!session || session.revoked_at || !session.step_up_at) {
+      return false;
+    }
+    return now - new Date(session.step_up_at).getTime() <= STEP_UP_WINDOW_MS;
+  }
+
+  /**
+   * Short-lived token proving the password was checked, exchanged for a
+   * session once the second factor is verified
+   */
+  issueTwoFactorChallenge(userId: string): string {
+    return jwt.sign({ id: userId, purpose: '2fa' }, getJwtSecret(), {
+      expiresIn: this.TWO_FACTOR_CHALLENGE_TTL,
+      audience: TWO_FACTOR_CHALLENGE_AUDIENCE
+    });
+  }
+
+  /**
+   * User id from a valid two-factor challenge token, or null
+   */
+  verifyTwoFactorChallenge(challengeToken: string): string | null {
+    try {
+      const decoded = jwt.verify(challengeToken, getJwtSecret(), { audience: TWO_FACTOR_CHALLENGE_AUDIENCE }) as { id?: string; purpose?: string };
+      return decoded.purpose === '2fa' && decoded.id ? decoded.id : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async revoke(sessionId: string, reason: string): Promise<boolean> {
+    this.activeSessions.set(sessionId, { active: false, checkedAt: Date.now() });
+    return await userDatabase.revokeAuthSession(sessionId, reason);
+  }
+
+  private issueTokens(user: Pick<User, 'id' | 'email' | 'name'>, sessionId: string, secret: string): IssuedTokens {
+    const expiresIn = this.getAccessTokenTtlSeconds();
+    const payload: AccessTokenPayload = {
+      id: user.id.toString(),
+      email: user.email,
+      name: user.name,
+      sid: sessionId
+    };
+
+    return {
+      token: jwt.sign(payload, getJwtSecret(), { expiresIn }),
+      refreshToken: `${sessionId}.${secret}`,
+      expiresIn,
+      sessionId
+    };
+  }
+}
+
+export const authSessionService = new AuthSessionService();
@@ -0,0 +1,123 @@
+/**
+ * Broker Account Data Service
+ * Fetches holdings, funds and trade books from the broker of every connected
+ * account and aggregates them. One unreachable account doesn't fail the
+ * request; its error is returned with the per-account results.
+ */
+
+import { IUnifiedBrokerService, UnifiedFunds, UnifiedHolding, UnifiedTrade } from '@copytrade/unified-broker';
+import { logger } from '../utils/logger';
+import { userDatabase } from './databaseCompatibility';
+import { enhancedUnifiedBrokerManager } from './enhancedUnifiedBrokerManager';
+import { marketDataService } from './marketDataService';
+import { ensureAccountActive } from './orderPlacementService';
+import { ConnectedAccount } from '../interfaces/IDatabaseAdapter';
+import {
+  AccountDataResult,
+  AccountTrade,
+  AggregatedHolding,
+  HoldingsSummary,
+  aggregateFunds,
+  aggregateHoldings,
+  aggregateTrades
+} from '../utils/accountDataAggregator';
+
+export interface HoldingsOverview {
+  holdings: AggregatedHolding[];
+  summary: HoldingsSummary;
+  accounts: AccountDataResult<UnifiedHolding[]>[];
+}
+
+export interface FundsOverview {
+  totals: UnifiedFunds;
+  accounts: AccountDataResult<UnifiedFunds>[];
+}
+
+export interface TradeBookOverview {
+  trades: AccountTrade[];
+  accounts: AccountDataResult<UnifiedTrade[]>[];
+}
+
+class BrokerAccountDataService {
+  async getHoldings(userId: string, accountId?: string): Promise<HoldingsOverview> {
+    const accounts = await this.fetchFromAccounts(userId, accountId, 'HOLDINGS',
+      (brokerService, account) => brokerService.getHoldings(account.account_id));
+
+    // Some brokers (Shoonya) don't report last prices for holdings
+    const unpriced = Array.from(new Set(accounts
+      .flatMap(result => result.data || [])
+      .filter(holding => !(holding.lastPrice > 0))
+      .map(holding => holding.symbol.toUpperCase().replace(/-EQ$/, ''))));
+    const lastPrices = new Map<string, number>();
+    for (const symbol of unpriced) {
+      const marketPrice = await marketDataService.getPrice(symbol);
+      if (marketPrice?.price) {
+        lastPrices.set(symbol, marketPrice.price);
+      }
+    }
+
+    return { ...aggregateHoldings(accounts, lastPrices), accounts };
+  }
+
+  async getFunds(userId: string, accountId?: string): Promise<FundsOverview> {
+    const accounts = await this.fetchFromAccounts(userId, accountId, 'FUNDS',
+      (brokerService, account) => brokerService.getFunds(account.account_id));
+    return { totals: aggregateFunds(accounts), accounts };
+  }
+
+  async getTradeBook(userId: string, accountId?: string): Promise<TradeBookOverview> {
+    const accounts = await this.fetchFromAccounts(userId, accountId, 'TRADE_BOOK',
+      (brokerService, account) => brokerService.getTradeBook(account.account_id));
+    return { trades: aggregateTrades(accounts), accounts };
+  }
+
+  /**
+   * Run fetch against every connected account of the user, or only the given
+   * one. Accounts are queried concurrently.
+   */
+  private async fetchFromAccounts<T>(
+    userId: string,
+    accountId: string | undefined,
+    operation: string,
+    fetch: (brokerService: IUnifiedBrokerService, account: ConnectedAccount) => Promise<T>
+  ): Promise<AccountDataResult<T>[]> {
+    const connectedAccounts = await userDatabase.getConnectedAccountsByUserId(userId);
+    const accounts = accountId
+      ? connectedAccounts.filter(account => account.id.toString() === accountId)
+      : connectedAccounts;
+
+    return Promise.all(accounts.map(async account => {
+      const result: AccountDataResult<T> = {
+        accountId: account.id.toString(),
+        brokerName: account.broker_name,
+        brokerAccountId: account.account_id,
+        data: null
+      };
+
+      try {
+        const isAccountActive = await ensureAccountActive(userId, result.accountId);
+        const brokerService = isAccountActive
+          ? enhancedUnifiedBrokerManager.getBrokerService(userId, account.broker_name, account.account_id)
+          : null;
+        if (!brokerService) {
+          result.error = `Failed to activate ${account.broker_name} account ${account.account_id}`;
+          return result;
+        }
+
+        result.data = await fetch(brokerService, account);
+      } catch (error: any) {
+        result.error = error.message || 'Failed to fetch account data';
+        logger.warn('Failed to fetch broker account data', {
+          component: 'BROKER_ACCOUNT_DATA',
+          operation,
+          userId,
+          accountId: result.accountId,
+          brokerName: account.broker_name
+        }, error);
+      }
+      return result;
+    }));
+  }
+}
+
+export const brokerAccountDataService = new BrokerAccountDataService();
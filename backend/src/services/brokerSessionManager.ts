@@ -6,6 +6,7 @@
 
 import { enhancedUnifiedBrokerManager } from './enhancedUnifiedBrokerManager';
 import { userDatabase } from './databaseCompatibility';
+import { webhookService } from './webhookService';
 
 export interface SessionHealthMetrics {
   accountId: string;
@@ -40,6 +41,7 @@ export interface SessionValidationResult {
 export class BrokerSessionManager {
   private static instance: BrokerSessionManager;
   private sessionMetrics: Map<string, SessionHealthMetrics> = new Map();
+  private expiredSessions: Set<string> = new Set(); // sessions whose expiry has been published
   private validationInterval: NodeJS.Timeout | null = null;
   private readonly VALIDATION_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
   private readonly HEALTH_CHECK_INTERVAL_MS = 2 * 60 * 1000; // 2 minutes
@@ -85,6 +87,8 @@ export class BrokerSessionManager {
     };
 
     this.sessionMetrics.set(sessionKey, metrics);
+    // A fresh login starts a new session, whose expiry is published again
+    this.expiredSessions.delete(sessionKey);
   }
 
   /**
@@ -216,6 +220,7 @@ export class BrokerSessionManager {
       const credentials = await userDatabase.getAccountCredentials(dbAccountId);
       if (!credentials) {
         console.error(`❌ Credentials not found for token refresh: ${accountId}`);
+        this.publishSessionExpired(userId, brokerName, accountId, dbAccountId, 'Stored credentials not found');
         return false;
       }
 
@@ -246,6 +251,7 @@ export class BrokerSessionManager {
 
           // Update session metrics
           const sessionKey = this.createSessionKey(userId, brokerName, accountId);
+          this.expiredSessions.delete(sessionKey);
           const metrics = this.sessionMetrics.get(sessionKey);
           if (metrics) {
             metrics.tokenExpiryTime = refreshResult.tokenInfo.expiryTime ? new Date(refreshResult.tokenInfo.expiryTime) : null;
@@ -261,6 +267,7 @@ export class BrokerSessionManager {
         }
       } else {
         console.log(`❌ Token refresh failed for ${brokerName} account ${accountId}: ${refreshResult.message}`);
+        this.publishSessionExpired(userId, brokerName, accountId, dbAccountId, refreshResult.message || 'Token refresh failed');
         return false;
       }
     } catch (error: any) {
@@ -269,6 +276,33 @@ export class BrokerSessionManager {
     }
   }
 
+  /**
+   * Tell the user's webhook subscriptions that a session has expired and could not
+   * be refreshed. Streams, the market data feed and health checks all try refreshing
+   * the same session, so each expiry is published once until a refresh succeeds.
+   */
+  private publishSessionExpired(
+    userId: string,
+    brokerName: string,
+    accountId: string,
+    dbAccountId: string,
+    reason: string
+  ): void {
+    const sessionKey = this.createSessionKey(userId, brokerName, accountId);
+    if (this.expiredSessions.has(sessionKey)) {
+      return;
+    }
+    this.expiredSessions.add(sessionKey);
+
+    webhookService.publish(userId, 'account.session_expired', {
+      accountId: dbAccountId,
+      brokerAccountId: accountId,
+      brokerName,
+      reason,
+      expiredAt: new Date().toISOString()
+    });
+  }
+
   /**
    * Start periodic session validation
    */
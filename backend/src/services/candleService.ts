@@ -0,0 +1,196 @@
+/**
+ * Candle Service
+ * Historical OHLCV bars for charts. Bars are fetched once per range from a
+ * connected broker (Shoonya, then Fyers) or, failing that, from CSV files in
+ * data/candles, and kept in the candles collection. Ticks from the real-time
+ * data service build the live bar for each interval; finished tick bars are
+ * stored too, so the chart keeps filling in between broker fetches.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { userDatabase } from './databaseCompatibility';
+import { enhancedUnifiedBrokerManager } from './enhancedUnifiedBrokerManager';
+import { Candle } from '../interfaces/IDatabaseAdapter';
+import {
+  CANDLE_INTERVALS,
+  CANDLE_INTERVAL_MS,
+  CandleInterval,
+  aggregateCandles,
+  applyTick,
+  getCandleStart,
+  mergeCandles,
+  parseCandleCsv
+} from '../utils/candleAggregation';
+
+// History sources in order of preference
+const HISTORY_BROKERS = ['shoonya', 'fyers'];
+
+interface LoadedRange {
+  from: number;
+  to: number;
+}
+
+class CandleService {
+  private readonly DATA_DIR = process.env.CANDLE_DATA_DIR || path.join(__dirname, '../../data/candles');
+  private liveCandles: Map<string, Candle> = new Map();    // SYMBOL:EXCHANGE:interval -> bar being built
+  private lastVolumes: Map<string, number> = new Map();    // SYMBOL:EXCHANGE -> cumulative day volume
+  private loadedRanges: Map<string, LoadedRange> = new Map(); // SYMBOL:EXCHANGE:interval -> fetched range
+
+  /**
+   * Fold a trade into the live bars of the symbol. Volume is the cumulative
+   * day volume quoted by the feed; each bar gets the increase since the last tick.
+   */
+  recordTick(symbol: string, exchange: string, price: number, cumulativeVolume: number, time: Date = new Date()): void {
+    if (!(price > 0)) {
+      return;
+    }
+
+    const volumeKey = `${symbol}:${exchange}`;
+    const lastVolume = this.lastVolumes.get(volumeKey);
+    // A lower cumulative volume means the day rolled over
+    const volume = lastVolume === undefined ? 0 : cumulativeVolume >= lastVolume ? cumulativeVolume - lastVolume : cumulativeVolume;
+    this.lastVolumes.set(volumeKey, cumulativeVolume);
+
+    for (const interval of CANDLE_INTERVALS) {
+      const key = `${volumeKey}:${interval}`;
+      const current = this.liveCandles.get(key);
+      const next = applyTick(current, { symbol, exchange, price, volume, time }, interval);
+      if (current && current.start !== next.start) {
+        this.storeCandles([current]);
+      }
+      this.liveCandles.set(key, next);
+    }
+  }
+
+  /**
+   * Bars for a symbol between two times, oldest first, including the live bar
+   */
+  async getCandles(symbol: string, exchange: string, interval: CandleInterval, from: Date, to: Date): Promise<Candle[]> {
+    await this.ensureLoaded(symbol, exchange, interval, from, to);
+
+    const stored = await userDatabase.getCandles(symbol, exchange, interval, from.toISOString(), to.toISOString());
+    const live = this.liveCandles.get(`${symbol}:${exchange}:${interval}`);
+    const candles = live && live.start >= from.toISOString() && live.start <= to.toISOString()
+      ? mergeCandles(stored, [live])
+      : stored;
+    return candles;
+  }
+
+  /**
+   * Fetch the part of the range not fetched before. The end of a loaded range
+   * is the time it was fetched, so later requests pick up newer bars.
+   */
+  private async ensureLoaded(symbol: string, exchange: string, interval: CandleInterval, from: Date, to: Date): Promise<void> {
+    const key = `${symbol}:${exchange}:${interval}`;
+    const loaded = this.loadedRanges.get(key);
+    const fetchedAt = Date.now();
+    const end = Math.min(to.getTime(), fetchedAt);
+
+    let fetchFrom = from.getTime();
+    if (loaded && loaded.from <= fetchFrom) {
+      if (loaded.to + CANDLE_INTERVAL_MS[interval] > end) {
+        return;
+      }
+      // Refetch the bar that was still open at the last fetch
+      fetchFrom = Math.max(fetchFrom, getCandleStart(new Date(loaded.to), interval).getTime());
+    }
+
+    const candles = await this.fetchCandles(symbol, exchange, interval, new Date(fetchFrom), new Date(end));
+    if (candles.length > 0) {
+      await this.storeCandles(candles);
+    }
+
+    this.loadedRanges.set(key, {
+      from: loaded ? Math.min(loaded.from, from.getTime()) : from.getTime(),
+      to: Math.max(loaded?.to || 0, end)
+    });
+  }
+
+  private async fetchCandles(symbol: string, exchange: string, interval: CandleInterval, from: Date, to: Date): Promise<Candle[]> {
+    for (const brokerName of HISTORY_BROKERS) {
+      const connection = enhancedUnifiedBrokerManager.getBrokerConnections(brokerName)
+        .find(candidate => candidate.isActive);
+      if (!connection) {
+        continue;
+      }
+
+      try {
+        const bars = await connection.service.getCandles(symbol, exchange, interval, from, to);
+        if (bars.length > 0) {
+          return bars.map(bar => ({
+            symbol,
+            exchange,
+            interval,
+            start: bar.time,
+            open: bar.open,
+            high: bar.high,
+            low: bar.low,
+            close: bar.close,
+            volume: bar.volume,
+            source: 'broker' as const
+          }));
+        }
+      } catch (error: any) {
+        logger.warn('Failed to fetch candles from broker', {
+          component: 'CANDLE_SERVICE',
+          operation: 'FETCH_CANDLES',
+          brokerName,
+          symbol,
+          exchange,
+          interval
+        }, error);
+      }
+    }
+
+    const fromTime = from.toISOString();
+    const toTime = to.toISOString();
+    return this.readCandleFile(symbol, exchange, interval)
+      .filter(candle => candle.start >= fromTime && candle.start <= toTime);
+  }
+
+  /**
+   * Bars from data/candles/EXCHANGE_SYMBOL_interval.csv, or rolled up from
+   * the 1m file when there is none for the interval
+   */
+  private readCandleFile(symbol: string, exchange: string, interval: CandleInterval): Candle[] {
+    const fileFor = (fileInterval: CandleInterval) =>
+      path.join(this.DATA_DIR, `${exchange.toUpperCase()}_${symbol.toUpperCase()}_${fileInterval}.csv`);
+
+    try {
+      const file = fileFor(interval);
+      if (fs.existsSync(file)) {
+        return parseCandleCsv(fs.readFileSync(file, 'utf8'), symbol, exchange, interval);
+      }
+
+      const minuteFile = fileFor('1m');
+      if (interval !== '1d' && fs.existsSync(minuteFile)) {
+        return aggregateCandles(parseCandleCsv(fs.readFileSync(minuteFile, 'utf8'), symbol, exchange, '1m'), interval);
+      }
+    } catch (error: any) {
+      logger.warn('Failed to read candle file', {
+        component: 'CANDLE_SERVICE',
+        operation: 'READ_CANDLE_FILE',
+        symbol,
+        exchange,
+        interval
+      }, error);
+    }
+    return [];
+  }
+
+  private async storeCandles(candles: Candle[]): Promise<void> {
+    try {
+      await userDatabase.upsertCandles(candles);
+    } catch (error: any) {
+      logger.error('Failed to store candles', {
+        component: 'CANDLE_SERVICE',
+        operation: 'STORE_CANDLES',
+        count: candles.length
+      }, error);
+    }
+  }
+}
+
+export const candleService = new CandleService();
@@ -0,0 +1,433 @@
+/**
+ * Copy Trading Service
+ * Polls master accounts through the unified broker interface and replicates
+ * new orders, modifications and cancellations to linked follower accounts.
+ */
+
+import { logger } from '../utils/logger';
+import { userDatabase } from './databaseCompatibility';
+import { enhancedUnifiedBrokerManager } from './enhancedUnifiedBrokerManager';
+import websocketService from './websocketService';
+import { BaseOrderRequest, ensureAccountActive, placeOrderOnAccount } from './orderPlacementService';
+import { positionSizingService } from './positionSizingService';
+import { accountAccessService } from './accountAccessService';
+import { ConnectedAccount, CopyTradeLink } from '../interfaces/IDatabaseAdapter';
+import {
+  MasterOrderSnapshot,
+  diffMasterOrders,
+  normalizeMasterOrderBook,
+  toBrokerOrderModification
+} from '../utils/masterOrderNormalizer';
+
+export class CopyTradingService {
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isPolling: boolean = false;
+  private readonly POLL_INTERVAL = 5000; // 5 seconds
+
+  // Last seen order book per master account (database account ID -> broker order ID -> snapshot)
+  private snapshots: Map<string, Map<string, MasterOrderSnapshot>> = new Map();
+
+  /**
+   * Start polling master accounts
+   */
+  start(): void {
+    if (this.pollInterval) {
+      return;
+    }
+
+    this.pollInterval = setInterval(() => {
+      this.pollMasters().catch(error => {
+        logger.error('Copy trading poll failed', {
+          component: 'COPY_TRADING',
+          operation: 'POLL_MASTERS'
+        }, error);
+      });
+    }, this.POLL_INTERVAL);
+
+    logger.info('Copy trading engine started', {
+      component: 'COPY_TRADING',
+      operation: 'START',
+      pollInterval: this.POLL_INTERVAL
+    });
+  }
+
+  /**
+   * Stop polling master accounts
+   */
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+    this.snapshots.clear();
+
+    logger.info('Copy trading engine stopped', {
+      component: 'COPY_TRADING',
+      operation: 'STOP'
+    });
+  }
+
+  isRunning(): boolean {
+    return this.pollInterval !== null;
+  }
+
+  /**
+   * Forget the cached order book of a master so the next poll re-seeds it
+   * instead of treating every existing order as new.
+   */
+  resetMaster(masterAccountId: string): void {
+    this.snapshots.delete(masterAccountId);
+  }
+
+  /**
+   * Poll every master account that has at least one active follower
+   */
+  async pollMasters(): Promise<void> {
+    // Skip if the previous poll is still running
+    if (this.isPolling) {
+      return;
+    }
+
+    this.isPolling = true;
+    try {
+      const links = await userDatabase.getActiveCopyTradeLinks();
+
+      const linksByMaster = new Map<string, CopyTradeLink[]>();
+      for (const link of links) {
+        const masterLinks = linksByMaster.get(link.master_account_id) || [];
+        masterLinks.push(link);
+        linksByMaster.set(link.master_account_id, masterLinks);
+      }
+
+      // Drop snapshots of masters that no longer have followers
+      for (const masterAccountId of this.snapshots.keys()) {
+        if (!linksByMaster.has(masterAccountId)) {
+          this.snapshots.delete(masterAccountId);
+        }
+      }
+
+      for (const [masterAccountId, masterLinks] of linksByMaster) {
+        try {
+          await this.processMaster(masterAccountId, masterLinks);
+        } catch (error) {
+          logger.error('Failed to process master account', {
+            component: 'COPY_TRADING',
+            operation: 'PROCESS_MASTER',
+            accountId: masterAccountId
+          }, error);
+        }
+      }
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Fetch the master's order book, diff it against the last snapshot and
+   * replicate the changes to followers
+   */
+  private async processMaster(masterAccountId: string, links: CopyTradeLink[]): Promise<void> {
+    const masterAccount = await userDatabase.getConnectedAccountById(masterAccountId);
+    if (!masterAccount) {
+      return;
+    }
+
+    const userId = masterAccount.user_id.toString();
+    const brokerService = enhancedUnifiedBrokerManager.getBrokerService(userId, masterAccount.broker_name, masterAccount.account_id);
+    if (!brokerService) {
+      // Master is not connected - nothing to mirror until it is activated again
+      return;
+    }
+
+    const orderBook = await brokerService.getOrderHistory(masterAccount.account_id);
+    const currentOrders = normalizeMasterOrderBook(masterAccount.broker_name, orderBook);
+    const previousOrders = this.snapshots.get(masterAccountId);
+
+    this.snapshots.set(masterAccountId, new Map(currentOrders.map(order => [order.brokerOrderId, order])));
+
+    // First poll only seeds the snapshot so existing orders are not copied again
+    if (!previousOrders) {
+      logger.info('Seeded master order snapshot', {
+        component: 'COPY_TRADING',
+        operation: 'SEED_SNAPSHOT',
+        accountId: masterAccount.account_id,
+        orderCount: currentOrders.length
+      });
+      return;
+    }
+
+    const diff = diffMasterOrders(previousOrders, currentOrders);
+
+    for (const order of diff.placed) {
+      await this.copyToFollowers(masterAccount, order, links);
+    }
+    for (const order of diff.modified) {
+      await this.modifyFollowerOrders(masterAccount, order);
+    }
+    for (const order of diff.cancelled) {
+      await this.cancelFollowerOrders(masterAccount, order);
+    }
+  }
+
+  /**
+   * Place a new master order on every follower that has not copied it yet
+   */
+  private async copyToFollowers(masterAccount: ConnectedAccount, order: MasterOrderSnapshot, links: CopyTradeLink[]): Promise<void> {
+    const masterAccountId = masterAccount.id.toString();
+
+    for (const link of links) {
+      try {
+        const alreadyCopied = await userDatabase.getCopiedOrder(masterAccountId, order.brokerOrderId, link.follower_account_id);
+        if (alreadyCopied) {
+          continue;
+        }
+
+        // Links through a workspace stop copying once the grant behind them is revoked
+        const [masterAccess, followerAccess] = await Promise.all([
+          accountAccessService.checkAccess(link.user_id, masterAccountId, 'VIEW'),
+          accountAccessService.checkAccess(link.user_id, link.follower_account_id, 'TRADE')
+        ]);
+        if (!masterAccess || !followerAccess) {
+          continue;
+        }
+        const followerAccount = followerAccess.account;
+
+        // Scale the master quantity with the follower's sizing rule
+        const [followerSizing] = await positionSizingService.sizeForAccounts([followerAccount], order);
+        const sizing = followerSizing!.sizing;
+        if (sizing.quantity <= 0) {
+          const skippedOrder = await userDatabase.createCopiedOrder({
+            user_id: link.user_id,
+            link_id: link.id,
+            master_account_id: masterAccountId,
+            master_broker_order_id: order.brokerOrderId,
+            follower_account_id: link.follower_account_id,
+            status: 'FAILED',
+            symbol: order.symbol,
+            action: order.action,
+            quantity: 0,
+            price: order.price,
+            trigger_price: order.triggerPrice,
+            order_type: order.orderType,
+            error_message: sizing.note || 'Computed quantity is zero'
+          });
+
+          websocketService.sendToUser(link.user_id, 'copyTradeUpdate', {
+            type: 'COPY_FAILED',
+            copiedOrder: skippedOrder,
+            masterAccount: `${masterAccount.broker_name} (${masterAccount.account_id})`,
+            followerAccount: `${followerAccount.broker_name} (${followerAccount.account_id})`,
+            error: sizing.note || 'Computed quantity is zero',
+            timestamp: new Date().toISOString()
+          });
+          continue;
+        }
+
+        const orderRequest: BaseOrderRequest = {
+          symbol: order.symbol,
+          action: order.action,
+          quantity: sizing.quantity,
+          orderType: order.orderType,
+          price: order.price || undefined,
+          triggerPrice: order.triggerPrice || undefined,
+          exchange: order.exchange,
+          productType: order.productType,
+          validity: 'DAY',
+          remarks: `Copied from ${masterAccount.broker_name} (${masterAccount.account_id}) order ${order.brokerOrderId}`
+        };
+
+        const { success, result } = await placeOrderOnAccount(link.user_id, followerAccount, orderRequest, {
+          source: 'COPY_TRADE',
+          parent_broker_order_id: order.brokerOrderId,
+          master_account_id: masterAccountId
+        });
+
+        const copiedOrder = await userDatabase.createCopiedOrder({
+          user_id: link.user_id,
+          link_id: link.id,
+          master_account_id: masterAccountId,
+          master_broker_order_id: order.brokerOrderId,
+          follower_account_id: link.follower_account_id,
+          ...(result.orderHistoryId && { follower_order_id: result.orderHistoryId }),
+          ...(result.orderId && { follower_broker_order_id: result.orderId }),
+          status: success ? 'COPIED' : 'FAILED',
+          symbol: order.symbol,
+          action: order.action,
+          quantity: orderRequest.quantity,
+          price: order.price,
+          trigger_price: order.triggerPrice,
+          order_type: order.orderType,
+          ...(result.error && { error_message: result.error })
+        });
+
+        logger.info(success ? 'Master order copied to follower' : 'Failed to copy master order to follower', {
+          component: 'COPY_TRADING',
+          operation: 'COPY_ORDER',
+          userId: link.user_id,
+          accountId: followerAccount.account_id,
+          orderId: order.brokerOrderId
+        });
+
+        websocketService.sendToUser(link.user_id, 'copyTradeUpdate', {
+          type: success ? 'ORDER_COPIED' : 'COPY_FAILED',
+          copiedOrder,
+          masterAccount: `${masterAccount.broker_name} (${masterAccount.account_id})`,
+          followerAccount: result.accountDisplayName,
+          error: result.error,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Failed to copy master order', {
+          component: 'COPY_TRADING',
+          operation: 'COPY_ORDER',
+          userId: link.user_id,
+          orderId: order.brokerOrderId
+        }, error);
+      }
+    }
+  }
+
+  /**
+   * Mirror a modification of an open master order on follower orders
+   */
+  private async modifyFollowerOrders(masterAccount: ConnectedAccount, order: MasterOrderSnapshot): Promise<void> {
+    const copiedOrders = await userDatabase.getCopiedOrdersByMasterOrder(masterAccount.id.toString(), order.brokerOrderId);
+
+    for (const copiedOrder of copiedOrders) {
+      if (copiedOrder.status !== 'COPIED' || !copiedOrder.follower_broker_order_id) {
+        continue;
+      }
+
+      try {
+        const brokerService = await this.getFollowerBrokerService(copiedOrder.user_id, copiedOrder.follower_account_id);
+        if (!brokerService) {
+          continue;
+        }
+
+        const followerAccount = await userDatabase.getConnectedAccountById(copiedOrder.follower_account_id);
+        const [followerSizing] = followerAccount
+          ? await positionSizingService.sizeForAccounts([followerAccount], order)
+          : [];
+        const quantity = followerSizing && followerSizing.sizing.quantity > 0
+          ? followerSizing.sizing.quantity
+          : copiedOrder.quantity;
+
+        const modifications = followerAccount && toBrokerOrderModification(followerAccount.broker_name, { ...order, quantity });
+        if (!modifications) {
+          logger.warn('Follower broker does not support order modification', {
+            component: 'COPY_TRADING',
+            operation: 'MODIFY_ORDER',
+            orderId: copiedOrder.follower_broker_order_id,
+            brokerName: followerAccount?.broker_name
+          });
+          continue;
+        }
+
+        const modifyResult = await brokerService.modifyOrder(copiedOrder.follower_broker_order_id, modifications);
+        if (!modifyResult?.success) {
+          logger.warn('Follower order modification rejected', {
+            component: 'COPY_TRADING',
+            operation: 'MODIFY_ORDER',
+            orderId: copiedOrder.follower_broker_order_id,
+            message: modifyResult?.message
+          });
+          continue;
+        }
+
+        await userDatabase.updateCopiedOrder(copiedOrder.id, {
+          quantity,
+          price: order.price,
+          trigger_price: order.triggerPrice,
+          order_type: order.orderType
+        });
+
+        websocketService.sendToUser(copiedOrder.user_id, 'orderModified', {
+          orderId: copiedOrder.follower_order_id,
+          brokerOrderId: copiedOrder.follower_broker_order_id,
+          symbol: copiedOrder.symbol,
+          action: copiedOrder.action,
+          newQuantity: quantity,
+          newPrice: order.price,
+          orderType: order.orderType,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Failed to modify follower order', {
+          component: 'COPY_TRADING',
+          operation: 'MODIFY_ORDER',
+          orderId: copiedOrder.follower_broker_order_id
+        }, error);
+      }
+    }
+  }
+
+  /**
+   * Cancel follower orders when the master cancels its order
+   */
+  private async cancelFollowerOrders(masterAccount: ConnectedAccount, order: MasterOrderSnapshot): Promise<void> {
+    const copiedOrders = await userDatabase.getCopiedOrdersByMasterOrder(masterAccount.id.toString(), order.brokerOrderId);
+
+    for (const copiedOrder of copiedOrders) {
+      if (copiedOrder.status !== 'COPIED' || !copiedOrder.follower_broker_order_id) {
+        continue;
+      }
+
+      try {
+        const brokerService = await this.getFollowerBrokerService(copiedOrder.user_id, copiedOrder.follower_account_id);
+        if (!brokerService) {
+          continue;
+        }
+
+        const cancelResult = await brokerService.cancelOrder(copiedOrder.follower_broker_order_id);
+        if (!cancelResult?.success) {
+          logger.warn('Follower order cancellation rejected', {
+            component: 'COPY_TRADING',
+            operation: 'CANCEL_ORDER',
+            orderId: copiedOrder.follower_broker_order_id,
+            message: cancelResult?.message
+          });
+          continue;
+        }
+
+        await userDatabase.updateCopiedOrder(copiedOrder.id, { status: 'CANCELLED' });
+        await userDatabase.updateOrderStatusByBrokerOrderId(copiedOrder.follower_broker_order_id, 'CANCELLED');
+
+        websocketService.sendToUser(copiedOrder.user_id, 'orderStatusUpdate', {
+          orderId: copiedOrder.follower_order_id,
+          brokerOrderId: copiedOrder.follower_broker_order_id,
+          symbol: copiedOrder.symbol,
+          action: copiedOrder.action,
+          quantity: copiedOrder.quantity,
+          price: copiedOrder.price,
+          newStatus: 'CANCELLED',
+          orderType: copiedOrder.order_type,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Failed to cancel follower order', {
+          component: 'COPY_TRADING',
+          operation: 'CANCEL_ORDER',
+          orderId: copiedOrder.follower_broker_order_id
+        }, error);
+      }
+    }
+  }
+
+  // The follower's broker connection is its owner's, also when the link belongs to a workspace member
+  private async getFollowerBrokerService(userId: string, followerAccountId: string) {
+    const access = await accountAccessService.checkAccess(userId, followerAccountId, 'TRADE');
+    if (!access) {
+      return null;
+    }
+    const followerAccount = access.account;
+
+    const isAccountActive = await ensureAccountActive(access.ownerId, followerAccountId);
+    if (!isAccountActive) {
+      return null;
+    }
+
+    return enhancedUnifiedBrokerManager.getBrokerService(access.ownerId, followerAccount.broker_name, followerAccount.account_id);
+  }
+}
+
+export const copyTradingService = new CopyTradingService();
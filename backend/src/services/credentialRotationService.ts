@@ -0,0 +1,156 @@
+/**
+ * Credential Rotation Service
+ * Re-encrypts every connected account's credentials, every user's two-factor
+ * secrets and the signing secrets of API keys and webhooks under the active
+ * master key after a key rotation.
+ * Records are walked in batches in the background; those encrypted under
+ * older keys stay readable until they are reached, so brokers keep trading
+ * and users keep signing in while the job runs.
+ */
+
+import { logger } from '../utils/logger';
+import { userDatabase } from './databaseCompatibility';
+import { CredentialKeyStatus } from '../interfaces/IDatabaseAdapter';
+
+export type CredentialRotationState = 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+type RecordIdField = 'accountId' | 'userId' | 'apiKeyId' | 'webhookId';
+
+// The record that could not be re-encrypted, e.g. { userId, error }
+type CredentialRotationFailure = Partial<Record<RecordIdField, string>> & { error: string };
+
+export interface CredentialRotationJob {
+  id: string;
+  state: CredentialRotationState;
+  triggeredBy: string;
+  targetVersion: number;
+  rotated: number;
+  skipped: number;  // changed by a concurrent save, which already used the active key
+  failed: CredentialRotationFailure[];
+  startedAt: string;
+  finishedAt: string | null;
+  error: string | null;
+}
+
+class CredentialRotationService {
+  private readonly BATCH_SIZE = 50;
+  private currentJob: CredentialRotationJob | null = null;
+
+  getCurrentJob(): CredentialRotationJob | null {
+    return this.currentJob;
+  }
+
+  async getKeyStatus(): Promise<CredentialKeyStatus> {
+    return await userDatabase.getCredentialKeyStatus();
+  }
+
+  /**
+   * Start re-encrypting credentials; returns the running job if one is
+   * already in progress
+   */
+  async startRotation(triggeredBy: string): Promise<CredentialRotationJob> {
+    if (this.currentJob?.state === 'RUNNING') {
+      return this.currentJob;
+    }
+
+    const { activeVersion } = await userDatabase.getCredentialKeyStatus();
+    const job: CredentialRotationJob = {
+      id: `rotation_${Date.now()}`,
+      state: 'RUNNING',
+      triggeredBy,
+      targetVersion: activeVersion,
+      rotated: 0,
+      skipped: 0,
+      failed: [],
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      error: null
+    };
+    this.currentJob = job;
+
+    logger.info('Credential rotation started', {
+      component: 'CREDENTIAL_ROTATION',
+      operation: 'START',
+      jobId: job.id,
+      targetVersion: activeVersion,
+      triggeredBy
+    });
+
+    this.runJob(job).catch(error => {
+      job.state = 'FAILED';
+      job.error = error.message;
+      job.finishedAt = new Date().toISOString();
+      logger.error('Credential rotation failed', {
+        component: 'CREDENTIAL_ROTATION',
+        operation: 'RUN',
+        jobId: job.id
+      }, error);
+    });
+
+    return job;
+  }
+
+  private async runJob(job: CredentialRotationJob): Promise<void> {
+    await this.rotateRecords(job, 'accountId',
+      async (afterAccountId, limit) => (await userDatabase.getAccountsForCredentialRotation(afterAccountId, limit))
+        .map(account => account.id.toString()),
+      accountId => userDatabase.reencryptAccountCredentials(accountId));
+
+    // Then the secrets encrypted with the same keys: two-factor secrets and API key and webhook signing secrets
+    await this.rotateRecords(job, 'userId',
+      (afterUserId, limit) => userDatabase.getUsersForSecretRotation(afterUserId, limit),
+      userId => userDatabase.reencryptUserSecrets(userId));
+    await this.rotateRecords(job, 'apiKeyId',
+      (afterApiKeyId, limit) => userDatabase.getApiKeysForSecretRotation(afterApiKeyId, limit),
+      apiKeyId => userDatabase.reencryptApiKeySecret(apiKeyId));
+    await this.rotateRecords(job, 'webhookId',
+      (afterWebhookId, limit) => userDatabase.getWebhooksForSecretRotation(afterWebhookId, limit),
+      webhookId => userDatabase.reencryptWebhookSecret(webhookId));
+
+    job.state = job.failed.length > 0 ? 'FAILED' : 'COMPLETED';
+    job.finishedAt = new Date().toISOString();
+
+    logger.info('Credential rotation finished', {
+      component: 'CREDENTIAL_ROTATION',
+      operation: 'FINISH',
+      jobId: job.id,
+      rotated: job.rotated,
+      skipped: job.skipped,
+      failed: job.failed.length
+    });
+  }
+
+  /**
+   * Re-encrypt one kind of record. Each is visited once in id order, so
+   * failures are not retried in a loop.
+   */
+  private async rotateRecords(
+    job: CredentialRotationJob,
+    idField: RecordIdField,
+    getIds: (afterId: string | null, limit: number) => Promise<string[]>,
+    reencrypt: (id: string) => Promise<boolean>
+  ): Promise<void> {
+    let afterId: string | null = null;
+    for (;;) {
+      const ids = await getIds(afterId, this.BATCH_SIZE);
+      if (ids.length === 0) {
+        break;
+      }
+
+      for (const id of ids) {
+        try {
+          if (await reencrypt(id)) {
+            job.rotated++;
+          } else {
+            job.skipped++;
+          }
+        } catch (error: any) {
+          job.failed.push({ [idField]: id, error: error.message });
+        }
+      }
+      afterId = ids[ids.length - 1]!;
+    }
+  }
+}
+
+export const credentialRotationService = new CredentialRotationService();
@@ -1,5 +1,50 @@
 import { getDatabase } from './databaseFactory';
-import { IDatabaseAdapter } from '../interfaces/IDatabaseAdapter';
+import {
+  IDatabaseAdapter,
+  CreateCopyTradeLinkData,
+  CreateCopiedOrderData,
+  UpdateCopiedOrderData,
+  UpsertAccountSizingRuleData,
+  UpsertRiskLimitsData,
+  UpsertKillSwitchData,
+  CreateKillSwitchEventData,
+  UpsertSquareOffSettingsData,
+  CreateSquareOffRunData,
+  OrderErrorType,
+  CreateOrderTemplateData,
+  UpdateOrderTemplateData,
+  CreateAdvancedOrderData,
+  UpdateAdvancedOrderData,
+  AdvancedOrderStatus,
+  CreateOrderModificationData,
+  CreateStrategyOrderData,
+  UpdateStrategyOrderData,
+  CreateLedgerFillData,
+  Candle,
+  CreatePriceAlertData,
+  UpdatePriceAlertData,
+  CreateAuditEventData,
+  AuditEventFilters,
+  CreateAuthSessionData,
+  UpdateAuthSessionData,
+  CreateWorkspaceData,
+  CreateWorkspaceMemberData,
+  WorkspaceRole,
+  CreateAccountGrantData,
+  AccountGrantFilters,
+  AccountPermission,
+  CreateApiKeyData,
+  UpdateApiKeyData,
+  CreateSignalData,
+  UpdateSignalData,
+  SignalFilters,
+  WebhookEvent,
+  CreateWebhookSubscriptionData,
+  UpdateWebhookSubscriptionData,
+  CreateWebhookDeliveryData,
+  UpdateWebhookDeliveryData,
+  WebhookDeliveryFilters
+} from '../interfaces/IDatabaseAdapter';
 
 /**
  * Database Compatibility Layer
@@ -21,7 +66,7 @@ class DatabaseCompatibilityLayer {
     return await db.createUser(userData);
   }
 
-  async findUserById(id: number) {
+  async findUserById(id: number | string) {
     const db = await this.getDb();
     return await db.findUserById(id);
   }
@@ -31,11 +76,16 @@ class DatabaseCompatibilityLayer {
     return await db.findUserByEmail(email);
   }
 
-  async updateUser(id: number, userData: any) {
+  async updateUser(id: number | string, userData: any) {
     const db = await this.getDb();
     return await db.updateUser(id, userData);
   }
 
+  async claimTwoFactorStep(id: number | string, step: number) {
+    const db = await this.getDb();
+    return await db.claimTwoFactorStep(id, step);
+  }
+
   async deleteUser(id: number) {
     const db = await this.getDb();
     return await db.deleteUser(id);
@@ -145,6 +195,11 @@ class DatabaseCompatibilityLayer {
     return await db.getOrderCountByUserIdWithFilters(userId, filters);
   }
 
+  async getOpenOrders() {
+    const db = await this.getDb();
+    return await db.getOpenOrders();
+  }
+
   // Notification methods
   async saveUserNotificationPreferences(preferences: any) {
     const db = await this.getDb();
@@ -223,7 +278,7 @@ class DatabaseCompatibilityLayer {
     status: string;
     error_message?: string;
     error_code?: string;
-    error_type?: 'NETWORK' | 'BROKER' | 'VALIDATION' | 'AUTH' | 'SYSTEM' | 'MARKET';
+    error_type?: OrderErrorType;
     failure_reason?: string;
     is_retryable?: boolean;
   }) {
@@ -246,7 +301,7 @@ class DatabaseCompatibilityLayer {
     rejection_reason?: string;
     error_message?: string;
     error_code?: string;
-    error_type?: 'NETWORK' | 'BROKER' | 'VALIDATION' | 'AUTH' | 'SYSTEM' | 'MARKET';
+    error_type?: OrderErrorType;
     failure_reason?: string;
     is_retryable?: boolean;
     last_updated?: Date;
@@ -258,6 +313,607 @@ class DatabaseCompatibilityLayer {
     return null;
   }
 
+  // Copy trading methods
+  async createCopyTradeLink(linkData: CreateCopyTradeLinkData) {
+    const db = await this.getDb();
+    return await db.createCopyTradeLink(linkData);
+  }
+
+  async getCopyTradeLinkById(id: string) {
+    const db = await this.getDb();
+    return await db.getCopyTradeLinkById(id);
+  }
+
+  async getCopyTradeLinksByUserId(userId: string) {
+    const db = await this.getDb();
+    return await db.getCopyTradeLinksByUserId(userId);
+  }
+
+  async getCopyTradeLinksByAccountIds(accountIds: string[]) {
+    const db = await this.getDb();
+    return await db.getCopyTradeLinksByAccountIds(accountIds);
+  }
+
+  async getActiveCopyTradeLinks() {
+    const db = await this.getDb();
+    return await db.getActiveCopyTradeLinks();
+  }
+
+  async updateCopyTradeLink(id: string, linkData: Partial<CreateCopyTradeLinkData>) {
+    const db = await this.getDb();
+    return await db.updateCopyTradeLink(id, linkData);
+  }
+
+  async deleteCopyTradeLink(id: string) {
+    const db = await this.getDb();
+    return await db.deleteCopyTradeLink(id);
+  }
+
+  async createCopiedOrder(orderData: CreateCopiedOrderData) {
+    const db = await this.getDb();
+    return await db.createCopiedOrder(orderData);
+  }
+
+  async getCopiedOrder(masterAccountId: string, masterBrokerOrderId: string, followerAccountId: string) {
+    const db = await this.getDb();
+    return await db.getCopiedOrder(masterAccountId, masterBrokerOrderId, followerAccountId);
+  }
+
+  async getCopiedOrdersByMasterOrder(masterAccountId: string, masterBrokerOrderId: string) {
+    const db = await this.getDb();
+    return await db.getCopiedOrdersByMasterOrder(masterAccountId, masterBrokerOrderId);
+  }
+
+  async getCopiedOrdersByUserId(userId: string, limit?: number, offset?: number) {
+    const db = await this.getDb();
+    return await db.getCopiedOrdersByUserId(userId, limit, offset);
+  }
+
+  async updateCopiedOrder(id: string, updateData: UpdateCopiedOrderData) {
+    const db = await this.getDb();
+    return await db.updateCopiedOrder(id, updateData);
+  }
+
+  // Position sizing methods
+  async getSizingRuleByAccountId(accountId: string) {
+    const db = await this.getDb();
+    return await db.getSizingRuleByAccountId(accountId);
+  }
+
+  async getSizingRulesByUserId(userId: string) {
+    const db = await this.getDb();
+    return await db.getSizingRulesByUserId(userId);
+  }
+
+  async upsertSizingRule(ruleData: UpsertAccountSizingRuleData) {
+    const db = await this.getDb();
+    return await db.upsertSizingRule(ruleData);
+  }
+
+  async deleteSizingRule(accountId: string) {
+    const db = await this.getDb();
+    return await db.deleteSizingRule(accountId);
+  }
+
+  // Risk limit methods
+  async getRiskLimits(userId: string, accountId: string | null) {
+    const db = await this.getDb();
+    return await db.getRiskLimits(userId, accountId);
+  }
+
+  async getRiskLimitsByUserId(userId: string) {
+    const db = await this.getDb();
+    return await db.getRiskLimitsByUserId(userId);
+  }
+
+  async upsertRiskLimits(limitsData: UpsertRiskLimitsData) {
+    const db = await this.getDb();
+    return await db.upsertRiskLimits(limitsData);
+  }
+
+  async deleteRiskLimits(userId: string, accountId: string | null) {
+    const db = await this.getDb();
+    return await db.deleteRiskLimits(userId, accountId);
+  }
+
+  // Kill switch methods
+  async getKillSwitchesByUserId(userId: string) {
+    const db = await this.getDb();
+    return await db.getKillSwitchesByUserId(userId);
+  }
+
+  async upsertKillSwitch(switchData: UpsertKillSwitchData) {
+    const db = await this.getDb();
+    return await db.upsertKillSwitch(switchData);
+  }
+
+  async createKillSwitchEvent(eventData: CreateKillSwitchEventData) {
+    const db = await this.getDb();
+    return await db.createKillSwitchEvent(eventData);
+  }
+
+  async getKillSwitchEventsByUserId(userId: string, limit?: number) {
+    const db = await this.getDb();
+    return await db.getKillSwitchEventsByUserId(userId, limit);
+  }
+
+  // Intraday square-off methods
+  async getSquareOffSettingsByUserId(userId: string) {
+    const db = await this.getDb();
+    return await db.getSquareOffSettingsByUserId(userId);
+  }
+
+  async getEnabledSquareOffSettings() {
+    const db = await this.getDb();
+    return await db.getEnabledSquareOffSettings();
+  }
+
+  async upsertSquareOffSettings(settingsData: UpsertSquareOffSettingsData) {
+    const db = await this.getDb();
+    return await db.upsertSquareOffSettings(settingsData);
+  }
+
+  async deleteSquareOffSettings(userId: string, accountId: string | null) {
+    const db = await this.getDb();
+    return await db.deleteSquareOffSettings(userId, accountId);
+  }
+
+  async createSquareOffRun(runData: CreateSquareOffRunData) {
+    const db = await this.getDb();
+    return await db.createSquareOffRun(runData);
+  }
+
+  async getSquareOffRunsByUserId(userId: string, limit?: number) {
+    const db = await this.getDb();
+    return await db.getSquareOffRunsByUserId(userId, limit);
+  }
+
+  async hasScheduledSquareOffRun(accountId: string, tradingDate: string) {
+    const db = await this.getDb();
+    return await db.hasScheduledSquareOffRun(accountId, tradingDate);
+  }
+
+  // Advanced order methods
+  async createOrderTemplate(templateData: CreateOrderTemplateData) {
+    const db = await this.getDb();
+    return await db.createOrderTemplate(templateData);
+  }
+
+  async getOrderTemplateById(id: string) {
+    const db = await this.getDb();
+    return await db.getOrderTemplateById(id);
+  }
+
+  async getOrderTemplatesByUserId(userId: string, activeOnly?: boolean) {
+    const db = await this.getDb();
+    return await db.getOrderTemplatesByUserId(userId, activeOnly);
+  }
+
+  async updateOrderTemplate(id: string, updateData: UpdateOrderTemplateData) {
+    const db = await this.getDb();
+    return await db.updateOrderTemplate(id, updateData);
+  }
+
+  async deleteOrderTemplate(id: string) {
+    const db = await this.getDb();
+    return await db.deleteOrderTemplate(id);
+  }
+
+  async createAdvancedOrder(orderData: CreateAdvancedOrderData) {
+    const db = await this.getDb();
+    return await db.createAdvancedOrder(orderData);
+  }
+
+  async getAdvancedOrderById(id: string) {
+    const db = await this.getDb();
+    return await db.getAdvancedOrderById(id);
+  }
+
+  async getAdvancedOrdersByUserId(userId: string, status?: AdvancedOrderStatus) {
+    const db = await this.getDb();
+    return await db.getAdvancedOrdersByUserId(userId, status);
+  }
+
+  async getAdvancedOrdersByGroupId(orderGroupId: string) {
+    const db = await this.getDb();
+    return await db.getAdvancedOrdersByGroupId(orderGroupId);
+  }
+
+  async getOpenAdvancedOrders() {
+    const db = await this.getDb();
+    return await db.getOpenAdvancedOrders();
+  }
+
+  async updateAdvancedOrder(id: string, updateData: UpdateAdvancedOrderData) {
+    const db = await this.getDb();
+    return await db.updateAdvancedOrder(id, updateData);
+  }
+
+  async createOrderModification(modificationData: CreateOrderModificationData) {
+    const db = await this.getDb();
+    return await db.createOrderModification(modificationData);
+  }
+
+  async getOrderModificationsByOrderId(orderId: string) {
+    const db = await this.getDb();
+    return await db.getOrderModificationsByOrderId(orderId);
+  }
+
+  // Strategy Orders
+  async createStrategyOrder(strategyData: CreateStrategyOrderData) {
+    const db = await this.getDb();
+    return await db.createStrategyOrder(strategyData);
+  }
+
+  async getStrategyOrderById(id: string) {
+    const db = await this.getDb();
+    return await db.getStrategyOrderById(id);
+  }
+
+  async getStrategyOrdersByUserId(userId: string, limit?: number) {
+    const db = await this.getDb();
+    return await db.getStrategyOrdersByUserId(userId, limit);
+  }
+
+  async updateStrategyOrder(id: string, updateData: UpdateStrategyOrderData) {
+    const db = await this.getDb();
+    return await db.updateStrategyOrder(id, updateData);
+  }
+
+  // Trade Ledger
+  async getExecutedOrdersByUserId(userId: string) {
+    const db = await this.getDb();
+    return await db.getExecutedOrdersByUserId(userId);
+  }
+
+  async createLedgerFills(fills: CreateLedgerFillData[]) {
+    const db = await this.getDb();
+    return await db.createLedgerFills(fills);
+  }
+
+  async getLedgerFillsByUserId(userId: string, accountId?: string) {
+    const db = await this.getDb();
+    return await db.getLedgerFillsByUserId(userId, accountId);
+  }
+
+  // Credential key rotation
+  async getCredentialKeyStatus() {
+    const db = await this.getDb();
+    return await db.getCredentialKeyStatus();
+  }
+
+  async getAccountsForCredentialRotation(afterId: string | null, limit: number) {
+    const db = await this.getDb();
+    return await db.getAccountsForCredentialRotation(afterId, limit);
+  }
+
+  async reencryptAccountCredentials(id: string) {
+    const db = await this.getDb();
+    return await db.reencryptAccountCredentials(id);
+  }
+
+  async getUsersForSecretRotation(afterId: string | null, limit: number) {
+    const db = await this.getDb();
+    return await db.getUsersForSecretRotation(afterId, limit);
+  }
+
+  async reencryptUserSecrets(id: string) {
+    const db = await this.getDb();
+    return await db.reencryptUserSecrets(id);
+  }
+
+  async getApiKeysForSecretRotation(afterId: string | null, limit: number) {
+    const db = await this.getDb();
+    return await db.getApiKeysForSecretRotation(afterId, limit);
+  }
+
+  async reencryptApiKeySecret(id: string) {
+    const db = await this.getDb();
+    return await db.reencryptApiKeySecret(id);
+  }
+
+  async getWebhooksForSecretRotation(afterId: string | null, limit: number) {
+    const db = await this.getDb();
+    return await db.getWebhooksForSecretRotation(afterId, limit);
+  }
+
+  async reencryptWebhookSecret(id: string) {
+    const db = await this.getDb();
+    return await db.reencryptWebhookSecret(id);
+  }
+
+  // Candles
+  async upsertCandles(candles: Candle[]) {
+    const db = await this.getDb();
+    return await db.upsertCandles(candles);
+  }
+
+  async getCandles(symbol: string, exchange: string, interval: Candle['interval'], from: string, to: string) {
+    const db = await this.getDb();
+    return await db.getCandles(symbol, exchange, interval, from, to);
+  }
+
+  // Price Alerts
+  async createPriceAlert(alertData: CreatePriceAlertData) {
+    const db = await this.getDb();
+    return await db.createPriceAlert(alertData);
+  }
+
+  async getPriceAlertById(id: string) {
+    const db = await this.getDb();
+    return await db.getPriceAlertById(id);
+  }
+
+  async getPriceAlertsByUserId(userId: string) {
+    const db = await this.getDb();
+    return await db.getPriceAlertsByUserId(userId);
+  }
+
+  async getActivePriceAlerts() {
+    const db = await this.getDb();
+    return await db.getActivePriceAlerts();
+  }
+
+  async updatePriceAlert(id: string, updateData: UpdatePriceAlertData) {
+    const db = await this.getDb();
+    return await db.updatePriceAlert(id, updateData);
+  }
+
+  async deletePriceAlert(id: string) {
+    const db = await this.getDb();
+    return await db.deletePriceAlert(id);
+  }
+
+  // Audit Trail
+  async createAuditEvent(eventData: CreateAuditEventData) {
+    const db = await this.getDb();
+    return await db.createAuditEvent(eventData);
+  }
+
+  async getLastAuditEvent() {
+    const db = await this.getDb();
+    return await db.getLastAuditEvent();
+  }
+
+  async searchAuditEvents(filters: AuditEventFilters, limit: number, offset: number) {
+    const db = await this.getDb();
+    return await db.searchAuditEvents(filters, limit, offset);
+  }
+
+  async getAuditEventsAfterSequence(sequence: number, limit: number) {
+    const db = await this.getDb();
+    return await db.getAuditEventsAfterSequence(sequence, limit);
+  }
+
+  async deleteAuditEventsBefore(before: string) {
+    const db = await this.getDb();
+    return await db.deleteAuditEventsBefore(before);
+  }
+
+  // Login Sessions
+  async createAuthSession(sessionData: CreateAuthSessionData) {
+    const db = await this.getDb();
+    return await db.createAuthSession(sessionData);
+  }
+
+  async getAuthSessionById(id: string) {
+    const db = await this.getDb();
+    return await db.getAuthSessionById(id);
+  }
+
+  async getActiveAuthSessionsByUserId(userId: string) {
+    const db = await this.getDb();
+    return await db.getActiveAuthSessionsByUserId(userId);
+  }
+
+  async updateAuthSession(id: string, updateData: UpdateAuthSessionData) {
+    const db = await this.getDb();
+    return await db.updateAuthSession(id, updateData);
+  }
+
+  async rotateAuthSessionRefreshToken(id: string, currentHash: string, nextHash: string, updateData: UpdateAuthSessionData) {
+    const db = await this.getDb();
+    return await db.rotateAuthSessionRefreshToken(id, currentHash, nextHash, updateData);
+  }
+
+  async revokeAuthSession(id: string, reason: string) {
+    const db = await this.getDb();
+    return await db.revokeAuthSession(id, reason);
+  }
+
+  async revokeAuthSessionsByUserId(userId: string, reason: string, exceptSessionId?: string) {
+    const db = await this.getDb();
+    return await db.revokeAuthSessionsByUserId(userId, reason, exceptSessionId);
+  }
+
+  // Workspaces
+  async createWorkspace(workspaceData: CreateWorkspaceData) {
+    const db = await this.getDb();
+    return await db.createWorkspace(workspaceData);
+  }
+
+  async getWorkspaceById(id: string) {
+    const db = await this.getDb();
+    return await db.getWorkspaceById(id);
+  }
+
+  async getWorkspacesByIds(ids: string[]) {
+    const db = await this.getDb();
+    return await db.getWorkspacesByIds(ids);
+  }
+
+  async addWorkspaceMember(memberData: CreateWorkspaceMemberData) {
+    const db = await this.getDb();
+    return await db.addWorkspaceMember(memberData);
+  }
+
+  async getWorkspaceMembers(workspaceId: string) {
+    const db = await this.getDb();
+    return await db.getWorkspaceMembers(workspaceId);
+  }
+
+  async getWorkspaceMembershipsByUserId(userId: string) {
+    const db = await this.getDb();
+    return await db.getWorkspaceMembershipsByUserId(userId);
+  }
+
+  async updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole) {
+    const db = await this.getDb();
+    return await db.updateWorkspaceMemberRole(workspaceId, userId, role);
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string) {
+    const db = await this.getDb();
+    return await db.removeWorkspaceMember(workspaceId, userId);
+  }
+
+  async createAccountGrant(grantData: CreateAccountGrantData) {
+    const db = await this.getDb();
+    return await db.createAccountGrant(grantData);
+  }
+
+  async getAccountGrantById(id: string) {
+    const db = await this.getDb();
+    return await db.getAccountGrantById(id);
+  }
+
+  async getActiveAccountGrants(filters: AccountGrantFilters) {
+    const db = await this.getDb();
+    return await db.getActiveAccountGrants(filters);
+  }
+
+  async updateAccountGrantPermissions(id: string, permissions: AccountPermission[]) {
+    const db = await this.getDb();
+    return await db.updateAccountGrantPermissions(id, permissions);
+  }
+
+  async revokeAccountGrant(id: string, revokedBy: string) {
+    const db = await this.getDb();
+    return await db.revokeAccountGrant(id, revokedBy);
+  }
+
+  async createApiKey(keyData: CreateApiKeyData) {
+    const db = await this.getDb();
+    return await db.createApiKey(keyData);
+  }
+
+  async getApiKeyById(id: string) {
+    const db = await this.getDb();
+    return await db.getApiKeyById(id);
+  }
+
+  async getApiKeyByHash(keyHash: string) {
+    const db = await this.getDb();
+    return await db.getApiKeyByHash(keyHash);
+  }
+
+  async getApiKeysByUserId(userId: string) {
+    const db = await this.getDb();
+    return await db.getApiKeysByUserId(userId);
+  }
+
+  async updateApiKey(id: string, updateData: UpdateApiKeyData) {
+    const db = await this.getDb();
+    return await db.updateApiKey(id, updateData);
+  }
+
+  async revokeApiKey(id: string) {
+    const db = await this.getDb();
+    return await db.revokeApiKey(id);
+  }
+
+  async createSignal(signalData: CreateSignalData) {
+    const db = await this.getDb();
+    return await db.createSignal(signalData);
+  }
+
+  async getSignalByIdempotencyKey(apiKeyId: string, idempotencyKey: string) {
+    const db = await this.getDb();
+    return await db.getSignalByIdempotencyKey(apiKeyId, idempotencyKey);
+  }
+
+  async updateSignal(id: string, updateData: UpdateSignalData) {
+    const db = await this.getDb();
+    return await db.updateSignal(id, updateData);
+  }
+
+  async getSignalsByUserId(userId: string, filters: SignalFilters, limit: number, offset: number) {
+    const db = await this.getDb();
+    return await db.getSignalsByUserId(userId, filters, limit, offset);
+  }
+
+  // Outbound Webhooks
+  async createWebhookSubscription(subscriptionData: CreateWebhookSubscriptionData) {
+    const db = await this.getDb();
+    return await db.createWebhookSubscription(subscriptionData);
+  }
+
+  async getWebhookSubscriptionById(id: string) {
+    const db = await this.getDb();
+    return await db.getWebhookSubscriptionById(id);
+  }
+
+  async getWebhookSubscriptionsByUserId(userId: string) {
+    const db = await this.getDb();
+    return await db.getWebhookSubscriptionsByUserId(userId);
+  }
+
+  async getWebhookSubscriptionsForEvent(userId: string, event: WebhookEvent) {
+    const db = await this.getDb();
+    return await db.getWebhookSubscriptionsForEvent(userId, event);
+  }
+
+  async updateWebhookSubscription(id: string, updateData: UpdateWebhookSubscriptionData) {
+    const db = await this.getDb();
+    return await db.updateWebhookSubscription(id, updateData);
+  }
+
+  async deleteWebhookSubscription(id: string) {
+    const db = await this.getDb();
+    return await db.deleteWebhookSubscription(id);
+  }
+
+  async createWebhookDelivery(deliveryData: CreateWebhookDeliveryData) {
+    const db = await this.getDb();
+    return await db.createWebhookDelivery(deliveryData);
+  }
+
+  async getWebhookDeliveryById(id: string) {
+    const db = await this.getDb();
+    return await db.getWebhookDeliveryById(id);
+  }
+
+  async updateWebhookDelivery(id: string, updateData: UpdateWebhookDeliveryData) {
+    const db = await this.getDb();
+    return await db.updateWebhookDelivery(id, updateData);
+  }
+
+  async getDueWebhookDeliveries(before: Date, limit: number) {
+    const db = await this.getDb();
+    return await db.getDueWebhookDeliveries(before, limit);
+  }
+
+  async getWebhookDeliveriesByUserId(userId: string, filters: WebhookDeliveryFilters, limit: number, offset: number) {
+    const db = await this.getDb();
+    return await db.getWebhookDeliveriesByUserId(userId, filters, limit, offset);
+  }
+
+  // Paper Trading
+  async getPaperAccountState(accountId: string) {
+    const db = await this.getDb();
+    return await db.getPaperAccountState(accountId);
+  }
+
+  async getPaperAccountStates() {
+    const db = await this.getDb();
+    return await db.getPaperAccountStates();
+  }
+
+  async savePaperAccountState(accountId: string, snapshot: Record<string, any>) {
+    const db = await this.getDb();
+    return await db.savePaperAccountState(accountId, snapshot);
+  }
+
   /**
    * Increment order retry count (string ID only)
    * @param id - String ID in MongoDB ObjectId format
@@ -0,0 +1,289 @@
+import axios from 'axios';
+import fs from 'fs';
+import path from 'path';
+import csv from 'csv-parser';
+import * as cron from 'node-cron';
+import { logger } from '../utils/logger';
+import {
+  DERIVATIVE_EXCHANGES,
+  DerivativeExchange,
+  DerivativeInstrument,
+  InstrumentSearchFilter,
+  InstrumentType,
+  OptionChain,
+  buildOptionChain,
+  filterInstruments,
+  getExpiries,
+  isDerivativeExchange,
+  normalizeTradingSymbol,
+  parseFyersInstrumentRow,
+  toISTDate,
+  validateLotSize
+} from '../utils/derivativeInstruments';
+
+/**
+ * Derivatives instrument master (NFO, BFO, MCX) built from the public Fyers
+ * symbol master files. Unlike the equity CSV services nothing is downloaded
+ * on import; start() loads the cache and schedules the daily refresh.
+ */
+class DerivativesCSVService {
+  private readonly CSV_URLS: Record<DerivativeExchange, string> = {
+    NFO: 'https://public.fyers.in/sym_details/NSE_FO.csv',
+    BFO: 'https://public.fyers.in/sym_details/BSE_FO.csv',
+    MCX: 'https://public.fyers.in/sym_details/MCX_COM.csv'
+  };
+  private readonly DATA_DIR = path.join(__dirname, '../../data');
+  private readonly JSON_FILE_PATH = path.join(this.DATA_DIR, 'derivative_instruments.json');
+  private instruments: DerivativeInstrument[] = [];
+  private bySymbol = new Map<string, DerivativeInstrument>();
+  private byUnderlying = new Map<string, DerivativeInstrument[]>();
+  private lastUpdated: Date | null = null;
+  private isUpdating = false;
+  private cronTask: cron.ScheduledTask | null = null;
+
+  /**
+   * Load the cached master and refresh it daily. Stale or missing data is
+   * downloaded in the background so startup isn't delayed.
+   */
+  start(): void {
+    if (this.cronTask) {
+      return;
+    }
+
+    this.loadExistingData();
+
+    // Exchanges publish new contracts before the open; refresh at 7:00 AM IST
+    this.cronTask = cron.schedule('0 7 * * *', async () => {
+      await this.refreshInBackground('DAILY_CRON_TRIGGER');
+    }, {
+      timezone: 'Asia/Kolkata'
+    });
+
+    if (!this.lastUpdated || toISTDate(this.lastUpdated) !== toISTDate(new Date())) {
+      this.refreshInBackground('CHECK_AND_DOWNLOAD_ON_STARTUP');
+    }
+  }
+
+  stop(): void {
+    if (this.cronTask) {
+      this.cronTask.stop();
+      this.cronTask = null;
+    }
+  }
+
+  /**
+   * Load existing data from JSON file
+   */
+  private loadExistingData(): void {
+    try {
+      if (!fs.existsSync(this.JSON_FILE_PATH)) {
+        return;
+      }
+      const parsed = JSON.parse(fs.readFileSync(this.JSON_FILE_PATH, 'utf8'));
+      this.setInstruments(parsed.instruments || [], parsed.lastUpdated ? new Date(parsed.lastUpdated) : null);
+
+      logger.info('Loaded derivative instruments from cache', {
+        component: 'DERIVATIVES_CSV_SERVICE',
+        operation: 'LOAD_EXISTING_DATA',
+        instrumentCount: this.instruments.length,
+        lastUpdated: this.lastUpdated?.toISOString()
+      });
+    } catch (error) {
+      logger.warn('Failed to load existing derivative instruments', {
+        component: 'DERIVATIVES_CSV_SERVICE',
+        operation: 'LOAD_EXISTING_DATA_ERROR'
+      }, error);
+    }
+  }
+
+  private async refreshInBackground(operation: string): Promise<void> {
+    try {
+      await this.downloadAndProcessCSV();
+    } catch (error) {
+      logger.error('Derivative instrument refresh failed', {
+        component: 'DERIVATIVES_CSV_SERVICE',
+        operation
+      }, error);
+    }
+  }
+
+  /**
+   * Download every exchange's master file and replace the instrument list.
+   * A failed exchange keeps its previously loaded instruments.
+   */
+  async downloadAndProcessCSV(): Promise<void> {
+    if (this.isUpdating) {
+      logger.info('Derivative instrument update already in progress, skipping', {
+        component: 'DERIVATIVES_CSV_SERVICE',
+        operation: 'DOWNLOAD_AND_PROCESS_CSV'
+      });
+      return;
+    }
+
+    this.isUpdating = true;
+    try {
+      const instruments: DerivativeInstrument[] = [];
+      let failedExchanges = 0;
+
+      for (const exchange of DERIVATIVE_EXCHANGES) {
+        try {
+          const exchangeInstruments = await this.downloadExchange(exchange);
+          instruments.push(...exchangeInstruments);
+          logger.info('Derivative instruments downloaded', {
+            component: 'DERIVATIVES_CSV_SERVICE',
+            operation: 'DOWNLOAD_CSV_SUCCESS',
+            exchange,
+            instrumentCount: exchangeInstruments.length
+          });
+        } catch (error) {
+          failedExchanges++;
+          instruments.push(...this.instruments.filter(instrument => instrument.exchange === exchange));
+          logger.error('Failed to download derivative instruments', {
+            component: 'DERIVATIVES_CSV_SERVICE',
+            operation: 'DOWNLOAD_CSV_ERROR',
+            exchange
+          }, error);
+        }
+      }
+
+      if (failedExchanges === DERIVATIVE_EXCHANGES.length) {
+        throw new Error('Failed to download any derivative instrument master');
+      }
+
+      this.setInstruments(instruments, new Date());
+      this.saveProcessedData();
+    } finally {
+      this.isUpdating = false;
+    }
+  }
+
+  private async downloadExchange(exchange: DerivativeExchange): Promise<DerivativeInstrument[]> {
+    const response = await axios.get(this.CSV_URLS[exchange], {
+      responseType: 'stream',
+      timeout: 120000,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+      }
+    });
+
+    return new Promise((resolve, reject) => {
+      const instruments: DerivativeInstrument[] = [];
+      response.data
+        .pipe(csv({ headers: false }))
+        .on('data', (row: Record<string, string>) => {
+          const instrument = parseFyersInstrumentRow(Object.values(row), exchange);
+          if (instrument) {
+            instruments.push(instrument);
+          }
+        })
+        .on('end', () => resolve(instruments))
+        .on('error', reject);
+    });
+  }
+
+  private setInstruments(instruments: DerivativeInstrument[], lastUpdated: Date | null): void {
+    const today = toISTDate(new Date());
+    this.instruments = instruments.filter(instrument => instrument.expiry >= today);
+    this.lastUpdated = lastUpdated;
+    this.bySymbol = new Map(this.instruments.map(instrument => [`${instrument.exchange}:${instrument.tradingSymbol}`, instrument]));
+    this.byUnderlying = new Map();
+    for (const instrument of this.instruments) {
+      const key = `${instrument.exchange}:${instrument.underlying}`;
+      const list = this.byUnderlying.get(key) || [];
+      list.push(instrument);
+      this.byUnderlying.set(key, list);
+    }
+  }
+
+  private saveProcessedData(): void {
+    try {
+      fs.mkdirSync(this.DATA_DIR, { recursive: true });
+      fs.writeFileSync(this.JSON_FILE_PATH, JSON.stringify({
+        instruments: this.instruments,
+        lastUpdated: this.lastUpdated?.toISOString(),
+        totalInstruments: this.instruments.length,
+        source: 'Fyers symbol master'
+      }));
+    } catch (error) {
+      logger.error('Failed to save derivative instruments', {
+        component: 'DERIVATIVES_CSV_SERVICE',
+        operation: 'SAVE_PROCESSED_DATA_ERROR'
+      }, error);
+    }
+  }
+
+  searchInstruments(filter: InstrumentSearchFilter): DerivativeInstrument[] {
+    const underlying = (filter.underlying || '').trim().toUpperCase();
+    // Narrow to the underlying first; the full list has well over 100k contracts
+    const candidates = underlying
+      ? DERIVATIVE_EXCHANGES
+        .filter(exchange => !filter.exchange || filter.exchange === exchange)
+        .flatMap(exchange => this.byUnderlying.get(`${exchange}:${underlying}`) || [])
+      : this.instruments;
+    return filterInstruments(candidates, filter);
+  }
+
+  getInstrument(exchange: string, tradingSymbol: string): DerivativeInstrument | null {
+    return this.bySymbol.get(`${exchange.toUpperCase()}:${normalizeTradingSymbol(tradingSymbol)}`) || null;
+  }
+
+  getExpiries(underlying: string, exchange: DerivativeExchange = 'NFO', instrumentType: InstrumentType = 'OPT'): string[] {
+    return getExpiries(this.byUnderlying.get(`${exchange}:${underlying.toUpperCase()}`) || [], instrumentType, toISTDate(new Date()));
+  }
+
+  getOptionChain(underlying: string, exchange: DerivativeExchange = 'NFO', expiry?: string): OptionChain | null {
+    return buildOptionChain(this.byUnderlying.get(`${exchange}:${underlying.toUpperCase()}`) || [], toISTDate(new Date()), expiry);
+  }
+
+  /**
+   * Lot size check for order placement. Non-derivative orders and contracts
+   * missing from the master (not loaded yet) are let through.
+   */
+  validateOrderQuantity(exchange: string, tradingSymbol: string, quantity: number): string | null {
+    if (!isDerivativeExchange(exchange)) {
+      return null;
+    }
+
+    const instrument = this.getInstrument(exchange, tradingSymbol);
+    if (!instrument) {
+      logger.warn('Derivative instrument not found, skipping lot size check', {
+        component: 'DERIVATIVES_CSV_SERVICE',
+        operation: 'VALIDATE_ORDER_QUANTITY',
+        exchange,
+        tradingSymbol
+      });
+      return null;
+    }
+    return validateLotSize(instrument, quantity);
+  }
+
+  getStats(): any {
+    return {
+      service: 'Derivatives CSV Service',
+      status: this.cronTask ? 'active' : 'stopped',
+      totalInstruments: this.instruments.length,
+      byExchange: Object.fromEntries(DERIVATIVE_EXCHANGES.map(exchange => [
+        exchange,
+        this.instruments.filter(instrument => instrument.exchange === exchange).length
+      ])),
+      lastUpdated: this.lastUpdated?.toISOString(),
+      isUpdating: this.isUpdating,
+      jsonFilePath: this.JSON_FILE_PATH,
+      nextUpdate: 'Daily at 7:00 AM IST'
+    };
+  }
+
+  async forceUpdate(): Promise<void> {
+    logger.info('Force updating derivative instruments', {
+      component: 'DERIVATIVES_CSV_SERVICE',
+      operation: 'FORCE_UPDATE'
+    });
+    await this.downloadAndProcessCSV();
+  }
+
+  isReady(): boolean {
+    return this.instruments.length > 0;
+  }
+}
+
+export const derivativesCSVService = new DerivativesCSVService();
@@ -0,0 +1,216 @@
+/**
+ * Intraday Square-off Service
+ * Closes intraday (MIS/CO/BO) positions before the broker's own end-of-day
+ * square-off. At each user's configured time on trading days it cancels the
+ * account's open intraday orders, closes its intraday positions and reports
+ * the outcome per account.
+ */
+
+import { logger } from '../utils/logger';
+import { userDatabase } from './databaseCompatibility';
+import websocketService from './websocketService';
+import { notificationService } from './notificationService';
+import { flattenAccount } from './orderPlacementService';
+import { ConnectedAccount, SquareOffRun, SquareOffSettings, SquareOffTrigger } from '../interfaces/IDatabaseAdapter';
+import {
+  INTRADAY_PRODUCT_TYPES,
+  getSquareOffRunStatus,
+  isSquareOffDue,
+  resolveSquareOffSettings
+} from '../utils/intradaySquareOff';
+import { toMarketDate } from '../utils/tradingCalendar';
+import { marketClockService } from './marketClockService';
+
+class IntradaySquareOffService {
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isChecking: boolean = false;
+  private completed: Set<string> = new Set(); // accountId:tradingDate already squared off
+  private readonly CHECK_INTERVAL = 30000; // 30 seconds
+  private readonly RETRY_ATTEMPTS = 2;
+
+  start(): void {
+    if (this.checkInterval) {
+      return;
+    }
+
+    this.checkInterval = setInterval(() => {
+      this.check().catch(error => {
+        logger.error('Intraday square-off check failed', {
+          component: 'SQUARE_OFF',
+          operation: 'CHECK'
+        }, error);
+      });
+    }, this.CHECK_INTERVAL);
+
+    logger.info('Intraday square-off scheduler started', {
+      component: 'SQUARE_OFF',
+      operation: 'START',
+      checkInterval: this.CHECK_INTERVAL
+    });
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+
+    logger.info('Intraday square-off scheduler stopped', {
+      component: 'SQUARE_OFF',
+      operation: 'STOP'
+    });
+  }
+
+  isRunning(): boolean {
+    return this.checkInterval !== null;
+  }
+
+  /**
+   * Square off every account whose schedule is due and has not run today
+   */
+  async check(): Promise<void> {
+    // Skip if the previous check is still running
+    if (this.isChecking) {
+      return;
+    }
+
+    this.isChecking = true;
+    try {
+      const now = new Date();
+      const calendar = marketClockService.getCalendar();
+      const enabled = await userDatabase.getEnabledSquareOffSettings();
+      if (enabled.length === 0 || !enabled.some(settings => isSquareOffDue(settings, now, calendar))) {
+        return;
+      }
+
+      const tradingDate = toMarketDate(now);
+      const userIds = [...new Set(enabled.map(settings => settings.user_id))];
+
+      for (const userId of userIds) {
+        try {
+          // Disabled per-account overrides are not in the enabled list but still apply
+          const userSettings = await userDatabase.getSquareOffSettingsByUserId(userId);
+          const accounts = await userDatabase.getConnectedAccountsByUserId(userId);
+
+          for (const account of accounts) {
+            const accountId = account.id.toString();
+            const settings = resolveSquareOffSettings(userSettings, accountId);
+            const key = `${accountId}:${tradingDate}`;
+            if (!settings || !isSquareOffDue(settings, now, calendar) || this.completed.has(key)) {
+              continue;
+            }
+
+            this.completed.add(key);
+            if (await userDatabase.hasScheduledSquareOffRun(accountId, tradingDate)) {
+              continue;
+            }
+
+            await this.squareOffAccount(userId, account, settings, 'SCHEDULED');
+          }
+        } catch (error) {
+          logger.error('Failed to run intraday square-off for user', {
+            component: 'SQUARE_OFF',
+            operation: 'CHECK_USER',
+            userId
+          }, error);
+        }
+      }
+
+      this.pruneCompleted(tradingDate);
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * Square off one account now, or all of the user's accounts
+   */
+  async runNow(userId: string, accountId: string | null): Promise<SquareOffRun[]> {
+    const userSettings = await userDatabase.getSquareOffSettingsByUserId(userId);
+    const accounts = accountId
+      ? [await userDatabase.getConnectedAccountById(accountId)].filter((account): account is ConnectedAccount => !!account)
+      : await userDatabase.getConnectedAccountsByUserId(userId);
+
+    const runs: SquareOffRun[] = [];
+    for (const account of accounts) {
+      const settings = resolveSquareOffSettings(userSettings, account.id.toString());
+      runs.push(await this.squareOffAccount(userId, account, settings, 'MANUAL'));
+    }
+    return runs;
+  }
+
+  private async squareOffAccount(
+    userId: string,
+    account: ConnectedAccount,
+    settings: SquareOffSettings | null,
+    trigger: SquareOffTrigger
+  ): Promise<SquareOffRun> {
+    const result = await flattenAccount(userId, account, {
+      cancelOrders: settings?.cancel_pending_orders ?? true,
+      squareOff: true,
+      productTypes: INTRADAY_PRODUCT_TYPES,
+      source: 'SQUARE_OFF',
+      remarks: 'Intraday auto square-off',
+      retryAttempts: this.RETRY_ATTEMPTS
+    });
+
+    const run = await userDatabase.createSquareOffRun({
+      user_id: userId,
+      account_id: account.id.toString(),
+      trading_date: toMarketDate(new Date()),
+      trigger,
+      status: getSquareOffRunStatus(result),
+      cancelled_orders: result.cancelledOrders,
+      squared_off_positions: result.squaredOffPositions,
+      retried_orders: result.retriedOrders,
+      failures: result.failures
+    });
+
+    const accountName = `${account.broker_name} (${account.account_id})`;
+    const log = run.failures.length > 0 ? logger.warn.bind(logger) : logger.info.bind(logger);
+    log('Intraday square-off run finished', {
+      component: 'SQUARE_OFF',
+      operation: 'SQUARE_OFF_ACCOUNT',
+      userId,
+      accountId: account.account_id,
+      trigger,
+      runStatus: run.status,
+      cancelledOrders: run.cancelled_orders,
+      squaredOffPositions: run.squared_off_positions,
+      retriedOrders: run.retried_orders,
+      failures: run.failures.length
+    });
+
+    websocketService.sendToUser(userId, 'squareOffUpdate', {
+      run,
+      account: accountName,
+      timestamp: run.created_at
+    });
+
+    // A quiet day with nothing open is not worth a notification
+    if (run.status !== 'NOTHING_TO_DO') {
+      await notificationService.sendSquareOffNotification(userId, {
+        runId: run.id,
+        account: accountName,
+        trigger,
+        status: run.status,
+        cancelledOrders: run.cancelled_orders,
+        squaredOffPositions: run.squared_off_positions,
+        failureCount: run.failures.length,
+        timestamp: run.created_at
+      });
+    }
+
+    return run;
+  }
+
+  private pruneCompleted(tradingDate: string): void {
+    for (const key of this.completed) {
+      if (!key.endsWith(`:${tradingDate}`)) {
+        this.completed.delete(key);
+      }
+    }
+  }
+}
+
+export const intradaySquareOffService = new IntradaySquareOffService();
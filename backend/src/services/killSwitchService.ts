@@ -0,0 +1,198 @@
+/**
+ * Kill Switch Service
+ * Emergency stop for a user's trading. While a switch is active no new order
+ * is placed on the accounts it covers; activating it also cancels every open
+ * order and can square off open positions with market orders.
+ */
+
+import { logger } from '../utils/logger';
+import { userDatabase } from './databaseCompatibility';
+import websocketService from './websocketService';
+import { notificationService } from './notificationService';
+import { AccountFlattenResult, flattenAccount } from './orderPlacementService';
+import {
+  ConnectedAccount,
+  KillSwitch,
+  KillSwitchAction,
+  KillSwitchEvent
+} from '../interfaces/IDatabaseAdapter';
+
+export interface KillSwitchActivation {
+  accountId: string | null; // null halts every account of the user
+  reason?: string | undefined;
+  squareOff: boolean;
+}
+
+export interface KillSwitchStatus {
+  tradingHalted: boolean; // user-wide switch is active
+  switches: KillSwitch[];
+  recentEvents: KillSwitchEvent[];
+}
+
+export interface KillSwitchResult {
+  killSwitch: KillSwitch;
+  event: KillSwitchEvent;
+}
+
+const RECENT_EVENT_LIMIT = 20;
+
+class KillSwitchService {
+  /**
+   * Active switch that blocks orders on the account, if any. The user-wide
+   * switch blocks every account.
+   */
+  async getBlockingSwitch(userId: string, accountId: string): Promise<KillSwitch | null> {
+    const switches = await userDatabase.getKillSwitchesByUserId(userId);
+    return switches.find(killSwitch =>
+      killSwitch.is_active && (killSwitch.account_id === null || killSwitch.account_id === accountId)
+    ) || null;
+  }
+
+  /**
+   * Message returned to callers whose order was blocked
+   */
+  getBlockedMessage(killSwitch: KillSwitch): string {
+    const scope = killSwitch.account_id ? 'this account' : 'all accounts';
+    return `Trading is halted on ${scope} by the kill switch${killSwitch.reason ? `: ${killSwitch.reason}` : ''}`;
+  }
+
+  async getStatus(userId: string): Promise<KillSwitchStatus> {
+    const [switches, recentEvents] = await Promise.all([
+      userDatabase.getKillSwitchesByUserId(userId),
+      userDatabase.getKillSwitchEventsByUserId(userId, RECENT_EVENT_LIMIT)
+    ]);
+
+    return {
+      tradingHalted: switches.some(killSwitch => killSwitch.is_active && killSwitch.account_id === null),
+      switches,
+      recentEvents
+    };
+  }
+
+  /**
+   * Activate the switch, then cancel open orders and optionally square off
+   * positions on every account it covers. Broker failures are collected in
+   * the audit event instead of aborting the remaining accounts.
+   */
+  async activate(userId: string, activation: KillSwitchActivation): Promise<KillSwitchResult> {
+    // Block new orders before touching the broker so nothing slips through
+    const killSwitch = await userDatabase.upsertKillSwitch({
+      user_id: userId,
+      account_id: activation.accountId,
+      is_active: true,
+      ...(activation.reason && { reason: activation.reason })
+    });
+
+    const accounts = await this.getTargetAccounts(userId, activation.accountId);
+    const totals: AccountFlattenResult = { cancelledOrders: 0, squaredOffPositions: 0, retriedOrders: 0, failures: [] };
+
+    for (const account of accounts) {
+      // Square-off orders are the one thing the kill switch must let through
+      const result = await flattenAccount(userId, account, {
+        cancelOrders: true,
+        squareOff: activation.squareOff,
+        source: 'KILL_SWITCH',
+        remarks: 'Kill switch square-off'
+      });
+      totals.cancelledOrders += result.cancelledOrders;
+      totals.squaredOffPositions += result.squaredOffPositions;
+      totals.failures.push(...result.failures);
+    }
+
+    const event = await this.recordEvent(userId, activation.accountId, 'ACTIVATED', activation.reason, activation.squareOff, totals);
+
+    logger.warn('Kill switch activated', {
+      component: 'KILL_SWITCH',
+      operation: 'ACTIVATE',
+      userId,
+      accountId: activation.accountId || 'ALL',
+      squareOff: activation.squareOff,
+      cancelledOrders: totals.cancelledOrders,
+      squaredOffPositions: totals.squaredOffPositions,
+      failures: totals.failures.length
+    });
+
+    await this.publish(userId, killSwitch, event, accounts);
+    return { killSwitch, event };
+  }
+
+  async deactivate(userId: string, accountId: string | null, reason?: string): Promise<KillSwitchResult> {
+    const killSwitch = await userDatabase.upsertKillSwitch({
+      user_id: userId,
+      account_id: accountId,
+      is_active: false,
+      ...(reason && { reason })
+    });
+
+    const event = await this.recordEvent(userId, accountId, 'DEACTIVATED', reason, false, {
+      cancelledOrders: 0,
+      squaredOffPositions: 0,
+      retriedOrders: 0,
+      failures: []
+    });
+
+    logger.info('Kill switch deactivated', {
+      component: 'KILL_SWITCH',
+      operation: 'DEACTIVATE',
+      userId,
+      accountId: accountId || 'ALL'
+    });
+
+    const accounts = accountId ? await this.getTargetAccounts(userId, accountId) : [];
+    await this.publish(userId, killSwitch, event, accounts);
+    return { killSwitch, event };
+  }
+
+  private async getTargetAccounts(userId: string, accountId: string | null): Promise<ConnectedAccount[]> {
+    if (accountId) {
+      const account = await userDatabase.getConnectedAccountById(accountId);
+      return account ? [account] : [];
+    }
+    return await userDatabase.getConnectedAccountsByUserId(userId);
+  }
+
+  private async recordEvent(
+    userId: string,
+    accountId: string | null,
+    action: KillSwitchAction,
+    reason: string | undefined,
+    squareOff: boolean,
+    totals: AccountFlattenResult
+  ): Promise<KillSwitchEvent> {
+    return await userDatabase.createKillSwitchEvent({
+      user_id: userId,
+      account_id: accountId,
+      action,
+      reason,
+      square_off: squareOff,
+      cancelled_orders: totals.cancelledOrders,
+      squared_off_positions: totals.squaredOffPositions,
+      failures: totals.failures
+    });
+  }
+
+  private async publish(userId: string, killSwitch: KillSwitch, event: KillSwitchEvent, accounts: ConnectedAccount[]): Promise<void> {
+    const account = killSwitch.account_id ? accounts[0] : undefined;
+    const scope = killSwitch.account_id
+      ? (account ? `${account.broker_name} (${account.account_id})` : 'account')
+      : 'all accounts';
+
+    websocketService.sendToUser(userId, 'killSwitchUpdate', {
+      killSwitch,
+      event,
+      timestamp: event.created_at
+    });
+
+    await notificationService.sendKillSwitchNotification(userId, {
+      action: event.action,
+      scope,
+      reason: event.reason,
+      cancelledOrders: event.cancelled_orders,
+      squaredOffPositions: event.squared_off_positions,
+      failureCount: event.failures.length,
+      timestamp: event.created_at
+    });
+  }
+}
+
+export const killSwitchService = new KillSwitchService();
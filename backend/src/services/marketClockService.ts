@@ -0,0 +1,288 @@
+/**
+ * Market Clock Service
+ * Session-aware clock for the exchanges. Knows the trading calendar (built-in
+ * NSE/BSE holidays plus an optional local calendar file), which session each
+ * segment is in, and notifies subscribers when a session starts or ends so
+ * polling, order validation and schedulers can follow market hours.
+ */
+
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { OrderVariety } from '../interfaces/IDatabaseAdapter';
+import {
+  DEFAULT_TRADING_CALENDAR,
+  MARKET_SEGMENTS,
+  MarketHoliday,
+  MarketSegment,
+  MarketSessionPhase,
+  MarketSessionState,
+  SpecialSession,
+  TradingCalendar,
+  addMarketDays,
+  getMarketSessionState,
+  getNextSessionStart,
+  getAmoSessionError,
+  getOrderSessionError,
+  getSegmentForExchange,
+  isAmoWindow,
+  isTradingDay,
+  mergeTradingCalendar,
+  toMarketDate
+} from '../utils/tradingCalendar';
+
+export interface MarketSessionChange {
+  segment: MarketSegment;
+  previousPhase: MarketSessionPhase;
+  state: MarketSessionState;
+}
+
+// Summary of the equity market, in the shape clients already use for market status
+export interface MarketStatusSummary {
+  status: string;
+  isOpen: boolean;
+  phase: MarketSessionPhase;
+  segments: MarketSessionState[];
+  timestamp: string;
+}
+
+const PHASE_LABELS: Record<MarketSessionPhase, string> = {
+  PRE_OPEN: 'Pre-open',
+  NORMAL: 'Market Open',
+  CLOSING: 'Closing Session',
+  POST_CLOSE: 'Post-close',
+  CLOSED: 'Market Closed'
+};
+
+class MarketClockService extends EventEmitter {
+  private calendar: TradingCalendar = DEFAULT_TRADING_CALENDAR;
+  private phases = new Map<MarketSegment, MarketSessionPhase>();
+  private checkInterval: NodeJS.Timeout | null = null;
+  private readonly CHECK_INTERVAL = 5000; // 5 seconds
+  private readonly CALENDAR_FILE = process.env.MARKET_CALENDAR_FILE || path.join(__dirname, '../../data/market_calendar.json');
+
+  constructor() {
+    super();
+    // Loaded up front so services asking before start() already see the file's holidays
+    this.loadCalendar();
+  }
+
+  start(): void {
+    if (this.checkInterval) {
+      return;
+    }
+
+    this.check();
+    this.checkInterval = setInterval(() => this.check(), this.CHECK_INTERVAL);
+
+    const equity = this.getStatus('EQUITY');
+    logger.info('Market clock started', {
+      component: 'MARKET_CLOCK',
+      operation: 'START',
+      phase: equity.phase,
+      nextPhase: equity.nextPhase,
+      nextChangeAt: equity.nextChangeAt
+    });
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    this.phases.clear();
+
+    logger.info('Market clock stopped', {
+      component: 'MARKET_CLOCK',
+      operation: 'STOP'
+    });
+  }
+
+  isRunning(): boolean {
+    return this.checkInterval !== null;
+  }
+
+  /**
+   * Load the calendar file on top of the built-in calendar. A missing file is
+   * fine; an invalid one is logged and the previous calendar kept.
+   */
+  loadCalendar(): boolean {
+    if (!fs.existsSync(this.CALENDAR_FILE)) {
+      this.calendar = DEFAULT_TRADING_CALENDAR;
+      return false;
+    }
+
+    try {
+      const file = JSON.parse(fs.readFileSync(this.CALENDAR_FILE, 'utf8'));
+      this.calendar = mergeTradingCalendar(DEFAULT_TRADING_CALENDAR, file);
+
+      logger.info('Loaded trading calendar', {
+        component: 'MARKET_CLOCK',
+        operation: 'LOAD_CALENDAR',
+        file: this.CALENDAR_FILE,
+        holidays: this.calendar.holidays.length,
+        specialSessions: this.calendar.specialSessions.length
+      });
+      return true;
+    } catch (error) {
+      logger.error('Invalid trading calendar file, keeping the current calendar', {
+        component: 'MARKET_CLOCK',
+        operation: 'LOAD_CALENDAR',
+        file: this.CALENDAR_FILE
+      }, error);
+      return false;
+    }
+  }
+
+  /**
+   * Re-read the calendar file and announce any session change it causes
+   */
+  reloadCalendar(): boolean {
+    const loaded = this.loadCalendar();
+    if (this.isRunning()) {
+      this.check();
+    }
+    return loaded;
+  }
+
+  getCalendar(): TradingCalendar {
+    return this.calendar;
+  }
+
+  getStatus(segment: MarketSegment = 'EQUITY', now: Date = new Date()): MarketSessionState {
+    return getMarketSessionState(now, segment, this.calendar);
+  }
+
+  getStatusForExchange(exchange: string, now: Date = new Date()): MarketSessionState {
+    return this.getStatus(getSegmentForExchange(exchange), now);
+  }
+
+  /**
+   * Equity market status with every segment's session
+   */
+  getMarketStatus(now: Date = new Date()): MarketStatusSummary {
+    const segments = MARKET_SEGMENTS.map(segment => this.getStatus(segment, now));
+    const equity = segments[0]!;
+
+    let status = PHASE_LABELS[equity.phase];
+    if (equity.specialSession && equity.phase !== 'CLOSED') {
+      status = `${equity.specialSession} - ${status}`;
+    } else if (!equity.isTradingDay && equity.holiday) {
+      status = `${status} - ${equity.holiday}`;
+    }
+
+    return {
+      status,
+      isOpen: equity.phase === 'NORMAL',
+      phase: equity.phase,
+      segments,
+      timestamp: now.toISOString()
+    };
+  }
+
+  /**
+   * Whether the segment is in its normal (continuous trading) session
+   */
+  isOpen(segment: MarketSegment = 'EQUITY', now: Date = new Date()): boolean {
+    return this.getStatus(segment, now).phase === 'NORMAL';
+  }
+
+  /**
+   * Whether the exchange is in any session, including pre-open and post-close
+   */
+  isSessionActive(segment: MarketSegment = 'EQUITY', now: Date = new Date()): boolean {
+    return this.getStatus(segment, now).phase !== 'CLOSED';
+  }
+
+  isTradingDay(date: Date = new Date(), segment: MarketSegment = 'EQUITY'): boolean {
+    return isTradingDay(date, segment, this.calendar);
+  }
+
+  getNextSessionStart(
+    segment: MarketSegment = 'EQUITY',
+    phase: Exclude<MarketSessionPhase, 'CLOSED'> = 'NORMAL',
+    now: Date = new Date()
+  ): Date | null {
+    return getNextSessionStart(now, segment, phase, this.calendar);
+  }
+
+  /**
+   * Why an order cannot be sent to its exchange right now, or null. After-market
+   * orders are checked against the AMO window instead of the live session.
+   */
+  getOrderSessionError(exchange: string, orderType: string, variety: OrderVariety = 'REGULAR', now: Date = new Date()): string | null {
+    const state = this.getStatusForExchange(exchange, now);
+    return variety === 'AMO' ? getAmoSessionError(state) : getOrderSessionError(orderType, state);
+  }
+
+  /**
+   * Whether an order for the exchange can be queued as an after-market order right now
+   */
+  isAmoWindow(exchange: string, now: Date = new Date()): boolean {
+    return isAmoWindow(this.getStatusForExchange(exchange, now));
+  }
+
+  /**
+   * Holidays and special sessions in the coming days
+   */
+  getUpcomingCalendar(days: number, now: Date = new Date()): { holidays: MarketHoliday[]; specialSessions: SpecialSession[] } {
+    const from = toMarketDate(now);
+    const to = addMarketDays(from, days);
+    const inRange = (entry: { date: string }) => entry.date >= from && entry.date <= to;
+    const byDate = (a: { date: string }, b: { date: string }) => a.date.localeCompare(b.date);
+
+    return {
+      holidays: this.calendar.holidays.filter(inRange).sort(byDate),
+      specialSessions: this.calendar.specialSessions.filter(inRange).sort(byDate)
+    };
+  }
+
+  /**
+   * Subscribe to session changes of every segment. Returns the unsubscribe function.
+   */
+  onSessionChange(listener: (change: MarketSessionChange) => void): () => void {
+    this.on('sessionChange', listener);
+    return () => {
+      this.off('sessionChange', listener);
+    };
+  }
+
+  private check(): void {
+    const now = new Date();
+    for (const segment of MARKET_SEGMENTS) {
+      const state = this.getStatus(segment, now);
+      const previousPhase = this.phases.get(segment);
+      this.phases.set(segment, state.phase);
+
+      if (previousPhase === undefined || previousPhase === state.phase) {
+        continue;
+      }
+
+      logger.info('Market session changed', {
+        component: 'MARKET_CLOCK',
+        operation: 'SESSION_CHANGE',
+        segment,
+        previousPhase,
+        phase: state.phase,
+        nextChangeAt: state.nextChangeAt
+      });
+
+      const change: MarketSessionChange = { segment, previousPhase, state };
+      for (const listener of this.listeners('sessionChange')) {
+        // One failing subscriber must not stop the others
+        try {
+          (listener as (change: MarketSessionChange) => void)(change);
+        } catch (error) {
+          logger.error('Market session listener failed', {
+            component: 'MARKET_CLOCK',
+            operation: 'SESSION_CHANGE',
+            segment
+          }, error);
+        }
+      }
+    }
+  }
+}
+
+export const marketClockService = new MarketClockService();
@@ -0,0 +1,293 @@
+/**
+ * Market Data Feed Service
+ * Runs one broker tick feed for the whole app, on a connected Shoonya
+ * account when there is one and otherwise on Fyers. Symbols are subscribed
+ * upstream as the real-time data service asks for them; while no feed is
+ * live, that service falls back to the NSE/Yahoo quote sources.
+ *
+ * Events: 'tick' (MarketTick) and 'statusChange' (MarketFeedStatus)
+ */
+
+import { EventEmitter } from 'events';
+import {
+  MarketDataFeed,
+  MarketTick,
+  TickInstrument,
+  TickMode,
+  createMarketDataFeed
+} from '@copytrade/unified-broker';
+import { logger } from '../utils/logger';
+import { EnhancedBrokerConnection, enhancedUnifiedBrokerManager } from './enhancedUnifiedBrokerManager';
+import { brokerSessionManager } from './brokerSessionManager';
+import { getStreamSession, wsSocketFactory } from './orderStreamService';
+
+// Feed sources in order of preference
+const FEED_BROKERS = ['shoonya', 'fyers'];
+
+export interface MarketFeedStatus {
+  live: boolean;
+  brokerName: string | null;
+}
+
+interface ActiveFeed {
+  feed: MarketDataFeed;
+  connection: EnhancedBrokerConnection;
+}
+
+class MarketDataFeedService extends EventEmitter {
+  private syncInterval: NodeJS.Timeout | null = null;
+  private readonly SYNC_INTERVAL = 60000; // look for a feed source every minute while none is live
+  private active: ActiveFeed | null = null;
+  private wanted: Map<string, TickMode> = new Map(); // SYMBOL:EXCHANGE -> mode
+  private streaming: Set<string> = new Set();        // keys subscribed on the live feed
+  private instrumentTokens: Map<string, string> = new Map(); // shoonya EXCHANGE:SYMBOL -> token
+
+  start(): void {
+    if (this.syncInterval) {
+      return;
+    }
+
+    this.ensureFeed().catch(error => this.logFeedError(error));
+    this.syncInterval = setInterval(() => {
+      this.ensureFeed().catch(error => this.logFeedError(error));
+    }, this.SYNC_INTERVAL);
+
+    logger.info('Market data feed service started', {
+      component: 'MARKET_DATA_FEED',
+      operation: 'START'
+    });
+  }
+
+  stop(): void {
+    if (this.syncInterval) {
+      clearInterval(this.syncInterval);
+      this.syncInterval = null;
+    }
+    this.closeFeed();
+
+    logger.info('Market data feed service stopped', {
+      component: 'MARKET_DATA_FEED',
+      operation: 'STOP'
+    });
+  }
+
+  getStatus(): MarketFeedStatus {
+    return {
+      live: !!this.active?.feed.isConnected(),
+      brokerName: this.active?.feed.brokerName || null
+    };
+  }
+
+  /**
+   * Whether ticks for a symbol are coming from the broker feed
+   */
+  isStreaming(key: string): boolean {
+    return !!this.active?.feed.isConnected() && this.streaming.has(key);
+  }
+
+  /**
+   * Subscribe a symbol in the given mode, or drop it with null
+   */
+  async setSubscription(key: string, mode: TickMode | null): Promise<void> {
+    if (mode) {
+      this.wanted.set(key, mode);
+    } else {
+      this.wanted.delete(key);
+    }
+
+    if (!this.active) {
+      return;
+    }
+    if (!mode) {
+      const instrument = this.toInstrument(key, this.active.feed.brokerName);
+      if (instrument) {
+        this.active.feed.unsubscribe([instrument]);
+      }
+      this.streaming.delete(key);
+      return;
+    }
+    await this.subscribeOnFeed(this.active, [key], mode);
+  }
+
+  /**
+   * Open a feed on the preferred connected broker if none is running
+   */
+  async ensureFeed(): Promise<void> {
+    if (this.active && this.active.feed.getState() !== 'CLOSED') {
+      return;
+    }
+    this.closeFeed();
+
+    for (const brokerName of FEED_BROKERS) {
+      const connection = enhancedUnifiedBrokerManager.getBrokerConnections(brokerName)
+        .find(candidate => candidate.isActive);
+      if (connection && await this.openFeed(connection)) {
+        return;
+      }
+    }
+  }
+
+  private async openFeed(connection: EnhancedBrokerConnection): Promise<boolean> {
+    const feed = createMarketDataFeed(connection.brokerName, { socketFactory: wsSocketFactory });
+    const session = feed ? await getStreamSession(connection) : null;
+    if (!feed || !session) {
+      return false;
+    }
+
+    const active: ActiveFeed = { feed, connection };
+    this.active = active;
+
+    feed.on('tick', (tick: MarketTick) => this.emit('tick', tick));
+
+    feed.on('stateChange', (state: string) => {
+      if (state === 'CONNECTED') {
+        this.resubscribeAll(active).catch(error => this.logFeedError(error));
+      } else {
+        this.streaming.clear();
+      }
+      this.emit('statusChange', this.getStatus());
+    });
+
+    feed.on('sessionExpired', (reason: string) => {
+      this.handleSessionExpired(active, reason).catch(error => this.logFeedError(error));
+    });
+
+    feed.on('error', (error: Error) => {
+      logger.warn('Market data feed error', {
+        component: 'MARKET_DATA_FEED',
+        operation: 'FEED_ERROR',
+        brokerName: connection.brokerName
+      }, error);
+    });
+
+    feed.connect(session);
+    logger.info('Market data feed opened', {
+      component: 'MARKET_DATA_FEED',
+      operation: 'OPEN_FEED',
+      brokerName: connection.brokerName,
+      accountId: connection.accountId
+    });
+    return true;
+  }
+
+  /**
+   * Refresh the source account's session and reconnect; failing that, drop
+   * the feed so the next sync picks another source or polling takes over
+   */
+  private async handleSessionExpired(active: ActiveFeed, reason: string): Promise<void> {
+    const { userId, brokerName, accountId } = active.connection;
+    logger.warn('Market data feed session expired', {
+      component: 'MARKET_DATA_FEED',
+      operation: 'SESSION_EXPIRED',
+      brokerName,
+      accountId,
+      reason
+    });
+
+    const refreshed = await brokerSessionManager.refreshSessionToken(userId, brokerName, accountId);
+    const connection = refreshed ? enhancedUnifiedBrokerManager.getConnection(userId, brokerName, accountId) : null;
+    const session = connection ? await getStreamSession(connection) : null;
+    if (session && this.active === active) {
+      active.feed.connect(session);
+      return;
+    }
+
+    if (this.active === active) {
+      this.closeFeed();
+    }
+  }
+
+  private async resubscribeAll(active: ActiveFeed): Promise<void> {
+    for (const mode of ['LTP', 'DEPTH'] as TickMode[]) {
+      const keys = Array.from(this.wanted.entries())
+        .filter(([, wantedMode]) => wantedMode === mode)
+        .map(([key]) => key);
+      if (keys.length > 0) {
+        await this.subscribeOnFeed(active, keys, mode);
+      }
+    }
+  }
+
+  private async subscribeOnFeed(active: ActiveFeed, keys: string[], mode: TickMode): Promise<void> {
+    const instruments: TickInstrument[] = [];
+    const subscribedKeys: string[] = [];
+    for (const key of keys) {
+      const instrument = await this.resolveInstrument(active, key);
+      if (instrument) {
+        instruments.push(instrument);
+        subscribedKeys.push(key);
+      }
+    }
+
+    if (instruments.length > 0 && this.active === active) {
+      active.feed.subscribe(instruments, mode);
+      subscribedKeys.forEach(key => this.streaming.add(key));
+    }
+  }
+
+  /**
+   * Instrument for a SYMBOL:EXCHANGE key. Shoonya subscribes by token, which
+   * is looked up once through the source account's symbol search.
+   */
+  private async resolveInstrument(active: ActiveFeed, key: string): Promise<TickInstrument | null> {
+    const instrument = this.toInstrument(key, active.feed.brokerName);
+    if (!instrument || instrument.token || active.feed.brokerName !== 'shoonya') {
+      return instrument;
+    }
+
+    const tokenKey = `${instrument.exchange}:${instrument.symbol}`;
+    let token = this.instrumentTokens.get(tokenKey);
+    if (!token) {
+      try {
+        const result = await active.connection.service.searchSymbols(instrument.symbol, instrument.exchange);
+        const values: any[] = Array.isArray(result?.values) ? result.values : [];
+        const match = values.find(value => value.tsym === instrument.symbol || value.tsym === `${instrument.symbol}-EQ`)
+          || values.find(value => value.exch === instrument.exchange);
+        token = match?.token ? String(match.token) : undefined;
+        if (token) {
+          this.instrumentTokens.set(tokenKey, token);
+        }
+      } catch (error: any) {
+        logger.warn('Failed to resolve instrument token', {
+          component: 'MARKET_DATA_FEED',
+          operation: 'RESOLVE_TOKEN',
+          symbol: instrument.symbol,
+          exchange: instrument.exchange
+        }, error);
+      }
+    }
+
+    // Unresolved symbols stay on the polling fallback
+    return token ? { ...instrument, token } : null;
+  }
+
+  private toInstrument(key: string, brokerName: string): TickInstrument | null {
+    const [symbol, exchange] = key.split(':');
+    if (!symbol || !exchange) {
+      return null;
+    }
+    const token = brokerName === 'shoonya' ? this.instrumentTokens.get(`${exchange}:${symbol}`) : undefined;
+    return { symbol, exchange, ...(token && { token }) };
+  }
+
+  private closeFeed(): void {
+    if (!this.active) {
+      return;
+    }
+    const { feed } = this.active;
+    this.active = null;
+    this.streaming.clear();
+    feed.removeAllListeners();
+    feed.close();
+    this.emit('statusChange', this.getStatus());
+  }
+
+  private logFeedError(error: any): void {
+    logger.error('Market data feed failed', {
+      component: 'MARKET_DATA_FEED',
+      operation: 'ENSURE_FEED'
+    }, error);
+  }
+}
+
+export const marketDataFeedService = new MarketDataFeedService();
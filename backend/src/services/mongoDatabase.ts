@@ -1,5 +1,4 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
-import crypto from 'crypto';
 import {
   IDatabaseAdapter,
   User,
@@ -10,14 +9,124 @@ import {
   OrderHistory,
   CreateOrderHistoryData,
   OrderFilters,
-  AccountStatus
+  AccountStatus,
+  OrderSource,
+  OrderVariety,
+  CopyTradeLink,
+  CreateCopyTradeLinkData,
+  CopiedOrder,
+  CreateCopiedOrderData,
+  UpdateCopiedOrderData,
+  CopiedOrderStatus,
+  AccountSizingRule,
+  UpsertAccountSizingRuleData,
+  SizingMethod,
+  RiskLimits,
+  UpsertRiskLimitsData,
+  KillSwitch,
+  UpsertKillSwitchData,
+  KillSwitchAction,
+  KillSwitchFailure,
+  KillSwitchEvent,
+  CreateKillSwitchEventData,
+  SquareOffSettings,
+  UpsertSquareOffSettingsData,
+  SquareOffRun,
+  SquareOffRunStatus,
+  SquareOffTrigger,
+  CreateSquareOffRunData,
+  AccountFlattenFailure,
+  OrderErrorType,
+  OrderTemplate,
+  CreateOrderTemplateData,
+  UpdateOrderTemplateData,
+  AdvancedOrder,
+  CreateAdvancedOrderData,
+  UpdateAdvancedOrderData,
+  AdvancedOrderStatus,
+  AdvancedOrderType,
+  AdvancedOrderLeg,
+  AdvancedOrderConditionType,
+  OrderValidity,
+  OrderModification,
+  CreateOrderModificationData,
+  StrategyOrder,
+  CreateStrategyOrderData,
+  UpdateStrategyOrderData,
+  StrategyType,
+  StrategyOrderStatus,
+  StrategyLegFailureAction,
+  StrategyLeg,
+  StrategyAccountResult,
+  LedgerFill,
+  CreateLedgerFillData,
+  Candle,
+  CredentialKeyStatus,
+  PriceAlert,
+  PriceAlertCondition,
+  PriceAlertTrigger,
+  PriceAlertStatus,
+  PriceAlertChannel,
+  CreatePriceAlertData,
+  UpdatePriceAlertData,
+  AuditEvent,
+  AuditAction,
+  AuditCategory,
+  AuditEventFilters,
+  CreateAuditEventData,
+  AuthSession,
+  CreateAuthSessionData,
+  UpdateAuthSessionData,
+  Workspace,
+  WorkspaceRole,
+  WorkspaceMember,
+  CreateWorkspaceData,
+  CreateWorkspaceMemberData,
+  AccountGrant,
+  AccountGrantFilters,
+  AccountPermission,
+  CreateAccountGrantData,
+  ApiKey,
+  ApiKeyAccountGroup,
+  ApiKeyScope,
+  CreateApiKeyData,
+  UpdateApiKeyData,
+  Signal,
+  SignalFilters,
+  SignalOrder,
+  SignalStatus,
+  CreateSignalData,
+  UpdateSignalData,
+  WebhookEvent,
+  WebhookSubscription,
+  CreateWebhookSubscriptionData,
+  UpdateWebhookSubscriptionData,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookDeliveryFilters,
+  CreateWebhookDeliveryData,
+  UpdateWebhookDeliveryData,
+  PaperAccountState
 } from '../interfaces/IDatabaseAdapter';
+import {
+  MasterKeyring,
+  decryptCredentials,
+  encryptCredentials,
+  getCredentialKeyVersion,
+  getCredentialKeyVersionPattern,
+  loadMasterKeyring
+} from '../utils/credentialEncryption';
 
 // MongoDB Document Interfaces
 interface UserDocument extends Document {
   email: string;
   name: string;
   password: string;
+  two_factor_enabled: boolean;
+  two_factor_secret: string | null; // encrypted
+  two_factor_pending_secret: string | null; // encrypted
+  two_factor_recovery_codes: string[];
+  two_factor_last_step: number | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -32,6 +141,7 @@ interface ConnectedAccountDocument extends Document {
   exchanges: string;
   products: string;
   encrypted_credentials: string;
+  credentials_key_version: number; // master key version, 0 before envelope encryption
   account_status: string; // 'ACTIVE' | 'INACTIVE' | 'PROCEED_TO_OAUTH'
   token_expiry_time: Date | null; // Date or null for infinity (Shoonya)
   created_at: Date;
@@ -48,7 +158,8 @@ interface OrderHistoryDocument extends Document {
   quantity: number;
   price: number;
   order_type: 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET';
-  status: 'PLACED' | 'PENDING' | 'EXECUTED' | 'CANCELLED' | 'REJECTED' | 'PARTIALLY_FILLED' | 'FAILED';
+  variety?: OrderVariety;
+  status: 'PLACED' | 'AMO_PLACED' | 'PENDING' | 'EXECUTED' | 'CANCELLED' | 'REJECTED' | 'PARTIALLY_FILLED' | 'FAILED';
   exchange: string;
   product_type: string;
   remarks: string;
@@ -62,12 +173,389 @@ interface OrderHistoryDocument extends Document {
   // Enhanced fields for error handling and retry functionality
   error_message?: string;
   error_code?: string;
-  error_type?: 'NETWORK' | 'BROKER' | 'VALIDATION' | 'AUTH' | 'SYSTEM' | 'MARKET';
+  error_type?: OrderErrorType;
   retry_count?: number;
   max_retries?: number;
   last_retry_at?: Date;
   is_retryable?: boolean;
   failure_reason?: string;
+  // Copy trading linkage
+  source?: OrderSource;
+  parent_broker_order_id?: string;
+  master_account_id?: mongoose.Types.ObjectId;
+  // Strategy linkage
+  strategy_order_id?: mongoose.Types.ObjectId;
+  strategy_leg?: number;
+}
+
+interface CopyTradeLinkDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  master_account_id: mongoose.Types.ObjectId;
+  follower_account_id: mongoose.Types.ObjectId;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface CopiedOrderDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  link_id: mongoose.Types.ObjectId;
+  master_account_id: mongoose.Types.ObjectId;
+  master_broker_order_id: string;
+  follower_account_id: mongoose.Types.ObjectId;
+  follower_order_id?: mongoose.Types.ObjectId;
+  follower_broker_order_id?: string;
+  status: CopiedOrderStatus;
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  trigger_price?: number;
+  order_type: 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET';
+  error_message?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface AccountSizingRuleDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  account_id: mongoose.Types.ObjectId;
+  method: SizingMethod;
+  value: number;
+  capital?: number;
+  min_quantity?: number;
+  max_quantity?: number;
+  round_to_lot: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface RiskLimitsDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  account_id: mongoose.Types.ObjectId | null;
+  is_enabled: boolean;
+  max_order_value?: number;
+  max_quantity_per_symbol?: number;
+  max_open_positions?: number;
+  daily_loss_limit?: number;
+  max_orders_per_minute?: number;
+  allowed_exchanges: string[];
+  allowed_products: string[];
+  restricted_symbols: string[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface KillSwitchDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  account_id: mongoose.Types.ObjectId | null;
+  is_active: boolean;
+  reason?: string;
+  activated_at?: Date;
+  deactivated_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface KillSwitchEventDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  account_id: mongoose.Types.ObjectId | null;
+  action: KillSwitchAction;
+  reason?: string;
+  square_off: boolean;
+  cancelled_orders: number;
+  squared_off_positions: number;
+  failures: KillSwitchFailure[];
+  created_at: Date;
+}
+
+interface SquareOffSettingsDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  account_id: mongoose.Types.ObjectId | null;
+  enabled: boolean;
+  square_off_time: string;
+  cancel_pending_orders: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface SquareOffRunDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  account_id: mongoose.Types.ObjectId;
+  trading_date: string;
+  trigger: SquareOffTrigger;
+  status: SquareOffRunStatus;
+  cancelled_orders: number;
+  squared_off_positions: number;
+  retried_orders: number;
+  failures: AccountFlattenFailure[];
+  created_at: Date;
+}
+
+interface OrderTemplateDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  order_type: AdvancedOrderType;
+  price?: number;
+  trigger_price?: number;
+  stop_loss?: number;
+  take_profit?: number;
+  exchange: string;
+  product_type: string;
+  validity: OrderValidity;
+  iceberg_quantity?: number;
+  trail_amount?: number;
+  trail_percent?: number;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface AdvancedOrderDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  account_id: mongoose.Types.ObjectId;
+  account_ids?: mongoose.Types.ObjectId[];
+  parent_order_id?: mongoose.Types.ObjectId;
+  order_group_id?: string;
+  leg?: AdvancedOrderLeg;
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  order_type: AdvancedOrderType;
+  price?: number;
+  trigger_price?: number;
+  stop_loss?: number;
+  take_profit?: number;
+  status: AdvancedOrderStatus;
+  exchange: string;
+  product_type: string;
+  validity: OrderValidity;
+  expiry_date?: Date;
+  iceberg_quantity?: number;
+  iceberg_executed: number;
+  trail_amount?: number;
+  trail_percent?: number;
+  trail_trigger_price?: number;
+  condition_type?: AdvancedOrderConditionType;
+  condition_value?: number;
+  scheduled_at?: Date;
+  is_bracket_order: boolean;
+  bracket_stop_loss?: number;
+  bracket_take_profit?: number;
+  broker_order_id?: string;
+  order_history_id?: mongoose.Types.ObjectId;
+  error_message?: string;
+  remarks?: string;
+  created_at: Date;
+  updated_at: Date;
+  executed_at?: Date;
+}
+
+interface OrderModificationDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  order_id: mongoose.Types.ObjectId;
+  broker_order_id?: string;
+  modification_type: 'PRICE' | 'QUANTITY' | 'TRIGGER_PRICE' | 'STOP_LOSS' | 'TAKE_PROFIT' | 'CANCEL';
+  old_value?: number;
+  new_value?: number;
+  status: 'PENDING' | 'SUCCESS' | 'FAILED';
+  error_message?: string;
+  created_at: Date;
+}
+
+interface StrategyOrderDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  name: string;
+  strategy_type: StrategyType;
+  underlying?: string;
+  legs: StrategyLeg[];
+  net_premium: number;
+  max_profit: number | null;
+  max_loss: number | null;
+  breakevens: number[];
+  on_leg_failure: StrategyLegFailureAction;
+  status: StrategyOrderStatus;
+  account_results: StrategyAccountResult[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface LedgerFillDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  account_id: mongoose.Types.ObjectId;
+  order_history_id: mongoose.Types.ObjectId;
+  broker_name: string;
+  symbol: string;
+  exchange: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  cumulative_quantity: number;
+  executed_at: Date;
+  created_at: Date;
+}
+
+interface CandleDocument extends Document {
+  symbol: string;
+  exchange: string;
+  interval: Candle['interval'];
+  start: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  source: Candle['source'];
+}
+
+interface PriceAlertDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  name: string;
+  condition: PriceAlertCondition;
+  symbol: string | null;
+  exchange: string | null;
+  threshold: number;
+  trigger: PriceAlertTrigger;
+  cooldown_minutes: number;
+  channels: PriceAlertChannel[];
+  webhook_url: string | null;
+  status: PriceAlertStatus;
+  armed: boolean;
+  peak_value: number | null;
+  last_value: number | null;
+  last_triggered_at: Date | null;
+  trigger_count: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface AuthSessionDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  refresh_token_hash: string;
+  previous_refresh_token_hash: string | null;
+  rotated_at: Date | null;
+  device_name: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  step_up_at: Date | null;
+  last_used_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+  revoke_reason: string | null;
+  created_at: Date;
+}
+
+interface WorkspaceDocument extends Document {
+  name: string;
+  owner_id: mongoose.Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface WorkspaceMemberDocument extends Document {
+  workspace_id: mongoose.Types.ObjectId;
+  user_id: mongoose.Types.ObjectId;
+  role: WorkspaceRole;
+  added_by: mongoose.Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface AccountGrantDocument extends Document {
+  workspace_id: mongoose.Types.ObjectId;
+  account_id: mongoose.Types.ObjectId;
+  owner_id: mongoose.Types.ObjectId;
+  permissions: AccountPermission[];
+  revoked_at: Date | null;
+  revoked_by: mongoose.Types.ObjectId | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface ApiKeyDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  signing_secret: string; // encrypted
+  scopes: ApiKeyScope[];
+  ip_allowlist: string[];
+  require_signature: boolean;
+  account_groups: ApiKeyAccountGroup[];
+  last_used_at: Date | null;
+  last_used_ip: string | null;
+  revoked_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface SignalDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  api_key_id: mongoose.Types.ObjectId;
+  idempotency_key: string | null;
+  payload: Record<string, any>;
+  account_group: string | null;
+  order: Record<string, any> | null;
+  status: SignalStatus;
+  error: string | null;
+  orders: SignalOrder[];
+  source_ip: string | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+interface WebhookSubscriptionDocument extends Document {
+  user_id: mongoose.Types.ObjectId;
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  secret: string; // encrypted
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface WebhookDeliveryDocument extends Document {
+  subscription_id: mongoose.Types.ObjectId;
+  user_id: mongoose.Types.ObjectId;
+  event: WebhookEvent;
+  data: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: Date | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: Date;
+  delivered_at: Date | null;
+}
+
+interface PaperAccountStateDocument extends Document {
+  account_id: string;
+  snapshot: Record<string, any>;
+  updated_at: Date;
+}
+
+interface AuditEventDocument extends Document {
+  sequence: number;
+  user_id: string | null;
+  action: AuditAction;
+  category: AuditCategory;
+  account_id: string | null;
+  broker_name: string | null;
+  resource_id: string | null;
+  details: Record<string, any>;
+  success: boolean;
+  error_message: string | null;
+  request_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  previous_hash: string;
+  hash: string;
+  created_at: Date;
 }
 
 // MongoDB Schemas
@@ -75,6 +563,11 @@ const UserSchema = new Schema<UserDocument>({
   email: { type: String, required: true, unique: true, index: true },
   name: { type: String, required: true },
   password: { type: String, required: true },
+  two_factor_enabled: { type: Boolean, default: false },
+  two_factor_secret: { type: String, default: null },
+  two_factor_pending_secret: { type: String, default: null },
+  two_factor_recovery_codes: { type: [String], default: [] },
+  two_factor_last_step: { type: Number, default: null },
   created_at: { type: Date, default: Date.now },
   updated_at: { type: Date, default: Date.now }
 });
@@ -89,6 +582,7 @@ const ConnectedAccountSchema = new Schema<ConnectedAccountDocument>({
   exchanges: { type: String, required: true }, // JSON string
   products: { type: String, required: true }, // JSON string
   encrypted_credentials: { type: String, required: true },
+  credentials_key_version: { type: Number, default: 0, index: true },
   account_status: { type: String, required: true, enum: ['ACTIVE', 'INACTIVE', 'PROCEED_TO_OAUTH'], default: 'INACTIVE' },
   token_expiry_time: { type: Date, default: null }, // null for infinity (Shoonya)
   created_at: { type: Date, default: Date.now },
@@ -105,9 +599,10 @@ const OrderHistorySchema = new Schema<OrderHistoryDocument>({
   quantity: { type: Number, required: true },
   price: { type: Number, required: true },
   order_type: { type: String, enum: ['MARKET', 'LIMIT', 'SL-LIMIT', 'SL-MARKET'], required: true },
+  variety: { type: String, enum: ['REGULAR', 'AMO'], default: 'REGULAR' },
   status: {
     type: String,
-    enum: ['PLACED', 'PENDING', 'EXECUTED', 'CANCELLED', 'REJECTED', 'PARTIALLY_FILLED', 'FAILED'],
+    enum: ['PLACED', 'AMO_PLACED', 'PENDING', 'EXECUTED', 'CANCELLED', 'REJECTED', 'PARTIALLY_FILLED', 'FAILED'],
     default: 'PLACED'
   },
   exchange: { type: String, default: 'NSE' },
@@ -125,124 +620,696 @@ const OrderHistorySchema = new Schema<OrderHistoryDocument>({
   error_code: { type: String },
   error_type: {
     type: String,
-    enum: ['NETWORK', 'BROKER', 'VALIDATION', 'AUTH', 'SYSTEM', 'MARKET']
+    enum: ['NETWORK', 'BROKER', 'VALIDATION', 'AUTH', 'SYSTEM', 'MARKET', 'RISK']
   },
   retry_count: { type: Number, default: 0 },
   max_retries: { type: Number, default: 3 },
   last_retry_at: { type: Date },
   is_retryable: { type: Boolean, default: false },
-  failure_reason: { type: String }
+  failure_reason: { type: String },
+  // Copy trading linkage
+  source: { type: String, enum: ['MANUAL', 'COPY_TRADE', 'ADVANCED_ORDER', 'KILL_SWITCH', 'STRATEGY', 'SQUARE_OFF'], default: 'MANUAL' },
+  parent_broker_order_id: { type: String },
+  master_account_id: { type: Schema.Types.ObjectId, ref: 'ConnectedAccount' },
+  // Strategy linkage
+  strategy_order_id: { type: Schema.Types.ObjectId, ref: 'StrategyOrder' },
+  strategy_leg: { type: Number }
 });
 
-// Add compound indexes
-// Allow multiple accounts per broker, but prevent duplicate account IDs per user
-ConnectedAccountSchema.index({ user_id: 1, broker_name: 1, account_id: 1 }, { unique: true });
-OrderHistorySchema.index({ user_id: 1, created_at: -1 });
-OrderHistorySchema.index({ broker_order_id: 1 });
-
-// Update timestamps middleware
-UserSchema.pre('save', function(next) {
-  this.updated_at = new Date();
-  next();
+const CopyTradeLinkSchema = new Schema<CopyTradeLinkDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  master_account_id: { type: Schema.Types.ObjectId, ref: 'ConnectedAccount', required: true },
+  follower_account_id: { type: Schema.Types.ObjectId, ref: 'ConnectedAccount', required: true },
+  is_active: { type: Boolean, default: true },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
 });
 
-ConnectedAccountSchema.pre('save', function(next) {
-  this.updated_at = new Date();
-  next();
+const CopiedOrderSchema = new Schema<CopiedOrderDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  link_id: { type: Schema.Types.ObjectId, ref: 'CopyTradeLink', required: true },
+  master_account_id: { type: Schema.Types.ObjectId, ref: 'ConnectedAccount', required: true },
+  master_broker_order_id: { type: String, required: true },
+  follower_account_id: { type: Schema.Types.ObjectId, ref: 'ConnectedAccount', required: true },
+  follower_order_id: { type: Schema.Types.ObjectId, ref: 'OrderHistory' },
+  follower_broker_order_id: { type: String },
+  status: { type: String, enum: ['COPIED', 'FAILED', 'CANCELLED'], required: true },
+  symbol: { type: String, required: true },
+  action: { type: String, enum: ['BUY', 'SELL'], required: true },
+  quantity: { type: Number, required: true },
+  price: { type: Number, default: 0 },
+  trigger_price: { type: Number },
+  order_type: { type: String, enum: ['MARKET', 'LIMIT', 'SL-LIMIT', 'SL-MARKET'], required: true },
+  error_message: { type: String },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
 });
 
-export class MongoDatabase implements IDatabaseAdapter {
-  private UserModel: Model<UserDocument>;
-  private ConnectedAccountModel: Model<ConnectedAccountDocument>;
-  private OrderHistoryModel: Model<OrderHistoryDocument>;
-  private encryptionKey: string;
-  private isInitialized: boolean = false;
+const AccountSizingRuleSchema = new Schema<AccountSizingRuleDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  account_id: { type: Schema.Types.ObjectId, ref: 'ConnectedAccount', required: true, unique: true },
+  method: {
+    type: String,
+    enum: ['FIXED_QUANTITY', 'MULTIPLIER', 'PERCENT_OF_CAPITAL', 'FIXED_NOTIONAL'],
+    required: true
+  },
+  value: { type: Number, required: true },
+  capital: { type: Number },
+  min_quantity: { type: Number },
+  max_quantity: { type: Number },
+  round_to_lot: { type: Boolean, default: true },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
+});
 
-  constructor() {
-    this.encryptionKey = process.env.ENCRYPTION_KEY || 'default-encryption-key-change-in-production';
-    
-    // Initialize models
-    this.UserModel = mongoose.model<UserDocument>('User', UserSchema);
-    this.ConnectedAccountModel = mongoose.model<ConnectedAccountDocument>('ConnectedAccount', ConnectedAccountSchema);
-    this.OrderHistoryModel = mongoose.model<OrderHistoryDocument>('OrderHistory', OrderHistorySchema);
-  }
+const RiskLimitsSchema = new Schema<RiskLimitsDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  account_id: { type: Schema.Types.ObjectId, ref: 'ConnectedAccount', default: null },
+  is_enabled: { type: Boolean, default: true },
+  max_order_value: { type: Number },
+  max_quantity_per_symbol: { type: Number },
+  max_open_positions: { type: Number },
+  daily_loss_limit: { type: Number },
+  max_orders_per_minute: { type: Number },
+  allowed_exchanges: { type: [String], default: [] },
+  allowed_products: { type: [String], default: [] },
+  restricted_symbols: { type: [String], default: [] },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
+});
 
-  async initialize(): Promise<void> {
-    try {
-      const mongoUri = process.env.MONGODB_URI || 'mongodb://localhost:27017/copytrade';
-      
-      console.log('🔗 Connecting to MongoDB...');
-      await mongoose.connect(mongoUri);
-      
-      console.log('✅ MongoDB connected successfully');
-      console.log('📊 Database:', mongoose.connection.db?.databaseName);
+// One user-wide set (account_id null) and at most one set per account
+RiskLimitsSchema.index({ user_id: 1, account_id: 1 }, { unique: true });
 
-      this.isInitialized = true;
-    } catch (error) {
-      console.error('🚨 MongoDB connection failed:', error);
-      throw error;
-    }
-  }
+const KillSwitchSchema = new Schema<KillSwitchDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  account_id: { type: Schema.Types.ObjectId, ref: 'ConnectedAccount', default: null },
+  is_active: { type: Boolean, default: false },
+  reason: { type: String },
+  activated_at: { type: Date },
+  deactivated_at: { type: Date },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
+});
 
+// One user-wide switch (account_id null) and at most one switch per account
+KillSwitchSchema.index({ user_id: 1, account_id: 1 }, { unique: true });
 
+const KillSwitchEventSchema = new Schema<KillSwitchEventDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  account_id: { type: Schema.Types.ObjectId, ref: 'ConnectedAccount', default: null },
+  action: { type: String, enum: ['ACTIVATED', 'DEACTIVATED'], required: true },
+  reason: { type: String },
+  square_off: { type: Boolean, default: false },
+  cancelled_orders: { type: Number, default: 0 },
+  squared_off_positions: { type: Number, default: 0 },
+  failures: [{
+    _id: false,
+    account_id: { type: String, required: true },
+    operation: { type: String, required: true },
+    reference: { type: String },
+    message: { type: String, required: true }
+  }],
+  created_at: { type: Date, default: Date.now }
+});
 
-  async close(): Promise<void> {
-    try {
-      await mongoose.connection.close();
-      this.isInitialized = false;
-      console.log('✅ MongoDB connection closed');
-    } catch (error) {
-      console.error('🚨 Error closing MongoDB connection:', error);
-      throw error;
-    }
-  }
+const SquareOffSettingsSchema = new Schema<SquareOffSettingsDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  account_id: { type: Schema.Types.ObjectId, ref: 'ConnectedAccount', default: null },
+  enabled: { type: Boolean, default: true },
+  square_off_time: { type: String, required: true },
+  cancel_pending_orders: { type: Boolean, default: true },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
+});
 
-  async healthCheck(): Promise<boolean> {
-    try {
-      if (!this.isInitialized) {
-        return false;
-      }
-      // Check if mongoose connection is ready
-      return mongoose.connection.readyState === 1;
-    } catch (error) {
-      console.error('🚨 MongoDB health check failed:', error);
-      return false;
-    }
-  }
+// One user-wide schedule (account_id null) and at most one override per account
+SquareOffSettingsSchema.index({ user_id: 1, account_id: 1 }, { unique: true });
+SquareOffSettingsSchema.index({ enabled: 1 });
 
-  isConnected(): boolean {
-    return this.isInitialized && mongoose.connection.readyState === 1;
-  }
+const SquareOffRunSchema = new Schema<SquareOffRunDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  account_id: { type: Schema.Types.ObjectId, ref: 'ConnectedAccount', required: true },
+  trading_date: { type: String, required: true },
+  trigger: { type: String, enum: ['SCHEDULED', 'MANUAL'], required: true },
+  status: { type: String, enum: ['COMPLETED', 'PARTIAL', 'FAILED', 'NOTHING_TO_DO'], required: true },
+  cancelled_orders: { type: Number, default: 0 },
+  squared_off_positions: { type: Number, default: 0 },
+  retried_orders: { type: Number, default: 0 },
+  failures: [{
+    _id: false,
+    account_id: { type: String, required: true },
+    operation: { type: String, required: true },
+    reference: { type: String },
+    message: { type: String, required: true }
+  }],
+  created_at: { type: Date, default: Date.now }
+});
 
-  // Encryption helpers
-  private encrypt(text: string): string {
-    const algorithm = 'aes-256-cbc';
-    const key = crypto.scryptSync(this.encryptionKey, 'salt', 32);
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv(algorithm, key, iv);
+SquareOffRunSchema.index({ account_id: 1, trading_date: 1, trigger: 1 });
 
-    let encrypted = cipher.update(text, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
+const ADVANCED_ORDER_TYPES = ['MARKET', 'LIMIT', 'SL-LIMIT', 'SL-MARKET', 'BRACKET', 'COVER', 'ICEBERG', 'TRAILING_SL'];
 
-    return iv.toString('hex') + ':' + encrypted;
-  }
+const OrderTemplateSchema = new Schema<OrderTemplateDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  name: { type: String, required: true },
+  description: { type: String },
+  symbol: { type: String, required: true },
+  action: { type: String, enum: ['BUY', 'SELL'], required: true },
+  quantity: { type: Number, required: true },
+  order_type: { type: String, enum: ADVANCED_ORDER_TYPES, required: true },
+  price: { type: Number },
+  trigger_price: { type: Number },
+  stop_loss: { type: Number },
+  take_profit: { type: Number },
+  exchange: { type: String, default: 'NSE' },
+  product_type: { type: String, default: 'C' },
+  validity: { type: String, enum: ['DAY', 'IOC', 'GTD'], default: 'DAY' },
+  iceberg_quantity: { type: Number },
+  trail_amount: { type: Number },
+  trail_percent: { type: Number },
+  is_active: { type: Boolean, default: true },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
+});
 
-  private decrypt(encryptedText: string): string {
-    const algorithm = 'aes-256-cbc';
-    const key = crypto.scryptSync(this.encryptionKey, 'salt', 32);
-    const [ivHex, encrypted] = encryptedText.split(':');
+const AdvancedOrderSchema = new Schema<AdvancedOrderDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  account_id: { type: Schema.Types.ObjectId, ref: 'ConnectedAccount', required: true },
+  account_ids: { type: [Schema.Types.ObjectId], ref: 'ConnectedAccount', default: undefined },
+  parent_order_id: { type: Schema.Types.ObjectId, ref: 'AdvancedOrder' },
+  order_group_id: { type: String, index: true },
+  leg: { type: String, enum: ['ENTRY', 'STOP_LOSS', 'TAKE_PROFIT', 'SLICE'] },
+  symbol: { type: String, required: true },
+  action: { type: String, enum: ['BUY', 'SELL'], required: true },
+  quantity: { type: Number, required: true },
+  order_type: { type: String, enum: ADVANCED_ORDER_TYPES, required: true },
+  price: { type: Number },
+  trigger_price: { type: Number },
+  stop_loss: { type: Number },
+  take_profit: { type: Number },
+  status: {
+    type: String,
+    enum: ['PENDING', 'ACTIVE', 'TRIGGERED', 'EXECUTED', 'CANCELLED', 'EXPIRED'],
+    default: 'PENDING'
+  },
+  exchange: { type: String, default: 'NSE' },
+  product_type: { type: String, default: 'C' },
+  validity: { type: String, enum: ['DAY', 'IOC', 'GTD'], default: 'DAY' },
+  expiry_date: { type: Date },
+  iceberg_quantity: { type: Number },
+  iceberg_executed: { type: Number, default: 0 },
+  trail_amount: { type: Number },
+  trail_percent: { type: Number },
+  trail_trigger_price: { type: Number },
+  condition_type: { type: String, enum: ['PRICE_ABOVE', 'PRICE_BELOW', 'TIME_BASED', 'VOLUME_BASED'] },
+  condition_value: { type: Number },
+  scheduled_at: { type: Date },
+  is_bracket_order: { type: Boolean, default: false },
+  bracket_stop_loss: { type: Number },
+  bracket_take_profit: { type: Number },
+  broker_order_id: { type: String },
+  order_history_id: { type: Schema.Types.ObjectId, ref: 'OrderHistory' },
+  error_message: { type: String },
+  remarks: { type: String },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now },
+  executed_at: { type: Date }
+});
+
+const OrderModificationSchema = new Schema<OrderModificationDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  order_id: { type: Schema.Types.ObjectId, ref: 'AdvancedOrder', required: true, index: true },
+  broker_order_id: { type: String },
+  modification_type: {
+    type: String,
+    enum: ['PRICE', 'QUANTITY', 'TRIGGER_PRICE', 'STOP_LOSS', 'TAKE_PROFIT', 'CANCEL'],
+    required: true
+  },
+  old_value: { type: Number },
+  new_value: { type: Number },
+  status: { type: String, enum: ['PENDING', 'SUCCESS', 'FAILED'], default: 'PENDING' },
+  error_message: { type: String },
+  created_at: { type: Date, default: Date.now }
+});
+
+const StrategyOrderSchema = new Schema<StrategyOrderDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  name: { type: String, required: true },
+  strategy_type: {
+    type: String,
+    enum: ['SPREAD', 'STRADDLE', 'STRANGLE', 'IRON_CONDOR', 'CUSTOM'],
+    required: true
+  },
+  underlying: { type: String },
+  legs: [{
+    _id: false,
+    symbol: { type: String, required: true },
+    exchange: { type: String, required: true },
+    action: { type: String, enum: ['BUY', 'SELL'], required: true },
+    quantity: { type: Number, required: true },
+    option_type: { type: String, enum: ['CE', 'PE'] },
+    strike: { type: Number },
+    expiry: { type: String },
+    order_type: { type: String, enum: ['MARKET', 'LIMIT'], required: true },
+    price: { type: Number },
+    premium: { type: Number, required: true },
+    product_type: { type: String, required: true }
+  }],
+  net_premium: { type: Number, required: true },
+  max_profit: { type: Number, default: null },
+  max_loss: { type: Number, default: null },
+  breakevens: [{ type: Number }],
+  on_leg_failure: { type: String, enum: ['ROLLBACK', 'ALERT'], default: 'ROLLBACK' },
+  status: {
+    type: String,
+    enum: ['PENDING', 'PLACED', 'PARTIALLY_PLACED', 'ROLLED_BACK', 'FAILED'],
+    default: 'PENDING'
+  },
+  account_results: [{
+    _id: false,
+    account_id: { type: String, required: true },
+    status: { type: String, enum: ['PLACED', 'ROLLED_BACK', 'PARTIALLY_PLACED', 'FAILED'], required: true },
+    placed_legs: [{
+      _id: false,
+      leg_index: { type: Number, required: true },
+      broker_order_id: { type: String, required: true }
+    }],
+    failed_leg: { type: Number },
+    error: { type: String },
+    rollback_errors: [{ type: String }]
+  }],
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
+});
+
+const LedgerFillSchema = new Schema<LedgerFillDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  account_id: { type: Schema.Types.ObjectId, ref: 'ConnectedAccount', required: true },
+  order_history_id: { type: Schema.Types.ObjectId, ref: 'OrderHistory', required: true },
+  broker_name: { type: String, required: true },
+  symbol: { type: String, required: true },
+  exchange: { type: String, required: true },
+  action: { type: String, enum: ['BUY', 'SELL'], required: true },
+  quantity: { type: Number, required: true },
+  price: { type: Number, required: true },
+  cumulative_quantity: { type: Number, required: true },
+  executed_at: { type: Date, required: true },
+  created_at: { type: Date, default: Date.now }
+});
+
+const CandleSchema = new Schema<CandleDocument>({
+  symbol: { type: String, required: true },
+  exchange: { type: String, required: true },
+  interval: { type: String, enum: ['1m', '5m', '15m', '1d'], required: true },
+  start: { type: Date, required: true },
+  open: { type: Number, required: true },
+  high: { type: Number, required: true },
+  low: { type: Number, required: true },
+  close: { type: Number, required: true },
+  volume: { type: Number, default: 0 },
+  source: { type: String, enum: ['broker', 'file', 'ticks'], required: true }
+});
+
+const PriceAlertSchema = new Schema<PriceAlertDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  name: { type: String, required: true },
+  condition: {
+    type: String,
+    enum: ['PRICE_ABOVE', 'PRICE_BELOW', 'PERCENT_CHANGE', 'VOLUME_SPIKE', 'WEEK52_HIGH', 'WEEK52_LOW', 'POSITION_PNL', 'PORTFOLIO_DRAWDOWN'],
+    required: true
+  },
+  symbol: { type: String, default: null },
+  exchange: { type: String, default: null },
+  threshold: { type: Number, default: 0 },
+  trigger: { type: String, enum: ['ONCE', 'RECURRING'], default: 'ONCE' },
+  cooldown_minutes: { type: Number, default: 15 },
+  channels: [{ type: String, enum: ['PUSH', 'WEBSOCKET', 'EMAIL', 'WEBHOOK'] }],
+  webhook_url: { type: String, default: null },
+  status: { type: String, enum: ['ACTIVE', 'TRIGGERED', 'DISABLED'], default: 'ACTIVE' },
+  armed: { type: Boolean, default: true },
+  peak_value: { type: Number, default: null },
+  last_value: { type: Number, default: null },
+  last_triggered_at: { type: Date, default: null },
+  trigger_count: { type: Number, default: 0 },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
+});
+
+const AuthSessionSchema = new Schema<AuthSessionDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  refresh_token_hash: { type: String, required: true },
+  previous_refresh_token_hash: { type: String, default: null },
+  rotated_at: { type: Date, default: null },
+  device_name: { type: String, required: true },
+  user_agent: { type: String, default: null },
+  ip_address: { type: String, default: null },
+  step_up_at: { type: Date, default: null },
+  last_used_at: { type: Date, default: Date.now },
+  expires_at: { type: Date, required: true },
+  revoked_at: { type: Date, default: null },
+  revoke_reason: { type: String, default: null },
+  created_at: { type: Date, default: Date.now }
+});
+
+const WorkspaceSchema = new Schema<WorkspaceDocument>({
+  name: { type: String, required: true, trim: true },
+  owner_id: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
+});
+
+const WorkspaceMemberSchema = new Schema<WorkspaceMemberDocument>({
+  workspace_id: { type: Schema.Types.ObjectId, ref: 'Workspace', required: true },
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  role: { type: String, enum: ['owner', 'trader', 'viewer'], required: true },
+  added_by: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
+});
+
+const AccountGrantSchema = new Schema<AccountGrantDocument>({
+  workspace_id: { type: Schema.Types.ObjectId, ref: 'Workspace', required: true },
+  account_id: { type: Schema.Types.ObjectId, ref: 'ConnectedAccount', required: true },
+  owner_id: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  permissions: [{ type: String, enum: ['VIEW', 'TRADE'] }],
+  revoked_at: { type: Date, default: null },
+  revoked_by: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
+});
+
+const ApiKeySchema = new Schema<ApiKeyDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  name: { type: String, required: true, trim: true },
+  key_prefix: { type: String, required: true },
+  key_hash: { type: String, required: true, unique: true },
+  signing_secret: { type: String, required: true },
+  scopes: [{ type: String, enum: ['signals:write', 'signals:read'] }],
+  ip_allowlist: { type: [String], default: [] },
+  require_signature: { type: Boolean, default: true },
+  account_groups: [{
+    _id: false,
+    name: { type: String, required: true },
+    account_ids: { type: [String], default: [] }
+  }],
+  last_used_at: { type: Date, default: null },
+  last_used_ip: { type: String, default: null },
+  revoked_at: { type: Date, default: null },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
+});
+
+const SignalSchema = new Schema<SignalDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  api_key_id: { type: Schema.Types.ObjectId, ref: 'ApiKey', required: true },
+  idempotency_key: { type: String, default: null },
+  payload: { type: Schema.Types.Mixed, default: {} },
+  account_group: { type: String, default: null },
+  order: { type: Schema.Types.Mixed, default: null },
+  status: { type: String, enum: ['PROCESSING', 'COMPLETED', 'PARTIAL', 'FAILED', 'REJECTED'], default: 'PROCESSING' },
+  error: { type: String, default: null },
+  orders: [{
+    _id: false,
+    account_id: { type: String, required: true },
+    broker_name: { type: String, required: true },
+    order_history_id: { type: String, default: null },
+    broker_order_id: { type: String, default: null },
+    quantity: { type: Number, required: true },
+    success: { type: Boolean, required: true },
+    error: { type: String, default: null }
+  }],
+  source_ip: { type: String, default: null },
+  created_at: { type: Date, default: Date.now },
+  completed_at: { type: Date, default: null }
+}, { minimize: false });
+
+const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'order.placed', 'order.filled', 'order.rejected', 'order.cancelled', 'account.session_expired', 'alert.triggered', 'webhook.test'
+];
+
+const WebhookSubscriptionSchema = new Schema<WebhookSubscriptionDocument>({
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  name: { type: String, required: true, trim: true },
+  url: { type: String, required: true },
+  events: [{ type: String, enum: WEBHOOK_EVENTS }],
+  secret: { type: String, required: true },
+  is_active: { type: Boolean, default: true },
+  created_at: { type: Date, default: Date.now },
+  updated_at: { type: Date, default: Date.now }
+});
+
+const WebhookDeliverySchema = new Schema<WebhookDeliveryDocument>({
+  subscription_id: { type: Schema.Types.ObjectId, ref: 'WebhookSubscription', required: true },
+  user_id: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  event: { type: String, enum: WEBHOOK_EVENTS, required: true },
+  data: { type: Schema.Types.Mixed, default: {} },
+  status: { type: String, enum: ['PENDING', 'DELIVERED', 'RETRYING', 'DEAD_LETTER'], default: 'PENDING' },
+  attempts: { type: Number, default: 0 },
+  next_attempt_at: { type: Date, default: null },
+  last_status_code: { type: Number, default: null },
+  last_error: { type: String, default: null },
+  created_at: { type: Date, default: Date.now },
+  delivered_at: { type: Date, default: null }
+}, { minimize: false });
+
+const PaperAccountStateSchema = new Schema<PaperAccountStateDocument>({
+  account_id: { type: String, required: true, unique: true },
+  snapshot: { type: Schema.Types.Mixed, default: {} },
+  updated_at: { type: Date, default: Date.now }
+}, { minimize: false });
+
+// Ids are kept as plain strings so events outlive the users and accounts they mention
+const AuditEventSchema = new Schema<AuditEventDocument>({
+  sequence: { type: Number, required: true },
+  user_id: { type: String, default: null },
+  action: { type: String, required: true },
+  category: { type: String, enum: ['ORDER', 'ACCOUNT', 'RISK', 'SETTINGS', 'SECURITY', 'SYSTEM'], required: true },
+  account_id: { type: String, default: null },
+  broker_name: { type: String, default: null },
+  resource_id: { type: String, default: null },
+  details: { type: Schema.Types.Mixed, default: {} },
+  success: { type: Boolean, required: true },
+  error_message: { type: String, default: null },
+  request_id: { type: String, default: null },
+  ip_address: { type: String, default: null },
+  user_agent: { type: String, default: null },
+  previous_hash: { type: String, required: true },
+  hash: { type: String, required: true },
+  created_at: { type: Date, required: true }
+}, { minimize: false });
+
+// Append-only: the application never rewrites an audit event
+AuditEventSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], function () {
+  throw new Error('Audit events are append-only');
+});
+
+// Add compound indexes
+// Allow multiple accounts per broker, but prevent duplicate account IDs per user
+ConnectedAccountSchema.index({ user_id: 1, broker_name: 1, account_id: 1 }, { unique: true });
+OrderHistorySchema.index({ user_id: 1, created_at: -1 });
+OrderHistorySchema.index({ broker_order_id: 1 });
+OrderHistorySchema.index({ master_account_id: 1, parent_broker_order_id: 1 });
+OrderHistorySchema.index({ strategy_order_id: 1 }, { sparse: true });
+// The status sync scans working orders across all users
+OrderHistorySchema.index({ status: 1, created_at: 1 });
+StrategyOrderSchema.index({ user_id: 1, created_at: -1 });
+// A fill is recorded once: it is identified by how far it took its order
+LedgerFillSchema.index({ order_history_id: 1, cumulative_quantity: 1 }, { unique: true });
+LedgerFillSchema.index({ user_id: 1, account_id: 1, executed_at: 1 });
+// One bar per instrument, interval and start; range reads walk this index
+CandleSchema.index({ symbol: 1, exchange: 1, interval: 1, start: 1 }, { unique: true });
+PriceAlertSchema.index({ user_id: 1, created_at: -1 });
+// The alert engine loads every active alert on each pass
+PriceAlertSchema.index({ status: 1 });
+// One event per position in the chain, even with several writers
+AuditEventSchema.index({ sequence: 1 }, { unique: true });
+AuditEventSchema.index({ user_id: 1, created_at: -1 });
+AuditEventSchema.index({ account_id: 1, created_at: -1 });
+AuditEventSchema.index({ request_id: 1 }, { sparse: true });
+AuthSessionSchema.index({ user_id: 1, revoked_at: 1 });
+// Mongo drops sessions once their refresh token has expired
+AuthSessionSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+// A user belongs to a workspace once
+WorkspaceMemberSchema.index({ workspace_id: 1, user_id: 1 }, { unique: true });
+AccountGrantSchema.index({ workspace_id: 1, revoked_at: 1 });
+AccountGrantSchema.index({ account_id: 1, revoked_at: 1 });
+// A retried signal is recognised by its key's idempotency key
+SignalSchema.index(
+  { api_key_id: 1, idempotency_key: 1 },
+  { unique: true, partialFilterExpression: { idempotency_key: { $type: 'string' } } }
+);
+SignalSchema.index({ user_id: 1, created_at: -1 });
+// Subscriptions are looked up per user and event whenever an event is published
+WebhookSubscriptionSchema.index({ user_id: 1, is_active: 1, events: 1 });
+// Retry worker scan, and the delivery log of a subscription
+WebhookDeliverySchema.index({ status: 1, next_attempt_at: 1 });
+WebhookDeliverySchema.index({ user_id: 1, subscription_id: 1, created_at: -1 });
+// A follower can only mirror a master account once
+CopyTradeLinkSchema.index({ master_account_id: 1, follower_account_id: 1 }, { unique: true });
+// Dedupe: each master order is copied at most once per follower
+CopiedOrderSchema.index({ master_account_id: 1, master_broker_order_id: 1, follower_account_id: 1 }, { unique: true });
+
+// The execution engine scans open orders on every tick
+AdvancedOrderSchema.index({ status: 1, created_at: 1 });
+
+// Update timestamps middleware
+UserSchema.pre('save', function(next) {
+  this.updated_at = new Date();
+  next();
+});
+
+ConnectedAccountSchema.pre('save', function(next) {
+  this.updated_at = new Date();
+  next();
+});
+
+CopyTradeLinkSchema.pre('save', function(next) {
+  this.updated_at = new Date();
+  next();
+});
+
+CopiedOrderSchema.pre('save', function(next) {
+  this.updated_at = new Date();
+  next();
+});
+
+OrderTemplateSchema.pre('save', function(next) {
+  this.updated_at = new Date();
+  next();
+});
+
+AdvancedOrderSchema.pre('save', function(next) {
+  this.updated_at = new Date();
+  next();
+});
+
+export class MongoDatabase implements IDatabaseAdapter {
+  private UserModel: Model<UserDocument>;
+  private ConnectedAccountModel: Model<ConnectedAccountDocument>;
+  private OrderHistoryModel: Model<OrderHistoryDocument>;
+  private CopyTradeLinkModel: Model<CopyTradeLinkDocument>;
+  private CopiedOrderModel: Model<CopiedOrderDocument>;
+  private AccountSizingRuleModel: Model<AccountSizingRuleDocument>;
+  private RiskLimitsModel: Model<RiskLimitsDocument>;
+  private KillSwitchModel: Model<KillSwitchDocument>;
+  private KillSwitchEventModel: Model<KillSwitchEventDocument>;
+  private SquareOffSettingsModel: Model<SquareOffSettingsDocument>;
+  private SquareOffRunModel: Model<SquareOffRunDocument>;
+  private OrderTemplateModel: Model<OrderTemplateDocument>;
+  private AdvancedOrderModel: Model<AdvancedOrderDocument>;
+  private OrderModificationModel: Model<OrderModificationDocument>;
+  private StrategyOrderModel: Model<StrategyOrderDocument>;
+  private LedgerFillModel: Model<LedgerFillDocument>;
+  private CandleModel: Model<CandleDocument>;
+  private PriceAlertModel: Model<PriceAlertDocument>;
+  private AuditEventModel: Model<AuditEventDocument>;
+  private AuthSessionModel: Model<AuthSessionDocument>;
+  private WorkspaceModel: Model<WorkspaceDocument>;
+  private WorkspaceMemberModel: Model<WorkspaceMemberDocument>;
+  private AccountGrantModel: Model<AccountGrantDocument>;
+  private ApiKeyModel: Model<ApiKeyDocument>;
+  private SignalModel: Model<SignalDocument>;
+  private WebhookSubscriptionModel: Model<WebhookSubscriptionDocument>;
+  private WebhookDeliveryModel: Model<WebhookDeliveryDocument>;
+  private PaperAccountStateModel: Model<PaperAccountStateDocument>;
+  private keyring: MasterKeyring | null = null;
+  private isInitialized: boolean = false;
+
+  constructor() {
+    // Initialize models
+    this.UserModel = mongoose.model<UserDocument>('User', UserSchema);
+    this.ConnectedAccountModel = mongoose.model<ConnectedAccountDocument>('ConnectedAccount', ConnectedAccountSchema);
+    this.OrderHistoryModel = mongoose.model<OrderHistoryDocument>('OrderHistory', OrderHistorySchema);
+    this.CopyTradeLinkModel = mongoose.model<CopyTradeLinkDocument>('CopyTradeLink', CopyTradeLinkSchema);
+    this.CopiedOrderModel = mongoose.model<CopiedOrderDocument>('CopiedOrder', CopiedOrderSchema);
+    this.AccountSizingRuleModel = mongoose.model<AccountSizingRuleDocument>('AccountSizingRule', AccountSizingRuleSchema);
+    this.RiskLimitsModel = mongoose.model<RiskLimitsDocument>('RiskLimits', RiskLimitsSchema);
+    this.KillSwitchModel = mongoose.model<KillSwitchDocument>('KillSwitch', KillSwitchSchema);
+    this.KillSwitchEventModel = mongoose.model<KillSwitchEventDocument>('KillSwitchEvent', KillSwitchEventSchema);
+    this.SquareOffSettingsModel = mongoose.model<SquareOffSettingsDocument>('SquareOffSettings', SquareOffSettingsSchema);
+    this.SquareOffRunModel = mongoose.model<SquareOffRunDocument>('SquareOffRun', SquareOffRunSchema);
+    this.OrderTemplateModel = mongoose.model<OrderTemplateDocument>('OrderTemplate', OrderTemplateSchema);
+    this.AdvancedOrderModel = mongoose.model<AdvancedOrderDocument>('AdvancedOrder', AdvancedOrderSchema);
+    this.OrderModificationModel = mongoose.model<OrderModificationDocument>('OrderModification', OrderModificationSchema);
+    this.StrategyOrderModel = mongoose.model<StrategyOrderDocument>('StrategyOrder', StrategyOrderSchema);
+    this.LedgerFillModel = mongoose.model<LedgerFillDocument>('LedgerFill', LedgerFillSchema);
+    this.CandleModel = mongoose.model<CandleDocument>('Candle', CandleSchema);
+    this.PriceAlertModel = mongoose.model<PriceAlertDocument>('PriceAlert', PriceAlertSchema);
+    this.AuditEventModel = mongoose.model<AuditEventDocument>('AuditEvent', AuditEventSchema);
+    this.AuthSessionModel = mongoose.model<AuthSessionDocument>('AuthSession', AuthSessionSchema);
+    this.WorkspaceModel = mongoose.model<WorkspaceDocument>('Workspace', WorkspaceSchema);
+    this.WorkspaceMemberModel = mongoose.model<WorkspaceMemberDocument>('WorkspaceMember', WorkspaceMemberSchema);
+    this.AccountGrantModel = mongoose.model<AccountGrantDocument>('AccountGrant', AccountGrantSchema);
+    this.ApiKeyModel = mongoose.model<ApiKeyDocument>('ApiKey', ApiKeySchema);
+    this.SignalModel = mongoose.model<SignalDocument>('Signal', SignalSchema);
+    this.WebhookSubscriptionModel = mongoose.model<WebhookSubscriptionDocument>('WebhookSubscription', WebhookSubscriptionSchema);
+    this.WebhookDeliveryModel = mongoose.model<WebhookDeliveryDocument>('WebhookDelivery', WebhookDeliverySchema);
+    this.PaperAccountStateModel = mongoose.model<PaperAccountStateDocument>('PaperAccountState', PaperAccountStateSchema);
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      const mongoUri = process.env.MONGODB_URI || 'mongodb://localhost:27017/copytrade';
+      
+      console.log('🔗 Connecting to MongoDB...');
+      await mongoose.connect(mongoUri);
+      
+      console.log('✅ MongoDB connected successfully');
+      console.log('📊 Database:', mongoose.connection.db?.databaseName);
+
+      this.isInitialized = true;
+    } catch (error) {
+      console.error('🚨 MongoDB connection failed:', error);
+      throw error;
+    }
+  }
+
+
+
+  async close(): Promise<void> {
+    try {
+      await mongoose.connection.close();
+      this.isInitialized = false;
+      console.log('✅ MongoDB connection closed');
+    } catch (error) {
+      console.error('🚨 Error closing MongoDB connection:', error);
+      throw error;
+    }
+  }
 
-    if (!ivHex || !encrypted) {
-      throw new Error('Invalid encrypted text format');
+  async healthCheck(): Promise<boolean> {
+    try {
+      if (!this.isInitialized) {
+        return false;
+      }
+      // Check if mongoose connection is ready
+      return mongoose.connection.readyState === 1;
+    } catch (error) {
+      console.error('🚨 MongoDB health check failed:', error);
+      return false;
     }
+  }
+
+  isConnected(): boolean {
+    return this.isInitialized && mongoose.connection.readyState === 1;
+  }
 
-    const iv = Buffer.from(ivHex, 'hex');
-    const decipher = crypto.createDecipheriv(algorithm, key, iv);
+  // Encryption helpers
+  // Keys are read on first use; startup validation has already refused a missing or default key
+  private getKeyring(): MasterKeyring {
+    if (!this.keyring) {
+      this.keyring = loadMasterKeyring();
+    }
+    return this.keyring;
+  }
 
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
+  private encrypt(text: string): { encrypted: string; keyVersion: number } {
+    return encryptCredentials(text, this.getKeyring());
+  }
 
-    return decrypted;
+  private decrypt(encryptedText: string): string {
+    return decryptCredentials(encryptedText, this.getKeyring());
   }
 
   // Public method to decrypt credentials for compatibility layer
@@ -257,7 +1324,152 @@ export class MongoDatabase implements IDatabaseAdapter {
       email: doc.email,
       name: doc.name,
       password: doc.password,
+      two_factor_enabled: doc.two_factor_enabled || false,
+      two_factor_secret: doc.two_factor_secret ? this.decrypt(doc.two_factor_secret) : null,
+      two_factor_pending_secret: doc.two_factor_pending_secret ? this.decrypt(doc.two_factor_pending_secret) : null,
+      two_factor_recovery_codes: doc.two_factor_recovery_codes || [],
+      two_factor_last_step: doc.two_factor_last_step ?? null,
+      created_at: doc.created_at.toISOString(),
+      updated_at: doc.updated_at.toISOString()
+    };
+  }
+
+  private authSessionDocToInterface(doc: AuthSessionDocument): AuthSession {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      refresh_token_hash: doc.refresh_token_hash,
+      previous_refresh_token_hash: doc.previous_refresh_token_hash ?? null,
+      rotated_at: doc.rotated_at ? doc.rotated_at.toISOString() : null,
+      device_name: doc.device_name,
+      user_agent: doc.user_agent ?? null,
+      ip_address: doc.ip_address ?? null,
+      step_up_at: doc.step_up_at ? doc.step_up_at.toISOString() : null,
+      last_used_at: doc.last_used_at.toISOString(),
+      expires_at: doc.expires_at.toISOString(),
+      revoked_at: doc.revoked_at ? doc.revoked_at.toISOString() : null,
+      revoke_reason: doc.revoke_reason ?? null,
+      created_at: doc.created_at.toISOString()
+    };
+  }
+
+  private workspaceDocToInterface(doc: WorkspaceDocument): Workspace {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      name: doc.name,
+      owner_id: doc.owner_id.toString(),
+      created_at: doc.created_at.toISOString(),
+      updated_at: doc.updated_at.toISOString()
+    };
+  }
+
+  private workspaceMemberDocToInterface(doc: WorkspaceMemberDocument): WorkspaceMember {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      workspace_id: doc.workspace_id.toString(),
+      user_id: doc.user_id.toString(),
+      role: doc.role,
+      added_by: doc.added_by.toString(),
+      created_at: doc.created_at.toISOString(),
+      updated_at: doc.updated_at.toISOString()
+    };
+  }
+
+  private accountGrantDocToInterface(doc: AccountGrantDocument): AccountGrant {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      workspace_id: doc.workspace_id.toString(),
+      account_id: doc.account_id.toString(),
+      owner_id: doc.owner_id.toString(),
+      permissions: doc.permissions || [],
+      revoked_at: doc.revoked_at ? doc.revoked_at.toISOString() : null,
+      revoked_by: doc.revoked_by ? doc.revoked_by.toString() : null,
+      created_at: doc.created_at.toISOString(),
+      updated_at: doc.updated_at.toISOString()
+    };
+  }
+
+  private apiKeyDocToInterface(doc: ApiKeyDocument): ApiKey {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      name: doc.name,
+      key_prefix: doc.key_prefix,
+      key_hash: doc.key_hash,
+      signing_secret: this.decrypt(doc.signing_secret),
+      scopes: doc.scopes || [],
+      ip_allowlist: doc.ip_allowlist || [],
+      require_signature: doc.require_signature ?? true,
+      account_groups: (doc.account_groups || []).map(group => ({ name: group.name, account_ids: group.account_ids || [] })),
+      last_used_at: doc.last_used_at ? doc.last_used_at.toISOString() : null,
+      last_used_ip: doc.last_used_ip ?? null,
+      revoked_at: doc.revoked_at ? doc.revoked_at.toISOString() : null,
+      created_at: doc.created_at.toISOString(),
+      updated_at: doc.updated_at.toISOString()
+    };
+  }
+
+  private signalDocToInterface(doc: SignalDocument): Signal {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      api_key_id: doc.api_key_id.toString(),
+      idempotency_key: doc.idempotency_key ?? null,
+      payload: doc.payload || {},
+      account_group: doc.account_group ?? null,
+      order: doc.order ?? null,
+      status: doc.status,
+      error: doc.error ?? null,
+      orders: (doc.orders || []).map(order => ({
+        account_id: order.account_id,
+        broker_name: order.broker_name,
+        order_history_id: order.order_history_id ?? null,
+        broker_order_id: order.broker_order_id ?? null,
+        quantity: order.quantity,
+        success: order.success,
+        error: order.error ?? null
+      })),
+      source_ip: doc.source_ip ?? null,
+      created_at: doc.created_at.toISOString(),
+      completed_at: doc.completed_at ? doc.completed_at.toISOString() : null
+    };
+  }
+
+  private webhookSubscriptionDocToInterface(doc: WebhookSubscriptionDocument): WebhookSubscription {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      name: doc.name,
+      url: doc.url,
+      events: doc.events || [],
+      secret: this.decrypt(doc.secret),
+      is_active: doc.is_active ?? true,
+      created_at: doc.created_at.toISOString(),
+      updated_at: doc.updated_at.toISOString()
+    };
+  }
+
+  private webhookDeliveryDocToInterface(doc: WebhookDeliveryDocument): WebhookDelivery {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      subscription_id: doc.subscription_id.toString(),
+      user_id: doc.user_id.toString(),
+      event: doc.event,
+      data: doc.data || {},
+      status: doc.status,
+      attempts: doc.attempts || 0,
+      next_attempt_at: doc.next_attempt_at ? doc.next_attempt_at.toISOString() : null,
+      last_status_code: doc.last_status_code ?? null,
+      last_error: doc.last_error ?? null,
       created_at: doc.created_at.toISOString(),
+      delivered_at: doc.delivered_at ? doc.delivered_at.toISOString() : null
+    };
+  }
+
+  private paperAccountStateDocToInterface(doc: PaperAccountStateDocument): PaperAccountState {
+    return {
+      account_id: doc.account_id,
+      snapshot: doc.snapshot || {},
       updated_at: doc.updated_at.toISOString()
     };
   }
@@ -274,6 +1486,7 @@ export class MongoDatabase implements IDatabaseAdapter {
       exchanges: doc.exchanges,
       products: doc.products,
       encrypted_credentials: doc.encrypted_credentials,
+      credentials_key_version: doc.credentials_key_version || 0,
       account_status: doc.account_status as AccountStatus,
       token_expiry_time: doc.token_expiry_time ? doc.token_expiry_time.toISOString() : null,
       created_at: doc.created_at.toISOString(),
@@ -303,6 +1516,7 @@ export class MongoDatabase implements IDatabaseAdapter {
       quantity: doc.quantity || 0,
       price: doc.price || 0,
       order_type: doc.order_type || '',
+      variety: doc.variety || undefined,
       status: doc.status || '',
       exchange: doc.exchange || '',
       product_type: doc.product_type || '',
@@ -323,20 +1537,367 @@ export class MongoDatabase implements IDatabaseAdapter {
       last_retry_at: doc.last_retry_at ? doc.last_retry_at.toISOString() : undefined,
       is_retryable: doc.is_retryable || undefined,
       failure_reason: doc.failure_reason || undefined,
+      // Copy trading linkage
+      source: doc.source || undefined,
+      parent_broker_order_id: doc.parent_broker_order_id || undefined,
+      master_account_id: doc.master_account_id ? doc.master_account_id.toString() : undefined,
+      // Strategy linkage
+      strategy_order_id: doc.strategy_order_id ? doc.strategy_order_id.toString() : undefined,
+      strategy_leg: doc.strategy_leg ?? undefined,
       // Add account information if populated
       ...(accountInfo && { account_info: accountInfo })
     };
   }
 
-  // User Management Methods
-  async createUser(userData: CreateUserData): Promise<User> {
-    try {
-      const userDoc = new this.UserModel(userData);
-      const savedUser = await userDoc.save();
-      
-      console.log('✅ User created successfully:', userData.email);
-      return this.userDocToInterface(savedUser);
-    } catch (error: any) {
+  private copyTradeLinkDocToInterface(doc: CopyTradeLinkDocument): CopyTradeLink {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      master_account_id: doc.master_account_id.toString(),
+      follower_account_id: doc.follower_account_id.toString(),
+      is_active: doc.is_active,
+      created_at: doc.created_at.toISOString(),
+      updated_at: doc.updated_at.toISOString()
+    };
+  }
+
+  private copiedOrderDocToInterface(doc: CopiedOrderDocument): CopiedOrder {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      link_id: doc.link_id.toString(),
+      master_account_id: doc.master_account_id.toString(),
+      master_broker_order_id: doc.master_broker_order_id,
+      follower_account_id: doc.follower_account_id.toString(),
+      follower_order_id: doc.follower_order_id ? doc.follower_order_id.toString() : undefined,
+      follower_broker_order_id: doc.follower_broker_order_id || undefined,
+      status: doc.status,
+      symbol: doc.symbol,
+      action: doc.action,
+      quantity: doc.quantity,
+      price: doc.price || 0,
+      trigger_price: doc.trigger_price || undefined,
+      order_type: doc.order_type,
+      error_message: doc.error_message || undefined,
+      created_at: doc.created_at.toISOString(),
+      updated_at: doc.updated_at.toISOString()
+    };
+  }
+
+  private sizingRuleDocToInterface(doc: AccountSizingRuleDocument): AccountSizingRule {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      account_id: doc.account_id.toString(),
+      method: doc.method,
+      value: doc.value,
+      capital: doc.capital ?? undefined,
+      min_quantity: doc.min_quantity ?? undefined,
+      max_quantity: doc.max_quantity ?? undefined,
+      round_to_lot: doc.round_to_lot,
+      created_at: doc.created_at.toISOString(),
+      updated_at: doc.updated_at.toISOString()
+    };
+  }
+
+  private riskLimitsDocToInterface(doc: RiskLimitsDocument): RiskLimits {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      account_id: doc.account_id ? doc.account_id.toString() : null,
+      is_enabled: doc.is_enabled,
+      max_order_value: doc.max_order_value ?? undefined,
+      max_quantity_per_symbol: doc.max_quantity_per_symbol ?? undefined,
+      max_open_positions: doc.max_open_positions ?? undefined,
+      daily_loss_limit: doc.daily_loss_limit ?? undefined,
+      max_orders_per_minute: doc.max_orders_per_minute ?? undefined,
+      allowed_exchanges: doc.allowed_exchanges || [],
+      allowed_products: doc.allowed_products || [],
+      restricted_symbols: doc.restricted_symbols || [],
+      created_at: doc.created_at.toISOString(),
+      updated_at: doc.updated_at.toISOString()
+    };
+  }
+
+  private killSwitchDocToInterface(doc: KillSwitchDocument): KillSwitch {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      account_id: doc.account_id ? doc.account_id.toString() : null,
+      is_active: doc.is_active,
+      reason: doc.reason || undefined,
+      activated_at: doc.activated_at ? doc.activated_at.toISOString() : undefined,
+      deactivated_at: doc.deactivated_at ? doc.deactivated_at.toISOString() : undefined,
+      created_at: doc.created_at.toISOString(),
+      updated_at: doc.updated_at.toISOString()
+    };
+  }
+
+  private squareOffSettingsDocToInterface(doc: SquareOffSettingsDocument): SquareOffSettings {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      account_id: doc.account_id ? doc.account_id.toString() : null,
+      enabled: doc.enabled,
+      square_off_time: doc.square_off_time,
+      cancel_pending_orders: doc.cancel_pending_orders,
+      created_at: doc.created_at.toISOString(),
+      updated_at: doc.updated_at.toISOString()
+    };
+  }
+
+  private squareOffRunDocToInterface(doc: SquareOffRunDocument): SquareOffRun {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      account_id: doc.account_id.toString(),
+      trading_date: doc.trading_date,
+      trigger: doc.trigger,
+      status: doc.status,
+      cancelled_orders: doc.cancelled_orders,
+      squared_off_positions: doc.squared_off_positions,
+      retried_orders: doc.retried_orders || 0,
+      failures: (doc.failures || []).map(failure => ({
+        account_id: failure.account_id,
+        operation: failure.operation,
+        reference: failure.reference || undefined,
+        message: failure.message
+      })),
+      created_at: doc.created_at.toISOString()
+    };
+  }
+
+  private killSwitchEventDocToInterface(doc: KillSwitchEventDocument): KillSwitchEvent {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      account_id: doc.account_id ? doc.account_id.toString() : null,
+      action: doc.action,
+      reason: doc.reason || undefined,
+      square_off: doc.square_off,
+      cancelled_orders: doc.cancelled_orders,
+      squared_off_positions: doc.squared_off_positions,
+      failures: (doc.failures || []).map(failure => ({
+        account_id: failure.account_id,
+        operation: failure.operation,
+        reference: failure.reference || undefined,
+        message: failure.message
+      })),
+      created_at: doc.created_at.toISOString()
+    };
+  }
+
+  private orderTemplateDocToInterface(doc: OrderTemplateDocument): OrderTemplate {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      name: doc.name,
+      description: doc.description || undefined,
+      symbol: doc.symbol,
+      action: doc.action,
+      quantity: doc.quantity,
+      order_type: doc.order_type,
+      price: doc.price ?? undefined,
+      trigger_price: doc.trigger_price ?? undefined,
+      stop_loss: doc.stop_loss ?? undefined,
+      take_profit: doc.take_profit ?? undefined,
+      exchange: doc.exchange,
+      product_type: doc.product_type,
+      validity: doc.validity,
+      iceberg_quantity: doc.iceberg_quantity ?? undefined,
+      trail_amount: doc.trail_amount ?? undefined,
+      trail_percent: doc.trail_percent ?? undefined,
+      is_active: doc.is_active,
+      created_at: doc.created_at.toISOString(),
+      updated_at: doc.updated_at.toISOString()
+    };
+  }
+
+  private advancedOrderDocToInterface(doc: AdvancedOrderDocument): AdvancedOrder {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      account_id: doc.account_id.toString(),
+      account_ids: doc.account_ids && doc.account_ids.length > 0 ? doc.account_ids.map(id => id.toString()) : undefined,
+      parent_order_id: doc.parent_order_id ? doc.parent_order_id.toString() : undefined,
+      order_group_id: doc.order_group_id || undefined,
+      leg: doc.leg || undefined,
+      symbol: doc.symbol,
+      action: doc.action,
+      quantity: doc.quantity,
+      order_type: doc.order_type,
+      price: doc.price ?? undefined,
+      trigger_price: doc.trigger_price ?? undefined,
+      stop_loss: doc.stop_loss ?? undefined,
+      take_profit: doc.take_profit ?? undefined,
+      status: doc.status,
+      exchange: doc.exchange,
+      product_type: doc.product_type,
+      validity: doc.validity,
+      expiry_date: doc.expiry_date ? doc.expiry_date.toISOString() : undefined,
+      iceberg_quantity: doc.iceberg_quantity ?? undefined,
+      iceberg_executed: doc.iceberg_executed || 0,
+      trail_amount: doc.trail_amount ?? undefined,
+      trail_percent: doc.trail_percent ?? undefined,
+      trail_trigger_price: doc.trail_trigger_price ?? undefined,
+      condition_type: doc.condition_type || undefined,
+      condition_value: doc.condition_value ?? undefined,
+      scheduled_at: doc.scheduled_at ? doc.scheduled_at.toISOString() : undefined,
+      is_bracket_order: doc.is_bracket_order,
+      bracket_stop_loss: doc.bracket_stop_loss ?? undefined,
+      bracket_take_profit: doc.bracket_take_profit ?? undefined,
+      broker_order_id: doc.broker_order_id || undefined,
+      order_history_id: doc.order_history_id ? doc.order_history_id.toString() : undefined,
+      error_message: doc.error_message || undefined,
+      remarks: doc.remarks || undefined,
+      created_at: doc.created_at.toISOString(),
+      updated_at: doc.updated_at.toISOString(),
+      executed_at: doc.executed_at ? doc.executed_at.toISOString() : undefined
+    };
+  }
+
+  private orderModificationDocToInterface(doc: OrderModificationDocument): OrderModification {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      order_id: doc.order_id.toString(),
+      broker_order_id: doc.broker_order_id || undefined,
+      modification_type: doc.modification_type,
+      old_value: doc.old_value ?? undefined,
+      new_value: doc.new_value ?? undefined,
+      status: doc.status,
+      error_message: doc.error_message || undefined,
+      created_at: doc.created_at.toISOString()
+    };
+  }
+
+  private strategyOrderDocToInterface(doc: StrategyOrderDocument): StrategyOrder {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      name: doc.name,
+      strategy_type: doc.strategy_type,
+      underlying: doc.underlying || undefined,
+      legs: (doc.legs || []).map(leg => ({
+        symbol: leg.symbol,
+        exchange: leg.exchange,
+        action: leg.action,
+        quantity: leg.quantity,
+        option_type: leg.option_type || undefined,
+        strike: leg.strike ?? undefined,
+        expiry: leg.expiry || undefined,
+        order_type: leg.order_type,
+        price: leg.price ?? undefined,
+        premium: leg.premium,
+        product_type: leg.product_type
+      })),
+      net_premium: doc.net_premium,
+      max_profit: doc.max_profit ?? null,
+      max_loss: doc.max_loss ?? null,
+      breakevens: doc.breakevens || [],
+      on_leg_failure: doc.on_leg_failure,
+      status: doc.status,
+      account_results: (doc.account_results || []).map(result => ({
+        account_id: result.account_id,
+        status: result.status,
+        placed_legs: (result.placed_legs || []).map(leg => ({ leg_index: leg.leg_index, broker_order_id: leg.broker_order_id })),
+        failed_leg: result.failed_leg ?? undefined,
+        error: result.error || undefined,
+        rollback_errors: result.rollback_errors?.length ? result.rollback_errors : undefined
+      })),
+      created_at: doc.created_at.toISOString(),
+      updated_at: doc.updated_at.toISOString()
+    };
+  }
+
+  private ledgerFillDocToInterface(doc: LedgerFillDocument): LedgerFill {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      account_id: doc.account_id.toString(),
+      order_history_id: doc.order_history_id.toString(),
+      broker_name: doc.broker_name,
+      symbol: doc.symbol,
+      exchange: doc.exchange,
+      action: doc.action,
+      quantity: doc.quantity,
+      price: doc.price,
+      cumulative_quantity: doc.cumulative_quantity,
+      executed_at: doc.executed_at.toISOString(),
+      created_at: doc.created_at.toISOString()
+    };
+  }
+
+  private candleDocToInterface(doc: CandleDocument): Candle {
+    return {
+      symbol: doc.symbol,
+      exchange: doc.exchange,
+      interval: doc.interval,
+      start: doc.start.toISOString(),
+      open: doc.open,
+      high: doc.high,
+      low: doc.low,
+      close: doc.close,
+      volume: doc.volume,
+      source: doc.source
+    };
+  }
+
+  private priceAlertDocToInterface(doc: PriceAlertDocument): PriceAlert {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      user_id: doc.user_id.toString(),
+      name: doc.name,
+      condition: doc.condition,
+      symbol: doc.symbol ?? null,
+      exchange: doc.exchange ?? null,
+      threshold: doc.threshold,
+      trigger: doc.trigger,
+      cooldown_minutes: doc.cooldown_minutes,
+      channels: doc.channels || [],
+      webhook_url: doc.webhook_url ?? null,
+      status: doc.status,
+      armed: doc.armed,
+      peak_value: doc.peak_value ?? null,
+      last_value: doc.last_value ?? null,
+      last_triggered_at: doc.last_triggered_at ? doc.last_triggered_at.toISOString() : null,
+      trigger_count: doc.trigger_count,
+      created_at: doc.created_at.toISOString(),
+      updated_at: doc.updated_at.toISOString()
+    };
+  }
+
+  private auditEventDocToInterface(doc: AuditEventDocument): AuditEvent {
+    return {
+      id: (doc._id as mongoose.Types.ObjectId).toString(),
+      sequence: doc.sequence,
+      user_id: doc.user_id ?? null,
+      action: doc.action,
+      category: doc.category,
+      account_id: doc.account_id ?? null,
+      broker_name: doc.broker_name ?? null,
+      resource_id: doc.resource_id ?? null,
+      details: doc.details || {},
+      success: doc.success,
+      error_message: doc.error_message ?? null,
+      request_id: doc.request_id ?? null,
+      ip_address: doc.ip_address ?? null,
+      user_agent: doc.user_agent ?? null,
+      previous_hash: doc.previous_hash,
+      hash: doc.hash,
+      created_at: doc.created_at.toISOString()
+    };
+  }
+
+  // User Management Methods
+  async createUser(userData: CreateUserData): Promise<User> {
+    try {
+      const userDoc = new this.UserModel(userData);
+      const savedUser = await userDoc.save();
+      
+      console.log('✅ User created successfully:', userData.email);
+      return this.userDocToInterface(savedUser);
+    } catch (error: any) {
       if (error.code === 11000) {
         throw new Error('User already exists with this email');
       }
@@ -377,9 +1938,17 @@ export class MongoDatabase implements IDatabaseAdapter {
 
   async updateUser(id: string, userData: UpdateUserData): Promise<User | null> {
     try {
+      // TOTP secrets are encrypted like broker credentials
+      const encryptSecret = (secret: string | null | undefined) =>
+        secret ? this.encrypt(secret).encrypted : secret;
       const updatedUser = await this.UserModel.findByIdAndUpdate(
         id,
-        { ...userData, updated_at: new Date() },
+        {
+          ...userData,
+          ...(userData.two_factor_secret !== undefined && { two_factor_secret: encryptSecret(userData.two_factor_secret) }),
+          ...(userData.two_factor_pending_secret !== undefined && { two_factor_pending_secret: encryptSecret(userData.two_factor_pending_secret) }),
+          updated_at: new Date()
+        },
         { new: true }
       );
       return updatedUser ? this.userDocToInterface(updatedUser) : null;
@@ -389,6 +1958,20 @@ export class MongoDatabase implements IDatabaseAdapter {
     }
   }
 
+  async claimTwoFactorStep(id: string, step: number): Promise<boolean> {
+    try {
+      // Conditional on the stored step so two requests can't both use the same code
+      const result = await this.UserModel.updateOne(
+        { _id: id, $or: [{ two_factor_last_step: null }, { two_factor_last_step: { $lt: step } }] },
+        { two_factor_last_step: step }
+      );
+      return result.modifiedCount === 1;
+    } catch (error) {
+      console.error('🚨 Failed to record two-factor step:', error);
+      return false;
+    }
+  }
+
   async deleteUser(id: string): Promise<boolean> {
     try {
       const result = await this.UserModel.findByIdAndDelete(id);
@@ -427,7 +2010,7 @@ export class MongoDatabase implements IDatabaseAdapter {
   // Connected Accounts Management
   async createConnectedAccount(accountData: CreateConnectedAccountData): Promise<ConnectedAccount> {
     try {
-      const encryptedCredentials = this.encrypt(JSON.stringify(accountData.credentials));
+      const { encrypted, keyVersion } = this.encrypt(JSON.stringify(accountData.credentials));
 
       const accountDoc = new this.ConnectedAccountModel({
         user_id: new mongoose.Types.ObjectId(accountData.user_id.toString()),
@@ -438,7 +2021,8 @@ export class MongoDatabase implements IDatabaseAdapter {
         broker_display_name: accountData.broker_display_name,
         exchanges: JSON.stringify(accountData.exchanges),
         products: JSON.stringify(accountData.products),
-        encrypted_credentials: encryptedCredentials,
+        encrypted_credentials: encrypted,
+        credentials_key_version: keyVersion,
         account_status: accountData.account_status,
         token_expiry_time: accountData.token_expiry_time ? new Date(accountData.token_expiry_time) : null
       });
@@ -483,7 +2067,9 @@ export class MongoDatabase implements IDatabaseAdapter {
       const updateData: any = { ...accountData, updated_at: new Date() };
 
       if (accountData.credentials) {
-        updateData.encrypted_credentials = this.encrypt(JSON.stringify(accountData.credentials));
+        const { encrypted, keyVersion } = this.encrypt(JSON.stringify(accountData.credentials));
+        updateData.encrypted_credentials = encrypted;
+        updateData.credentials_key_version = keyVersion;
         delete updateData.credentials;
       }
 
@@ -534,6 +2120,207 @@ export class MongoDatabase implements IDatabaseAdapter {
     }
   }
 
+  // Credential key rotation
+  async getCredentialKeyStatus(): Promise<CredentialKeyStatus> {
+    try {
+      const [counts, users, apiKeys, webhooks] = await Promise.all([
+        this.ConnectedAccountModel.aggregate<{ _id: number | null; count: number }>([
+          { $group: { _id: '$credentials_key_version', count: { $sum: 1 } } }
+        ]),
+        this.UserModel
+          .find({ $or: [{ two_factor_secret: { $ne: null } }, { two_factor_pending_secret: { $ne: null } }] })
+          .select('two_factor_secret two_factor_pending_secret')
+          .lean(),
+        this.ApiKeyModel.find().select('signing_secret').lean(),
+        this.WebhookSubscriptionModel.find().select('secret').lean()
+      ]);
+
+      // A user counts under the oldest key still wrapping one of their secrets
+      const usersByVersion: Record<string, number> = {};
+      for (const user of users) {
+        const versions = [user.two_factor_secret, user.two_factor_pending_secret]
+          .filter((secret): secret is string => !!secret)
+          .map(getCredentialKeyVersion);
+        const version = String(Math.min(...versions));
+        usersByVersion[version] = (usersByVersion[version] || 0) + 1;
+      }
+
+      return {
+        activeVersion: this.getKeyring().activeVersion,
+        accountsByVersion: Object.fromEntries(counts.map(entry => [String(entry._id || 0), entry.count])),
+        usersByVersion,
+        apiKeysByVersion: this.countByKeyVersion(apiKeys.map(apiKey => apiKey.signing_secret)),
+        webhooksByVersion: this.countByKeyVersion(webhooks.map(webhook => webhook.secret))
+      };
+    } catch (error) {
+      console.error('🚨 Failed to get credential key status:', error);
+      throw error;
+    }
+  }
+
+  private countByKeyVersion(secrets: string[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const secret of secrets) {
+      const version = String(getCredentialKeyVersion(secret));
+      counts[version] = (counts[version] || 0) + 1;
+    }
+    return counts;
+  }
+
+  async getAccountsForCredentialRotation(afterId: string | null, limit: number): Promise<ConnectedAccount[]> {
+    try {
+      const accounts = await this.ConnectedAccountModel
+        .find({
+          credentials_key_version: { $ne: this.getKeyring().activeVersion },
+          ...(afterId && { _id: { $gt: new mongoose.Types.ObjectId(afterId) } })
+        })
+        .sort({ _id: 1 })
+        .limit(limit);
+      return accounts.map(account => this.connectedAccountDocToInterface(account));
+    } catch (error) {
+      console.error('🚨 Failed to get accounts for credential rotation:', error);
+      return [];
+    }
+  }
+
+  async reencryptAccountCredentials(id: string): Promise<boolean> {
+    try {
+      const account = await this.ConnectedAccountModel.findById(id);
+      if (!account) {
+        return false;
+      }
+
+      const { encrypted, keyVersion } = this.encrypt(this.decrypt(account.encrypted_credentials));
+      // Only replace the ciphertext that was read, so credentials saved meanwhile are kept
+      const result = await this.ConnectedAccountModel.updateOne(
+        { _id: account._id, encrypted_credentials: account.encrypted_credentials },
+        { $set: { encrypted_credentials: encrypted, credentials_key_version: keyVersion } }
+      );
+      return result.modifiedCount === 1;
+    } catch (error) {
+      console.error('🚨 Failed to re-encrypt account credentials:', error);
+      throw error;
+    }
+  }
+
+  async getUsersForSecretRotation(afterId: string | null, limit: number): Promise<string[]> {
+    try {
+      const current = getCredentialKeyVersionPattern(this.getKeyring().activeVersion);
+      const users = await this.UserModel
+        .find({
+          $or: [
+            { two_factor_secret: { $ne: null, $not: current } },
+            { two_factor_pending_secret: { $ne: null, $not: current } }
+          ],
+          ...(afterId && { _id: { $gt: new mongoose.Types.ObjectId(afterId) } })
+        })
+        .select('_id')
+        .sort({ _id: 1 })
+        .limit(limit);
+      return users.map(user => (user._id as mongoose.Types.ObjectId).toString());
+    } catch (error) {
+      console.error('🚨 Failed to get users for secret rotation:', error);
+      return [];
+    }
+  }
+
+  async reencryptUserSecrets(id: string): Promise<boolean> {
+    try {
+      const user = await this.UserModel.findById(id);
+      if (!user) {
+        return false;
+      }
+
+      const reencrypt = (secret: string | null) => (secret ? this.encrypt(this.decrypt(secret)).encrypted : secret);
+      // Only replace the ciphertexts that were read, so a 2FA change made meanwhile is kept
+      const result = await this.UserModel.updateOne(
+        { _id: user._id, two_factor_secret: user.two_factor_secret, two_factor_pending_secret: user.two_factor_pending_secret },
+        {
+          $set: {
+            two_factor_secret: reencrypt(user.two_factor_secret),
+            two_factor_pending_secret: reencrypt(user.two_factor_pending_secret)
+          }
+        }
+      );
+      return result.modifiedCount === 1;
+    } catch (error) {
+      console.error('🚨 Failed to re-encrypt user secrets:', error);
+      throw error;
+    }
+  }
+
+  async getApiKeysForSecretRotation(afterId: string | null, limit: number): Promise<string[]> {
+    try {
+      const apiKeys = await this.ApiKeyModel
+        .find({
+          signing_secret: { $not: getCredentialKeyVersionPattern(this.getKeyring().activeVersion) },
+          ...(afterId && { _id: { $gt: new mongoose.Types.ObjectId(afterId) } })
+        })
+        .select('_id')
+        .sort({ _id: 1 })
+        .limit(limit);
+      return apiKeys.map(apiKey => (apiKey._id as mongoose.Types.ObjectId).toString());
+    } catch (error) {
+      console.error('🚨 Failed to get API keys for secret rotation:', error);
+      return [];
+    }
+  }
+
+  async reencryptApiKeySecret(id: string): Promise<boolean> {
+    try {
+      const apiKey = await this.ApiKeyModel.findById(id);
+      if (!apiKey) {
+        return false;
+      }
+
+      // Only replace the ciphertext that was read
+      const result = await this.ApiKeyModel.updateOne(
+        { _id: apiKey._id, signing_secret: apiKey.signing_secret },
+        { $set: { signing_secret: this.encrypt(this.decrypt(apiKey.signing_secret)).encrypted } }
+      );
+      return result.modifiedCount === 1;
+    } catch (error) {
+      console.error('🚨 Failed to re-encrypt API key signing secret:', error);
+      throw error;
+    }
+  }
+
+  async getWebhooksForSecretRotation(afterId: string | null, limit: number): Promise<string[]> {
+    try {
+      const subscriptions = await this.WebhookSubscriptionModel
+        .find({
+          secret: { $not: getCredentialKeyVersionPattern(this.getKeyring().activeVersion) },
+          ...(afterId && { _id: { $gt: new mongoose.Types.ObjectId(afterId) } })
+        })
+        .select('_id')
+        .sort({ _id: 1 })
+        .limit(limit);
+      return subscriptions.map(subscription => (subscription._id as mongoose.Types.ObjectId).toString());
+    } catch (error) {
+      console.error('🚨 Failed to get webhooks for secret rotation:', error);
+      return [];
+    }
+  }
+
+  async reencryptWebhookSecret(id: string): Promise<boolean> {
+    try {
+      const subscription = await this.WebhookSubscriptionModel.findById(id);
+      if (!subscription) {
+        return false;
+      }
+
+      // Only replace the ciphertext that was read
+      const result = await this.WebhookSubscriptionModel.updateOne(
+        { _id: subscription._id, secret: subscription.secret },
+        { $set: { secret: this.encrypt(this.decrypt(subscription.secret)).encrypted } }
+      );
+      return result.modifiedCount === 1;
+    } catch (error) {
+      console.error('🚨 Failed to re-encrypt webhook secret:', error);
+      throw error;
+    }
+  }
+
   // Order History Management
   async createOrderHistory(orderData: CreateOrderHistoryData): Promise<OrderHistory> {
     try {
@@ -547,6 +2334,7 @@ export class MongoDatabase implements IDatabaseAdapter {
         quantity: orderData.quantity,
         price: orderData.price,
         order_type: orderData.order_type,
+        variety: orderData.variety || 'REGULAR',
         status: orderData.status || 'PLACED',
         exchange: orderData.exchange || 'NSE',
         product_type: orderData.product_type || 'C',
@@ -560,7 +2348,12 @@ export class MongoDatabase implements IDatabaseAdapter {
         max_retries: orderData.max_retries || 3,
         last_retry_at: orderData.last_retry_at ? new Date(orderData.last_retry_at) : undefined,
         is_retryable: orderData.is_retryable || false,
-        failure_reason: orderData.failure_reason
+        failure_reason: orderData.failure_reason,
+        source: orderData.source || 'MANUAL',
+        parent_broker_order_id: orderData.parent_broker_order_id,
+        master_account_id: orderData.master_account_id ? new mongoose.Types.ObjectId(orderData.master_account_id) : undefined,
+        strategy_order_id: orderData.strategy_order_id ? new mongoose.Types.ObjectId(orderData.strategy_order_id) : undefined,
+        strategy_leg: orderData.strategy_leg
       });
 
       const savedOrder = await orderDoc.save();
@@ -633,6 +2426,10 @@ export class MongoDatabase implements IDatabaseAdapter {
         query.broker_name = filters.brokerName;
       }
 
+      if (filters.accountId) {
+        query.account_id = new mongoose.Types.ObjectId(filters.accountId);
+      }
+
       if (filters.action) {
         query.action = filters.action;
       }
@@ -701,7 +2498,7 @@ export class MongoDatabase implements IDatabaseAdapter {
     status: string;
     error_message?: string;
     error_code?: string;
-    error_type?: 'NETWORK' | 'BROKER' | 'VALIDATION' | 'AUTH' | 'SYSTEM' | 'MARKET';
+    error_type?: OrderErrorType;
     failure_reason?: string;
     is_retryable?: boolean;
   }): Promise<boolean> {
@@ -737,7 +2534,7 @@ export class MongoDatabase implements IDatabaseAdapter {
     rejection_reason?: string;
     error_message?: string;
     error_code?: string;
-    error_type?: 'NETWORK' | 'BROKER' | 'VALIDATION' | 'AUTH' | 'SYSTEM' | 'MARKET';
+    error_type?: OrderErrorType;
     failure_reason?: string;
     is_retryable?: boolean;
     last_updated?: Date;
@@ -839,6 +2636,10 @@ export class MongoDatabase implements IDatabaseAdapter {
         query.broker_name = filters.brokerName;
       }
 
+      if (filters.accountId) {
+        query.account_id = new mongoose.Types.ObjectId(filters.accountId);
+      }
+
       if (filters.action) {
         query.action = filters.action;
       }
@@ -868,6 +2669,1597 @@ export class MongoDatabase implements IDatabaseAdapter {
     }
   }
 
+  async getOpenOrders(): Promise<OrderHistory[]> {
+    try {
+      const orders = await this.OrderHistoryModel
+        .find({
+          status: { $in: ['PLACED', 'AMO_PLACED', 'PENDING', 'PARTIALLY_FILLED'] },
+          broker_order_id: { $nin: [null, ''] }
+        })
+        .sort({ created_at: 1 });
+
+      return orders.map(order => this.orderHistoryDocToInterface(order));
+    } catch (error) {
+      console.error('🚨 Failed to get open orders:', error);
+      return [];
+    }
+  }
+
+  // Copy Trading Management
+  async createCopyTradeLink(linkData: CreateCopyTradeLinkData): Promise<CopyTradeLink> {
+    try {
+      const linkDoc = new this.CopyTradeLinkModel({
+        user_id: new mongoose.Types.ObjectId(linkData.user_id),
+        master_account_id: new mongoose.Types.ObjectId(linkData.master_account_id),
+        follower_account_id: new mongoose.Types.ObjectId(linkData.follower_account_id),
+        is_active: linkData.is_active ?? true
+      });
+
+      const savedLink = await linkDoc.save();
+      console.log('✅ Copy trade link created successfully:', savedLink._id);
+      return this.copyTradeLinkDocToInterface(savedLink);
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw Object.assign(new Error('Follower account is already linked to this master account'), { code: 'DUPLICATE_LINK' });
+      }
+      console.error('🚨 Failed to create copy trade link:', error);
+      throw error;
+    }
+  }
+
+  async getCopyTradeLinkById(id: string): Promise<CopyTradeLink | null> {
+    try {
+      const link = await this.CopyTradeLinkModel.findById(id);
+      return link ? this.copyTradeLinkDocToInterface(link) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get copy trade link by ID:', error);
+      return null;
+    }
+  }
+
+  async getCopyTradeLinksByUserId(userId: string): Promise<CopyTradeLink[]> {
+    try {
+      const links = await this.CopyTradeLinkModel.find({ user_id: userId }).sort({ created_at: -1 });
+      return links.map(link => this.copyTradeLinkDocToInterface(link));
+    } catch (error) {
+      console.error('🚨 Failed to get copy trade links:', error);
+      return [];
+    }
+  }
+
+  async getCopyTradeLinksByAccountIds(accountIds: string[]): Promise<CopyTradeLink[]> {
+    try {
+      const links = await this.CopyTradeLinkModel.find({
+        $or: [{ master_account_id: { $in: accountIds } }, { follower_account_id: { $in: accountIds } }]
+      });
+      return links.map(link => this.copyTradeLinkDocToInterface(link));
+    } catch (error) {
+      console.error('🚨 Failed to get copy trade links by account:', error);
+      throw error;
+    }
+  }
+
+  async getActiveCopyTradeLinks(): Promise<CopyTradeLink[]> {
+    try {
+      const links = await this.CopyTradeLinkModel.find({ is_active: true });
+      return links.map(link => this.copyTradeLinkDocToInterface(link));
+    } catch (error) {
+      console.error('🚨 Failed to get active copy trade links:', error);
+      return [];
+    }
+  }
+
+  async updateCopyTradeLink(id: string, linkData: Partial<CreateCopyTradeLinkData>): Promise<CopyTradeLink | null> {
+    try {
+      const updatedLink = await this.CopyTradeLinkModel.findByIdAndUpdate(
+        id,
+        { ...linkData, updated_at: new Date() },
+        { new: true }
+      );
+      return updatedLink ? this.copyTradeLinkDocToInterface(updatedLink) : null;
+    } catch (error) {
+      console.error('🚨 Failed to update copy trade link:', error);
+      return null;
+    }
+  }
+
+  async deleteCopyTradeLink(id: string): Promise<boolean> {
+    try {
+      const result = await this.CopyTradeLinkModel.findByIdAndDelete(id);
+      return !!result;
+    } catch (error) {
+      console.error('🚨 Failed to delete copy trade link:', error);
+      return false;
+    }
+  }
+
+  async createCopiedOrder(orderData: CreateCopiedOrderData): Promise<CopiedOrder> {
+    try {
+      const copiedOrderDoc = new this.CopiedOrderModel({
+        ...orderData,
+        user_id: new mongoose.Types.ObjectId(orderData.user_id),
+        link_id: new mongoose.Types.ObjectId(orderData.link_id),
+        master_account_id: new mongoose.Types.ObjectId(orderData.master_account_id),
+        follower_account_id: new mongoose.Types.ObjectId(orderData.follower_account_id),
+        follower_order_id: orderData.follower_order_id ? new mongoose.Types.ObjectId(orderData.follower_order_id) : undefined
+      });
+
+      const savedOrder = await copiedOrderDoc.save();
+      return this.copiedOrderDocToInterface(savedOrder);
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new Error(`Master order ${orderData.master_broker_order_id} already copied to follower ${orderData.follower_account_id}`);
+      }
+      console.error('🚨 Failed to create copied order:', error);
+      throw error;
+    }
+  }
+
+  async getCopiedOrder(masterAccountId: string, masterBrokerOrderId: string, followerAccountId: string): Promise<CopiedOrder | null> {
+    try {
+      const copiedOrder = await this.CopiedOrderModel.findOne({
+        master_account_id: masterAccountId,
+        master_broker_order_id: masterBrokerOrderId,
+        follower_account_id: followerAccountId
+      });
+      return copiedOrder ? this.copiedOrderDocToInterface(copiedOrder) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get copied order:', error);
+      return null;
+    }
+  }
+
+  async getCopiedOrdersByMasterOrder(masterAccountId: string, masterBrokerOrderId: string): Promise<CopiedOrder[]> {
+    try {
+      const copiedOrders = await this.CopiedOrderModel.find({
+        master_account_id: masterAccountId,
+        master_broker_order_id: masterBrokerOrderId
+      });
+      return copiedOrders.map(order => this.copiedOrderDocToInterface(order));
+    } catch (error) {
+      console.error('🚨 Failed to get copied orders for master order:', error);
+      return [];
+    }
+  }
+
+  async getCopiedOrdersByUserId(userId: string, limit: number = 50, offset: number = 0): Promise<CopiedOrder[]> {
+    try {
+      const copiedOrders = await this.CopiedOrderModel.find({ user_id: userId })
+        .sort({ created_at: -1 })
+        .skip(offset)
+        .limit(limit);
+      return copiedOrders.map(order => this.copiedOrderDocToInterface(order));
+    } catch (error) {
+      console.error('🚨 Failed to get copied orders:', error);
+      return [];
+    }
+  }
+
+  async updateCopiedOrder(id: string, updateData: UpdateCopiedOrderData): Promise<CopiedOrder | null> {
+    try {
+      const updatedOrder = await this.CopiedOrderModel.findByIdAndUpdate(
+        id,
+        { ...updateData, updated_at: new Date() },
+        { new: true }
+      );
+      return updatedOrder ? this.copiedOrderDocToInterface(updatedOrder) : null;
+    } catch (error) {
+      console.error('🚨 Failed to update copied order:', error);
+      return null;
+    }
+  }
+
+  // Position Sizing Rules
+  async getSizingRuleByAccountId(accountId: string): Promise<AccountSizingRule | null> {
+    try {
+      const rule = await this.AccountSizingRuleModel.findOne({ account_id: accountId });
+      return rule ? this.sizingRuleDocToInterface(rule) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get sizing rule:', error);
+      return null;
+    }
+  }
+
+  async getSizingRulesByUserId(userId: string): Promise<AccountSizingRule[]> {
+    try {
+      const rules = await this.AccountSizingRuleModel.find({ user_id: userId });
+      return rules.map(rule => this.sizingRuleDocToInterface(rule));
+    } catch (error) {
+      console.error('🚨 Failed to get sizing rules:', error);
+      return [];
+    }
+  }
+
+  async upsertSizingRule(ruleData: UpsertAccountSizingRuleData): Promise<AccountSizingRule> {
+    try {
+      // Unset optional caps that are not provided so an update can clear them
+      const unset: { [key: string]: '' } = {};
+      for (const field of ['capital', 'min_quantity', 'max_quantity'] as const) {
+        if (ruleData[field] === undefined) {
+          unset[field] = '';
+        }
+      }
+
+      const rule = await this.AccountSizingRuleModel.findOneAndUpdate(
+        { account_id: new mongoose.Types.ObjectId(ruleData.account_id) },
+        {
+          $set: {
+            ...ruleData,
+            user_id: new mongoose.Types.ObjectId(ruleData.user_id),
+            account_id: new mongoose.Types.ObjectId(ruleData.account_id),
+            round_to_lot: ruleData.round_to_lot ?? true,
+            updated_at: new Date()
+          },
+          ...(Object.keys(unset).length > 0 && { $unset: unset }),
+          $setOnInsert: { created_at: new Date() }
+        },
+        { new: true, upsert: true }
+      );
+
+      return this.sizingRuleDocToInterface(rule);
+    } catch (error) {
+      console.error('🚨 Failed to save sizing rule:', error);
+      throw error;
+    }
+  }
+
+  async deleteSizingRule(accountId: string): Promise<boolean> {
+    try {
+      const result = await this.AccountSizingRuleModel.findOneAndDelete({ account_id: accountId });
+      return !!result;
+    } catch (error) {
+      console.error('🚨 Failed to delete sizing rule:', error);
+      return false;
+    }
+  }
+
+  // Risk Limits
+  private riskLimitsFilter(userId: string, accountId: string | null) {
+    return {
+      user_id: new mongoose.Types.ObjectId(userId),
+      account_id: accountId ? new mongoose.Types.ObjectId(accountId) : null
+    };
+  }
+
+  async getRiskLimits(userId: string, accountId: string | null): Promise<RiskLimits | null> {
+    try {
+      const limits = await this.RiskLimitsModel.findOne(this.riskLimitsFilter(userId, accountId));
+      return limits ? this.riskLimitsDocToInterface(limits) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get risk limits:', error);
+      return null;
+    }
+  }
+
+  async getRiskLimitsByUserId(userId: string): Promise<RiskLimits[]> {
+    try {
+      const limits = await this.RiskLimitsModel.find({ user_id: userId });
+      return limits.map(doc => this.riskLimitsDocToInterface(doc));
+    } catch (error) {
+      console.error('🚨 Failed to get risk limits:', error);
+      return [];
+    }
+  }
+
+  async upsertRiskLimits(limitsData: UpsertRiskLimitsData): Promise<RiskLimits> {
+    try {
+      // Unset numeric limits that are not provided so an update can clear them
+      const unset: { [key: string]: '' } = {};
+      for (const field of ['max_order_value', 'max_quantity_per_symbol', 'max_open_positions', 'daily_loss_limit', 'max_orders_per_minute'] as const) {
+        if (limitsData[field] === undefined) {
+          unset[field] = '';
+        }
+      }
+
+      const filter = this.riskLimitsFilter(limitsData.user_id, limitsData.account_id);
+      const limits = await this.RiskLimitsModel.findOneAndUpdate(
+        filter,
+        {
+          $set: {
+            ...limitsData,
+            ...filter,
+            is_enabled: limitsData.is_enabled ?? true,
+            allowed_exchanges: limitsData.allowed_exchanges || [],
+            allowed_products: limitsData.allowed_products || [],
+            restricted_symbols: limitsData.restricted_symbols || [],
+            updated_at: new Date()
+          },
+          ...(Object.keys(unset).length > 0 && { $unset: unset }),
+          $setOnInsert: { created_at: new Date() }
+        },
+        { new: true, upsert: true }
+      );
+
+      return this.riskLimitsDocToInterface(limits);
+    } catch (error) {
+      console.error('🚨 Failed to save risk limits:', error);
+      throw error;
+    }
+  }
+
+  async deleteRiskLimits(userId: string, accountId: string | null): Promise<boolean> {
+    try {
+      const result = await this.RiskLimitsModel.findOneAndDelete(this.riskLimitsFilter(userId, accountId));
+      return !!result;
+    } catch (error) {
+      console.error('🚨 Failed to delete risk limits:', error);
+      return false;
+    }
+  }
+
+  // Kill Switch
+  async getKillSwitchesByUserId(userId: string): Promise<KillSwitch[]> {
+    try {
+      const switches = await this.KillSwitchModel.find({ user_id: userId });
+      return switches.map(doc => this.killSwitchDocToInterface(doc));
+    } catch (error) {
+      console.error('🚨 Failed to get kill switches:', error);
+      return [];
+    }
+  }
+
+  async upsertKillSwitch(switchData: UpsertKillSwitchData): Promise<KillSwitch> {
+    try {
+      const filter = {
+        user_id: new mongoose.Types.ObjectId(switchData.user_id),
+        account_id: switchData.account_id ? new mongoose.Types.ObjectId(switchData.account_id) : null
+      };
+      const now = new Date();
+      const killSwitch = await this.KillSwitchModel.findOneAndUpdate(
+        filter,
+        {
+          $set: {
+            ...filter,
+            is_active: switchData.is_active,
+            ...(switchData.is_active ? { activated_at: now } : { deactivated_at: now }),
+            ...(switchData.reason !== undefined && { reason: switchData.reason }),
+            updated_at: now
+          },
+          $setOnInsert: { created_at: now }
+        },
+        { new: true, upsert: true }
+      );
+
+      return this.killSwitchDocToInterface(killSwitch);
+    } catch (error) {
+      console.error('🚨 Failed to save kill switch:', error);
+      throw error;
+    }
+  }
+
+  async createKillSwitchEvent(eventData: CreateKillSwitchEventData): Promise<KillSwitchEvent> {
+    try {
+      const eventDoc = new this.KillSwitchEventModel({
+        ...eventData,
+        user_id: new mongoose.Types.ObjectId(eventData.user_id),
+        account_id: eventData.account_id ? new mongoose.Types.ObjectId(eventData.account_id) : null
+      });
+
+      const savedEvent = await eventDoc.save();
+      return this.killSwitchEventDocToInterface(savedEvent);
+    } catch (error) {
+      console.error('🚨 Failed to create kill switch event:', error);
+      throw error;
+    }
+  }
+
+  async getKillSwitchEventsByUserId(userId: string, limit: number = 50): Promise<KillSwitchEvent[]> {
+    try {
+      const events = await this.KillSwitchEventModel.find({ user_id: userId })
+        .sort({ created_at: -1 })
+        .limit(limit);
+      return events.map(doc => this.killSwitchEventDocToInterface(doc));
+    } catch (error) {
+      console.error('🚨 Failed to get kill switch events:', error);
+      return [];
+    }
+  }
+
+  // Intraday Square-off
+  async getSquareOffSettingsByUserId(userId: string): Promise<SquareOffSettings[]> {
+    try {
+      const settings = await this.SquareOffSettingsModel.find({ user_id: userId });
+      return settings.map(doc => this.squareOffSettingsDocToInterface(doc));
+    } catch (error) {
+      console.error('🚨 Failed to get square-off settings:', error);
+      return [];
+    }
+  }
+
+  async getEnabledSquareOffSettings(): Promise<SquareOffSettings[]> {
+    try {
+      const settings = await this.SquareOffSettingsModel.find({ enabled: true });
+      return settings.map(doc => this.squareOffSettingsDocToInterface(doc));
+    } catch (error) {
+      console.error('🚨 Failed to get enabled square-off settings:', error);
+      return [];
+    }
+  }
+
+  async upsertSquareOffSettings(settingsData: UpsertSquareOffSettingsData): Promise<SquareOffSettings> {
+    try {
+      const filter = {
+        user_id: new mongoose.Types.ObjectId(settingsData.user_id),
+        account_id: settingsData.account_id ? new mongoose.Types.ObjectId(settingsData.account_id) : null
+      };
+      const now = new Date();
+      const settings = await this.SquareOffSettingsModel.findOneAndUpdate(
+        filter,
+        {
+          $set: {
+            ...filter,
+            enabled: settingsData.enabled,
+            square_off_time: settingsData.square_off_time,
+            cancel_pending_orders: settingsData.cancel_pending_orders,
+            updated_at: now
+          },
+          $setOnInsert: { created_at: now }
+        },
+        { new: true, upsert: true }
+      );
+
+      return this.squareOffSettingsDocToInterface(settings);
+    } catch (error) {
+      console.error('🚨 Failed to save square-off settings:', error);
+      throw error;
+    }
+  }
+
+  async deleteSquareOffSettings(userId: string, accountId: string | null): Promise<boolean> {
+    try {
+      const result = await this.SquareOffSettingsModel.findOneAndDelete({
+        user_id: new mongoose.Types.ObjectId(userId),
+        account_id: accountId ? new mongoose.Types.ObjectId(accountId) : null
+      });
+      return !!result;
+    } catch (error) {
+      console.error('🚨 Failed to delete square-off settings:', error);
+      return false;
+    }
+  }
+
+  async createSquareOffRun(runData: CreateSquareOffRunData): Promise<SquareOffRun> {
+    try {
+      const runDoc = new this.SquareOffRunModel({
+        ...runData,
+        user_id: new mongoose.Types.ObjectId(runData.user_id),
+        account_id: new mongoose.Types.ObjectId(runData.account_id)
+      });
+
+      const savedRun = await runDoc.save();
+      return this.squareOffRunDocToInterface(savedRun);
+    } catch (error) {
+      console.error('🚨 Failed to create square-off run:', error);
+      throw error;
+    }
+  }
+
+  async getSquareOffRunsByUserId(userId: string, limit: number = 50): Promise<SquareOffRun[]> {
+    try {
+      const runs = await this.SquareOffRunModel.find({ user_id: userId })
+        .sort({ created_at: -1 })
+        .limit(limit);
+      return runs.map(doc => this.squareOffRunDocToInterface(doc));
+    } catch (error) {
+      console.error('🚨 Failed to get square-off runs:', error);
+      return [];
+    }
+  }
+
+  async hasScheduledSquareOffRun(accountId: string, tradingDate: string): Promise<boolean> {
+    try {
+      const run = await this.SquareOffRunModel.exists({
+        account_id: new mongoose.Types.ObjectId(accountId),
+        trading_date: tradingDate,
+        trigger: 'SCHEDULED'
+      });
+      return !!run;
+    } catch (error) {
+      console.error('🚨 Failed to check square-off run:', error);
+      return false;
+    }
+  }
+
+  // Advanced Orders
+  async createOrderTemplate(templateData: CreateOrderTemplateData): Promise<OrderTemplate> {
+    try {
+      const templateDoc = new this.OrderTemplateModel({
+        ...templateData,
+        user_id: new mongoose.Types.ObjectId(templateData.user_id)
+      });
+
+      const savedTemplate = await templateDoc.save();
+      console.log('✅ Order template created successfully:', savedTemplate._id);
+      return this.orderTemplateDocToInterface(savedTemplate);
+    } catch (error) {
+      console.error('🚨 Failed to create order template:', error);
+      throw error;
+    }
+  }
+
+  async getOrderTemplateById(id: string): Promise<OrderTemplate | null> {
+    try {
+      const template = await this.OrderTemplateModel.findById(id);
+      return template ? this.orderTemplateDocToInterface(template) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get order template:', error);
+      return null;
+    }
+  }
+
+  async getOrderTemplatesByUserId(userId: string, activeOnly: boolean = false): Promise<OrderTemplate[]> {
+    try {
+      const query: any = { user_id: userId };
+      if (activeOnly) {
+        query.is_active = true;
+      }
+      const templates = await this.OrderTemplateModel.find(query).sort({ created_at: -1 });
+      return templates.map(template => this.orderTemplateDocToInterface(template));
+    } catch (error) {
+      console.error('🚨 Failed to get order templates:', error);
+      return [];
+    }
+  }
+
+  async updateOrderTemplate(id: string, updateData: UpdateOrderTemplateData): Promise<OrderTemplate | null> {
+    try {
+      const updatedTemplate = await this.OrderTemplateModel.findByIdAndUpdate(
+        id,
+        { ...updateData, updated_at: new Date() },
+        { new: true }
+      );
+      return updatedTemplate ? this.orderTemplateDocToInterface(updatedTemplate) : null;
+    } catch (error) {
+      console.error('🚨 Failed to update order template:', error);
+      return null;
+    }
+  }
+
+  async deleteOrderTemplate(id: string): Promise<boolean> {
+    try {
+      const result = await this.OrderTemplateModel.findByIdAndDelete(id);
+      return !!result;
+    } catch (error) {
+      console.error('🚨 Failed to delete order template:', error);
+      return false;
+    }
+  }
+
+  async createAdvancedOrder(orderData: CreateAdvancedOrderData): Promise<AdvancedOrder> {
+    try {
+      const orderDoc = new this.AdvancedOrderModel({
+        ...orderData,
+        user_id: new mongoose.Types.ObjectId(orderData.user_id),
+        account_id: new mongoose.Types.ObjectId(orderData.account_id),
+        ...(orderData.account_ids && { account_ids: orderData.account_ids.map(id => new mongoose.Types.ObjectId(id)) }),
+        ...(orderData.parent_order_id && { parent_order_id: new mongoose.Types.ObjectId(orderData.parent_order_id) }),
+        ...(orderData.order_history_id && { order_history_id: new mongoose.Types.ObjectId(orderData.order_history_id) }),
+        ...(orderData.expiry_date && { expiry_date: new Date(orderData.expiry_date) }),
+        ...(orderData.scheduled_at && { scheduled_at: new Date(orderData.scheduled_at) }),
+        ...(orderData.executed_at && { executed_at: new Date(orderData.executed_at) })
+      });
+
+      const savedOrder = await orderDoc.save();
+      console.log('✅ Advanced order created successfully:', savedOrder._id);
+      return this.advancedOrderDocToInterface(savedOrder);
+    } catch (error) {
+      console.error('🚨 Failed to create advanced order:', error);
+      throw error;
+    }
+  }
+
+  async getAdvancedOrderById(id: string): Promise<AdvancedOrder | null> {
+    try {
+      const order = await this.AdvancedOrderModel.findById(id);
+      return order ? this.advancedOrderDocToInterface(order) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get advanced order:', error);
+      return null;
+    }
+  }
+
+  async getAdvancedOrdersByUserId(userId: string, status?: AdvancedOrderStatus): Promise<AdvancedOrder[]> {
+    try {
+      const query: any = { user_id: userId };
+      if (status) {
+        query.status = status;
+      }
+      const orders = await this.AdvancedOrderModel.find(query).sort({ created_at: -1 });
+      return orders.map(order => this.advancedOrderDocToInterface(order));
+    } catch (error) {
+      console.error('🚨 Failed to get advanced orders:', error);
+      return [];
+    }
+  }
+
+  async getAdvancedOrdersByGroupId(orderGroupId: string): Promise<AdvancedOrder[]> {
+    try {
+      const orders = await this.AdvancedOrderModel.find({ order_group_id: orderGroupId }).sort({ created_at: 1 });
+      return orders.map(order => this.advancedOrderDocToInterface(order));
+    } catch (error) {
+      console.error('🚨 Failed to get advanced orders by group:', error);
+      return [];
+    }
+  }
+
+  async getOpenAdvancedOrders(): Promise<AdvancedOrder[]> {
+    try {
+      const orders = await this.AdvancedOrderModel.find({
+        status: { $in: ['PENDING', 'ACTIVE', 'TRIGGERED'] }
+      }).sort({ created_at: 1 });
+      return orders.map(order => this.advancedOrderDocToInterface(order));
+    } catch (error) {
+      console.error('🚨 Failed to get open advanced orders:', error);
+      return [];
+    }
+  }
+
+  async updateAdvancedOrder(id: string, updateData: UpdateAdvancedOrderData): Promise<AdvancedOrder | null> {
+    try {
+      const updatedOrder = await this.AdvancedOrderModel.findByIdAndUpdate(
+        id,
+        {
+          ...updateData,
+          ...(updateData.order_history_id && { order_history_id: new mongoose.Types.ObjectId(updateData.order_history_id) }),
+          ...(updateData.executed_at && { executed_at: new Date(updateData.executed_at) }),
+          updated_at: new Date()
+        },
+        { new: true }
+      );
+      return updatedOrder ? this.advancedOrderDocToInterface(updatedOrder) : null;
+    } catch (error) {
+      console.error('🚨 Failed to update advanced order:', error);
+      return null;
+    }
+  }
+
+  async createOrderModification(modificationData: CreateOrderModificationData): Promise<OrderModification> {
+    try {
+      const modificationDoc = new this.OrderModificationModel({
+        ...modificationData,
+        user_id: new mongoose.Types.ObjectId(modificationData.user_id),
+        order_id: new mongoose.Types.ObjectId(modificationData.order_id)
+      });
+
+      const savedModification = await modificationDoc.save();
+      return this.orderModificationDocToInterface(savedModification);
+    } catch (error) {
+      console.error('🚨 Failed to record order modification:', error);
+      throw error;
+    }
+  }
+
+  async getOrderModificationsByOrderId(orderId: string): Promise<OrderModification[]> {
+    try {
+      const modifications = await this.OrderModificationModel.find({ order_id: orderId }).sort({ created_at: -1 });
+      return modifications.map(modification => this.orderModificationDocToInterface(modification));
+    } catch (error) {
+      console.error('🚨 Failed to get order modifications:', error);
+      return [];
+    }
+  }
+
+  // Strategy Orders
+  async createStrategyOrder(strategyData: CreateStrategyOrderData): Promise<StrategyOrder> {
+    try {
+      const strategyDoc = new this.StrategyOrderModel({
+        ...strategyData,
+        user_id: new mongoose.Types.ObjectId(strategyData.user_id)
+      });
+
+      const savedStrategy = await strategyDoc.save();
+      return this.strategyOrderDocToInterface(savedStrategy);
+    } catch (error) {
+      console.error('🚨 Failed to create strategy order:', error);
+      throw error;
+    }
+  }
+
+  async getStrategyOrderById(id: string): Promise<StrategyOrder | null> {
+    try {
+      const strategy = await this.StrategyOrderModel.findById(id);
+      return strategy ? this.strategyOrderDocToInterface(strategy) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get strategy order:', error);
+      return null;
+    }
+  }
+
+  async getStrategyOrdersByUserId(userId: string, limit: number = 50): Promise<StrategyOrder[]> {
+    try {
+      const strategies = await this.StrategyOrderModel.find({ user_id: userId })
+        .sort({ created_at: -1 })
+        .limit(limit);
+      return strategies.map(strategy => this.strategyOrderDocToInterface(strategy));
+    } catch (error) {
+      console.error('🚨 Failed to get strategy orders:', error);
+      return [];
+    }
+  }
+
+  async updateStrategyOrder(id: string, updateData: UpdateStrategyOrderData): Promise<StrategyOrder | null> {
+    try {
+      const updatedStrategy = await this.StrategyOrderModel.findByIdAndUpdate(
+        id,
+        { ...updateData, updated_at: new Date() },
+        { new: true }
+      );
+      return updatedStrategy ? this.strategyOrderDocToInterface(updatedStrategy) : null;
+    } catch (error) {
+      console.error('🚨 Failed to update strategy order:', error);
+      return null;
+    }
+  }
+
+  // Trade Ledger
+  async getExecutedOrdersByUserId(userId: string): Promise<OrderHistory[]> {
+    try {
+      // Partially filled orders count too, including ones cancelled after the partial fill
+      const orders = await this.OrderHistoryModel
+        .find({
+          user_id: new mongoose.Types.ObjectId(userId),
+          $or: [{ status: 'EXECUTED' }, { executed_quantity: { $gt: 0 } }]
+        })
+        .sort({ executed_at: 1, created_at: 1 });
+      return orders.map(order => this.orderHistoryDocToInterface(order));
+    } catch (error) {
+      console.error('🚨 Failed to get executed orders:', error);
+      return [];
+    }
+  }
+
+  async createLedgerFills(fills: CreateLedgerFillData[]): Promise<LedgerFill[]> {
+    try {
+      const fillDocs = await this.LedgerFillModel.insertMany(fills.map(fill => ({
+        ...fill,
+        user_id: new mongoose.Types.ObjectId(fill.user_id),
+        account_id: new mongoose.Types.ObjectId(fill.account_id),
+        order_history_id: new mongoose.Types.ObjectId(fill.order_history_id),
+        executed_at: new Date(fill.executed_at)
+      })));
+      return fillDocs.map(fill => this.ledgerFillDocToInterface(fill));
+    } catch (error) {
+      console.error('🚨 Failed to record ledger fills:', error);
+      throw error;
+    }
+  }
+
+  async getLedgerFillsByUserId(userId: string, accountId?: string): Promise<LedgerFill[]> {
+    try {
+      const fills = await this.LedgerFillModel
+        .find({
+          user_id: new mongoose.Types.ObjectId(userId),
+          ...(accountId && { account_id: new mongoose.Types.ObjectId(accountId) })
+        })
+        .sort({ executed_at: 1, created_at: 1 });
+      return fills.map(fill => this.ledgerFillDocToInterface(fill));
+    } catch (error) {
+      console.error('🚨 Failed to get ledger fills:', error);
+      return [];
+    }
+  }
+
+  // Candles
+  async upsertCandles(candles: Candle[]): Promise<number> {
+    if (candles.length === 0) {
+      return 0;
+    }
+
+    try {
+      const result = await this.CandleModel.bulkWrite(candles.map(candle => ({
+        updateOne: {
+          filter: { symbol: candle.symbol, exchange: candle.exchange, interval: candle.interval, start: new Date(candle.start) },
+          // Bars built from ticks may have missed part of the bucket, so they never replace fetched ones
+          update: candle.source === 'ticks'
+            ? { $setOnInsert: { ...candle, start: new Date(candle.start) } }
+            : { $set: { ...candle, start: new Date(candle.start) } },
+          upsert: true
+        }
+      })), { ordered: false });
+      return result.upsertedCount + result.modifiedCount;
+    } catch (error) {
+      console.error('🚨 Failed to store candles:', error);
+      throw error;
+    }
+  }
+
+  async getCandles(symbol: string, exchange: string, interval: Candle['interval'], from: string, to: string): Promise<Candle[]> {
+    try {
+      const candles = await this.CandleModel
+        .find({ symbol, exchange, interval, start: { $gte: new Date(from), $lte: new Date(to) } })
+        .sort({ start: 1 });
+      return candles.map(candle => this.candleDocToInterface(candle));
+    } catch (error) {
+      console.error('🚨 Failed to get candles:', error);
+      return [];
+    }
+  }
+
+  // Price Alerts
+  async createPriceAlert(alertData: CreatePriceAlertData): Promise<PriceAlert> {
+    try {
+      const alertDoc = new this.PriceAlertModel({
+        ...alertData,
+        user_id: new mongoose.Types.ObjectId(alertData.user_id),
+        last_triggered_at: alertData.last_triggered_at ? new Date(alertData.last_triggered_at) : null
+      });
+
+      const savedAlert = await alertDoc.save();
+      return this.priceAlertDocToInterface(savedAlert);
+    } catch (error) {
+      console.error('🚨 Failed to create price alert:', error);
+      throw error;
+    }
+  }
+
+  async getPriceAlertById(id: string): Promise<PriceAlert | null> {
+    try {
+      const alert = await this.PriceAlertModel.findById(id);
+      return alert ? this.priceAlertDocToInterface(alert) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get price alert:', error);
+      return null;
+    }
+  }
+
+  async getPriceAlertsByUserId(userId: string): Promise<PriceAlert[]> {
+    try {
+      const alerts = await this.PriceAlertModel
+        .find({ user_id: new mongoose.Types.ObjectId(userId) })
+        .sort({ created_at: -1 });
+      return alerts.map(alert => this.priceAlertDocToInterface(alert));
+    } catch (error) {
+      console.error('🚨 Failed to get price alerts:', error);
+      return [];
+    }
+  }
+
+  async getActivePriceAlerts(): Promise<PriceAlert[]> {
+    try {
+      const alerts = await this.PriceAlertModel.find({ status: 'ACTIVE' });
+      return alerts.map(alert => this.priceAlertDocToInterface(alert));
+    } catch (error) {
+      console.error('🚨 Failed to get active price alerts:', error);
+      return [];
+    }
+  }
+
+  async updatePriceAlert(id: string, updateData: UpdatePriceAlertData): Promise<PriceAlert | null> {
+    try {
+      const { last_triggered_at, ...fields } = updateData;
+      const updatedAlert = await this.PriceAlertModel.findByIdAndUpdate(
+        id,
+        {
+          ...fields,
+          ...(last_triggered_at !== undefined && { last_triggered_at: last_triggered_at ? new Date(last_triggered_at) : null }),
+          updated_at: new Date()
+        },
+        { new: true }
+      );
+      return updatedAlert ? this.priceAlertDocToInterface(updatedAlert) : null;
+    } catch (error) {
+      console.error('🚨 Failed to update price alert:', error);
+      return null;
+    }
+  }
+
+  async deletePriceAlert(id: string): Promise<boolean> {
+    try {
+      const result = await this.PriceAlertModel.findByIdAndDelete(id);
+      return !!result;
+    } catch (error) {
+      console.error('🚨 Failed to delete price alert:', error);
+      return false;
+    }
+  }
+
+  // Audit Trail
+  async createAuditEvent(eventData: CreateAuditEventData): Promise<AuditEvent> {
+    // No catch: a duplicate sequence means another writer got there first and the caller retries
+    const eventDoc = new this.AuditEventModel({
+      ...eventData,
+      created_at: new Date(eventData.created_at)
+    });
+    const savedEvent = await eventDoc.save();
+    return this.auditEventDocToInterface(savedEvent);
+  }
+
+  async getLastAuditEvent(): Promise<AuditEvent | null> {
+    const event = await this.AuditEventModel.findOne().sort({ sequence: -1 });
+    return event ? this.auditEventDocToInterface(event) : null;
+  }
+
+  async searchAuditEvents(filters: AuditEventFilters, limit: number, offset: number): Promise<{ events: AuditEvent[]; total: number }> {
+    try {
+      const query: any = {};
+      if (filters.userId) query.user_id = filters.userId;
+      if (filters.accountId) query.account_id = filters.accountId;
+      if (filters.category) query.category = filters.category;
+      if (filters.actions && filters.actions.length > 0) query.action = { $in: filters.actions };
+      if (filters.requestId) query.request_id = filters.requestId;
+      if (filters.success !== undefined) query.success = filters.success;
+      if (filters.startDate || filters.endDate) {
+        query.created_at = {};
+        if (filters.startDate) query.created_at.$gte = new Date(filters.startDate);
+        if (filters.endDate) query.created_at.$lte = new Date(filters.endDate);
+      }
+
+      const [events, total] = await Promise.all([
+        this.AuditEventModel.find(query).sort({ sequence: -1 }).skip(offset).limit(limit),
+        this.AuditEventModel.countDocuments(query)
+      ]);
+      return { events: events.map(doc => this.auditEventDocToInterface(doc)), total };
+    } catch (error) {
+      console.error('🚨 Failed to search audit events:', error);
+      return { events: [], total: 0 };
+    }
+  }
+
+  async getAuditEventsAfterSequence(sequence: number, limit: number): Promise<AuditEvent[]> {
+    const events = await this.AuditEventModel.find({ sequence: { $gt: sequence } })
+      .sort({ sequence: 1 })
+      .limit(limit);
+    return events.map(doc => this.auditEventDocToInterface(doc));
+  }
+
+  async deleteAuditEventsBefore(before: string): Promise<number> {
+    // The newest event is always kept so the chain carries on from its hash
+    const last = await this.AuditEventModel.findOne().sort({ sequence: -1 }).select('sequence').lean();
+    if (!last) {
+      return 0;
+    }
+
+    const result = await this.AuditEventModel.deleteMany({
+      created_at: { $lt: new Date(before) },
+      sequence: { $lt: last.sequence }
+    });
+    return result.deletedCount || 0;
+  }
+
+  // Login Sessions
+  async createAuthSession(sessionData: CreateAuthSessionData): Promise<AuthSession> {
+    try {
+      const sessionDoc = new this.AuthSessionModel({
+        ...sessionData,
+        user_id: new mongoose.Types.ObjectId(sessionData.user_id),
+        expires_at: new Date(sessionData.expires_at)
+      });
+      const savedSession = await sessionDoc.save();
+      return this.authSessionDocToInterface(savedSession);
+    } catch (error) {
+      console.error('🚨 Failed to create auth session:', error);
+      throw error;
+    }
+  }
+
+  async getAuthSessionById(id: string): Promise<AuthSession | null> {
+    try {
+      const session = await this.AuthSessionModel.findById(id);
+      return session ? this.authSessionDocToInterface(session) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get auth session:', error);
+      return null;
+    }
+  }
+
+  async getActiveAuthSessionsByUserId(userId: string): Promise<AuthSession[]> {
+    try {
+      const sessions = await this.AuthSessionModel.find({
+        user_id: new mongoose.Types.ObjectId(userId),
+        revoked_at: null,
+        expires_at: { $gt: new Date() }
+      }).sort({ last_used_at: -1 });
+      return sessions.map(session => this.authSessionDocToInterface(session));
+    } catch (error) {
+      console.error('🚨 Failed to get auth sessions:', error);
+      return [];
+    }
+  }
+
+  async updateAuthSession(id: string, updateData: UpdateAuthSessionData): Promise<AuthSession | null> {
+    try {
+      const session = await this.AuthSessionModel.findOneAndUpdate(
+        { _id: id, revoked_at: null },
+        {
+          ...updateData,
+          ...(updateData.step_up_at && { step_up_at: new Date(updateData.step_up_at) }),
+          ...(updateData.last_used_at && { last_used_at: new Date(updateData.last_used_at) }),
+          ...(updateData.expires_at && { expires_at: new Date(updateData.expires_at) })
+        },
+        { new: true }
+      );
+      return session ? this.authSessionDocToInterface(session) : null;
+    } catch (error) {
+      console.error('🚨 Failed to update auth session:', error);
+      return null;
+    }
+  }
+
+  async rotateAuthSessionRefreshToken(
+    id: string,
+    currentHash: string,
+    nextHash: string,
+    updateData: UpdateAuthSessionData
+  ): Promise<AuthSession | null> {
+    try {
+      const session = await this.AuthSessionModel.findOneAndUpdate(
+        { _id: id, revoked_at: null, refresh_token_hash: currentHash },
+        {
+          ...updateData,
+          ...(updateData.last_used_at && { last_used_at: new Date(updateData.last_used_at) }),
+          ...(updateData.expires_at && { expires_at: new Date(updateData.expires_at) }),
+          refresh_token_hash: nextHash,
+          previous_refresh_token_hash: currentHash,
+          rotated_at: new Date()
+        },
+        { new: true }
+      );
+      return session ? this.authSessionDocToInterface(session) : null;
+    } catch (error) {
+      console.error('🚨 Failed to rotate auth session refresh token:', error);
+      return null;
+    }
+  }
+
+  async revokeAuthSession(id: string, reason: string): Promise<boolean> {
+    try {
+      const result = await this.AuthSessionModel.updateOne(
+        { _id: id, revoked_at: null },
+        { revoked_at: new Date(), revoke_reason: reason }
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      console.error('🚨 Failed to revoke auth session:', error);
+      return false;
+    }
+  }
+
+  async revokeAuthSessionsByUserId(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+    try {
+      const result = await this.AuthSessionModel.updateMany(
+        {
+          user_id: new mongoose.Types.ObjectId(userId),
+          revoked_at: null,
+          ...(exceptSessionId && { _id: { $ne: new mongoose.Types.ObjectId(exceptSessionId) } })
+        },
+        { revoked_at: new Date(), revoke_reason: reason }
+      );
+      return result.modifiedCount;
+    } catch (error) {
+      console.error('🚨 Failed to revoke auth sessions:', error);
+      return 0;
+    }
+  }
+
+  // Workspaces
+  async createWorkspace(workspaceData: CreateWorkspaceData): Promise<Workspace> {
+    try {
+      const workspaceDoc = new this.WorkspaceModel({
+        name: workspaceData.name,
+        owner_id: new mongoose.Types.ObjectId(workspaceData.owner_id)
+      });
+      const savedWorkspace = await workspaceDoc.save();
+      return this.workspaceDocToInterface(savedWorkspace);
+    } catch (error) {
+      console.error('🚨 Failed to create workspace:', error);
+      throw error;
+    }
+  }
+
+  async getWorkspaceById(id: string): Promise<Workspace | null> {
+    try {
+      const workspace = await this.WorkspaceModel.findById(id);
+      return workspace ? this.workspaceDocToInterface(workspace) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get workspace:', error);
+      return null;
+    }
+  }
+
+  async getWorkspacesByIds(ids: string[]): Promise<Workspace[]> {
+    try {
+      const workspaces = await this.WorkspaceModel.find({ _id: { $in: ids } }).sort({ created_at: 1 });
+      return workspaces.map(workspace => this.workspaceDocToInterface(workspace));
+    } catch (error) {
+      console.error('🚨 Failed to get workspaces:', error);
+      return [];
+    }
+  }
+
+  async addWorkspaceMember(memberData: CreateWorkspaceMemberData): Promise<WorkspaceMember> {
+    try {
+      const memberDoc = new this.WorkspaceMemberModel({
+        workspace_id: new mongoose.Types.ObjectId(memberData.workspace_id),
+        user_id: new mongoose.Types.ObjectId(memberData.user_id),
+        role: memberData.role,
+        added_by: new mongoose.Types.ObjectId(memberData.added_by)
+      });
+      const savedMember = await memberDoc.save();
+      return this.workspaceMemberDocToInterface(savedMember);
+    } catch (error) {
+      console.error('🚨 Failed to add workspace member:', error);
+      throw error;
+    }
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    try {
+      const members = await this.WorkspaceMemberModel.find({
+        workspace_id: new mongoose.Types.ObjectId(workspaceId)
+      }).sort({ created_at: 1 });
+      return members.map(member => this.workspaceMemberDocToInterface(member));
+    } catch (error) {
+      console.error('🚨 Failed to get workspace members:', error);
+      return [];
+    }
+  }
+
+  async getWorkspaceMembershipsByUserId(userId: string): Promise<WorkspaceMember[]> {
+    try {
+      const memberships = await this.WorkspaceMemberModel.find({
+        user_id: new mongoose.Types.ObjectId(userId)
+      }).sort({ created_at: 1 });
+      return memberships.map(member => this.workspaceMemberDocToInterface(member));
+    } catch (error) {
+      console.error('🚨 Failed to get workspace memberships:', error);
+      return [];
+    }
+  }
+
+  async updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMember | null> {
+    try {
+      const member = await this.WorkspaceMemberModel.findOneAndUpdate(
+        {
+          workspace_id: new mongoose.Types.ObjectId(workspaceId),
+          user_id: new mongoose.Types.ObjectId(userId)
+        },
+        { role, updated_at: new Date() },
+        { new: true }
+      );
+      return member ? this.workspaceMemberDocToInterface(member) : null;
+    } catch (error) {
+      console.error('🚨 Failed to update workspace member:', error);
+      return null;
+    }
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+    try {
+      const result = await this.WorkspaceMemberModel.deleteOne({
+        workspace_id: new mongoose.Types.ObjectId(workspaceId),
+        user_id: new mongoose.Types.ObjectId(userId)
+      });
+      return result.deletedCount > 0;
+    } catch (error) {
+      console.error('🚨 Failed to remove workspace member:', error);
+      return false;
+    }
+  }
+
+  async createAccountGrant(grantData: CreateAccountGrantData): Promise<AccountGrant> {
+    try {
+      const grantDoc = new this.AccountGrantModel({
+        workspace_id: new mongoose.Types.ObjectId(grantData.workspace_id),
+        account_id: new mongoose.Types.ObjectId(grantData.account_id),
+        owner_id: new mongoose.Types.ObjectId(grantData.owner_id),
+        permissions: grantData.permissions
+      });
+      const savedGrant = await grantDoc.save();
+      return this.accountGrantDocToInterface(savedGrant);
+    } catch (error) {
+      console.error('🚨 Failed to create account grant:', error);
+      throw error;
+    }
+  }
+
+  async getAccountGrantById(id: string): Promise<AccountGrant | null> {
+    try {
+      const grant = await this.AccountGrantModel.findById(id);
+      return grant ? this.accountGrantDocToInterface(grant) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get account grant:', error);
+      return null;
+    }
+  }
+
+  async getActiveAccountGrants(filters: AccountGrantFilters): Promise<AccountGrant[]> {
+    try {
+      const grants = await this.AccountGrantModel.find({
+        revoked_at: null,
+        ...(filters.workspaceIds && { workspace_id: { $in: filters.workspaceIds.map(id => new mongoose.Types.ObjectId(id)) } }),
+        ...(filters.accountId && { account_id: new mongoose.Types.ObjectId(filters.accountId) }),
+        ...(filters.ownerId && { owner_id: new mongoose.Types.ObjectId(filters.ownerId) })
+      }).sort({ created_at: 1 });
+      return grants.map(grant => this.accountGrantDocToInterface(grant));
+    } catch (error) {
+      console.error('🚨 Failed to get account grants:', error);
+      return [];
+    }
+  }
+
+  async updateAccountGrantPermissions(id: string, permissions: AccountPermission[]): Promise<AccountGrant | null> {
+    try {
+      const grant = await this.AccountGrantModel.findOneAndUpdate(
+        { _id: id, revoked_at: null },
+        { permissions, updated_at: new Date() },
+        { new: true }
+      );
+      return grant ? this.accountGrantDocToInterface(grant) : null;
+    } catch (error) {
+      console.error('🚨 Failed to update account grant:', error);
+      return null;
+    }
+  }
+
+  async revokeAccountGrant(id: string, revokedBy: string): Promise<boolean> {
+    try {
+      const result = await this.AccountGrantModel.updateOne(
+        { _id: id, revoked_at: null },
+        { revoked_at: new Date(), revoked_by: new mongoose.Types.ObjectId(revokedBy), updated_at: new Date() }
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      console.error('🚨 Failed to revoke account grant:', error);
+      return false;
+    }
+  }
+
+  // API Keys
+  async createApiKey(keyData: CreateApiKeyData): Promise<ApiKey> {
+    try {
+      const keyDoc = new this.ApiKeyModel({
+        ...keyData,
+        user_id: new mongoose.Types.ObjectId(keyData.user_id),
+        // Signing secrets are encrypted like broker credentials
+        signing_secret: this.encrypt(keyData.signing_secret).encrypted
+      });
+      const savedKey = await keyDoc.save();
+      return this.apiKeyDocToInterface(savedKey);
+    } catch (error) {
+      console.error('🚨 Failed to create API key:', error);
+      throw error;
+    }
+  }
+
+  async getApiKeyById(id: string): Promise<ApiKey | null> {
+    try {
+      const key = await this.ApiKeyModel.findById(id);
+      return key ? this.apiKeyDocToInterface(key) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get API key:', error);
+      return null;
+    }
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    try {
+      const key = await this.ApiKeyModel.findOne({ key_hash: keyHash });
+      return key ? this.apiKeyDocToInterface(key) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get API key:', error);
+      return null;
+    }
+  }
+
+  async getApiKeysByUserId(userId: string): Promise<ApiKey[]> {
+    try {
+      const keys = await this.ApiKeyModel.find({
+        user_id: new mongoose.Types.ObjectId(userId)
+      }).sort({ created_at: -1 });
+      return keys.map(key => this.apiKeyDocToInterface(key));
+    } catch (error) {
+      console.error('🚨 Failed to get API keys:', error);
+      return [];
+    }
+  }
+
+  async updateApiKey(id: string, updateData: UpdateApiKeyData): Promise<ApiKey | null> {
+    try {
+      const key = await this.ApiKeyModel.findOneAndUpdate(
+        { _id: id, revoked_at: null },
+        {
+          ...updateData,
+          ...(updateData.last_used_at !== undefined && {
+            last_used_at: updateData.last_used_at ? new Date(updateData.last_used_at) : null
+          }),
+          updated_at: new Date()
+        },
+        { new: true }
+      );
+      return key ? this.apiKeyDocToInterface(key) : null;
+    } catch (error) {
+      console.error('🚨 Failed to update API key:', error);
+      return null;
+    }
+  }
+
+  async revokeApiKey(id: string): Promise<boolean> {
+    try {
+      const result = await this.ApiKeyModel.updateOne(
+        { _id: id, revoked_at: null },
+        { revoked_at: new Date(), updated_at: new Date() }
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      console.error('🚨 Failed to revoke API key:', error);
+      return false;
+    }
+  }
+
+  // Inbound Signals
+  async createSignal(signalData: CreateSignalData): Promise<Signal> {
+    try {
+      const signalDoc = new this.SignalModel({
+        ...signalData,
+        user_id: new mongoose.Types.ObjectId(signalData.user_id),
+        api_key_id: new mongoose.Types.ObjectId(signalData.api_key_id)
+      });
+      const savedSignal = await signalDoc.save();
+      return this.signalDocToInterface(savedSignal);
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new Error(`Signal with idempotency key ${signalData.idempotency_key} already received`);
+      }
+      console.error('🚨 Failed to create signal:', error);
+      throw error;
+    }
+  }
+
+  async getSignalByIdempotencyKey(apiKeyId: string, idempotencyKey: string): Promise<Signal | null> {
+    try {
+      const signal = await this.SignalModel.findOne({
+        api_key_id: new mongoose.Types.ObjectId(apiKeyId),
+        idempotency_key: idempotencyKey
+      });
+      return signal ? this.signalDocToInterface(signal) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get signal:', error);
+      return null;
+    }
+  }
+
+  async updateSignal(id: string, updateData: UpdateSignalData): Promise<Signal | null> {
+    try {
+      const signal = await this.SignalModel.findByIdAndUpdate(
+        id,
+        {
+          ...updateData,
+          ...(updateData.completed_at !== undefined && {
+            completed_at: updateData.completed_at ? new Date(updateData.completed_at) : null
+          })
+        },
+        { new: true }
+      );
+      return signal ? this.signalDocToInterface(signal) : null;
+    } catch (error) {
+      console.error('🚨 Failed to update signal:', error);
+      return null;
+    }
+  }
+
+  async getSignalsByUserId(
+    userId: string,
+    filters: SignalFilters,
+    limit: number,
+    offset: number
+  ): Promise<{ signals: Signal[]; total: number }> {
+    try {
+      const query = {
+        user_id: new mongoose.Types.ObjectId(userId),
+        ...(filters.apiKeyId && { api_key_id: new mongoose.Types.ObjectId(filters.apiKeyId) }),
+        ...(filters.status && { status: filters.status })
+      };
+      const [signals, total] = await Promise.all([
+        this.SignalModel.find(query).sort({ created_at: -1 }).skip(offset).limit(limit),
+        this.SignalModel.countDocuments(query)
+      ]);
+      return { signals: signals.map(signal => this.signalDocToInterface(signal)), total };
+    } catch (error) {
+      console.error('🚨 Failed to get signals:', error);
+      return { signals: [], total: 0 };
+    }
+  }
+
+  // Outbound Webhooks
+  async createWebhookSubscription(subscriptionData: CreateWebhookSubscriptionData): Promise<WebhookSubscription> {
+    try {
+      const subscriptionDoc = new this.WebhookSubscriptionModel({
+        ...subscriptionData,
+        user_id: new mongoose.Types.ObjectId(subscriptionData.user_id),
+        // Signing secrets are encrypted like broker credentials
+        secret: this.encrypt(subscriptionData.secret).encrypted
+      });
+      const savedSubscription = await subscriptionDoc.save();
+      return this.webhookSubscriptionDocToInterface(savedSubscription);
+    } catch (error) {
+      console.error('🚨 Failed to create webhook subscription:', error);
+      throw error;
+    }
+  }
+
+  async getWebhookSubscriptionById(id: string): Promise<WebhookSubscription | null> {
+    try {
+      const subscription = await this.WebhookSubscriptionModel.findById(id);
+      return subscription ? this.webhookSubscriptionDocToInterface(subscription) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get webhook subscription:', error);
+      return null;
+    }
+  }
+
+  async getWebhookSubscriptionsByUserId(userId: string): Promise<WebhookSubscription[]> {
+    try {
+      const subscriptions = await this.WebhookSubscriptionModel.find({
+        user_id: new mongoose.Types.ObjectId(userId)
+      }).sort({ created_at: -1 });
+      return subscriptions.map(subscription => this.webhookSubscriptionDocToInterface(subscription));
+    } catch (error) {
+      console.error('🚨 Failed to get webhook subscriptions:', error);
+      return [];
+    }
+  }
+
+  async getWebhookSubscriptionsForEvent(userId: string, event: WebhookEvent): Promise<WebhookSubscription[]> {
+    try {
+      const subscriptions = await this.WebhookSubscriptionModel.find({
+        user_id: new mongoose.Types.ObjectId(userId),
+        is_active: true,
+        events: event
+      });
+      return subscriptions.map(subscription => this.webhookSubscriptionDocToInterface(subscription));
+    } catch (error) {
+      console.error('🚨 Failed to get webhook subscriptions:', error);
+      return [];
+    }
+  }
+
+  async updateWebhookSubscription(id: string, updateData: UpdateWebhookSubscriptionData): Promise<WebhookSubscription | null> {
+    try {
+      const subscription = await this.WebhookSubscriptionModel.findByIdAndUpdate(
+        id,
+        { ...updateData, updated_at: new Date() },
+        { new: true }
+      );
+      return subscription ? this.webhookSubscriptionDocToInterface(subscription) : null;
+    } catch (error) {
+      console.error('🚨 Failed to update webhook subscription:', error);
+      return null;
+    }
+  }
+
+  async deleteWebhookSubscription(id: string): Promise<boolean> {
+    try {
+      const result = await this.WebhookSubscriptionModel.deleteOne({ _id: id });
+      if (result.deletedCount === 0) {
+        return false;
+      }
+      await this.WebhookDeliveryModel.deleteMany({ subscription_id: new mongoose.Types.ObjectId(id) });
+      return true;
+    } catch (error) {
+      console.error('🚨 Failed to delete webhook subscription:', error);
+      return false;
+    }
+  }
+
+  async createWebhookDelivery(deliveryData: CreateWebhookDeliveryData): Promise<WebhookDelivery> {
+    try {
+      const deliveryDoc = new this.WebhookDeliveryModel({
+        ...deliveryData,
+        subscription_id: new mongoose.Types.ObjectId(deliveryData.subscription_id),
+        user_id: new mongoose.Types.ObjectId(deliveryData.user_id),
+        next_attempt_at: deliveryData.next_attempt_at ? new Date(deliveryData.next_attempt_at) : null
+      });
+      const savedDelivery = await deliveryDoc.save();
+      return this.webhookDeliveryDocToInterface(savedDelivery);
+    } catch (error) {
+      console.error('🚨 Failed to create webhook delivery:', error);
+      throw error;
+    }
+  }
+
+  async getWebhookDeliveryById(id: string): Promise<WebhookDelivery | null> {
+    try {
+      const delivery = await this.WebhookDeliveryModel.findById(id);
+      return delivery ? this.webhookDeliveryDocToInterface(delivery) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get webhook delivery:', error);
+      return null;
+    }
+  }
+
+  async updateWebhookDelivery(id: string, updateData: UpdateWebhookDeliveryData): Promise<WebhookDelivery | null> {
+    try {
+      const delivery = await this.WebhookDeliveryModel.findByIdAndUpdate(
+        id,
+        {
+          ...updateData,
+          ...(updateData.next_attempt_at !== undefined && {
+            next_attempt_at: updateData.next_attempt_at ? new Date(updateData.next_attempt_at) : null
+          }),
+          ...(updateData.delivered_at !== undefined && {
+            delivered_at: updateData.delivered_at ? new Date(updateData.delivered_at) : null
+          })
+        },
+        { new: true }
+      );
+      return delivery ? this.webhookDeliveryDocToInterface(delivery) : null;
+    } catch (error) {
+      console.error('🚨 Failed to update webhook delivery:', error);
+      return null;
+    }
+  }
+
+  async getDueWebhookDeliveries(before: Date, limit: number): Promise<WebhookDelivery[]> {
+    try {
+      const deliveries = await this.WebhookDeliveryModel.find({
+        status: { $in: ['PENDING', 'RETRYING'] },
+        next_attempt_at: { $lte: before }
+      }).sort({ next_attempt_at: 1 }).limit(limit);
+      return deliveries.map(delivery => this.webhookDeliveryDocToInterface(delivery));
+    } catch (error) {
+      console.error('🚨 Failed to get due webhook deliveries:', error);
+      return [];
+    }
+  }
+
+  async getWebhookDeliveriesByUserId(
+    userId: string,
+    filters: WebhookDeliveryFilters,
+    limit: number,
+    offset: number
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    try {
+      const query = {
+        user_id: new mongoose.Types.ObjectId(userId),
+        ...(filters.subscriptionId && { subscription_id: new mongoose.Types.ObjectId(filters.subscriptionId) }),
+        ...(filters.status && { status: filters.status })
+      };
+      const [deliveries, total] = await Promise.all([
+        this.WebhookDeliveryModel.find(query).sort({ created_at: -1 }).skip(offset).limit(limit),
+        this.WebhookDeliveryModel.countDocuments(query)
+      ]);
+      return { deliveries: deliveries.map(delivery => this.webhookDeliveryDocToInterface(delivery)), total };
+    } catch (error) {
+      console.error('🚨 Failed to get webhook deliveries:', error);
+      return { deliveries: [], total: 0 };
+    }
+  }
+
+  // Paper Trading
+  async getPaperAccountState(accountId: string): Promise<PaperAccountState | null> {
+    try {
+      const state = await this.PaperAccountStateModel.findOne({ account_id: accountId });
+      return state ? this.paperAccountStateDocToInterface(state) : null;
+    } catch (error) {
+      console.error('🚨 Failed to get paper account state:', error);
+      throw error;
+    }
+  }
+
+  async getPaperAccountStates(): Promise<PaperAccountState[]> {
+    try {
+      const states = await this.PaperAccountStateModel.find();
+      return states.map(state => this.paperAccountStateDocToInterface(state));
+    } catch (error) {
+      console.error('🚨 Failed to get paper account states:', error);
+      return [];
+    }
+  }
+
+  async savePaperAccountState(accountId: string, snapshot: Record<string, any>): Promise<PaperAccountState> {
+    try {
+      const state = await this.PaperAccountStateModel.findOneAndUpdate(
+        { account_id: accountId },
+        { $set: { account_id: accountId, snapshot, updated_at: new Date() } },
+        { new: true, upsert: true }
+      );
+      return this.paperAccountStateDocToInterface(state);
+    } catch (error) {
+      console.error('🚨 Failed to save paper account state:', error);
+      throw error;
+    }
+  }
+
   // Notification Preferences
   async saveUserNotificationPreferences(preferences: any): Promise<boolean> {
     // For now, return true - can implement notification preferences collection later
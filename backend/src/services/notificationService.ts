@@ -1,5 +1,6 @@
 import { logger } from '../utils/logger';
 import { userDatabase } from './databaseCompatibility';
+import { alertingService } from './alertingService';
 
 export interface NotificationPreferences {
   userId: string;
@@ -58,6 +59,57 @@ export interface OrderNotificationData {
   timestamp: string;
 }
 
+export interface KillSwitchNotificationData {
+  action: 'ACTIVATED' | 'DEACTIVATED';
+  scope: string; // "all accounts" or the account display name
+  reason?: string | undefined;
+  cancelledOrders: number;
+  squaredOffPositions: number;
+  failureCount: number;
+  timestamp: string;
+}
+
+export interface SquareOffNotificationData {
+  runId: string;
+  account: string; // account display name
+  trigger: 'SCHEDULED' | 'MANUAL';
+  status: 'COMPLETED' | 'PARTIAL' | 'FAILED' | 'NOTHING_TO_DO';
+  cancelledOrders: number;
+  squaredOffPositions: number;
+  failureCount: number;
+  timestamp: string;
+}
+
+export interface StrategyOrderNotificationData {
+  strategyOrderId: string;
+  name: string;
+  status: string;
+  account: string; // account display name
+  failedLeg: string; // symbol of the leg that failed
+  error: string;
+  rolledBack: boolean;
+  timestamp: string;
+}
+
+export interface PriceAlertNotificationData {
+  alertId: string;
+  name: string;
+  condition: string;
+  symbol: string | null;
+  exchange: string | null;
+  threshold: number;
+  value: number;
+  message: string;
+  portfolio: boolean; // portfolio alerts follow the portfolioAlerts preference, the rest marketAlerts
+  timestamp: string;
+}
+
+export interface PriceAlertDelivery {
+  push: boolean;
+  email: boolean;
+  webhookUrl: string | null;
+}
+
 class NotificationService {
   private vapidKeys: { publicKey: string; privateKey: string } | null = null;
   private webpush: any = null;
@@ -242,6 +294,180 @@ class NotificationService {
     }
   }
 
+  /**
+   * Send kill switch activation/deactivation notification.
+   * Quiet hours do not apply: the user must always learn that trading was halted.
+   */
+  async sendKillSwitchNotification(userId: string, data: KillSwitchNotificationData): Promise<void> {
+    try {
+      const preferences = await this.getUserNotificationPreferences(userId);
+      if (!preferences.pushEnabled) {
+        logger.debug(`User ${userId} has push notifications disabled`);
+        return;
+      }
+
+      const activated = data.action === 'ACTIVATED';
+      const summary = activated
+        ? `${data.cancelledOrders} open order${data.cancelledOrders === 1 ? '' : 's'} cancelled, ${data.squaredOffPositions} position${data.squaredOffPositions === 1 ? '' : 's'} squared off`
+        : 'New orders are allowed again';
+      const failures = data.failureCount > 0 ? ` (${data.failureCount} action${data.failureCount === 1 ? '' : 's'} failed)` : '';
+
+      const payload: NotificationPayload = {
+        title: activated ? `🛑 Kill Switch Activated - ${data.scope}` : `✅ Kill Switch Released - ${data.scope}`,
+        body: `${summary}${failures}${data.reason ? `. Reason: ${data.reason}` : ''}`,
+        icon: activated ? '/icons/error-icon.png' : '/icons/success-icon.png',
+        badge: '/icons/badge-72x72.png',
+        tag: 'kill-switch',
+        data: {
+          type: 'kill_switch',
+          ...data
+        },
+        requireInteraction: activated
+      };
+
+      await this.sendNotificationToUser(userId, payload);
+
+      logger.info(`📱 Sent kill switch notification to user ${userId}: ${data.action} for ${data.scope}`);
+    } catch (error) {
+      logger.error(`Failed to send kill switch notification to user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Report an intraday square-off run. Quiet hours do not apply: positions
+   * left open are squared off by the broker with a penalty.
+   */
+  async sendSquareOffNotification(userId: string, data: SquareOffNotificationData): Promise<void> {
+    try {
+      const preferences = await this.getUserNotificationPreferences(userId);
+      if (!preferences.pushEnabled) {
+        logger.debug(`User ${userId} has push notifications disabled`);
+        return;
+      }
+
+      const succeeded = data.status === 'COMPLETED';
+      const summary = `${data.squaredOffPositions} position${data.squaredOffPositions === 1 ? '' : 's'} squared off, ${data.cancelledOrders} order${data.cancelledOrders === 1 ? '' : 's'} cancelled`;
+      const failures = data.failureCount > 0
+        ? `. ${data.failureCount} action${data.failureCount === 1 ? '' : 's'} failed, please review the account`
+        : '';
+
+      const payload: NotificationPayload = {
+        title: succeeded ? `⏱ Intraday Square-off Done - ${data.account}` : `⚠️ Intraday Square-off Incomplete - ${data.account}`,
+        body: `${summary}${failures}`,
+        icon: succeeded ? '/icons/success-icon.png' : '/icons/error-icon.png',
+        badge: '/icons/badge-72x72.png',
+        tag: `square-off-${data.runId}`,
+        data: {
+          type: 'square_off',
+          ...data
+        },
+        requireInteraction: !succeeded
+      };
+
+      await this.sendNotificationToUser(userId, payload);
+
+      logger.info(`📱 Sent square-off notification to user ${userId}: ${data.status} for ${data.account}`);
+    } catch (error) {
+      logger.error(`Failed to send square-off notification to user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Alert the user that a strategy leg failed. Quiet hours do not apply: the
+   * strategy may be left partially placed and needs attention.
+   */
+  async sendStrategyOrderNotification(userId: string, data: StrategyOrderNotificationData): Promise<void> {
+    try {
+      const preferences = await this.getUserNotificationPreferences(userId);
+      if (!preferences.pushEnabled) {
+        logger.debug(`User ${userId} has push notifications disabled`);
+        return;
+      }
+
+      const outcome = data.rolledBack
+        ? 'placed legs were rolled back'
+        : 'placed legs were left open, please review the positions';
+
+      const payload: NotificationPayload = {
+        title: `⚠️ Strategy Leg Failed - ${data.name}`,
+        body: `${data.failedLeg} on ${data.account}: ${data.error}. ${outcome.charAt(0).toUpperCase()}${outcome.slice(1)}`,
+        icon: '/icons/error-icon.png',
+        badge: '/icons/badge-72x72.png',
+        tag: `strategy-${data.strategyOrderId}`,
+        data: {
+          type: 'strategy_order',
+          ...data
+        },
+        requireInteraction: !data.rolledBack
+      };
+
+      await this.sendNotificationToUser(userId, payload);
+
+      logger.info(`📱 Sent strategy order notification to user ${userId}: ${data.name} ${data.status}`);
+    } catch (error) {
+      logger.error(`Failed to send strategy order notification to user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Deliver a triggered price alert over the channels the alert asked for.
+   * Push and email follow the user's market or portfolio alert preference and
+   * are held back during quiet hours; the webhook is for machines and is
+   * always called. Returns the channels that were used.
+   */
+  async sendPriceAlertNotification(userId: string, data: PriceAlertNotificationData, delivery: PriceAlertDelivery): Promise<string[]> {
+    const sent: string[] = [];
+    try {
+      const preferences = await this.getUserNotificationPreferences(userId);
+      const categoryEnabled = data.portfolio ? preferences.portfolioAlerts : preferences.marketAlerts;
+      const quiet = this.isInQuietHours(preferences.quietHours);
+      if (quiet) {
+        logger.debug(`User ${userId} is in quiet hours, holding back price alert ${data.alertId}`);
+      }
+
+      if (delivery.push && preferences.pushEnabled && categoryEnabled && !quiet) {
+        const payload: NotificationPayload = {
+          title: `🔔 ${data.name}`,
+          body: data.message,
+          icon: '/icons/alert-icon.png',
+          badge: '/icons/badge-72x72.png',
+          tag: `price-alert-${data.alertId}`,
+          data: {
+            type: 'price_alert',
+            ...data
+          }
+        };
+        await this.sendNotificationToUser(userId, payload);
+        sent.push('PUSH');
+      }
+
+      const user = delivery.email && preferences.emailEnabled && categoryEnabled && !quiet
+        ? await userDatabase.findUserById(userId)
+        : null;
+      if (user || delivery.webhookUrl) {
+        await alertingService.sendToRecipient({
+          id: `price_alert_${data.alertId}_${Date.now()}`,
+          ruleId: `price-alert-${data.alertId}`,
+          severity: 'medium',
+          message: `${data.name}: ${data.message}`,
+          timestamp: new Date(data.timestamp),
+          details: data,
+          resolved: false
+        }, {
+          email: user?.email,
+          webhookUrl: delivery.webhookUrl || undefined
+        });
+        if (user) sent.push('EMAIL');
+        if (delivery.webhookUrl) sent.push('WEBHOOK');
+      }
+
+      logger.info(`📱 Sent price alert ${data.alertId} to user ${userId} via ${sent.join(', ') || 'no external channel'}`);
+    } catch (error) {
+      logger.error(`Failed to send price alert notification to user ${userId}:`, error);
+    }
+    return sent;
+  }
+
   /**
    * Format order status notification content
    */
@@ -278,6 +504,12 @@ class NotificationService {
         icon = '/icons/partial-icon.png';
         break;
       
+      case 'AMO_PLACED':
+        title = `🌙 After-Market Order Queued`;
+        body = `${action} ${quantity} ${symbol} order will be sent to the exchange when the market opens`;
+        icon = '/icons/pending-icon.png';
+        break;
+      
       case 'PENDING':
         title = `⏳ Order Pending`;
         body = `${action} ${quantity} ${symbol} order is now pending`;
@@ -4,6 +4,8 @@ import path from 'path';
 import csv from 'csv-parser';
 import * as cron from 'node-cron';
 import { logger } from '../utils/logger';
+import { toMarketDate } from '../utils/tradingCalendar';
+import { marketClockService } from './marketClockService';
 
 interface NSESymbolData {
   symbol: string;
@@ -23,8 +25,8 @@ class NSECSVService {
   private symbols: NSESymbolData[] = [];
   private lastUpdated: Date | null = null;
   private isUpdating = false;
-  private lastDataDate: string | null = null; // Track the date of current data (YYYY-MM-DD)
-  private dayChangeMonitor: NodeJS.Timeout | null = null;
+  private lastDataDate: string | null = null; // Track the market date of current data (YYYY-MM-DD)
+  private unsubscribeMarketClock: (() => void) | null = null;
 
   constructor() {
     this.ensureDataDirectory();
@@ -62,7 +64,7 @@ class NSECSVService {
 
         // Set the data date from when it was last updated
         if (this.lastUpdated) {
-          this.lastDataDate = this.lastUpdated.toISOString().split('T')[0] || null;
+          this.lastDataDate = toMarketDate(this.lastUpdated);
         }
 
         logger.info('Loaded NSE symbols from cache', {
@@ -115,18 +117,20 @@ class NSECSVService {
   }
 
   /**
-   * Setup day change monitor that checks every hour for date changes
+   * Setup day change monitor that checks for a new day when the equity market
+   * opens, so holidays and weekends do not trigger a download
    */
   private setupDayChangeMonitor(): void {
-    // Check every hour for day changes
-    this.dayChangeMonitor = setInterval(async () => {
-      await this.checkForDayChange();
-    }, 60 * 60 * 1000); // 1 hour
+    this.unsubscribeMarketClock = marketClockService.onSessionChange(change => {
+      if (change.segment === 'EQUITY' && change.previousPhase === 'CLOSED') {
+        this.checkForDayChange();
+      }
+    });
 
     logger.info('Day change monitor started', {
       component: 'NSE_CSV_SERVICE',
       operation: 'SETUP_DAY_CHANGE_MONITOR',
-      intervalHours: 1
+      trigger: 'EQUITY_SESSION_START'
     });
   }
 
@@ -134,7 +138,7 @@ class NSECSVService {
    * Check if the day has changed and update data if needed
    */
   private async checkForDayChange(): Promise<void> {
-    const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
+    const today = toMarketDate(new Date());
 
     // If we have data and it's from a different day, update it
     if (this.lastDataDate && this.lastDataDate !== today) {
@@ -166,7 +170,7 @@ class NSECSVService {
       }
     } else if (!this.lastDataDate) {
       // Set initial date if not set
-      this.lastDataDate = today || null;
+      this.lastDataDate = today;
     }
   }
 
@@ -201,8 +205,12 @@ class NSECSVService {
    * Setup daily cron job to download NSE CSV
    */
   private setupDailyCron(): void {
-    // Run every day at 6:30 AM IST (after market close and before next day)
+    // Run at 6:30 AM IST on trading days, before the pre-open
     cron.schedule('30 6 * * *', async () => {
+      if (!marketClockService.isTradingDay()) {
+        return;
+      }
+
       logger.info('Daily NSE CSV update triggered', {
         component: 'NSE_CSV_SERVICE',
         operation: 'DAILY_CRON_TRIGGER'
@@ -331,7 +339,7 @@ class NSECSVService {
         .on('end', () => {
           this.symbols = symbols;
           this.lastUpdated = new Date();
-          this.lastDataDate = new Date().toISOString().split('T')[0] || null;
+          this.lastDataDate = toMarketDate(new Date());
           logger.info('Processed symbols from NSE CSV', {
             component: 'NSE_CSV_SERVICE',
             operation: 'PROCESS_CSV_COMPLETE',
@@ -415,7 +423,7 @@ class NSECSVService {
    * Get service statistics
    */
   getStats(): any {
-    const today = new Date().toISOString().split('T')[0];
+    const today = toMarketDate(new Date());
     return {
       service: 'NSE CSV Service',
       status: 'active',
@@ -429,8 +437,8 @@ class NSECSVService {
       isUpdating: this.isUpdating,
       csvFilePath: this.CSV_FILE_PATH,
       jsonFilePath: this.JSON_FILE_PATH,
-      nextUpdate: 'Daily at 6:30 AM IST',
-      dayChangeMonitor: 'Active (checks every hour)'
+      nextUpdate: 'Trading days at 6:30 AM IST',
+      dayChangeMonitor: this.unsubscribeMarketClock ? 'Active (checks when the equity market opens)' : 'Stopped'
     };
   }
 
@@ -438,9 +446,9 @@ class NSECSVService {
    * Cleanup resources
    */
   cleanup(): void {
-    if (this.dayChangeMonitor) {
-      clearInterval(this.dayChangeMonitor);
-      this.dayChangeMonitor = null;
+    if (this.unsubscribeMarketClock) {
+      this.unsubscribeMarketClock();
+      this.unsubscribeMarketClock = null;
       logger.info('Day change monitor stopped', {
         component: 'NSE_CSV_SERVICE',
         operation: 'CLEANUP'
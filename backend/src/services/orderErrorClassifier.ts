@@ -3,8 +3,10 @@
  * Classifies broker API errors and determines retry strategies
  */
 
+import { OrderErrorType } from '../interfaces/IDatabaseAdapter';
+
 export interface OrderErrorClassification {
-  errorType: 'NETWORK' | 'BROKER' | 'VALIDATION' | 'AUTH' | 'SYSTEM' | 'MARKET';
+  errorType: OrderErrorType;
   isRetryable: boolean;
   userMessage: string;
   retryDelay: number;
@@ -114,6 +116,20 @@ export class OrderErrorClassifier {
     };
   }
 
+  /**
+   * Classify an order blocked by the pre-trade risk checks
+   */
+  public classifyRiskViolation(message: string): OrderErrorClassification {
+    return {
+      errorType: 'RISK',
+      isRetryable: false,
+      userMessage: `Blocked by risk limits: ${message}`,
+      retryDelay: 0,
+      maxRetries: 0,
+      severity: 'MEDIUM'
+    };
+  }
+
   private isNetworkError(message: string): boolean {
     const networkKeywords = [
       'network', 'connection', 'timeout', 'unreachable',
@@ -296,6 +312,11 @@ export class OrderErrorClassifier {
         guidance.push('Check system status page for any ongoing issues');
         break;
 
+      case 'RISK':
+        guidance.push('Reduce the order size or pick a different symbol');
+        guidance.push('Review your risk limits in Settings');
+        break;
+
       default:
         guidance.push('Review order details and try again');
         guidance.push('Contact support if the issue continues');
@@ -321,6 +342,8 @@ export class OrderErrorClassifier {
         return classification.isRetryable ? 'Automatic retry in progress' : 'Contact broker for timeline';
       case 'SYSTEM':
         return 'Usually resolves within 5-10 minutes';
+      case 'RISK':
+        return 'Immediate after adjusting the order or risk limits';
       default:
         return 'Unknown - contact support';
     }
@@ -0,0 +1,724 @@
+import { userDatabase } from './databaseCompatibility';
+import { enhancedUnifiedBrokerManager } from './enhancedUnifiedBrokerManager';
+import orderStatusService from './orderStatusService';
+import { OrderErrorClassifier } from './orderErrorClassifier';
+import { orderRetryService } from './orderRetryService';
+import { riskManagementService, RiskViolation } from './riskManagementService';
+import { killSwitchService } from './killSwitchService';
+import { marketClockService } from './marketClockService';
+import { derivativesCSVService } from './derivativesCSVService';
+import { positionSizingService } from './positionSizingService';
+import { webhookService } from './webhookService';
+import { AccountFlattenFailure, ConnectedAccount, CreateOrderHistoryData, OrderHistory, OrderVariety } from '../interfaces/IDatabaseAdapter';
+import { normalizeMasterOrderBook } from '../utils/masterOrderNormalizer';
+import { getOpenPositions, normalizePositions } from '../utils/positionNormalizer';
+import { toOrderEventData } from '../utils/outboundWebhooks';
+
+/**
+ * Order Placement Service
+ * Shared order placement helpers used by the broker controller and by
+ * background engines (copy trading) that fan orders out to connected accounts.
+ */
+
+/**
+ * Unified order request template shared by every account in a fan-out
+ */
+export interface BaseOrderRequest {
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  orderType: 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET';
+  price?: number | undefined;
+  triggerPrice?: number | undefined;
+  exchange: string;
+  productType?: string | undefined;
+  validity?: 'DAY' | 'IOC' | 'GTD';
+  variety?: OrderVariety | undefined; // REGULAR when omitted
+  remarks: string;
+}
+
+/**
+ * Extra order history fields that link a placed order back to where it came from
+ */
+export type OrderHistoryLinkage = Pick<CreateOrderHistoryData, 'source' | 'parent_broker_order_id' | 'master_account_id' | 'strategy_order_id' | 'strategy_leg'>;
+
+/**
+ * Placement behaviour switches
+ */
+export interface PlaceOrderOptions {
+  // Skip the market session, kill switch and risk checks - only for square-off orders
+  bypassPreTradeChecks?: boolean;
+}
+
+/**
+ * How an account is flattened: which orders and positions are touched and how
+ * the closing orders are tagged
+ */
+export interface FlattenAccountOptions {
+  cancelOrders: boolean;
+  squareOff: boolean;
+  productTypes?: string[] | undefined; // only orders and positions of these products, all when omitted
+  source: NonNullable<OrderHistoryLinkage['source']>;
+  remarks: string;
+  retryAttempts?: number | undefined; // immediate retries of a failed square-off order
+}
+
+export interface AccountFlattenResult {
+  cancelledOrders: number;
+  squaredOffPositions: number;
+  retriedOrders: number;
+  failures: AccountFlattenFailure[];
+}
+
+const SQUARE_OFF_RETRY_DELAY = 2000;
+
+/**
+ * Per-account result of an order placement attempt
+ */
+export interface AccountOrderResult {
+  accountId: string;
+  brokerName: string;
+  accountDisplayName: string;
+  quantity?: number;
+  orderId?: string;
+  orderHistoryId?: string;
+  message?: string;
+  error?: string;
+  errorType?: string;
+  suggestedVariety?: OrderVariety; // set on MARKET_CLOSED when the order could be queued as an AMO instead
+  riskViolations?: RiskViolation[];
+}
+
+// Broker Account Cache: Maps broker account IDs to user IDs and broker info
+interface BrokerAccountMapping {
+  userId: string;
+  brokerName: string;
+  accountId: string;
+  userDisplayName: string;
+}
+
+const brokerAccountCache = new Map<string, BrokerAccountMapping>();
+
+// Cache Management Functions
+export const addToBrokerAccountCache = (accountId: string, userId: string, brokerName: string, userDisplayName: string) => {
+  brokerAccountCache.set(accountId, {
+    userId,
+    brokerName,
+    accountId,
+    userDisplayName
+  });
+  console.log(`📝 Added to broker cache: ${accountId} -> User ${userId} (${brokerName})`);
+};
+
+export const removeFromBrokerAccountCache = (accountId: string) => {
+  const removed = brokerAccountCache.delete(accountId);
+  if (removed) {
+    console.log(`🗑️ Removed from broker cache: ${accountId}`);
+  }
+};
+
+/**
+ * Helper function to place order using unified broker manager
+ */
+export async function placeBrokerOrder(
+  userId: string,
+  brokerName: string,
+  databaseAccountId: string,
+  orderRequest: any
+): Promise<any> {
+  try {
+    // Get account details from database to find the broker's account ID
+    const account = await userDatabase.getConnectedAccountById(databaseAccountId);
+    if (!account) {
+      throw new Error(`Account ${databaseAccountId} not found in database`);
+    }
+
+    // Use the broker's account ID (not the database account ID) for the connection lookup
+    const brokerAccountId = account.account_id;
+    const brokerService = enhancedUnifiedBrokerManager.getBrokerService(userId, brokerName, brokerAccountId);
+
+    if (!brokerService) {
+      throw new Error(`No active connection found for ${brokerName} account ${brokerAccountId} (database ID: ${databaseAccountId})`);
+    }
+
+    return await brokerService.placeOrder(orderRequest);
+  } catch (error) {
+    console.error(`🚨 Order placement failed for ${brokerName}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Auto-reactivate account if session is expired
+ * Returns true if account is active/reactivated, false if reactivation failed
+ */
+export async function ensureAccountActive(userId: string, accountId: string): Promise<boolean> {
+  try {
+    console.log(`🔄 Ensuring account ${accountId} is active for user ${userId}`);
+
+    // Get account details from database
+    const account = await userDatabase.getConnectedAccountById(accountId);
+    if (!account) {
+      console.log(`❌ Account ${accountId} not found in database`);
+      return false;
+    }
+
+    // Check if connection exists using enhanced unified broker manager
+    const existingConnection = enhancedUnifiedBrokerManager.getConnection(userId, account.broker_name, account.account_id);
+
+    if (existingConnection) {
+      // Test if existing connection is still valid
+      try {
+        // Get credentials for validation
+        const credentials = await userDatabase.getAccountCredentials(account.id);
+
+        const validationResult = await enhancedUnifiedBrokerManager.validateSession(
+          userId,
+          account.broker_name,
+          account.account_id,
+          credentials
+        );
+
+        if (validationResult.isValid) {
+          console.log(`✅ Account ${accountId} session is already valid`);
+          return true;
+        } else {
+          console.log(`⚠️ Account ${accountId} session is invalid, removing connection`);
+          await enhancedUnifiedBrokerManager.disconnect(userId, account.broker_name, account.account_id);
+        }
+      } catch (error: any) {
+        console.log(`⚠️ Session validation failed for ${accountId}:`, error.message);
+        await enhancedUnifiedBrokerManager.disconnect(userId, account.broker_name, account.account_id);
+      }
+    }
+
+    // Auto-reactivate the account
+    console.log(`🔄 Auto-reactivating account ${accountId}...`);
+
+    // Get decrypted credentials
+    const credentials = await userDatabase.getAccountCredentials(accountId);
+    if (!credentials) {
+      console.log(`❌ Failed to retrieve credentials for account ${accountId}`);
+      return false;
+    }
+
+    // Actually connect to the broker through enhanced unified broker manager
+    try {
+      console.log(`🔄 Connecting to ${account.broker_name} for account ${accountId}...`);
+
+      // Connect to broker using enhanced unified broker manager
+      const connectionResult = await enhancedUnifiedBrokerManager.connectToBroker(
+        userId,
+        account.broker_name,
+        credentials
+      );
+
+      if (connectionResult.success) {
+        // Add to broker account cache for fast lookups
+        addToBrokerAccountCache(
+          account.account_id, // broker account ID
+          userId, // user ID
+          account.broker_name, // broker name
+          account.user_name // user display name
+        );
+
+        console.log(`✅ Successfully auto-reactivated ${account.broker_name} account ${accountId}`);
+        return true;
+      } else {
+        console.log(`❌ Failed to connect to ${account.broker_name}: ${connectionResult.message}`);
+        return false;
+      }
+    } catch (error: any) {
+      console.log(`❌ Failed to auto-reactivate ${account.broker_name} account ${accountId}:`, error.message);
+      return false;
+    }
+  } catch (error: any) {
+    console.error(`🚨 Auto-reactivation failed for account ${accountId}:`, error.message);
+    return false;
+  }
+}
+
+// Helper function to handle failed order processing
+export async function handleFailedOrder(
+  userId: string,
+  account: any,
+  orderResponse: any,
+  baseOrderRequest: any,
+  linkage: OrderHistoryLinkage = {}
+): Promise<OrderHistory | null> {
+  try {
+    const errorClassifier = OrderErrorClassifier.getInstance();
+    const errorClassification = orderResponse.data?.errorType === 'RISK_VIOLATION'
+      ? errorClassifier.classifyRiskViolation(orderResponse.message)
+      : errorClassifier.classifyFyersError({
+        message: orderResponse.message,
+        code: orderResponse.data?.errorCode,
+        s: orderResponse.data?.s
+      });
+
+    // Generate a unique broker order ID for failed orders
+    const failedOrderId = `FAILED_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+
+    const orderHistoryData = {
+      user_id: userId,
+      account_id: account.id.toString(),
+      broker_name: account.broker_name,
+      broker_order_id: failedOrderId,
+      symbol: baseOrderRequest.symbol,
+      action: baseOrderRequest.action as 'BUY' | 'SELL',
+      quantity: baseOrderRequest.quantity,
+      price: baseOrderRequest.price || 0,
+      order_type: baseOrderRequest.orderType as 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET',
+      variety: baseOrderRequest.variety || 'REGULAR',
+      status: 'FAILED' as const,
+      exchange: baseOrderRequest.exchange || 'NSE',
+      product_type: baseOrderRequest.productType,
+      remarks: `Failed: ${orderResponse.message}`,
+      executed_at: new Date().toISOString(),
+      // Error details
+      error_message: orderResponse.message,
+      error_code: orderResponse.data?.errorCode || orderResponse.data?.s,
+      error_type: errorClassification.errorType,
+      failure_reason: errorClassification.userMessage,
+      is_retryable: errorClassification.isRetryable,
+      retry_count: 0,
+      max_retries: errorClassification.maxRetries,
+      ...linkage
+    };
+
+    const savedOrder = await userDatabase.createOrderHistory(orderHistoryData);
+    console.log(`💾 Failed order saved to history: ${failedOrderId} for ${account.broker_name}`);
+
+    webhookService.publish(userId, 'order.rejected', toOrderEventData(savedOrder, { reason: errorClassification.userMessage }));
+
+    // Schedule automatic retry if retryable
+    if (errorClassification.isRetryable && errorClassification.maxRetries > 0) {
+      const retryDelay = errorClassifier.calculateRetryDelay(errorClassification.retryDelay, 0);
+      await orderRetryService.scheduleAutoRetry(savedOrder.id.toString(), retryDelay);
+      console.log(`⏰ Scheduled auto-retry for failed order ${failedOrderId} in ${retryDelay}ms`);
+    }
+
+    return savedOrder;
+  } catch (historyError: any) {
+    console.error(`⚠️ Failed to save failed order history for ${account.broker_name}:`, historyError.message);
+    return null;
+  }
+}
+
+// Helper function to handle successful order processing
+export async function handleSuccessfulOrder(
+  userId: string,
+  account: any,
+  orderResponse: any,
+  baseOrderRequest: any,
+  linkage: OrderHistoryLinkage = {}
+): Promise<OrderHistory | null> {
+  try {
+    // Save order to history with PLACED status, or AMO_PLACED while it waits for the next session
+    const status = baseOrderRequest.variety === 'AMO' ? 'AMO_PLACED' as const : 'PLACED' as const;
+    const orderHistoryData = {
+      user_id: userId,
+      account_id: account.id.toString(),
+      broker_name: account.broker_name,
+      broker_order_id: orderResponse.data?.brokerOrderId || orderResponse.data?.orderId,
+      symbol: baseOrderRequest.symbol,
+      action: baseOrderRequest.action,
+      quantity: baseOrderRequest.quantity,
+      price: baseOrderRequest.price || 0,
+      order_type: baseOrderRequest.orderType,
+      variety: baseOrderRequest.variety || 'REGULAR',
+      status,
+      exchange: baseOrderRequest.exchange,
+      product_type: baseOrderRequest.productType,
+      remarks: baseOrderRequest.remarks,
+      executed_at: new Date().toISOString(),
+      ...linkage
+    };
+
+    const savedOrder = await userDatabase.createOrderHistory(orderHistoryData);
+    const orderId = orderResponse.data?.brokerOrderId || orderResponse.data?.orderId;
+    console.log(`✅ Order placed and saved to history for ${account.broker_name}:`, orderId);
+
+    // Add order to real-time monitoring
+    const orderForMonitoring = {
+      id: savedOrder.id.toString(),
+      user_id: userId,
+      account_id: account.id.toString(),
+      symbol: baseOrderRequest.symbol,
+      action: baseOrderRequest.action,
+      quantity: baseOrderRequest.quantity,
+      price: baseOrderRequest.price || 0,
+      status,
+      broker_name: account.broker_name,
+      broker_order_id: orderId,
+      order_type: baseOrderRequest.orderType,
+      exchange: baseOrderRequest.exchange,
+      product_type: baseOrderRequest.productType,
+      remarks: baseOrderRequest.remarks,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+
+    await orderStatusService.addOrderToMonitoring(orderForMonitoring);
+    console.log(`📊 Order added to real-time monitoring for ${account.broker_name}:`, orderId);
+
+    webhookService.publish(userId, 'order.placed', toOrderEventData(savedOrder));
+
+    return savedOrder;
+  } catch (historyError: any) {
+    console.error(`⚠️ Failed to save order history for ${account.broker_name}:`, historyError.message);
+    // Don't throw error as the order was placed successfully
+    return null;
+  }
+}
+
+/**
+ * Place an order on a single connected account.
+ * Reactivates the account if needed, retries once on session expiry and
+ * records the outcome in order history.
+ */
+export async function placeOrderOnAccount(
+  userId: string,
+  account: any,
+  baseOrderRequest: BaseOrderRequest,
+  linkage: OrderHistoryLinkage = {},
+  options: PlaceOrderOptions = {}
+): Promise<{ success: boolean; result: AccountOrderResult }> {
+  // A workspace member may place the order, but it always runs as the account's
+  // owner: their broker session, kill switch, risk limits and order history apply
+  const ownerId = account.user_id ? account.user_id.toString() : userId;
+  const accountRef = {
+    accountId: account.id.toString(),
+    brokerName: account.broker_name,
+    accountDisplayName: `${account.broker_name} (${account.account_id})`,
+    quantity: baseOrderRequest.quantity
+  };
+
+  try {
+    console.log(`🔄 Placing order on ${account.broker_name} account ${account.account_id}...`);
+
+    // Futures and options must be ordered in whole lots; sized quantities may not be
+    const lotSizeError = derivativesCSVService.validateOrderQuantity(baseOrderRequest.exchange, baseOrderRequest.symbol, baseOrderRequest.quantity);
+    if (lotSizeError) {
+      console.warn(`🛑 Order rejected for ${account.account_id}: ${lotSizeError}`);
+      return { success: false, result: { ...accountRef, error: lotSizeError, errorType: 'LOT_SIZE_VIOLATION' } };
+    }
+
+    // Market orders need a live session and AMOs a closed one; the broker would reject or queue them otherwise
+    const variety = baseOrderRequest.variety || 'REGULAR';
+    const sessionError = options.bypassPreTradeChecks
+      ? null
+      : marketClockService.getOrderSessionError(baseOrderRequest.exchange, baseOrderRequest.orderType, variety);
+    if (sessionError) {
+      console.warn(`🛑 Order rejected for ${account.account_id}: ${sessionError}`);
+      const suggestAmo = variety === 'REGULAR' && marketClockService.isAmoWindow(baseOrderRequest.exchange);
+      return {
+        success: false,
+        result: { ...accountRef, error: sessionError, errorType: 'MARKET_CLOSED', ...(suggestAmo && { suggestedVariety: 'AMO' as const }) }
+      };
+    }
+
+    // Nothing new goes out while a kill switch covers the account
+    const killSwitch = options.bypassPreTradeChecks ? null : await killSwitchService.getBlockingSwitch(ownerId, account.id.toString());
+    if (killSwitch) {
+      const error = killSwitchService.getBlockedMessage(killSwitch);
+      console.warn(`🛑 Order blocked by kill switch for ${account.account_id}`);
+      return { success: false, result: { ...accountRef, error, errorType: 'KILL_SWITCH_ACTIVE' } };
+    }
+
+    // Pre-trade risk checks run before anything is sent to the broker
+    const riskCheck = options.bypassPreTradeChecks
+      ? { allowed: true, violations: [] }
+      : await riskManagementService.checkOrder(ownerId, account.id.toString(), baseOrderRequest);
+    if (!riskCheck.allowed) {
+      const error = riskCheck.violations.map(violation => violation.message).join('; ');
+      console.warn(`🛑 Order blocked by risk limits for ${account.account_id}: ${error}`);
+      const failedOrder = await handleFailedOrder(ownerId, account, {
+        success: false,
+        message: error,
+        data: { errorType: 'RISK_VIOLATION' }
+      }, baseOrderRequest, linkage);
+      return {
+        success: false,
+        result: {
+          ...accountRef,
+          ...(failedOrder && { orderHistoryId: failedOrder.id.toString() }),
+          error,
+          errorType: 'RISK_VIOLATION',
+          riskViolations: riskCheck.violations
+        }
+      };
+    }
+
+    // Ensure account is active (auto-reactivate if needed)
+    const isAccountActive = await ensureAccountActive(ownerId, account.id.toString());
+    if (!isAccountActive) {
+      const error = `Failed to activate ${account.broker_name} account ${account.account_id}`;
+      console.error(`❌ ${error}`);
+      return { success: false, result: { ...accountRef, error, errorType: 'ACTIVATION_FAILED' } };
+    }
+
+    // Create account-specific order request
+    const orderRequest = {
+      ...baseOrderRequest,
+      accountId: account.account_id,
+      remarks: `${baseOrderRequest.remarks} - Account: ${account.account_id}`
+    };
+
+    // Place order using unified broker interface
+    const orderResponse = await placeBrokerOrder(ownerId, account.broker_name, account.id.toString(), orderRequest);
+
+    // Handle session expiry with auto-retry
+    if (!orderResponse.success && orderResponse.data?.errorType === 'SESSION_EXPIRED') {
+      console.log(`🔄 Session expired during order placement for ${account.account_id}. Attempting auto-reactivation...`);
+
+      const reactivated = await ensureAccountActive(ownerId, account.id.toString());
+      if (!reactivated) {
+        return {
+          success: false,
+          result: { ...accountRef, error: 'Session expired and auto-reactivation failed', errorType: 'SESSION_EXPIRED' }
+        };
+      }
+
+      console.log(`✅ Auto-reactivation successful for ${account.account_id}. Retrying order placement...`);
+      const retryResponse = await placeBrokerOrder(ownerId, account.broker_name, account.id.toString(), orderRequest);
+
+      if (!retryResponse.success) {
+        return {
+          success: false,
+          result: { ...accountRef, error: retryResponse.message || 'Order placement failed after retry', errorType: 'ORDER_FAILED' }
+        };
+      }
+
+      const savedOrder = await handleSuccessfulOrder(ownerId, account, retryResponse, baseOrderRequest, linkage);
+      return {
+        success: true,
+        result: {
+          ...accountRef,
+          orderId: retryResponse.data?.brokerOrderId || retryResponse.data?.orderId,
+          ...(savedOrder && { orderHistoryId: savedOrder.id.toString() }),
+          message: retryResponse.message || 'Order placed successfully'
+        }
+      };
+    }
+
+    if (orderResponse.success) {
+      // Order placed successfully
+      const savedOrder = await handleSuccessfulOrder(ownerId, account, orderResponse, baseOrderRequest, linkage);
+      return {
+        success: true,
+        result: {
+          ...accountRef,
+          orderId: orderResponse.data?.brokerOrderId || orderResponse.data?.orderId,
+          ...(savedOrder && { orderHistoryId: savedOrder.id.toString() }),
+          message: orderResponse.message || 'Order placed successfully'
+        }
+      };
+    }
+
+    // Order placement failed - save to database with error details
+    const failedOrder = await handleFailedOrder(ownerId, account, orderResponse, baseOrderRequest, linkage);
+    return {
+      success: false,
+      result: {
+        ...accountRef,
+        ...(failedOrder && { orderHistoryId: failedOrder.id.toString() }),
+        error: orderResponse.message || 'Order placement failed',
+        errorType: 'ORDER_FAILED'
+      }
+    };
+  } catch (error: any) {
+    console.error(`🚨 Order placement error for ${account.broker_name} account ${account.account_id}:`, error);
+
+    // Save failed order to database with error details
+    const failedOrder = await handleFailedOrder(ownerId, account, {
+      success: false,
+      message: error.message || 'Unexpected error during order placement',
+      data: { errorType: 'SYSTEM_ERROR' }
+    }, baseOrderRequest, linkage);
+
+    return {
+      success: false,
+      result: {
+        ...accountRef,
+        ...(failedOrder && { orderHistoryId: failedOrder.id.toString() }),
+        error: error.message || 'Unexpected error during order placement',
+        errorType: 'SYSTEM_ERROR'
+      }
+    };
+  }
+}
+
+/**
+ * Place orders on several connected accounts, one after another.
+ * Each account gets its own request so quantities can differ per account.
+ */
+export async function placeOrderOnAccounts(
+  userId: string,
+  accountOrders: Array<{ account: any; orderRequest: BaseOrderRequest }>,
+  linkage: OrderHistoryLinkage = {}
+): Promise<{ successfulOrders: AccountOrderResult[]; failedOrders: AccountOrderResult[] }> {
+  const successfulOrders: AccountOrderResult[] = [];
+  const failedOrders: AccountOrderResult[] = [];
+
+  for (const { account, orderRequest } of accountOrders) {
+    const { success, result } = await placeOrderOnAccount(userId, account, orderRequest, linkage);
+    if (success) {
+      successfulOrders.push(result);
+    } else {
+      failedOrders.push(result);
+    }
+  }
+
+  return { successfulOrders, failedOrders };
+}
+
+/**
+ * Size one order for each account with its sizing rule and place it on every
+ * account. Accounts whose sized quantity is zero are reported as failed
+ * without being sent. This is the multi-account order fan-out.
+ */
+export async function placeSizedOrderOnAccounts(
+  userId: string,
+  accounts: any[],
+  baseOrderRequest: BaseOrderRequest,
+  linkage: OrderHistoryLinkage = {}
+): Promise<{ successfulOrders: AccountOrderResult[]; failedOrders: AccountOrderResult[] }> {
+  const accountSizings = await positionSizingService.sizeForAccounts(accounts, baseOrderRequest);
+
+  const accountOrders = [];
+  const skippedOrders: AccountOrderResult[] = [];
+  for (const { account, sizing } of accountSizings) {
+    if (sizing.quantity <= 0) {
+      skippedOrders.push({
+        accountId: account.id.toString(),
+        brokerName: account.broker_name,
+        accountDisplayName: `${account.broker_name} (${account.account_id})`,
+        quantity: 0,
+        error: sizing.note || 'Computed quantity is zero',
+        errorType: 'SIZING_ZERO_QUANTITY'
+      });
+      continue;
+    }
+    accountOrders.push({ account, orderRequest: { ...baseOrderRequest, quantity: sizing.quantity } });
+  }
+
+  const placementResult = await placeOrderOnAccounts(userId, accountOrders, linkage);
+  return {
+    successfulOrders: placementResult.successfulOrders,
+    failedOrders: [...skippedOrders, ...placementResult.failedOrders]
+  };
+}
+
+/**
+ * Cancel an account's open orders and close its open positions with market
+ * orders. Closing orders skip the kill switch and risk checks since they only
+ * reduce exposure. Broker failures are collected instead of aborting the rest.
+ */
+export async function flattenAccount(
+  userId: string,
+  account: ConnectedAccount,
+  options: FlattenAccountOptions
+): Promise<AccountFlattenResult> {
+  const accountId = account.id.toString();
+  const result: AccountFlattenResult = { cancelledOrders: 0, squaredOffPositions: 0, retriedOrders: 0, failures: [] };
+  const fail = (operation: AccountFlattenFailure['operation'], message: string, reference?: string) =>
+    result.failures.push({ account_id: accountId, operation, message, ...(reference && { reference }) });
+  const matchesProduct = (productType: string) => !options.productTypes || options.productTypes.includes(productType);
+
+  const isAccountActive = await ensureAccountActive(userId, accountId);
+  const brokerService = isAccountActive
+    ? enhancedUnifiedBrokerManager.getBrokerService(userId, account.broker_name, account.account_id)
+    : null;
+  if (!brokerService) {
+    fail('ACTIVATE_ACCOUNT', `Failed to activate ${account.broker_name} account ${account.account_id}`);
+    return result;
+  }
+
+  if (options.cancelOrders) {
+    try {
+      const orderBook = await brokerService.getOrderHistory(account.account_id);
+      const openOrders = normalizeMasterOrderBook(account.broker_name, orderBook)
+        .filter(order => order.state === 'OPEN' && matchesProduct(order.productType));
+
+      for (const order of openOrders) {
+        try {
+          const cancelResult = await brokerService.cancelOrder(order.brokerOrderId);
+          if (!cancelResult?.success) {
+            fail('CANCEL_ORDER', cancelResult?.message || 'Order cancellation failed', order.brokerOrderId);
+            continue;
+          }
+          result.cancelledOrders++;
+          await userDatabase.updateOrderStatusByBrokerOrderId(order.brokerOrderId, 'CANCELLED');
+        } catch (error: any) {
+          fail('CANCEL_ORDER', error.message || 'Order cancellation failed', order.brokerOrderId);
+        }
+      }
+    } catch (error: any) {
+      fail('FETCH_ORDERS', error.message || 'Failed to fetch open orders');
+    }
+  }
+
+  if (!options.squareOff) {
+    return result;
+  }
+
+  try {
+    const positions = getOpenPositions(normalizePositions(account.broker_name, await brokerService.getPositions(account.account_id)))
+      .filter(position => matchesProduct(position.productType));
+
+    for (const position of positions) {
+      const orderRequest: BaseOrderRequest = {
+        symbol: position.symbol,
+        action: position.quantity > 0 ? 'SELL' : 'BUY',
+        quantity: Math.abs(position.quantity),
+        orderType: 'MARKET',
+        exchange: position.exchange,
+        productType: position.productType,
+        validity: 'DAY',
+        remarks: options.remarks
+      };
+
+      const { success, result: orderResult } = await placeOrderOnAccount(userId, account, orderRequest, { source: options.source }, {
+        bypassPreTradeChecks: true
+      });
+      if (success) {
+        result.squaredOffPositions++;
+        continue;
+      }
+
+      const retry = orderResult.orderHistoryId && options.retryAttempts
+        ? await retrySquareOff(userId, orderResult.orderHistoryId, options.retryAttempts)
+        : null;
+      if (retry?.success) {
+        result.squaredOffPositions++;
+        result.retriedOrders++;
+      } else {
+        fail('SQUARE_OFF', retry?.message || orderResult.error || 'Square-off order failed', position.symbol);
+      }
+    }
+  } catch (error: any) {
+    fail('FETCH_POSITIONS', error.message || 'Failed to fetch open positions');
+  }
+
+  return result;
+}
+
+/**
+ * Retry a failed square-off order straight away rather than on the usual
+ * back-off, which could land after the broker's own square-off
+ */
+async function retrySquareOff(userId: string, orderHistoryId: string, attempts: number): Promise<{ success: boolean; message: string }> {
+  orderRetryService.cancelScheduledRetry(orderHistoryId);
+
+  let last = { success: false, message: 'Square-off order failed' };
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    await new Promise(resolve => setTimeout(resolve, SQUARE_OFF_RETRY_DELAY));
+    const retryResult = await orderRetryService.retryOrder(orderHistoryId, userId, { bypassPreTradeChecks: true });
+    last = { success: retryResult.success, message: retryResult.message };
+    if (retryResult.success || retryResult.isRetryable === false) {
+      break;
+    }
+  }
+  return last;
+}
@@ -6,8 +6,14 @@
 import { userDatabase } from './databaseCompatibility';
 import { enhancedUnifiedBrokerManager } from './enhancedUnifiedBrokerManager';
 import { OrderErrorClassifier } from './orderErrorClassifier';
+import { killSwitchService } from './killSwitchService';
+import { accountAccessService } from './accountAccessService';
 import { logger } from '../utils/logger';
-import { OrderHistory } from '../interfaces/IDatabaseAdapter';
+import { OrderHistory, OrderSource } from '../interfaces/IDatabaseAdapter';
+import type { PlaceOrderOptions } from './orderPlacementService';
+
+// Orders that close positions, which the kill switch must never hold back
+const SQUARE_OFF_SOURCES: OrderSource[] = ['KILL_SWITCH', 'SQUARE_OFF'];
 
 export interface RetryResult {
   success: boolean;
@@ -35,9 +41,10 @@ export class OrderRetryService {
   }
 
   /**
-   * Retry a failed order manually
+   * Retry a failed order manually. Square-off orders, or any order retried
+   * with bypassPreTradeChecks, skip the kill switch like their first attempt.
    */
-  async retryOrder(orderId: string, userId: string): Promise<RetryResult> {
+  async retryOrder(orderId: string, userId: string, options: PlaceOrderOptions = {}): Promise<RetryResult> {
     try {
       // Get order from database
       const order = await userDatabase.getOrderHistoryById(orderId);
@@ -48,8 +55,8 @@ export class OrderRetryService {
         };
       }
 
-      // Verify order belongs to user
-      if (order.user_id.toString() !== userId) {
+      // The account's owner or a workspace member who may trade it
+      if (!await accountAccessService.checkAccess(userId, order.account_id.toString(), 'TRADE')) {
         return {
           success: false,
           message: 'Access denied'
@@ -65,6 +72,20 @@ export class OrderRetryService {
         };
       }
 
+      // Retries are new orders as far as the kill switch is concerned
+      const bypassPreTradeChecks = options.bypassPreTradeChecks || (!!order.source && SQUARE_OFF_SOURCES.includes(order.source));
+      const killSwitch = bypassPreTradeChecks
+        ? null
+        : await killSwitchService.getBlockingSwitch(order.user_id.toString(), order.account_id.toString());
+      if (killSwitch) {
+        return {
+          success: false,
+          message: killSwitchService.getBlockedMessage(killSwitch),
+          retryCount: order.retry_count || 0,
+          isRetryable: true
+        };
+      }
+
       // Check retry limits
       const currentRetryCount = order.retry_count || 0;
       const maxRetries = order.max_retries || 3;
@@ -1,6 +1,6 @@
 import { EventEmitter } from 'events';
 import { userDatabase } from './databaseCompatibility';
-import { BrokerRegistry, IBrokerService, IUnifiedBrokerService } from '@copytrade/unified-broker';
+import { BrokerRegistry, IBrokerService, IUnifiedBrokerService, OrderUpdateEvent } from '@copytrade/unified-broker';
 import { notificationService, OrderNotificationData } from './notificationService';
 
 // Import enhanced unified broker manager
@@ -12,6 +12,22 @@ import websocketService from './websocketService';
 // Import enhanced logging for order status operations
 import { orderStatusLogger, OrderStatusLogContext } from './orderStatusLogger';
 
+import { OrderHistory } from '../interfaces/IDatabaseAdapter';
+import { MasterOrderSnapshot, normalizeMasterOrderBook } from '../utils/masterOrderNormalizer';
+import { OrderStatusChange, getMarketPhase, getOrderStatusChange, getReconcileDelay } from '../utils/orderReconciliation';
+import { marketClockService } from './marketClockService';
+import { webhookService } from './webhookService';
+import { accountAccessService } from './accountAccessService';
+import { getOrderStatusEvent, toOrderEventData } from '../utils/outboundWebhooks';
+
+// Minimum gap between order book calls to the same broker, across all its accounts
+const BROKER_ORDER_BOOK_GAP_MS: { [brokerName: string]: number } = {
+  shoonya: 1000,
+  fyers: 1000,
+  paper: 0
+};
+const DEFAULT_ORDER_BOOK_GAP_MS = 1000;
+
 // Broker connection manager interface
 interface BrokerConnectionManager {
   getBrokerConnection(userId: string, brokerName: string): IUnifiedBrokerService | null;
@@ -90,8 +106,14 @@ class OrderStatusService extends EventEmitter {
   private pollingIntervals: Map<string, NodeJS.Timeout> = new Map();
   private activeOrders: Map<string, Order> = new Map();
   private isPolling: boolean = false;
-  private pollingFrequency: number = 30000; // 30 seconds for production (fallback only)
+  private pollingFrequency: number = parseInt(process.env.ORDER_SYNC_INTERVAL_MS || '') || 15000; // while the market is open
+  private quietPollingFrequency: number = parseInt(process.env.ORDER_SYNC_QUIET_INTERVAL_MS || '') || 60000; // pre-open and after close
   private maxRetries: number = 3;
+  private reconcileTimer: NodeJS.Timeout | null = null;
+  private lastReconcileAt: Date | null = null;
+  private nextReconcileAt: Date | null = null;
+  private lastBrokerCallAt: Map<string, number> = new Map();
+  private streamingAccounts: Set<string> = new Set(); // accounts with a live order-update stream
 
   constructor() {
     super();
@@ -104,29 +126,231 @@ class OrderStatusService extends EventEmitter {
 
 
   /**
-   * Start monitoring order status (manual refresh only)
+   * Start the background sync of open orders with the broker order books.
+   * It runs every few seconds while the market is open, slower around the
+   * session and sleeps from shortly after close until the next pre-open.
    */
   async startMonitoring(): Promise<void> {
-    logger.info('Order status monitoring initialized (manual refresh only)');
+    if (this.isPolling) {
+      return;
+    }
 
-    try {
-      // Get all pending orders from database for initial count
-      const pendingOrders = await this.getPendingOrders();
-      logger.info(`Found ${pendingOrders.length} orders available for manual status checking`);
+    this.isPolling = true;
+    logger.info('Order status reconciliation started', {
+      openInterval: this.pollingFrequency,
+      quietInterval: this.quietPollingFrequency,
+      marketPhase: getMarketPhase(new Date(), marketClockService.getCalendar())
+    });
+    await this.runReconcileCycle();
+  }
 
-      this.isPolling = false; // No automatic polling
-      logger.info('Order status monitoring ready - use manual refresh buttons for updates');
+  private scheduleNextCycle(): void {
+    if (!this.isPolling) {
+      return;
+    }
 
+    const delay = getReconcileDelay(new Date(), {
+      open: this.pollingFrequency,
+      quiet: this.quietPollingFrequency
+    }, marketClockService.getCalendar());
+    this.nextReconcileAt = new Date(Date.now() + delay);
+    this.reconcileTimer = setTimeout(() => {
+      this.runReconcileCycle().catch(error => logger.error('Order status reconciliation cycle failed:', error));
+    }, delay);
+  }
+
+  private async runReconcileCycle(): Promise<void> {
+    try {
+      if (getMarketPhase(new Date(), marketClockService.getCalendar()) !== 'CLOSED') {
+        await this.reconcileOpenOrders();
+      }
     } catch (error) {
-      logger.error('Failed to initialize order monitoring:', error);
+      logger.error('Failed to reconcile open orders:', error);
+    } finally {
+      this.scheduleNextCycle();
     }
   }
 
+  /**
+   * Sync every open order with its broker. Orders are batched per account so
+   * each account costs one order book call per cycle.
+   */
+  async reconcileOpenOrders(): Promise<{ accountsChecked: number; ordersUpdated: number }> {
+    const openOrders = await userDatabase.getOpenOrders();
+    const ordersByAccount = new Map<string, OrderHistory[]>();
+    for (const order of openOrders) {
+      const accountId = order.account_id.toString();
+      ordersByAccount.set(accountId, [...(ordersByAccount.get(accountId) || []), order]);
+    }
+
+    let accountsChecked = 0;
+    let ordersUpdated = 0;
+    for (const [accountId, orders] of ordersByAccount) {
+      if (!this.isPolling) {
+        break;
+      }
+      if (this.streamingAccounts.has(accountId)) {
+        // Updates arrive over the account's order stream
+        continue;
+      }
+
+      const orderBook = await this.getAccountOrderBook(accountId, orders[0]!);
+      if (!orderBook) {
+        continue;
+      }
+      accountsChecked++;
 
+      for (const order of orders) {
+        const snapshot = order.broker_order_id ? orderBook.get(order.broker_order_id) : undefined;
+        const change = snapshot ? getOrderStatusChange(order, snapshot) : null;
+        if (change && await this.applyStatusChange(order, change)) {
+          ordersUpdated++;
+        }
+      }
+    }
 
+    this.lastReconcileAt = new Date();
+    if (openOrders.length > 0) {
+      logger.info('Order status reconciliation completed', {
+        openOrders: openOrders.length,
+        accountsChecked,
+        ordersUpdated
+      });
+    }
+    return { accountsChecked, ordersUpdated };
+  }
 
+  /**
+   * Mark an account's order stream as live or down. Polling skips accounts
+   * while their stream is live and takes over again when it drops.
+   */
+  setAccountStreaming(accountId: string, streaming: boolean): void {
+    if (streaming) {
+      this.streamingAccounts.add(accountId);
+    } else {
+      this.streamingAccounts.delete(accountId);
+    }
+  }
 
+  /**
+   * Apply an order update pushed by a broker order stream
+   */
+  async applyStreamUpdate(update: OrderUpdateEvent): Promise<boolean> {
+    const order = await userDatabase.getOrderHistoryByBrokerOrderId(update.brokerOrderId);
+    if (!order || order.broker_name !== update.brokerName) {
+      // Placed outside the app, or not recorded yet
+      return false;
+    }
 
+    const executedQuantity = update.executionData.executedQuantity ?? (order.executed_quantity || 0);
+    if (update.status === order.status && executedQuantity === (order.executed_quantity || 0)) {
+      return false;
+    }
+
+    return this.applyStatusChange(order, {
+      status: update.status,
+      executedQuantity,
+      ...(update.executionData.averagePrice && { averagePrice: update.executionData.averagePrice }),
+      ...(update.executionData.rejectionReason && { rejectionReason: update.executionData.rejectionReason })
+    });
+  }
+
+  /**
+   * Fetch an account's order book, waiting out the broker's rate limit first
+   */
+  private async getAccountOrderBook(accountId: string, sample: OrderHistory): Promise<Map<string, MasterOrderSnapshot> | null> {
+    try {
+      const account = await userDatabase.getConnectedAccountById(accountId);
+      const brokerService = account
+        ? enhancedUnifiedBrokerManager.getBrokerService(sample.user_id.toString(), account.broker_name, account.account_id)
+        : null;
+      if (!account || !brokerService) {
+        // Not connected right now; the orders are picked up once it is
+        return null;
+      }
+
+      const gap = BROKER_ORDER_BOOK_GAP_MS[account.broker_name] ?? DEFAULT_ORDER_BOOK_GAP_MS;
+      const wait = (this.lastBrokerCallAt.get(account.broker_name) || 0) + gap - Date.now();
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      this.lastBrokerCallAt.set(account.broker_name, Date.now());
+
+      const rawOrderBook = await brokerService.getOrderHistory(account.account_id);
+      const orders = normalizeMasterOrderBook(account.broker_name, rawOrderBook);
+      return new Map(orders.map(snapshot => [snapshot.brokerOrderId, snapshot]));
+    } catch (error) {
+      logger.error(`Failed to fetch order book for account ${accountId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a change reported by the broker and push it to the user
+   */
+  private async applyStatusChange(order: OrderHistory, change: OrderStatusChange): Promise<boolean> {
+    const orderId = order.id.toString();
+    const userId = order.user_id.toString();
+    const updated = await userDatabase.updateOrderComprehensive(orderId, {
+      status: change.status,
+      executed_quantity: change.executedQuantity,
+      ...(change.averagePrice && { average_price: change.averagePrice }),
+      ...(change.rejectionReason && { rejection_reason: change.rejectionReason }),
+      last_updated: new Date()
+    });
+    if (!updated) {
+      return false;
+    }
+
+    await websocketService.broadcastOrderStatusUpdate(userId, {
+      orderId,
+      brokerOrderId: order.broker_order_id || '',
+      status: change.status,
+      previousStatus: order.status,
+      timestamp: new Date(),
+      symbol: order.symbol,
+      executedQuantity: change.executedQuantity,
+      ...(change.averagePrice && { averagePrice: change.averagePrice })
+    });
+
+    // Partial fills that don't change the status only update the order in place
+    if (change.status !== order.status) {
+      try {
+        await notificationService.sendOrderStatusNotification(userId, {
+          orderId,
+          symbol: order.symbol,
+          action: order.action,
+          quantity: order.quantity,
+          price: change.averagePrice || order.price,
+          oldStatus: order.status,
+          newStatus: change.status,
+          brokerName: order.broker_name,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error(`Failed to send status notification for order ${orderId}:`, error);
+      }
+
+      const event = getOrderStatusEvent(change.status);
+      if (event) {
+        webhookService.publish(userId, event, toOrderEventData(order, {
+          status: change.status,
+          executedQuantity: change.executedQuantity,
+          ...(change.averagePrice && { averagePrice: change.averagePrice }),
+          reason: change.rejectionReason || null
+        }));
+      }
+    }
+
+    this.emit('orderStatusChanged', {
+      orderId,
+      userId,
+      previousStatus: order.status,
+      status: change.status,
+      executedQuantity: change.executedQuantity
+    });
+    return true;
+  }
 
   /**
    * Get pending orders from database
@@ -134,8 +358,7 @@ class OrderStatusService extends EventEmitter {
   private async getPendingOrders(): Promise<Order[]> {
     try {
       // Get all pending orders from all users
-      const orders = (await userDatabase.getAllOrderHistory())
-        .filter(order => ['PLACED', 'PENDING'].includes(order.status));
+      const orders = await userDatabase.getOpenOrders();
 
       // Convert OrderHistory to Order format
       return orders.map(order => ({
@@ -170,6 +393,12 @@ class OrderStatusService extends EventEmitter {
     logger.info('Stopping order status monitoring');
     this.isPolling = false;
 
+    if (this.reconcileTimer) {
+      clearTimeout(this.reconcileTimer);
+      this.reconcileTimer = null;
+    }
+    this.nextReconcileAt = null;
+
     // Clear all polling intervals
     for (const [brokerName, intervalId] of this.pollingIntervals.entries()) {
       clearInterval(intervalId);
@@ -626,6 +855,7 @@ class OrderStatusService extends EventEmitter {
       'REJECTED': 'REJECTED',
       'TRIGGER_PENDING': 'PENDING',
       'PARTIALLY_FILLED': 'PARTIALLY_FILLED',
+      'AMO_REQ_RECEIVED': 'AMO_PLACED',
     };
 
     // Fyers status mapping
@@ -715,7 +945,7 @@ class OrderStatusService extends EventEmitter {
         // Use the broker_order_id to update the database
         const updated = await userDatabase.updateOrderStatus(
           (order.broker_order_id || order.id).toString(),
-          newStatus as 'PLACED' | 'PENDING' | 'EXECUTED' | 'CANCELLED' | 'REJECTED' | 'PARTIALLY_FILLED'
+          newStatus as 'PLACED' | 'AMO_PLACED' | 'PENDING' | 'EXECUTED' | 'CANCELLED' | 'REJECTED' | 'PARTIALLY_FILLED'
         );
 
         dbUpdateDuration = performance.now() - dbStartTime;
@@ -776,6 +1006,15 @@ class OrderStatusService extends EventEmitter {
         updatedAt: order.updated_at
       });
 
+      const event = dbUpdateSuccess && newStatus !== oldStatus ? getOrderStatusEvent(newStatus) : null;
+      if (event) {
+        webhookService.publish(order.user_id.toString(), event, toOrderEventData(order, {
+          ...(executionData?.executedQuantity !== undefined && { executedQuantity: executionData.executedQuantity }),
+          ...(executionData?.averagePrice !== undefined && { averagePrice: executionData.averagePrice }),
+          reason: executionData?.rejectionReason || null
+        }));
+      }
+
       // Broadcast real-time update via WebSocket
       let wsUpdateSuccess = false;
       try {
@@ -951,7 +1190,8 @@ class OrderStatusService extends EventEmitter {
   }
 
   /**
-   * Add a new order to monitoring (manual refresh only)
+   * Add a new order to monitoring. Open orders are also picked up from the
+   * database by the background sync.
    */
   async addOrderToMonitoring(order: Order): Promise<void> {
     try {
@@ -1061,8 +1301,8 @@ class OrderStatusService extends EventEmitter {
         };
       }
 
-      // Verify user owns the order
-      if (orderHistory.user_id.toString() !== userId) {
+      // The account's owner or a workspace member who may see it
+      if (!await accountAccessService.checkAccess(userId, orderHistory.account_id.toString(), 'VIEW')) {
         return {
           success: false,
           message: 'Access denied'
@@ -1123,6 +1363,11 @@ class OrderStatusService extends EventEmitter {
       activeBrokers: this.pollingIntervals.size,
       activeOrders: this.activeOrders.size,
       pollingFrequency: this.pollingFrequency,
+      quietPollingFrequency: this.quietPollingFrequency,
+      marketPhase: getMarketPhase(new Date(), marketClockService.getCalendar()),
+      streamingAccounts: this.streamingAccounts.size,
+      lastReconcileAt: this.lastReconcileAt?.toISOString() || null,
+      nextReconcileAt: this.nextReconcileAt?.toISOString() || null,
       brokers: Array.from(this.pollingIntervals.keys())
     };
   }
@@ -1,7 +1,7 @@
 import { logger } from '../utils/logger';
 import { userDatabase } from './databaseCompatibility';
 import websocketService from './websocketService';
-import { OrderHistory } from '../interfaces/IDatabaseAdapter';
+import { OrderHistory, OrderErrorType } from '../interfaces/IDatabaseAdapter';
 
 /**
  * Enhanced Order Status Update Service
@@ -139,7 +139,7 @@ export class OrderStatusUpdateService {
       status: string;
       errorMessage?: string;
       errorCode?: string;
-      errorType?: 'NETWORK' | 'BROKER' | 'VALIDATION' | 'AUTH' | 'SYSTEM' | 'MARKET';
+      errorType?: OrderErrorType;
       failureReason?: string;
       isRetryable?: boolean;
     },
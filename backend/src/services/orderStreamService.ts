@@ -0,0 +1,252 @@
+/**
+ * Order Stream Service
+ * Keeps a push order-update stream open for every active Shoonya and Fyers
+ * connection and feeds its updates into the order status pipeline. Accounts
+ * whose stream is down are left to the background polling sync.
+ */
+
+import WebSocket from 'ws';
+import {
+  OrderUpdateEvent,
+  OrderUpdateStream,
+  StreamSession,
+  StreamSocketFactory,
+  createOrderUpdateStream
+} from '@copytrade/unified-broker';
+import { logger } from '../utils/logger';
+import { userDatabase } from './databaseCompatibility';
+import { EnhancedBrokerConnection, enhancedUnifiedBrokerManager } from './enhancedUnifiedBrokerManager';
+import { brokerSessionManager } from './brokerSessionManager';
+import orderStatusService from './orderStatusService';
+
+const STREAMING_BROKERS = ['shoonya', 'fyers'];
+
+interface ActiveStream {
+  stream: OrderUpdateStream;
+  userId: string;
+  brokerName: string;
+  accountId: string;          // broker account ID
+  databaseAccountId: string;
+}
+
+export const wsSocketFactory: StreamSocketFactory = (url, options) => new WebSocket(url, options);
+
+/**
+ * Session a broker stream authenticates with, from the live connection
+ */
+export async function getStreamSession(connection: EnhancedBrokerConnection): Promise<StreamSession | null> {
+  const accessToken = connection.service.getTokenInfo()?.accessToken || connection.tokenInfo?.accessToken;
+  if (!accessToken) {
+    return null;
+  }
+
+  if (connection.brokerName !== 'fyers') {
+    return { accountId: connection.accountId, accessToken };
+  }
+
+  // Fyers sockets authorise with the app ID the account was connected with
+  const credentials = await userDatabase.getAccountCredentials(connection.databaseAccountId);
+  return credentials?.clientId
+    ? { accountId: connection.accountId, accessToken, appId: credentials.clientId }
+    : null;
+}
+
+export class OrderStreamService {
+  private syncInterval: NodeJS.Timeout | null = null;
+  private readonly SYNC_INTERVAL = 60000; // pick up new and dropped connections every minute
+  private streams: Map<string, ActiveStream> = new Map();
+
+  constructor(private socketFactory: StreamSocketFactory = wsSocketFactory) {}
+
+  start(): void {
+    if (this.syncInterval) {
+      return;
+    }
+
+    this.syncStreams().catch(error => this.logSyncError(error));
+    this.syncInterval = setInterval(() => {
+      this.syncStreams().catch(error => this.logSyncError(error));
+    }, this.SYNC_INTERVAL);
+
+    logger.info('Order stream service started', {
+      component: 'ORDER_STREAMS',
+      operation: 'START'
+    });
+  }
+
+  stop(): void {
+    if (this.syncInterval) {
+      clearInterval(this.syncInterval);
+      this.syncInterval = null;
+    }
+    for (const key of Array.from(this.streams.keys())) {
+      this.closeStream(key);
+    }
+
+    logger.info('Order stream service stopped', {
+      component: 'ORDER_STREAMS',
+      operation: 'STOP'
+    });
+  }
+
+  isStreaming(databaseAccountId: string): boolean {
+    return Array.from(this.streams.values())
+      .some(active => active.databaseAccountId === databaseAccountId && active.stream.isConnected());
+  }
+
+  getStreamStates(): Array<{ brokerName: string; accountId: string; state: string }> {
+    return Array.from(this.streams.values()).map(active => ({
+      brokerName: active.brokerName,
+      accountId: active.accountId,
+      state: active.stream.getState()
+    }));
+  }
+
+  /**
+   * Open streams for new active connections and close those whose
+   * connection went away
+   */
+  async syncStreams(): Promise<void> {
+    const connections = STREAMING_BROKERS
+      .flatMap(brokerName => enhancedUnifiedBrokerManager.getBrokerConnections(brokerName))
+      .filter(connection => connection.isActive && connection.databaseAccountId);
+    const wanted = new Set(connections.map(connection => this.getStreamKey(connection)));
+
+    for (const key of Array.from(this.streams.keys())) {
+      if (!wanted.has(key)) {
+        this.closeStream(key);
+      }
+    }
+
+    for (const connection of connections) {
+      const key = this.getStreamKey(connection);
+      const existing = this.streams.get(key);
+      if (!existing) {
+        await this.openStream(key, connection);
+      } else if (existing.stream.getState() === 'CLOSED') {
+        // Gave up reconnecting earlier; the connection is still active, so try again
+        await this.reconnect(existing);
+      }
+    }
+  }
+
+  private async openStream(key: string, connection: EnhancedBrokerConnection): Promise<void> {
+    const stream = createOrderUpdateStream(connection.brokerName, { socketFactory: this.socketFactory });
+    const session = stream ? await getStreamSession(connection) : null;
+    if (!stream || !session) {
+      return;
+    }
+
+    const active: ActiveStream = {
+      stream,
+      userId: connection.userId,
+      brokerName: connection.brokerName,
+      accountId: connection.accountId,
+      databaseAccountId: connection.databaseAccountId
+    };
+    this.streams.set(key, active);
+
+    stream.on('orderUpdate', (update: OrderUpdateEvent) => {
+      orderStatusService.applyStreamUpdate(update).catch(error => {
+        logger.error('Failed to apply streamed order update', {
+          component: 'ORDER_STREAMS',
+          operation: 'APPLY_UPDATE',
+          brokerName: update.brokerName,
+          accountId: update.accountId,
+          brokerOrderId: update.brokerOrderId
+        }, error);
+      });
+    });
+
+    stream.on('stateChange', (state: string) => {
+      // Polling covers the account whenever its stream is not live
+      orderStatusService.setAccountStreaming(active.databaseAccountId, state === 'CONNECTED');
+      logger.debug('Order stream state changed', {
+        component: 'ORDER_STREAMS',
+        operation: 'STATE_CHANGE',
+        brokerName: active.brokerName,
+        accountId: active.accountId,
+        streamState: state
+      });
+    });
+
+    stream.on('sessionExpired', (reason: string) => {
+      this.handleSessionExpired(active, reason).catch(error => {
+        logger.error('Failed to recover order stream session', {
+          component: 'ORDER_STREAMS',
+          operation: 'SESSION_EXPIRED',
+          brokerName: active.brokerName,
+          accountId: active.accountId
+        }, error);
+      });
+    });
+
+    stream.on('error', (error: Error) => {
+      logger.warn('Order stream error', {
+        component: 'ORDER_STREAMS',
+        operation: 'STREAM_ERROR',
+        brokerName: active.brokerName,
+        accountId: active.accountId
+      }, error);
+    });
+
+    stream.connect(session);
+    logger.info('Order stream opened', {
+      component: 'ORDER_STREAMS',
+      operation: 'OPEN_STREAM',
+      userId: active.userId,
+      brokerName: active.brokerName,
+      accountId: active.accountId
+    });
+  }
+
+  /**
+   * Refresh the broker session and reconnect with the new token. If that
+   * fails the stream stays down and the account is polled instead.
+   */
+  private async handleSessionExpired(active: ActiveStream, reason: string): Promise<void> {
+    logger.warn('Order stream session expired', {
+      component: 'ORDER_STREAMS',
+      operation: 'SESSION_EXPIRED',
+      brokerName: active.brokerName,
+      accountId: active.accountId,
+      reason
+    });
+
+    const refreshed = await brokerSessionManager.refreshSessionToken(active.userId, active.brokerName, active.accountId);
+    if (refreshed) {
+      await this.reconnect(active);
+    }
+  }
+
+  private async reconnect(active: ActiveStream): Promise<void> {
+    const connection = enhancedUnifiedBrokerManager.getConnection(active.userId, active.brokerName, active.accountId);
+    const session = connection ? await getStreamSession(connection) : null;
+    if (session) {
+      active.stream.connect(session);
+    }
+  }
+
+  private closeStream(key: string): void {
+    const active = this.streams.get(key);
+    if (active) {
+      active.stream.removeAllListeners();
+      active.stream.close();
+      orderStatusService.setAccountStreaming(active.databaseAccountId, false);
+      this.streams.delete(key);
+    }
+  }
+
+  private getStreamKey(connection: EnhancedBrokerConnection): string {
+    return `${connection.userId}_${connection.brokerName}_${connection.accountId}`;
+  }
+
+  private logSyncError(error: any): void {
+    logger.error('Order stream sync failed', {
+      component: 'ORDER_STREAMS',
+      operation: 'SYNC_STREAMS'
+    }, error);
+  }
+}
+
+export const orderStreamService = new OrderStreamService();
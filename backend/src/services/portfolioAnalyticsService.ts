@@ -1,24 +1,37 @@
 import { userDatabase } from './databaseCompatibility';
-import type { OrderHistory } from '../interfaces/IDatabaseAdapter';
-import { marketDataService } from './marketDataService';
-import type { MarketPrice } from './marketDataService';
+import { tradeLedgerService } from './tradeLedgerService';
+import { buildLedger } from '../utils/tradeLedger';
+import type { ClosedTrade } from '../utils/tradeLedger';
 
 export interface PortfolioPosition {
   symbol: string;
-  totalQuantity: number;
+  exchange: string;
+  totalQuantity: number; // negative for a net short position
   averagePrice: number;
+  currentPrice: number;
   currentValue: number;
   investedValue: number;
-  pnl: number;
+  pnl: number; // unrealised
   pnlPercentage: number;
+  realizedPnl: number;
   lastTradeDate: string;
   brokerAccounts: string[];
+  accounts: Array<{
+    accountId: string;
+    brokerName: string;
+    quantity: number;
+    averagePrice: number;
+    realizedPnl: number;
+    unrealizedPnl: number;
+  }>;
 }
 
 export interface PortfolioMetrics {
   totalInvested: number;
   currentValue: number;
-  totalPnL: number;
+  totalPnL: number; // realised plus unrealised
+  realizedPnL: number;
+  unrealizedPnL: number;
   totalPnLPercentage: number;
   totalOrders: number;
   executedOrders: number;
@@ -61,107 +74,35 @@ export interface SymbolPerformance {
 class PortfolioAnalyticsService {
 
   /**
-   * Calculate portfolio positions from order history
+   * Open positions from the trade ledger, netted across accounts or for one account
    */
-  async calculatePortfolioPositions(userId: number): Promise<PortfolioPosition[]> {
-    const orders = await userDatabase.getOrderHistoryByUserId(userId, 1000, 0);
-    const executedOrders = orders.filter(order => order.status === 'EXECUTED');
-
-    // Group orders by symbol
-    const symbolGroups = new Map<string, OrderHistory[]>();
-
-    executedOrders.forEach(order => {
-      if (!symbolGroups.has(order.symbol)) {
-        symbolGroups.set(order.symbol, []);
-      }
-      symbolGroups.get(order.symbol)!.push(order);
-    });
-
-    const positions: PortfolioPosition[] = [];
-    const symbolsToFetch: string[] = [];
-
-    // First pass: calculate quantities and collect symbols
-    const positionData = new Map<string, {
-      netQuantity: number;
-      averagePrice: number;
-      investedValue: number;
-      lastTradeDate: string;
-      brokerAccounts: string[];
-    }>();
-
-    symbolGroups.forEach((orders, symbol) => {
-      let totalBuyQuantity = 0;
-      let totalSellQuantity = 0;
-      let totalBuyValue = 0;
-      let totalSellValue = 0;
-      const brokerAccounts = new Set<string>();
-      let lastTradeDate = '';
-
-      orders.forEach(order => {
-        brokerAccounts.add(order.broker_name);
-        if (order.executed_at > lastTradeDate) {
-          lastTradeDate = order.executed_at;
-        }
-
-        if (order.action === 'BUY') {
-          totalBuyQuantity += order.quantity;
-          totalBuyValue += order.quantity * order.price;
-        } else {
-          totalSellQuantity += order.quantity;
-          totalSellValue += order.quantity * order.price;
-        }
-      });
-
-      const netQuantity = totalBuyQuantity - totalSellQuantity;
-
-      // Only include positions with net quantity > 0
-      if (netQuantity > 0) {
-        const averagePrice = totalBuyValue / totalBuyQuantity;
-        const investedValue = netQuantity * averagePrice;
+  async calculatePortfolioPositions(userId: number | string, accountId?: string): Promise<PortfolioPosition[]> {
+    const { aggregated } = await tradeLedgerService.getOpenPositions(userId.toString(), { accountId });
 
-        positionData.set(symbol, {
-          netQuantity,
-          averagePrice,
-          investedValue,
-          lastTradeDate,
-          brokerAccounts: Array.from(brokerAccounts)
-        });
-
-        symbolsToFetch.push(symbol);
-      }
-    });
-
-    // Fetch real-time prices for all symbols
-    let marketPrices: Map<string, MarketPrice>;
-    try {
-      marketPrices = await marketDataService.getPrices(symbolsToFetch);
-      console.log(`✅ Fetched live prices for ${marketPrices.size}/${symbolsToFetch.length} symbols`);
-    } catch (error) {
-      console.error('❌ Failed to fetch market prices, using fallback:', error);
-      marketPrices = new Map();
-    }
-
-    // Second pass: calculate positions with real-time prices
-    positionData.forEach((data, symbol) => {
-      const marketPrice = marketPrices.get(symbol);
-
-      // Use real-time price if available, otherwise fallback to average price
-      const currentPrice = marketPrice?.price || data.averagePrice;
-      const currentValue = data.netQuantity * currentPrice;
-      const pnl = currentValue - data.investedValue;
-      const pnlPercentage = data.investedValue > 0 ? (pnl / data.investedValue) * 100 : 0;
-
-      positions.push({
-        symbol,
-        totalQuantity: data.netQuantity,
-        averagePrice: data.averagePrice,
-        currentValue,
-        investedValue: data.investedValue,
-        pnl,
-        pnlPercentage,
-        lastTradeDate: data.lastTradeDate,
-        brokerAccounts: data.brokerAccounts
-      });
+    const positions = aggregated.map(({ position, lastPrice, unrealizedPnl }): PortfolioPosition => {
+      const investedValue = Math.abs(position.quantity) * position.averagePrice;
+      return {
+        symbol: position.symbol,
+        exchange: position.exchange,
+        totalQuantity: position.quantity,
+        averagePrice: position.averagePrice,
+        currentPrice: lastPrice,
+        currentValue: Math.abs(position.quantity) * lastPrice,
+        investedValue,
+        pnl: unrealizedPnl,
+        pnlPercentage: investedValue > 0 ? (unrealizedPnl / investedValue) * 100 : 0,
+        realizedPnl: position.realizedPnl,
+        lastTradeDate: position.lastTradeAt,
+        brokerAccounts: Array.from(new Set(position.accounts.map(account => account.brokerName))),
+        accounts: position.accounts.map(account => ({
+          accountId: account.accountId,
+          brokerName: account.brokerName,
+          quantity: account.quantity,
+          averagePrice: account.averagePrice,
+          realizedPnl: account.realizedPnl,
+          unrealizedPnl: Math.round((lastPrice - account.averagePrice) * account.quantity * 100) / 100
+        }))
+      };
     });
 
     return positions.sort((a, b) => b.currentValue - a.currentValue);
@@ -170,43 +111,39 @@ class PortfolioAnalyticsService {
   /**
    * Calculate overall portfolio metrics
    */
-  async calculatePortfolioMetrics(userId: number): Promise<PortfolioMetrics> {
-    const orders = await userDatabase.getOrderHistoryByUserId(userId, 1000, 0);
-    const positions = await this.calculatePortfolioPositions(userId);
+  async calculatePortfolioMetrics(userId: number | string): Promise<PortfolioMetrics> {
+    const [totalOrders, executedOrders, positions, ledger] = await Promise.all([
+      userDatabase.getOrderCountByUserIdWithFilters(userId),
+      userDatabase.getOrderCountByUserIdWithFilters(userId, { status: 'EXECUTED' }),
+      this.calculatePortfolioPositions(userId),
+      tradeLedgerService.getLedger(userId.toString())
+    ]);
 
-    const totalOrders = orders.length;
-    const executedOrders = orders.filter(order => order.status === 'EXECUTED').length;
     const successRate = totalOrders > 0 ? (executedOrders / totalOrders) * 100 : 0;
     
     const totalInvested = positions.reduce((sum, pos) => sum + pos.investedValue, 0);
     const currentValue = positions.reduce((sum, pos) => sum + pos.currentValue, 0);
-    const totalPnL = currentValue - totalInvested;
-    const totalPnLPercentage = totalInvested > 0 ? (totalPnL / totalInvested) * 100 : 0;
+    const unrealizedPnL = positions.reduce((sum, pos) => sum + pos.pnl, 0);
+    const realizedPnL = this.sumRealizedPnL(ledger.closedTrades);
+    const totalPnL = realizedPnL + unrealizedPnL;
+    const totalPnLPercentage = totalInvested > 0 ? (unrealizedPnL / totalInvested) * 100 : 0;
     
-    // Calculate time-based P&L
+    // Time-based P&L is what was realised in the period
     const now = new Date();
     const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
     const weekStart = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
     const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
     
-    const dayOrders = orders.filter(order => 
-      order.status === 'EXECUTED' && new Date(order.executed_at) >= dayStart
-    );
-    const weekOrders = orders.filter(order => 
-      order.status === 'EXECUTED' && new Date(order.executed_at) >= weekStart
-    );
-    const monthOrders = orders.filter(order => 
-      order.status === 'EXECUTED' && new Date(order.executed_at) >= monthStart
-    );
-    
-    const dayPnL = this.calculatePnLFromOrders(dayOrders);
-    const weekPnL = this.calculatePnLFromOrders(weekOrders);
-    const monthPnL = this.calculatePnLFromOrders(monthOrders);
+    const dayPnL = this.sumRealizedPnL(ledger.closedTrades, dayStart);
+    const weekPnL = this.sumRealizedPnL(ledger.closedTrades, weekStart);
+    const monthPnL = this.sumRealizedPnL(ledger.closedTrades, monthStart);
     
     return {
       totalInvested,
       currentValue,
       totalPnL,
+      realizedPnL,
+      unrealizedPnL,
       totalPnLPercentage,
       totalOrders,
       executedOrders,
@@ -219,66 +156,32 @@ class PortfolioAnalyticsService {
   }
   
   /**
-   * Calculate trading statistics
+   * Trading statistics over closed trades in the ledger. Every closing fill,
+   * long or short, is one trade.
    */
-  async calculateTradingStats(userId: number): Promise<TradingStats> {
-    const orders = await userDatabase.getOrderHistoryByUserId(userId, 1000, 0);
-    const executedOrders = orders.filter(order => order.status === 'EXECUTED');
-    
-    // Group by symbol to calculate trade pairs
-    const symbolTrades = new Map<string, OrderHistory[]>();
-    executedOrders.forEach(order => {
-      if (!symbolTrades.has(order.symbol)) {
-        symbolTrades.set(order.symbol, []);
-      }
-      symbolTrades.get(order.symbol)!.push(order);
-    });
+  async calculateTradingStats(userId: number | string): Promise<TradingStats> {
+    const { closedTrades } = await tradeLedgerService.getLedger(userId.toString());
     
-    let totalTrades = 0;
     let winningTrades = 0;
     let losingTrades = 0;
     let totalWinAmount = 0;
     let totalLossAmount = 0;
     const returns: number[] = [];
     
-    symbolTrades.forEach(trades => {
-      // Sort by date
-      trades.sort((a, b) => new Date(a.executed_at).getTime() - new Date(b.executed_at).getTime());
-      
-      let position = 0;
-      let avgPrice = 0;
-      
-      trades.forEach(trade => {
-        if (trade.action === 'BUY') {
-          if (position === 0) {
-            avgPrice = trade.price;
-          } else if (position > 0) {
-            avgPrice = ((avgPrice * position) + (trade.price * trade.quantity)) / (position + trade.quantity);
-          }
-          position += trade.quantity;
-        } else { // SELL
-          if (position > 0) {
-            const sellQuantity = Math.min(trade.quantity, position);
-            const pnl = (trade.price - avgPrice) * sellQuantity;
-            const returnPct = avgPrice > 0 ? (pnl / (avgPrice * sellQuantity)) * 100 : 0;
-            
-            returns.push(returnPct);
-            totalTrades++;
-            
-            if (pnl > 0) {
-              winningTrades++;
-              totalWinAmount += pnl;
-            } else {
-              losingTrades++;
-              totalLossAmount += Math.abs(pnl);
-            }
-            
-            position -= sellQuantity;
-          }
-        }
-      });
+    closedTrades.forEach(trade => {
+      const cost = trade.entryPrice * trade.quantity;
+      returns.push(cost > 0 ? (trade.realizedPnl / cost) * 100 : 0);
+
+      if (trade.realizedPnl > 0) {
+        winningTrades++;
+        totalWinAmount += trade.realizedPnl;
+      } else {
+        losingTrades++;
+        totalLossAmount += Math.abs(trade.realizedPnl);
+      }
     });
     
+    const totalTrades = closedTrades.length;
     const winRate = totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0;
     const averageWin = winningTrades > 0 ? totalWinAmount / winningTrades : 0;
     const averageLoss = losingTrades > 0 ? totalLossAmount / losingTrades : 0;
@@ -321,34 +224,38 @@ class PortfolioAnalyticsService {
   }
   
   /**
-   * Get performance data for charts
+   * Daily realised P&L for charts. The cumulative P&L includes what was
+   * realised before the period.
    */
-  async getPerformanceData(userId: number, days: number = 30): Promise<PerformanceData[]> {
-    const orders = await userDatabase.getOrderHistoryByUserId(userId, 1000, 0);
-    const executedOrders = orders.filter(order => order.status === 'EXECUTED');
+  async getPerformanceData(userId: number | string, days: number = 30): Promise<PerformanceData[]> {
+    const { closedTrades } = await tradeLedgerService.getLedger(userId.toString());
     
     const endDate = new Date();
     const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
+    const startDateStr = startDate.toISOString().split('T')[0] || '';
     
-    const performanceData: PerformanceData[] = [];
+    const dailyPnL = new Map<string, number>();
     let cumulativePnL = 0;
+    closedTrades.forEach(trade => {
+      const dateStr = trade.closedAt.split('T')[0] || '';
+      if (dateStr < startDateStr) {
+        cumulativePnL += trade.realizedPnl;
+      } else {
+        dailyPnL.set(dateStr, (dailyPnL.get(dateStr) || 0) + trade.realizedPnl);
+      }
+    });
+    
+    const performanceData: PerformanceData[] = [];
     
     for (let d = new Date(startDate); d <= endDate; d.setDate(d.getDate() + 1)) {
       const dateStr = d.toISOString().split('T')[0];
-      const dayOrders = executedOrders.filter(order =>
-        order.executed_at && dateStr && order.executed_at.startsWith(dateStr)
-      );
-      
-      const dayPnL = this.calculatePnLFromOrders(dayOrders);
-      cumulativePnL += dayPnL;
-      
-      // Calculate portfolio value based on actual invested amount
-      const portfolioValue = cumulativePnL;
       
       if (dateStr) {
+        const dayPnL = dailyPnL.get(dateStr) || 0;
+        cumulativePnL += dayPnL;
         performanceData.push({
           date: dateStr,
-          portfolioValue,
+          portfolioValue: cumulativePnL,
           pnl: dayPnL,
           cumulativePnL
         });
@@ -361,74 +268,42 @@ class PortfolioAnalyticsService {
   /**
    * Get symbol-wise performance
    */
-  async getSymbolPerformance(userId: number): Promise<SymbolPerformance[]> {
-    const orders = await userDatabase.getOrderHistoryByUserId(userId, 1000, 0);
-    const executedOrders = orders.filter(order => order.status === 'EXECUTED');
+  async getSymbolPerformance(userId: number | string): Promise<SymbolPerformance[]> {
+    const fills = await tradeLedgerService.getFills(userId.toString());
+    const { closedTrades } = buildLedger(fills);
     
     const symbolStats = new Map<string, {
-      trades: OrderHistory[];
+      trades: ClosedTrade[];
       totalVolume: number;
     }>();
-    
-    executedOrders.forEach(order => {
-      if (!symbolStats.has(order.symbol)) {
-        symbolStats.set(order.symbol, { trades: [], totalVolume: 0 });
+    const getStats = (symbol: string) => {
+      if (!symbolStats.has(symbol)) {
+        symbolStats.set(symbol, { trades: [], totalVolume: 0 });
       }
-      const stats = symbolStats.get(order.symbol)!;
-      stats.trades.push(order);
-      stats.totalVolume += order.quantity * order.price;
+      return symbolStats.get(symbol)!;
+    };
+    
+    fills.forEach(fill => {
+      getStats(fill.symbol).totalVolume += fill.quantity * fill.price;
+    });
+    closedTrades.forEach(trade => {
+      getStats(trade.symbol).trades.push(trade);
     });
     
     const symbolPerformance: SymbolPerformance[] = [];
     
-    symbolStats.forEach((stats, symbol) => {
-      const { trades, totalVolume } = stats;
-      
-      // Calculate trades and P&L for this symbol
-      let totalTrades = 0;
-      let winningTrades = 0;
-      let totalPnL = 0;
-      
-      // Group buy/sell pairs
-      let position = 0;
-      let avgPrice = 0;
-      
-      trades.sort((a, b) => new Date(a.executed_at).getTime() - new Date(b.executed_at).getTime());
-      
-      trades.forEach(trade => {
-        if (trade.action === 'BUY') {
-          if (position === 0) {
-            avgPrice = trade.price;
-          } else if (position > 0) {
-            avgPrice = ((avgPrice * position) + (trade.price * trade.quantity)) / (position + trade.quantity);
-          }
-          position += trade.quantity;
-        } else {
-          if (position > 0) {
-            const sellQuantity = Math.min(trade.quantity, position);
-            const pnl = (trade.price - avgPrice) * sellQuantity;
-            totalPnL += pnl;
-            totalTrades++;
-            
-            if (pnl > 0) {
-              winningTrades++;
-            }
-            
-            position -= sellQuantity;
-          }
-        }
-      });
-      
-      const winRate = totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0;
-      const averageReturn = totalTrades > 0 ? totalPnL / totalTrades : 0;
+    symbolStats.forEach(({ trades, totalVolume }, symbol) => {
+      const totalTrades = trades.length;
+      const winningTrades = trades.filter(trade => trade.realizedPnl > 0).length;
+      const totalPnL = this.sumRealizedPnL(trades);
       
       symbolPerformance.push({
         symbol,
         totalTrades,
         winningTrades,
-        winRate,
+        winRate: totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0,
         totalPnL,
-        averageReturn,
+        averageReturn: totalTrades > 0 ? totalPnL / totalTrades : 0,
         volume: totalVolume
       });
     });
@@ -437,24 +312,13 @@ class PortfolioAnalyticsService {
   }
   
   /**
-   * Helper method to calculate P&L from orders
+   * Realised P&L of trades closed since a date (all of them without one)
    */
-  private calculatePnLFromOrders(orders: OrderHistory[]): number {
-    // This is a simplified calculation
-    // In reality, you'd need to match buy/sell pairs properly
-    let totalBuyValue = 0;
-    let totalSellValue = 0;
-    
-    orders.forEach(order => {
-      const value = order.quantity * order.price;
-      if (order.action === 'BUY') {
-        totalBuyValue += value;
-      } else {
-        totalSellValue += value;
-      }
-    });
-    
-    return totalSellValue - totalBuyValue;
+  private sumRealizedPnL(trades: ClosedTrade[], since?: Date): number {
+    const total = trades
+      .filter(trade => !since || new Date(trade.closedAt) >= since)
+      .reduce((sum, trade) => sum + trade.realizedPnl, 0);
+    return Math.round(total * 100) / 100;
   }
 }
 
@@ -0,0 +1,203 @@
+/**
+ * Position Sizing Service
+ * Computes the quantity each connected account should trade for a fanned-out
+ * order, based on the account's sizing rule (fixed quantity, multiplier,
+ * percent of the account's available funds or fixed notional), lot size and
+ * min/max caps.
+ */
+
+import { userDatabase } from './databaseCompatibility';
+import { nseCSVService } from './nseCSVService';
+import { derivativesCSVService } from './derivativesCSVService';
+import { marketDataService } from './marketDataService';
+import { brokerAccountDataService } from './brokerAccountDataService';
+import { AccountSizingRule, SizingMethod } from '../interfaces/IDatabaseAdapter';
+import { isDerivativeExchange } from '../utils/derivativeInstruments';
+
+export interface SizingInput {
+  sourceQuantity: number;
+  price: number; // reference price used for notional/capital based rules
+  lotSize: number;
+  availableFunds?: number | null; // from the account's broker, for PERCENT_OF_CAPITAL
+  wholeLots?: boolean; // derivatives only trade in whole lots, whatever the rule's round_to_lot says
+}
+
+export interface SizedQuantity {
+  quantity: number;
+  rawQuantity: number;
+  lotSize: number;
+  method: SizingMethod | 'SOURCE';
+  note?: string;
+}
+
+export interface SizingOrder {
+  symbol: string;
+  exchange: string;
+  quantity: number;
+  price?: number | undefined;
+  triggerPrice?: number | undefined;
+}
+
+export interface AccountSizing {
+  account: any;
+  sizing: SizedQuantity;
+}
+
+/**
+ * Apply a sizing rule to a source order. Accounts without a rule trade the
+ * source quantity unchanged.
+ */
+export function calculateSizedQuantity(rule: AccountSizingRule | null, input: SizingInput): SizedQuantity {
+  const lotSize = input.lotSize > 0 ? input.lotSize : 1;
+  const roundToLot = lotSize > 1 && (rule?.round_to_lot || input.wholeLots);
+
+  if (!rule) {
+    return { quantity: input.sourceQuantity, rawQuantity: input.sourceQuantity, lotSize, method: 'SOURCE' };
+  }
+
+  let rawQuantity = 0;
+  let note: string | undefined;
+
+  switch (rule.method) {
+    case 'FIXED_QUANTITY':
+      rawQuantity = rule.value;
+      break;
+    case 'MULTIPLIER':
+      rawQuantity = input.sourceQuantity * rule.value;
+      break;
+    case 'PERCENT_OF_CAPITAL': {
+      // The configured capital only stands in when the broker's funds couldn't be fetched
+      const capital = input.availableFunds ?? rule.capital ?? 0;
+      if (capital <= 0) {
+        note = typeof input.availableFunds === 'number'
+          ? 'No available funds in this account'
+          : 'Available funds unavailable and no capital configured for this account';
+      } else if (input.price <= 0) {
+        note = 'Reference price unavailable';
+      } else {
+        rawQuantity = (capital * rule.value / 100) / input.price;
+      }
+      break;
+    }
+    case 'FIXED_NOTIONAL':
+      if (input.price <= 0) {
+        note = 'Reference price unavailable';
+      } else {
+        rawQuantity = rule.value / input.price;
+      }
+      break;
+  }
+
+  let quantity = Math.floor(rawQuantity);
+
+  if (roundToLot) {
+    quantity = Math.floor(quantity / lotSize) * lotSize;
+  }
+
+  if (rule.min_quantity !== undefined && quantity < rule.min_quantity && !note) {
+    quantity = roundToLot
+      ? Math.ceil(rule.min_quantity / lotSize) * lotSize
+      : rule.min_quantity;
+  }
+
+  if (rule.max_quantity !== undefined && quantity > rule.max_quantity) {
+    quantity = roundToLot
+      ? Math.floor(rule.max_quantity / lotSize) * lotSize
+      : rule.max_quantity;
+  }
+
+  if (quantity <= 0 && !note) {
+    note = 'Computed quantity is below one lot';
+  }
+
+  return {
+    quantity: Math.max(quantity, 0),
+    rawQuantity,
+    lotSize,
+    method: rule.method,
+    ...(note && { note })
+  };
+}
+
+class PositionSizingService {
+  /**
+   * Market lot for a symbol: the contract's lot from the derivatives master for
+   * NFO/BFO/MCX, the NSE symbol master otherwise (1 when unknown)
+   */
+  getLotSize(symbol: string, exchange: string): number {
+    if (isDerivativeExchange(exchange)) {
+      return derivativesCSVService.getInstrument(exchange, symbol)?.lotSize || 1;
+    }
+    if (exchange !== 'NSE') {
+      return 1;
+    }
+    const symbolData = nseCSVService.getSymbol(symbol.replace(/-EQ$/i, ''));
+    return symbolData?.marketLot || 1;
+  }
+
+  /**
+   * Reference price for value based rules: the order's limit/trigger price,
+   * otherwise the latest market price
+   */
+  async getReferencePrice(order: SizingOrder): Promise<number> {
+    if (order.price && order.price > 0) {
+      return order.price;
+    }
+    if (order.triggerPrice && order.triggerPrice > 0) {
+      return order.triggerPrice;
+    }
+
+    try {
+      const marketPrice = await marketDataService.getPrice(order.symbol.replace(/-EQ$/i, ''), order.exchange);
+      return marketPrice?.price || 0;
+    } catch (error) {
+      console.error(`🚨 Failed to get reference price for ${order.symbol}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Cash available in the account according to its broker; null when the
+   * broker can't be reached
+   */
+  async getAvailableFunds(account: any): Promise<number | null> {
+    try {
+      const { accounts } = await brokerAccountDataService.getFunds(account.user_id.toString(), account.id.toString());
+      const funds = accounts[0]?.data;
+      return funds && Number.isFinite(funds.availableCash) ? funds.availableCash : null;
+    } catch (error) {
+      console.error(`🚨 Failed to get available funds for account ${account.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Compute the quantity for each account using its stored sizing rule
+   */
+  async sizeForAccounts(accounts: any[], order: SizingOrder): Promise<AccountSizing[]> {
+    const lotSize = this.getLotSize(order.symbol, order.exchange);
+    const rules = await Promise.all(
+      accounts.map(account => userDatabase.getSizingRuleByAccountId(account.id.toString()))
+    );
+
+    // Only look up a price when a rule needs one
+    const needsPrice = rules.some(rule => rule?.method === 'PERCENT_OF_CAPITAL' || rule?.method === 'FIXED_NOTIONAL');
+    const price = needsPrice ? await this.getReferencePrice(order) : (order.price || 0);
+    const availableFunds = await Promise.all(accounts.map((account, index) => (
+      rules[index]?.method === 'PERCENT_OF_CAPITAL' ? this.getAvailableFunds(account) : Promise.resolve(null)
+    )));
+
+    return accounts.map((account, index) => ({
+      account,
+      sizing: calculateSizedQuantity(rules[index] || null, {
+        sourceQuantity: order.quantity,
+        price,
+        availableFunds: availableFunds[index] ?? null,
+        lotSize,
+        wholeLots: isDerivativeExchange(order.exchange)
+      })
+    }));
+  }
+}
+
+export const positionSizingService = new PositionSizingService();
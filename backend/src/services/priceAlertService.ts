@@ -0,0 +1,321 @@
+/**
+ * Price Alert Service
+ * Evaluates users' price, volume, position and portfolio alerts on the server
+ * and delivers the ones that fire by websocket, web push, email and webhook.
+ * Prices come from the live feed when it has a recent tick for the symbol
+ * and from NSE/Yahoo otherwise.
+ */
+
+import { logger } from '../utils/logger';
+import { userDatabase } from './databaseCompatibility';
+import { marketDataService } from './marketDataService';
+import { realTimeDataService } from './realTimeDataService';
+import { candleService } from './candleService';
+import { tradeLedgerService } from './tradeLedgerService';
+import { notificationService } from './notificationService';
+import { webhookService } from './webhookService';
+import websocketService from './websocketService';
+import { PriceAlert } from '../interfaces/IDatabaseAdapter';
+import { aggregateLedgerPositions, getUnrealizedPnl } from '../utils/tradeLedger';
+import { getCandleStart } from '../utils/candleAggregation';
+import {
+  AlertEvaluation,
+  AlertReferenceStats,
+  AlertSnapshot,
+  computeReferenceStats,
+  evaluateAlertCondition,
+  nextAlertState
+} from '../utils/priceAlerts';
+
+interface Quote {
+  price: number;
+  changePercent: number;
+  volume: number;
+}
+
+interface PortfolioSnapshot {
+  positionPnl: Map<string, number>; // symbol:exchange -> unrealised P&L of the netted position
+  pnl: number;
+  invested: number;
+}
+
+// Per-pass caches so each quote and each user's ledger is fetched once
+interface EvaluationContext {
+  now: Date;
+  quotes: Map<string, Quote | null>;
+  portfolios: Map<string, PortfolioSnapshot | null>;
+}
+
+class PriceAlertService {
+  private evaluationInterval: NodeJS.Timeout | null = null;
+  private isEvaluating: boolean = false;
+  private referenceStats = new Map<string, { day: string; stats: AlertReferenceStats }>();
+  private readonly EVALUATION_INTERVAL = 15000; // 15 seconds
+  private readonly LIVE_PRICE_MAX_AGE = 30000;
+
+  /**
+   * Start the evaluation loop
+   */
+  start(): void {
+    if (this.evaluationInterval) {
+      return;
+    }
+
+    this.evaluationInterval = setInterval(() => {
+      this.evaluate().catch(error => {
+        logger.error('Price alert evaluation failed', {
+          component: 'PRICE_ALERTS',
+          operation: 'EVALUATE'
+        }, error);
+      });
+    }, this.EVALUATION_INTERVAL);
+
+    logger.info('Price alert service started', {
+      component: 'PRICE_ALERTS',
+      operation: 'START',
+      evaluationInterval: this.EVALUATION_INTERVAL
+    });
+  }
+
+  /**
+   * Stop the evaluation loop
+   */
+  stop(): void {
+    if (this.evaluationInterval) {
+      clearInterval(this.evaluationInterval);
+      this.evaluationInterval = null;
+    }
+
+    logger.info('Price alert service stopped', {
+      component: 'PRICE_ALERTS',
+      operation: 'STOP'
+    });
+  }
+
+  /**
+   * Check every active alert once
+   */
+  async evaluate(): Promise<void> {
+    // Skip if the previous pass is still running
+    if (this.isEvaluating) {
+      return;
+    }
+
+    this.isEvaluating = true;
+    try {
+      const alerts = await userDatabase.getActivePriceAlerts();
+      const ctx: EvaluationContext = { now: new Date(), quotes: new Map(), portfolios: new Map() };
+
+      for (const alert of alerts) {
+        try {
+          await this.evaluateAlert(alert, ctx);
+        } catch (error) {
+          logger.error('Failed to evaluate price alert', {
+            component: 'PRICE_ALERTS',
+            operation: 'EVALUATE_ALERT',
+            userId: alert.user_id,
+            alertId: alert.id
+          }, error);
+        }
+      }
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+
+  private async evaluateAlert(alert: PriceAlert, ctx: EvaluationContext): Promise<void> {
+    const snapshot = await this.buildSnapshot(alert, ctx);
+    const evaluation = evaluateAlertCondition(alert, snapshot);
+    if (!evaluation) {
+      return;
+    }
+
+    const { fired, update } = nextAlertState(alert, evaluation, ctx.now);
+    if (Object.keys(update).length === 0) {
+      return;
+    }
+
+    const updated = await userDatabase.updatePriceAlert(alert.id, update);
+    if (fired && updated) {
+      await this.deliver(updated, evaluation);
+    }
+  }
+
+  private async buildSnapshot(alert: PriceAlert, ctx: EvaluationContext): Promise<AlertSnapshot> {
+    if (alert.condition === 'PORTFOLIO_DRAWDOWN') {
+      const portfolio = await this.getPortfolio(alert.user_id, ctx);
+      return { portfolio: portfolio && { pnl: portfolio.pnl, invested: portfolio.invested } };
+    }
+    if (!alert.symbol || !alert.exchange) {
+      return {};
+    }
+
+    if (alert.condition === 'POSITION_PNL') {
+      const portfolio = await this.getPortfolio(alert.user_id, ctx);
+      return { positionPnl: portfolio?.positionPnl.get(`${alert.symbol}:${alert.exchange}`) ?? null };
+    }
+
+    const quote = await this.getQuote(alert.symbol, alert.exchange, ctx);
+    if (!quote) {
+      return {};
+    }
+    const needsReference = ['VOLUME_SPIKE', 'WEEK52_HIGH', 'WEEK52_LOW'].includes(alert.condition);
+    return {
+      price: quote.price,
+      changePercent: quote.changePercent,
+      volume: quote.volume,
+      ...(needsReference && { reference: await this.getReferenceStats(alert.symbol, alert.exchange, ctx.now) })
+    };
+  }
+
+  private async getQuote(symbol: string, exchange: string, ctx: EvaluationContext): Promise<Quote | null> {
+    const key = `${symbol}:${exchange}`;
+    if (ctx.quotes.has(key)) {
+      return ctx.quotes.get(key)!;
+    }
+
+    let quote: Quote | null = realTimeDataService.getLatestPrice(symbol, exchange, this.LIVE_PRICE_MAX_AGE);
+    if (!quote) {
+      try {
+        quote = await marketDataService.getPrice(symbol, exchange);
+      } catch (error) {
+        logger.warn('Failed to get price for price alert', {
+          component: 'PRICE_ALERTS',
+          operation: 'GET_PRICE',
+          symbol,
+          exchange
+        });
+      }
+    }
+
+    ctx.quotes.set(key, quote);
+    return quote;
+  }
+
+  /**
+   * Average volume and 52-week range from daily bars, computed once per
+   * symbol and trading day
+   */
+  private async getReferenceStats(symbol: string, exchange: string, now: Date): Promise<AlertReferenceStats> {
+    const key = `${symbol}:${exchange}`;
+    const day = getCandleStart(now, '1d').toISOString();
+    const cached = this.referenceStats.get(key);
+    if (cached && cached.day === day) {
+      return cached.stats;
+    }
+
+    const from = new Date(now.getTime() - 370 * 24 * 60 * 60 * 1000);
+    const stats = computeReferenceStats(await candleService.getCandles(symbol, exchange, '1d', from, now), now);
+    this.referenceStats.set(key, { day, stats });
+    return stats;
+  }
+
+  /**
+   * Netted positions marked to market, with total P&L and the cost basis of
+   * what is still open
+   */
+  private async getPortfolio(userId: string, ctx: EvaluationContext): Promise<PortfolioSnapshot | null> {
+    if (ctx.portfolios.has(userId)) {
+      return ctx.portfolios.get(userId)!;
+    }
+
+    let portfolio: PortfolioSnapshot | null = null;
+    try {
+      const { positions } = await tradeLedgerService.getLedger(userId);
+      portfolio = { positionPnl: new Map(), pnl: 0, invested: 0 };
+
+      for (const position of aggregateLedgerPositions(positions)) {
+        portfolio.pnl += position.realizedPnl;
+        if (position.quantity === 0) {
+          continue;
+        }
+
+        const quote = await this.getQuote(position.symbol, position.exchange, ctx);
+        const unrealizedPnl = quote ? getUnrealizedPnl(position, quote.price) : 0;
+        portfolio.positionPnl.set(`${position.symbol}:${position.exchange}`, unrealizedPnl);
+        portfolio.pnl += unrealizedPnl;
+        portfolio.invested += Math.abs(position.quantity) * position.averagePrice;
+      }
+    } catch (error) {
+      logger.warn('Failed to load positions for price alerts', {
+        component: 'PRICE_ALERTS',
+        operation: 'GET_PORTFOLIO',
+        userId
+      });
+    }
+
+    ctx.portfolios.set(userId, portfolio);
+    return portfolio;
+  }
+
+  private async deliver(alert: PriceAlert, evaluation: AlertEvaluation): Promise<void> {
+    const data = {
+      alertId: alert.id,
+      name: alert.name,
+      condition: alert.condition,
+      symbol: alert.symbol,
+      exchange: alert.exchange,
+      threshold: alert.threshold,
+      value: evaluation.value,
+      message: describeTrigger(alert, evaluation.value),
+      portfolio: alert.condition === 'POSITION_PNL' || alert.condition === 'PORTFOLIO_DRAWDOWN',
+      timestamp: alert.last_triggered_at || new Date().toISOString()
+    };
+
+    // The in-app toast is not subject to quiet hours: the user is looking at the app
+    if (alert.channels.includes('WEBSOCKET')) {
+      websocketService.sendToUser(alert.user_id, 'priceAlertTriggered', { ...data, status: alert.status });
+    }
+
+    const sent = await notificationService.sendPriceAlertNotification(alert.user_id, data, {
+      push: alert.channels.includes('PUSH'),
+      email: alert.channels.includes('EMAIL'),
+      webhookUrl: alert.channels.includes('WEBHOOK') ? alert.webhook_url : null
+    });
+
+    // Webhook subscriptions hear about every alert, whatever channels the alert itself uses
+    webhookService.publish(alert.user_id, 'alert.triggered', data);
+
+    logger.info('Price alert triggered', {
+      component: 'PRICE_ALERTS',
+      operation: 'TRIGGER',
+      userId: alert.user_id,
+      alertId: alert.id,
+      condition: alert.condition,
+      value: evaluation.value,
+      channels: sent
+    });
+  }
+}
+
+const formatNumber = (value: number): string =>
+  value.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+
+/**
+ * One-line description of why an alert fired
+ */
+function describeTrigger(alert: PriceAlert, value: number): string {
+  const instrument = `${alert.symbol} (${alert.exchange})`;
+  switch (alert.condition) {
+    case 'PRICE_ABOVE':
+      return `${instrument} rose to ₹${formatNumber(value)}, above ₹${formatNumber(alert.threshold)}`;
+    case 'PRICE_BELOW':
+      return `${instrument} fell to ₹${formatNumber(value)}, below ₹${formatNumber(alert.threshold)}`;
+    case 'PERCENT_CHANGE':
+      return `${instrument} is ${value >= 0 ? 'up' : 'down'} ${formatNumber(Math.abs(value))}% today`;
+    case 'VOLUME_SPIKE':
+      return `${instrument} volume is ${formatNumber(value)}x its 20-day average`;
+    case 'WEEK52_HIGH':
+      return `${instrument} made a new 52-week high at ₹${formatNumber(value)}`;
+    case 'WEEK52_LOW':
+      return `${instrument} made a new 52-week low at ₹${formatNumber(value)}`;
+    case 'POSITION_PNL':
+      return `${instrument} position P&L is ₹${formatNumber(value)}`;
+    case 'PORTFOLIO_DRAWDOWN':
+      return `Portfolio is ${formatNumber(value)}% below its peak P&L`;
+    default:
+      return `${alert.name} triggered`;
+  }
+}
+
+export const priceAlertService = new PriceAlertService();
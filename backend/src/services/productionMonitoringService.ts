@@ -46,7 +46,8 @@ export interface Alert {
   severity: 'low' | 'medium' | 'high' | 'critical';
   message: string;
   timestamp: Date;
-  metrics: SystemMetrics;
+  metrics?: SystemMetrics | undefined; // monitoring alerts only
+  details?: Record<string, any> | undefined; // user alerts: what triggered them
   resolved: boolean;
   resolvedAt?: Date;
 }
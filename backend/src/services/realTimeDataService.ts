@@ -1,17 +1,17 @@
 /**
  * REAL-TIME DATA SERVICE
- * WebSocket-based live price streaming using NSE API
+ * WebSocket-based live price streaming. Ticks come from the broker market
+ * data feed; symbols it does not cover are polled from NSE/Yahoo.
  */
 
 import { Server as SocketIOServer } from 'socket.io';
-import { nseService } from './nseService';
-
-interface PriceSubscription {
-  symbol: string;
-  exchange: string;
-  userId: string;
-  socketId: string;
-}
+import { MarketDepth, MarketTick } from '@copytrade/unified-broker';
+import { marketDataService } from './marketDataService';
+import { MarketFeedStatus, marketDataFeedService } from './marketDataFeedService';
+import { candleService } from './candleService';
+import { marketClockService } from './marketClockService';
+import { getSegmentForExchange } from '../utils/tradingCalendar';
+import { SymbolSubscriptionRegistry, UpstreamChange } from '../utils/symbolSubscriptions';
 
 interface LivePrice {
   symbol: string;
@@ -21,14 +21,24 @@ interface LivePrice {
   volume: number;
   timestamp: Date;
   exchange: string;
+  open?: number;
+  high?: number;
+  low?: number;
+  close?: number;
+  depth?: MarketDepth;
+  source: 'broker_feed' | 'realtime_service';
 }
 
 class RealTimeDataService {
   private io: SocketIOServer | null = null;
-  private subscriptions = new Map<string, Set<PriceSubscription>>();
+  private subscriptions = new SymbolSubscriptionRegistry();
   private priceCache = new Map<string, LivePrice>();
+  private pendingUpdates = new Map<string, Map<string, LivePrice>>(); // socket -> latest price per symbol
+  private flushTimers = new Map<string, NodeJS.Timeout>();
   private updateInterval: NodeJS.Timeout | null = null;
-  private readonly UPDATE_FREQUENCY = 5000; // 5 seconds for live updates
+  private unsubscribeMarketClock: (() => void) | null = null;
+  private readonly UPDATE_FREQUENCY = 5000; // 5 seconds for polled symbols
+  private readonly CLIENT_THROTTLE = 250; // ticks to a client are conflated to one per symbol per 250ms
 
   constructor() {
     console.log('🔄 Real-time Data Service initialized');
@@ -40,10 +50,87 @@ class RealTimeDataService {
   initialize(io: SocketIOServer): void {
     this.io = io;
     this.setupSocketHandlers();
+    this.setupFeedHandlers();
     this.startPriceUpdates();
     console.log('✅ Real-time data service connected to Socket.IO');
   }
 
+  /**
+   * Forward broker ticks, feed status and market session changes to clients
+   */
+  private setupFeedHandlers(): void {
+    marketDataFeedService.on('tick', (tick: MarketTick) => this.handleTick(tick));
+    marketDataFeedService.on('statusChange', (status: MarketFeedStatus) => {
+      this.io?.emit('market_feed_status', status);
+    });
+    this.unsubscribeMarketClock = marketClockService.onSessionChange(change => {
+      if (change.segment === 'EQUITY') {
+        this.broadcastMarketStatus();
+      }
+    });
+  }
+
+  private handleTick(tick: MarketTick): void {
+    const key = `${tick.symbol}:${tick.exchange}`;
+    const livePrice: LivePrice = {
+      symbol: tick.symbol,
+      price: tick.lastPrice,
+      change: tick.change,
+      changePercent: tick.changePercent,
+      volume: tick.volume,
+      timestamp: tick.timestamp,
+      exchange: tick.exchange,
+      ...(tick.open !== undefined && { open: tick.open }),
+      ...(tick.high !== undefined && { high: tick.high }),
+      ...(tick.low !== undefined && { low: tick.low }),
+      ...(tick.close !== undefined && { close: tick.close }),
+      ...(tick.depth && { depth: tick.depth }),
+      source: 'broker_feed'
+    };
+
+    this.priceCache.set(key, livePrice);
+    candleService.recordTick(tick.symbol, tick.exchange, tick.lastPrice, tick.volume, tick.timestamp);
+    for (const socketId of this.subscriptions.getClients(key)) {
+      this.queueUpdate(socketId, key, livePrice);
+    }
+  }
+
+  /**
+   * Queue a price for a client, keeping only the latest per symbol until the
+   * client's next flush
+   */
+  private queueUpdate(socketId: string, key: string, livePrice: LivePrice): void {
+    const pending = this.pendingUpdates.get(socketId) || new Map<string, LivePrice>();
+    pending.set(key, livePrice);
+    this.pendingUpdates.set(socketId, pending);
+
+    if (!this.flushTimers.has(socketId)) {
+      this.flushTimers.set(socketId, setTimeout(() => this.flushUpdates(socketId), this.CLIENT_THROTTLE));
+    }
+  }
+
+  private flushUpdates(socketId: string): void {
+    this.flushTimers.delete(socketId);
+    const pending = this.pendingUpdates.get(socketId);
+    this.pendingUpdates.delete(socketId);
+    if (!pending || !this.io) return;
+
+    for (const livePrice of pending.values()) {
+      this.io.to(socketId).emit('price_update', {
+        ...livePrice,
+        eventId: `price_${livePrice.symbol}_${Date.now()}`
+      });
+    }
+  }
+
+  private applyUpstreamChange(change: UpstreamChange | null): void {
+    if (change) {
+      marketDataFeedService.setSubscription(change.key, change.mode).catch(error => {
+        console.warn(`⚠️ Failed to update feed subscription for ${change.key}:`, error);
+      });
+    }
+  }
+
   /**
    * Setup Socket.IO event handlers
    */
@@ -52,10 +139,12 @@ class RealTimeDataService {
 
     this.io.on('connection', (socket) => {
       console.log(`📱 Client connected: ${socket.id}`);
+      socket.emit('market_feed_status', marketDataFeedService.getStatus());
+      socket.emit('market_status_update', marketClockService.getMarketStatus());
 
       // Handle symbol subscription
-      socket.on('subscribe_symbol', (data: { symbol: string; exchange: string; userId: string }) => {
-        this.subscribeToSymbol(data.symbol, data.exchange, data.userId, socket.id);
+      socket.on('subscribe_symbol', (data: { symbol: string; exchange: string; userId: string; depth?: boolean }) => {
+        this.subscribeToSymbol(data.symbol, data.exchange, socket.id, !!data.depth);
       });
 
       // Handle symbol unsubscription
@@ -86,17 +175,11 @@ class RealTimeDataService {
   /**
    * Subscribe to symbol price updates
    */
-  private subscribeToSymbol(symbol: string, exchange: string, userId: string, socketId: string): void {
+  private subscribeToSymbol(symbol: string, exchange: string, socketId: string, depth: boolean): void {
     const key = `${symbol}:${exchange}`;
-    
-    if (!this.subscriptions.has(key)) {
-      this.subscriptions.set(key, new Set());
-    }
+    this.applyUpstreamChange(this.subscriptions.add(key, socketId, depth));
 
-    const subscription: PriceSubscription = { symbol, exchange, userId, socketId };
-    this.subscriptions.get(key)!.add(subscription);
-
-    console.log(`📈 Client ${socketId} subscribed to ${symbol} on ${exchange}`);
+    console.log(`📈 Client ${socketId} subscribed to ${symbol} on ${exchange}${depth ? ' with depth' : ''}`);
 
     // Send cached price immediately if available
     const cachedPrice = this.priceCache.get(key);
@@ -110,35 +193,24 @@ class RealTimeDataService {
    */
   private unsubscribeFromSymbol(symbol: string, exchange: string, socketId: string): void {
     const key = `${symbol}:${exchange}`;
-    const subscriptions = this.subscriptions.get(key);
-    
-    if (subscriptions) {
-      // Remove subscriptions for this socket
-      const toRemove = Array.from(subscriptions).filter(sub => sub.socketId === socketId);
-      toRemove.forEach(sub => subscriptions.delete(sub));
-
-      // Clean up empty subscription sets
-      if (subscriptions.size === 0) {
-        this.subscriptions.delete(key);
-      }
+    this.applyUpstreamChange(this.subscriptions.remove(key, socketId));
+    this.pendingUpdates.get(socketId)?.delete(key);
 
-      console.log(`📉 Client ${socketId} unsubscribed from ${symbol} on ${exchange}`);
-    }
+    console.log(`📉 Client ${socketId} unsubscribed from ${symbol} on ${exchange}`);
   }
 
   /**
    * Handle client disconnect - clean up all subscriptions
    */
   private handleClientDisconnect(socketId: string): void {
-    for (const [key, subscriptions] of this.subscriptions.entries()) {
-      const toRemove = Array.from(subscriptions).filter(sub => sub.socketId === socketId);
-      toRemove.forEach(sub => subscriptions.delete(sub));
+    this.subscriptions.removeClient(socketId).forEach(change => this.applyUpstreamChange(change));
 
-      // Clean up empty subscription sets
-      if (subscriptions.size === 0) {
-        this.subscriptions.delete(key);
-      }
+    const timer = this.flushTimers.get(socketId);
+    if (timer) {
+      clearTimeout(timer);
+      this.flushTimers.delete(socketId);
     }
+    this.pendingUpdates.delete(socketId);
   }
 
   /**
@@ -158,61 +230,56 @@ class RealTimeDataService {
   }
 
   /**
-   * Update prices for all subscribed symbols
+   * Poll prices for subscribed symbols the broker feed is not streaming
    */
   private async updatePrices(): Promise<void> {
     if (!this.io || this.subscriptions.size === 0) return;
 
-    const symbols = Array.from(this.subscriptions.keys());
-    
+    const symbols = this.subscriptions.keys().filter(key => !marketDataFeedService.isStreaming(key));
+
     for (const key of symbols) {
       try {
         const [symbol, exchange] = key.split(':');
         if (!symbol || !exchange) continue;
 
-        const quote = await nseService.getQuoteInfo(symbol);
+        // Outside market hours prices do not move: one quote for the last close is enough
+        if (this.priceCache.has(key) && !marketClockService.isSessionActive(getSegmentForExchange(exchange))) continue;
+
+        // NSE with Yahoo Finance as its fallback
+        const quote = await marketDataService.getPrice(symbol, exchange);
 
         if (quote) {
           const livePrice: LivePrice = {
             symbol,
-            price: quote.lastPrice || 0,
-            change: quote.change || 0,
-            changePercent: quote.pChange || 0,
-            volume: 0, // NSE API doesn't provide volume in this format
+            price: quote.price,
+            change: quote.change,
+            changePercent: quote.changePercent,
+            volume: quote.volume,
             timestamp: new Date(),
-            exchange
+            exchange,
+            source: 'realtime_service'
           };
 
           // Cache the price
           this.priceCache.set(key, livePrice);
+          candleService.recordTick(symbol, exchange, quote.price, quote.volume, livePrice.timestamp);
 
-          // Emit to all subscribers with enhanced event data
-          const subscriptions = this.subscriptions.get(key);
-          if (subscriptions) {
-            for (const subscription of subscriptions) {
-              this.io.to(subscription.socketId).emit('price_update', {
-                ...livePrice,
-                eventId: `price_${symbol}_${Date.now()}`,
-                source: 'realtime_service'
-              });
-            }
+          for (const socketId of this.subscriptions.getClients(key)) {
+            this.queueUpdate(socketId, key, livePrice);
           }
         }
       } catch (error) {
         console.warn(`⚠️ Failed to update price for ${key}:`, error);
         
         // Emit error event for failed price updates
-        const subscriptions = this.subscriptions.get(key);
-        if (subscriptions) {
-          for (const subscription of subscriptions) {
-            this.io.to(subscription.socketId).emit('price_update_error', {
-              symbol: key.split(':')[0],
-              exchange: key.split(':')[1],
-              error: error instanceof Error ? error.message : 'Unknown error',
-              timestamp: new Date(),
-              eventId: `price_error_${key}_${Date.now()}`
-            });
-          }
+        for (const socketId of this.subscriptions.getClients(key)) {
+          this.io.to(socketId).emit('price_update_error', {
+            symbol: key.split(':')[0],
+            exchange: key.split(':')[1],
+            error: error instanceof Error ? error.message : 'Unknown error',
+            timestamp: new Date(),
+            eventId: `price_error_${key}_${Date.now()}`
+          });
         }
       }
 
@@ -232,12 +299,22 @@ class RealTimeDataService {
   }
 
   /**
-   * Broadcast market status updates - DISABLED
-   * Disabled due to NSE API reliability issues causing timeouts
+   * Broadcast the market clock's session to every client
    */
-  async broadcastMarketStatus(): Promise<void> {
-    console.log('📢 Market status broadcast disabled due to API reliability issues');
-    return;
+  broadcastMarketStatus(): void {
+    if (!this.io) return;
+    this.io.emit('market_status_update', marketClockService.getMarketStatus());
+  }
+
+  /**
+   * Latest streamed or polled price for a symbol, if it is recent enough
+   */
+  getLatestPrice(symbol: string, exchange: string, maxAgeMs: number): LivePrice | null {
+    const cached = this.priceCache.get(`${symbol}:${exchange}`);
+    if (!cached || Date.now() - new Date(cached.timestamp).getTime() > maxAgeMs) {
+      return null;
+    }
+    return cached;
   }
 
   /**
@@ -249,6 +326,8 @@ class RealTimeDataService {
       status: 'active',
       connectedClients: this.io?.sockets.sockets.size || 0,
       activeSubscriptions: this.subscriptions.size,
+      streamedSymbols: this.subscriptions.keys().filter(key => marketDataFeedService.isStreaming(key)).length,
+      marketFeed: marketDataFeedService.getStatus(),
       cachedPrices: this.priceCache.size,
       updateFrequency: this.UPDATE_FREQUENCY,
       lastUpdate: new Date().toISOString()
@@ -263,8 +342,14 @@ class RealTimeDataService {
       clearInterval(this.updateInterval);
       this.updateInterval = null;
     }
-    
-    this.subscriptions.clear();
+    this.flushTimers.forEach(timer => clearTimeout(timer));
+    this.flushTimers.clear();
+    this.pendingUpdates.clear();
+    marketDataFeedService.removeAllListeners();
+    this.unsubscribeMarketClock?.();
+    this.unsubscribeMarketClock = null;
+
+    this.subscriptions = new SymbolSubscriptionRegistry();
     this.priceCache.clear();
     
     console.log('🛑 Real-time data service stopped');
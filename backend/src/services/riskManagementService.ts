@@ -0,0 +1,291 @@
+/**
+ * Risk Management Service
+ * Pre-trade checks run before an order reaches the broker. A user can keep a
+ * user-wide limit set and a limit set per connected account; an order must
+ * pass every enabled set that applies to the account it is placed on.
+ */
+
+import { userDatabase } from './databaseCompatibility';
+import { marketDataService } from './marketDataService';
+import { OrderHistory, RiskLimits } from '../interfaces/IDatabaseAdapter';
+import { toProductType } from '../utils/advancedOrderRules';
+
+export type RiskRule =
+  | 'RESTRICTED_SYMBOL'
+  | 'EXCHANGE_NOT_ALLOWED'
+  | 'PRODUCT_NOT_ALLOWED'
+  | 'MAX_ORDER_VALUE'
+  | 'MAX_QUANTITY_PER_SYMBOL'
+  | 'MAX_OPEN_POSITIONS'
+  | 'DAILY_LOSS_LIMIT'
+  | 'MAX_ORDERS_PER_MINUTE';
+
+export type RiskScope = 'USER' | 'ACCOUNT';
+
+export interface RiskViolation {
+  rule: RiskRule;
+  scope: RiskScope;
+  message: string;
+}
+
+export interface RiskCheckResult {
+  allowed: boolean;
+  violations: RiskViolation[];
+}
+
+export interface RiskCheckOrder {
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  exchange: string;
+  productType?: string | undefined;
+  price?: number | undefined;
+  triggerPrice?: number | undefined;
+}
+
+/**
+ * Today's filled quantity and value in one symbol
+ */
+export interface SymbolExposure {
+  buyQuantity: number;
+  buyValue: number;
+  sellQuantity: number;
+  sellValue: number;
+}
+
+/**
+ * Trading state the limits are evaluated against
+ */
+export interface RiskExposure {
+  referencePrice: number; // price used to value the order (0 when unknown)
+  positions: Record<string, SymbolExposure>;
+  dayPnl: number;
+  recentOrderCount: number; // orders placed in the last minute
+}
+
+const ORDER_RATE_WINDOW_MS = 60 * 1000;
+const FILLED_STATUSES = ['EXECUTED', 'PARTIALLY_FILLED'];
+
+export function normalizeRiskSymbol(symbol: string): string {
+  return symbol.trim().toUpperCase().replace(/-EQ$/, '');
+}
+
+const netQuantity = (exposure?: SymbolExposure): number =>
+  exposure ? exposure.buyQuantity - exposure.sellQuantity : 0;
+
+/**
+ * Aggregate today's filled orders per symbol
+ */
+export function summarizePositions(orders: OrderHistory[]): Record<string, SymbolExposure> {
+  const positions: Record<string, SymbolExposure> = {};
+
+  for (const order of orders) {
+    if (!FILLED_STATUSES.includes(order.status)) continue;
+
+    const quantity = order.executed_quantity || order.quantity;
+    const price = order.average_price || order.price;
+    const symbol = normalizeRiskSymbol(order.symbol);
+    const exposure = positions[symbol] || (positions[symbol] = { buyQuantity: 0, buyValue: 0, sellQuantity: 0, sellValue: 0 });
+
+    if (order.action === 'BUY') {
+      exposure.buyQuantity += quantity;
+      exposure.buyValue += quantity * price;
+    } else {
+      exposure.sellQuantity += quantity;
+      exposure.sellValue += quantity * price;
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Realized P&L on the matched quantity plus mark-to-market on the open
+ * quantity. Open quantity without a known last price is not marked.
+ */
+export function calculateDayPnl(positions: Record<string, SymbolExposure>, lastPrices: Record<string, number>): number {
+  let pnl = 0;
+
+  for (const [symbol, exposure] of Object.entries(positions)) {
+    const avgBuy = exposure.buyQuantity > 0 ? exposure.buyValue / exposure.buyQuantity : 0;
+    const avgSell = exposure.sellQuantity > 0 ? exposure.sellValue / exposure.sellQuantity : 0;
+    const matched = Math.min(exposure.buyQuantity, exposure.sellQuantity);
+    pnl += matched * (avgSell - avgBuy);
+
+    const open = netQuantity(exposure);
+    const lastPrice = lastPrices[symbol];
+    if (open !== 0 && lastPrice && lastPrice > 0) {
+      pnl += open > 0 ? open * (lastPrice - avgBuy) : -open * (avgSell - lastPrice);
+    }
+  }
+
+  return pnl;
+}
+
+/**
+ * Orders placed since the given time. Orders blocked by the risk checks do
+ * not count, so a rejected burst does not keep the user locked out.
+ */
+export function countRecentOrders(orders: OrderHistory[], since: Date): number {
+  return orders.filter(order =>
+    order.error_type !== 'RISK' && new Date(order.created_at || order.executed_at).getTime() >= since.getTime()
+  ).length;
+}
+
+/**
+ * Evaluate one limit set against an order
+ */
+export function evaluateRiskLimits(
+  limits: RiskLimits,
+  scope: RiskScope,
+  order: RiskCheckOrder,
+  exposure: RiskExposure
+): RiskViolation[] {
+  if (!limits.is_enabled) {
+    return [];
+  }
+
+  const violations: RiskViolation[] = [];
+  const label = scope === 'USER' ? 'User' : 'Account';
+  const violate = (rule: RiskRule, message: string) => violations.push({ rule, scope, message: `${label} limit: ${message}` });
+
+  const symbol = normalizeRiskSymbol(order.symbol);
+  if (limits.restricted_symbols.some(restricted => normalizeRiskSymbol(restricted) === symbol)) {
+    violate('RESTRICTED_SYMBOL', `${symbol} is on the restricted symbol list`);
+  }
+
+  if (limits.allowed_exchanges.length > 0 && !limits.allowed_exchanges.includes(order.exchange)) {
+    violate('EXCHANGE_NOT_ALLOWED', `trading on ${order.exchange} is not allowed`);
+  }
+
+  const productType = toProductType(order.productType || 'CNC');
+  if (limits.allowed_products.length > 0 && !limits.allowed_products.map(toProductType).includes(productType)) {
+    violate('PRODUCT_NOT_ALLOWED', `${productType} orders are not allowed`);
+  }
+
+  if (limits.max_order_value) {
+    const orderValue = order.quantity * exposure.referencePrice;
+    // An order that can't be valued can't be shown to be under the cap
+    if (exposure.referencePrice <= 0) {
+      violate('MAX_ORDER_VALUE', `no price is available for ${symbol} to check the order value against ₹${limits.max_order_value}`);
+    } else if (orderValue > limits.max_order_value) {
+      violate('MAX_ORDER_VALUE', `order value ₹${orderValue.toFixed(2)} exceeds ₹${limits.max_order_value}`);
+    }
+  }
+
+  const currentQuantity = netQuantity(exposure.positions[symbol]);
+  const resultingQuantity = currentQuantity + (order.action === 'BUY' ? order.quantity : -order.quantity);
+  const reducesPosition = Math.abs(resultingQuantity) < Math.abs(currentQuantity) && Math.sign(resultingQuantity) !== -Math.sign(currentQuantity);
+
+  if (limits.max_quantity_per_symbol && Math.abs(resultingQuantity) > limits.max_quantity_per_symbol && !reducesPosition) {
+    violate('MAX_QUANTITY_PER_SYMBOL', `position in ${symbol} would be ${Math.abs(resultingQuantity)}, above ${limits.max_quantity_per_symbol}`);
+  }
+
+  if (limits.max_open_positions && currentQuantity === 0 && resultingQuantity !== 0) {
+    const openPositions = Object.values(exposure.positions).filter(position => netQuantity(position) !== 0).length;
+    if (openPositions >= limits.max_open_positions) {
+      violate('MAX_OPEN_POSITIONS', `${openPositions} positions already open (max ${limits.max_open_positions})`);
+    }
+  }
+
+  // Once the loss limit is hit only orders that reduce an open position go through
+  if (limits.daily_loss_limit && exposure.dayPnl <= -limits.daily_loss_limit && !reducesPosition) {
+    violate('DAILY_LOSS_LIMIT', `day loss ₹${(-exposure.dayPnl).toFixed(2)} has reached ₹${limits.daily_loss_limit}`);
+  }
+
+  if (limits.max_orders_per_minute && exposure.recentOrderCount >= limits.max_orders_per_minute) {
+    violate('MAX_ORDERS_PER_MINUTE', `${exposure.recentOrderCount} orders placed in the last minute (max ${limits.max_orders_per_minute})`);
+  }
+
+  return violations;
+}
+
+const startOfMarketDay = (now: Date): Date => {
+  const marketDate = now.toLocaleDateString('en-CA', { timeZone: 'Asia/Kolkata' });
+  return new Date(`${marketDate}T00:00:00+05:30`);
+};
+
+class RiskManagementService {
+  /**
+   * Check an order against the user-wide and account limits
+   */
+  async checkOrder(userId: string, accountId: string, order: RiskCheckOrder): Promise<RiskCheckResult> {
+    const [userLimits, accountLimits] = await Promise.all([
+      userDatabase.getRiskLimits(userId, null),
+      userDatabase.getRiskLimits(userId, accountId)
+    ]);
+
+    const limitSets = [
+      ...(userLimits?.is_enabled ? [{ limits: userLimits, scope: 'USER' as const }] : []),
+      ...(accountLimits?.is_enabled ? [{ limits: accountLimits, scope: 'ACCOUNT' as const }] : [])
+    ];
+    if (limitSets.length === 0) {
+      return { allowed: true, violations: [] };
+    }
+
+    const now = new Date();
+    const startDate = startOfMarketDay(now).toISOString();
+    const [todaysOrders, accountOrders] = await Promise.all([
+      userLimits?.is_enabled ? userDatabase.getOrderHistoryByUserIdWithFilters(userId, 1000, 0, { startDate }) : [],
+      accountLimits?.is_enabled ? userDatabase.getOrderHistoryByUserIdWithFilters(userId, 1000, 0, { startDate, accountId }) : []
+    ]);
+
+    const needsPrice = limitSets.some(({ limits }) => limits.max_order_value);
+    const needsPnl = limitSets.some(({ limits }) => limits.daily_loss_limit);
+    const referencePrice = needsPrice ? await this.getReferencePrice(order) : 0;
+    const since = new Date(now.getTime() - ORDER_RATE_WINDOW_MS);
+
+    const violations: RiskViolation[] = [];
+    for (const { limits, scope } of limitSets) {
+      const orders = scope === 'USER' ? todaysOrders : accountOrders;
+      const positions = summarizePositions(orders);
+      const lastPrices = needsPnl ? await this.getLastPrices(positions, order.exchange) : {};
+
+      violations.push(...evaluateRiskLimits(limits, scope, order, {
+        referencePrice,
+        positions,
+        dayPnl: calculateDayPnl(positions, lastPrices),
+        recentOrderCount: countRecentOrders(orders, since)
+      }));
+    }
+
+    return { allowed: violations.length === 0, violations };
+  }
+
+  private async getReferencePrice(order: RiskCheckOrder): Promise<number> {
+    if (order.price && order.price > 0) {
+      return order.price;
+    }
+    if (order.triggerPrice && order.triggerPrice > 0) {
+      return order.triggerPrice;
+    }
+
+    try {
+      const marketPrice = await marketDataService.getPrice(normalizeRiskSymbol(order.symbol), order.exchange);
+      return marketPrice?.price || 0;
+    } catch (error) {
+      console.error(`🚨 Failed to get reference price for ${order.symbol}:`, error);
+      return 0;
+    }
+  }
+
+  private async getLastPrices(positions: Record<string, SymbolExposure>, exchange: string): Promise<Record<string, number>> {
+    const lastPrices: Record<string, number> = {};
+    const openSymbols = Object.keys(positions).filter(symbol => netQuantity(positions[symbol]) !== 0);
+
+    await Promise.all(openSymbols.map(async symbol => {
+      try {
+        const marketPrice = await marketDataService.getPrice(symbol, exchange);
+        if (marketPrice?.price) {
+          lastPrices[symbol] = marketPrice.price;
+        }
+      } catch (error) {
+        console.error(`🚨 Failed to get last price for ${symbol}:`, error);
+      }
+    }));
+
+    return lastPrices;
+  }
+}
+
+export const riskManagementService = new RiskManagementService();
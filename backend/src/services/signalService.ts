@@ -0,0 +1,122 @@
+/**
+ * Signal Service
+ * Log of the order signals received through API keys. Every signal is stored
+ * before it is acted on, so a retry with the same idempotency key gets the
+ * first attempt's result instead of placing the orders again.
+ */
+
+import { userDatabase } from './databaseCompatibility';
+import { AccountOrderResult } from './orderPlacementService';
+import { ApiKey, Signal, SignalOrder, SignalStatus } from '../interfaces/IDatabaseAdapter';
+
+export function toSignalOrders(successfulOrders: AccountOrderResult[], failedOrders: AccountOrderResult[]): SignalOrder[] {
+  const toOrder = (result: AccountOrderResult, success: boolean): SignalOrder => ({
+    account_id: result.accountId,
+    broker_name: result.brokerName,
+    order_history_id: result.orderHistoryId || null,
+    broker_order_id: result.orderId || null,
+    quantity: result.quantity ?? 0,
+    success,
+    error: result.error || null
+  });
+
+  return [
+    ...successfulOrders.map(result => toOrder(result, true)),
+    ...failedOrders.map(result => toOrder(result, false))
+  ];
+}
+
+export function getSignalStatus(orders: SignalOrder[]): SignalStatus {
+  const placed = orders.filter(order => order.success).length;
+  if (orders.length > 0 && placed === orders.length) {
+    return 'COMPLETED';
+  }
+  return placed > 0 ? 'PARTIAL' : 'FAILED';
+}
+
+class SignalService {
+  /**
+   * Log a newly received signal. A signal whose idempotency key the API key
+   * has already used returns the earlier signal, marked as a duplicate.
+   */
+  async receive(
+    apiKey: ApiKey,
+    payload: Record<string, any>,
+    idempotencyKey: string | null,
+    sourceIp: string | null
+  ): Promise<{ signal: Signal; duplicate: boolean }> {
+    if (idempotencyKey) {
+      const existing = await userDatabase.getSignalByIdempotencyKey(apiKey.id, idempotencyKey);
+      if (existing) {
+        return { signal: existing, duplicate: true };
+      }
+    }
+
+    try {
+      const signal = await userDatabase.createSignal({
+        user_id: apiKey.user_id,
+        api_key_id: apiKey.id,
+        idempotency_key: idempotencyKey,
+        payload,
+        source_ip: sourceIp
+      });
+      return { signal, duplicate: false };
+    } catch (error) {
+      // The same signal delivered twice at once: the other delivery won
+      const existing = idempotencyKey ? await userDatabase.getSignalByIdempotencyKey(apiKey.id, idempotencyKey) : null;
+      if (existing) {
+        return { signal: existing, duplicate: true };
+      }
+      throw error;
+    }
+  }
+
+  async reject(signal: Signal, error: string, read: { accountGroup?: string | null; order?: Record<string, any> } = {}): Promise<Signal> {
+    const updated = await userDatabase.updateSignal(signal.id, {
+      status: 'REJECTED',
+      error,
+      ...(read.accountGroup !== undefined && { account_group: read.accountGroup }),
+      ...(read.order !== undefined && { order: read.order }),
+      completed_at: new Date().toISOString()
+    });
+    return updated || signal;
+  }
+
+  /**
+   * End a signal that broke off while it was being processed, so a retry with
+   * its idempotency key gets this result rather than waiting on it forever
+   */
+  async fail(signal: Signal, error: string): Promise<Signal> {
+    const updated = await userDatabase.updateSignal(signal.id, {
+      status: 'FAILED',
+      error,
+      completed_at: new Date().toISOString()
+    });
+    return updated || signal;
+  }
+
+  /**
+   * Store the orders a signal produced
+   */
+  async complete(
+    signal: Signal,
+    accountGroup: string,
+    order: Record<string, any>,
+    successfulOrders: AccountOrderResult[],
+    failedOrders: AccountOrderResult[]
+  ): Promise<Signal> {
+    const orders = toSignalOrders(successfulOrders, failedOrders);
+    const status = getSignalStatus(orders);
+    const updated = await userDatabase.updateSignal(signal.id, {
+      status,
+      account_group: accountGroup,
+      order,
+      orders,
+      error: status === 'FAILED' ? 'No orders were placed' : null,
+      completed_at: new Date().toISOString()
+    });
+    return updated || signal;
+  }
+}
+
+export const signalService = new SignalService();
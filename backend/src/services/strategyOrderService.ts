@@ -0,0 +1,265 @@
+/**
+ * Strategy Order Service
+ * Places multi-leg option strategies (spreads, straddles, strangles, iron
+ * condors) as one basket on every selected account. Legs go out hedge first;
+ * when a leg fails the legs already placed on that account are rolled back or
+ * left in place with an alert, as the user chose.
+ */
+
+import { logger } from '../utils/logger';
+import { userDatabase } from './databaseCompatibility';
+import { enhancedUnifiedBrokerManager } from './enhancedUnifiedBrokerManager';
+import websocketService from './websocketService';
+import { notificationService } from './notificationService';
+import { derivativesCSVService } from './derivativesCSVService';
+import { BaseOrderRequest, placeOrderOnAccount } from './orderPlacementService';
+import {
+  ConnectedAccount,
+  StrategyAccountResult,
+  StrategyLeg,
+  StrategyLegFailureAction,
+  StrategyOrder,
+  StrategyOrderStatus,
+  StrategyType
+} from '../interfaces/IDatabaseAdapter';
+import { StrategyMetrics, computeStrategyMetrics, orderLegsForExecution } from '../utils/strategyPayoff';
+
+export interface StrategyOrderRequest {
+  name: string;
+  strategyType: StrategyType;
+  underlying?: string | undefined;
+  legs: StrategyLeg[];
+  onLegFailure: StrategyLegFailureAction;
+}
+
+export interface StrategyLegError {
+  legIndex: number;
+  error: string;
+}
+
+export interface StrategyPreview extends StrategyMetrics {
+  executionOrder: number[]; // leg indexes in the order they are placed
+  legErrors: StrategyLegError[];
+}
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+class StrategyOrderService {
+  /**
+   * Payoff, execution order and lot size problems of a strategy before it is placed
+   */
+  preview(legs: StrategyLeg[]): StrategyPreview {
+    return {
+      ...computeStrategyMetrics(legs),
+      executionOrder: orderLegsForExecution(legs),
+      legErrors: this.validateLegs(legs)
+    };
+  }
+
+  /**
+   * Legs must be whole lots; a bad leg fails the strategy before anything is sent
+   */
+  validateLegs(legs: StrategyLeg[]): StrategyLegError[] {
+    return legs.flatMap((leg, legIndex) => {
+      const error = derivativesCSVService.validateOrderQuantity(leg.exchange, leg.symbol, leg.quantity);
+      return error ? [{ legIndex, error }] : [];
+    });
+  }
+
+  async getStrategyOrders(userId: string, limit: number = DEFAULT_HISTORY_LIMIT): Promise<StrategyOrder[]> {
+    return await userDatabase.getStrategyOrdersByUserId(userId, limit);
+  }
+
+  /**
+   * Record the strategy and place its legs on each account in turn. Every
+   * account gets the same leg quantities.
+   */
+  async placeStrategyOrder(userId: string, accounts: ConnectedAccount[], request: StrategyOrderRequest): Promise<StrategyOrder> {
+    const metrics = computeStrategyMetrics(request.legs);
+    const strategy = await userDatabase.createStrategyOrder({
+      user_id: userId,
+      name: request.name,
+      strategy_type: request.strategyType,
+      underlying: request.underlying,
+      legs: request.legs,
+      net_premium: metrics.netPremium,
+      max_profit: metrics.maxProfit,
+      max_loss: metrics.maxLoss,
+      breakevens: metrics.breakevens,
+      on_leg_failure: request.onLegFailure,
+      status: 'PENDING',
+      account_results: []
+    });
+
+    const executionOrder = orderLegsForExecution(request.legs);
+    const accountResults: StrategyAccountResult[] = [];
+    for (const account of accounts) {
+      accountResults.push(await this.placeOnAccount(userId, account, strategy, executionOrder));
+    }
+
+    const status = this.getOverallStatus(accountResults);
+    const updated = await userDatabase.updateStrategyOrder(strategy.id, { status, account_results: accountResults });
+    const result = updated || { ...strategy, status, account_results: accountResults };
+
+    logger.info('Strategy order processed', {
+      component: 'STRATEGY_ORDER_SERVICE',
+      operation: 'PLACE_STRATEGY_ORDER',
+      userId,
+      strategyOrderId: strategy.id,
+      strategyStatus: status,
+      accountCount: accounts.length
+    });
+
+    websocketService.sendToUser(userId, 'strategyOrderUpdate', {
+      strategyOrder: result,
+      timestamp: result.updated_at
+    });
+
+    return result;
+  }
+
+  /**
+   * Place the legs one by one and stop at the first failure
+   */
+  private async placeOnAccount(
+    userId: string,
+    account: ConnectedAccount,
+    strategy: StrategyOrder,
+    executionOrder: number[]
+  ): Promise<StrategyAccountResult> {
+    const accountId = account.id.toString();
+    const placedLegs: StrategyAccountResult['placed_legs'] = [];
+
+    for (const legIndex of executionOrder) {
+      const leg = strategy.legs[legIndex]!;
+      const orderRequest: BaseOrderRequest = {
+        symbol: leg.symbol,
+        action: leg.action,
+        quantity: leg.quantity,
+        orderType: leg.order_type,
+        price: leg.order_type === 'LIMIT' ? leg.price : undefined,
+        exchange: leg.exchange,
+        productType: leg.product_type,
+        validity: 'DAY',
+        remarks: `${strategy.name} - leg ${legIndex + 1}/${strategy.legs.length}`
+      };
+
+      const { success, result } = await placeOrderOnAccount(userId, account, orderRequest, {
+        source: 'STRATEGY',
+        strategy_order_id: strategy.id,
+        strategy_leg: legIndex
+      });
+      if (success && result.orderId) {
+        placedLegs.push({ leg_index: legIndex, broker_order_id: result.orderId });
+        continue;
+      }
+
+      const error = result.error || 'Leg placement failed';
+      const rollback = strategy.on_leg_failure === 'ROLLBACK' && placedLegs.length > 0;
+      const rollbackErrors = rollback ? await this.rollbackLegs(userId, account, strategy, placedLegs) : [];
+      const accountResult: StrategyAccountResult = {
+        account_id: accountId,
+        status: placedLegs.length === 0 ? 'FAILED' : rollback && rollbackErrors.length === 0 ? 'ROLLED_BACK' : 'PARTIALLY_PLACED',
+        placed_legs: placedLegs,
+        failed_leg: legIndex,
+        error,
+        ...(rollbackErrors.length > 0 && { rollback_errors: rollbackErrors })
+      };
+
+      logger.warn('Strategy leg failed', {
+        component: 'STRATEGY_ORDER_SERVICE',
+        operation: 'PLACE_LEG',
+        strategyOrderId: strategy.id,
+        accountId,
+        legIndex,
+        strategyStatus: accountResult.status,
+        error
+      });
+
+      // Nothing was placed on the account, so there is nothing to act on
+      if (placedLegs.length > 0) {
+        await notificationService.sendStrategyOrderNotification(userId, {
+          strategyOrderId: strategy.id,
+          name: strategy.name,
+          status: accountResult.status,
+          account: `${account.broker_name} (${account.account_id})`,
+          failedLeg: leg.symbol,
+          error,
+          rolledBack: accountResult.status === 'ROLLED_BACK',
+          timestamp: new Date().toISOString()
+        });
+      }
+      return accountResult;
+    }
+
+    return { account_id: accountId, status: 'PLACED', placed_legs: placedLegs };
+  }
+
+  /**
+   * Undo the placed legs, newest first: cancel them while still open,
+   * otherwise close the filled quantity with a market order
+   */
+  private async rollbackLegs(
+    userId: string,
+    account: ConnectedAccount,
+    strategy: StrategyOrder,
+    placedLegs: StrategyAccountResult['placed_legs']
+  ): Promise<string[]> {
+    const errors: string[] = [];
+    const brokerService = enhancedUnifiedBrokerManager.getBrokerService(userId, account.broker_name, account.account_id);
+
+    for (const placed of [...placedLegs].reverse()) {
+      const leg = strategy.legs[placed.leg_index]!;
+
+      try {
+        const cancelResult = brokerService ? await brokerService.cancelOrder(placed.broker_order_id) : null;
+        if (cancelResult?.success) {
+          await userDatabase.updateOrderStatusByBrokerOrderId(placed.broker_order_id, 'CANCELLED');
+          continue;
+        }
+      } catch (error: any) {
+        // Already filled orders can't be cancelled; square them off below
+        logger.debug('Strategy leg cancellation failed, squaring off instead', {
+          component: 'STRATEGY_ORDER_SERVICE',
+          operation: 'ROLLBACK_LEG',
+          brokerOrderId: placed.broker_order_id
+        }, error);
+      }
+
+      const orderRequest: BaseOrderRequest = {
+        symbol: leg.symbol,
+        action: leg.action === 'BUY' ? 'SELL' : 'BUY',
+        quantity: leg.quantity,
+        orderType: 'MARKET',
+        exchange: leg.exchange,
+        productType: leg.product_type,
+        validity: 'DAY',
+        remarks: `${strategy.name} - rollback of leg ${placed.leg_index + 1}`
+      };
+
+      // Closing a hedged position must not be blocked by the checks that guard new risk
+      const { success, result } = await placeOrderOnAccount(userId, account, orderRequest, {
+        source: 'STRATEGY',
+        strategy_order_id: strategy.id,
+        strategy_leg: placed.leg_index
+      }, { bypassPreTradeChecks: true });
+      if (!success) {
+        errors.push(`${leg.symbol}: ${result.error || 'Rollback order failed'}`);
+      }
+    }
+
+    return errors;
+  }
+
+  private getOverallStatus(accountResults: StrategyAccountResult[]): StrategyOrderStatus {
+    if (accountResults.every(result => result.status === 'PLACED')) {
+      return 'PLACED';
+    }
+    if (accountResults.some(result => result.status === 'PLACED' || result.status === 'PARTIALLY_PLACED')) {
+      return 'PARTIALLY_PLACED';
+    }
+    return accountResults.some(result => result.status === 'ROLLED_BACK') ? 'ROLLED_BACK' : 'FAILED';
+  }
+}
+
+export const strategyOrderService = new StrategyOrderService();
@@ -1,18 +1,31 @@
 import { nseService, NSESymbol } from './nseService';
 import { nseCSVService, NSESymbolData } from './nseCSVService';
 import { bseCSVService, BSESymbolData } from './bseCSVService';
+import { derivativesCSVService } from './derivativesCSVService';
+import { MarketStatusSummary, marketClockService } from './marketClockService';
+import { DerivativeExchange, InstrumentType, OptionType, isDerivativeExchange } from '../utils/derivativeInstruments';
+
+export type SymbolExchange = 'NSE' | 'BSE' | DerivativeExchange;
 
 // Unified symbol interface for multi-exchange support
 export interface UnifiedSymbol {
   symbol: string;           // Display symbol (TCS, AAKASH)
   tradingSymbol: string;    // Exchange-specific format (TCS-EQ for NSE, TCS for BSE)
   name: string;
-  exchange: 'NSE' | 'BSE';
+  exchange: SymbolExchange;
   isin: string;
   series?: string;          // NSE: EQ, BE, etc.
   group?: string;           // BSE: A, B, T, M, Z
   securityCode?: string;    // BSE specific
   status?: 'Active' | 'Suspended' | 'Delisted';
+  // Derivatives (NFO, BFO, MCX) only
+  underlying?: string;
+  instrumentType?: InstrumentType;
+  expiry?: string;          // YYYY-MM-DD
+  strike?: number;
+  optionType?: OptionType;
+  lotSize?: number;
+  tickSize?: number;
 }
 
 // BSE Symbol interface
@@ -36,9 +49,9 @@ class SymbolDatabaseService {
   }
 
   /**
-   * Search symbols across both NSE and BSE exchanges
+   * Search symbols across the equity (NSE, BSE) and derivative (NFO, BFO, MCX) exchanges
    */
-  async searchSymbols(query: string, limit: number = 10, exchange?: 'NSE' | 'BSE' | 'ALL'): Promise<UnifiedSymbol[]> {
+  async searchSymbols(query: string, limit: number = 10, exchange?: SymbolExchange | 'ALL'): Promise<UnifiedSymbol[]> {
     if (!query || query.length < 1) {
       return [];
     }
@@ -61,6 +74,12 @@ class SymbolDatabaseService {
         results.push(...bseResults);
       }
 
+      // Search futures and options
+      if (isDerivativeExchange(searchExchange) || searchExchange === 'ALL') {
+        const derivativeResults = this.searchDerivativeSymbols(query, limit, isDerivativeExchange(searchExchange) ? searchExchange : undefined);
+        results.push(...derivativeResults);
+      }
+
       // Sort by relevance and limit results
       const sortedResults = results
         .sort((a, b) => {
@@ -142,6 +161,32 @@ class SymbolDatabaseService {
     }
   }
 
+  /**
+   * Search futures and options in the derivatives instrument master
+   */
+  private searchDerivativeSymbols(query: string, limit: number, exchange?: DerivativeExchange): UnifiedSymbol[] {
+    try {
+      return derivativesCSVService.searchInstruments({ query, exchange, limit }).map(instrument => ({
+        symbol: instrument.tradingSymbol,
+        tradingSymbol: instrument.tradingSymbol,
+        name: instrument.name,
+        exchange: instrument.exchange,
+        isin: '',
+        status: 'Active' as const,
+        underlying: instrument.underlying,
+        instrumentType: instrument.instrumentType,
+        expiry: instrument.expiry,
+        ...(instrument.strike !== null && { strike: instrument.strike }),
+        ...(instrument.optionType && { optionType: instrument.optionType }),
+        lotSize: instrument.lotSize,
+        tickSize: instrument.tickSize
+      }));
+    } catch (error: any) {
+      console.error(`❌ Error searching derivative symbols:`, error.message);
+      return [];
+    }
+  }
+
   /**
    * Get service stats
    */
@@ -150,10 +195,11 @@ class SymbolDatabaseService {
       service: 'Multi-Exchange CSV + Live API',
       status: 'active',
       searchType: 'csv_primary_api_fallback',
-      supportedExchanges: ['NSE', 'BSE'],
+      supportedExchanges: ['NSE', 'BSE', 'NFO', 'BFO', 'MCX'],
       lastCheck: new Date().toISOString(),
       nseCSVServiceStats: nseCSVService.getStats(),
       bseCSVServiceStats: bseCSVService.getStats(),
+      derivativesCSVServiceStats: derivativesCSVService.getStats(),
       nseServiceStats: nseService.getStats()
     };
   }
@@ -167,10 +213,10 @@ class SymbolDatabaseService {
   }
 
   /**
-   * Get market status
+   * Get market status from the market clock rather than the NSE site
    */
-  async getMarketStatus(): Promise<any> {
-    return nseService.getMarketStatus();
+  async getMarketStatus(): Promise<MarketStatusSummary> {
+    return marketClockService.getMarketStatus();
   }
 
   /**
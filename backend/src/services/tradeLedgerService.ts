@@ -0,0 +1,156 @@
+/**
+ * Trade Ledger Service
+ * Records executed fills from the order history into the trade ledger and
+ * builds positions and realised P&L from it. The ledger is brought up to date
+ * on every read, so partial fills reported since the last read are picked up.
+ */
+
+import { logger } from '../utils/logger';
+import { userDatabase } from './databaseCompatibility';
+import { marketDataService } from './marketDataService';
+import type { MarketPrice } from './marketDataService';
+import { CreateLedgerFillData, LedgerFill } from '../interfaces/IDatabaseAdapter';
+import {
+  AggregatedLedgerPosition,
+  Ledger,
+  LedgerPosition,
+  LotMatchingMethod,
+  aggregateLedgerPositions,
+  buildLedger,
+  getUnrecordedFill,
+  getUnrealizedPnl
+} from '../utils/tradeLedger';
+
+export interface LedgerOptions {
+  accountId?: string | undefined;
+  method?: LotMatchingMethod | undefined;
+}
+
+export interface MarkedPosition<T extends LedgerPosition | AggregatedLedgerPosition> {
+  position: T;
+  lastPrice: number;
+  unrealizedPnl: number;
+}
+
+export interface LedgerPositions {
+  accounts: Array<MarkedPosition<LedgerPosition>>;
+  aggregated: Array<MarkedPosition<AggregatedLedgerPosition>>;
+}
+
+class TradeLedgerService {
+  // One sync per user at a time; concurrent reads share it
+  private syncs = new Map<string, Promise<number>>();
+
+  /**
+   * Record fills executed since the last sync. Returns the number recorded.
+   */
+  async syncFills(userId: string): Promise<number> {
+    const running = this.syncs.get(userId);
+    if (running) {
+      return running;
+    }
+
+    const sync = this.recordNewFills(userId).finally(() => this.syncs.delete(userId));
+    this.syncs.set(userId, sync);
+    return sync;
+  }
+
+  async getFills(userId: string, accountId?: string): Promise<LedgerFill[]> {
+    try {
+      await this.syncFills(userId);
+    } catch (error: any) {
+      // The recorded fills are still a consistent ledger, just not the latest one
+      logger.error('Failed to sync trade ledger', {
+        component: 'TRADE_LEDGER_SERVICE',
+        operation: 'SYNC_FILLS',
+        userId
+      }, error);
+    }
+    return await userDatabase.getLedgerFillsByUserId(userId, accountId);
+  }
+
+  async getLedger(userId: string, options: LedgerOptions = {}): Promise<Ledger> {
+    const fills = await this.getFills(userId, options.accountId);
+    return buildLedger(fills, options.method);
+  }
+
+  /**
+   * Open positions per account and netted across accounts, marked to market.
+   * Without a live price a position is marked at its average price.
+   */
+  async getOpenPositions(userId: string, options: LedgerOptions = {}): Promise<LedgerPositions> {
+    const { positions } = await this.getLedger(userId, options);
+    const open = positions.filter(position => position.quantity !== 0);
+
+    let marketPrices: Map<string, MarketPrice>;
+    try {
+      marketPrices = await marketDataService.getPrices(Array.from(new Set(open.map(position => position.symbol))));
+    } catch (error: any) {
+      logger.warn('Failed to fetch market prices for ledger positions', {
+        component: 'TRADE_LEDGER_SERVICE',
+        operation: 'GET_OPEN_POSITIONS',
+        userId
+      }, error);
+      marketPrices = new Map();
+    }
+
+    const mark = <T extends LedgerPosition | AggregatedLedgerPosition>(position: T): MarkedPosition<T> => {
+      const lastPrice = marketPrices.get(position.symbol)?.price || position.averagePrice;
+      return { position, lastPrice, unrealizedPnl: getUnrealizedPnl(position, lastPrice) };
+    };
+
+    return {
+      accounts: open.map(mark),
+      aggregated: aggregateLedgerPositions(open).map(mark)
+    };
+  }
+
+  private async recordNewFills(userId: string): Promise<number> {
+    const [orders, recorded] = await Promise.all([
+      userDatabase.getExecutedOrdersByUserId(userId),
+      userDatabase.getLedgerFillsByUserId(userId)
+    ]);
+
+    const recordedByOrder = new Map<string, LedgerFill[]>();
+    for (const fill of recorded) {
+      recordedByOrder.set(fill.order_history_id, [...(recordedByOrder.get(fill.order_history_id) || []), fill]);
+    }
+
+    const newFills: CreateLedgerFillData[] = [];
+    for (const order of orders) {
+      const orderHistoryId = order.id.toString();
+      const fill = getUnrecordedFill(order, recordedByOrder.get(orderHistoryId) || []);
+      if (!fill) {
+        continue;
+      }
+
+      newFills.push({
+        user_id: userId,
+        account_id: order.account_id.toString(),
+        order_history_id: orderHistoryId,
+        broker_name: order.broker_name,
+        symbol: order.symbol,
+        exchange: order.exchange,
+        action: order.action,
+        quantity: fill.quantity,
+        price: fill.price,
+        cumulative_quantity: fill.cumulativeQuantity,
+        executed_at: order.last_updated || order.executed_at
+      });
+    }
+
+    if (newFills.length > 0) {
+      await userDatabase.createLedgerFills(newFills);
+      logger.info('Trade ledger updated', {
+        component: 'TRADE_LEDGER_SERVICE',
+        operation: 'SYNC_FILLS',
+        userId,
+        fillCount: newFills.length
+      });
+    }
+
+    return newFills.length;
+  }
+}
+
+export const tradeLedgerService = new TradeLedgerService();
@@ -0,0 +1,161 @@
+/**
+ * Two-Factor Service
+ * TOTP (authenticator app) codes and single-use recovery codes for CopyTrade
+ * logins. Secrets are stored encrypted on the user; recovery codes are only
+ * stored as SHA-256 hashes and shown to the user once. Each authenticator
+ * code is accepted once: the user keeps the time step of the last one used.
+ */
+
+import crypto from 'crypto';
+import { authenticator } from 'otplib';
+import { User } from '../interfaces/IDatabaseAdapter';
+import { userDatabase } from './databaseCompatibility';
+
+export const TWO_FACTOR_ISSUER = 'CopyTrade Pro';
+
+export interface SecondFactorInput {
+  code?: string | undefined;
+  recoveryCode?: string | undefined;
+}
+
+export interface SecondFactorResult {
+  valid: boolean;
+  usedRecoveryCode: boolean;
+  remainingRecoveryCodes: number;
+  lockedOut: boolean;
+}
+
+class TwoFactorService {
+  private failedAttempts = new Map<string, { count: number; firstAt: number }>();
+  private readonly RECOVERY_CODE_COUNT = 10;
+  private readonly MAX_FAILED_ATTEMPTS = 5;
+  private readonly LOCKOUT_WINDOW_MS = 15 * 60 * 1000;
+
+  private readonly STEP_SECONDS = 30;
+
+  // Accept the previous and next 30 second step to allow for clock drift
+  private readonly totp = authenticator.clone({ window: 1, step: this.STEP_SECONDS });
+
+  generateSecret(): string {
+    return this.totp.generateSecret();
+  }
+
+  /**
+   * otpauth:// URL for the authenticator app (usually shown as a QR code)
+   */
+  getOtpAuthUrl(email: string, secret: string): string {
+    return this.totp.keyuri(email, TWO_FACTOR_ISSUER, secret);
+  }
+
+  verifyCode(secret: string, code: string): boolean {
+    return this.matchCodeStep(secret, code) !== null;
+  }
+
+  /**
+   * Time step the code was generated for, or null if it is not a valid code
+   */
+  matchCodeStep(secret: string, code: string, now: number = Date.now()): number | null {
+    const token = code.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(token)) {
+      return null;
+    }
+
+    try {
+      const delta = this.totp.clone({ epoch: now }).checkDelta(token, secret);
+      return delta === null ? null : Math.floor(now / 1000 / this.STEP_SECONDS) + delta;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * New set of recovery codes, with the hashes to store in their place
+   */
+  generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const value = crypto.randomBytes(5).toString('hex');
+      return `${value.slice(0, 5)}-${value.slice(5)}`;
+    });
+
+    return { codes, hashes: codes.map(code => this.hashRecoveryCode(code)) };
+  }
+
+  hashRecoveryCode(code: string): string {
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  /**
+   * Remaining hashes once the code is used up, or null if the code is not one of them
+   */
+  consumeRecoveryCode(hashes: string[], code: string): string[] | null {
+    const hash = this.hashRecoveryCode(code);
+    const index = hashes.indexOf(hash);
+    if (index === -1) {
+      return null;
+    }
+
+    return [...hashes.slice(0, index), ...hashes.slice(index + 1)];
+  }
+
+  /**
+   * Check an authenticator code or a recovery code for a user with 2FA enabled.
+   * An authenticator code no newer than the last accepted one is a replay, a
+   * recovery code that matches is removed so it cannot be used again, and
+   * after repeated wrong codes the user is locked out for a while.
+   */
+  async verifySecondFactor(user: User, input: SecondFactorInput, now: number = Date.now()): Promise<SecondFactorResult> {
+    const userId = user.id.toString();
+    const result: SecondFactorResult = {
+      valid: false,
+      usedRecoveryCode: false,
+      remainingRecoveryCodes: user.two_factor_recovery_codes.length,
+      lockedOut: false
+    };
+
+    if (this.isLockedOut(userId, now)) {
+      return { ...result, lockedOut: true };
+    }
+
+    if (user.two_factor_enabled && user.two_factor_secret) {
+      if (input.code) {
+        const step = this.matchCodeStep(user.two_factor_secret, input.code, now);
+        result.valid = step !== null && await userDatabase.claimTwoFactorStep(user.id, step);
+      } else if (input.recoveryCode) {
+        const remaining = this.consumeRecoveryCode(user.two_factor_recovery_codes, input.recoveryCode);
+        if (remaining) {
+          await userDatabase.updateUser(user.id, { two_factor_recovery_codes: remaining });
+          result.valid = true;
+          result.usedRecoveryCode = true;
+          result.remainingRecoveryCodes = remaining.length;
+        }
+      }
+    }
+
+    if (result.valid) {
+      this.failedAttempts.delete(userId);
+    } else {
+      this.recordFailure(userId, now);
+    }
+    return result;
+  }
+
+  isLockedOut(userId: string, now: number = Date.now()): boolean {
+    const attempts = this.failedAttempts.get(userId);
+    if (!attempts || now - attempts.firstAt > this.LOCKOUT_WINDOW_MS) {
+      return false;
+    }
+    return attempts.count >= this.MAX_FAILED_ATTEMPTS;
+  }
+
+  private recordFailure(userId: string, now: number): void {
+    const attempts = this.failedAttempts.get(userId);
+    if (!attempts || now - attempts.firstAt > this.LOCKOUT_WINDOW_MS) {
+      this.failedAttempts.set(userId, { count: 1, firstAt: now });
+      return;
+    }
+    attempts.count++;
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -0,0 +1,214 @@
+/**
+ * Webhook Service
+ * Sends order, account and alert events to the endpoints users subscribe in
+ * Settings. Each event becomes one stored delivery per subscription, POSTed
+ * with an HMAC signature. Failed deliveries are retried with backoff by a
+ * background worker and end up on the dead-letter list when retries run out.
+ */
+
+import axios from 'axios';
+import http from 'http';
+import https from 'https';
+import { logger } from '../utils/logger';
+import { userDatabase } from './databaseCompatibility';
+import { WebhookDelivery, WebhookEvent, WebhookSubscription } from '../interfaces/IDatabaseAdapter';
+import { buildWebhookRequest, getFailedDeliveryState, lookupPublicAddress } from '../utils/outboundWebhooks';
+
+class WebhookService {
+  private retryInterval: NodeJS.Timeout | null = null;
+  private isProcessing: boolean = false;
+  private readonly RETRY_INTERVAL = 15000; // 15 seconds
+  private readonly RETRY_BATCH_SIZE = 50;
+  private readonly REQUEST_TIMEOUT = 10000;
+  // A new delivery is attempted straight away; the worker only takes it over if that attempt never reports back
+  private readonly FIRST_ATTEMPT_LEASE = 60000;
+  // Requests only connect to public addresses, checked at connection time (WEBHOOK_ALLOW_PRIVATE_URLS=true turns this off)
+  private readonly httpAgent = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true' ? undefined : new http.Agent({ lookup: lookupPublicAddress });
+  private readonly httpsAgent = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true' ? undefined : new https.Agent({ lookup: lookupPublicAddress });
+
+  /**
+   * Start the retry worker
+   */
+  start(): void {
+    if (this.retryInterval) {
+      return;
+    }
+
+    this.retryInterval = setInterval(() => {
+      this.processDueDeliveries().catch(error => {
+        logger.error('Webhook retry pass failed', {
+          component: 'WEBHOOKS',
+          operation: 'RETRY'
+        }, error);
+      });
+    }, this.RETRY_INTERVAL);
+
+    logger.info('Webhook service started', {
+      component: 'WEBHOOKS',
+      operation: 'START',
+      retryInterval: this.RETRY_INTERVAL
+    });
+  }
+
+  /**
+   * Stop the retry worker
+   */
+  stop(): void {
+    if (this.retryInterval) {
+      clearInterval(this.retryInterval);
+      this.retryInterval = null;
+    }
+
+    logger.info('Webhook service stopped', {
+      component: 'WEBHOOKS',
+      operation: 'STOP'
+    });
+  }
+
+  /**
+   * Send an event to every active subscription of the user that listens for it.
+   * Never throws and doesn't wait for the endpoints, so callers can fire and forget.
+   */
+  publish(userId: string, event: WebhookEvent, data: Record<string, any>): void {
+    this.enqueue(userId, event, data).catch(error => {
+      logger.error('Failed to publish webhook event', {
+        component: 'WEBHOOKS',
+        operation: 'PUBLISH',
+        userId,
+        event
+      }, error);
+    });
+  }
+
+  async enqueue(userId: string, event: WebhookEvent, data: Record<string, any>): Promise<WebhookDelivery[]> {
+    const subscriptions = await userDatabase.getWebhookSubscriptionsForEvent(userId, event);
+    return Promise.all(subscriptions.map(subscription => this.createAndSend(subscription, event, data)));
+  }
+
+  /**
+   * Send a webhook.test event to one subscription and wait for the endpoint's answer
+   */
+  async sendTest(subscription: WebhookSubscription): Promise<WebhookDelivery> {
+    return this.createAndSend(subscription, 'webhook.test', {
+      subscriptionId: subscription.id,
+      name: subscription.name,
+      message: 'Test event from CopyTrade'
+    });
+  }
+
+  /**
+   * Try a delivery again now, typically one from the dead-letter list
+   */
+  async redeliver(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookDelivery> {
+    return this.attempt(delivery, subscription);
+  }
+
+  /**
+   * Attempt every delivery whose retry is due
+   */
+  async processDueDeliveries(): Promise<void> {
+    // Skip if the previous pass is still running
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const deliveries = await userDatabase.getDueWebhookDeliveries(new Date(), this.RETRY_BATCH_SIZE);
+      const subscriptions = new Map<string, WebhookSubscription | null>();
+
+      for (const delivery of deliveries) {
+        if (!subscriptions.has(delivery.subscription_id)) {
+          subscriptions.set(delivery.subscription_id, await userDatabase.getWebhookSubscriptionById(delivery.subscription_id));
+        }
+        const subscription = subscriptions.get(delivery.subscription_id);
+
+        // Paused subscriptions keep their undelivered events on the dead-letter list for later
+        if (!subscription || !subscription.is_active) {
+          await userDatabase.updateWebhookDelivery(delivery.id, {
+            status: 'DEAD_LETTER',
+            next_attempt_at: null,
+            last_error: 'Subscription is paused'
+          });
+          continue;
+        }
+
+        await this.attempt(delivery, subscription);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async createAndSend(
+    subscription: WebhookSubscription,
+    event: WebhookEvent,
+    data: Record<string, any>
+  ): Promise<WebhookDelivery> {
+    const delivery = await userDatabase.createWebhookDelivery({
+      subscription_id: subscription.id,
+      user_id: subscription.user_id,
+      event,
+      data,
+      next_attempt_at: new Date(Date.now() + this.FIRST_ATTEMPT_LEASE).toISOString()
+    });
+    return this.attempt(delivery, subscription);
+  }
+
+  private async attempt(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookDelivery> {
+    const { body, headers } = buildWebhookRequest(delivery, subscription.secret);
+    const attempts = delivery.attempts + 1;
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await axios.post(subscription.url, body, {
+        headers,
+        timeout: this.REQUEST_TIMEOUT,
+        maxRedirects: 0,
+        proxy: false,
+        ...(this.httpAgent && { httpAgent: this.httpAgent }),
+        ...(this.httpsAgent && { httpsAgent: this.httpsAgent }),
+        responseType: 'text',
+        validateStatus: () => true
+      });
+      statusCode = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        const text = typeof response.data === 'string' ? response.data.trim().slice(0, 200) : '';
+        error = `HTTP ${response.status}${text ? `: ${text}` : ''}`;
+      }
+    } catch (requestError: any) {
+      error = requestError.message || 'Request failed';
+    }
+
+    const update = error
+      ? { ...getFailedDeliveryState(attempts), attempts, last_status_code: statusCode, last_error: error }
+      : {
+        status: 'DELIVERED' as const,
+        attempts,
+        next_attempt_at: null,
+        last_status_code: statusCode,
+        last_error: null,
+        delivered_at: new Date().toISOString()
+      };
+
+    if (error) {
+      logger.warn('Webhook delivery failed', {
+        component: 'WEBHOOKS',
+        operation: 'DELIVER',
+        userId: delivery.user_id,
+        deliveryId: delivery.id,
+        event: delivery.event,
+        attempts,
+        deliveryStatus: update.status,
+        error
+      });
+    }
+
+    const updated = await userDatabase.updateWebhookDelivery(delivery.id, update);
+    return updated || { ...delivery, ...update };
+  }
+}
+
+export const webhookService = new WebhookService();
+export default webhookService;
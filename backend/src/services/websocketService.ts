@@ -1,6 +1,6 @@
 import { Server, Socket } from 'socket.io';
-import jwt from 'jsonwebtoken';
 import { Server as HttpServer } from 'http';
+import { authSessionService } from './authSessionService';
 
 // Simple logger for now
 const logger = {
@@ -74,7 +74,7 @@ class WebSocketService {
   /**
    * Authenticate Socket.IO connection
    */
-  authenticateSocket(socket: AuthenticatedSocket, next: (err?: Error) => void): void {
+  async authenticateSocket(socket: AuthenticatedSocket, next: (err?: Error) => void): Promise<void> {
     try {
       const token = socket.handshake.auth.token || socket.handshake.query.token;
 
@@ -83,9 +83,13 @@ class WebSocketService {
         return next(new Error('Authentication error: No token provided'));
       }
 
-      // Verify JWT token
-      const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key') as any;
-      socket.userId = decoded.id; // JWT contains 'id', not 'userId'
+      // Same check as authenticateToken: a signed-in session's access token, not a 2FA challenge token
+      const decoded = await authSessionService.verifyAccessToken(token);
+      if (!decoded) {
+        logger.warn('Socket.IO connection rejected: Session has ended');
+        return next(new Error('Authentication error: Session has ended'));
+      }
+      socket.userId = decoded.id;
 
       logger.info(`Socket.IO client authenticated: User ${decoded.id}`);
       next();
@@ -0,0 +1,104 @@
+import { describe, test, expect } from '@jest/globals';
+import { UnifiedFunds, UnifiedHolding, UnifiedTrade } from '@copytrade/unified-broker';
+import {
+  AccountDataResult,
+  aggregateFunds,
+  aggregateHoldings,
+  aggregateTrades
+} from '../utils/accountDataAggregator';
+
+const result = <T>(accountId: string, brokerName: string, data: T | null, error?: string): AccountDataResult<T> => ({
+  accountId,
+  brokerName,
+  brokerAccountId: `${brokerName.toUpperCase()}-${accountId}`,
+  data,
+  ...(error && { error })
+});
+
+const holding = (overrides: Partial<UnifiedHolding> = {}): UnifiedHolding => ({
+  symbol: 'RELIANCE-EQ',
+  exchange: 'NSE',
+  quantity: 10,
+  t1Quantity: 0,
+  averagePrice: 2400,
+  lastPrice: 0,
+  pnl: 0,
+  ...overrides
+});
+
+const trade = (overrides: Partial<UnifiedTrade> = {}): UnifiedTrade => ({
+  tradeId: 'T1',
+  orderId: 'O1',
+  symbol: 'RELIANCE-EQ',
+  exchange: 'NSE',
+  action: 'BUY',
+  quantity: 10,
+  price: 2400,
+  productType: 'CNC',
+  tradeTime: '2024-01-15T04:00:00.000Z',
+  ...overrides
+});
+
+describe('Account Data Aggregator', () => {
+  test('should merge holdings of the same instrument across brokers', () => {
+    const { holdings, summary } = aggregateHoldings([
+      result('1', 'shoonya', [holding()]),
+      result('2', 'fyers', [holding({ symbol: 'RELIANCE', quantity: 30, averagePrice: 2600, lastPrice: 2700 })])
+    ]);
+
+    expect(holdings).toHaveLength(1);
+    expect(holdings[0]).toMatchObject({
+      symbol: 'RELIANCE-EQ',
+      quantity: 40,
+      averagePrice: 2550,
+      lastPrice: 2700,
+      invested: 102000,
+      currentValue: 108000,
+      pnl: 6000,
+      pnlPercent: 5.88
+    });
+    expect(holdings[0]!.accounts.map(account => [account.brokerName, account.quantity])).toEqual([['shoonya', 10], ['fyers', 30]]);
+    expect(summary).toEqual({ invested: 102000, currentValue: 108000, pnl: 6000, pnlPercent: 5.88 });
+  });
+
+  test('should price holdings from market data and value unpriced ones at cost', () => {
+    const { holdings } = aggregateHoldings([
+      result('1', 'shoonya', [holding(), holding({ symbol: 'TCS-EQ', quantity: 5, averagePrice: 3500 })])
+    ], new Map([['RELIANCE', 2500]]));
+
+    expect(holdings.find(item => item.symbol === 'RELIANCE-EQ')).toMatchObject({ lastPrice: 2500, pnl: 1000 });
+    expect(holdings.find(item => item.symbol === 'TCS-EQ')).toMatchObject({ lastPrice: 0, currentValue: 17500, pnl: 0 });
+  });
+
+  test('should sum funds and skip accounts that failed', () => {
+    const funds = (availableCash: number): UnifiedFunds => ({
+      availableCash,
+      usedMargin: 1000,
+      totalBalance: availableCash + 1000,
+      collateral: 0,
+      realizedPnl: 250.5
+    });
+
+    expect(aggregateFunds([
+      result('1', 'shoonya', funds(50000)),
+      result('2', 'fyers', funds(25000.25)),
+      result<UnifiedFunds>('3', 'fyers', null, 'Session expired')
+    ])).toEqual({
+      availableCash: 75000.25,
+      usedMargin: 2000,
+      totalBalance: 77000.25,
+      collateral: 0,
+      realizedPnl: 501
+    });
+  });
+
+  test('should tag trades with their account and sort them newest first', () => {
+    const trades = aggregateTrades([
+      result('1', 'shoonya', [trade(), trade({ tradeId: 'T2', tradeTime: null })]),
+      result('2', 'fyers', [trade({ tradeId: 'T3', tradeTime: '2024-01-15T05:30:00.000Z' })])
+    ]);
+
+    expect(trades.map(item => [item.tradeId, item.brokerName])).toEqual([['T3', 'fyers'], ['T1', 'shoonya'], ['T2', 'shoonya']]);
+    expect(trades[0]).toMatchObject({ accountId: '2', brokerAccountId: 'FYERS-2' });
+  });
+});
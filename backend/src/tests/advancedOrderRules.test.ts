@@ -0,0 +1,102 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  computeTrailingStop,
+  getNextScheduledTime,
+  isConditionMet,
+  isOrderExpired,
+  isStopTriggered,
+  isTargetReached,
+  nextIcebergSliceQuantity,
+  roundToTick,
+  validateBracketLevels
+} from '../utils/advancedOrderRules';
+
+describe('Advanced Order Rules', () => {
+  describe('validateBracketLevels', () => {
+    test('should accept levels on the correct side of the entry', () => {
+      expect(validateBracketLevels('BUY', 100, 95, 110)).toBeNull();
+      expect(validateBracketLevels('SELL', 100, 105, 90)).toBeNull();
+    });
+
+    test('should reject inverted levels', () => {
+      expect(validateBracketLevels('BUY', 100, 101, 110)).toBe('Stop loss must be below entry price for BUY orders');
+      expect(validateBracketLevels('SELL', 100, 105, 101)).toBe('Take profit must be below entry price for SELL orders');
+    });
+  });
+
+  describe('exit triggers', () => {
+    test('should trigger stops and targets in the direction of the exit', () => {
+      expect(isStopTriggered('SELL', 95, 94.5)).toBe(true);
+      expect(isStopTriggered('SELL', 95, 96)).toBe(false);
+      expect(isStopTriggered('BUY', 105, 105)).toBe(true);
+      expect(isTargetReached('SELL', 110, 110.5)).toBe(true);
+      expect(isTargetReached('BUY', 90, 91)).toBe(false);
+    });
+  });
+
+  describe('computeTrailingStop', () => {
+    test('should ratchet a SELL stop up but never down', () => {
+      const order = { action: 'SELL' as const, trail_amount: 5 };
+      expect(computeTrailingStop(order, 95, 103)).toBe(98);
+      expect(computeTrailingStop(order, 98, 101)).toBe(98);
+    });
+
+    test('should ratchet a BUY stop down using a trail percent', () => {
+      const order = { action: 'BUY' as const, trail_percent: 2 };
+      expect(computeTrailingStop(order, 110, 100)).toBe(102);
+      expect(computeTrailingStop(order, 102, 105)).toBe(102);
+    });
+
+    test('should round the stop to the tick size', () => {
+      expect(roundToTick(101.37)).toBe(101.35);
+      expect(computeTrailingStop({ action: 'SELL', trail_percent: 1.5 }, 0, 1234.5)).toBe(1216);
+    });
+  });
+
+  describe('nextIcebergSliceQuantity', () => {
+    test('should slice until the total quantity is executed', () => {
+      expect(nextIcebergSliceQuantity(100, 0, 30)).toBe(30);
+      expect(nextIcebergSliceQuantity(100, 90, 30)).toBe(10);
+      expect(nextIcebergSliceQuantity(100, 100, 30)).toBe(0);
+    });
+  });
+
+  describe('isOrderExpired', () => {
+    test('should expire DAY orders after the trading day and GTD orders after their expiry', () => {
+      const now = new Date('2024-07-16T05:00:00.000Z');
+      expect(isOrderExpired({ validity: 'DAY', created_at: '2024-07-15T09:00:00.000Z' }, now)).toBe(true);
+      expect(isOrderExpired({ validity: 'DAY', created_at: '2024-07-16T04:00:00.000Z' }, now)).toBe(false);
+      expect(isOrderExpired({ validity: 'GTD', created_at: '2024-07-01T04:00:00.000Z', expiry_date: '2024-07-20T10:00:00.000Z' }, now)).toBe(false);
+      expect(isOrderExpired({ validity: 'GTD', created_at: '2024-07-01T04:00:00.000Z', expiry_date: '2024-07-15T10:00:00.000Z' }, now)).toBe(true);
+    });
+  });
+
+  describe('conditional orders', () => {
+    test('should check price and volume conditions against the market', () => {
+      const now = new Date('2024-01-10T05:00:00.000Z');
+      const above = { condition_type: 'PRICE_ABOVE' as const, condition_value: 2500 };
+      expect(isConditionMet(above, { lastPrice: 2499.95 }, now)).toBe(false);
+      expect(isConditionMet(above, { lastPrice: 2500 }, now)).toBe(true);
+      expect(isConditionMet({ condition_type: 'PRICE_BELOW', condition_value: 2400 }, { lastPrice: 2390 }, now)).toBe(true);
+      expect(isConditionMet({ condition_type: 'VOLUME_BASED', condition_value: 1000000 }, { lastPrice: 2390, volume: 999999 }, now)).toBe(false);
+
+      // No price, no decision
+      expect(isConditionMet(above, {}, now)).toBeNull();
+    });
+
+    test('should schedule orders at the next weekday market time', () => {
+      const scheduled = { condition_type: 'TIME_BASED' as const, scheduled_at: '2024-01-10T03:45:05.000Z' };
+      expect(isConditionMet(scheduled, {}, new Date('2024-01-10T03:45:04.000Z'))).toBe(false);
+      expect(isConditionMet(scheduled, {}, new Date('2024-01-10T03:45:05.000Z'))).toBe(true);
+
+      // Wednesday 10:00 IST: the square-off is today, the open is tomorrow
+      const wednesday = new Date('2024-01-10T04:30:00.000Z');
+      expect(getNextScheduledTime('15:20', wednesday)?.toISOString()).toBe('2024-01-10T09:50:00.000Z');
+      expect(getNextScheduledTime('09:15:05', wednesday)?.toISOString()).toBe('2024-01-11T03:45:05.000Z');
+
+      // Friday after the close rolls over the weekend
+      expect(getNextScheduledTime('09:15:05', new Date('2024-01-12T10:30:00.000Z'))?.toISOString()).toBe('2024-01-15T03:45:05.000Z');
+      expect(getNextScheduledTime('9:15', wednesday)).toBeNull();
+    });
+  });
+});
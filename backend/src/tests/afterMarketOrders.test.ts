@@ -0,0 +1,48 @@
+import { describe, test, expect } from '@jest/globals';
+import { marketClockService } from '../services/marketClockService';
+import {
+  getAmoSessionError,
+  getMarketSessionState,
+  getOrderSessionError,
+  isAmoWindow
+} from '../utils/tradingCalendar';
+
+// IST is UTC+05:30
+const ist = (dateTime: string): Date => new Date(`${dateTime}:00+05:30`);
+
+describe('After-Market Orders', () => {
+  test('should accept AMOs from the post-close session until the next session', () => {
+    const state = (dateTime: string) => getMarketSessionState(ist(dateTime), 'EQUITY');
+
+    expect(isAmoWindow(state('2026-10-19T15:45'))).toBe(true);
+    expect(isAmoWindow(state('2026-10-19T20:00'))).toBe(true);
+    expect(isAmoWindow(state('2026-10-20T11:00'))).toBe(true); // Dussehra
+    expect(isAmoWindow(state('2026-10-21T08:30'))).toBe(true);
+    expect(getAmoSessionError(state('2026-10-19T20:00'))).toBeNull();
+
+    expect(getAmoSessionError(state('2026-10-19T10:00'))).toContain('it is currently open');
+    expect(getAmoSessionError(state('2026-10-19T09:05'))).toContain('pre-open session');
+    expect(getAmoSessionError(state('2026-10-19T15:35'))).toContain('closing session');
+  });
+
+  test('should point closed-market orders to AMO only when the broker would queue them', () => {
+    expect(getOrderSessionError('MARKET', getMarketSessionState(ist('2026-10-19T20:00'), 'EQUITY')))
+      .toContain('Place it as an after-market order or use a limit order instead');
+    expect(getOrderSessionError('MARKET', getMarketSessionState(ist('2026-10-19T15:35'), 'EQUITY')))
+      .toContain('. Use a limit order instead');
+  });
+
+  test('should check AMOs against the AMO window in the market clock', () => {
+    const evening = ist('2026-10-19T20:00');
+    const midday = ist('2026-10-19T11:00');
+
+    expect(marketClockService.getOrderSessionError('NSE', 'MARKET', 'AMO', evening)).toBeNull();
+    expect(marketClockService.getOrderSessionError('NSE', 'MARKET', 'REGULAR', evening)).toContain('market is closed');
+    expect(marketClockService.getOrderSessionError('NSE', 'LIMIT', 'AMO', midday)).toContain('After-market orders');
+    expect(marketClockService.getOrderSessionError('NSE', 'LIMIT', 'REGULAR', midday)).toBeNull();
+
+    // MCX trades into the night, so an NSE AMO window is not an MCX one
+    expect(marketClockService.isAmoWindow('NSE', evening)).toBe(true);
+    expect(marketClockService.isAmoWindow('MCX', evening)).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, test, expect } from '@jest/globals';
+import { AuditEvent } from '../interfaces/IDatabaseAdapter';
+import {
+  AUDIT_GENESIS_HASH,
+  AuditEventInput,
+  buildAuditEvent,
+  canonicalJson,
+  verifyAuditChain
+} from '../utils/auditChain';
+
+const inputOf = (overrides: Partial<AuditEventInput>): AuditEventInput => ({
+  user_id: 'user-1',
+  action: 'ORDER_PLACED',
+  account_id: 'acc-1',
+  broker_name: 'shoonya',
+  resource_id: 'order-1',
+  details: { symbol: 'RELIANCE', action: 'BUY', quantity: 10 },
+  success: true,
+  error_message: null,
+  request_id: 'req-1',
+  ip_address: '10.0.0.1',
+  user_agent: 'jest',
+  created_at: '2026-10-19T04:00:00.000Z',
+  ...overrides
+});
+
+// Chain of n events as they would be stored
+const chainOf = (count: number): AuditEvent[] => {
+  const events: AuditEvent[] = [];
+  for (let index = 0; index < count; index++) {
+    const event = buildAuditEvent(inputOf({ resource_id: `order-${index + 1}` }), events[index - 1] || null);
+    events.push({ id: `audit-${index + 1}`, ...event });
+  }
+  return events;
+};
+
+describe('Audit Trail', () => {
+  test('should link each event to the hash of the one before it', () => {
+    const [first, second] = chainOf(2);
+
+    expect(first).toMatchObject({ sequence: 1, category: 'ORDER', previous_hash: AUDIT_GENESIS_HASH });
+    expect(second).toMatchObject({ sequence: 2, previous_hash: first!.hash });
+    expect(first!.hash).toMatch(/^[0-9a-f]{64}$/);
+
+    // Same content hashes the same regardless of key order; undefined details are dropped
+    expect(canonicalJson({ b: 1, a: { d: 2, c: [1, undefined] } })).toBe('{"a":{"c":[1,null],"d":2},"b":1}');
+    const reordered = buildAuditEvent(inputOf({ details: { quantity: 10, action: 'BUY', symbol: 'RELIANCE', note: undefined } }), null);
+    expect(reordered.hash).toBe(buildAuditEvent(inputOf({}), null).hash);
+  });
+
+  test('should detect edited, removed and reordered events', () => {
+    const events = chainOf(4);
+    expect(verifyAuditChain(events)).toMatchObject({ valid: true, checked: 4, firstSequence: 1, lastSequence: 4 });
+
+    const edited = events.map(event => event.sequence === 2
+      ? { ...event, details: { ...event.details, quantity: 1000 } }
+      : event);
+    expect(verifyAuditChain(edited)).toMatchObject({ valid: false, brokenAt: 2, reason: 'Event contents do not match its hash' });
+
+    const removed = events.filter(event => event.sequence !== 3);
+    expect(verifyAuditChain(removed)).toMatchObject({ valid: false, brokenAt: 4, lastSequence: 2 });
+
+    // Rewriting an event and its own hash still breaks the link from the next event
+    const rewritten = events.map(event => {
+      if (event.sequence !== 2) {
+        return event;
+      }
+      const { id, hash: _hash, ...fields } = event;
+      return { id, ...buildAuditEvent({ ...fields, success: false }, events[0]!) };
+    });
+    expect(verifyAuditChain(rewritten)).toMatchObject({
+      valid: false,
+      brokenAt: 3,
+      reason: 'Event does not link to the hash of the previous event'
+    });
+  });
+
+  test('should accept a chain whose oldest events were removed by retention', () => {
+    const events = chainOf(5);
+
+    expect(verifyAuditChain(events.slice(2))).toMatchObject({ valid: true, checked: 3, firstSequence: 3 });
+
+    // Verification in batches carries on from the last event of the previous batch
+    expect(verifyAuditChain(events.slice(3), events[2]!)).toMatchObject({ valid: true, lastSequence: 5 });
+    expect(verifyAuditChain(events.slice(4), events[2]!)).toMatchObject({ valid: false, brokenAt: 5 });
+
+    // A chain that claims to start at 1 must start from the genesis hash
+    const forgedStart = [{ ...events[0]!, previous_hash: events[1]!.hash }];
+    expect(verifyAuditChain(forgedStart).valid).toBe(false);
+  });
+});
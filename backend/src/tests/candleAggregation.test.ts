@@ -0,0 +1,79 @@
+import { describe, test, expect } from '@jest/globals';
+import { Candle } from '../interfaces/IDatabaseAdapter';
+import {
+  aggregateCandles,
+  applyTick,
+  getCandleStart,
+  mergeCandles,
+  parseCandleCsv
+} from '../utils/candleAggregation';
+
+const bar = (start: string, open: number, high: number, low: number, close: number, volume: number): Candle => ({
+  symbol: 'RELIANCE',
+  exchange: 'NSE',
+  interval: '1m',
+  start,
+  open,
+  high,
+  low,
+  close,
+  volume,
+  source: 'broker'
+});
+
+describe('Candle Aggregation', () => {
+  test('should align bars with the IST session and trading day', () => {
+    // 09:17:30 IST
+    const time = new Date('2024-01-10T03:47:30.000Z');
+
+    expect(getCandleStart(time, '1m').toISOString()).toBe('2024-01-10T03:47:00.000Z');
+    expect(getCandleStart(time, '5m').toISOString()).toBe('2024-01-10T03:45:00.000Z'); // 09:15 IST
+    expect(getCandleStart(time, '15m').toISOString()).toBe('2024-01-10T03:45:00.000Z');
+    expect(getCandleStart(time, '1d').toISOString()).toBe('2024-01-09T18:30:00.000Z'); // IST midnight
+  });
+
+  test('should build live bars from ticks and open a new bar on the next bucket', () => {
+    const tick = (time: string, price: number, volume: number) =>
+      ({ symbol: 'RELIANCE', exchange: 'NSE', price, volume, time: new Date(time) });
+
+    let candle = applyTick(undefined, tick('2024-01-10T03:47:05.000Z', 2500, 0), '1m');
+    candle = applyTick(candle, tick('2024-01-10T03:47:20.000Z', 2504, 150), '1m');
+    candle = applyTick(candle, tick('2024-01-10T03:47:50.000Z', 2498, 50), '1m');
+    expect(candle).toMatchObject({ start: '2024-01-10T03:47:00.000Z', open: 2500, high: 2504, low: 2498, close: 2498, volume: 200, source: 'ticks' });
+
+    const next = applyTick(candle, tick('2024-01-10T03:48:01.000Z', 2499, 10), '1m');
+    expect(next).toMatchObject({ start: '2024-01-10T03:48:00.000Z', open: 2499, high: 2499, low: 2499, volume: 10 });
+  });
+
+  test('should roll 1m bars up and merge the live bar over stored ones', () => {
+    const minutes = [
+      bar('2024-01-10T03:45:00.000Z', 100, 102, 99, 101, 10),
+      bar('2024-01-10T03:46:00.000Z', 101, 105, 100, 104, 20),
+      bar('2024-01-10T03:50:00.000Z', 104, 106, 103, 105, 5)
+    ];
+
+    expect(aggregateCandles(minutes, '5m')).toEqual([
+      { ...minutes[0], interval: '5m', high: 105, low: 99, close: 104, volume: 30 },
+      { ...minutes[2], interval: '5m' }
+    ]);
+
+    const live: Candle = { ...bar('2024-01-10T03:50:00.000Z', 104.5, 107, 104, 106.5, 3), source: 'ticks' };
+    expect(mergeCandles(minutes, [live])[2]).toMatchObject({ open: 104, high: 107, low: 103, close: 106.5, volume: 5, source: 'broker' });
+  });
+
+  test('should parse candle files with IST dates and epoch seconds', () => {
+    const csv = [
+      'Date,Open,High,Low,Close,Volume',
+      '2024-01-11,2510,2530,2505,2525,900000',
+      '2024-01-10,2490,2512,2480,2508,1200000',
+      'not-a-date,1,1,1,1,1'
+    ].join('\n');
+
+    const daily = parseCandleCsv(csv, 'RELIANCE', 'NSE', '1d');
+    expect(daily.map(candle => candle.start)).toEqual(['2024-01-09T18:30:00.000Z', '2024-01-10T18:30:00.000Z']);
+    expect(daily[0]).toMatchObject({ open: 2490, high: 2512, low: 2480, close: 2508, volume: 1200000, source: 'file' });
+
+    const minute = parseCandleCsv('timestamp,open,high,low,close\n1704858420,2500,2501,2499,2500.5', 'RELIANCE', 'NSE', '1m');
+    expect(minute).toEqual([expect.objectContaining({ start: '2024-01-10T03:47:00.000Z', close: 2500.5, volume: 0 })]);
+  });
+});
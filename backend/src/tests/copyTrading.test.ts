@@ -0,0 +1,186 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../services/databaseCompatibility', () => ({
+  userDatabase: {
+    getCopiedOrdersByMasterOrder: jest.fn(),
+    getConnectedAccountById: jest.fn(),
+    updateCopiedOrder: jest.fn(),
+    getCopyTradeLinksByAccountIds: jest.fn(),
+    createCopyTradeLink: jest.fn()
+  }
+}));
+
+jest.mock('../middleware/auth', () => ({
+  authenticateToken: (req: any, _res: any, next: any) => {
+    req.user = { id: req.headers['x-user-id'] };
+    next();
+  },
+  requireStepUp: (_req: any, _res: any, next: any) => next()
+}));
+
+jest.mock('../services/enhancedUnifiedBrokerManager', () => ({
+  enhancedUnifiedBrokerManager: { getBrokerService: jest.fn() }
+}));
+
+jest.mock('../services/websocketService', () => ({
+  __esModule: true,
+  default: { sendToUser: jest.fn() }
+}));
+
+jest.mock('../services/orderPlacementService', () => ({
+  ensureAccountActive: jest.fn(async () => true),
+  placeOrderOnAccount: jest.fn()
+}));
+
+jest.mock('../services/positionSizingService', () => ({
+  positionSizingService: {
+    sizeForAccounts: jest.fn(async (accounts: any[]) => accounts.map(account => ({ account, sizing: { quantity: 4 } })))
+  }
+}));
+
+jest.mock('../services/accountAccessService', () => ({
+  accountAccessService: { checkAccess: jest.fn() }
+}));
+
+import request from 'supertest';
+import express from 'express';
+import copyTradingRoutes from '../routes/copyTrading';
+import { userDatabase } from '../services/databaseCompatibility';
+import { enhancedUnifiedBrokerManager } from '../services/enhancedUnifiedBrokerManager';
+import { accountAccessService } from '../services/accountAccessService';
+import { copyTradingService } from '../services/copyTradingService';
+import { ConnectedAccount, CopiedOrder, CopyTradeLink } from '../interfaces/IDatabaseAdapter';
+import { MasterOrderSnapshot } from '../utils/masterOrderNormalizer';
+
+const db = userDatabase as unknown as Record<string, jest.Mock<(...args: any[]) => any>>;
+const getBrokerService = enhancedUnifiedBrokerManager.getBrokerService as unknown as jest.Mock<(...args: any[]) => any>;
+const checkAccess = accountAccessService.checkAccess as unknown as jest.Mock<(...args: any[]) => any>;
+
+const accountOf = (id: string, brokerName: string): ConnectedAccount => ({
+  id,
+  user_id: 'user-1',
+  broker_name: brokerName,
+  account_id: `FA-${id}`,
+  user_name: 'Client',
+  email: 'client@example.com',
+  broker_display_name: brokerName,
+  exchanges: '[]',
+  products: '[]',
+  encrypted_credentials: '',
+  account_status: 'ACTIVE',
+  token_expiry_time: null,
+  created_at: '2026-10-19T04:00:00.000Z',
+  updated_at: '2026-10-19T04:00:00.000Z'
+});
+
+const copiedOrderOf = (id: string, followerAccountId: string): CopiedOrder => ({
+  id,
+  user_id: 'user-1',
+  link_id: `link-${followerAccountId}`,
+  master_account_id: 'master',
+  master_broker_order_id: '1001',
+  follower_account_id: followerAccountId,
+  follower_order_id: `order-${id}`,
+  follower_broker_order_id: `B-${id}`,
+  status: 'COPIED',
+  symbol: 'TCS-EQ',
+  action: 'BUY',
+  quantity: 2,
+  price: 3900,
+  order_type: 'LIMIT',
+  created_at: '2026-10-19T04:00:00.000Z',
+  updated_at: '2026-10-19T04:00:00.000Z'
+});
+
+const modifiedOrder: MasterOrderSnapshot = {
+  brokerOrderId: '1001',
+  symbol: 'TCS-EQ',
+  exchange: 'NSE',
+  action: 'BUY',
+  quantity: 20,
+  filledQuantity: 0,
+  price: 3950,
+  triggerPrice: 3940,
+  orderType: 'SL-LIMIT',
+  productType: 'CNC',
+  state: 'OPEN'
+};
+
+const linkOf = (id: string, userId: string, masterAccountId: string, followerAccountId: string): CopyTradeLink => ({
+  id,
+  user_id: userId,
+  master_account_id: masterAccountId,
+  follower_account_id: followerAccountId,
+  is_active: true,
+  created_at: '2026-10-19T04:00:00.000Z',
+  updated_at: '2026-10-19T04:00:00.000Z'
+});
+
+const app = express();
+app.use(express.json());
+app.use('/api/copy-trading', copyTradingRoutes);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('Copy Trading', () => {
+  test('should send each follower broker a modification in its own format', async () => {
+    const accounts: Record<string, ConnectedAccount> = {
+      'fyers-follower': accountOf('fyers-follower', 'fyers'),
+      'shoonya-follower': accountOf('shoonya-follower', 'shoonya')
+    };
+    const brokerServices: Record<string, { modifyOrder: jest.Mock<(...args: any[]) => any> }> = {
+      fyers: { modifyOrder: jest.fn(async () => ({ success: true })) },
+      shoonya: { modifyOrder: jest.fn(async () => ({ success: true })) }
+    };
+    db.getCopiedOrdersByMasterOrder!.mockResolvedValue([
+      copiedOrderOf('copy-1', 'fyers-follower'),
+      copiedOrderOf('copy-2', 'shoonya-follower')
+    ]);
+    db.getConnectedAccountById!.mockImplementation(async (id: any) => accounts[id] || null);
+    checkAccess.mockImplementation(async (_userId: any, accountId: any) => ({
+      account: accounts[accountId], ownerId: 'user-1', isOwner: true, permissions: ['VIEW', 'TRADE', 'MANAGE'], via: []
+    }));
+    getBrokerService.mockImplementation((_userId: any, brokerName: any) => brokerServices[brokerName]);
+
+    await (copyTradingService as any).modifyFollowerOrders(accountOf('master', 'shoonya'), modifiedOrder);
+
+    expect(brokerServices.fyers!.modifyOrder).toHaveBeenCalledWith('B-copy-1', {
+      type: 4, qty: 4, limitPrice: 3950, stopPrice: 3940
+    });
+    expect(brokerServices.shoonya!.modifyOrder).toHaveBeenCalledWith('B-copy-2', {
+      exch: 'NSE', tsym: 'TCS-EQ', qty: '4', prc: '3950', prctyp: 'SL-LMT', trgprc: '3940'
+    });
+    expect(db.updateCopiedOrder).toHaveBeenCalledWith('copy-1', {
+      quantity: 4, price: 3950, trigger_price: 3940, order_type: 'SL-LIMIT'
+    });
+  });
+
+  test('should check links of every user on the accounts before linking them', async () => {
+    checkAccess.mockResolvedValue({ ownerId: 'client', isOwner: false });
+    const link = (masterAccountId: string, followerAccountId: string) => request(app)
+      .post('/api/copy-trading/links')
+      .set('x-user-id', 'manager')
+      .send({ masterAccountId, followerAccountId });
+
+    // Another workspace member already copies acc-1 onto acc-2
+    db.getCopyTradeLinksByAccountIds!.mockResolvedValue([linkOf('link-1', 'other-member', 'acc-1', 'acc-2')]);
+
+    const duplicate = await link('acc-1', 'acc-2');
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.body.error).toBe('Follower account is already linked to this master account');
+
+    const chained = await link('acc-2', 'acc-3');
+    expect(chained.status).toBe(400);
+    expect(db.getCopyTradeLinksByAccountIds).toHaveBeenLastCalledWith(['acc-2', 'acc-3']);
+    expect(db.createCopyTradeLink).not.toHaveBeenCalled();
+
+    // Losing a race to the same link is a conflict too, not a server error
+    db.getCopyTradeLinksByAccountIds!.mockResolvedValue([]);
+    db.createCopyTradeLink!.mockRejectedValue(
+      Object.assign(new Error('Follower account is already linked to this master account'), { code: 'DUPLICATE_LINK' })
+    );
+    expect((await link('acc-4', 'acc-5')).status).toBe(409);
+  });
+});
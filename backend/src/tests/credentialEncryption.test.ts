@@ -0,0 +1,148 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import crypto from 'crypto';
+
+jest.mock('../services/databaseCompatibility', () => ({
+  userDatabase: {
+    getCredentialKeyStatus: jest.fn(),
+    getAccountsForCredentialRotation: jest.fn(),
+    reencryptAccountCredentials: jest.fn(),
+    getUsersForSecretRotation: jest.fn(),
+    reencryptUserSecrets: jest.fn(),
+    getApiKeysForSecretRotation: jest.fn(),
+    reencryptApiKeySecret: jest.fn(),
+    getWebhooksForSecretRotation: jest.fn(),
+    reencryptWebhookSecret: jest.fn()
+  }
+}));
+
+import { userDatabase } from '../services/databaseCompatibility';
+import { credentialRotationService } from '../services/credentialRotationService';
+import {
+  CredentialKeyError,
+  LEGACY_KEY_VERSION,
+  decryptCredentials,
+  encryptCredentials,
+  getCredentialKeyVersion,
+  getCredentialKeyVersionPattern,
+  loadMasterKeyring
+} from '../utils/credentialEncryption';
+
+const OLD_SECRET = 'old-master-key-0123456789abcdefghijklmnop';
+const NEW_SECRET = 'new-master-key-0123456789abcdefghijklmnop';
+const db = userDatabase as unknown as Record<string, jest.Mock<(...args: any[]) => any>>;
+const credentials = JSON.stringify({ userId: 'FA12345', password: 'secret', apiSecret: 'abc123' });
+
+describe('Credential Encryption', () => {
+  test('should refuse missing, default and short master keys', () => {
+    expect(() => loadMasterKeyring({})).toThrow(CredentialKeyError);
+    expect(() => loadMasterKeyring({ ENCRYPTION_KEY: 'default-encryption-key-change-in-production' })).toThrow(CredentialKeyError);
+    expect(() => loadMasterKeyring({ ENCRYPTION_KEY: 'too-short' })).toThrow(CredentialKeyError);
+    expect(() => loadMasterKeyring({ ENCRYPTION_KEYS: `1:${OLD_SECRET}`, ENCRYPTION_KEY_VERSION: '2' })).toThrow(CredentialKeyError);
+    expect(loadMasterKeyring({ ENCRYPTION_KEY: OLD_SECRET }).activeVersion).toBe(1);
+  });
+
+  test('should encrypt each record with its own salt and data key', () => {
+    const keyring = loadMasterKeyring({ ENCRYPTION_KEY: OLD_SECRET });
+    const first = encryptCredentials(credentials, keyring);
+    const second = encryptCredentials(credentials, keyring);
+
+    expect(first.keyVersion).toBe(1);
+    expect(first.encrypted).not.toEqual(second.encrypted);
+    expect(first.encrypted.split('.')[2]).not.toEqual(second.encrypted.split('.')[2]); // salt
+    expect(decryptCredentials(first.encrypted, keyring)).toBe(credentials);
+
+    // Tampering with the key version is caught by authentication
+    const relabelled = first.encrypted.replace(/^env1\.1\./, 'env1.2.');
+    const rotated = loadMasterKeyring({ ENCRYPTION_KEYS: `2:${OLD_SECRET},1:${OLD_SECRET}` });
+    expect(() => decryptCredentials(relabelled, rotated)).toThrow();
+  });
+
+  test('should read older key versions after rotation and write with the active one', () => {
+    const before = loadMasterKeyring({ ENCRYPTION_KEY: OLD_SECRET });
+    const { encrypted } = encryptCredentials(credentials, before);
+
+    const after = loadMasterKeyring({ ENCRYPTION_KEYS: `1:${OLD_SECRET},2:${NEW_SECRET}` });
+    expect(after.activeVersion).toBe(2);
+    expect(decryptCredentials(encrypted, after)).toBe(credentials);
+
+    const reencrypted = encryptCredentials(decryptCredentials(encrypted, after), after);
+    expect(getCredentialKeyVersion(reencrypted.encrypted)).toBe(2);
+
+    // Once the old key is retired its records can no longer be read
+    const retired = loadMasterKeyring({ ENCRYPTION_KEYS: `2:${NEW_SECRET}` });
+    expect(decryptCredentials(reencrypted.encrypted, retired)).toBe(credentials);
+    expect(() => decryptCredentials(encrypted, retired)).toThrow(CredentialKeyError);
+  });
+
+  test('should read credentials saved before envelope encryption', () => {
+    // The previous format: scrypt with a static salt, AES-256-CBC, iv:ciphertext in hex
+    const legacySecret = 'default-encryption-key-change-in-production';
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv('aes-256-cbc', crypto.scryptSync(legacySecret, 'salt', 32), iv);
+    const legacy = `${iv.toString('hex')}:${cipher.update(credentials, 'utf8', 'hex')}${cipher.final('hex')}`;
+
+    expect(getCredentialKeyVersion(legacy)).toBe(LEGACY_KEY_VERSION);
+    const keyring = loadMasterKeyring({ ENCRYPTION_KEY: NEW_SECRET, ENCRYPTION_LEGACY_KEY: legacySecret });
+    expect(decryptCredentials(legacy, keyring)).toBe(credentials);
+  });
+
+  test('should re-encrypt two-factor secrets along with account credentials', async () => {
+    const keyring = loadMasterKeyring({ ENCRYPTION_KEYS: `1:${OLD_SECRET},2:${NEW_SECRET}` });
+    const { encrypted } = encryptCredentials('JBSWY3DPEHPK3PXP', keyring);
+    expect(getCredentialKeyVersionPattern(2).test(encrypted)).toBe(true);
+    expect(getCredentialKeyVersionPattern(1).test(encrypted)).toBe(false);
+
+    db.getCredentialKeyStatus!.mockResolvedValue({ activeVersion: 2, accountsByVersion: { '1': 1 }, usersByVersion: { '1': 2 }, apiKeysByVersion: {}, webhooksByVersion: {} });
+    db.getAccountsForCredentialRotation!.mockResolvedValueOnce([{ id: 'acc-1' }]).mockResolvedValue([]);
+    db.reencryptAccountCredentials!.mockResolvedValue(true);
+    db.getUsersForSecretRotation!.mockResolvedValueOnce(['user-1', 'user-2']).mockResolvedValue([]);
+    db.getApiKeysForSecretRotation!.mockResolvedValue([]);
+    db.getWebhooksForSecretRotation!.mockResolvedValue([]);
+    db.reencryptUserSecrets!.mockImplementation(async (userId: any) => {
+      if (userId === 'user-2') {
+        throw new Error('No master key for version 0');
+      }
+      return true;
+    });
+
+    const job = await credentialRotationService.startRotation('admin-1');
+    while (job.state === 'RUNNING') {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    expect(db.getUsersForSecretRotation).toHaveBeenLastCalledWith('user-2', 50);
+    expect(job).toMatchObject({
+      state: 'FAILED',
+      error: null,
+      rotated: 2,
+      failed: [{ userId: 'user-2', error: 'No master key for version 0' }]
+    });
+  });
+
+  test('should re-encrypt API key and webhook signing secrets so signatures keep verifying', async () => {
+    jest.clearAllMocks();
+    db.getCredentialKeyStatus!.mockResolvedValue({ activeVersion: 2, accountsByVersion: {}, usersByVersion: {}, apiKeysByVersion: { '1': 3 }, webhooksByVersion: { '1': 1 } });
+    db.getAccountsForCredentialRotation!.mockResolvedValue([]);
+    db.getUsersForSecretRotation!.mockResolvedValue([]);
+    db.getApiKeysForSecretRotation!.mockResolvedValueOnce(['key-1', 'key-2']).mockResolvedValueOnce(['key-3']).mockResolvedValue([]);
+    // key-2 was regenerated while the job ran, so it is already under the active key
+    db.reencryptApiKeySecret!.mockImplementation(async (apiKeyId: any) => apiKeyId !== 'key-2');
+    db.getWebhooksForSecretRotation!.mockResolvedValueOnce(['hook-1']).mockResolvedValue([]);
+    db.reencryptWebhookSecret!.mockRejectedValue(new Error('No master key for version 1'));
+
+    const job = await credentialRotationService.startRotation('admin-1');
+    while (job.state === 'RUNNING') {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    expect(db.getApiKeysForSecretRotation).toHaveBeenNthCalledWith(2, 'key-2', 50);
+    expect(db.reencryptApiKeySecret).toHaveBeenCalledTimes(3);
+    expect(db.reencryptWebhookSecret).toHaveBeenCalledWith('hook-1');
+    expect(job).toMatchObject({
+      state: 'FAILED',
+      rotated: 2,
+      skipped: 1,
+      failed: [{ webhookId: 'hook-1', error: 'No master key for version 1' }]
+    });
+  });
+});
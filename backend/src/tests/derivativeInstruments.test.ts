@@ -0,0 +1,90 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  DerivativeInstrument,
+  buildOptionChain,
+  filterInstruments,
+  getExpiries,
+  parseFyersInstrumentRow,
+  validateLotSize
+} from '../utils/derivativeInstruments';
+
+// 2024-01-25 15:30 IST and 2024-02-29 15:30 IST
+const JAN_EXPIRY = '1706176800';
+const FEB_EXPIRY = '1709200800';
+
+const fyersRow = (ticker: string, expiry: string, strike: string, optionType: string): string[] => [
+  '101124012535000', `NIFTY ${ticker}`, '14', '50', '0.05', '', '0915-1530|1815-1915:', '2024-01-10',
+  expiry, `NSE:${ticker}`, '10', '11', '35000', 'NIFTY', '26000', strike, optionType, '101000000026000'
+];
+
+const instrument = (tradingSymbol: string, expiry: string, strike: number | null, optionType: 'CE' | 'PE' | null): DerivativeInstrument => ({
+  token: tradingSymbol,
+  tradingSymbol,
+  name: tradingSymbol,
+  exchange: 'NFO',
+  underlying: 'NIFTY',
+  instrumentType: optionType ? 'OPT' : 'FUT',
+  expiry,
+  strike,
+  optionType,
+  lotSize: 50,
+  tickSize: 0.05
+});
+
+const instruments = [
+  instrument('NIFTY24JANFUT', '2024-01-25', null, null),
+  instrument('NIFTY24JAN21100CE', '2024-01-25', 21100, 'CE'),
+  instrument('NIFTY24JAN21000CE', '2024-01-25', 21000, 'CE'),
+  instrument('NIFTY24JAN21000PE', '2024-01-25', 21000, 'PE'),
+  instrument('NIFTY24FEB21000CE', '2024-02-29', 21000, 'CE'),
+  instrument('NIFTY24118CE', '2024-01-18', 21000, 'CE')
+];
+
+describe('Derivative Instruments', () => {
+  test('should parse options and futures from the Fyers symbol master', () => {
+    expect(parseFyersInstrumentRow(fyersRow('NIFTY24JAN21000CE', JAN_EXPIRY, '21000', 'CE'), 'NFO')).toEqual({
+      token: '101124012535000',
+      tradingSymbol: 'NIFTY24JAN21000CE',
+      name: 'NIFTY NIFTY24JAN21000CE',
+      exchange: 'NFO',
+      underlying: 'NIFTY',
+      instrumentType: 'OPT',
+      expiry: '2024-01-25',
+      strike: 21000,
+      optionType: 'CE',
+      lotSize: 50,
+      tickSize: 0.05
+    });
+    expect(parseFyersInstrumentRow(fyersRow('NIFTY24FEBFUT', FEB_EXPIRY, '-1', 'XX'), 'NFO')).toMatchObject({
+      instrumentType: 'FUT',
+      expiry: '2024-02-29',
+      strike: null,
+      optionType: null
+    });
+    expect(parseFyersInstrumentRow(['1', 'Broken row'], 'NFO')).toBeNull();
+  });
+
+  test('should search by underlying, expiry and option type', () => {
+    expect(filterInstruments(instruments, { underlying: 'nifty', expiry: '2024-01-25', optionType: 'CE' })
+      .map(item => item.tradingSymbol)).toEqual(['NIFTY24JAN21000CE', 'NIFTY24JAN21100CE']);
+    expect(filterInstruments(instruments, { query: 'NIFTY24JANF' }).map(item => item.tradingSymbol)).toEqual(['NIFTY24JANFUT']);
+  });
+
+  test('should list upcoming expiries and build the nearest option chain', () => {
+    expect(getExpiries(instruments, 'OPT', '2024-01-19')).toEqual(['2024-01-25', '2024-02-29']);
+
+    const chain = buildOptionChain(instruments, '2024-01-19');
+    expect(chain).toMatchObject({ underlying: 'NIFTY', exchange: 'NFO', expiry: '2024-01-25', lotSize: 50 });
+    expect(chain!.rows.map(row => [row.strike, row.CE?.tradingSymbol || null, row.PE?.tradingSymbol || null])).toEqual([
+      [21000, 'NIFTY24JAN21000CE', 'NIFTY24JAN21000PE'],
+      [21100, 'NIFTY24JAN21100CE', null]
+    ]);
+    expect(buildOptionChain(instruments, '2024-01-19', '2024-03-28')).toBeNull();
+  });
+
+  test('should only accept whole lots', () => {
+    const future = instruments[0]!;
+    expect(validateLotSize(future, 100)).toBeNull();
+    expect(validateLotSize(future, 75)).toBe('Quantity 75 for NIFTY24JANFUT must be a multiple of the lot size 50');
+  });
+});
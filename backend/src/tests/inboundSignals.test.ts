@@ -0,0 +1,209 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../services/databaseCompatibility', () => ({
+  userDatabase: {
+    getApiKeyByHash: jest.fn(),
+    getSignalByIdempotencyKey: jest.fn(),
+    createSignal: jest.fn(),
+    updateSignal: jest.fn()
+  }
+}));
+
+import { userDatabase } from '../services/databaseCompatibility';
+import { apiKeyService } from '../services/apiKeyService';
+import { getSignalStatus, signalService, toSignalOrders } from '../services/signalService';
+import {
+  computeSignature,
+  hashApiKey,
+  isIpAllowed,
+  isValidAllowlistEntry,
+  parseSignalPayload,
+  resolveAccountGroup,
+  verifySignature
+} from '../utils/inboundSignals';
+import { ApiKey, Signal } from '../interfaces/IDatabaseAdapter';
+
+const db = userDatabase as unknown as Record<string, jest.Mock<(...args: any[]) => any>>;
+
+const NOW = Date.parse('2026-10-19T04:00:00.000Z');
+const TIMESTAMP = String(NOW / 1000);
+const SECRET = 'ctps_test-secret';
+
+const apiKey: ApiKey = {
+  id: 'key-1',
+  user_id: 'user-1',
+  name: 'TradingView',
+  key_prefix: 'ctp_abcdef',
+  key_hash: hashApiKey('ctp_abcdef123'),
+  signing_secret: SECRET,
+  scopes: ['signals:write'],
+  ip_allowlist: ['52.89.214.238', '10.0.0.0/24'],
+  require_signature: true,
+  account_groups: [
+    { name: 'Clients', account_ids: ['acc-1', 'acc-2'] },
+    { name: 'Own', account_ids: ['acc-3'] }
+  ],
+  last_used_at: null,
+  last_used_ip: null,
+  revoked_at: null,
+  created_at: '2026-10-19T03:00:00.000Z',
+  updated_at: '2026-10-19T03:00:00.000Z'
+};
+
+const signalOf = (id: string, idempotencyKey: string | null): Signal => ({
+  id,
+  user_id: 'user-1',
+  api_key_id: 'key-1',
+  idempotency_key: idempotencyKey,
+  payload: {},
+  account_group: null,
+  order: null,
+  status: 'COMPLETED',
+  error: null,
+  orders: [],
+  source_ip: '10.0.0.5',
+  created_at: '2026-10-19T04:00:00.000Z',
+  completed_at: '2026-10-19T04:00:01.000Z'
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  db.getApiKeyByHash!.mockImplementation(async (hash: any) => (hash === apiKey.key_hash ? apiKey : null));
+});
+
+describe('Inbound Signals', () => {
+  test('should accept only fresh signatures over the exact body', () => {
+    const body = '{"symbol":"RELIANCE","action":"buy","quantity":"1"}';
+    const signature = computeSignature(SECRET, TIMESTAMP, body);
+
+    expect(verifySignature(SECRET, signature, TIMESTAMP, body, NOW)).toEqual({ valid: true });
+    expect(verifySignature(SECRET, `sha256=${signature}`, TIMESTAMP, body, NOW).valid).toBe(true);
+    expect(verifySignature(SECRET, signature, TIMESTAMP, body.replace('"1"', '"100"'), NOW).valid).toBe(false);
+    expect(verifySignature('ctps_other', signature, TIMESTAMP, body, NOW).valid).toBe(false);
+    expect(verifySignature(SECRET, undefined, TIMESTAMP, body, NOW).reason).toBe('Missing request signature');
+
+    // A captured request can't be replayed ten minutes later
+    expect(verifySignature(SECRET, signature, TIMESTAMP, body, NOW + 10 * 60 * 1000).reason)
+      .toBe('Signature timestamp is outside the allowed window');
+  });
+
+  test('should match source addresses against the allow-list', () => {
+    expect(isIpAllowed('1.2.3.4', [])).toBe(true);
+    expect(isIpAllowed('52.89.214.238', apiKey.ip_allowlist)).toBe(true);
+    expect(isIpAllowed('::ffff:10.0.0.77', apiKey.ip_allowlist)).toBe(true);
+    expect(isIpAllowed('10.0.1.1', apiKey.ip_allowlist)).toBe(false);
+    expect(isIpAllowed(undefined, apiKey.ip_allowlist)).toBe(false);
+
+    expect(isValidAllowlistEntry('10.0.0.0/24')).toBe(true);
+    expect(isValidAllowlistEntry('2001:db8::1')).toBe(true);
+    expect(isValidAllowlistEntry('10.0.0.0/33')).toBe(false);
+    expect(isValidAllowlistEntry('example.com')).toBe(false);
+  });
+
+  test('should read templated alert payloads as multi-account orders', () => {
+    // What a TradingView alert message produces after placeholders are filled in
+    const tradingView = parseSignalPayload({
+      ticker: 'NSE:RELIANCE',
+      action: 'buy',
+      contracts: '5.0',
+      accountGroup: 'clients',
+      idempotencyKey: 'strategy-42-2026-10-19T04:00:00Z'
+    });
+    expect(tradingView).toEqual({
+      accountGroup: 'clients',
+      idempotencyKey: 'strategy-42-2026-10-19T04:00:00Z',
+      order: { symbol: 'RELIANCE', action: 'BUY', quantity: 5, orderType: 'MARKET', exchange: 'NSE', productType: 'CNC' }
+    });
+
+    const script = parseSignalPayload({
+      symbol: 'NIFTY26OCT25000CE',
+      exchange: 'nfo',
+      side: 'SELL',
+      qty: 75,
+      orderType: 'limit',
+      price: '120.5',
+      comment: 'hedge'
+    });
+    expect(script.order).toMatchObject({ exchange: 'NFO', action: 'SELL', quantity: 75, productType: 'NRML', orderType: 'LIMIT', price: '120.5', remarks: 'hedge' });
+
+    // Fractional quantities are left for validation to reject
+    expect(parseSignalPayload({ symbol: 'TCS', action: 'buy', quantity: '1.5' }).order.quantity).toBe('1.5');
+
+    expect(resolveAccountGroup(apiKey.account_groups, 'CLIENTS')?.account_ids).toEqual(['acc-1', 'acc-2']);
+    expect(resolveAccountGroup(apiKey.account_groups, null)).toBeNull();
+    expect(resolveAccountGroup([apiKey.account_groups[1]!], null)?.name).toBe('Own');
+    expect(resolveAccountGroup(apiKey.account_groups, 'missing')).toBeNull();
+  });
+
+  test('should check key, address, scope and signature when authenticating', async () => {
+    const body = '{"symbol":"TCS","action":"BUY","quantity":1}';
+    const request = {
+      key: 'ctp_abcdef123',
+      scope: 'signals:write' as const,
+      ip: '10.0.0.5',
+      signature: computeSignature(SECRET, TIMESTAMP, body),
+      timestamp: TIMESTAMP,
+      body
+    };
+
+    expect(await apiKeyService.authenticate(request, NOW)).toEqual({ success: true, apiKey });
+    expect(await apiKeyService.authenticate({ ...request, key: 'ctp_wrong' }, NOW))
+      .toMatchObject({ success: false, status: 401, apiKey: null });
+    expect(await apiKeyService.authenticate({ ...request, ip: '8.8.8.8' }, NOW))
+      .toMatchObject({ success: false, status: 403, apiKey });
+    expect(await apiKeyService.authenticate({ ...request, scope: 'signals:read' }, NOW))
+      .toMatchObject({ success: false, status: 403, reason: 'API key lacks the signals:read scope' });
+    expect(await apiKeyService.authenticate({ ...request, signature: undefined }, NOW))
+      .toMatchObject({ success: false, status: 401 });
+
+    db.getApiKeyByHash!.mockResolvedValue({ ...apiKey, require_signature: false });
+    expect((await apiKeyService.authenticate({ ...request, signature: undefined }, NOW)).success).toBe(true);
+
+    db.getApiKeyByHash!.mockResolvedValue({ ...apiKey, revoked_at: '2026-10-19T03:30:00.000Z' });
+    expect((await apiKeyService.authenticate(request, NOW)).success).toBe(false);
+  });
+
+  test('should answer a repeated idempotency key with the first signal', async () => {
+    db.getSignalByIdempotencyKey!.mockResolvedValueOnce(signalOf('signal-1', 'alert-1'));
+    expect(await signalService.receive(apiKey, {}, 'alert-1', '10.0.0.5'))
+      .toEqual({ signal: signalOf('signal-1', 'alert-1'), duplicate: true });
+    expect(db.createSignal).not.toHaveBeenCalled();
+
+    // Two deliveries at once: the unique index turns the second away
+    db.getSignalByIdempotencyKey!
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(signalOf('signal-2', 'alert-2'));
+    db.createSignal!.mockRejectedValueOnce(new Error('Signal with idempotency key alert-2 already received'));
+    expect(await signalService.receive(apiKey, {}, 'alert-2', '10.0.0.5'))
+      .toEqual({ signal: signalOf('signal-2', 'alert-2'), duplicate: true });
+
+    db.createSignal!.mockResolvedValueOnce(signalOf('signal-3', null));
+    expect((await signalService.receive(apiKey, {}, null, '10.0.0.5')).duplicate).toBe(false);
+    expect(db.getSignalByIdempotencyKey).toHaveBeenCalledTimes(3);
+
+    const orders = toSignalOrders(
+      [{ accountId: 'acc-1', brokerName: 'shoonya', accountDisplayName: 'A', quantity: 5, orderId: 'B1', orderHistoryId: 'H1' }],
+      [{ accountId: 'acc-2', brokerName: 'fyers', accountDisplayName: 'B', quantity: 5, error: 'Kill switch is active' }]
+    );
+    expect(orders[1]).toEqual({
+      account_id: 'acc-2', broker_name: 'fyers', order_history_id: null, broker_order_id: null, quantity: 5, success: false, error: 'Kill switch is active'
+    });
+    expect(getSignalStatus(orders)).toBe('PARTIAL');
+    expect(getSignalStatus(orders.slice(0, 1))).toBe('COMPLETED');
+    expect(getSignalStatus([])).toBe('FAILED');
+  });
+
+  test('should end a signal that broke off so retries stop waiting on it', async () => {
+    db.updateSignal!.mockImplementation(async (id: any, update: any) => ({ ...signalOf(id, 'alert-4'), ...update }));
+
+    const failed = await signalService.fail({ ...signalOf('signal-4', 'alert-4'), status: 'PROCESSING', completed_at: null }, 'Database unavailable');
+
+    expect(db.updateSignal).toHaveBeenCalledWith('signal-4', expect.objectContaining({ status: 'FAILED', error: 'Database unavailable' }));
+    expect(failed).toMatchObject({ status: 'FAILED', error: 'Database unavailable' });
+    expect(failed.completed_at).not.toBeNull();
+
+    // A retry with the same key now gets the terminal result instead of a 409
+    db.getSignalByIdempotencyKey!.mockResolvedValueOnce(failed);
+    expect(await signalService.receive(apiKey, {}, 'alert-4', '10.0.0.5')).toEqual({ signal: failed, duplicate: true });
+  });
+});
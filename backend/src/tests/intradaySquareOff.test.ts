@@ -0,0 +1,68 @@
+import { describe, test, expect } from '@jest/globals';
+import { SquareOffSettings } from '../interfaces/IDatabaseAdapter';
+import {
+  getSquareOffRunStatus,
+  isSquareOffDue,
+  resolveSquareOffSettings,
+  validateSquareOffTime
+} from '../utils/intradaySquareOff';
+import { isTradingDay, toMarketDate } from '../utils/tradingCalendar';
+
+const settingsOf = (overrides: Partial<SquareOffSettings>): SquareOffSettings => ({
+  id: 'settings-1',
+  user_id: 'user-1',
+  account_id: null,
+  enabled: true,
+  square_off_time: '15:10',
+  cancel_pending_orders: true,
+  created_at: '2026-10-01T03:45:00.000Z',
+  updated_at: '2026-10-01T03:45:00.000Z',
+  ...overrides
+});
+
+describe('Intraday Square-off', () => {
+  test('should only accept square-off times inside the trading session', () => {
+    expect(validateSquareOffTime('15:10')).toBeNull();
+    expect(validateSquareOffTime('09:20')).toBeNull();
+    expect(validateSquareOffTime('15:30')).not.toBeNull();
+    expect(validateSquareOffTime('09:00')).not.toBeNull();
+    expect(validateSquareOffTime('3:10')).not.toBeNull();
+    expect(validateSquareOffTime('15:61')).not.toBeNull();
+  });
+
+  test('should prefer an account override over the user-wide default', () => {
+    const defaults = settingsOf({ square_off_time: '15:10' });
+    const override = settingsOf({ id: 'settings-2', account_id: 'acc-2', enabled: false });
+
+    expect(resolveSquareOffSettings([defaults, override], 'acc-2')).toBe(override);
+    expect(resolveSquareOffSettings([defaults, override], 'acc-1')).toBe(defaults);
+    expect(resolveSquareOffSettings([override], 'acc-1')).toBeNull();
+  });
+
+  test('should be due from the configured time until the close on trading days only', () => {
+    const settings = settingsOf({ square_off_time: '15:10' });
+
+    // Monday 19 Oct 2026, IST = UTC+05:30
+    expect(isSquareOffDue(settings, new Date('2026-10-19T09:39:00.000Z'))).toBe(false); // 15:09
+    expect(isSquareOffDue(settings, new Date('2026-10-19T09:40:00.000Z'))).toBe(true); // 15:10
+    expect(isSquareOffDue(settings, new Date('2026-10-19T10:00:00.000Z'))).toBe(false); // 15:30, broker already closed
+    expect(isSquareOffDue({ ...settings, enabled: false }, new Date('2026-10-19T09:45:00.000Z'))).toBe(false);
+
+    // Exchange holiday (Diwali) and weekend
+    expect(isSquareOffDue(settings, new Date('2026-10-20T09:45:00.000Z'))).toBe(false);
+    expect(isSquareOffDue(settings, new Date('2026-10-24T09:45:00.000Z'))).toBe(false);
+
+    // Market date follows IST: 19:00 UTC Sunday is already Monday in India
+    expect(toMarketDate(new Date('2026-10-18T19:00:00.000Z'))).toBe('2026-10-19');
+    expect(isTradingDay(new Date('2026-10-18T19:00:00.000Z'))).toBe(true);
+  });
+
+  test('should summarise each run from what was closed and what failed', () => {
+    const failure = { account_id: 'ACC1', operation: 'SQUARE_OFF' as const, reference: 'RELIANCE', message: 'Rejected' };
+
+    expect(getSquareOffRunStatus({ cancelledOrders: 0, squaredOffPositions: 0, failures: [] })).toBe('NOTHING_TO_DO');
+    expect(getSquareOffRunStatus({ cancelledOrders: 1, squaredOffPositions: 2, failures: [] })).toBe('COMPLETED');
+    expect(getSquareOffRunStatus({ cancelledOrders: 1, squaredOffPositions: 0, failures: [failure] })).toBe('PARTIAL');
+    expect(getSquareOffRunStatus({ cancelledOrders: 0, squaredOffPositions: 0, failures: [failure] })).toBe('FAILED');
+  });
+});
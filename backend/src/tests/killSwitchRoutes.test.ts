@@ -0,0 +1,63 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../middleware/auth', () => ({
+  authenticateToken: (req: any, _res: any, next: any) => {
+    req.user = { id: req.headers['x-user-id'] };
+    next();
+  }
+}));
+jest.mock('../services/accountAccessService', () => ({
+  accountAccessService: { checkAccess: jest.fn() }
+}));
+jest.mock('../services/killSwitchService', () => ({
+  killSwitchService: {
+    activate: jest.fn(),
+    deactivate: jest.fn()
+  }
+}));
+jest.mock('../services/auditService', () => ({
+  auditService: { record: jest.fn() }
+}));
+
+import request from 'supertest';
+import express from 'express';
+import killSwitchRoutes from '../routes/killSwitch';
+import { accountAccessService } from '../services/accountAccessService';
+import { killSwitchService } from '../services/killSwitchService';
+
+const checkAccess = accountAccessService.checkAccess as unknown as jest.Mock<(...args: any[]) => any>;
+const activate = killSwitchService.activate as unknown as jest.Mock<(...args: any[]) => any>;
+const deactivate = killSwitchService.deactivate as unknown as jest.Mock<(...args: any[]) => any>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/kill-switch', killSwitchRoutes);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  // The trader has a TRADE grant on the owner's account; MANAGE stays with the owner
+  checkAccess.mockImplementation(async (userId: any, _accountId: any, permission: any) => {
+    if (userId === 'owner' || (userId === 'trader' && permission !== 'MANAGE')) {
+      return { ownerId: 'owner', isOwner: userId === 'owner' };
+    }
+    return null;
+  });
+  activate.mockResolvedValue({ killSwitch: { id: 'switch-1' }, event: { type: 'ACTIVATED' } });
+  deactivate.mockResolvedValue({ killSwitch: { id: 'switch-1' }, event: { type: 'DEACTIVATED' } });
+});
+
+describe('Kill Switch Routes', () => {
+  test('should let a workspace trader halt an account but only its owner resume it', async () => {
+    const halted = await request(app).post('/api/kill-switch/activate').set('x-user-id', 'trader').send({ accountId: 'acc-1' });
+    expect(halted.status).toBe(200);
+    expect(activate).toHaveBeenCalledWith('owner', expect.objectContaining({ accountId: 'acc-1' }));
+
+    const refused = await request(app).post('/api/kill-switch/deactivate').set('x-user-id', 'trader').send({ accountId: 'acc-1' });
+    expect(refused.status).toBe(404);
+    expect(deactivate).not.toHaveBeenCalled();
+
+    const resumed = await request(app).post('/api/kill-switch/deactivate').set('x-user-id', 'owner').send({ accountId: 'acc-1' });
+    expect(resumed.status).toBe(200);
+    expect(deactivate).toHaveBeenCalledWith('owner', 'acc-1', undefined);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  DEFAULT_TRADING_CALENDAR,
+  getMarketSessionState,
+  getNextSessionStart,
+  getOrderSessionError,
+  getSegmentForExchange,
+  isTradingDay,
+  mergeTradingCalendar
+} from '../utils/tradingCalendar';
+
+// IST is UTC+05:30
+const ist = (dateTime: string): Date => new Date(`${dateTime}:00+05:30`);
+
+describe('Market Clock', () => {
+  test('should follow the sessions of each segment on a regular day', () => {
+    // Monday 19 Oct 2026
+    const phase = (time: string, segment: 'EQUITY' | 'FNO' | 'CURRENCY' | 'COMMODITY' = 'EQUITY') =>
+      getMarketSessionState(ist(`2026-10-19T${time}`), segment).phase;
+
+    expect(phase('08:59')).toBe('CLOSED');
+    expect(phase('09:05')).toBe('PRE_OPEN');
+    expect(phase('09:15')).toBe('NORMAL');
+    expect(phase('15:35')).toBe('CLOSING');
+    expect(phase('15:45')).toBe('POST_CLOSE');
+    expect(phase('16:00')).toBe('CLOSED');
+    expect(phase('09:05', 'FNO')).toBe('CLOSED');
+    expect(phase('16:30', 'CURRENCY')).toBe('NORMAL');
+    expect(phase('21:00', 'COMMODITY')).toBe('NORMAL');
+
+    const open = getMarketSessionState(ist('2026-10-19T10:00'), 'EQUITY');
+    expect(open).toMatchObject({ tradingDate: '2026-10-19', isTradingDay: true, nextPhase: 'CLOSING' });
+    expect(open.nextChangeAt).toBe(ist('2026-10-19T15:30').toISOString());
+    expect(getSegmentForExchange('NFO')).toBe('FNO');
+    expect(getSegmentForExchange('MCX')).toBe('COMMODITY');
+  });
+
+  test('should stay closed on holidays and weekends and open for special sessions', () => {
+    // Dussehra: equity and F&O shut, MCX trades
+    const holiday = getMarketSessionState(ist('2026-10-20T11:00'), 'EQUITY');
+    expect(holiday).toMatchObject({ phase: 'CLOSED', isTradingDay: false, holiday: 'Dussehra', nextPhase: 'PRE_OPEN' });
+    expect(holiday.nextChangeAt).toBe(ist('2026-10-21T09:00').toISOString());
+    expect(getMarketSessionState(ist('2026-10-20T11:00'), 'COMMODITY').phase).toBe('NORMAL');
+    expect(isTradingDay(ist('2026-10-24T11:00'))).toBe(false);
+
+    // Friday after the close: next normal session is Monday
+    expect(getNextSessionStart(ist('2026-10-23T16:00'), 'EQUITY')?.toISOString()).toBe(ist('2026-10-26T09:15').toISOString());
+
+    // Muhurat trading on the Diwali holiday
+    const muhurat = getMarketSessionState(ist('2025-10-21T13:50'), 'EQUITY');
+    expect(muhurat).toMatchObject({ phase: 'NORMAL', specialSession: 'Muhurat Trading', holiday: null, nextPhase: 'CLOSED' });
+    expect(getMarketSessionState(ist('2025-10-21T10:00'), 'EQUITY').phase).toBe('CLOSED');
+  });
+
+  test('should add holidays, special sessions and session timings from a calendar file', () => {
+    const calendar = mergeTradingCalendar(DEFAULT_TRADING_CALENDAR, {
+      sessions: { COMMODITY: [{ phase: 'NORMAL', start: '09:00', end: '23:55' }] },
+      holidays: [{ date: '2026-10-19', description: 'Unscheduled closure' }],
+      specialSessions: [{
+        date: '2026-11-08',
+        description: 'Muhurat Trading',
+        sessions: [{ phase: 'NORMAL', start: '18:15', end: '19:15' }, { phase: 'PRE_OPEN', start: '18:00', end: '18:15' }]
+      }]
+    });
+
+    expect(getMarketSessionState(ist('2026-10-19T10:00'), 'EQUITY', calendar).holiday).toBe('Unscheduled closure');
+    expect(getMarketSessionState(ist('2026-10-19T10:00'), 'COMMODITY', calendar).phase).toBe('NORMAL');
+    expect(getMarketSessionState(ist('2026-10-21T23:45'), 'COMMODITY', calendar).phase).toBe('NORMAL');
+    expect(getMarketSessionState(ist('2026-11-08T18:05'), 'FNO', calendar).phase).toBe('PRE_OPEN');
+    expect(isTradingDay(ist('2026-11-08T12:00'), 'EQUITY', calendar)).toBe(true);
+
+    // The built-in calendar is left alone
+    expect(isTradingDay(ist('2026-10-19T12:00'))).toBe(true);
+
+    expect(() => mergeTradingCalendar(DEFAULT_TRADING_CALENDAR, [])).toThrow('JSON object');
+    expect(() => mergeTradingCalendar(DEFAULT_TRADING_CALENDAR, { holidays: [{ date: '19-10-2026' }] })).toThrow('YYYY-MM-DD');
+    expect(() => mergeTradingCalendar(DEFAULT_TRADING_CALENDAR, {
+      specialSessions: [{ date: '2026-11-08', sessions: [{ phase: 'NORMAL', start: '19:15', end: '18:15' }] }]
+    })).toThrow('start before its end');
+  });
+
+  test('should only accept market orders while prices are live', () => {
+    const state = (dateTime: string, segment: 'EQUITY' | 'FNO' = 'EQUITY') =>
+      getMarketSessionState(ist(dateTime), segment);
+
+    expect(getOrderSessionError('MARKET', state('2026-10-19T10:00'))).toBeNull();
+    expect(getOrderSessionError('MARKET', state('2026-10-19T09:05'))).toBeNull();
+    expect(getOrderSessionError('MARKET', state('2026-10-19T09:05', 'FNO'))).toContain('F&O market is closed');
+    expect(getOrderSessionError('SL-MARKET', state('2026-10-19T15:35'))).toContain('closing session');
+    expect(getOrderSessionError('MARKET', state('2026-10-20T10:00'))).toContain('closed (Dussehra) until');
+    expect(getOrderSessionError('LIMIT', state('2026-10-20T10:00'))).toBeNull();
+  });
+});
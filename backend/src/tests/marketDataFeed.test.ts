@@ -0,0 +1,135 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { MarketTick, ShoonyaMarketDataStream, parseFyersTick } from '@copytrade/unified-broker';
+import { SymbolSubscriptionRegistry } from '../utils/symbolSubscriptions';
+
+const socketFactory = (url: string, options?: { headers?: Record<string, string> }) => new WebSocket(url, options);
+
+const reliance = { exchange: 'NSE', symbol: 'RELIANCE', token: '2885' };
+
+const nextTick = (stream: ShoonyaMarketDataStream): Promise<MarketTick> =>
+  new Promise(resolve => stream.once('tick', resolve));
+
+describe('Market Data Feed', () => {
+  let server: WebSocketServer;
+  let url: string;
+  let received: any[];
+  let stream: ShoonyaMarketDataStream | null = null;
+
+  beforeEach(async () => {
+    received = [];
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', client => {
+      client.on('message', data => {
+        const message = JSON.parse(data.toString());
+        received.push(message);
+        if (message.t === 'c') {
+          client.send(JSON.stringify({ t: 'ck', s: 'OK', uid: message.uid }));
+        }
+      });
+    });
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    stream?.close();
+    stream = null;
+    server.clients.forEach(client => client.terminate());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const connectStream = async (): Promise<ShoonyaMarketDataStream> => {
+    const created = new ShoonyaMarketDataStream({ socketFactory, url, reconnectDelayMs: 10 });
+    const connected = new Promise(resolve => created.on('stateChange', state => state === 'CONNECTED' && resolve(state)));
+    created.connect({ accountId: 'FA12345', accessToken: 'token' });
+    await connected;
+    return created;
+  };
+
+  const sendToClients = (message: any) => server.clients.forEach(client => client.send(JSON.stringify(message)));
+
+  // Resolves once the mock server has received a matching message
+  const serverReceived = async (match: (message: any) => boolean): Promise<void> => {
+    while (!received.some(match)) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  };
+
+  test('should merge Shoonya touchline and depth updates into ticks', async () => {
+    stream = await connectStream();
+    stream.subscribe([reliance], 'DEPTH');
+    await serverReceived(message => message.t === 'd');
+    expect(received).toContainEqual({ t: 'd', k: 'NSE|2885' });
+
+    let tick = nextTick(stream);
+    sendToClients({ t: 'dk', e: 'NSE', tk: '2885', lp: '2500.00', c: '2450.00', pc: '2.04', v: '150000', bp1: '2499.90', bq1: '40', sp1: '2500.10', sq1: '25' });
+    expect(await tick).toMatchObject({
+      brokerName: 'shoonya',
+      symbol: 'RELIANCE',
+      exchange: 'NSE',
+      lastPrice: 2500,
+      change: 50,
+      changePercent: 2.04,
+      depth: { bids: [{ price: 2499.9, quantity: 40 }], asks: [{ price: 2500.1, quantity: 25 }] }
+    });
+
+    // Partial feeds only carry what changed
+    tick = nextTick(stream);
+    sendToClients({ t: 'df', e: 'NSE', tk: '2885', lp: '2501.00', bq1: '55' });
+    expect(await tick).toMatchObject({
+      lastPrice: 2501,
+      change: 51,
+      volume: 150000,
+      depth: { bids: [{ price: 2499.9, quantity: 55 }] }
+    });
+  });
+
+  test('should restore subscriptions after reconnecting', async () => {
+    stream = await connectStream();
+    stream.subscribe([reliance, { exchange: 'NSE', symbol: 'TCS', token: '11536' }], 'LTP');
+    await serverReceived(message => message.t === 't');
+
+    received = [];
+    const reconnected = new Promise(resolve => stream!.on('stateChange', state => state === 'CONNECTED' && resolve(state)));
+    server.clients.forEach(client => client.terminate());
+    await reconnected;
+    await serverReceived(message => message.t === 't');
+
+    expect(received.map(message => message.t)).toEqual(['c', 't']);
+    expect(received[1]).toEqual({ t: 't', k: 'NSE|2885#NSE|11536' });
+  });
+
+  test('should build ticks from Fyers symbol and depth messages', () => {
+    const instrument = { exchange: 'NSE', symbol: 'SBIN' };
+    const quote = {
+      symbol: 'NSE:SBIN-EQ', type: 'sf', ltp: 612.5, ch: 2.5, chp: 0.41, vol_traded_today: 820000, prev_close_price: 610,
+      bid_price1: 612.45, bid_size1: 300, ask_price1: 612.5, ask_size1: 120, exch_feed_time: 1704863700
+    };
+
+    expect(parseFyersTick(quote, instrument, 'DEPTH')).toMatchObject({
+      brokerName: 'fyers',
+      symbol: 'SBIN',
+      lastPrice: 612.5,
+      change: 2.5,
+      volume: 820000,
+      depth: { bids: [{ price: 612.45, quantity: 300 }], asks: [{ price: 612.5, quantity: 120 }] },
+      timestamp: new Date(1704863700 * 1000)
+    });
+    expect(parseFyersTick({ symbol: 'NSE:SBIN-EQ', type: 'dp', bid_price1: 612.45 }, instrument, 'DEPTH')).toBeNull();
+  });
+
+  test('should reference count symbol subscriptions across clients', () => {
+    const registry = new SymbolSubscriptionRegistry();
+
+    expect(registry.add('RELIANCE:NSE', 'socket-1')).toEqual({ key: 'RELIANCE:NSE', mode: 'LTP' });
+    expect(registry.add('RELIANCE:NSE', 'socket-2')).toBeNull();
+    expect(registry.add('RELIANCE:NSE', 'socket-2', true)).toEqual({ key: 'RELIANCE:NSE', mode: 'DEPTH' });
+    expect(registry.getReferenceCount('RELIANCE:NSE')).toBe(2);
+
+    expect(registry.removeClient('socket-2')).toEqual([{ key: 'RELIANCE:NSE', mode: 'LTP' }]);
+    expect(registry.remove('RELIANCE:NSE', 'socket-1')).toEqual({ key: 'RELIANCE:NSE', mode: null });
+    expect(registry.size).toBe(0);
+  });
+});
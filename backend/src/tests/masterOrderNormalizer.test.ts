@@ -0,0 +1,136 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  MasterOrderSnapshot,
+  diffMasterOrders,
+  normalizeMasterOrder,
+  normalizeMasterOrderBook
+} from '../utils/masterOrderNormalizer';
+
+const snapshot = (overrides: Partial<MasterOrderSnapshot> = {}): MasterOrderSnapshot => ({
+  brokerOrderId: '1001',
+  symbol: 'RELIANCE-EQ',
+  exchange: 'NSE',
+  action: 'BUY',
+  quantity: 10,
+  filledQuantity: 0,
+  price: 2500,
+  triggerPrice: 0,
+  orderType: 'LIMIT',
+  productType: 'CNC',
+  state: 'OPEN',
+  ...overrides
+});
+
+describe('Master Order Normalizer', () => {
+  describe('normalizeMasterOrder', () => {
+    test('should normalize a Shoonya order', () => {
+      const order = normalizeMasterOrder('shoonya', {
+        norenordno: '24071500001',
+        tsym: 'TCS-EQ',
+        exch: 'NSE',
+        trantype: 'S',
+        qty: '5',
+        fillshares: '2',
+        prc: '3900.50',
+        trgprc: '3890',
+        prctyp: 'SL-LMT',
+        prd: 'I',
+        status: 'TRIGGER_PENDING'
+      });
+
+      expect(order).toEqual({
+        brokerOrderId: '24071500001',
+        symbol: 'TCS-EQ',
+        exchange: 'NSE',
+        action: 'SELL',
+        quantity: 5,
+        filledQuantity: 2,
+        price: 3900.5,
+        triggerPrice: 3890,
+        orderType: 'SL-LIMIT',
+        productType: 'MIS',
+        state: 'OPEN'
+      });
+    });
+
+    test('should normalize a Fyers order and split the exchange prefix', () => {
+      const order = normalizeMasterOrder('fyers', {
+        id: '52104097616',
+        symbol: 'NSE:INFY-EQ',
+        qty: 4,
+        filledQty: 4,
+        side: 1,
+        type: 2,
+        status: 2,
+        limitPrice: 0,
+        stopPrice: 0,
+        productType: 'INTRADAY'
+      });
+
+      expect(order).toMatchObject({
+        brokerOrderId: '52104097616',
+        symbol: 'INFY-EQ',
+        exchange: 'NSE',
+        action: 'BUY',
+        orderType: 'MARKET',
+        productType: 'MIS',
+        state: 'FILLED'
+      });
+    });
+
+    test('should return null for unknown brokers and malformed orders', () => {
+      expect(normalizeMasterOrder('unknown', { id: '1' })).toBeNull();
+      expect(normalizeMasterOrder('shoonya', { tsym: 'TCS-EQ' })).toBeNull();
+      expect(normalizeMasterOrder('fyers', null)).toBeNull();
+    });
+  });
+
+  describe('normalizeMasterOrderBook', () => {
+    test('should accept wrapped responses and ignore error payloads', () => {
+      expect(normalizeMasterOrderBook('fyers', { orderBook: [{ id: '1', symbol: 'NSE:SBIN-EQ', status: 6 }] })).toHaveLength(1);
+      expect(normalizeMasterOrderBook('shoonya', { stat: 'Not_Ok', emsg: 'no data' })).toEqual([]);
+    });
+  });
+
+  describe('diffMasterOrders', () => {
+    test('should report new open and filled orders as placed', () => {
+      const diff = diffMasterOrders(new Map(), [
+        snapshot({ brokerOrderId: '1' }),
+        snapshot({ brokerOrderId: '2', state: 'FILLED' }),
+        snapshot({ brokerOrderId: '3', state: 'REJECTED' }),
+        snapshot({ brokerOrderId: '4', state: 'CANCELLED' })
+      ]);
+
+      expect(diff.placed.map(order => order.brokerOrderId)).toEqual(['1', '2']);
+      expect(diff.modified).toHaveLength(0);
+      expect(diff.cancelled).toHaveLength(0);
+    });
+
+    test('should detect modifications and cancellations of open orders', () => {
+      const previous = new Map([
+        ['1', snapshot({ brokerOrderId: '1' })],
+        ['2', snapshot({ brokerOrderId: '2' })],
+        ['3', snapshot({ brokerOrderId: '3' })]
+      ]);
+
+      const diff = diffMasterOrders(previous, [
+        snapshot({ brokerOrderId: '1', price: 2510 }),
+        snapshot({ brokerOrderId: '2', state: 'CANCELLED' }),
+        snapshot({ brokerOrderId: '3', state: 'FILLED', filledQuantity: 10 })
+      ]);
+
+      expect(diff.placed).toHaveLength(0);
+      expect(diff.modified.map(order => order.brokerOrderId)).toEqual(['1']);
+      expect(diff.cancelled.map(order => order.brokerOrderId)).toEqual(['2']);
+    });
+
+    test('should ignore changes to orders that were already closed', () => {
+      const previous = new Map([['1', snapshot({ brokerOrderId: '1', state: 'FILLED' })]]);
+
+      const diff = diffMasterOrders(previous, [snapshot({ brokerOrderId: '1', state: 'CANCELLED' })]);
+
+      expect(diff.cancelled).toHaveLength(0);
+      expect(diff.modified).toHaveLength(0);
+    });
+  });
+});
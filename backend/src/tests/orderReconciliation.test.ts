@@ -0,0 +1,54 @@
+import { describe, test, expect } from '@jest/globals';
+import { MasterOrderSnapshot } from '../utils/masterOrderNormalizer';
+import { getMarketPhase, getOrderStatusChange, getReconcileDelay } from '../utils/orderReconciliation';
+
+const intervals = { open: 15000, quiet: 60000 };
+
+const snapshot = (overrides: Partial<MasterOrderSnapshot> = {}): MasterOrderSnapshot => ({
+  brokerOrderId: '1001',
+  symbol: 'RELIANCE-EQ',
+  exchange: 'NSE',
+  action: 'BUY',
+  quantity: 10,
+  filledQuantity: 0,
+  price: 2500,
+  triggerPrice: 0,
+  orderType: 'LIMIT',
+  productType: 'CNC',
+  state: 'OPEN',
+  ...overrides
+});
+
+describe('Order Reconciliation', () => {
+  test('should follow the IST market session', () => {
+    // Wednesday 2024-01-10, times in UTC (IST - 5:30)
+    expect(getMarketPhase(new Date('2024-01-10T03:35:00Z'))).toBe('PRE_OPEN');
+    expect(getMarketPhase(new Date('2024-01-10T03:45:00Z'))).toBe('OPEN');
+    expect(getMarketPhase(new Date('2024-01-10T10:15:00Z'))).toBe('POST_CLOSE');
+    expect(getMarketPhase(new Date('2024-01-10T11:00:00Z'))).toBe('CLOSED');
+    expect(getMarketPhase(new Date('2024-01-13T05:00:00Z'))).toBe('CLOSED');
+  });
+
+  test('should poll faster in session and sleep until the next weekday pre-open', () => {
+    expect(getReconcileDelay(new Date('2024-01-10T05:00:00Z'), intervals)).toBe(15000);
+    expect(getReconcileDelay(new Date('2024-01-10T10:15:00Z'), intervals)).toBe(60000);
+    // Wednesday 16:30 IST -> Thursday 09:00 IST
+    expect(getReconcileDelay(new Date('2024-01-10T11:00:00Z'), intervals)).toBe(16.5 * 60 * 60 * 1000);
+    // Friday 16:30 IST -> Monday 09:00 IST
+    expect(getReconcileDelay(new Date('2024-01-12T11:00:00Z'), intervals)).toBe((16.5 + 48) * 60 * 60 * 1000);
+  });
+
+  test('should map order book states onto stored orders', () => {
+    expect(getOrderStatusChange({ status: 'PLACED' }, snapshot())).toBeNull();
+    expect(getOrderStatusChange({ status: 'PLACED' }, snapshot({ filledQuantity: 4, averagePrice: 2499.5 }))).toEqual({
+      status: 'PARTIALLY_FILLED',
+      executedQuantity: 4,
+      averagePrice: 2499.5
+    });
+    expect(getOrderStatusChange({ status: 'PARTIALLY_FILLED', executed_quantity: 4 }, snapshot({ filledQuantity: 4 }))).toBeNull();
+    expect(getOrderStatusChange({ status: 'PARTIALLY_FILLED', executed_quantity: 4 }, snapshot({ filledQuantity: 10, state: 'FILLED' })))
+      .toEqual({ status: 'EXECUTED', executedQuantity: 10 });
+    expect(getOrderStatusChange({ status: 'PENDING' }, snapshot({ state: 'REJECTED' })))
+      .toEqual({ status: 'REJECTED', executedQuantity: 0 });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { FyersOrderStream, OrderUpdateEvent, OrderUpdateStream, ShoonyaOrderStream } from '@copytrade/unified-broker';
+
+const socketFactory = (url: string, options?: { headers?: Record<string, string> }) => new WebSocket(url, options);
+
+const waitFor = <T>(stream: OrderUpdateStream, event: string, match: (value: any) => boolean = () => true): Promise<T> =>
+  new Promise(resolve => {
+    const listener = (value: any) => {
+      if (match(value)) {
+        stream.off(event, listener);
+        resolve(value);
+      }
+    };
+    stream.on(event, listener);
+  });
+
+/**
+ * Answers like the Shoonya order socket: acknowledges login (or rejects the
+ * token) and confirms the order subscription
+ */
+const handleShoonyaClient = (client: WebSocket, sessionValid: () => boolean) => {
+  client.on('message', data => {
+    const message = JSON.parse(data.toString());
+    if (message.t === 'c') {
+      client.send(JSON.stringify({ t: 'ck', s: sessionValid() ? 'OK' : 'NOT_OK', uid: message.uid }));
+    } else if (message.t === 'o') {
+      client.send(JSON.stringify({ t: 'ok' }));
+    }
+  });
+};
+
+describe('Order Update Streams', () => {
+  let server: WebSocketServer;
+  let url: string;
+  let stream: OrderUpdateStream | null = null;
+
+  beforeEach(async () => {
+    server = new WebSocketServer({ port: 0 });
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    stream?.close();
+    stream = null;
+    server.clients.forEach(client => client.terminate());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('should log in to Shoonya and normalise order updates', async () => {
+    server.on('connection', client => handleShoonyaClient(client, () => true));
+    stream = new ShoonyaOrderStream({ socketFactory, url });
+
+    const connected = waitFor(stream, 'stateChange', state => state === 'CONNECTED');
+    stream.connect({ accountId: 'FA12345', accessToken: 'token' });
+    await connected;
+
+    const update = waitFor<OrderUpdateEvent>(stream, 'orderUpdate');
+    server.clients.forEach(client => client.send(JSON.stringify({
+      t: 'om', norenordno: '24011000001', status: 'COMPLETE', fillshares: '10', avgprc: '2501.50', exch_tm: '10-01-2024 10:15:00'
+    })));
+
+    expect(await update).toMatchObject({
+      brokerName: 'shoonya',
+      accountId: 'FA12345',
+      brokerOrderId: '24011000001',
+      status: 'EXECUTED',
+      executionData: { executedQuantity: 10, averagePrice: 2501.5 }
+    });
+  });
+
+  test('should reconnect after the connection drops', async () => {
+    let connections = 0;
+    server.on('connection', client => {
+      connections++;
+      handleShoonyaClient(client, () => true);
+    });
+    stream = new ShoonyaOrderStream({ socketFactory, url, reconnectDelayMs: 10 });
+
+    const connected = waitFor(stream, 'stateChange', state => state === 'CONNECTED');
+    stream.connect({ accountId: 'FA12345', accessToken: 'token' });
+    await connected;
+
+    const reconnected = waitFor(stream, 'stateChange', state => state === 'CONNECTED');
+    server.clients.forEach(client => client.terminate());
+    await reconnected;
+
+    expect(connections).toBe(2);
+    expect(stream.isConnected()).toBe(true);
+  });
+
+  test('should report session expiry and reconnect with a fresh session', async () => {
+    const validTokens = new Set(['fresh-token']);
+    let lastToken = '';
+    server.on('connection', client => {
+      client.on('message', data => {
+        const message = JSON.parse(data.toString());
+        if (message.t === 'c') {
+          lastToken = message.susertoken;
+        }
+      });
+      handleShoonyaClient(client, () => validTokens.has(lastToken));
+    });
+    stream = new ShoonyaOrderStream({ socketFactory, url, reconnectDelayMs: 10 });
+
+    const expired = waitFor<string>(stream, 'sessionExpired');
+    stream.connect({ accountId: 'FA12345', accessToken: 'stale-token' });
+    await expired;
+    expect(stream.getState()).toBe('SESSION_EXPIRED');
+
+    const connected = waitFor(stream, 'stateChange', state => state === 'CONNECTED');
+    stream.connect({ accountId: 'FA12345', accessToken: 'fresh-token' });
+    await connected;
+  });
+
+  test('should authorise Fyers with the app id and map its order statuses', async () => {
+    let authorization: string | undefined;
+    server.on('connection', (client, request) => {
+      authorization = request.headers.authorization;
+      client.on('message', data => {
+        if (JSON.parse(data.toString()).T === 'SUB_ORD') {
+          client.send(JSON.stringify({ s: 'ok', code: 200, message: 'subscribed' }));
+        }
+      });
+    });
+    stream = new FyersOrderStream({ socketFactory, url });
+
+    const connected = waitFor(stream, 'stateChange', state => state === 'CONNECTED');
+    stream.connect({ accountId: 'XY12345', accessToken: 'token', appId: 'APP-100' });
+    await connected;
+    expect(authorization).toBe('APP-100:token');
+
+    const update = waitFor<OrderUpdateEvent>(stream, 'orderUpdate');
+    server.clients.forEach(client => client.send(JSON.stringify({
+      s: 'ok', orders: { id: '23080400089344', status: 5, filledQty: 0, message: 'RMS: margin exceeds' }
+    })));
+
+    expect(await update).toMatchObject({
+      brokerName: 'fyers',
+      brokerOrderId: '23080400089344',
+      status: 'REJECTED',
+      executionData: { rejectionReason: 'RMS: margin exceeds' }
+    });
+  });
+});
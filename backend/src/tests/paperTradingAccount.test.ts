@@ -0,0 +1,181 @@
+import { describe, test, expect } from '@jest/globals';
+import { PaperTradingAccount } from '../brokers/paper/PaperTradingAccount';
+import { PaperExchange } from '../brokers/paper/paperExchange';
+import { PaperAccountSnapshot, PaperAccountStore, PaperOrderRequest } from '../brokers/paper/types';
+
+const account = (maxFillQuantity?: number) =>
+  new PaperTradingAccount('PAPER1', { initialCapital: 100000, maxFillQuantity });
+
+const memoryStore = (): PaperAccountStore & { saved: Map<string, PaperAccountSnapshot> } => {
+  const saved = new Map<string, PaperAccountSnapshot>();
+  return {
+    saved,
+    load: async accountId => saved.get(accountId) || null,
+    loadAll: async () => Array.from(saved.values()),
+    save: async snapshot => {
+      saved.set(snapshot.accountId, JSON.parse(JSON.stringify(snapshot)));
+    }
+  };
+};
+
+const order = (overrides: Partial<PaperOrderRequest> = {}): PaperOrderRequest => ({
+  symbol: 'RELIANCE-EQ',
+  action: 'BUY',
+  quantity: 10,
+  orderType: 'MARKET',
+  exchange: 'NSE',
+  productType: 'MIS',
+  ...overrides
+});
+
+describe('Paper Trading Account', () => {
+  test('should fill market orders at the reference price and move cash', () => {
+    const paper = account();
+    const placed = paper.placeOrder(order(), 2500);
+
+    expect(placed.status).toBe('EXECUTED');
+    expect(placed.averagePrice).toBe(2500);
+    expect(paper.getFunds()).toMatchObject({ cash: 75000, blocked: 0, available: 75000 });
+    expect(paper.getPositions()[0]).toMatchObject({ symbol: 'RELIANCE-EQ', quantity: 10, averagePrice: 2500 });
+  });
+
+  test('should rest limit orders until the price crosses and reserve their cash', () => {
+    const paper = account();
+    const placed = paper.placeOrder(order({ orderType: 'LIMIT', price: 2400 }), 2500);
+
+    expect(placed.status).toBe('PLACED');
+    expect(paper.getFunds()).toMatchObject({ blocked: 24000, available: 76000 });
+
+    expect(paper.applyPrice('RELIANCE-EQ', 'NSE', 2450)).toEqual([]);
+    const [filled] = paper.applyPrice('RELIANCE-EQ', 'NSE', 2390);
+    expect(filled).toMatchObject({ status: 'EXECUTED', averagePrice: 2390 });
+    expect(paper.getFunds()).toMatchObject({ cash: 76100, blocked: 0 });
+  });
+
+  test('should trigger stop orders and then fill them like limit or market orders', () => {
+    const paper = account();
+    paper.placeOrder(order({ quantity: 20 }), 2500);
+    const stop = paper.placeOrder(order({ action: 'SELL', quantity: 20, orderType: 'SL-LIMIT', triggerPrice: 2450, price: 2445 }), 2500);
+    expect(stop.status).toBe('PENDING');
+
+    // Gapped below the 2450 trigger, but under the 2445 limit
+    expect(paper.applyPrice('RELIANCE-EQ', 'NSE', 2430)[0]).toMatchObject({ status: 'PLACED', triggered: true, filledQuantity: 0 });
+    expect(paper.applyPrice('RELIANCE-EQ', 'NSE', 2446)[0]).toMatchObject({ status: 'EXECUTED', averagePrice: 2446 });
+  });
+
+  test('should fill large orders across price updates when fills are capped', () => {
+    const paper = account(4);
+    const placed = paper.placeOrder(order({ orderType: 'LIMIT', price: 100, quantity: 10 }), 100);
+    expect(placed).toMatchObject({ status: 'PARTIALLY_FILLED', filledQuantity: 4 });
+
+    paper.applyPrice('RELIANCE-EQ', 'NSE', 98);
+    const [last] = paper.applyPrice('RELIANCE-EQ', 'NSE', 99);
+    expect(last).toMatchObject({ status: 'EXECUTED', filledQuantity: 10, averagePrice: 99 });
+    expect(paper.getTrades().map(trade => [trade.tradeId, trade.quantity, trade.price])).toEqual([
+      [`${placed.orderId}-3`, 2, 99],
+      [`${placed.orderId}-2`, 4, 98],
+      [`${placed.orderId}-1`, 4, 100]
+    ]);
+  });
+
+  test('should cancel the unfilled remainder of IOC orders', () => {
+    const paper = account();
+    expect(paper.placeOrder(order({ orderType: 'LIMIT', price: 2400, validity: 'IOC' }), 2500).status).toBe('CANCELLED');
+    expect(paper.getFunds().blocked).toBe(0);
+  });
+
+  test('should reject orders without funds or holdings', () => {
+    const paper = account();
+
+    expect(paper.placeOrder(order({ quantity: 50 }), 2500)).toMatchObject({
+      status: 'REJECTED',
+      rejectionReason: 'Insufficient funds: required 125000, available 100000'
+    });
+    expect(paper.placeOrder(order({ action: 'SELL', productType: 'CNC' }), 2500).rejectionReason)
+      .toBe('Insufficient holdings: 0 RELIANCE-EQ available to sell');
+    expect(paper.placeOrder(order({ symbol: 'TCS-EQ' }), null).rejectionReason).toBe('No market price available for TCS-EQ');
+    // Intraday sells may go short
+    expect(paper.placeOrder(order({ action: 'SELL' }), 2500).status).toBe('EXECUTED');
+    expect(paper.getOrders()).toHaveLength(4);
+  });
+
+  test('should track realized and unrealized P&L on net positions', () => {
+    const paper = account();
+    paper.placeOrder(order({ quantity: 10 }), 2500);
+    paper.placeOrder(order({ quantity: 10 }), 2600);
+    paper.placeOrder(order({ action: 'SELL', quantity: 15 }), 2700);
+    paper.applyPrice('RELIANCE-EQ', 'NSE', 2650);
+
+    expect(paper.getPositions()[0]).toMatchObject({
+      quantity: 5,
+      averagePrice: 2550,
+      realizedPnl: 2250,
+      unrealizedPnl: 500,
+      pnl: 2750
+    });
+    expect(paper.getFunds()).toMatchObject({ cash: 89500, realizedPnl: 2250, unrealizedPnl: 500 });
+  });
+
+  test('should modify and cancel only open orders', () => {
+    const paper = account();
+    const placed = paper.placeOrder(order({ orderType: 'LIMIT', price: 2400 }), 2500);
+
+    expect(paper.modifyOrder(placed.orderId, { price: 2500 }, 2500)).toMatchObject({ status: 'EXECUTED', averagePrice: 2500 });
+    expect(() => paper.cancelOrder(placed.orderId)).toThrow(`Order ${placed.orderId} is already executed`);
+
+    const resting = paper.placeOrder(order({ orderType: 'LIMIT', price: 2000 }), 2500);
+    expect(paper.cancelOrder(resting.orderId).status).toBe('CANCELLED');
+    expect(() => paper.modifyOrder('missing', { price: 1 }, null)).toThrow('Order missing not found');
+  });
+
+  test('should re-check funds at the fill price when a buy fills above its reservation', () => {
+    const paper = account();
+    // 40 x 2400 = 96000 reserved at the trigger price
+    const stop = paper.placeOrder(order({ quantity: 40, orderType: 'SL-MARKET', triggerPrice: 2400 }), 2300);
+    expect(paper.getFunds()).toMatchObject({ blocked: 96000, available: 4000 });
+
+    // Gaps through the trigger to 2600: 104000 is more than the account holds
+    expect(paper.applyPrice('RELIANCE-EQ', 'NSE', 2600)[0]).toMatchObject({
+      orderId: stop.orderId,
+      status: 'REJECTED',
+      filledQuantity: 0,
+      rejectionReason: 'Insufficient funds: required 104000, available 100000'
+    });
+    expect(paper.getFunds()).toMatchObject({ cash: 100000, blocked: 0, available: 100000 });
+  });
+
+  test('should cancel the remainder of a partly filled buy that can no longer be paid for', () => {
+    const paper = account(20);
+    const placed = paper.placeOrder(order({ quantity: 40, orderType: 'SL-MARKET', triggerPrice: 2400 }), 2300);
+
+    expect(paper.applyPrice('RELIANCE-EQ', 'NSE', 2400)[0]).toMatchObject({ status: 'PARTIALLY_FILLED', filledQuantity: 20 });
+    expect(paper.applyPrice('RELIANCE-EQ', 'NSE', 2700)[0]).toMatchObject({ status: 'CANCELLED', filledQuantity: 20 });
+    expect(paper.getOrder(placed.orderId)?.rejectionReason).toBe('Insufficient funds: required 54000, available 52000');
+    expect(paper.getFunds()).toMatchObject({ cash: 52000, blocked: 0 });
+  });
+
+  test('should bring accounts and their open orders back from the store after a restart', async () => {
+    const store = memoryStore();
+    const before = new PaperExchange();
+    before.setStore(store);
+
+    const paper = await before.getOrCreateAccount('PAPER1', { initialCapital: 100000 });
+    paper.placeOrder(order({ quantity: 10 }), 2500);
+    const resting = paper.placeOrder(order({ orderType: 'LIMIT', price: 2400 }), 2500);
+    await before.persist(paper);
+
+    // A new exchange is what the server starts with after a restart
+    const after = new PaperExchange();
+    after.setStore(store);
+    expect(await after.restoreAccounts()).toBe(1);
+
+    after.feedPrice('RELIANCE-EQ', 'NSE', 2390);
+    const restored = await after.getOrCreateAccount('PAPER1', { initialCapital: 100000 });
+    expect(restored.getOrder(resting.orderId)).toMatchObject({ status: 'EXECUTED', averagePrice: 2390 });
+    expect(restored.getFunds()).toMatchObject({ cash: 51100, blocked: 0 });
+    expect(restored.getPositions()[0]).toMatchObject({ quantity: 20, averagePrice: 2445 });
+
+    // The fill was saved too
+    expect(store.saved.get('PAPER1')?.orders.find(item => item.orderId === resting.orderId)?.status).toBe('EXECUTED');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, test, expect } from '@jest/globals';
+import { getOpenPositions, normalizePosition, normalizePositions } from '../utils/positionNormalizer';
+
+describe('Position Normalizer', () => {
+  test('should normalize a Shoonya position', () => {
+    expect(normalizePosition('shoonya', {
+      stat: 'Ok',
+      tsym: 'TCS-EQ',
+      exch: 'NSE',
+      netqty: '-5',
+      netavgprc: '3900.50',
+      lp: '3880',
+      rpnl: '120',
+      urmtom: '102.50',
+      prd: 'I'
+    })).toEqual({
+      symbol: 'TCS-EQ',
+      exchange: 'NSE',
+      quantity: -5,
+      averagePrice: 3900.5,
+      lastPrice: 3880,
+      pnl: 222.5,
+      productType: 'MIS'
+    });
+  });
+
+  test('should normalize a Fyers position and split the exchange prefix', () => {
+    expect(normalizePosition('fyers', {
+      symbol: 'NSE:RELIANCE-EQ',
+      netQty: 10,
+      netAvg: 2500,
+      ltp: 2510,
+      pl: 100,
+      productType: 'MARGIN'
+    })).toEqual({
+      symbol: 'RELIANCE-EQ',
+      exchange: 'NSE',
+      quantity: 10,
+      averagePrice: 2500,
+      lastPrice: 2510,
+      pnl: 100,
+      productType: 'NRML'
+    });
+  });
+
+  test('should accept wrapped responses and ignore error payloads', () => {
+    const netPositions = [{ symbol: 'NSE:INFY-EQ', netQty: 0, productType: 'CNC' }, { symbol: 'NSE:TCS-EQ', netQty: 2, productType: 'CNC' }];
+
+    expect(normalizePositions('fyers', { netPositions })).toHaveLength(2);
+    expect(normalizePositions('shoonya', { stat: 'Not_Ok', emsg: 'no data' })).toEqual([]);
+    expect(normalizePositions('zerodha', [{ tsym: 'TCS-EQ' }])).toEqual([]);
+    expect(getOpenPositions(normalizePositions('fyers', netPositions)).map(position => position.symbol)).toEqual(['TCS-EQ']);
+  });
+});
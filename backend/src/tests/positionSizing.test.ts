@@ -0,0 +1,134 @@
+import { describe, test, expect, jest } from '@jest/globals';
+
+jest.mock('../services/databaseCompatibility', () => ({
+  userDatabase: {
+    getSizingRuleByAccountId: jest.fn()
+  }
+}));
+jest.mock('../services/nseCSVService', () => ({
+  nseCSVService: {
+    getSymbol: jest.fn()
+  }
+}));
+jest.mock('../services/derivativesCSVService', () => ({
+  derivativesCSVService: {
+    getInstrument: jest.fn()
+  }
+}));
+jest.mock('../services/brokerAccountDataService', () => ({
+  brokerAccountDataService: {
+    getFunds: jest.fn()
+  }
+}));
+jest.mock('../services/marketDataService', () => ({
+  marketDataService: {
+    getPrice: jest.fn()
+  }
+}));
+
+import { userDatabase } from '../services/databaseCompatibility';
+import { derivativesCSVService } from '../services/derivativesCSVService';
+import { brokerAccountDataService } from '../services/brokerAccountDataService';
+import { calculateSizedQuantity, positionSizingService } from '../services/positionSizingService';
+import { AccountSizingRule } from '../interfaces/IDatabaseAdapter';
+
+const rule = (overrides: Partial<AccountSizingRule> = {}): AccountSizingRule => ({
+  id: 'rule-1',
+  user_id: 'user-1',
+  account_id: 'account-1',
+  method: 'FIXED_QUANTITY',
+  value: 10,
+  round_to_lot: true,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+describe('Position Sizing', () => {
+  test('should use the source quantity when an account has no rule', () => {
+    expect(calculateSizedQuantity(null, { sourceQuantity: 7, price: 100, lotSize: 1 })).toEqual({
+      quantity: 7,
+      rawQuantity: 7,
+      lotSize: 1,
+      method: 'SOURCE'
+    });
+  });
+
+  test('should apply fixed quantity and multiplier rules', () => {
+    expect(calculateSizedQuantity(rule({ value: 12 }), { sourceQuantity: 5, price: 100, lotSize: 1 }).quantity).toBe(12);
+    expect(calculateSizedQuantity(rule({ method: 'MULTIPLIER', value: 2.5 }), { sourceQuantity: 5, price: 100, lotSize: 1 }).quantity).toBe(12);
+  });
+
+  test('should size percent of capital and fixed notional rules from the reference price', () => {
+    const percent = rule({ method: 'PERCENT_OF_CAPITAL', value: 10, capital: 500000 });
+    expect(calculateSizedQuantity(percent, { sourceQuantity: 1, price: 2500, lotSize: 1 }).quantity).toBe(20);
+
+    // The broker's available funds take precedence over the configured capital
+    expect(calculateSizedQuantity(percent, { sourceQuantity: 1, price: 2500, lotSize: 1, availableFunds: 200000 }).quantity).toBe(8);
+
+    const notional = rule({ method: 'FIXED_NOTIONAL', value: 100000 });
+    expect(calculateSizedQuantity(notional, { sourceQuantity: 1, price: 3000, lotSize: 1 }).quantity).toBe(33);
+  });
+
+  test('should round down to the market lot', () => {
+    const sized = calculateSizedQuantity(rule({ method: 'MULTIPLIER', value: 3 }), { sourceQuantity: 30, price: 100, lotSize: 25 });
+    expect(sized.quantity).toBe(75);
+    expect(sized.rawQuantity).toBe(90);
+  });
+
+  test('should apply min and max caps in whole lots', () => {
+    expect(calculateSizedQuantity(rule({ value: 10, min_quantity: 30 }), { sourceQuantity: 1, price: 100, lotSize: 25 }).quantity).toBe(50);
+    expect(calculateSizedQuantity(rule({ value: 200, max_quantity: 60 }), { sourceQuantity: 1, price: 100, lotSize: 25 }).quantity).toBe(50);
+    expect(calculateSizedQuantity(rule({ value: 200, max_quantity: 60, round_to_lot: false }), { sourceQuantity: 1, price: 100, lotSize: 25 }).quantity).toBe(60);
+  });
+
+  test('should return zero with a note when the rule cannot be sized', () => {
+    const noPrice = calculateSizedQuantity(rule({ method: 'FIXED_NOTIONAL', value: 10000 }), { sourceQuantity: 1, price: 0, lotSize: 1 });
+    expect(noPrice.quantity).toBe(0);
+    expect(noPrice.note).toBe('Reference price unavailable');
+
+    const belowLot = calculateSizedQuantity(rule({ value: 10 }), { sourceQuantity: 1, price: 100, lotSize: 50 });
+    expect(belowLot.quantity).toBe(0);
+    expect(belowLot.note).toBe('Computed quantity is below one lot');
+  });
+
+  test('should size derivative orders in whole lots of the contract', async () => {
+    (derivativesCSVService.getInstrument as jest.Mock<(...args: any[]) => any>).mockReturnValue({ lotSize: 75 });
+    (userDatabase.getSizingRuleByAccountId as jest.Mock<(...args: any[]) => any>).mockImplementation(async (accountId: any) => (
+      accountId === 'account-1'
+        ? rule({ method: 'MULTIPLIER', value: 1.5, round_to_lot: false })
+        : rule({ account_id: accountId, method: 'FIXED_QUANTITY', value: 100, round_to_lot: false })
+    ));
+
+    const sized = await positionSizingService.sizeForAccounts([{ id: 'account-1' }, { id: 'account-2' }], {
+      symbol: 'NIFTY24DEC24000CE',
+      exchange: 'NFO',
+      quantity: 150,
+      price: 120
+    });
+
+    expect(derivativesCSVService.getInstrument).toHaveBeenCalledWith('NFO', 'NIFTY24DEC24000CE');
+    expect(sized.map(entry => entry.sizing.quantity)).toEqual([225, 75]);
+    expect(sized[0]!.sizing.lotSize).toBe(75);
+  });
+
+  test('should size percent of capital from the broker funds and fall back to the configured capital', async () => {
+    (userDatabase.getSizingRuleByAccountId as jest.Mock<(...args: any[]) => any>).mockImplementation(async (accountId: any) => (
+      rule({ account_id: accountId, method: 'PERCENT_OF_CAPITAL', value: 10, capital: 500000 })
+    ));
+    (brokerAccountDataService.getFunds as jest.Mock<(...args: any[]) => any>).mockImplementation(async (_userId: any, accountId: any) => ({
+      totals: {},
+      accounts: [accountId === 'account-1'
+        ? { accountId, data: { availableCash: 100000 } }
+        : { accountId, data: null, error: 'Failed to activate shoonya account' }]
+    }));
+
+    const sized = await positionSizingService.sizeForAccounts([
+      { id: 'account-1', user_id: 'user-1' },
+      { id: 'account-2', user_id: 'user-1' }
+    ], { symbol: 'TCS', exchange: 'NSE', quantity: 1, price: 2500 });
+
+    expect(brokerAccountDataService.getFunds).toHaveBeenCalledWith('user-1', 'account-1');
+    expect(sized.map(entry => entry.sizing.quantity)).toEqual([4, 20]);
+  });
+});
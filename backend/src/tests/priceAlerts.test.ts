@@ -0,0 +1,131 @@
+import { describe, test, expect } from '@jest/globals';
+import { Candle, PriceAlert } from '../interfaces/IDatabaseAdapter';
+import {
+  computeReferenceStats,
+  evaluateAlertCondition,
+  isInitiallyArmed,
+  nextAlertState,
+  validateAlertThreshold
+} from '../utils/priceAlerts';
+
+const alertOf = (overrides: Partial<PriceAlert>): PriceAlert => ({
+  id: 'alert-1',
+  user_id: 'user-1',
+  name: 'Reliance breakout',
+  condition: 'PRICE_ABOVE',
+  symbol: 'RELIANCE',
+  exchange: 'NSE',
+  threshold: 2500,
+  trigger: 'ONCE',
+  cooldown_minutes: 15,
+  channels: ['WEBSOCKET'],
+  webhook_url: null,
+  status: 'ACTIVE',
+  armed: isInitiallyArmed(overrides.condition || 'PRICE_ABOVE'),
+  peak_value: null,
+  last_value: null,
+  last_triggered_at: null,
+  trigger_count: 0,
+  created_at: '2024-01-10T03:45:00.000Z',
+  updated_at: '2024-01-10T03:45:00.000Z',
+  ...overrides
+});
+
+const day = (start: string, high: number, low: number, volume: number): Candle => ({
+  symbol: 'RELIANCE',
+  exchange: 'NSE',
+  interval: '1d',
+  start,
+  open: low,
+  high,
+  low,
+  close: high,
+  volume,
+  source: 'broker'
+});
+
+describe('Price Alerts', () => {
+  test('should fire a price alert only when the price crosses the threshold', () => {
+    const now = new Date('2024-01-10T04:00:00.000Z');
+    let alert = alertOf({});
+
+    // Already above when created: nothing until the price has been below
+    let step = nextAlertState(alert, evaluateAlertCondition(alert, { price: 2510 })!, now);
+    expect(step).toEqual({ fired: false, update: {} });
+
+    step = nextAlertState(alert, evaluateAlertCondition(alert, { price: 2490 })!, now);
+    expect(step.fired).toBe(false);
+    alert = { ...alert, ...step.update };
+    expect(alert.armed).toBe(true);
+
+    step = nextAlertState(alert, evaluateAlertCondition(alert, { price: 2501 })!, now);
+    expect(step.fired).toBe(true);
+    expect(step.update).toMatchObject({ armed: false, status: 'TRIGGERED', trigger_count: 1, last_value: 2501 });
+
+    // No price, no decision
+    expect(evaluateAlertCondition(alert, {})).toBeNull();
+  });
+
+  test('should re-fire recurring alerts after the condition resets and the cooldown passes', () => {
+    const alert = alertOf({
+      condition: 'PERCENT_CHANGE',
+      threshold: -3,
+      trigger: 'RECURRING',
+      cooldown_minutes: 30,
+      last_triggered_at: '2024-01-10T04:00:00.000Z',
+      trigger_count: 1
+    });
+
+    const down = evaluateAlertCondition(alert, { changePercent: -3.4 })!;
+    expect(down.met).toBe(true);
+    expect(evaluateAlertCondition(alert, { changePercent: 3.4 })!.met).toBe(false);
+
+    // Within the cooldown the alert stays armed and waits
+    expect(nextAlertState(alert, down, new Date('2024-01-10T04:10:00.000Z'))).toEqual({ fired: false, update: {} });
+
+    const later = nextAlertState(alert, down, new Date('2024-01-10T04:31:00.000Z'));
+    expect(later.fired).toBe(true);
+    expect(later.update).toMatchObject({ armed: false, trigger_count: 2 });
+    expect(later.update.status).toBeUndefined();
+  });
+
+  test('should compare volume and 52-week range against past sessions only', () => {
+    const now = new Date('2024-01-10T05:00:00.000Z');
+    const candles = [
+      day('2023-01-01T18:30:00.000Z', 3000, 1500, 100), // more than a year ago
+      day('2024-01-07T18:30:00.000Z', 2550, 2400, 1000000),
+      day('2024-01-08T18:30:00.000Z', 2600, 2450, 3000000),
+      day('2024-01-09T18:30:00.000Z', 2700, 2300, 9000000) // today's session
+    ];
+
+    const reference = computeReferenceStats(candles, now);
+    expect(reference).toEqual({ averageVolume: 2000000, week52High: 2600, week52Low: 2400 });
+
+    const spike = alertOf({ condition: 'VOLUME_SPIKE', threshold: 3 });
+    expect(evaluateAlertCondition(spike, { price: 2650, volume: 7000000, reference })).toEqual({ value: 3.5, met: true });
+
+    const high = alertOf({ condition: 'WEEK52_HIGH', threshold: 0 });
+    expect(evaluateAlertCondition(high, { price: 2600, reference })!.met).toBe(false);
+    expect(evaluateAlertCondition(high, { price: 2600.5, reference })!.met).toBe(true);
+  });
+
+  test('should track the P&L high-water mark for portfolio drawdown', () => {
+    const alert = alertOf({ condition: 'PORTFOLIO_DRAWDOWN', symbol: null, exchange: null, threshold: 5 });
+    const now = new Date('2024-01-10T05:00:00.000Z');
+
+    const first = evaluateAlertCondition(alert, { portfolio: { pnl: 20000, invested: 200000 } })!;
+    expect(first).toEqual({ value: 0, met: false, peakValue: 20000 });
+    const tracked = { ...alert, ...nextAlertState(alert, first, now).update };
+    expect(tracked.peak_value).toBe(20000);
+
+    const drop = evaluateAlertCondition(tracked, { portfolio: { pnl: 9000, invested: 200000 } })!;
+    expect(drop).toEqual({ value: 5.5, met: true, peakValue: 20000 });
+    expect(nextAlertState(tracked, drop, now).fired).toBe(true);
+
+    // Flat portfolio: nothing to measure
+    expect(evaluateAlertCondition(tracked, { portfolio: { pnl: 9000, invested: 0 } })).toBeNull();
+
+    expect(validateAlertThreshold('PORTFOLIO_DRAWDOWN', 150)).not.toBeNull();
+    expect(validateAlertThreshold('POSITION_PNL', -5000)).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../services/databaseCompatibility', () => ({
+  userDatabase: {
+    getRiskLimits: jest.fn(),
+    getOrderHistoryByUserIdWithFilters: jest.fn()
+  }
+}));
+jest.mock('../services/marketDataService', () => ({
+  marketDataService: {
+    getPrice: jest.fn()
+  }
+}));
+
+import { userDatabase } from '../services/databaseCompatibility';
+import { marketDataService } from '../services/marketDataService';
+import {
+  calculateDayPnl,
+  countRecentOrders,
+  evaluateRiskLimits,
+  riskManagementService,
+  summarizePositions,
+  RiskCheckOrder,
+  RiskExposure
+} from '../services/riskManagementService';
+import { OrderHistory, RiskLimits } from '../interfaces/IDatabaseAdapter';
+
+const db = userDatabase as unknown as Record<string, jest.Mock<(...args: any[]) => any>>;
+const getPrice = marketDataService.getPrice as unknown as jest.Mock<(...args: any[]) => any>;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+const limits = (overrides: Partial<RiskLimits> = {}): RiskLimits => ({
+  id: 'limits-1',
+  user_id: 'user-1',
+  account_id: null,
+  is_enabled: true,
+  allowed_exchanges: [],
+  allowed_products: [],
+  restricted_symbols: [],
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+const order = (overrides: Partial<RiskCheckOrder> = {}): RiskCheckOrder => ({
+  symbol: 'RELIANCE',
+  action: 'BUY',
+  quantity: 10,
+  exchange: 'NSE',
+  productType: 'CNC',
+  price: 2500,
+  ...overrides
+});
+
+const exposure = (overrides: Partial<RiskExposure> = {}): RiskExposure => ({
+  referencePrice: 2500,
+  positions: {},
+  dayPnl: 0,
+  recentOrderCount: 0,
+  ...overrides
+});
+
+const filled = (symbol: string, action: 'BUY' | 'SELL', quantity: number, price: number): OrderHistory => ({
+  id: `${symbol}-${action}-${quantity}`,
+  user_id: 'user-1',
+  account_id: 'account-1',
+  broker_name: 'shoonya',
+  broker_order_id: 'B1',
+  symbol,
+  action,
+  quantity,
+  price,
+  order_type: 'LIMIT',
+  status: 'EXECUTED',
+  exchange: 'NSE',
+  product_type: 'MIS',
+  remarks: '',
+  executed_at: '2024-07-15T04:00:00.000Z',
+  created_at: '2024-07-15T04:00:00.000Z'
+});
+
+const rulesOf = (violations: { rule: string }[]) => violations.map(violation => violation.rule);
+
+describe('Risk Management', () => {
+  test('should allow any order when no limit is configured or the set is disabled', () => {
+    expect(evaluateRiskLimits(limits(), 'USER', order(), exposure())).toEqual([]);
+    expect(evaluateRiskLimits(limits({ is_enabled: false, max_order_value: 1 }), 'USER', order(), exposure())).toEqual([]);
+  });
+
+  test('should block restricted symbols, exchanges and products', () => {
+    const violations = evaluateRiskLimits(
+      limits({ restricted_symbols: ['RELIANCE-EQ'], allowed_exchanges: ['BSE'], allowed_products: ['MIS'] }),
+      'ACCOUNT',
+      order(),
+      exposure()
+    );
+    expect(rulesOf(violations)).toEqual(['RESTRICTED_SYMBOL', 'EXCHANGE_NOT_ALLOWED', 'PRODUCT_NOT_ALLOWED']);
+    expect(violations[0]?.scope).toBe('ACCOUNT');
+  });
+
+  test('should treat short product codes like their full names', () => {
+    expect(evaluateRiskLimits(limits({ allowed_products: ['C'] }), 'USER', order({ productType: 'CNC' }), exposure())).toEqual([]);
+  });
+
+  test('should cap the order value', () => {
+    expect(rulesOf(evaluateRiskLimits(limits({ max_order_value: 20000 }), 'USER', order(), exposure()))).toEqual(['MAX_ORDER_VALUE']);
+    expect(evaluateRiskLimits(limits({ max_order_value: 25000 }), 'USER', order(), exposure())).toEqual([]);
+  });
+
+  test('should reject an order that has no price when the order value is capped', async () => {
+    expect(rulesOf(evaluateRiskLimits(limits({ max_order_value: 25000 }), 'USER', order(), exposure({ referencePrice: 0 }))))
+      .toEqual(['MAX_ORDER_VALUE']);
+    expect(evaluateRiskLimits(limits(), 'USER', order(), exposure({ referencePrice: 0 }))).toEqual([]);
+
+    // A market order whose last traded price can't be fetched
+    db.getRiskLimits!.mockImplementation(async (_userId: any, accountId: any) => (accountId ? null : limits({ max_order_value: 25000 })));
+    db.getOrderHistoryByUserIdWithFilters!.mockResolvedValue([]);
+    getPrice.mockRejectedValue(new Error('Market data unavailable'));
+
+    const result = await riskManagementService.checkOrder('user-1', 'acc-1', order({ price: undefined }));
+    expect(result.allowed).toBe(false);
+    expect(result.violations[0]).toMatchObject({
+      rule: 'MAX_ORDER_VALUE',
+      message: 'User limit: no price is available for RELIANCE to check the order value against ₹25000'
+    });
+    expect(getPrice).toHaveBeenCalledWith('RELIANCE', 'NSE');
+  });
+
+  test('should cap the resulting position but let reducing orders through', () => {
+    const positions = summarizePositions([filled('RELIANCE', 'BUY', 50, 2500)]);
+
+    expect(rulesOf(evaluateRiskLimits(limits({ max_quantity_per_symbol: 55 }), 'USER', order(), exposure({ positions }))))
+      .toEqual(['MAX_QUANTITY_PER_SYMBOL']);
+    expect(evaluateRiskLimits(limits({ max_quantity_per_symbol: 40 }), 'USER', order({ action: 'SELL' }), exposure({ positions })))
+      .toEqual([]);
+  });
+
+  test('should limit new positions once the open position cap is reached', () => {
+    const positions = summarizePositions([filled('TCS', 'BUY', 5, 3500), filled('INFY', 'SELL', 5, 1500)]);
+    const capped = limits({ max_open_positions: 2 });
+
+    expect(rulesOf(evaluateRiskLimits(capped, 'USER', order(), exposure({ positions })))).toEqual(['MAX_OPEN_POSITIONS']);
+    expect(evaluateRiskLimits(capped, 'USER', order({ symbol: 'TCS' }), exposure({ positions }))).toEqual([]);
+  });
+
+  test('should compute realized and marked-to-market day P&L', () => {
+    const positions = summarizePositions([
+      filled('TCS', 'BUY', 10, 3500),
+      filled('TCS', 'SELL', 10, 3450),
+      filled('INFY', 'BUY', 20, 1500)
+    ]);
+    expect(calculateDayPnl(positions, {})).toBe(-500);
+    expect(calculateDayPnl(positions, { INFY: 1480 })).toBe(-900);
+  });
+
+  test('should only allow position-reducing orders after the daily loss limit', () => {
+    const positions = summarizePositions([filled('INFY', 'BUY', 20, 1500)]);
+    const lossLimit = limits({ daily_loss_limit: 1000 });
+
+    expect(rulesOf(evaluateRiskLimits(lossLimit, 'USER', order(), exposure({ positions, dayPnl: -1200 })))).toEqual(['DAILY_LOSS_LIMIT']);
+    expect(evaluateRiskLimits(lossLimit, 'USER', order({ symbol: 'INFY', action: 'SELL' }), exposure({ positions, dayPnl: -1200 }))).toEqual([]);
+    expect(evaluateRiskLimits(lossLimit, 'USER', order(), exposure({ positions, dayPnl: -800 }))).toEqual([]);
+  });
+
+  test('should rate limit orders per minute without counting risk rejections', () => {
+    const since = new Date('2024-07-15T03:59:30.000Z');
+    const orders = [
+      filled('TCS', 'BUY', 1, 3500),
+      { ...filled('TCS', 'BUY', 2, 3500), status: 'FAILED' as const, error_type: 'RISK' as const },
+      { ...filled('TCS', 'BUY', 3, 3500), created_at: '2024-07-15T03:58:00.000Z' }
+    ];
+    expect(countRecentOrders(orders, since)).toBe(1);
+
+    expect(rulesOf(evaluateRiskLimits(limits({ max_orders_per_minute: 1 }), 'USER', order(), exposure({ recentOrderCount: 1 }))))
+      .toEqual(['MAX_ORDERS_PER_MINUTE']);
+  });
+});
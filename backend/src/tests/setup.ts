@@ -4,6 +4,7 @@ import { jest, beforeAll, afterAll } from '@jest/globals';
 // Mock environment variables
 process.env.NODE_ENV = 'test';
 process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.ENCRYPTION_KEY = 'test-credential-encryption-key-0123456789';
 process.env.PORT = '3001';
 
 // Mock console methods to reduce noise in tests
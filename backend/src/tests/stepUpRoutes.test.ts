@@ -0,0 +1,31 @@
+import { describe, test, expect, jest } from '@jest/globals';
+
+jest.mock('../services/databaseCompatibility', () => ({
+  userDatabase: {}
+}));
+jest.mock('../services/accountAccessService', () => ({
+  accountAccessService: { checkAccess: jest.fn() }
+}));
+jest.mock('../services/copyTradingService', () => ({
+  copyTradingService: {}
+}));
+jest.mock('../services/advancedOrderService', () => ({
+  advancedOrderService: {}
+}));
+
+import { Router } from 'express';
+import { requireStepUp } from '../middleware/auth';
+import copyTradingRoutes from '../routes/copyTrading';
+import advancedOrderRoutes from '../routes/advancedOrders';
+
+// "METHOD path" of every route on the router that runs requireStepUp
+const stepUpRoutes = (router: Router): string[] => router.stack
+  .filter(layer => layer.route?.stack.some(handler => handler.handle === requireStepUp))
+  .map(layer => `${Object.keys((layer.route as any).methods)[0]!.toUpperCase()} ${layer.route!.path}`);
+
+describe('Step-up Routes', () => {
+  test('should require a recent step-up to set up copying or orders that fan out over accounts', () => {
+    expect(stepUpRoutes(copyTradingRoutes)).toEqual(['POST /links']);
+    expect(stepUpRoutes(advancedOrderRoutes)).toEqual(['POST /conditional', 'POST /scheduled']);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, test, expect } from '@jest/globals';
+import { StrategyLeg } from '../interfaces/IDatabaseAdapter';
+import { computeStrategyMetrics, orderLegsForExecution } from '../utils/strategyPayoff';
+
+const leg = (action: 'BUY' | 'SELL', optionType: 'CE' | 'PE', strike: number, premium: number): StrategyLeg => ({
+  symbol: `NIFTY24JAN${strike}${optionType}`,
+  exchange: 'NFO',
+  action,
+  quantity: 50,
+  option_type: optionType,
+  strike,
+  expiry: '2024-01-25',
+  order_type: 'MARKET',
+  premium,
+  product_type: 'NRML'
+});
+
+const ironCondor = [
+  leg('SELL', 'PE', 21000, 50),
+  leg('BUY', 'PE', 20900, 20),
+  leg('SELL', 'CE', 21500, 60),
+  leg('BUY', 'CE', 21600, 25)
+];
+
+describe('Strategy Payoff', () => {
+  test('should cap both profit and loss of an iron condor', () => {
+    expect(computeStrategyMetrics(ironCondor)).toEqual({
+      netPremium: 3250,
+      maxProfit: 3250,
+      maxLoss: 1750,
+      breakevens: [20935, 21565]
+    });
+  });
+
+  test('should report unlimited profit for a long straddle and unlimited loss for a short strangle', () => {
+    expect(computeStrategyMetrics([leg('BUY', 'CE', 21000, 100), leg('BUY', 'PE', 21000, 90)])).toEqual({
+      netPremium: -9500,
+      maxProfit: null,
+      maxLoss: 9500,
+      breakevens: [20810, 21190]
+    });
+    expect(computeStrategyMetrics([leg('SELL', 'CE', 21200, 40), leg('SELL', 'PE', 20800, 45)])).toMatchObject({
+      netPremium: 4250,
+      maxProfit: 4250,
+      maxLoss: null,
+      breakevens: [20715, 21285]
+    });
+  });
+
+  test('should handle a bull call spread as a net debit', () => {
+    expect(computeStrategyMetrics([leg('BUY', 'CE', 21000, 120), leg('SELL', 'CE', 21200, 40)])).toEqual({
+      netPremium: -4000,
+      maxProfit: 6000,
+      maxLoss: 4000,
+      breakevens: [21080]
+    });
+  });
+
+  test('should place bought hedge legs before sold legs', () => {
+    expect(orderLegsForExecution(ironCondor)).toEqual([1, 3, 0, 2]);
+    expect(orderLegsForExecution([leg('BUY', 'CE', 21000, 100), leg('BUY', 'PE', 21000, 90)])).toEqual([0, 1]);
+  });
+});
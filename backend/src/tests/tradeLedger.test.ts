@@ -0,0 +1,79 @@
+import { describe, test, expect } from '@jest/globals';
+import { aggregateLedgerPositions, buildLedger, getUnrecordedFill } from '../utils/tradeLedger';
+
+const fill = (action: 'BUY' | 'SELL', quantity: number, price: number, day: number, accountId: string = 'acc-1') => ({
+  account_id: accountId,
+  broker_name: 'shoonya',
+  symbol: 'RELIANCE',
+  exchange: 'NSE',
+  action,
+  quantity,
+  price,
+  executed_at: `2024-01-${String(day).padStart(2, '0')}T10:00:00.000Z`
+});
+
+describe('Trade Ledger', () => {
+  test('should close the oldest lots first', () => {
+    const { positions, closedTrades } = buildLedger([
+      fill('BUY', 10, 100, 1),
+      fill('BUY', 10, 120, 2),
+      fill('SELL', 15, 130, 3)
+    ]);
+
+    expect(closedTrades).toEqual([expect.objectContaining({
+      side: 'LONG',
+      quantity: 15,
+      entryPrice: 106.67,
+      exitPrice: 130,
+      realizedPnl: 350,
+      openedAt: '2024-01-01T10:00:00.000Z'
+    })]);
+    expect(positions[0]).toMatchObject({ quantity: 5, averagePrice: 120, realizedPnl: 350 });
+  });
+
+  test('should match against the average cost when asked to', () => {
+    const { positions, closedTrades } = buildLedger([
+      fill('BUY', 10, 100, 1),
+      fill('BUY', 10, 120, 2),
+      fill('SELL', 15, 130, 3)
+    ], 'WEIGHTED_AVERAGE');
+
+    expect(closedTrades[0]).toMatchObject({ entryPrice: 110, realizedPnl: 300 });
+    expect(positions[0]).toMatchObject({ quantity: 5, averagePrice: 110, realizedPnl: 300 });
+  });
+
+  test('should open shorts and flip through zero', () => {
+    const { positions, closedTrades } = buildLedger([
+      fill('SELL', 10, 200, 1),
+      fill('BUY', 4, 180, 2),
+      fill('BUY', 10, 190, 3)
+    ]);
+
+    expect(closedTrades.map(trade => [trade.side, trade.quantity, trade.realizedPnl])).toEqual([
+      ['SHORT', 4, 80],
+      ['SHORT', 6, 60]
+    ]);
+    expect(positions[0]).toMatchObject({ quantity: 4, averagePrice: 190, realizedPnl: 140 });
+  });
+
+  test('should record partial fills as they grow and net positions across accounts', () => {
+    const order = { status: 'PARTIALLY_FILLED' as const, quantity: 100, price: 0, executed_quantity: 40, average_price: 100 };
+    const first = getUnrecordedFill(order, []);
+    expect(first).toEqual({ quantity: 40, price: 100, cumulativeQuantity: 40 });
+
+    const second = getUnrecordedFill({ ...order, status: 'EXECUTED', executed_quantity: 100, average_price: 106 }, [first!]);
+    expect(second).toEqual({ quantity: 60, price: 110, cumulativeQuantity: 100 });
+    expect(getUnrecordedFill({ ...order, executed_quantity: 40 }, [first!])).toBeNull();
+
+    const { positions } = buildLedger([
+      fill('BUY', 40, 100, 1, 'acc-1'),
+      fill('BUY', 60, 110, 2, 'acc-1'),
+      fill('SELL', 30, 105, 2, 'acc-2')
+    ]);
+    expect(aggregateLedgerPositions(positions)).toEqual([expect.objectContaining({
+      symbol: 'RELIANCE',
+      quantity: 70,
+      averagePrice: 106
+    })]);
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../services/databaseCompatibility', () => ({
+  userDatabase: {
+    findUserById: jest.fn(),
+    updateUser: jest.fn(),
+    claimTwoFactorStep: jest.fn(),
+    createAuthSession: jest.fn(),
+    getAuthSessionById: jest.fn(),
+    getActiveAuthSessionsByUserId: jest.fn(),
+    updateAuthSession: jest.fn(),
+    rotateAuthSessionRefreshToken: jest.fn(),
+    revokeAuthSession: jest.fn(),
+    revokeAuthSessionsByUserId: jest.fn()
+  }
+}));
+
+import jwt from 'jsonwebtoken';
+import { authenticator } from 'otplib';
+import { userDatabase } from '../services/databaseCompatibility';
+import { twoFactorService } from '../services/twoFactorService';
+import { STEP_UP_WINDOW_MS, authSessionService, getDeviceName } from '../services/authSessionService';
+import { AuthSession, User } from '../interfaces/IDatabaseAdapter';
+
+const db = userDatabase as unknown as Record<string, jest.Mock<(...args: any[]) => any>>;
+
+const userOf = (overrides: Partial<User> = {}): User => ({
+  id: 'user-1',
+  email: 'trader@example.com',
+  name: 'Trader',
+  password: 'hashed',
+  two_factor_enabled: false,
+  two_factor_secret: null,
+  two_factor_pending_secret: null,
+  two_factor_recovery_codes: [],
+  two_factor_last_step: null,
+  created_at: '2026-10-19T04:00:00.000Z',
+  updated_at: '2026-10-19T04:00:00.000Z',
+  ...overrides
+});
+
+// Session store backing the mocked adapter
+let sessions: Map<string, AuthSession>;
+
+beforeEach(() => {
+  process.env.JWT_SECRET = 'test-secret';
+  sessions = new Map();
+  let nextId = 1;
+
+  db.createAuthSession!.mockImplementation(async (data: any) => {
+    const id = (nextId++).toString(16).padStart(24, '0');
+    const now = new Date().toISOString();
+    const session: AuthSession = {
+      id, ...data, previous_refresh_token_hash: null, rotated_at: null, step_up_at: null, last_used_at: now,
+      revoked_at: null, revoke_reason: null, created_at: now
+    };
+    sessions.set(id, session);
+    return session;
+  });
+  db.getAuthSessionById!.mockImplementation(async (id: any) => sessions.get(id) || null);
+  db.updateAuthSession!.mockImplementation(async (id: any, data: any) => {
+    const session = sessions.get(id);
+    if (!session || session.revoked_at) {
+      return null;
+    }
+    Object.assign(session, data);
+    return session;
+  });
+  db.rotateAuthSessionRefreshToken!.mockImplementation(async (id: any, currentHash: any, nextHash: any, data: any) => {
+    const session = sessions.get(id);
+    if (!session || session.revoked_at || session.refresh_token_hash !== currentHash) {
+      return null;
+    }
+    Object.assign(session, data, {
+      refresh_token_hash: nextHash,
+      previous_refresh_token_hash: currentHash,
+      rotated_at: new Date().toISOString()
+    });
+    return session;
+  });
+  db.revokeAuthSession!.mockImplementation(async (id: any, reason: any) => {
+    const session = sessions.get(id);
+    if (!session || session.revoked_at) {
+      return false;
+    }
+    Object.assign(session, { revoked_at: new Date().toISOString(), revoke_reason: reason });
+    return true;
+  });
+  db.findUserById!.mockImplementation(async () => userOf());
+  db.updateUser!.mockImplementation(async () => null);
+});
+
+describe('Two-Factor Authentication', () => {
+  test('should accept current authenticator codes and reject others', () => {
+    const secret = twoFactorService.generateSecret();
+
+    expect(twoFactorService.verifyCode(secret, authenticator.generate(secret))).toBe(true);
+    expect(twoFactorService.verifyCode(secret, 'abcdef')).toBe(false);
+
+    const url = twoFactorService.getOtpAuthUrl('trader@example.com', secret);
+    expect(url).toMatch(/^otpauth:\/\/totp\//);
+    expect(url).toContain(`secret=${secret}`);
+    expect(url).toContain('issuer=CopyTrade%20Pro');
+  });
+
+  test('should accept each authenticator code only once', async () => {
+    const secret = twoFactorService.generateSecret();
+    const user = userOf({ id: 'user-totp', two_factor_enabled: true, two_factor_secret: secret });
+    // Stands in for the conditional update on the stored step
+    let lastStep: number | null = null;
+    db.claimTwoFactorStep!.mockImplementation(async (_id: any, step: any) => {
+      if (lastStep !== null && step <= lastStep) {
+        return false;
+      }
+      lastStep = step;
+      return true;
+    });
+
+    const now = Date.now();
+    const code = authenticator.clone({ epoch: now }).generate(secret);
+    expect((await twoFactorService.verifySecondFactor(user, { code }, now)).valid).toBe(true);
+    expect(db.claimTwoFactorStep).toHaveBeenCalledWith('user-totp', Math.floor(now / 30000));
+
+    // Still inside its validity window, but already used
+    expect((await twoFactorService.verifySecondFactor(user, { code }, now + 10 * 1000)).valid).toBe(false);
+
+    // The next code from the app works, and then the older one can't follow it
+    const next = authenticator.clone({ epoch: now + 30 * 1000 }).generate(secret);
+    expect((await twoFactorService.verifySecondFactor(user, { code: next }, now + 30 * 1000)).valid).toBe(true);
+    expect((await twoFactorService.verifySecondFactor(user, { code }, now + 30 * 1000)).valid).toBe(false);
+  });
+
+  test('should use each recovery code once and lock out after repeated wrong codes', async () => {
+    const { codes, hashes } = twoFactorService.generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    expect(hashes).not.toContain(codes[0]);
+
+    const user = userOf({
+      id: 'user-recovery',
+      two_factor_enabled: true,
+      two_factor_secret: twoFactorService.generateSecret(),
+      two_factor_recovery_codes: hashes
+    });
+
+    // Codes are accepted regardless of case and dashes
+    const used = await twoFactorService.verifySecondFactor(user, { recoveryCode: codes[0]!.toUpperCase().replace('-', '') });
+    expect(used).toMatchObject({ valid: true, usedRecoveryCode: true, remainingRecoveryCodes: 9 });
+    expect(db.updateUser).toHaveBeenCalledWith('user-recovery', { two_factor_recovery_codes: hashes.slice(1) });
+
+    const reused = await twoFactorService.verifySecondFactor(
+      { ...user, two_factor_recovery_codes: hashes.slice(1) },
+      { recoveryCode: codes[0]! }
+    );
+    expect(reused.valid).toBe(false);
+
+    const now = Date.now();
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await twoFactorService.verifySecondFactor(user, { recoveryCode: 'wrong-code' }, now);
+    }
+    const locked = await twoFactorService.verifySecondFactor(user, { recoveryCode: codes[1]! }, now);
+    expect(locked).toMatchObject({ valid: false, lockedOut: true });
+
+    // The lockout ends after its window
+    const later = await twoFactorService.verifySecondFactor(user, { recoveryCode: codes[1]! }, now + 16 * 60 * 1000);
+    expect(later.valid).toBe(true);
+  });
+
+  test('should rotate refresh tokens and revoke the session when an old one is reused', async () => {
+    const first = await authSessionService.createSession(userOf(), undefined);
+    const payload = jwt.verify(first.token, 'test-secret') as any;
+    expect(payload).toMatchObject({ id: 'user-1', sid: first.sessionId });
+
+    const rotated = await authSessionService.refresh(first.refreshToken);
+    expect(rotated.success).toBe(true);
+    if (!rotated.success) {
+      return;
+    }
+    expect(rotated.tokens.sessionId).toBe(first.sessionId);
+    expect(rotated.tokens.refreshToken).not.toBe(first.refreshToken);
+
+    // The replaced token being used again, well after it was rotated away, means it leaked
+    sessions.get(first.sessionId)!.rotated_at = new Date(Date.now() - 60 * 1000).toISOString();
+    const reused = await authSessionService.refresh(first.refreshToken);
+    expect(reused).toMatchObject({ success: false, reason: 'REUSED', userId: 'user-1', sessionId: first.sessionId });
+    expect(sessions.get(first.sessionId)?.revoke_reason).toBe('REFRESH_TOKEN_REUSE');
+    expect(await authSessionService.isSessionActive(first.sessionId)).toBe(false);
+
+    // Which also ends the legitimate holder's session
+    expect(await authSessionService.refresh(rotated.tokens.refreshToken)).toMatchObject({ success: false, reason: 'INVALID' });
+    expect(await authSessionService.refresh('not-a-token')).toMatchObject({ success: false, reason: 'INVALID' });
+  });
+
+  test('should let tabs refreshing at the same time all keep the session', async () => {
+    const first = await authSessionService.createSession(userOf(), undefined);
+
+    // Both tabs send the same refresh token; one rotates it, the other is inside the grace window
+    const results = await Promise.all([
+      authSessionService.refresh(first.refreshToken),
+      authSessionService.refresh(first.refreshToken)
+    ]);
+    expect(results.map(result => result.success)).toEqual([true, true]);
+    expect(sessions.get(first.sessionId)?.revoked_at).toBeNull();
+
+    // The token most recently handed out keeps working
+    const latest = results[1]!;
+    if (!latest.success) {
+      return;
+    }
+    expect((await authSessionService.refresh(latest.tokens.refreshToken)).success).toBe(true);
+  });
+
+  test('should only accept access tokens of active sessions', async () => {
+    const { token, sessionId } = await authSessionService.createSession(userOf(), undefined);
+    expect(await authSessionService.verifyAccessToken(token)).toMatchObject({ id: 'user-1', sid: sessionId });
+
+    // Tokens without a session, and tokens of a revoked session, are turned away
+    expect(await authSessionService.verifyAccessToken(jwt.sign({ id: 'user-1' }, 'test-secret'))).toBeNull();
+    await authSessionService.revokeSession('user-1', sessionId, 'USER_REVOKED');
+    expect(await authSessionService.verifyAccessToken(token)).toBeNull();
+  });
+
+  test('should only allow sensitive operations shortly after a step-up', async () => {
+    const { sessionId } = await authSessionService.createSession(userOf(), undefined);
+    expect(await authSessionService.hasRecentStepUp(sessionId)).toBe(false);
+
+    const stepUpAt = await authSessionService.markSteppedUp(sessionId);
+    const steppedUp = new Date(stepUpAt!).getTime();
+
+    expect(await authSessionService.hasRecentStepUp(sessionId, steppedUp + STEP_UP_WINDOW_MS - 1000)).toBe(true);
+    expect(await authSessionService.hasRecentStepUp(sessionId, steppedUp + STEP_UP_WINDOW_MS + 1000)).toBe(false);
+
+    // Only the user's own sessions can be revoked
+    expect(await authSessionService.revokeSession('someone-else', sessionId, 'USER_REVOKED')).toBe(false);
+    expect(await authSessionService.revokeSession('user-1', sessionId, 'USER_REVOKED')).toBe(true);
+    expect(await authSessionService.hasRecentStepUp(sessionId)).toBe(false);
+  });
+
+  test('should challenge with a short-lived token and label devices', async () => {
+    const challenge = authSessionService.issueTwoFactorChallenge('user-1');
+    expect(authSessionService.verifyTwoFactorChallenge(challenge)).toBe('user-1');
+
+    // An access token is not a challenge token, and a challenge token is not an access token
+    const accessToken = jwt.sign({ id: 'user-1', sid: 'abc' }, 'test-secret');
+    expect(authSessionService.verifyTwoFactorChallenge(accessToken)).toBeNull();
+    expect(await authSessionService.verifyAccessToken(challenge)).toBeNull();
+
+    expect(getDeviceName('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0 Safari/537.36'))
+      .toBe('Chrome on Windows');
+    expect(getDeviceName('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Version/17.0 Mobile/15E148 Safari/604.1'))
+      .toBe('Safari on iOS');
+    expect(getDeviceName(null)).toBe('Unknown device');
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../services/databaseCompatibility', () => ({
+  userDatabase: {
+    getConnectedAccountById: jest.fn(),
+    getConnectedAccountsByUserId: jest.fn(),
+    getActiveAccountGrants: jest.fn(),
+    getWorkspaceMembershipsByUserId: jest.fn(),
+    getOrderHistoryById: jest.fn(),
+    incrementOrderRetryCount: jest.fn(),
+    updateOrderStatus: jest.fn()
+  }
+}));
+
+jest.mock('../services/enhancedUnifiedBrokerManager', () => ({
+  enhancedUnifiedBrokerManager: { getBrokerService: jest.fn() }
+}));
+
+jest.mock('../services/killSwitchService', () => ({
+  killSwitchService: {
+    getBlockingSwitch: jest.fn(),
+    getBlockedMessage: jest.fn(() => 'Trading is halted by the kill switch')
+  }
+}));
+
+import { userDatabase } from '../services/databaseCompatibility';
+import { accountAccessService, resolveDelegatedAccess } from '../services/accountAccessService';
+import { killSwitchService } from '../services/killSwitchService';
+import { enhancedUnifiedBrokerManager } from '../services/enhancedUnifiedBrokerManager';
+import { orderRetryService } from '../services/orderRetryService';
+import { AccountGrant, AccountPermission, ConnectedAccount, WorkspaceMember, WorkspaceRole } from '../interfaces/IDatabaseAdapter';
+
+const db = userDatabase as unknown as Record<string, jest.Mock<(...args: any[]) => any>>;
+
+const accountOf = (id: string, userId: string): ConnectedAccount => ({
+  id,
+  user_id: userId,
+  broker_name: 'shoonya',
+  account_id: `FA-${id}`,
+  user_name: 'Client',
+  email: 'client@example.com',
+  broker_display_name: 'Shoonya',
+  exchanges: '[]',
+  products: '[]',
+  encrypted_credentials: '',
+  account_status: 'ACTIVE',
+  token_expiry_time: null,
+  created_at: '2026-10-19T04:00:00.000Z',
+  updated_at: '2026-10-19T04:00:00.000Z'
+});
+
+const grantOf = (id: string, workspaceId: string, accountId: string, permissions: AccountPermission[], ownerId = 'client'): AccountGrant => ({
+  id,
+  workspace_id: workspaceId,
+  account_id: accountId,
+  owner_id: ownerId,
+  permissions,
+  revoked_at: null,
+  revoked_by: null,
+  created_at: '2026-10-19T04:00:00.000Z',
+  updated_at: '2026-10-19T04:00:00.000Z'
+});
+
+const memberOf = (workspaceId: string, userId: string, role: WorkspaceRole): WorkspaceMember => ({
+  id: `${workspaceId}-${userId}`,
+  workspace_id: workspaceId,
+  user_id: userId,
+  role,
+  added_by: 'advisor',
+  created_at: '2026-10-19T04:00:00.000Z',
+  updated_at: '2026-10-19T04:00:00.000Z'
+});
+
+const accounts: Record<string, ConnectedAccount> = {
+  'acc-client': accountOf('acc-client', 'client'),
+  'acc-advisor': accountOf('acc-advisor', 'advisor')
+};
+
+// Workspace "ws-1" with the client's account shared for trading
+let grants: AccountGrant[];
+let memberships: Record<string, WorkspaceMember[]>;
+
+beforeEach(() => {
+  grants = [grantOf('grant-1', 'ws-1', 'acc-client', ['VIEW', 'TRADE'])];
+  memberships = {
+    advisor: [memberOf('ws-1', 'advisor', 'owner')],
+    assistant: [memberOf('ws-1', 'assistant', 'viewer')],
+    client: [memberOf('ws-1', 'client', 'viewer')],
+    outsider: [memberOf('ws-2', 'outsider', 'trader')]
+  };
+
+  db.getConnectedAccountById!.mockImplementation(async (id: any) => accounts[id] || null);
+  db.getConnectedAccountsByUserId!.mockImplementation(async (userId: any) =>
+    Object.values(accounts).filter(account => account.user_id === userId)
+  );
+  db.getActiveAccountGrants!.mockImplementation(async (filters: any) => grants.filter(grant =>
+    !grant.revoked_at
+    && (!filters.accountId || grant.account_id === filters.accountId)
+    && (!filters.workspaceIds || filters.workspaceIds.includes(grant.workspace_id))
+  ));
+  db.getWorkspaceMembershipsByUserId!.mockImplementation(async (userId: any) => memberships[userId] || []);
+});
+
+describe('Workspace Account Access', () => {
+  test('should give owners full control and workspace members what their role allows', async () => {
+    const owner = await accountAccessService.getAccountAccess('client', 'acc-client');
+    expect(owner).toMatchObject({ isOwner: true, ownerId: 'client', permissions: ['VIEW', 'TRADE', 'MANAGE'] });
+
+    const advisor = await accountAccessService.getAccountAccess('advisor', 'acc-client');
+    expect(advisor).toMatchObject({ isOwner: false, ownerId: 'client', permissions: ['VIEW', 'TRADE'] });
+    expect(advisor?.via).toEqual([{ workspaceId: 'ws-1', grantId: 'grant-1', role: 'owner', permissions: ['VIEW', 'TRADE'] }]);
+
+    // Viewers can't trade even when the grant allows it
+    expect(await accountAccessService.checkAccess('assistant', 'acc-client', 'VIEW')).not.toBeNull();
+    expect(await accountAccessService.checkAccess('assistant', 'acc-client', 'TRADE')).toBeNull();
+
+    // Settings and removal are never delegated
+    expect(await accountAccessService.checkAccess('advisor', 'acc-client', 'MANAGE')).toBeNull();
+
+    // Members of other workspaces get nothing
+    expect(await accountAccessService.getAccountAccess('outsider', 'acc-client')).toBeNull();
+    expect(await accountAccessService.getAccountAccess('advisor', 'missing')).toBeNull();
+  });
+
+  test('should narrow and end access with the grant', async () => {
+    grants = [grantOf('grant-1', 'ws-1', 'acc-client', ['VIEW'])];
+    expect(await accountAccessService.checkAccess('advisor', 'acc-client', 'TRADE')).toBeNull();
+    expect(await accountAccessService.checkAccess('advisor', 'acc-client', 'VIEW')).not.toBeNull();
+
+    grants = [{ ...grantOf('grant-1', 'ws-1', 'acc-client', ['VIEW', 'TRADE']), revoked_at: '2026-10-19T05:00:00.000Z' }];
+    expect(await accountAccessService.getAccountAccess('advisor', 'acc-client')).toBeNull();
+
+    // A grant only counts when made by the account's owner
+    const forged = [grantOf('grant-2', 'ws-1', 'acc-client', ['VIEW', 'TRADE'], 'advisor')];
+    expect(resolveDelegatedAccess('client', forged, memberships.advisor!)).toEqual([]);
+  });
+
+  test('should list own accounts followed by the accounts shared with the user', async () => {
+    const advisorAccounts = await accountAccessService.getAccessibleAccounts('advisor');
+    expect(advisorAccounts.map(access => [access.account.id, access.isOwner, access.permissions])).toEqual([
+      ['acc-advisor', true, ['VIEW', 'TRADE', 'MANAGE']],
+      ['acc-client', false, ['VIEW', 'TRADE']]
+    ]);
+
+    // The client's own account isn't listed twice through the workspace
+    const clientAccounts = await accountAccessService.getAccessibleAccounts('client');
+    expect(clientAccounts.map(access => access.account.id)).toEqual(['acc-client']);
+
+    expect(await accountAccessService.getAccessibleAccounts('outsider')).toEqual([]);
+  });
+
+  test('should let members who may trade an account act on its orders', async () => {
+    db.getOrderHistoryById!.mockResolvedValue({ id: 'order-1', user_id: 'client', account_id: 'acc-client', is_retryable: true });
+    const getBlockingSwitch = killSwitchService.getBlockingSwitch as unknown as jest.Mock<(...args: any[]) => any>;
+    getBlockingSwitch.mockResolvedValue({ id: 'switch-1' });
+
+    // Viewers and outsiders are turned away before anything is checked at the broker
+    expect(await orderRetryService.retryOrder('order-1', 'assistant')).toMatchObject({ success: false, message: 'Access denied' });
+    expect(await orderRetryService.retryOrder('order-1', 'outsider')).toMatchObject({ success: false, message: 'Access denied' });
+    expect(getBlockingSwitch).not.toHaveBeenCalled();
+
+    // A trader gets through, and the owner's kill switch applies
+    expect(await orderRetryService.retryOrder('order-1', 'advisor')).toMatchObject({ success: false, message: 'Trading is halted by the kill switch' });
+    expect(getBlockingSwitch).toHaveBeenCalledWith('client', 'acc-client');
+  });
+
+  test('should retry square-off orders while the kill switch is active', async () => {
+    const getBlockingSwitch = killSwitchService.getBlockingSwitch as unknown as jest.Mock<(...args: any[]) => any>;
+    const getBrokerService = enhancedUnifiedBrokerManager.getBrokerService as unknown as jest.Mock<(...args: any[]) => any>;
+    getBlockingSwitch.mockReset().mockResolvedValue({ id: 'switch-1' });
+    getBrokerService.mockReturnValue({ placeOrder: jest.fn(async () => ({ success: true, data: { brokerOrderId: 'B-2' } })) });
+    const failedOrder = { id: 'order-1', user_id: 'client', account_id: 'acc-client', is_retryable: true, retry_count: 0 };
+
+    // The kill switch's own square-off order
+    db.getOrderHistoryById!.mockResolvedValue({ ...failedOrder, source: 'KILL_SWITCH' });
+    expect(await orderRetryService.retryOrder('order-1', 'client')).toMatchObject({ success: true, orderId: 'B-2' });
+
+    // Any order the caller retries as a square-off
+    db.getOrderHistoryById!.mockResolvedValue({ ...failedOrder, source: 'MANUAL' });
+    expect(await orderRetryService.retryOrder('order-1', 'client', { bypassPreTradeChecks: true })).toMatchObject({ success: true });
+    expect(getBlockingSwitch).not.toHaveBeenCalled();
+
+    expect(await orderRetryService.retryOrder('order-1', 'client')).toMatchObject({ success: false, message: 'Trading is halted by the kill switch' });
+  });
+});
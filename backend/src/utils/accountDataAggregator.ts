@@ -0,0 +1,172 @@
+/**
+ * Account Data Aggregator
+ * Combines holdings, funds and trade books fetched from several broker
+ * accounts into one view. Per-account results are kept alongside the totals
+ * so a failing account is reported instead of hiding the others.
+ */
+
+import { UnifiedFunds, UnifiedHolding, UnifiedTrade } from '@copytrade/unified-broker';
+
+export interface AccountDataResult<T> {
+  accountId: string;
+  brokerName: string;
+  brokerAccountId: string;
+  data: T | null; // null when the broker call failed
+  error?: string | undefined;
+}
+
+export interface AggregatedHolding {
+  symbol: string;
+  exchange: string;
+  isin?: string | undefined;
+  quantity: number;
+  t1Quantity: number;
+  averagePrice: number;
+  lastPrice: number;
+  invested: number;
+  currentValue: number;
+  pnl: number;
+  pnlPercent: number;
+  accounts: Array<{
+    accountId: string;
+    brokerName: string;
+    brokerAccountId: string;
+    quantity: number;
+    averagePrice: number;
+  }>;
+}
+
+export interface HoldingsSummary {
+  invested: number;
+  currentValue: number;
+  pnl: number;
+  pnlPercent: number;
+}
+
+export interface AccountTrade extends UnifiedTrade {
+  accountId: string;
+  brokerName: string;
+  brokerAccountId: string;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const percent = (pnl: number, invested: number): number => invested > 0 ? round((pnl / invested) * 100) : 0;
+
+// Brokers disagree on the equity suffix, so RELIANCE and RELIANCE-EQ are the same holding
+const holdingKey = (holding: UnifiedHolding): string =>
+  `${holding.exchange.toUpperCase()}:${holding.symbol.toUpperCase().replace(/-EQ$/, '')}`;
+
+/**
+ * Merge holdings of the same instrument across accounts. Last prices missing
+ * from a broker response are taken from another account or from lastPrices
+ * (keyed by symbol without the -EQ suffix).
+ */
+export function aggregateHoldings(
+  results: AccountDataResult<UnifiedHolding[]>[],
+  lastPrices: Map<string, number> = new Map()
+): { holdings: AggregatedHolding[]; summary: HoldingsSummary } {
+  const merged = new Map<string, AggregatedHolding>();
+
+  for (const result of results) {
+    for (const holding of result.data || []) {
+      const key = holdingKey(holding);
+      const existing = merged.get(key) || {
+        symbol: holding.symbol,
+        exchange: holding.exchange,
+        ...(holding.isin && { isin: holding.isin }),
+        quantity: 0,
+        t1Quantity: 0,
+        averagePrice: 0,
+        lastPrice: 0,
+        invested: 0,
+        currentValue: 0,
+        pnl: 0,
+        pnlPercent: 0,
+        accounts: []
+      };
+
+      existing.quantity += holding.quantity;
+      existing.t1Quantity += holding.t1Quantity;
+      existing.invested += holding.quantity * holding.averagePrice;
+      existing.lastPrice = existing.lastPrice || holding.lastPrice;
+      existing.accounts.push({
+        accountId: result.accountId,
+        brokerName: result.brokerName,
+        brokerAccountId: result.brokerAccountId,
+        quantity: holding.quantity,
+        averagePrice: holding.averagePrice
+      });
+      merged.set(key, existing);
+    }
+  }
+
+  const holdings = Array.from(merged.values()).map(holding => {
+    const lastPrice = holding.lastPrice || lastPrices.get(holding.symbol.toUpperCase().replace(/-EQ$/, '')) || 0;
+    // Without any price the holding is valued at cost rather than at zero
+    const currentValue = lastPrice > 0 ? holding.quantity * lastPrice : holding.invested;
+    const pnl = currentValue - holding.invested;
+
+    return {
+      ...holding,
+      averagePrice: holding.quantity > 0 ? round(holding.invested / holding.quantity) : 0,
+      lastPrice,
+      invested: round(holding.invested),
+      currentValue: round(currentValue),
+      pnl: round(pnl),
+      pnlPercent: percent(pnl, holding.invested)
+    };
+  }).sort((a, b) => b.currentValue - a.currentValue);
+
+  const invested = holdings.reduce((total, holding) => total + holding.invested, 0);
+  const currentValue = holdings.reduce((total, holding) => total + holding.currentValue, 0);
+
+  return {
+    holdings,
+    summary: {
+      invested: round(invested),
+      currentValue: round(currentValue),
+      pnl: round(currentValue - invested),
+      pnlPercent: percent(currentValue - invested, invested)
+    }
+  };
+}
+
+/**
+ * Sum fund limits of every account that answered
+ */
+export function aggregateFunds(results: AccountDataResult<UnifiedFunds>[]): UnifiedFunds {
+  const totals: UnifiedFunds = { availableCash: 0, usedMargin: 0, totalBalance: 0, collateral: 0, realizedPnl: 0 };
+
+  for (const funds of results.map(result => result.data)) {
+    if (!funds) continue;
+    totals.availableCash += funds.availableCash;
+    totals.usedMargin += funds.usedMargin;
+    totals.totalBalance += funds.totalBalance;
+    totals.collateral += funds.collateral;
+    totals.realizedPnl += funds.realizedPnl;
+  }
+
+  return {
+    availableCash: round(totals.availableCash),
+    usedMargin: round(totals.usedMargin),
+    totalBalance: round(totals.totalBalance),
+    collateral: round(totals.collateral),
+    realizedPnl: round(totals.realizedPnl)
+  };
+}
+
+/**
+ * Trades of every account tagged with their account, newest first. Trades
+ * without a timestamp go last.
+ */
+export function aggregateTrades(results: AccountDataResult<UnifiedTrade[]>[]): AccountTrade[] {
+  return results
+    .flatMap(result => (result.data || []).map(trade => ({
+      ...trade,
+      accountId: result.accountId,
+      brokerName: result.brokerName,
+      brokerAccountId: result.brokerAccountId
+    })))
+    .sort((a, b) => (b.tradeTime || '').localeCompare(a.tradeTime || ''));
+}
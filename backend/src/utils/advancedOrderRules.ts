@@ -0,0 +1,181 @@
+/**
+ * Advanced Order Rules
+ * Pure price and quantity rules used by the advanced order engine to decide
+ * when bracket legs, trailing stops and conditional orders trigger and how
+ * iceberg orders slice.
+ */
+
+import { AdvancedOrder } from '../interfaces/IDatabaseAdapter';
+import { DEFAULT_TRADING_CALENDAR, MarketSegment, TradingCalendar, addMarketDays, atMarketTime, isTradingDay, toMarketDate } from './tradingCalendar';
+
+const TICK_SIZE = 0.05;
+
+export type OrderAction = 'BUY' | 'SELL';
+
+export function oppositeAction(action: OrderAction): OrderAction {
+  return action === 'BUY' ? 'SELL' : 'BUY';
+}
+
+/**
+ * Round a price to the exchange tick size
+ */
+export function roundToTick(price: number, tickSize: number = TICK_SIZE): number {
+  return Math.round(Math.round(price / tickSize) * tickSize * 100) / 100;
+}
+
+/**
+ * Map the short product codes used by advanced orders to unified product types
+ */
+export function toProductType(productType: string): string {
+  switch (productType) {
+    case 'C': return 'CNC';
+    case 'I': return 'MIS';
+    case 'M': return 'NRML';
+    default: return productType;
+  }
+}
+
+/**
+ * Validate bracket levels: the stop loss must sit on the losing side of the
+ * entry and the target on the winning side
+ */
+export function validateBracketLevels(action: OrderAction, price: number, stopLoss: number, takeProfit: number): string | null {
+  if (action === 'BUY') {
+    if (stopLoss >= price) return 'Stop loss must be below entry price for BUY orders';
+    if (takeProfit <= price) return 'Take profit must be above entry price for BUY orders';
+  } else {
+    if (stopLoss <= price) return 'Stop loss must be above entry price for SELL orders';
+    if (takeProfit >= price) return 'Take profit must be below entry price for SELL orders';
+  }
+  return null;
+}
+
+/**
+ * A stop protecting a long position (SELL exit) triggers when the price falls
+ * to it; a stop protecting a short position (BUY exit) when the price rises to it
+ */
+export function isStopTriggered(exitAction: OrderAction, stopPrice: number, lastPrice: number): boolean {
+  return exitAction === 'SELL' ? lastPrice <= stopPrice : lastPrice >= stopPrice;
+}
+
+/**
+ * A target is reached when the price moves through it in the position's favour
+ */
+export function isTargetReached(exitAction: OrderAction, targetPrice: number, lastPrice: number): boolean {
+  return exitAction === 'SELL' ? lastPrice >= targetPrice : lastPrice <= targetPrice;
+}
+
+/**
+ * Distance a trailing stop keeps from the last price
+ */
+export function getTrailDistance(order: Pick<AdvancedOrder, 'trail_amount' | 'trail_percent'>, lastPrice: number): number {
+  if (order.trail_amount && order.trail_amount > 0) {
+    return order.trail_amount;
+  }
+  if (order.trail_percent && order.trail_percent > 0) {
+    return lastPrice * order.trail_percent / 100;
+  }
+  return 0;
+}
+
+/**
+ * Ratchet a trailing stop towards the price. The stop only ever moves in the
+ * position's favour: up for a SELL exit, down for a BUY exit.
+ */
+export function computeTrailingStop(
+  order: Pick<AdvancedOrder, 'action' | 'trail_amount' | 'trail_percent'>,
+  currentStop: number,
+  lastPrice: number
+): number {
+  const distance = getTrailDistance(order, lastPrice);
+  if (distance <= 0 || lastPrice <= 0) {
+    return currentStop;
+  }
+
+  if (order.action === 'SELL') {
+    const candidate = roundToTick(lastPrice - distance);
+    return candidate > currentStop ? candidate : currentStop;
+  }
+
+  const candidate = roundToTick(lastPrice + distance);
+  return candidate < currentStop ? candidate : currentStop;
+}
+
+/**
+ * Quantity of the next iceberg slice (0 once the whole order is filled)
+ */
+export function nextIcebergSliceQuantity(totalQuantity: number, executedQuantity: number, sliceQuantity: number): number {
+  const remaining = totalQuantity - executedQuantity;
+  if (remaining <= 0 || sliceQuantity <= 0) {
+    return 0;
+  }
+  return Math.min(sliceQuantity, remaining);
+}
+
+/**
+ * DAY orders expire once the trading day they were created on is over;
+ * GTD orders expire after their expiry date
+ */
+export function isOrderExpired(order: Pick<AdvancedOrder, 'validity' | 'created_at' | 'expiry_date'>, now: Date): boolean {
+  if (order.validity === 'GTD') {
+    return !!order.expiry_date && new Date(order.expiry_date).getTime() < now.getTime();
+  }
+  if (order.validity === 'DAY') {
+    return toMarketDate(new Date(order.created_at)) < toMarketDate(now);
+  }
+  return false;
+}
+
+export interface ConditionMarketData {
+  lastPrice?: number | null | undefined;
+  volume?: number | null | undefined; // traded today
+}
+
+/**
+ * Check the condition of a conditional or scheduled order. Returns null when
+ * the market data the condition needs is not available.
+ */
+export function isConditionMet(
+  order: Pick<AdvancedOrder, 'condition_type' | 'condition_value' | 'scheduled_at'>,
+  market: ConditionMarketData,
+  now: Date
+): boolean | null {
+  switch (order.condition_type) {
+    case 'PRICE_ABOVE':
+      return market.lastPrice ? market.lastPrice >= order.condition_value! : null;
+    case 'PRICE_BELOW':
+      return market.lastPrice ? market.lastPrice <= order.condition_value! : null;
+    case 'VOLUME_BASED':
+      return market.volume ? market.volume >= order.condition_value! : null;
+    case 'TIME_BASED':
+      return !!order.scheduled_at && new Date(order.scheduled_at).getTime() <= now.getTime();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Next trading-day occurrence of a market time given as HH:MM or HH:MM:SS in
+ * IST, e.g. 09:15:05 just after the open or 15:20 for an intraday square-off
+ */
+export function getNextScheduledTime(
+  marketTime: string,
+  now: Date,
+  segment: MarketSegment = 'EQUITY',
+  calendar: TradingCalendar = DEFAULT_TRADING_CALENDAR
+): Date | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)(?::([0-5]\d))?$/.exec(marketTime);
+  if (!match) {
+    return null;
+  }
+
+  const time = `${match[1]}:${match[2]}:${match[3] || '00'}`;
+  const today = toMarketDate(now);
+  for (let offset = 0; offset < 14; offset++) {
+    const candidate = atMarketTime(addMarketDays(today, offset), time);
+    if (candidate.getTime() > now.getTime() && isTradingDay(candidate, segment, calendar)) {
+      return candidate;
+    }
+  }
+  return null;
+}
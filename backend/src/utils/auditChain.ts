@@ -0,0 +1,162 @@
+/**
+ * Audit chain helpers
+ * Every audit event stores the hash of the event before it, so editing,
+ * removing or reordering a stored event breaks the chain from that point on.
+ */
+
+import crypto from 'crypto';
+import { AuditAction, AuditCategory, AuditEvent, CreateAuditEventData } from '../interfaces/IDatabaseAdapter';
+
+// previous_hash of the very first event
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+export const AUDIT_ACTION_CATEGORIES: Record<AuditAction, AuditCategory> = {
+  ORDER_PLACED: 'ORDER',
+  ORDER_MODIFIED: 'ORDER',
+  ORDER_CANCELLED: 'ORDER',
+  ORDER_RETRIED: 'ORDER',
+  ACCOUNT_CONNECTED: 'ACCOUNT',
+  ACCOUNT_OAUTH_COMPLETED: 'ACCOUNT',
+  ACCOUNT_ACTIVATED: 'ACCOUNT',
+  ACCOUNT_DEACTIVATED: 'ACCOUNT',
+  ACCOUNT_REMOVED: 'ACCOUNT',
+  RISK_LIMITS_UPDATED: 'RISK',
+  RISK_LIMITS_REMOVED: 'RISK',
+  KILL_SWITCH_ACTIVATED: 'RISK',
+  KILL_SWITCH_DEACTIVATED: 'RISK',
+  SIZING_RULE_UPDATED: 'SETTINGS',
+  SIZING_RULE_REMOVED: 'SETTINGS',
+  SQUARE_OFF_SETTINGS_UPDATED: 'SETTINGS',
+  SQUARE_OFF_SETTINGS_REMOVED: 'SETTINGS',
+  NOTIFICATION_PREFERENCES_UPDATED: 'SETTINGS',
+  TWO_FACTOR_ENABLED: 'SECURITY',
+  TWO_FACTOR_DISABLED: 'SECURITY',
+  RECOVERY_CODES_REGENERATED: 'SECURITY',
+  SESSION_REVOKED: 'SECURITY',
+  OTHER_SESSIONS_REVOKED: 'SECURITY',
+  WORKSPACE_CREATED: 'SECURITY',
+  WORKSPACE_MEMBER_ADDED: 'SECURITY',
+  WORKSPACE_MEMBER_UPDATED: 'SECURITY',
+  WORKSPACE_MEMBER_REMOVED: 'SECURITY',
+  ACCOUNT_ACCESS_GRANTED: 'SECURITY',
+  ACCOUNT_ACCESS_UPDATED: 'SECURITY',
+  ACCOUNT_ACCESS_REVOKED: 'SECURITY',
+  API_KEY_CREATED: 'SECURITY',
+  API_KEY_UPDATED: 'SECURITY',
+  API_KEY_REVOKED: 'SECURITY',
+  SIGNAL_REJECTED: 'SECURITY',
+  WEBHOOK_CREATED: 'SECURITY',
+  WEBHOOK_UPDATED: 'SECURITY',
+  WEBHOOK_DELETED: 'SECURITY',
+  AUDIT_RETENTION_APPLIED: 'SYSTEM'
+};
+
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_CATEGORIES) as AuditAction[];
+
+// What the caller says happened; the chain fields are filled in by buildAuditEvent
+export type AuditEventInput = Omit<CreateAuditEventData, 'sequence' | 'category' | 'previous_hash' | 'hash'>;
+
+/**
+ * JSON with object keys sorted at every level, so the same event always
+ * hashes the same however its fields were ordered when stored
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Hash of everything an event records, including the link to its predecessor
+ */
+export function computeAuditHash(event: Omit<CreateAuditEventData, 'hash'>): string {
+  return crypto.createHash('sha256').update(canonicalJson(event)).digest('hex');
+}
+
+/**
+ * Next event in the chain after `previous` (null when the store is empty)
+ */
+export function buildAuditEvent(input: AuditEventInput, previous: Pick<AuditEvent, 'sequence' | 'hash'> | null): CreateAuditEventData {
+  const event: Omit<CreateAuditEventData, 'hash'> = {
+    ...input,
+    // Stored as plain JSON: drops undefined values the database would otherwise turn into nulls
+    details: JSON.parse(JSON.stringify(input.details || {})),
+    sequence: previous ? previous.sequence + 1 : 1,
+    category: AUDIT_ACTION_CATEGORIES[input.action],
+    previous_hash: previous ? previous.hash : AUDIT_GENESIS_HASH
+  };
+
+  return { ...event, hash: computeAuditHash(event) };
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  firstSequence: number | null;
+  lastSequence: number | null;
+  brokenAt: number | null; // sequence of the first event that does not fit
+  reason: string | null;
+}
+
+/**
+ * Why an event does not fit after `previous`, or null when it does. Without a
+ * previous event the chain is taken to start here: retention removes the
+ * oldest events, so only a chain starting at 1 must start from the genesis hash.
+ */
+export function getAuditChainError(event: AuditEvent, previous: AuditEvent | null): string | null {
+  const { id: _id, hash, ...fields } = event;
+  if (computeAuditHash(fields) !== hash) {
+    return 'Event contents do not match its hash';
+  }
+  if (!previous) {
+    return event.sequence === 1 && event.previous_hash !== AUDIT_GENESIS_HASH
+      ? 'First event does not start from the genesis hash'
+      : null;
+  }
+  if (event.sequence !== previous.sequence + 1) {
+    return `Expected event ${previous.sequence + 1} but found ${event.sequence}`;
+  }
+  if (event.previous_hash !== previous.hash) {
+    return 'Event does not link to the hash of the previous event';
+  }
+  return null;
+}
+
+/**
+ * Check a run of events in sequence order, continuing from `previous` when the
+ * run is one batch of a longer chain
+ */
+export function verifyAuditChain(events: AuditEvent[], previous: AuditEvent | null = null): AuditChainVerification {
+  let last = previous;
+  for (const [index, event] of events.entries()) {
+    const reason = getAuditChainError(event, last);
+    if (reason) {
+      return {
+        valid: false,
+        checked: index,
+        firstSequence: events[0]?.sequence ?? null,
+        lastSequence: last?.sequence ?? null,
+        brokenAt: event.sequence,
+        reason
+      };
+    }
+    last = event;
+  }
+
+  return {
+    valid: true,
+    checked: events.length,
+    firstSequence: events[0]?.sequence ?? null,
+    lastSequence: last?.sequence ?? null,
+    brokenAt: null,
+    reason: null
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Candle Aggregation
+ * Bucketing of ticks into OHLCV bars, rolling 1m bars up to wider intervals
+ * and reading bars from CSV files. Intraday buckets line up with the IST
+ * session (09:15, 09:20, ...) and daily bars start at IST midnight.
+ */
+
+import { Candle } from '../interfaces/IDatabaseAdapter';
+
+export type CandleInterval = Candle['interval'];
+
+export const CANDLE_INTERVALS: CandleInterval[] = ['1m', '5m', '15m', '1d'];
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+/**
+ * Start of the bar a time falls in
+ */
+export function getCandleStart(time: Date, interval: CandleInterval): Date {
+  const size = CANDLE_INTERVAL_MS[interval];
+  // IST is UTC+5:30, a whole number of 1/5/15 minute buckets, so only days need shifting
+  const offset = interval === '1d' ? IST_OFFSET_MS : 0;
+  return new Date(Math.floor((time.getTime() + offset) / size) * size - offset);
+}
+
+/**
+ * Add a trade to the bar it falls in. Returns the updated bar, or a new one
+ * when the trade opens the next bucket.
+ */
+export function applyTick(
+  candle: Candle | undefined,
+  tick: { symbol: string; exchange: string; price: number; volume: number; time: Date },
+  interval: CandleInterval
+): Candle {
+  const start = getCandleStart(tick.time, interval).toISOString();
+  if (!candle || candle.start !== start) {
+    return {
+      symbol: tick.symbol,
+      exchange: tick.exchange,
+      interval,
+      start,
+      open: tick.price,
+      high: tick.price,
+      low: tick.price,
+      close: tick.price,
+      volume: tick.volume,
+      source: 'ticks'
+    };
+  }
+
+  return {
+    ...candle,
+    high: Math.max(candle.high, tick.price),
+    low: Math.min(candle.low, tick.price),
+    close: tick.price,
+    volume: candle.volume + tick.volume
+  };
+}
+
+/**
+ * Roll bars (oldest first) up into a wider interval
+ */
+export function aggregateCandles(candles: Candle[], interval: CandleInterval): Candle[] {
+  const buckets = new Map<string, Candle>();
+  for (const candle of candles) {
+    const start = getCandleStart(new Date(candle.start), interval).toISOString();
+    const bucket = buckets.get(start);
+    buckets.set(start, bucket
+      ? {
+        ...bucket,
+        high: Math.max(bucket.high, candle.high),
+        low: Math.min(bucket.low, candle.low),
+        close: candle.close,
+        volume: bucket.volume + candle.volume
+      }
+      : { ...candle, interval, start });
+  }
+  return Array.from(buckets.values());
+}
+
+/**
+ * Merge two bar series by start. Where both have a bar the later-sourced
+ * one is folded into the earlier: open from `base`, close from `overlay`.
+ */
+export function mergeCandles(base: Candle[], overlay: Candle[]): Candle[] {
+  const merged = new Map(base.map(candle => [candle.start, candle]));
+  for (const candle of overlay) {
+    const existing = merged.get(candle.start);
+    merged.set(candle.start, existing
+      ? {
+        ...existing,
+        high: Math.max(existing.high, candle.high),
+        low: Math.min(existing.low, candle.low),
+        close: candle.close,
+        volume: Math.max(existing.volume, candle.volume)
+      }
+      : candle);
+  }
+  return Array.from(merged.values()).sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/**
+ * Parse a CSV of bars with a header row naming time (or date/timestamp),
+ * open, high, low, close and optionally volume columns
+ */
+export function parseCandleCsv(text: string, symbol: string, exchange: string, interval: CandleInterval): Candle[] {
+  const [header, ...rows] = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.split(',').map(column => column.trim().toLowerCase());
+  const timeColumn = columns.findIndex(column => ['time', 'date', 'datetime', 'timestamp'].includes(column));
+  const column = (name: string) => columns.indexOf(name);
+  if (timeColumn === -1 || ['open', 'high', 'low', 'close'].some(name => column(name) === -1)) {
+    return [];
+  }
+
+  const candles: Candle[] = [];
+  for (const row of rows) {
+    const values = row.split(',').map(value => value.trim());
+    const rawTime = values[timeColumn] || '';
+    // Epoch seconds, or a date/time; dates without a zone are IST
+    const time = /^\d+$/.test(rawTime)
+      ? new Date(Number(rawTime) * 1000)
+      : new Date(/[zZ]|[+-]\d{2}:?\d{2}$/.test(rawTime) ? rawTime : `${rawTime.replace(' ', 'T')}${rawTime.includes(':') ? '' : 'T00:00:00'}+05:30`);
+    if (isNaN(time.getTime())) {
+      continue;
+    }
+
+    candles.push({
+      symbol,
+      exchange,
+      interval,
+      start: getCandleStart(time, interval).toISOString(),
+      open: parseFloat(values[column('open')]!) || 0,
+      high: parseFloat(values[column('high')]!) || 0,
+      low: parseFloat(values[column('low')]!) || 0,
+      close: parseFloat(values[column('close')]!) || 0,
+      volume: column('volume') === -1 ? 0 : parseFloat(values[column('volume')]!) || 0,
+      source: 'file'
+    });
+  }
+  return candles.sort((a, b) => a.start.localeCompare(b.start));
+}
@@ -0,0 +1,184 @@
+/**
+ * Credential Encryption
+ * Envelope encryption for broker credentials. Each record is encrypted with
+ * its own random data key (AES-256-GCM); the data key is wrapped with a key
+ * derived from a versioned master key and a per-record salt. Records name
+ * the master key version that wrapped them, so master keys can be rotated by
+ * re-encrypting records while older versions stay readable.
+ *
+ * Master keys come from ENCRYPTION_KEYS ("2:secret,1:secret"), with
+ * ENCRYPTION_KEY_VERSION picking the one new records use (the highest by
+ * default). A lone ENCRYPTION_KEY is master key version 1. Records written
+ * before envelope encryption are read with ENCRYPTION_LEGACY_KEY, or the
+ * version 1 secret when that is not set.
+ */
+
+import crypto from 'crypto';
+
+// Pre-envelope records carry no version
+export const LEGACY_KEY_VERSION = 0;
+
+const ENVELOPE_PREFIX = 'env1';
+const MIN_SECRET_LENGTH = 32;
+// The old built-in fallback and the placeholders from the env templates
+const KNOWN_DEFAULT_KEYS = [
+  'default-encryption-key-change-in-production',
+  'your-32-character-encryption-key-here',
+  'your-32-character-encryption-key-here-change-this'
+];
+
+export class CredentialKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialKeyError';
+  }
+}
+
+export interface MasterKeyring {
+  activeVersion: number;
+  keys: Map<number, Buffer>;  // version -> key encryption key
+  legacyKey: Buffer | null;   // key of pre-envelope records
+}
+
+const deriveKey = (secret: string, salt: string): Buffer => crypto.scryptSync(secret, salt, 32);
+
+/**
+ * Read the master keys from the environment. Throws when no usable key is
+ * configured, so the server refuses to start rather than fall back to a
+ * guessable key.
+ */
+export function loadMasterKeyring(env: NodeJS.ProcessEnv = process.env): MasterKeyring {
+  const secrets = new Map<number, string>();
+
+  if (env.ENCRYPTION_KEYS) {
+    for (const entry of env.ENCRYPTION_KEYS.split(',').map(part => part.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      const version = Number(entry.slice(0, separator));
+      if (separator === -1 || !Number.isInteger(version) || version <= 0) {
+        throw new CredentialKeyError('ENCRYPTION_KEYS entries must look like <version>:<secret> with a positive version');
+      }
+      secrets.set(version, entry.slice(separator + 1));
+    }
+  } else if (env.ENCRYPTION_KEY) {
+    secrets.set(1, env.ENCRYPTION_KEY);
+  }
+
+  if (secrets.size === 0) {
+    throw new CredentialKeyError('No credential encryption key configured; set ENCRYPTION_KEY or ENCRYPTION_KEYS');
+  }
+  for (const [version, secret] of secrets) {
+    if (KNOWN_DEFAULT_KEYS.includes(secret) || secret.length < MIN_SECRET_LENGTH) {
+      throw new CredentialKeyError(`Encryption key version ${version} must be a random secret of at least ${MIN_SECRET_LENGTH} characters`);
+    }
+  }
+
+  const activeVersion = env.ENCRYPTION_KEY_VERSION
+    ? Number(env.ENCRYPTION_KEY_VERSION)
+    : Math.max(...secrets.keys());
+  if (!secrets.has(activeVersion)) {
+    throw new CredentialKeyError(`ENCRYPTION_KEY_VERSION ${env.ENCRYPTION_KEY_VERSION} is not among the configured keys`);
+  }
+
+  const keys = new Map<number, Buffer>();
+  for (const [version, secret] of secrets) {
+    keys.set(version, deriveKey(secret, `copytrade-credential-kek-v${version}`));
+  }
+
+  // The legacy format derived its key with a static salt
+  const legacySecret = env.ENCRYPTION_LEGACY_KEY || secrets.get(1);
+  return {
+    activeVersion,
+    keys,
+    legacyKey: legacySecret ? deriveKey(legacySecret, 'salt') : null
+  };
+}
+
+const encryptGcm = (key: Buffer, plaintext: Buffer, aad: string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, ciphertext, tag: cipher.getAuthTag() };
+};
+
+const decryptGcm = (key: Buffer, iv: Buffer, ciphertext: Buffer, tag: Buffer, aad: string): Buffer => {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+const wrappingKey = (kek: Buffer, salt: Buffer): Buffer =>
+  Buffer.from(crypto.hkdfSync('sha256', kek, salt, 'copytrade-credential-dek', 32));
+
+/**
+ * Encrypt with a fresh data key wrapped by the active master key
+ */
+export function encryptCredentials(plaintext: string, keyring: MasterKeyring): { encrypted: string; keyVersion: number } {
+  const keyVersion = keyring.activeVersion;
+  const kek = keyring.keys.get(keyVersion)!;
+  const salt = crypto.randomBytes(16);
+  const dataKey = crypto.randomBytes(32);
+  const aad = `${ENVELOPE_PREFIX}.${keyVersion}`;
+
+  const wrapped = encryptGcm(wrappingKey(kek, salt), dataKey, aad);
+  const sealed = encryptGcm(dataKey, Buffer.from(plaintext, 'utf8'), aad);
+
+  const encrypted = [
+    ENVELOPE_PREFIX,
+    String(keyVersion),
+    ...[salt, wrapped.iv, wrapped.ciphertext, wrapped.tag, sealed.iv, sealed.ciphertext, sealed.tag]
+      .map(part => part.toString('base64url'))
+  ].join('.');
+  return { encrypted, keyVersion };
+}
+
+/**
+ * Master key version an encrypted record was written with
+ */
+export function getCredentialKeyVersion(encrypted: string): number {
+  const [prefix, version] = encrypted.split('.');
+  return prefix === ENVELOPE_PREFIX ? Number(version) : LEGACY_KEY_VERSION;
+}
+
+/**
+ * Matches records written with the master key version, for finding those still to re-encrypt
+ */
+export function getCredentialKeyVersionPattern(keyVersion: number): RegExp {
+  return new RegExp(`^${ENVELOPE_PREFIX}\\.${keyVersion}\\.`);
+}
+
+export function decryptCredentials(encrypted: string, keyring: MasterKeyring): string {
+  const keyVersion = getCredentialKeyVersion(encrypted);
+  if (keyVersion === LEGACY_KEY_VERSION) {
+    return decryptLegacy(encrypted, keyring);
+  }
+
+  const kek = keyring.keys.get(keyVersion);
+  if (!kek) {
+    throw new CredentialKeyError(`Encryption key version ${keyVersion} is not configured`);
+  }
+
+  const parts = encrypted.split('.').slice(2).map(part => Buffer.from(part, 'base64url'));
+  if (parts.length !== 7) {
+    throw new Error('Invalid encrypted text format');
+  }
+  const [salt, wrapIv, wrappedKey, wrapTag, iv, ciphertext, tag] = parts as [Buffer, Buffer, Buffer, Buffer, Buffer, Buffer, Buffer];
+  const aad = `${ENVELOPE_PREFIX}.${keyVersion}`;
+
+  const dataKey = decryptGcm(wrappingKey(kek, salt), wrapIv, wrappedKey, wrapTag, aad);
+  return decryptGcm(dataKey, iv, ciphertext, tag, aad).toString('utf8');
+}
+
+function decryptLegacy(encrypted: string, keyring: MasterKeyring): string {
+  const [ivHex, ciphertext] = encrypted.split(':');
+  if (!ivHex || !ciphertext) {
+    throw new Error('Invalid encrypted text format');
+  }
+  if (!keyring.legacyKey) {
+    throw new CredentialKeyError('Credentials predate envelope encryption; set ENCRYPTION_LEGACY_KEY to read them');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-cbc', keyring.legacyKey, Buffer.from(ivHex, 'hex'));
+  return decipher.update(ciphertext, 'hex', 'utf8') + decipher.final('utf8');
+}
@@ -0,0 +1,178 @@
+/**
+ * Derivative Instruments
+ * Instrument master records for futures and options (NFO, BFO, MCX) and the
+ * pure helpers built on them: parsing the Fyers symbol master, expiries,
+ * option chains and lot size checks.
+ */
+
+export type DerivativeExchange = 'NFO' | 'BFO' | 'MCX';
+
+export type InstrumentType = 'FUT' | 'OPT';
+
+export type OptionType = 'CE' | 'PE';
+
+export const DERIVATIVE_EXCHANGES: DerivativeExchange[] = ['NFO', 'BFO', 'MCX'];
+
+export interface DerivativeInstrument {
+  token: string;             // Exchange token (Fyers fytoken)
+  tradingSymbol: string;     // NIFTY24JAN21000CE
+  name: string;              // NIFTY 24 Jan 25 21000 CE
+  exchange: DerivativeExchange;
+  underlying: string;        // NIFTY, RELIANCE, CRUDEOIL
+  instrumentType: InstrumentType;
+  expiry: string;            // YYYY-MM-DD (IST)
+  strike: number | null;     // null for futures
+  optionType: OptionType | null;
+  lotSize: number;
+  tickSize: number;
+}
+
+export interface InstrumentSearchFilter {
+  query?: string | undefined;
+  exchange?: DerivativeExchange | undefined;
+  underlying?: string | undefined;
+  expiry?: string | undefined;
+  instrumentType?: InstrumentType | undefined;
+  optionType?: OptionType | undefined;
+  limit?: number | undefined;
+}
+
+export interface OptionChainRow {
+  strike: number;
+  CE: DerivativeInstrument | null;
+  PE: DerivativeInstrument | null;
+}
+
+export interface OptionChain {
+  underlying: string;
+  exchange: DerivativeExchange;
+  expiry: string;
+  expiries: string[];        // every upcoming option expiry of the underlying
+  lotSize: number;
+  rows: OptionChainRow[];    // ascending strikes
+}
+
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+export const isDerivativeExchange = (exchange: string | undefined): exchange is DerivativeExchange =>
+  DERIVATIVE_EXCHANGES.includes((exchange || '').toUpperCase() as DerivativeExchange);
+
+/**
+ * Trading symbols may arrive with a Fyers style exchange prefix (NSE:NIFTY24JANFUT)
+ */
+export const normalizeTradingSymbol = (symbol: string): string => {
+  const trimmed = (symbol || '').trim().toUpperCase();
+  return trimmed.includes(':') ? trimmed.split(':').pop() || '' : trimmed;
+};
+
+/**
+ * Today's date in IST as YYYY-MM-DD, the format expiries are stored in
+ */
+export const toISTDate = (date: Date): string => new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+
+/**
+ * Parse one row of a Fyers symbol master file (NSE_FO.csv, BSE_FO.csv,
+ * MCX_COM.csv). The files have no header; the columns used are
+ * 0 fytoken, 1 description, 3 lot size, 4 tick size, 8 expiry (epoch seconds),
+ * 9 ticker (NSE:NIFTY24JAN21000CE), 13 underlying, 15 strike, 16 option type (CE/PE/XX).
+ */
+export function parseFyersInstrumentRow(row: string[], exchange: DerivativeExchange): DerivativeInstrument | null {
+  const tradingSymbol = normalizeTradingSymbol(row[9] || '');
+  const underlying = (row[13] || '').trim().toUpperCase();
+  const expirySeconds = parseInt(row[8] || '', 10);
+  if (!tradingSymbol || !underlying || !(expirySeconds > 0)) {
+    return null;
+  }
+
+  const rawOptionType = (row[16] || '').trim().toUpperCase();
+  const optionType = rawOptionType === 'CE' || rawOptionType === 'PE' ? rawOptionType : null;
+  const strike = parseFloat(row[15] || '');
+
+  return {
+    token: (row[0] || '').trim(),
+    tradingSymbol,
+    name: (row[1] || '').trim(),
+    exchange,
+    underlying,
+    instrumentType: optionType ? 'OPT' : 'FUT',
+    expiry: toISTDate(new Date(expirySeconds * 1000)),
+    strike: optionType && strike > 0 ? strike : null,
+    optionType,
+    lotSize: parseInt(row[3] || '', 10) || 1,
+    tickSize: parseFloat(row[4] || '') || 0.05
+  };
+}
+
+/**
+ * Filter instruments for search. Results are ordered by expiry, then strike.
+ */
+export function filterInstruments(instruments: DerivativeInstrument[], filter: InstrumentSearchFilter): DerivativeInstrument[] {
+  const query = (filter.query || '').trim().toUpperCase();
+  const underlying = (filter.underlying || '').trim().toUpperCase();
+
+  return instruments
+    .filter(instrument =>
+      (!query || instrument.tradingSymbol.startsWith(query) || instrument.underlying.startsWith(query)) &&
+      (!filter.exchange || instrument.exchange === filter.exchange) &&
+      (!underlying || instrument.underlying === underlying) &&
+      (!filter.expiry || instrument.expiry === filter.expiry) &&
+      (!filter.instrumentType || instrument.instrumentType === filter.instrumentType) &&
+      (!filter.optionType || instrument.optionType === filter.optionType)
+    )
+    .sort((a, b) => a.expiry.localeCompare(b.expiry) || (a.strike || 0) - (b.strike || 0))
+    .slice(0, filter.limit || 50);
+}
+
+/**
+ * Upcoming expiries of an underlying, nearest first
+ */
+export function getExpiries(instruments: DerivativeInstrument[], instrumentType: InstrumentType, today: string): string[] {
+  return Array.from(new Set(instruments
+    .filter(instrument => instrument.instrumentType === instrumentType && instrument.expiry >= today)
+    .map(instrument => instrument.expiry)))
+    .sort();
+}
+
+/**
+ * Calls and puts of one expiry side by side, by strike. Without an expiry
+ * the nearest upcoming one is used. Returns null when the underlying has no
+ * options on that expiry.
+ */
+export function buildOptionChain(instruments: DerivativeInstrument[], today: string, expiry?: string): OptionChain | null {
+  const expiries = getExpiries(instruments, 'OPT', today);
+  const chainExpiry = expiry || expiries[0];
+  const options = instruments.filter(instrument =>
+    instrument.instrumentType === 'OPT' && instrument.expiry === chainExpiry && instrument.strike !== null
+  );
+  const first = options[0];
+  if (!chainExpiry || !first) {
+    return null;
+  }
+
+  const rows = new Map<number, OptionChainRow>();
+  for (const option of options) {
+    const strike = option.strike as number;
+    const row = rows.get(strike) || { strike, CE: null, PE: null };
+    row[option.optionType as OptionType] = option;
+    rows.set(strike, row);
+  }
+
+  return {
+    underlying: first.underlying,
+    exchange: first.exchange,
+    expiry: chainExpiry,
+    expiries,
+    lotSize: first.lotSize,
+    rows: Array.from(rows.values()).sort((a, b) => a.strike - b.strike)
+  };
+}
+
+/**
+ * Derivatives trade in whole lots; returns the error message for an invalid quantity
+ */
+export function validateLotSize(instrument: DerivativeInstrument, quantity: number): string | null {
+  if (quantity > 0 && quantity % instrument.lotSize === 0) {
+    return null;
+  }
+  return `Quantity ${quantity} for ${instrument.tradingSymbol} must be a multiple of the lot size ${instrument.lotSize}`;
+}
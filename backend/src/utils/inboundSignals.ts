@@ -0,0 +1,179 @@
+/**
+ * Inbound signal helpers
+ * Pure pieces of the public signal API: the API key and signing secret
+ * formats, HMAC request signatures, source address allow-lists, and reading
+ * the templated alert payloads that TradingView, Amibroker and scripts send.
+ */
+
+import crypto from 'crypto';
+import { ApiKeyAccountGroup } from '../interfaces/IDatabaseAdapter';
+
+export const API_KEY_PREFIX = 'ctp_';
+export const SIGNING_SECRET_PREFIX = 'ctps_';
+
+// A signature is only accepted this close to its timestamp, so a captured request can't be replayed later
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const DERIVATIVE_EXCHANGES = ['NFO', 'BFO', 'MCX', 'CDS'];
+
+/**
+ * New API key, with the prefix shown to tell keys apart and the hash stored in its place
+ */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+  return { key, prefix: key.slice(0, API_KEY_PREFIX.length + 6), hash: hashApiKey(key) };
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key.trim()).digest('hex');
+}
+
+export function generateSigningSecret(): string {
+  return `${SIGNING_SECRET_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Hex HMAC-SHA256 of `<timestamp>.<body>` with the key's signing secret
+ */
+export function computeSignature(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Check a request signature (optionally written as `sha256=<hex>`) and that its
+ * timestamp, in Unix seconds, is recent
+ */
+export function verifySignature(
+  secret: string,
+  signature: string | undefined,
+  timestamp: string | undefined,
+  body: string,
+  now: number = Date.now()
+): { valid: boolean; reason?: string } {
+  if (!signature || !timestamp) {
+    return { valid: false, reason: 'Missing request signature' };
+  }
+
+  const seconds = Number(timestamp);
+  if (!/^\d+$/.test(timestamp) || Math.abs(now / 1000 - seconds) > SIGNATURE_TOLERANCE_SECONDS) {
+    return { valid: false, reason: 'Signature timestamp is outside the allowed window' };
+  }
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body), 'hex');
+  const received = Buffer.from(signature.trim().replace(/^sha256=/, ''), 'hex');
+  if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+    return { valid: false, reason: 'Invalid request signature' };
+  }
+  return { valid: true };
+}
+
+// IPv4 clients reach a dual-stack server as ::ffff:a.b.c.d
+const normalizeIp = (ip: string): string => ip.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '');
+
+const ipv4ToNumber = (ip: string): number | null => {
+  const parts = ip.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) {
+    return null;
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+};
+
+/**
+ * Whether an allow-list entry is an IP address or an IPv4 CIDR range
+ */
+export function isValidAllowlistEntry(entry: string): boolean {
+  const [address = '', bits, ...rest] = entry.trim().split('/');
+  if (rest.length > 0) {
+    return false;
+  }
+  if (bits === undefined) {
+    return ipv4ToNumber(address) !== null || (address.includes(':') && /^[0-9a-f:]+$/i.test(address));
+  }
+  return ipv4ToNumber(address) !== null && /^\d{1,2}$/.test(bits) && Number(bits) <= 32;
+}
+
+/**
+ * Whether the address is on the allow-list; an empty list allows any address
+ */
+export function isIpAllowed(ip: string | undefined, allowlist: string[]): boolean {
+  if (allowlist.length === 0) {
+    return true;
+  }
+  if (!ip) {
+    return false;
+  }
+
+  const address = normalizeIp(ip);
+  const numeric = ipv4ToNumber(address);
+  return allowlist.some(entry => {
+    const [base = '', bits] = entry.trim().split('/');
+    if (bits === undefined) {
+      return normalizeIp(base).toLowerCase() === address.toLowerCase();
+    }
+    const baseNumber = ipv4ToNumber(base);
+    if (numeric === null || baseNumber === null) {
+      return false;
+    }
+    const size = 2 ** (32 - Number(bits));
+    return Math.floor(numeric / size) === Math.floor(baseNumber / size);
+  });
+}
+
+export interface ParsedSignal {
+  accountGroup: string | null;
+  idempotencyKey: string | null;
+  order: Record<string, any>; // multi-account order request fields, without the accounts
+}
+
+const text = (value: unknown): string | undefined =>
+  value === undefined || value === null || value === '' ? undefined : String(value).trim();
+
+// "1.0" from an alert template is 1; anything else is left for validation to reject
+const toQuantity = (value: unknown): unknown => {
+  const number = Number(text(value));
+  return Number.isInteger(number) ? number : value;
+};
+
+/**
+ * Read an alert payload as a multi-account order request. Alert templates fill
+ * in values as text ("buy", "1.0", "NSE:RELIANCE"), so fields are normalised
+ * here; the result goes through the same validation as orders from the app.
+ * Without a product type, orders are carry-forward (CNC, or NRML for derivatives).
+ */
+export function parseSignalPayload(payload: Record<string, any>): ParsedSignal {
+  const rawSymbol = text(payload.symbol ?? payload.ticker) || '';
+  const [symbolExchange, symbolName] = rawSymbol.includes(':') ? rawSymbol.split(':', 2) : [undefined, rawSymbol];
+  const exchange = (text(payload.exchange) || symbolExchange || 'NSE').toUpperCase();
+  const price = text(payload.price);
+  const triggerPrice = text(payload.triggerPrice ?? payload.trigger_price);
+  const variety = text(payload.variety);
+  const remarks = text(payload.comment ?? payload.remarks);
+
+  return {
+    accountGroup: text(payload.accountGroup ?? payload.group) || null,
+    idempotencyKey: text(payload.idempotencyKey) || null,
+    order: {
+      symbol: (symbolName || '').toUpperCase(),
+      action: (text(payload.action ?? payload.side) || '').toUpperCase(),
+      quantity: toQuantity(payload.quantity ?? payload.qty ?? payload.contracts),
+      orderType: (text(payload.orderType) || 'MARKET').toUpperCase(),
+      exchange,
+      productType: (text(payload.productType) || (DERIVATIVE_EXCHANGES.includes(exchange) ? 'NRML' : 'CNC')).toUpperCase(),
+      ...(price && { price }),
+      ...(triggerPrice && { triggerPrice }),
+      ...(variety && { variety: variety.toUpperCase() }),
+      ...(remarks && { remarks })
+    }
+  };
+}
+
+/**
+ * The key's account group a signal names (case-insensitively); a key with a
+ * single group uses it when the signal names none
+ */
+export function resolveAccountGroup(groups: ApiKeyAccountGroup[], name: string | null): ApiKeyAccountGroup | null {
+  if (!name) {
+    return groups.length === 1 ? groups[0]! : null;
+  }
+  return groups.find(group => group.name.toLowerCase() === name.toLowerCase()) || null;
+}
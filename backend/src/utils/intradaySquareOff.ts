@@ -0,0 +1,78 @@
+/**
+ * Intraday Square-off Rules
+ * Which schedule applies to an account, when its square-off is due and how a
+ * run is summarised. Times are market time (IST) as HH:MM.
+ */
+
+import { SquareOffRun, SquareOffRunStatus, SquareOffSettings } from '../interfaces/IDatabaseAdapter';
+import { DEFAULT_TRADING_CALENDAR, TradingCalendar, getMarketSessionState } from './tradingCalendar';
+
+// Product types the broker squares off at the end of the day
+export const INTRADAY_PRODUCT_TYPES = ['MIS', 'CO', 'BO'];
+
+export const DEFAULT_SQUARE_OFF_TIME = '15:10';
+// Regular equity session
+const MARKET_OPEN = '09:15';
+const MARKET_CLOSE = '15:30';
+
+/**
+ * Validate a square-off time: HH:MM within the trading session
+ */
+export function validateSquareOffTime(time: string): string | null {
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+    return 'Square-off time must be HH:MM';
+  }
+  if (time <= MARKET_OPEN || time >= MARKET_CLOSE) {
+    return `Square-off time must be between ${MARKET_OPEN} and ${MARKET_CLOSE}`;
+  }
+  return null;
+}
+
+/**
+ * Settings that apply to an account: its own override, else the user-wide default
+ */
+export function resolveSquareOffSettings(settings: SquareOffSettings[], accountId: string): SquareOffSettings | null {
+  return settings.find(entry => entry.account_id === accountId)
+    || settings.find(entry => entry.account_id === null)
+    || null;
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours! * 60 + minutes!;
+};
+
+/**
+ * A square-off is due from its time until the normal session ends. After the
+ * close the broker has already squared off, so a late start does nothing. On
+ * days with special timings (Muhurat trading) the same lead before the close applies.
+ */
+export function isSquareOffDue(
+  settings: Pick<SquareOffSettings, 'enabled' | 'square_off_time'>,
+  now: Date,
+  calendar: TradingCalendar = DEFAULT_TRADING_CALENDAR
+): boolean {
+  if (!settings.enabled) {
+    return false;
+  }
+  const state = getMarketSessionState(now, 'EQUITY', calendar);
+  if (state.phase !== 'NORMAL' || !state.sessionEnd) {
+    return false;
+  }
+  const lead = (toMinutes(MARKET_CLOSE) - toMinutes(settings.square_off_time)) * 60 * 1000;
+  return new Date(state.sessionEnd).getTime() - now.getTime() <= lead;
+}
+
+/**
+ * Summarise a run: anything closed without failures is complete, failures
+ * alongside closed orders or positions make it partial
+ */
+export function getSquareOffRunStatus(
+  result: { cancelledOrders: number; squaredOffPositions: number; failures: SquareOffRun['failures'] }
+): SquareOffRunStatus {
+  const closed = result.cancelledOrders + result.squaredOffPositions;
+  if (result.failures.length === 0) {
+    return closed > 0 ? 'COMPLETED' : 'NOTHING_TO_DO';
+  }
+  return closed > 0 ? 'PARTIAL' : 'FAILED';
+}
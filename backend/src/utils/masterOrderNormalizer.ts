@@ -0,0 +1,278 @@
+/**
+ * Master Order Normalizer
+ * Converts raw broker order books (Shoonya, Fyers, paper) into a broker-neutral
+ * snapshot and diffs consecutive snapshots for the copy trading engine, and
+ * turns a snapshot back into each broker's order modification request.
+ */
+
+export type MasterOrderState = 'OPEN' | 'FILLED' | 'CANCELLED' | 'REJECTED';
+
+export interface MasterOrderSnapshot {
+  brokerOrderId: string;
+  symbol: string;
+  exchange: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  filledQuantity: number;
+  averagePrice?: number | undefined; // of the filled quantity, when the broker reports it
+  price: number;
+  triggerPrice: number;
+  orderType: 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET';
+  productType: string;
+  state: MasterOrderState;
+}
+
+export interface MasterOrderDiff {
+  placed: MasterOrderSnapshot[];
+  modified: MasterOrderSnapshot[];
+  cancelled: MasterOrderSnapshot[];
+}
+
+const SHOONYA_ORDER_TYPES: { [key: string]: MasterOrderSnapshot['orderType'] } = {
+  'MKT': 'MARKET',
+  'LMT': 'LIMIT',
+  'SL-LMT': 'SL-LIMIT',
+  'SL-MKT': 'SL-MARKET'
+};
+
+export const SHOONYA_PRODUCT_TYPES: { [key: string]: string } = {
+  'C': 'CNC',
+  'I': 'MIS',
+  'M': 'NRML',
+  'H': 'CO',
+  'B': 'BO'
+};
+
+const FYERS_ORDER_TYPES: { [key: number]: MasterOrderSnapshot['orderType'] } = {
+  1: 'LIMIT',
+  2: 'MARKET',
+  3: 'SL-MARKET',
+  4: 'SL-LIMIT'
+};
+
+export const FYERS_PRODUCT_TYPES: { [key: string]: string } = {
+  'CNC': 'CNC',
+  'INTRADAY': 'MIS',
+  'MARGIN': 'NRML',
+  'CO': 'CO',
+  'BO': 'BO'
+};
+
+function mapShoonyaState(status: string): MasterOrderState {
+  switch ((status || '').toUpperCase()) {
+    case 'COMPLETE':
+      return 'FILLED';
+    case 'CANCELED':
+    case 'CANCELLED':
+      return 'CANCELLED';
+    case 'REJECTED':
+      return 'REJECTED';
+    default:
+      // OPEN, PENDING, TRIGGER_PENDING
+      return 'OPEN';
+  }
+}
+
+function mapFyersState(status: number): MasterOrderState {
+  switch (status) {
+    case 1:
+      return 'CANCELLED';
+    case 2:
+      return 'FILLED';
+    case 5:
+      return 'REJECTED';
+    default:
+      // 4 = transit, 6 = pending
+      return 'OPEN';
+  }
+}
+
+function mapPaperState(status: string): MasterOrderState {
+  switch (status) {
+    case 'EXECUTED':
+      return 'FILLED';
+    case 'CANCELLED':
+      return 'CANCELLED';
+    case 'REJECTED':
+      return 'REJECTED';
+    default:
+      // PENDING, PLACED, PARTIALLY_FILLED
+      return 'OPEN';
+  }
+}
+
+/**
+ * Normalize a single raw broker order. Returns null for unrecognised payloads.
+ */
+export function normalizeMasterOrder(brokerName: string, rawOrder: any): MasterOrderSnapshot | null {
+  if (!rawOrder || typeof rawOrder !== 'object') {
+    return null;
+  }
+
+  if (brokerName === 'shoonya') {
+    if (!rawOrder.norenordno) {
+      return null;
+    }
+    return {
+      brokerOrderId: String(rawOrder.norenordno),
+      symbol: rawOrder.tsym,
+      exchange: rawOrder.exch || 'NSE',
+      action: rawOrder.trantype === 'S' ? 'SELL' : 'BUY',
+      quantity: parseInt(rawOrder.qty) || 0,
+      filledQuantity: parseInt(rawOrder.fillshares) || 0,
+      averagePrice: parseFloat(rawOrder.avgprc) || undefined,
+      price: parseFloat(rawOrder.prc) || 0,
+      triggerPrice: parseFloat(rawOrder.trgprc) || 0,
+      orderType: SHOONYA_ORDER_TYPES[rawOrder.prctyp] || 'MARKET',
+      productType: SHOONYA_PRODUCT_TYPES[rawOrder.prd] || 'CNC',
+      state: mapShoonyaState(rawOrder.status)
+    };
+  }
+
+  if (brokerName === 'fyers') {
+    if (!rawOrder.id) {
+      return null;
+    }
+    // Fyers symbols are prefixed with the exchange, e.g. NSE:RELIANCE-EQ
+    const [exchange, symbol] = String(rawOrder.symbol || '').includes(':')
+      ? String(rawOrder.symbol).split(':')
+      : [rawOrder.exchange, rawOrder.symbol];
+    return {
+      brokerOrderId: String(rawOrder.id),
+      symbol: symbol || '',
+      exchange: exchange || 'NSE',
+      action: rawOrder.side === -1 ? 'SELL' : 'BUY',
+      quantity: Number(rawOrder.qty) || 0,
+      filledQuantity: Number(rawOrder.filledQty) || 0,
+      averagePrice: Number(rawOrder.tradedPrice) || undefined,
+      price: Number(rawOrder.limitPrice) || 0,
+      triggerPrice: Number(rawOrder.stopPrice) || 0,
+      orderType: FYERS_ORDER_TYPES[rawOrder.type] || 'MARKET',
+      productType: FYERS_PRODUCT_TYPES[rawOrder.productType] || 'CNC',
+      state: mapFyersState(Number(rawOrder.status))
+    };
+  }
+
+  if (brokerName === 'paper') {
+    if (!rawOrder.orderId) {
+      return null;
+    }
+    return {
+      brokerOrderId: String(rawOrder.orderId),
+      symbol: rawOrder.symbol,
+      exchange: rawOrder.exchange || 'NSE',
+      action: rawOrder.action === 'SELL' ? 'SELL' : 'BUY',
+      quantity: Number(rawOrder.quantity) || 0,
+      filledQuantity: Number(rawOrder.filledQuantity) || 0,
+      averagePrice: Number(rawOrder.averagePrice) || undefined,
+      price: Number(rawOrder.price) || 0,
+      triggerPrice: Number(rawOrder.triggerPrice) || 0,
+      orderType: rawOrder.orderType || 'MARKET',
+      productType: rawOrder.productType || 'CNC',
+      state: mapPaperState(rawOrder.status)
+    };
+  }
+
+  return null;
+}
+
+export type OrderModification = Pick<MasterOrderSnapshot, 'symbol' | 'exchange' | 'quantity' | 'price' | 'triggerPrice' | 'orderType'>;
+
+/**
+ * The modifications payload a broker service's modifyOrder expects, which is passed
+ * through to the broker API as is. Returns null for brokers without a mapping.
+ */
+export function toBrokerOrderModification(brokerName: string, modification: OrderModification): Record<string, any> | null {
+  if (brokerName === 'shoonya') {
+    const shoonyaOrderType = Object.keys(SHOONYA_ORDER_TYPES).find(code => SHOONYA_ORDER_TYPES[code] === modification.orderType);
+    return {
+      exch: modification.exchange,
+      tsym: modification.symbol,
+      qty: modification.quantity.toString(),
+      prc: modification.price.toString(),
+      prctyp: shoonyaOrderType || 'MKT',
+      ...(modification.triggerPrice && { trgprc: modification.triggerPrice.toString() })
+    };
+  }
+
+  if (brokerName === 'fyers') {
+    const fyersOrderType = Object.keys(FYERS_ORDER_TYPES).find(code => FYERS_ORDER_TYPES[Number(code)] === modification.orderType);
+    return {
+      type: Number(fyersOrderType || 2),
+      qty: modification.quantity,
+      limitPrice: modification.price || 0,
+      stopPrice: modification.triggerPrice || 0
+    };
+  }
+
+  if (brokerName === 'paper') {
+    return {
+      quantity: modification.quantity,
+      price: modification.price,
+      triggerPrice: modification.triggerPrice || undefined,
+      orderType: modification.orderType
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Normalize a broker order book response. Accepts either an array of orders
+ * or a wrapped response ({ orderBook } / { data }); error payloads yield [].
+ */
+export function normalizeMasterOrderBook(brokerName: string, response: any): MasterOrderSnapshot[] {
+  const rawOrders = Array.isArray(response)
+    ? response
+    : Array.isArray(response?.orderBook)
+      ? response.orderBook
+      : Array.isArray(response?.data)
+        ? response.data
+        : [];
+
+  return rawOrders
+    .map((rawOrder: any) => normalizeMasterOrder(brokerName, rawOrder))
+    .filter((order: MasterOrderSnapshot | null): order is MasterOrderSnapshot => order !== null);
+}
+
+/**
+ * Compare the previous snapshot of a master's order book with the current one.
+ * - placed: orders not seen before that are live or filled (rejected/cancelled ones are ignored)
+ * - modified: still-open orders whose quantity, price, trigger or order type changed
+ * - cancelled: orders that were open last time and are now cancelled
+ */
+export function diffMasterOrders(
+  previous: Map<string, MasterOrderSnapshot>,
+  current: MasterOrderSnapshot[]
+): MasterOrderDiff {
+  const diff: MasterOrderDiff = { placed: [], modified: [], cancelled: [] };
+
+  for (const order of current) {
+    const before = previous.get(order.brokerOrderId);
+
+    if (!before) {
+      if (order.state === 'OPEN' || order.state === 'FILLED') {
+        diff.placed.push(order);
+      }
+      continue;
+    }
+
+    if (before.state !== 'OPEN') {
+      continue;
+    }
+
+    if (order.state === 'CANCELLED') {
+      diff.cancelled.push(order);
+    } else if (
+      order.state === 'OPEN' &&
+      (order.quantity !== before.quantity ||
+        order.price !== before.price ||
+        order.triggerPrice !== before.triggerPrice ||
+        order.orderType !== before.orderType)
+    ) {
+      diff.modified.push(order);
+    }
+  }
+
+  return diff;
+}
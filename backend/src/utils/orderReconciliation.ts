@@ -0,0 +1,88 @@
+/**
+ * Order Reconciliation
+ * Market session phases that pace the background order status sync, and the
+ * comparison of a stored order with its entry in the broker order book.
+ */
+
+import { OrderHistory } from '../interfaces/IDatabaseAdapter';
+import { MasterOrderSnapshot } from './masterOrderNormalizer';
+import { DEFAULT_TRADING_CALENDAR, TradingCalendar, getMarketSessionState } from './tradingCalendar';
+
+export type MarketPhase = 'PRE_OPEN' | 'OPEN' | 'POST_CLOSE' | 'CLOSED';
+
+export interface ReconcileIntervals {
+  open: number;       // ms between syncs while the market is open
+  quiet: number;      // ms between syncs in pre-open and just after close
+}
+
+export interface OrderStatusChange {
+  status: OrderHistory['status'];
+  executedQuantity: number;
+  averagePrice?: number | undefined;
+  rejectionReason?: string | undefined;
+}
+
+/**
+ * Equity session phase. The closing price and post-close sessions both count
+ * as post-close: late fills and cancellations of day orders still arrive then.
+ */
+export function getMarketPhase(now: Date = new Date(), calendar: TradingCalendar = DEFAULT_TRADING_CALENDAR): MarketPhase {
+  switch (getMarketSessionState(now, 'EQUITY', calendar).phase) {
+    case 'PRE_OPEN':
+      return 'PRE_OPEN';
+    case 'NORMAL':
+      return 'OPEN';
+    case 'CLOSING':
+    case 'POST_CLOSE':
+      return 'POST_CLOSE';
+    default:
+      return 'CLOSED';
+  }
+}
+
+/**
+ * Time until the next sync: short while the market is open, longer around
+ * the session and, when closed, until the next trading day's first session.
+ */
+export function getReconcileDelay(now: Date, intervals: ReconcileIntervals, calendar: TradingCalendar = DEFAULT_TRADING_CALENDAR): number {
+  const state = getMarketSessionState(now, 'EQUITY', calendar);
+  if (state.phase === 'NORMAL') {
+    return intervals.open;
+  }
+  if (state.phase !== 'CLOSED') {
+    return intervals.quiet;
+  }
+
+  // No session in the calendar's lookahead: check again in a day
+  return state.nextChangeAt ? new Date(state.nextChangeAt).getTime() - now.getTime() : 24 * 60 * 60 * 1000;
+}
+
+/**
+ * What changed for an order according to the broker order book, or null
+ * when the stored order is already up to date
+ */
+export function getOrderStatusChange(
+  order: Pick<OrderHistory, 'status' | 'executed_quantity'>,
+  snapshot: MasterOrderSnapshot
+): OrderStatusChange | null {
+  const status: OrderHistory['status'] = snapshot.state === 'FILLED'
+    ? 'EXECUTED'
+    : snapshot.state === 'CANCELLED' || snapshot.state === 'REJECTED'
+      ? snapshot.state
+      : snapshot.filledQuantity > 0
+        ? 'PARTIALLY_FILLED'
+        : order.status;
+  const executedQuantity = snapshot.state === 'FILLED' && snapshot.filledQuantity === 0
+    ? snapshot.quantity
+    : snapshot.filledQuantity;
+
+  if (status === order.status && executedQuantity === (order.executed_quantity || 0)) {
+    return null;
+  }
+
+  return {
+    status,
+    executedQuantity,
+    ...(snapshot.averagePrice && { averagePrice: snapshot.averagePrice })
+  };
+}
@@ -0,0 +1,252 @@
+/**
+ * Outbound webhook helpers
+ * Pure pieces of user webhook subscriptions: the event list, signing secrets,
+ * the signed request sent for a delivery, the retry schedule, which endpoint
+ * URLs are accepted, and the order data carried by order events.
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import { BlockList, LookupFunction, isIP } from 'net';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookEvent } from '../interfaces/IDatabaseAdapter';
+import { computeSignature } from './inboundSignals';
+
+// Events a subscription can listen for; webhook.test is only sent on request
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'order.placed',
+  'order.filled',
+  'order.rejected',
+  'order.cancelled',
+  'account.session_expired',
+  'alert.triggered'
+];
+
+export const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+// First attempt plus five retries, 30s apart doubling each time (about 15 minutes in all)
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+export function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Wait before the next attempt once `attempts` attempts have failed
+ */
+export function getWebhookRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Where a delivery goes after a failed attempt: back in the queue, or to the
+ * dead-letter list once it has used all its attempts
+ */
+export function getFailedDeliveryState(
+  attempts: number,
+  now: number = Date.now()
+): { status: WebhookDeliveryStatus; next_attempt_at: string | null } {
+  if (attempts >= WEBHOOK_MAX_ATTEMPTS) {
+    return { status: 'DEAD_LETTER', next_attempt_at: null };
+  }
+  return { status: 'RETRYING', next_attempt_at: new Date(now + getWebhookRetryDelay(attempts)).toISOString() };
+}
+
+/**
+ * Body and headers of a delivery. The signature uses the same scheme as inbound
+ * signals - hex HMAC-SHA256 of `<timestamp>.<body>` - so receivers verify it the same way.
+ */
+export function buildWebhookRequest(
+  delivery: Pick<WebhookDelivery, 'id' | 'event' | 'data' | 'created_at'>,
+  secret: string,
+  now: number = Date.now()
+): { body: string; headers: Record<string, string> } {
+  const body = JSON.stringify({
+    id: delivery.id,
+    event: delivery.event,
+    createdAt: delivery.created_at,
+    data: delivery.data
+  });
+  const timestamp = String(Math.floor(now / 1000));
+
+  return {
+    body,
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'CopyTrade-Webhooks/1.0',
+      'X-CopyTrade-Event': delivery.event,
+      'X-CopyTrade-Delivery': delivery.id,
+      'X-Signature-Timestamp': timestamp,
+      'X-Signature': computeSignature(secret, timestamp, body)
+    }
+  };
+}
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges.
+// BlockList also matches IPv4-mapped IPv6 addresses such as ::ffff:7f00:1 against the IPv4 rules.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as Array<[string, number]>) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as Array<[string, number]>) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is one a webhook may not be sent to
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').split('%')[0] || '';
+  const version = isIP(ip);
+  if (version === 0) {
+    return false;
+  }
+  return PRIVATE_ADDRESSES.check(ip, version === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Local development may point webhooks at a bot on the same machine
+const allowPrivateWebhooks = (): boolean => process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+
+/**
+ * Endpoint URLs must be https and may not name a loopback or private address, so a
+ * subscription can't reach internal services. Host names are checked again when they
+ * are resolved (see lookupPublicAddress). WEBHOOK_ALLOW_PRIVATE_URLS=true lifts both
+ * rules for local development.
+ */
+export function isAllowedWebhookUrl(value: string, allowPrivate: boolean = allowPrivateWebhooks()): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return false;
+  }
+  if (url.username || url.password) {
+    return false;
+  }
+  if (allowPrivate) {
+    return true;
+  }
+
+  // URL parsing has already turned decimal, octal and hex IPv4 forms into dotted quads
+  const hostname = url.hostname.toLowerCase();
+  return url.protocol === 'https:'
+    && hostname !== 'localhost'
+    && !hostname.endsWith('.localhost')
+    && !isPrivateAddress(hostname);
+}
+
+/**
+ * DNS lookup for webhook requests that fails when the host resolves to any private
+ * address. The connection is made to the addresses checked here, so a host can't
+ * pass validation and then resolve somewhere else.
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const first = addresses[0];
+    if (!first || addresses.some(entry => isPrivateAddress(entry.address))) {
+      callback(Object.assign(new Error(`${hostname} resolves to a private address`), { code: 'EPRIVATEADDRESS' }), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+};
+
+/**
+ * Check that a webhook URL's host resolves to public addresses only; resolves
+ * to an error message when it does not
+ */
+export function checkWebhookHost(value: string, allowPrivate: boolean = allowPrivateWebhooks()): Promise<string | null> {
+  if (allowPrivate) {
+    return Promise.resolve(null);
+  }
+  return new Promise(resolve => {
+    lookupPublicAddress(new URL(value).hostname.replace(/^\[|\]$/g, ''), { all: true }, error => {
+      if (!error) {
+        resolve(null);
+      } else {
+        resolve((error as NodeJS.ErrnoException).code === 'EPRIVATEADDRESS'
+          ? 'Webhook URL resolves to a private address'
+          : 'Webhook URL host could not be resolved');
+      }
+    });
+  });
+}
+
+/**
+ * Event for an order that has moved to the status, if the status is one subscribers hear about
+ */
+export function getOrderStatusEvent(status: string): WebhookEvent | null {
+  switch (status) {
+    case 'EXECUTED':
+      return 'order.filled';
+    case 'REJECTED':
+      return 'order.rejected';
+    case 'CANCELLED':
+      return 'order.cancelled';
+    default:
+      return null;
+  }
+}
+
+// The order fields order events carry, from order history or the status monitor's copy of it
+export interface WebhookOrderSource {
+  id: number | string;
+  account_id: number | string;
+  broker_name: string;
+  broker_order_id?: string | undefined;
+  symbol: string;
+  exchange: string;
+  action: string;
+  quantity: number;
+  price: number;
+  order_type: string;
+  product_type: string;
+  variety?: string | undefined;
+  status: string;
+  executed_quantity?: number | undefined;
+  average_price?: number | undefined;
+}
+
+export function toOrderEventData(
+  order: WebhookOrderSource,
+  update: { status?: string; executedQuantity?: number; averagePrice?: number; reason?: string | null } = {}
+): Record<string, any> {
+  return {
+    orderId: order.id.toString(),
+    brokerOrderId: order.broker_order_id || null,
+    accountId: order.account_id.toString(),
+    brokerName: order.broker_name,
+    symbol: order.symbol,
+    exchange: order.exchange,
+    action: order.action,
+    quantity: order.quantity,
+    price: order.price,
+    orderType: order.order_type,
+    productType: order.product_type,
+    variety: order.variety || 'REGULAR',
+    status: update.status || order.status,
+    executedQuantity: update.executedQuantity ?? order.executed_quantity ?? null,
+    averagePrice: update.averagePrice ?? order.average_price ?? null,
+    reason: update.reason || null
+  };
+}
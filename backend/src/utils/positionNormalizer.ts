@@ -0,0 +1,103 @@
+/**
+ * Position Normalizer
+ * Converts raw broker position books (Shoonya, Fyers, paper) into broker-neutral
+ * net positions.
+ */
+
+import { FYERS_PRODUCT_TYPES, SHOONYA_PRODUCT_TYPES } from './masterOrderNormalizer';
+
+export interface BrokerPosition {
+  symbol: string;
+  exchange: string;
+  quantity: number; // signed net quantity, negative for short positions
+  averagePrice: number;
+  lastPrice: number;
+  pnl: number;
+  productType: string;
+}
+
+/**
+ * Normalize a single raw broker position. Returns null for unrecognised payloads.
+ */
+export function normalizePosition(brokerName: string, rawPosition: any): BrokerPosition | null {
+  if (!rawPosition || typeof rawPosition !== 'object') {
+    return null;
+  }
+
+  if (brokerName === 'shoonya') {
+    if (!rawPosition.tsym) {
+      return null;
+    }
+    return {
+      symbol: rawPosition.tsym,
+      exchange: rawPosition.exch || 'NSE',
+      quantity: parseInt(rawPosition.netqty) || 0,
+      averagePrice: parseFloat(rawPosition.netavgprc) || 0,
+      lastPrice: parseFloat(rawPosition.lp) || 0,
+      pnl: (parseFloat(rawPosition.rpnl) || 0) + (parseFloat(rawPosition.urmtom) || 0),
+      productType: SHOONYA_PRODUCT_TYPES[rawPosition.prd] || 'CNC'
+    };
+  }
+
+  if (brokerName === 'fyers') {
+    if (!rawPosition.symbol) {
+      return null;
+    }
+    // Fyers symbols are prefixed with the exchange, e.g. NSE:RELIANCE-EQ
+    const [exchange, symbol] = String(rawPosition.symbol).includes(':')
+      ? String(rawPosition.symbol).split(':')
+      : [rawPosition.exchange, rawPosition.symbol];
+    return {
+      symbol: symbol || '',
+      exchange: exchange || 'NSE',
+      quantity: Number(rawPosition.netQty ?? rawPosition.qty) || 0,
+      averagePrice: Number(rawPosition.netAvg || rawPosition.avgPrice) || 0,
+      lastPrice: Number(rawPosition.ltp) || 0,
+      pnl: Number(rawPosition.pl ?? rawPosition.pnl) || 0,
+      productType: FYERS_PRODUCT_TYPES[rawPosition.productType] || 'CNC'
+    };
+  }
+
+  if (brokerName === 'paper') {
+    if (!rawPosition.symbol) {
+      return null;
+    }
+    return {
+      symbol: rawPosition.symbol,
+      exchange: rawPosition.exchange || 'NSE',
+      quantity: Number(rawPosition.quantity) || 0,
+      averagePrice: Number(rawPosition.averagePrice) || 0,
+      lastPrice: Number(rawPosition.lastPrice) || 0,
+      pnl: Number(rawPosition.pnl) || 0,
+      productType: rawPosition.productType || 'CNC'
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Normalize a broker position book response. Accepts either an array of
+ * positions or a wrapped response ({ netPositions } / { data }); error
+ * payloads yield [].
+ */
+export function normalizePositions(brokerName: string, response: any): BrokerPosition[] {
+  const rawPositions = Array.isArray(response)
+    ? response
+    : Array.isArray(response?.netPositions)
+      ? response.netPositions
+      : Array.isArray(response?.data)
+        ? response.data
+        : [];
+
+  return rawPositions
+    .map((rawPosition: any) => normalizePosition(brokerName, rawPosition))
+    .filter((position: BrokerPosition | null): position is BrokerPosition => position !== null);
+}
+
+/**
+ * Positions with a non-zero net quantity
+ */
+export function getOpenPositions(positions: BrokerPosition[]): BrokerPosition[] {
+  return positions.filter(position => position.quantity !== 0);
+}
@@ -0,0 +1,184 @@
+/**
+ * Price Alert Rules
+ * Pure condition checks and trigger state used by the price alert engine.
+ * Alerts fire on a crossing: once an alert has fired it is disarmed until its
+ * condition is seen to be false again, so a price sitting above a threshold
+ * does not notify on every pass.
+ */
+
+import { Candle, PriceAlert, PriceAlertCondition, UpdatePriceAlertData } from '../interfaces/IDatabaseAdapter';
+import { getCandleStart } from './candleAggregation';
+
+const AVERAGE_VOLUME_DAYS = 20;
+const WEEK52_MS = 365 * 24 * 60 * 60 * 1000;
+
+export const SYMBOL_ALERT_CONDITIONS: PriceAlertCondition[] = [
+  'PRICE_ABOVE',
+  'PRICE_BELOW',
+  'PERCENT_CHANGE',
+  'VOLUME_SPIKE',
+  'WEEK52_HIGH',
+  'WEEK52_LOW',
+  'POSITION_PNL'
+];
+
+// Daily figures an alert is compared against; fixed for the trading day
+export interface AlertReferenceStats {
+  averageVolume: number | null; // average daily volume over the last 20 sessions
+  week52High: number | null;
+  week52Low: number | null;
+}
+
+export interface AlertSnapshot {
+  price?: number | undefined;
+  changePercent?: number | undefined;
+  volume?: number | undefined; // traded today
+  reference?: AlertReferenceStats | undefined;
+  positionPnl?: number | null | undefined; // null when the symbol is not held
+  portfolio?: { pnl: number; invested: number } | null | undefined; // realised + unrealised P&L and open cost basis
+}
+
+export interface AlertEvaluation {
+  value: number;
+  met: boolean;
+  peakValue?: number | undefined;
+}
+
+/**
+ * Price alerts only fire when the price crosses the threshold after the alert
+ * is created; the other conditions fire straight away if already true
+ */
+export function isInitiallyArmed(condition: PriceAlertCondition): boolean {
+  return condition !== 'PRICE_ABOVE' && condition !== 'PRICE_BELOW';
+}
+
+/**
+ * Validate a threshold for its condition
+ */
+export function validateAlertThreshold(condition: PriceAlertCondition, threshold: number): string | null {
+  switch (condition) {
+    case 'PRICE_ABOVE':
+    case 'PRICE_BELOW':
+      return threshold > 0 ? null : 'Price must be greater than zero';
+    case 'PERCENT_CHANGE':
+      return threshold !== 0 ? null : 'Percent change must be non-zero; use a negative value for a fall';
+    case 'VOLUME_SPIKE':
+      return threshold > 1 ? null : 'Volume multiple must be greater than 1';
+    case 'POSITION_PNL':
+      return threshold !== 0 ? null : 'P&L threshold must be non-zero; use a negative value for a loss';
+    case 'PORTFOLIO_DRAWDOWN':
+      return threshold > 0 && threshold <= 100 ? null : 'Drawdown must be between 0 and 100 percent';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Average volume and 52-week range from daily bars, leaving out the bar of
+ * the current session
+ */
+export function computeReferenceStats(dailyCandles: Candle[], now: Date): AlertReferenceStats {
+  const today = getCandleStart(now, '1d').toISOString();
+  const yearAgo = new Date(now.getTime() - WEEK52_MS).toISOString();
+  const past = dailyCandles
+    .filter(candle => candle.start < today && candle.start >= yearAgo)
+    .sort((a, b) => a.start.localeCompare(b.start));
+
+  const volumes = past.slice(-AVERAGE_VOLUME_DAYS).map(candle => candle.volume).filter(volume => volume > 0);
+  return {
+    averageVolume: volumes.length > 0 ? volumes.reduce((sum, volume) => sum + volume, 0) / volumes.length : null,
+    week52High: past.length > 0 ? Math.max(...past.map(candle => candle.high)) : null,
+    week52Low: past.length > 0 ? Math.min(...past.map(candle => candle.low)) : null
+  };
+}
+
+// A signed threshold is reached by moving past it in its own direction
+const reachesSigned = (value: number, threshold: number): boolean =>
+  threshold >= 0 ? value >= threshold : value <= threshold;
+
+/**
+ * Check an alert's condition. Returns null when the data it needs is not
+ * available, in which case the alert is left as it is.
+ */
+export function evaluateAlertCondition(
+  alert: Pick<PriceAlert, 'condition' | 'threshold' | 'peak_value'>,
+  snapshot: AlertSnapshot
+): AlertEvaluation | null {
+  const { price, reference } = snapshot;
+
+  switch (alert.condition) {
+    case 'PRICE_ABOVE':
+      return price ? { value: price, met: price >= alert.threshold } : null;
+    case 'PRICE_BELOW':
+      return price ? { value: price, met: price <= alert.threshold } : null;
+    case 'PERCENT_CHANGE':
+      return snapshot.changePercent !== undefined
+        ? { value: snapshot.changePercent, met: reachesSigned(snapshot.changePercent, alert.threshold) }
+        : null;
+    case 'VOLUME_SPIKE': {
+      if (snapshot.volume === undefined || !reference?.averageVolume) return null;
+      const ratio = snapshot.volume / reference.averageVolume;
+      return { value: ratio, met: ratio >= alert.threshold };
+    }
+    case 'WEEK52_HIGH':
+      return price && reference?.week52High ? { value: price, met: price > reference.week52High } : null;
+    case 'WEEK52_LOW':
+      return price && reference?.week52Low ? { value: price, met: price < reference.week52Low } : null;
+    case 'POSITION_PNL':
+      return snapshot.positionPnl !== undefined && snapshot.positionPnl !== null
+        ? { value: snapshot.positionPnl, met: reachesSigned(snapshot.positionPnl, alert.threshold) }
+        : null;
+    case 'PORTFOLIO_DRAWDOWN': {
+      // Drawdown of total P&L from its high-water mark, as a share of the capital at work.
+      // Closing a position moves P&L from unrealised to realised, so it does not read as a loss.
+      const { portfolio } = snapshot;
+      if (!portfolio || portfolio.invested <= 0) return null;
+      const peakValue = Math.max(alert.peak_value ?? portfolio.pnl, portfolio.pnl);
+      const drawdown = ((peakValue - portfolio.pnl) / portfolio.invested) * 100;
+      return { value: drawdown, met: drawdown >= alert.threshold, peakValue };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Apply an evaluation to an alert's trigger state. Returns whether the alert
+ * fires and the fields that changed; an empty update means nothing changed.
+ */
+export function nextAlertState(
+  alert: Pick<PriceAlert, 'trigger' | 'cooldown_minutes' | 'armed' | 'peak_value' | 'last_triggered_at' | 'trigger_count'>,
+  evaluation: AlertEvaluation,
+  now: Date
+): { fired: boolean; update: UpdatePriceAlertData } {
+  const update: UpdatePriceAlertData = {};
+  if (evaluation.peakValue !== undefined && evaluation.peakValue !== alert.peak_value) {
+    update.peak_value = evaluation.peakValue;
+  }
+
+  let fired = false;
+  if (!evaluation.met) {
+    if (!alert.armed) {
+      update.armed = true;
+    }
+  } else if (alert.armed) {
+    const coolingDown = alert.trigger === 'RECURRING'
+      && alert.last_triggered_at !== null
+      && now.getTime() - new Date(alert.last_triggered_at).getTime() < alert.cooldown_minutes * 60 * 1000;
+
+    if (!coolingDown) {
+      fired = true;
+      update.armed = false;
+      update.last_triggered_at = now.toISOString();
+      update.trigger_count = alert.trigger_count + 1;
+      if (alert.trigger === 'ONCE') {
+        update.status = 'TRIGGERED';
+      }
+    }
+  }
+
+  if (Object.keys(update).length > 0) {
+    update.last_value = evaluation.value;
+  }
+  return { fired, update };
+}
@@ -0,0 +1,94 @@
+/**
+ * Strategy Payoff
+ * Expiry payoff of multi-leg option strategies (spreads, straddles, strangles,
+ * iron condors) and the order their legs are sent to the broker in.
+ */
+
+import { StrategyLeg } from '../interfaces/IDatabaseAdapter';
+
+export interface StrategyMetrics {
+  netPremium: number;        // positive for a net credit, negative for a net debit
+  maxProfit: number | null;  // null when unlimited
+  maxLoss: number | null;    // positive amount, null when unlimited
+  breakevens: number[];      // underlying prices at expiry, ascending
+}
+
+type PayoffLeg = Pick<StrategyLeg, 'action' | 'quantity' | 'option_type' | 'strike' | 'premium'>;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Value of a leg at expiry for an underlying price. Legs without an option
+ * type are futures and move one for one with the underlying.
+ */
+const legPayoff = (leg: PayoffLeg, price: number): number => {
+  const strike = leg.strike || 0;
+  const value = leg.option_type === 'CE'
+    ? Math.max(price - strike, 0)
+    : leg.option_type === 'PE'
+      ? Math.max(strike - price, 0)
+      : price;
+  const perUnit = leg.action === 'BUY' ? value - leg.premium : leg.premium - value;
+  return perUnit * leg.quantity;
+};
+
+export const strategyPayoffAt = (legs: PayoffLeg[], price: number): number =>
+  legs.reduce((total, leg) => total + legPayoff(leg, price), 0);
+
+/**
+ * Net premium, max profit/loss and breakevens at expiry. The payoff is
+ * piecewise linear with kinks at the strikes, so it is evaluated at zero, at
+ * every strike and then extended by its slope above the highest strike.
+ */
+export function computeStrategyMetrics(legs: PayoffLeg[]): StrategyMetrics {
+  const netPremium = legs.reduce((total, leg) =>
+    total + (leg.action === 'SELL' ? 1 : -1) * leg.premium * leg.quantity, 0);
+
+  const points = Array.from(new Set([
+    0,
+    ...legs.map(leg => (leg.option_type ? leg.strike : leg.premium) || 0)
+  ])).sort((a, b) => a - b);
+  const values = points.map(price => strategyPayoffAt(legs, price));
+
+  // Above the highest strike only calls and futures still change the payoff
+  const slope = legs.reduce((total, leg) =>
+    total + (leg.option_type === 'PE' ? 0 : (leg.action === 'BUY' ? 1 : -1) * leg.quantity), 0);
+
+  const breakevens: number[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const price = points[i]!;
+    const value = values[i]!;
+    if (value === 0) {
+      breakevens.push(price);
+    }
+    const nextPrice = points[i + 1];
+    const nextValue = values[i + 1];
+    if (nextPrice !== undefined && nextValue !== undefined && value * nextValue < 0) {
+      breakevens.push(price + (nextPrice - price) * (-value / (nextValue - value)));
+    }
+  }
+  const lastPrice = points[points.length - 1]!;
+  const lastValue = values[values.length - 1]!;
+  if (slope !== 0 && lastValue * slope < 0) {
+    breakevens.push(lastPrice - lastValue / slope);
+  }
+
+  return {
+    netPremium: round(netPremium),
+    maxProfit: slope > 0 ? null : round(Math.max(...values)),
+    maxLoss: slope < 0 ? null : round(Math.max(0, -Math.min(...values))),
+    breakevens: Array.from(new Set(breakevens.map(round)))
+  };
+}
+
+/**
+ * Indexes of the legs in execution order: bought legs go first so every
+ * short leg is already hedged when it reaches the exchange (and margin
+ * benefits apply). Legs keep their relative order otherwise.
+ */
+export function orderLegsForExecution(legs: Array<Pick<StrategyLeg, 'action'>>): number[] {
+  return legs
+    .map((leg, index) => ({ leg, index }))
+    .sort((a, b) => (a.leg.action === b.leg.action ? 0 : a.leg.action === 'BUY' ? -1 : 1) || a.index - b.index)
+    .map(({ index }) => index);
+}
@@ -0,0 +1,81 @@
+/**
+ * Symbol Subscriptions
+ * Reference-counted symbol subscriptions shared by all browser clients. A
+ * symbol is subscribed upstream once, in depth mode while any client wants
+ * depth, and dropped when its last client leaves.
+ */
+
+import { TickMode } from '@copytrade/unified-broker';
+
+export interface UpstreamChange {
+  key: string;                // SYMBOL:EXCHANGE
+  mode: TickMode | null;      // null when nobody is subscribed any more
+}
+
+export class SymbolSubscriptionRegistry {
+  // key -> client ID -> wants depth
+  private clientsByKey: Map<string, Map<string, boolean>> = new Map();
+
+  /**
+   * Add or update a client's subscription; returns the upstream change, if any
+   */
+  add(key: string, clientId: string, depth: boolean = false): UpstreamChange | null {
+    const before = this.getMode(key);
+    const clients = this.clientsByKey.get(key) || new Map<string, boolean>();
+    clients.set(clientId, depth);
+    this.clientsByKey.set(key, clients);
+    return this.getChange(key, before);
+  }
+
+  remove(key: string, clientId: string): UpstreamChange | null {
+    const clients = this.clientsByKey.get(key);
+    if (!clients?.has(clientId)) {
+      return null;
+    }
+
+    const before = this.getMode(key);
+    clients.delete(clientId);
+    if (clients.size === 0) {
+      this.clientsByKey.delete(key);
+    }
+    return this.getChange(key, before);
+  }
+
+  /**
+   * Drop every subscription of a disconnected client
+   */
+  removeClient(clientId: string): UpstreamChange[] {
+    return Array.from(this.clientsByKey.keys())
+      .map(key => this.remove(key, clientId))
+      .filter((change): change is UpstreamChange => change !== null);
+  }
+
+  getMode(key: string): TickMode | null {
+    const clients = this.clientsByKey.get(key);
+    if (!clients || clients.size === 0) {
+      return null;
+    }
+    return Array.from(clients.values()).some(depth => depth) ? 'DEPTH' : 'LTP';
+  }
+
+  getClients(key: string): string[] {
+    return Array.from(this.clientsByKey.get(key)?.keys() || []);
+  }
+
+  getReferenceCount(key: string): number {
+    return this.clientsByKey.get(key)?.size || 0;
+  }
+
+  keys(): string[] {
+    return Array.from(this.clientsByKey.keys());
+  }
+
+  get size(): number {
+    return this.clientsByKey.size;
+  }
+
+  private getChange(key: string, before: TickMode | null): UpstreamChange | null {
+    const mode = this.getMode(key);
+    return mode === before ? null : { key, mode };
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Trade Ledger
+ * Positions and realised P&L built from executed fills by lot matching.
+ * Fills are matched per account and instrument, first-in first-out or against
+ * a weighted average cost; shorts are lots opened by a sell.
+ */
+
+import { LedgerFill, OrderHistory } from '../interfaces/IDatabaseAdapter';
+
+export type LotMatchingMethod = 'FIFO' | 'WEIGHTED_AVERAGE';
+
+export interface OpenLot {
+  quantity: number; // always positive; the side is the position's
+  price: number;
+  openedAt: string;
+}
+
+export interface LedgerPosition {
+  accountId: string;
+  brokerName: string;
+  symbol: string;
+  exchange: string;
+  quantity: number; // negative for a short position
+  averagePrice: number;
+  realizedPnl: number;
+  openLots: OpenLot[];
+  lastTradeAt: string;
+}
+
+// One closing fill and the lots it closed
+export interface ClosedTrade {
+  accountId: string;
+  brokerName: string;
+  symbol: string;
+  exchange: string;
+  side: 'LONG' | 'SHORT';
+  quantity: number;
+  entryPrice: number; // average price of the closed lots
+  exitPrice: number;
+  realizedPnl: number;
+  openedAt: string; // earliest closed lot
+  closedAt: string;
+}
+
+export interface AggregatedLedgerPosition {
+  symbol: string;
+  exchange: string;
+  quantity: number;
+  averagePrice: number;
+  realizedPnl: number;
+  lastTradeAt: string;
+  accounts: LedgerPosition[];
+}
+
+export interface Ledger {
+  positions: LedgerPosition[];
+  closedTrades: ClosedTrade[];
+}
+
+type LedgerInput = Pick<LedgerFill, 'account_id' | 'broker_name' | 'symbol' | 'exchange' | 'action' | 'quantity' | 'price' | 'executed_at'>;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const instrumentKey = (exchange: string, symbol: string): string => `${exchange}:${symbol}`;
+
+/**
+ * The part of an order's execution not yet in the ledger, or null when the
+ * ledger is up to date. Partial fills arrive as a growing executed quantity
+ * and average price, so the new fill's price is what moves the average.
+ */
+export function getUnrecordedFill(
+  order: Pick<OrderHistory, 'status' | 'quantity' | 'price' | 'executed_quantity' | 'average_price'>,
+  recordedFills: Array<Pick<LedgerFill, 'quantity' | 'price'>>
+): { quantity: number; price: number; cumulativeQuantity: number } | null {
+  const filledQuantity = order.executed_quantity || (order.status === 'EXECUTED' ? order.quantity : 0);
+  const averagePrice = order.average_price || order.price;
+  const recordedQuantity = recordedFills.reduce((sum, fill) => sum + fill.quantity, 0);
+  if (filledQuantity <= recordedQuantity || !(averagePrice > 0)) {
+    return null;
+  }
+
+  const recordedValue = recordedFills.reduce((sum, fill) => sum + fill.quantity * fill.price, 0);
+  const quantity = filledQuantity - recordedQuantity;
+  const price = (averagePrice * filledQuantity - recordedValue) / quantity;
+  return {
+    quantity,
+    price: price > 0 ? round(price) : averagePrice,
+    cumulativeQuantity: filledQuantity
+  };
+}
+
+/**
+ * Replay fills in execution order and match closing quantities against open lots
+ */
+export function buildLedger(fills: LedgerInput[], method: LotMatchingMethod = 'FIFO'): Ledger {
+  const positions = new Map<string, LedgerPosition>();
+  const closedTrades: ClosedTrade[] = [];
+
+  const ordered = fills
+    .map((fill, index) => ({ fill, index }))
+    .sort((a, b) => a.fill.executed_at.localeCompare(b.fill.executed_at) || a.index - b.index);
+
+  for (const { fill } of ordered) {
+    const key = `${fill.account_id}|${instrumentKey(fill.exchange, fill.symbol)}`;
+    const position = positions.get(key) || {
+      accountId: fill.account_id,
+      brokerName: fill.broker_name,
+      symbol: fill.symbol,
+      exchange: fill.exchange,
+      quantity: 0,
+      averagePrice: 0,
+      realizedPnl: 0,
+      openLots: [],
+      lastTradeAt: fill.executed_at
+    };
+    positions.set(key, position);
+    position.lastTradeAt = fill.executed_at;
+
+    const direction = fill.action === 'BUY' ? 1 : -1;
+    let remaining = fill.quantity;
+
+    // A fill against the position's side closes lots before opening new ones
+    if (position.quantity * direction < 0) {
+      const side = position.quantity > 0 ? 'LONG' : 'SHORT';
+      let closedQuantity = 0;
+      let closedCost = 0;
+      let realizedPnl = 0;
+      let openedAt = fill.executed_at;
+
+      while (remaining > 0 && position.openLots.length > 0) {
+        const lot = position.openLots[0]!;
+        const matched = Math.min(lot.quantity, remaining);
+        realizedPnl += (side === 'LONG' ? fill.price - lot.price : lot.price - fill.price) * matched;
+        closedQuantity += matched;
+        closedCost += lot.price * matched;
+        if (lot.openedAt < openedAt) {
+          openedAt = lot.openedAt;
+        }
+
+        lot.quantity -= matched;
+        remaining -= matched;
+        if (lot.quantity === 0) {
+          position.openLots.shift();
+        }
+      }
+
+      position.realizedPnl += realizedPnl;
+      closedTrades.push({
+        accountId: fill.account_id,
+        brokerName: fill.broker_name,
+        symbol: fill.symbol,
+        exchange: fill.exchange,
+        side,
+        quantity: closedQuantity,
+        entryPrice: round(closedCost / closedQuantity),
+        exitPrice: fill.price,
+        realizedPnl: round(realizedPnl),
+        openedAt,
+        closedAt: fill.executed_at
+      });
+    }
+
+    // Whatever is left adds to the position or opens it on the other side
+    if (remaining > 0) {
+      const lastLot = position.openLots[0];
+      if (method === 'WEIGHTED_AVERAGE' && lastLot) {
+        lastLot.price = (lastLot.price * lastLot.quantity + fill.price * remaining) / (lastLot.quantity + remaining);
+        lastLot.quantity += remaining;
+      } else {
+        position.openLots.push({ quantity: remaining, price: fill.price, openedAt: fill.executed_at });
+      }
+    }
+
+    const openQuantity = position.openLots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const sign = openQuantity === 0 ? 0 : remaining > 0 ? direction : Math.sign(position.quantity);
+    position.quantity = sign * openQuantity;
+    position.averagePrice = openQuantity > 0
+      ? position.openLots.reduce((sum, lot) => sum + lot.price * lot.quantity, 0) / openQuantity
+      : 0;
+  }
+
+  return {
+    positions: Array.from(positions.values()).map(position => ({
+      ...position,
+      averagePrice: round(position.averagePrice),
+      realizedPnl: round(position.realizedPnl),
+      openLots: position.openLots.map(lot => ({ ...lot, price: round(lot.price) }))
+    })),
+    closedTrades
+  };
+}
+
+/**
+ * Net the same instrument across accounts. The average price is that of the
+ * accounts on the net side; realised P&L is summed over every account.
+ */
+export function aggregateLedgerPositions(positions: LedgerPosition[]): AggregatedLedgerPosition[] {
+  const groups = new Map<string, LedgerPosition[]>();
+  for (const position of positions) {
+    const key = instrumentKey(position.exchange, position.symbol);
+    groups.set(key, [...(groups.get(key) || []), position]);
+  }
+
+  return Array.from(groups.values()).map(accounts => {
+    const first = accounts[0]!;
+    const quantity = accounts.reduce((sum, position) => sum + position.quantity, 0);
+    const netSide = accounts.filter(position => position.quantity * quantity > 0);
+    const netSideQuantity = netSide.reduce((sum, position) => sum + Math.abs(position.quantity), 0);
+
+    return {
+      symbol: first.symbol,
+      exchange: first.exchange,
+      quantity,
+      averagePrice: netSideQuantity > 0
+        ? round(netSide.reduce((sum, position) => sum + position.averagePrice * Math.abs(position.quantity), 0) / netSideQuantity)
+        : 0,
+      realizedPnl: round(accounts.reduce((sum, position) => sum + position.realizedPnl, 0)),
+      lastTradeAt: accounts.reduce((latest, position) => (position.lastTradeAt > latest ? position.lastTradeAt : latest), first.lastTradeAt),
+      accounts
+    };
+  });
+}
+
+/**
+ * Mark-to-market P&L of an open position; shorts gain when the price falls
+ */
+export const getUnrealizedPnl = (position: { quantity: number; averagePrice: number }, lastPrice: number): number =>
+  round((lastPrice - position.averagePrice) * position.quantity);
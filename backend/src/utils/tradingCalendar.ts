@@ -0,0 +1,442 @@
+/**
+ * Trading Calendar
+ * Exchange sessions per segment in market time (IST): which session is
+ * running at an instant, when the next one starts and which days the
+ * exchanges trade. Weekends and exchange holidays are closed; special
+ * sessions such as Muhurat trading open a day with their own timings.
+ */
+
+const MARKET_TIME_ZONE = 'Asia/Kolkata';
+const MARKET_UTC_OFFSET = '+05:30';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOOKAHEAD_DAYS = 14; // longest run of closed days searched for the next session
+
+export type MarketSegment = 'EQUITY' | 'FNO' | 'CURRENCY' | 'COMMODITY';
+export type MarketSessionPhase = 'PRE_OPEN' | 'NORMAL' | 'CLOSING' | 'POST_CLOSE' | 'CLOSED';
+
+export const MARKET_SEGMENTS: MarketSegment[] = ['EQUITY', 'FNO', 'CURRENCY', 'COMMODITY'];
+
+const SEGMENT_LABELS: Record<MarketSegment, string> = {
+  EQUITY: 'equity',
+  FNO: 'F&O',
+  CURRENCY: 'currency',
+  COMMODITY: 'commodity'
+};
+
+// One session of a trading day, HH:MM IST with the end exclusive
+export interface MarketSessionWindow {
+  phase: Exclude<MarketSessionPhase, 'CLOSED'>;
+  start: string;
+  end: string;
+}
+
+export interface MarketHoliday {
+  date: string; // YYYY-MM-DD
+  description: string;
+  segments: MarketSegment[];
+}
+
+// A day with its own timings, e.g. Muhurat trading on Diwali
+export interface SpecialSession {
+  date: string; // YYYY-MM-DD
+  description: string;
+  segments: MarketSegment[];
+  sessions: MarketSessionWindow[];
+}
+
+export interface TradingCalendar {
+  sessions: Record<MarketSegment, MarketSessionWindow[]>;
+  holidays: MarketHoliday[];
+  specialSessions: SpecialSession[];
+}
+
+export interface MarketSessionState {
+  segment: MarketSegment;
+  tradingDate: string; // market date of the instant, YYYY-MM-DD
+  phase: MarketSessionPhase;
+  isTradingDay: boolean;
+  sessionStart: string | null; // ISO start of the current session
+  sessionEnd: string | null; // ISO end of the current session
+  nextPhase: MarketSessionPhase | null;
+  nextChangeAt: string | null; // ISO instant the phase changes next
+  holiday: string | null; // why the exchange is closed today
+  specialSession: string | null; // special session running today
+}
+
+// Regular sessions. Equity cash has the pre-open call auction and the closing
+// price and post-close sessions; derivatives, currency and MCX trade continuously.
+const REGULAR_SESSIONS: Record<MarketSegment, MarketSessionWindow[]> = {
+  EQUITY: [
+    { phase: 'PRE_OPEN', start: '09:00', end: '09:15' },
+    { phase: 'NORMAL', start: '09:15', end: '15:30' },
+    { phase: 'CLOSING', start: '15:30', end: '15:40' },
+    { phase: 'POST_CLOSE', start: '15:40', end: '16:00' }
+  ],
+  FNO: [
+    { phase: 'NORMAL', start: '09:15', end: '15:30' }
+  ],
+  CURRENCY: [
+    { phase: 'NORMAL', start: '09:00', end: '17:00' }
+  ],
+  COMMODITY: [
+    { phase: 'NORMAL', start: '09:00', end: '23:30' }
+  ]
+};
+
+// MCX keeps its evening session on most exchange holidays, so commodity
+// closures come from the calendar file instead
+const EXCHANGE_HOLIDAY_SEGMENTS: MarketSegment[] = ['EQUITY', 'FNO', 'CURRENCY'];
+
+// NSE/BSE trading holidays, from the exchanges' yearly holiday circulars
+const EXCHANGE_HOLIDAYS: Array<[string, string]> = [
+  // 2025
+  ['2025-02-26', 'Mahashivratri'],
+  ['2025-03-14', 'Holi'],
+  ['2025-03-31', 'Id-Ul-Fitr (Ramadan Eid)'],
+  ['2025-04-10', 'Shri Mahavir Jayanti'],
+  ['2025-04-14', 'Dr. Baba Saheb Ambedkar Jayanti'],
+  ['2025-04-18', 'Good Friday'],
+  ['2025-05-01', 'Maharashtra Day'],
+  ['2025-08-15', 'Independence Day'],
+  ['2025-08-27', 'Ganesh Chaturthi'],
+  ['2025-10-02', 'Mahatma Gandhi Jayanti/Dussehra'],
+  ['2025-10-21', 'Diwali Laxmi Pujan'],
+  ['2025-10-22', 'Diwali Balipratipada'],
+  ['2025-11-05', 'Prakash Gurpurb Sri Guru Nanak Dev'],
+  ['2025-12-25', 'Christmas'],
+  // 2026
+  ['2026-01-26', 'Republic Day'],
+  ['2026-03-03', 'Holi'],
+  ['2026-03-26', 'Shri Ram Navami'],
+  ['2026-03-31', 'Shri Mahavir Jayanti'],
+  ['2026-04-03', 'Good Friday'],
+  ['2026-04-14', 'Dr. Baba Saheb Ambedkar Jayanti'],
+  ['2026-05-01', 'Maharashtra Day'],
+  ['2026-05-28', 'Bakri Id'],
+  ['2026-06-26', 'Muharram'],
+  ['2026-09-14', 'Ganesh Chaturthi'],
+  ['2026-10-02', 'Mahatma Gandhi Jayanti'],
+  ['2026-10-20', 'Dussehra'],
+  ['2026-11-10', 'Diwali Balipratipada'],
+  ['2026-11-24', 'Prakash Gurpurb Sri Guru Nanak Dev'],
+  ['2026-12-25', 'Christmas']
+];
+
+export const DEFAULT_TRADING_CALENDAR: TradingCalendar = {
+  sessions: REGULAR_SESSIONS,
+  holidays: EXCHANGE_HOLIDAYS.map(([date, description]) => ({ date, description, segments: EXCHANGE_HOLIDAY_SEGMENTS })),
+  specialSessions: [
+    {
+      date: '2025-10-21',
+      description: 'Muhurat Trading',
+      segments: ['EQUITY', 'FNO', 'CURRENCY'],
+      sessions: [
+        { phase: 'PRE_OPEN', start: '13:30', end: '13:45' },
+        { phase: 'NORMAL', start: '13:45', end: '14:45' }
+      ]
+    }
+  ]
+};
+
+/**
+ * Calendar date in market time as YYYY-MM-DD
+ */
+export function toMarketDate(date: Date): string {
+  return date.toLocaleDateString('en-CA', { timeZone: MARKET_TIME_ZONE });
+}
+
+/**
+ * Wall-clock time in market time as HH:MM:SS
+ */
+export function toMarketTime(date: Date): string {
+  return date.toLocaleTimeString('en-GB', { timeZone: MARKET_TIME_ZONE, hour12: false });
+}
+
+/**
+ * Instant of a market date and HH:MM[:SS] market time
+ */
+export function atMarketTime(marketDate: string, time: string): Date {
+  return new Date(`${marketDate}T${time.length === 5 ? `${time}:00` : time}${MARKET_UTC_OFFSET}`);
+}
+
+/**
+ * Market date a number of days after another
+ */
+export function addMarketDays(marketDate: string, days: number): string {
+  return new Date(new Date(`${marketDate}T12:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Segment whose sessions apply to orders and quotes of an exchange
+ */
+export function getSegmentForExchange(exchange: string): MarketSegment {
+  switch (exchange.toUpperCase()) {
+    case 'NFO':
+    case 'BFO':
+      return 'FNO';
+    case 'CDS':
+    case 'BCD':
+      return 'CURRENCY';
+    case 'MCX':
+    case 'NCDEX':
+      return 'COMMODITY';
+    default:
+      return 'EQUITY';
+  }
+}
+
+/**
+ * Sessions of a segment on a market date. Special sessions take precedence
+ * over holidays and weekends since Muhurat trading usually falls on one.
+ */
+export function getSessionsForDate(
+  marketDate: string,
+  segment: MarketSegment,
+  calendar: TradingCalendar = DEFAULT_TRADING_CALENDAR
+): { sessions: MarketSessionWindow[]; holiday: string | null; specialSession: string | null } {
+  const special = calendar.specialSessions.find(entry => entry.date === marketDate && entry.segments.includes(segment));
+  if (special) {
+    return { sessions: special.sessions, holiday: null, specialSession: special.description };
+  }
+
+  const holiday = calendar.holidays.find(entry => entry.date === marketDate && entry.segments.includes(segment));
+  if (holiday) {
+    return { sessions: [], holiday: holiday.description, specialSession: null };
+  }
+
+  const weekday = new Date(`${marketDate}T12:00:00Z`).getUTCDay();
+  if (weekday === 0 || weekday === 6) {
+    return { sessions: [], holiday: 'Weekend', specialSession: null };
+  }
+
+  return { sessions: calendar.sessions[segment], holiday: null, specialSession: null };
+}
+
+/**
+ * Whether a segment trades on the market date of the given instant
+ */
+export function isTradingDay(date: Date, segment: MarketSegment = 'EQUITY', calendar: TradingCalendar = DEFAULT_TRADING_CALENDAR): boolean {
+  return getSessionsForDate(toMarketDate(date), segment, calendar).sessions.length > 0;
+}
+
+/**
+ * Start of the next session of the given phase strictly after an instant
+ */
+export function getNextSessionStart(
+  now: Date,
+  segment: MarketSegment,
+  phase: Exclude<MarketSessionPhase, 'CLOSED'> = 'NORMAL',
+  calendar: TradingCalendar = DEFAULT_TRADING_CALENDAR
+): Date | null {
+  const today = toMarketDate(now);
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset++) {
+    const date = addMarketDays(today, offset);
+    for (const session of getSessionsForDate(date, segment, calendar).sessions) {
+      const start = atMarketTime(date, session.start);
+      if (session.phase === phase && start.getTime() > now.getTime()) {
+        return start;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Session a segment is in at an instant and when that changes next
+ */
+export function getMarketSessionState(
+  now: Date,
+  segment: MarketSegment,
+  calendar: TradingCalendar = DEFAULT_TRADING_CALENDAR
+): MarketSessionState {
+  const tradingDate = toMarketDate(now);
+  const today = getSessionsForDate(tradingDate, segment, calendar);
+
+  const current = today.sessions.find(session =>
+    atMarketTime(tradingDate, session.start).getTime() <= now.getTime()
+    && now.getTime() < atMarketTime(tradingDate, session.end).getTime());
+
+  const state: MarketSessionState = {
+    segment,
+    tradingDate,
+    phase: current?.phase || 'CLOSED',
+    isTradingDay: today.sessions.length > 0,
+    sessionStart: current ? atMarketTime(tradingDate, current.start).toISOString() : null,
+    sessionEnd: current ? atMarketTime(tradingDate, current.end).toISOString() : null,
+    nextPhase: null,
+    nextChangeAt: null,
+    holiday: today.holiday,
+    specialSession: today.specialSession
+  };
+
+  // Next boundary: the end of this session, or the start of a later one
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS && !state.nextChangeAt; offset++) {
+    const date = addMarketDays(tradingDate, offset);
+    const sessions = offset === 0 ? today.sessions : getSessionsForDate(date, segment, calendar).sessions;
+    for (const session of sessions) {
+      const start = atMarketTime(date, session.start).getTime();
+      const end = atMarketTime(date, session.end).getTime();
+      if (start > now.getTime()) {
+        state.nextPhase = session.phase;
+        state.nextChangeAt = new Date(start).toISOString();
+        break;
+      }
+      if (current && end > now.getTime() && session === current) {
+        const following = sessions.find(next => next.start === session.end);
+        state.nextPhase = following?.phase || 'CLOSED';
+        state.nextChangeAt = new Date(end).toISOString();
+        break;
+      }
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Why an order cannot be sent in the current session, or null when it can.
+ * Market orders need a live price: the normal session, or the equity pre-open
+ * call auction. Other order types are left to the broker.
+ */
+export function getOrderSessionError(orderType: string, state: MarketSessionState): string | null {
+  if (orderType !== 'MARKET' && orderType !== 'SL-MARKET') {
+    return null;
+  }
+  if (state.phase === 'NORMAL' || (state.phase === 'PRE_OPEN' && state.segment === 'EQUITY')) {
+    return null;
+  }
+
+  const status = state.phase === 'CLOSED'
+    ? `closed${state.holiday && !state.isTradingDay ? ` (${state.holiday})` : ''}`
+    : `in its ${state.phase.toLowerCase().replace('_', '-')} session`;
+  const next = state.phase === 'CLOSED' && state.nextChangeAt
+    ? ` until ${new Date(state.nextChangeAt).toLocaleString('en-IN', { timeZone: MARKET_TIME_ZONE, dateStyle: 'medium', timeStyle: 'short' })}`
+    : '';
+  const alternative = isAmoWindow(state) ? 'Place it as an after-market order or use a limit order' : 'Use a limit order';
+  return `Market orders cannot be placed while the ${SEGMENT_LABELS[state.segment]} market is ${status}${next}. ${alternative} instead`;
+}
+
+/**
+ * Whether brokers queue after-market orders (AMO) for the segment: from the
+ * post-close session until the next session starts. Queued orders go to the
+ * exchange when it opens.
+ */
+export function isAmoWindow(state: MarketSessionState): boolean {
+  return state.phase === 'POST_CLOSE' || state.phase === 'CLOSED';
+}
+
+/**
+ * Why an after-market order cannot be placed in the current session, or null when it can
+ */
+export function getAmoSessionError(state: MarketSessionState): string | null {
+  if (isAmoWindow(state)) {
+    return null;
+  }
+  const session = state.phase === 'NORMAL' ? 'open' : `in its ${state.phase.toLowerCase().replace('_', '-')} session`;
+  return `After-market orders are only accepted once the ${SEGMENT_LABELS[state.segment]} market has closed; it is currently ${session}. Place a regular order instead`;
+}
+
+const isMarketTime = (value: unknown): value is string =>
+  typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+const isMarketDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T12:00:00Z`).getTime());
+
+function parseSegments(value: unknown, where: string): MarketSegment[] {
+  if (value === undefined) {
+    return EXCHANGE_HOLIDAY_SEGMENTS;
+  }
+  if (!Array.isArray(value) || value.length === 0 || !value.every(segment => MARKET_SEGMENTS.includes(segment))) {
+    throw new Error(`${where}: segments must be a non-empty list of ${MARKET_SEGMENTS.join(', ')}`);
+  }
+  return value;
+}
+
+function parseSessions(value: unknown, where: string): MarketSessionWindow[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`${where}: sessions must be a non-empty list`);
+  }
+  const phases: MarketSessionWindow['phase'][] = ['PRE_OPEN', 'NORMAL', 'CLOSING', 'POST_CLOSE'];
+  const sessions = value.map((session, index) => {
+    if (!phases.includes(session?.phase) || !isMarketTime(session?.start) || !isMarketTime(session?.end) || session.start >= session.end) {
+      throw new Error(`${where}: session ${index + 1} needs a phase and HH:MM start before its end`);
+    }
+    return { phase: session.phase, start: session.start, end: session.end } as MarketSessionWindow;
+  });
+  return sessions.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/**
+ * Add a calendar file to a base calendar. The file may replace the regular
+ * sessions of a segment and add holidays and special sessions; entries for a
+ * date already in the base calendar replace it. Segments default to the
+ * NSE/BSE exchange holiday segments.
+ *
+ *   {
+ *     "sessions": { "COMMODITY": [{ "phase": "NORMAL", "start": "09:00", "end": "23:55" }] },
+ *     "holidays": [{ "date": "2027-01-26", "description": "Republic Day" }],
+ *     "specialSessions": [{ "date": "2026-11-08", "description": "Muhurat Trading",
+ *       "sessions": [{ "phase": "NORMAL", "start": "18:15", "end": "19:15" }] }]
+ *   }
+ */
+export function mergeTradingCalendar(base: TradingCalendar, file: unknown): TradingCalendar {
+  if (!file || typeof file !== 'object' || Array.isArray(file)) {
+    throw new Error('Trading calendar must be a JSON object');
+  }
+  const data = file as Record<string, unknown>;
+
+  const sessions = { ...base.sessions };
+  if (data.sessions !== undefined) {
+    if (!data.sessions || typeof data.sessions !== 'object') {
+      throw new Error('sessions must map segments to their sessions');
+    }
+    for (const [segment, windows] of Object.entries(data.sessions)) {
+      if (!MARKET_SEGMENTS.includes(segment as MarketSegment)) {
+        throw new Error(`sessions: unknown segment ${segment}`);
+      }
+      sessions[segment as MarketSegment] = parseSessions(windows, `sessions.${segment}`);
+    }
+  }
+
+  const list = (key: string): unknown[] => {
+    if (data[key] === undefined) {
+      return [];
+    }
+    if (!Array.isArray(data[key])) {
+      throw new Error(`${key} must be a list`);
+    }
+    return data[key] as unknown[];
+  };
+
+  const holidays: MarketHoliday[] = list('holidays').map((entry: any, index) => {
+    if (!isMarketDate(entry?.date)) {
+      throw new Error(`holidays[${index}]: date must be YYYY-MM-DD`);
+    }
+    return {
+      date: entry.date,
+      description: typeof entry.description === 'string' ? entry.description : 'Exchange holiday',
+      segments: parseSegments(entry.segments, `holidays[${index}]`)
+    };
+  });
+
+  const specialSessions: SpecialSession[] = list('specialSessions').map((entry: any, index) => {
+    if (!isMarketDate(entry?.date)) {
+      throw new Error(`specialSessions[${index}]: date must be YYYY-MM-DD`);
+    }
+    return {
+      date: entry.date,
+      description: typeof entry.description === 'string' ? entry.description : 'Special session',
+      segments: parseSegments(entry.segments, `specialSessions[${index}]`),
+      sessions: parseSessions(entry.sessions, `specialSessions[${index}]`)
+    };
+  });
+
+  const replaced = (entry: { date: string; segments: MarketSegment[] }, added: Array<{ date: string; segments: MarketSegment[] }>) =>
+    added.some(other => other.date === entry.date && other.segments.some(segment => entry.segments.includes(segment)));
+
+  return {
+    sessions,
+    holidays: [...base.holidays.filter(entry => !replaced(entry, holidays)), ...holidays],
+    specialSessions: [...base.specialSessions.filter(entry => !replaced(entry, specialSessions)), ...specialSessions]
+  };
+}
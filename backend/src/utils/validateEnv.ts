@@ -1,3 +1,5 @@
+import { CredentialKeyError, loadMasterKeyring } from './credentialEncryption';
+
 export const validateEnv = (): void => {
   const requiredEnvVars = [
     'JWT_SECRET',
@@ -15,5 +17,17 @@ export const validateEnv = (): void => {
     process.exit(1);
   }
 
+  // Broker credentials must never be encrypted with a missing or default key
+  try {
+    loadMasterKeyring();
+  } catch (error) {
+    if (!(error instanceof CredentialKeyError)) {
+      throw error;
+    }
+    console.error(`❌ ${error.message}`);
+    console.error('\n📝 Generate one with: node -e "console.log(require(\'crypto\').randomBytes(32).toString(\'base64\'))"');
+    process.exit(1);
+  }
+
   console.log('✅ Environment variables validated successfully');
 };
@@ -138,7 +138,7 @@ export class FyersServiceAdapter extends IBrokerService {
         stopPrice: orderRequest.triggerPrice || 0,
         validity: (orderRequest.validity === 'GTD' ? 'DAY' : orderRequest.validity) as 'DAY' | 'IOC',
         disclosedQty: 0,
-        offlineOrder: false,
+        offlineOrder: orderRequest.variety === 'AMO',
         stopLoss: 0,
         takeProfit: 0
       };
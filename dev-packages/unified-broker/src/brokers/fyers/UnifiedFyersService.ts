@@ -13,12 +13,19 @@ import {
   UnifiedAccountInfo,
   UnifiedTokenInfo,
   UnifiedResponseHelper,
+  UnifiedHolding,
+  UnifiedFunds,
+  UnifiedTrade,
+  UnifiedCandle,
+  CandleInterval,
   AccountStatus,
   AuthenticationStep,
   BrokerErrorType
 } from '../../interfaces/UnifiedBrokerResponse';
 
 import { FyersService, FyersCredentials } from '../../services/fyersService';
+import { CANDLE_RESOLUTIONS, normalizeCandles, normalizeFunds, normalizeHoldings, normalizeTrades } from './helpers';
+import { getFyersTickSymbol } from '../../streaming/FyersMarketDataFeed';
 
 export class UnifiedFyersService implements IUnifiedBrokerService {
   private fyersService: FyersService;
@@ -404,7 +411,7 @@ export class UnifiedFyersService implements IUnifiedBrokerService {
       stopPrice: orderRequest.triggerPrice || 0,
       validity: orderRequest.validity || 'DAY',
       disclosedQty: 0,
-      offlineOrder: false
+      offlineOrder: orderRequest.variety === 'AMO'
     };
 
     try {
@@ -585,4 +592,37 @@ export class UnifiedFyersService implements IUnifiedBrokerService {
     }
     return this.fyersService.searchScrip(exchange, query);
   }
+
+  async getHoldings(_accountId: string): Promise<UnifiedHolding[]> {
+    if (!this.isConnected()) {
+      throw new Error('Not connected to Fyers. Please authenticate first.');
+    }
+    return normalizeHoldings(await this.fyersService.getHoldings());
+  }
+
+  async getFunds(_accountId: string): Promise<UnifiedFunds> {
+    if (!this.isConnected()) {
+      throw new Error('Not connected to Fyers. Please authenticate first.');
+    }
+    return normalizeFunds(await this.fyersService.getFunds());
+  }
+
+  async getTradeBook(_accountId: string): Promise<UnifiedTrade[]> {
+    if (!this.isConnected()) {
+      throw new Error('Not connected to Fyers. Please authenticate first.');
+    }
+    return normalizeTrades(await this.fyersService.getTradeBook());
+  }
+
+  async getCandles(symbol: string, exchange: string, interval: CandleInterval, from: Date, to: Date): Promise<UnifiedCandle[]> {
+    if (!this.isConnected()) {
+      throw new Error('Not connected to Fyers. Please authenticate first.');
+    }
+    return normalizeCandles(await this.fyersService.getHistory({
+      symbol: getFyersTickSymbol({ symbol, exchange }),
+      resolution: CANDLE_RESOLUTIONS[interval],
+      rangeFrom: Math.floor(from.getTime() / 1000),
+      rangeTo: Math.floor(to.getTime() / 1000)
+    }));
+  }
 }
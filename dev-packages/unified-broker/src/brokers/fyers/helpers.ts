@@ -4,6 +4,7 @@
  */
 
 import { OrderRequest } from '../../interfaces/IBrokerService';
+import { CandleInterval, UnifiedCandle, UnifiedFunds, UnifiedHolding, UnifiedTrade } from '../../interfaces/UnifiedBrokerResponse';
 import { FyersOrderRequest } from './types';
 
 /**
@@ -20,7 +21,7 @@ export function transformOrderRequest(orderRequest: OrderRequest): FyersOrderReq
     stopPrice: (orderRequest as any).stopPrice || 0,
     validity: mapValidity(orderRequest.validity),
     disclosedQty: 0,
-    offlineOrder: false
+    offlineOrder: orderRequest.variety === 'AMO'
   };
 }
 
@@ -125,3 +126,117 @@ export function formatErrorMessage(response: any): string {
   }
   return 'Unknown error occurred';
 }
+
+/**
+ * Parse Fyers product type to unified format
+ */
+export function parseProductType(fyersProductType: string): string {
+  const mapping: Record<string, string> = {
+    'CNC': 'CNC',
+    'INTRADAY': 'MIS',
+    'MARGIN': 'NRML',
+    'CO': 'CO',
+    'BO': 'BO'
+  };
+  return mapping[fyersProductType] || fyersProductType || 'CNC';
+}
+
+/**
+ * Split a Fyers symbol (e.g. NSE:RELIANCE-EQ) into exchange and symbol
+ */
+export function parseSymbol(fyersSymbol: string): { exchange: string; symbol: string } {
+  const [exchange, symbol] = String(fyersSymbol || '').includes(':')
+    ? String(fyersSymbol).split(':')
+    : ['NSE', fyersSymbol];
+  return { exchange: exchange || 'NSE', symbol: symbol || '' };
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Parse Fyers timestamps ("DD-Mon-YYYY HH:MM:SS", IST) to ISO
+ */
+export function parseTimestamp(value: string | undefined): string | null {
+  const match = /(\d{2})-([A-Za-z]{3})-(\d{4}) (\d{2}):(\d{2}):(\d{2})/.exec(value || '');
+  const month = match ? MONTHS.indexOf(match[2]!) + 1 : 0;
+  if (!match || month === 0) {
+    return null;
+  }
+  const date = new Date(`${match[3]}-${String(month).padStart(2, '0')}-${match[1]}T${match[4]}:${match[5]}:${match[6]}+05:30`);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Normalize Fyers holdings
+ */
+export function normalizeHoldings(holdings: any[]): UnifiedHolding[] {
+  return (holdings || []).map(holding => {
+    const { exchange, symbol } = parseSymbol(holding.symbol);
+    return {
+      symbol,
+      exchange,
+      ...(holding.isin && { isin: holding.isin }),
+      quantity: Number(holding.remainingQuantity ?? holding.quantity) || 0,
+      t1Quantity: Number(holding.qty_t1) || 0,
+      averagePrice: Number(holding.costPrice) || 0,
+      lastPrice: Number(holding.ltp) || 0,
+      pnl: Number(holding.pl) || 0
+    };
+  }).filter(holding => holding.symbol && holding.quantity > 0);
+}
+
+/**
+ * Normalize Fyers fund limits. Each limit is a titled row; ids are stable
+ * across accounts (1 total, 2 utilized, 4 realized P&L, 5 collaterals, 10 available).
+ */
+export function normalizeFunds(fundLimits: any[]): UnifiedFunds {
+  const amount = (id: number): number =>
+    Number((fundLimits || []).find(limit => Number(limit.id) === id)?.equityAmount) || 0;
+
+  return {
+    availableCash: amount(10),
+    usedMargin: amount(2),
+    totalBalance: amount(1),
+    collateral: amount(5),
+    realizedPnl: amount(4)
+  };
+}
+
+/**
+ * Normalize the Fyers trade book
+ */
+export function normalizeTrades(trades: any[]): UnifiedTrade[] {
+  return (trades || []).map(trade => {
+    const { exchange, symbol } = parseSymbol(trade.symbol);
+    return {
+      tradeId: String(trade.tradeNumber || trade.orderNumber),
+      orderId: String(trade.orderNumber),
+      symbol,
+      exchange,
+      action: Number(trade.side) === -1 ? 'SELL' as const : 'BUY' as const,
+      quantity: Number(trade.tradedQty) || 0,
+      price: Number(trade.tradePrice) || 0,
+      productType: parseProductType(trade.productType),
+      tradeTime: parseTimestamp(trade.orderDateTime)
+    };
+  });
+}
+
+export const CANDLE_RESOLUTIONS: Record<CandleInterval, string> = { '1m': '1', '5m': '5', '15m': '15', '1d': 'D' };
+
+/**
+ * Normalize Fyers history candles ([epoch, open, high, low, close, volume])
+ */
+export function normalizeCandles(candles: any[]): UnifiedCandle[] {
+  return (candles || [])
+    .filter(candle => Array.isArray(candle) && candle.length >= 5)
+    .map(candle => ({
+      time: new Date(Number(candle[0]) * 1000).toISOString(),
+      open: Number(candle[1]) || 0,
+      high: Number(candle[2]) || 0,
+      low: Number(candle[3]) || 0,
+      close: Number(candle[4]) || 0,
+      volume: Number(candle[5]) || 0
+    }))
+    .sort((a, b) => a.time.localeCompare(b.time));
+}
@@ -103,6 +103,7 @@ export class ShoonyaServiceAdapter extends IBrokerService {
         price: orderRequest.price || 0,
         triggerPrice: orderRequest.triggerPrice || 0,
         retention: 'DAY' as const,
+        amo: orderRequest.variety === 'AMO' ? 'YES' as const : 'NO' as const,
         remarks: orderRequest.remarks || `Order placed via CopyTrade Pro for account ${orderRequest.accountId || this.accountId}`
       };
 
@@ -14,9 +14,15 @@ import {
   UnifiedAccountInfo,
   UnifiedTokenInfo,
   UnifiedResponseHelper,
+  UnifiedHolding,
+  UnifiedFunds,
+  UnifiedTrade,
+  UnifiedCandle,
+  CandleInterval,
   AccountStatus,
   BrokerErrorType
 } from '../../interfaces/UnifiedBrokerResponse';
+import { CANDLE_MINUTES, formatSymbol, normalizeCandles, normalizeFunds, normalizeHoldings, normalizeTrades } from './helpers';
 
 import { ShoonyaService, ShoonyaCredentials } from '../../services/shoonyaService';
 
@@ -277,7 +283,7 @@ export class UnifiedShoonyaService implements IUnifiedBrokerService {
       price: orderRequest.price || 0,
       triggerPrice: orderRequest.triggerPrice || 0,
       retention: orderRequest.validity || 'DAY',
-      amo: 'NO' as const,
+      amo: orderRequest.variety === 'AMO' ? 'YES' as const : 'NO' as const,
       remarks: orderRequest.remarks || 'Order via CopyTrade Pro'
     };
 
@@ -491,7 +497,7 @@ export class UnifiedShoonyaService implements IUnifiedBrokerService {
       'PENDING': 'PENDING',
       'MODIFY_PENDING': 'PENDING',
       'CANCEL_PENDING': 'PENDING',
-      'AMO_REQ_RECEIVED': 'PENDING'
+      'AMO_REQ_RECEIVED': 'AMO_PLACED'
     };
     
     const unifiedStatus = SHOONYA_STATUS_MAP[shoonyaStatus] || 'PLACED';
@@ -907,4 +913,47 @@ export class UnifiedShoonyaService implements IUnifiedBrokerService {
     // Use searchScrip method from ShoonyaService
     return this.shoonyaService.searchScrip(exchange, query);
   }
+
+  async getHoldings(accountId: string): Promise<UnifiedHolding[]> {
+    if (!this.isConnectedFlag) {
+      throw new Error('Not connected to Shoonya. Please authenticate first.');
+    }
+    return normalizeHoldings(await this.shoonyaService.getHoldings(accountId));
+  }
+
+  async getFunds(accountId: string): Promise<UnifiedFunds> {
+    if (!this.isConnectedFlag) {
+      throw new Error('Not connected to Shoonya. Please authenticate first.');
+    }
+    return normalizeFunds(await this.shoonyaService.getLimits(accountId));
+  }
+
+  async getTradeBook(accountId: string): Promise<UnifiedTrade[]> {
+    if (!this.isConnectedFlag) {
+      throw new Error('Not connected to Shoonya. Please authenticate first.');
+    }
+    return normalizeTrades(await this.shoonyaService.getTradeBook(accountId));
+  }
+
+  async getCandles(symbol: string, exchange: string, interval: CandleInterval, from: Date, to: Date): Promise<UnifiedCandle[]> {
+    if (!this.isConnectedFlag) {
+      throw new Error('Not connected to Shoonya. Please authenticate first.');
+    }
+
+    const tradingSymbol = formatSymbol(symbol, exchange);
+    const start = Math.floor(from.getTime() / 1000);
+    const end = Math.floor(to.getTime() / 1000);
+    if (interval === '1d') {
+      return normalizeCandles(await this.shoonyaService.getDailyChartData(`${exchange}:${tradingSymbol}`, start, end));
+    }
+
+    // Intraday series are requested by instrument token
+    const search = await this.shoonyaService.searchScrip(exchange, tradingSymbol);
+    const values: any[] = Array.isArray(search?.values) ? search.values : [];
+    const instrument = values.find(value => value.tsym === tradingSymbol) || values[0];
+    if (!instrument?.token) {
+      return [];
+    }
+    return normalizeCandles(await this.shoonyaService.getTimePriceSeries(exchange, String(instrument.token), start, end, CANDLE_MINUTES[interval]));
+  }
 }
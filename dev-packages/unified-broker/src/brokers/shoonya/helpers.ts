@@ -4,6 +4,7 @@
  */
 
 import { OrderRequest } from '../../interfaces/IBrokerService';
+import { CandleInterval, UnifiedCandle, UnifiedFunds, UnifiedHolding, UnifiedTrade } from '../../interfaces/UnifiedBrokerResponse';
 import { ShoonyaOrderRequest } from './types';
 
 /**
@@ -21,6 +22,7 @@ export function transformOrderRequest(orderRequest: OrderRequest, accountId: str
     trantype: orderRequest.action,
     prctyp: mapOrderType(orderRequest.orderType),
     ret: mapValidity(orderRequest.validity),
+    ...(orderRequest.variety === 'AMO' && { amo: 'Yes' }),
     ordersource: 'API',
     remarks: orderRequest.remarks || ''
   };
@@ -121,3 +123,145 @@ export function formatErrorMessage(response: any): string {
   }
   return 'Unknown error occurred';
 }
+
+/**
+ * Parse Shoonya product type to unified format
+ */
+export function parseProductType(shoonyaProductType: string): string {
+  const mapping: Record<string, string> = {
+    'C': 'CNC',
+    'I': 'MIS',
+    'M': 'NRML',
+    'H': 'CO',
+    'B': 'BO'
+  };
+  return mapping[shoonyaProductType] || shoonyaProductType || 'CNC';
+}
+
+const toNumber = (value: any): number => parseFloat(value) || 0;
+
+/**
+ * Parse Shoonya timestamps ("HH:MM:SS DD-MM-YYYY" or "DD-MM-YYYY HH:MM:SS", IST) to ISO
+ */
+export function parseTimestamp(value: string | undefined): string | null {
+  const text = (value || '').trim();
+  const timeFirst = /^(\d{2}):(\d{2}):(\d{2}) (\d{2})-(\d{2})-(\d{4})$/.exec(text);
+  const dateFirst = /^(\d{2})-(\d{2})-(\d{4}) (\d{2}):(\d{2}):(\d{2})$/.exec(text);
+
+  // [year, month, day, hours, minutes, seconds]
+  const parts = timeFirst
+    ? [timeFirst[6], timeFirst[5], timeFirst[4], timeFirst[1], timeFirst[2], timeFirst[3]]
+    : dateFirst
+      ? [dateFirst[3], dateFirst[2], dateFirst[1], dateFirst[4], dateFirst[5], dateFirst[6]]
+      : null;
+  if (!parts) {
+    return null;
+  }
+
+  const [year, month, day, hours, minutes, seconds] = parts;
+  const date = new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}+05:30`);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Normalize the Shoonya Holdings response. Shoonya answers with an error
+ * object instead of an empty array when there are no holdings.
+ */
+export function normalizeHoldings(response: any): UnifiedHolding[] {
+  if (!Array.isArray(response)) {
+    return [];
+  }
+
+  return response
+    .filter(holding => holding && holding.stat !== 'Not_Ok' && Array.isArray(holding.exch_tsym))
+    .map(holding => {
+      const instrument = holding.exch_tsym.find((item: any) => item.exch === 'NSE') || holding.exch_tsym[0] || {};
+      const t1Quantity = toNumber(holding.btstqty);
+      // Same net quantity formula as the Shoonya web terminal
+      const quantity = t1Quantity + toNumber(holding.holdqty) + toNumber(holding.brkcolqty) + toNumber(holding.unplgdqty)
+        + toNumber(holding.benqty) + Math.max(toNumber(holding.npoadqty), toNumber(holding.dpqty)) - toNumber(holding.usedqty);
+
+      return {
+        symbol: instrument.tsym || '',
+        exchange: instrument.exch || 'NSE',
+        ...(instrument.isin && { isin: instrument.isin }),
+        quantity,
+        t1Quantity,
+        averagePrice: toNumber(holding.upldprc),
+        lastPrice: 0,
+        pnl: 0
+      };
+    })
+    .filter(holding => holding.symbol && holding.quantity > 0);
+}
+
+/**
+ * Normalize the Shoonya Limits response
+ */
+export function normalizeFunds(response: any): UnifiedFunds {
+  if (!response || response.stat !== 'Ok') {
+    throw new Error(formatErrorMessage(response || {}));
+  }
+
+  const totalBalance = toNumber(response.cash) + toNumber(response.payin) - toNumber(response.payout);
+  const collateral = toNumber(response.brkcollamt);
+  const usedMargin = toNumber(response.marginused);
+
+  return {
+    availableCash: totalBalance + collateral - usedMargin,
+    usedMargin,
+    totalBalance,
+    collateral,
+    realizedPnl: toNumber(response.rpnl)
+  };
+}
+
+/**
+ * Normalize the Shoonya TradeBook response
+ */
+export function normalizeTrades(response: any): UnifiedTrade[] {
+  if (!Array.isArray(response)) {
+    return [];
+  }
+
+  return response
+    .filter(trade => trade && trade.stat !== 'Not_Ok' && trade.norenordno)
+    .map(trade => ({
+      tradeId: String(trade.flid || trade.norenordno),
+      orderId: String(trade.norenordno),
+      symbol: trade.tsym || '',
+      exchange: trade.exch || 'NSE',
+      action: trade.trantype === 'S' ? 'SELL' as const : 'BUY' as const,
+      quantity: toNumber(trade.flqty),
+      price: toNumber(trade.flprc),
+      productType: parseProductType(trade.prd),
+      tradeTime: parseTimestamp(trade.fltm || trade.norentm)
+    }));
+}
+
+// TPSeries interval in minutes; daily bars come from EODChartData instead
+export const CANDLE_MINUTES: Record<Exclude<CandleInterval, '1d'>, string> = { '1m': '1', '5m': '5', '15m': '15' };
+
+/**
+ * Normalize TPSeries / EODChartData bars. TPSeries returns objects newest
+ * first, EODChartData JSON strings; both carry the bar start as `ssboe`.
+ */
+export function normalizeCandles(response: any): UnifiedCandle[] {
+  if (!Array.isArray(response)) {
+    return [];
+  }
+
+  return response
+    .map(bar => typeof bar === 'string' ? JSON.parse(bar) : bar)
+    .filter(bar => bar && bar.stat !== 'Not_Ok' && (bar.ssboe || bar.time))
+    .map(bar => ({
+      time: bar.ssboe ? new Date(Number(bar.ssboe) * 1000).toISOString() : parseTimestamp(bar.time) || '',
+      open: toNumber(bar.into),
+      high: toNumber(bar.inth),
+      low: toNumber(bar.intl),
+      close: toNumber(bar.intc),
+      volume: toNumber(bar.intv)
+    }))
+    .filter(bar => bar.time !== '')
+    .sort((a, b) => a.time.localeCompare(b.time));
+}
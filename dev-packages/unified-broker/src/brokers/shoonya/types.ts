@@ -36,6 +36,7 @@ export interface ShoonyaOrderRequest {
   trantype: string;
   prctyp: string;
   ret: string;
+  amo?: string;
   ordersource?: string;
   remarks?: string;
 }
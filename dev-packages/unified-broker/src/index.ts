@@ -12,6 +12,9 @@ export * from './interfaces/UnifiedBrokerResponse';
 // Unified broker factory
 export * from './factories/UnifiedBrokerFactory';
 
+// Push order-update streams
+export * from './streaming';
+
 // Registry system for plugin management
 import { BrokerRegistry, BrokerPlugin } from './registry/BrokerRegistry';
 export { BrokerRegistry, BrokerPlugin };
@@ -18,6 +18,9 @@ export interface LoginResponse {
   // Broker-specific fields can be added to data
 }
 
+// AMO (after-market order) is queued by the broker and sent to the exchange at the next session
+export type OrderVariety = 'REGULAR' | 'AMO';
+
 export interface OrderRequest {
   symbol: string;
   action: 'BUY' | 'SELL';
@@ -28,6 +31,7 @@ export interface OrderRequest {
   exchange: string;
   productType: string;
   validity: 'DAY' | 'IOC' | 'GTD';
+  variety?: OrderVariety; // REGULAR when omitted
   remarks?: string;
   accountId?: string; // For broker-specific account identification
 }
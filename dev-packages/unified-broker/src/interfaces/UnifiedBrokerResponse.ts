@@ -115,6 +115,64 @@ export interface UnifiedValidationResponse {
   tokenInfo?: UnifiedTokenInfo;
 }
 
+/**
+ * Standardized Holding
+ * Delivery (demat) holding reported by the broker
+ */
+export interface UnifiedHolding {
+  symbol: string;
+  exchange: string;
+  isin?: string;
+  quantity: number;
+  t1Quantity: number; // bought recently, not yet settled into demat
+  averagePrice: number;
+  lastPrice: number; // 0 when the broker does not report it
+  pnl: number;
+}
+
+/**
+ * Standardized Funds
+ * Cash and margin limits of the trading account
+ */
+export interface UnifiedFunds {
+  availableCash: number;
+  usedMargin: number;
+  totalBalance: number;
+  collateral: number;
+  realizedPnl: number;
+}
+
+/**
+ * Standardized Trade
+ * Single fill from the broker's trade book
+ */
+export interface UnifiedTrade {
+  tradeId: string;
+  orderId: string;
+  symbol: string;
+  exchange: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  productType: string;
+  tradeTime: string | null;
+}
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1d';
+
+/**
+ * Standardized Candle
+ * One OHLCV bar; `time` is the bar's start
+ */
+export interface UnifiedCandle {
+  time: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
 /**
  * Enhanced Broker Service Interface
  * All broker modules must implement this interface
@@ -147,6 +205,14 @@ export interface IUnifiedBrokerService {
   getPositions(accountId: string): Promise<any>;
   getQuote(symbol: string, exchange: string): Promise<any>;
   searchSymbols(query: string, exchange: string): Promise<any>;
+
+  // Account data, normalized across brokers
+  getHoldings(accountId: string): Promise<UnifiedHolding[]>;
+  getFunds(accountId: string): Promise<UnifiedFunds>;
+  getTradeBook(accountId: string): Promise<UnifiedTrade[]>;
+
+  // Historical bars, oldest first
+  getCandles(symbol: string, exchange: string, interval: CandleInterval, from: Date, to: Date): Promise<UnifiedCandle[]>;
 }
 
 /**
@@ -272,6 +272,51 @@ export class FyersService {
     }
   }
 
+  // Get demat holdings using official API
+  async getHoldings(): Promise<any[]> {
+    if (!this.accessToken) {
+      throw new Error('Not authenticated. Please login first.');
+    }
+
+    try {
+      const response = await this.fyers.get_holdings();
+      return response.holdings || [];
+    } catch (error: any) {
+      console.error('🚨 Failed to get holdings:', error);
+      throw new Error(error.message || 'Failed to get holdings');
+    }
+  }
+
+  // Get fund limits using official API
+  async getFunds(): Promise<any[]> {
+    if (!this.accessToken) {
+      throw new Error('Not authenticated. Please login first.');
+    }
+
+    try {
+      const response = await this.fyers.get_funds();
+      return response.fund_limit || [];
+    } catch (error: any) {
+      console.error('🚨 Failed to get funds:', error);
+      throw new Error(error.message || 'Failed to get funds');
+    }
+  }
+
+  // Get trade book using official API
+  async getTradeBook(): Promise<any[]> {
+    if (!this.accessToken) {
+      throw new Error('Not authenticated. Please login first.');
+    }
+
+    try {
+      const response = await this.fyers.get_tradebook();
+      return response.tradeBook || [];
+    } catch (error: any) {
+      console.error('🚨 Failed to get trade book:', error);
+      throw new Error(error.message || 'Failed to get trade book');
+    }
+  }
+
   // Search symbols using official API
   async searchScrip(exchange: string, symbol: string): Promise<any[]> {
     try {
@@ -300,6 +345,28 @@ export class FyersService {
     }
   }
 
+  // Get historical candles using official API
+  async getHistory(params: { symbol: string; resolution: string; rangeFrom: number; rangeTo: number }): Promise<any[]> {
+    if (!this.accessToken) {
+      throw new Error('Not authenticated. Please login first.');
+    }
+
+    try {
+      const response = await this.fyers.getHistory({
+        symbol: params.symbol,
+        resolution: params.resolution,
+        date_format: '0',
+        range_from: String(params.rangeFrom),
+        range_to: String(params.rangeTo),
+        cont_flag: '1'
+      });
+      return response.candles || [];
+    } catch (error: any) {
+      console.error('🚨 Failed to get history:', error);
+      throw new Error(error.message || 'Failed to get history');
+    }
+  }
+
   // Get profile using official API
   async getProfile(): Promise<any> {
     if (!this.accessToken) {
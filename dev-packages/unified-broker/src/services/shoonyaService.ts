@@ -229,6 +229,8 @@ export class ShoonyaService {
         remarks: orderData.remarks || '',
         // Add additional fields that might be required
         ordersource: 'API',
+        // Noren only queues the order for the next session when amo is present
+        ...(orderData.amo === 'YES' && { amo: 'Yes' }),
       };
 
       // Add trigger price for stop loss orders
@@ -400,6 +402,61 @@ export class ShoonyaService {
     }
   }
 
+  async getHoldings(userId: string): Promise<any> {
+    if (!this.sessionToken) {
+      throw new Error('Not logged in to Shoonya. Please login first.');
+    }
+
+    try {
+      const response = await this.makeAuthenticatedRequest('Holdings', {
+        uid: userId,
+        actid: userId,
+        prd: 'C',
+      });
+
+      return response;
+    } catch (error: any) {
+      console.error('🚨 Shoonya get holdings error:', error.message);
+      throw error;
+    }
+  }
+
+  async getLimits(userId: string): Promise<any> {
+    if (!this.sessionToken) {
+      throw new Error('Not logged in to Shoonya. Please login first.');
+    }
+
+    try {
+      const response = await this.makeAuthenticatedRequest('Limits', {
+        uid: userId,
+        actid: userId,
+      });
+
+      return response;
+    } catch (error: any) {
+      console.error('🚨 Shoonya get limits error:', error.message);
+      throw error;
+    }
+  }
+
+  async getTradeBook(userId: string): Promise<any> {
+    if (!this.sessionToken) {
+      throw new Error('Not logged in to Shoonya. Please login first.');
+    }
+
+    try {
+      const response = await this.makeAuthenticatedRequest('TradeBook', {
+        uid: userId,
+        actid: userId,
+      });
+
+      return response;
+    } catch (error: any) {
+      console.error('🚨 Shoonya get trade book error:', error.message);
+      throw error;
+    }
+  }
+
   async searchScrip(exchange: string, searchText: string): Promise<any> {
     if (!this.sessionToken) {
       throw new Error('Not logged in to Shoonya. Please login first.');
@@ -453,6 +510,49 @@ export class ShoonyaService {
     }
   }
 
+  // Intraday bars for an instrument token; times are epoch seconds
+  async getTimePriceSeries(exchange: string, token: string, startTime: number, endTime: number, interval: string): Promise<any> {
+    if (!this.sessionToken) {
+      throw new Error('Not logged in to Shoonya. Please login first.');
+    }
+
+    try {
+      const response = await this.makeAuthenticatedRequest('TPSeries', {
+        uid: this.userId,
+        exch: exchange,
+        token,
+        st: String(startTime),
+        et: String(endTime),
+        intrv: interval,
+      });
+
+      return response;
+    } catch (error: any) {
+      console.error('🚨 Shoonya time price series error:', error.message);
+      throw error;
+    }
+  }
+
+  // Daily bars for an EXCHANGE:TRADINGSYMBOL; times are epoch seconds
+  async getDailyChartData(symbol: string, from: number, to: number): Promise<any> {
+    if (!this.sessionToken) {
+      throw new Error('Not logged in to Shoonya. Please login first.');
+    }
+
+    try {
+      const response = await this.makeAuthenticatedRequest('EODChartData', {
+        sym: symbol,
+        from: String(from),
+        to: String(to),
+      });
+
+      return response;
+    } catch (error: any) {
+      console.error('🚨 Shoonya daily chart data error:', error.message);
+      throw error;
+    }
+  }
+
   isLoggedIn(): boolean {
     return this.sessionToken !== null;
   }
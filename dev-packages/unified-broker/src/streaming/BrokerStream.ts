@@ -0,0 +1,239 @@
+/**
+ * Broker Stream
+ * Base class for broker websockets. Handles the connection lifecycle:
+ * authentication, heartbeats, reconnects with backoff and session expiry.
+ * Subclasses only speak their message format and handle their data messages.
+ *
+ * Events:
+ * - 'stateChange' (BrokerStreamState)
+ * - 'sessionExpired' (reason) - the stream stays down until connect() is
+ *   called again with a fresh session
+ * - 'error' (Error)
+ */
+
+import { EventEmitter } from 'events';
+import {
+  BrokerStreamOptions,
+  BrokerStreamState,
+  StreamControlMessage,
+  StreamSession,
+  StreamSocket
+} from './types';
+
+const DEFAULT_RECONNECT_DELAY_MS = 1000;
+const DEFAULT_MAX_RECONNECT_DELAY_MS = 30000;
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 10;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 30000;
+
+export abstract class BrokerStream<TData> extends EventEmitter {
+  protected session: StreamSession | null = null;
+  private socket: StreamSocket | null = null;
+  private state: BrokerStreamState = 'IDLE';
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  constructor(readonly brokerName: string, protected readonly options: BrokerStreamOptions) {
+    super();
+  }
+
+  protected abstract getDefaultUrl(): string;
+
+  /**
+   * Messages sent once the socket is open: login and subscription
+   */
+  protected abstract getOpenMessages(session: StreamSession): string[];
+
+  protected abstract parseMessage(message: any): Array<StreamControlMessage | TData>;
+
+  protected abstract handleData(data: TData): void;
+
+  /**
+   * Called on every successful (re)authentication, e.g. to restore subscriptions
+   */
+  protected onAuthenticated(): void {}
+
+  protected getConnectOptions(_session: StreamSession): { headers?: Record<string, string> } | undefined {
+    return undefined;
+  }
+
+  protected getHeartbeatMessage(): string | null {
+    return null;
+  }
+
+  getState(): BrokerStreamState {
+    return this.state;
+  }
+
+  isConnected(): boolean {
+    return this.state === 'CONNECTED';
+  }
+
+  /**
+   * Open the stream, or reopen it with a new session after expiry
+   */
+  connect(session: StreamSession): void {
+    this.session = session;
+    this.reconnectAttempts = 0;
+    this.clearTimers();
+    this.closeSocket();
+    this.openSocket();
+  }
+
+  /**
+   * Close for good; no reconnects
+   */
+  close(): void {
+    this.clearTimers();
+    this.setState('CLOSED');
+    this.closeSocket();
+  }
+
+  protected send(message: string): void {
+    this.socket?.send(message);
+  }
+
+  private openSocket(): void {
+    if (!this.session) {
+      return;
+    }
+
+    this.setState(this.reconnectAttempts > 0 ? 'RECONNECTING' : 'CONNECTING');
+    const session = this.session;
+    let socket: StreamSocket;
+    try {
+      socket = this.options.socketFactory(this.options.url || this.getDefaultUrl(), this.getConnectOptions(session));
+    } catch (error: any) {
+      this.emit('error', error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.on('open', () => {
+      if (this.socket !== socket) {
+        return;
+      }
+      for (const message of this.getOpenMessages(session)) {
+        socket.send(message);
+      }
+    });
+
+    socket.on('message', (data: any) => {
+      if (this.socket === socket) {
+        this.handleMessage(data);
+      }
+    });
+
+    socket.on('error', (error: Error) => {
+      if (this.socket === socket) {
+        this.emit('error', error);
+      }
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) {
+        return;
+      }
+      this.socket = null;
+      this.stopHeartbeat();
+      if (this.state !== 'CLOSED' && this.state !== 'SESSION_EXPIRED') {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private handleMessage(data: any): void {
+    let message: any;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      // Heartbeat replies and other plain text frames
+      return;
+    }
+
+    for (const parsed of this.parseMessage(message)) {
+      const control = parsed as StreamControlMessage;
+      if (control.type === 'AUTHENTICATED') {
+        this.reconnectAttempts = 0;
+        this.setState('CONNECTED');
+        this.startHeartbeat();
+        this.onAuthenticated();
+      } else if (control.type === 'SESSION_EXPIRED') {
+        this.clearTimers();
+        this.setState('SESSION_EXPIRED');
+        this.closeSocket();
+        this.emit('sessionExpired', control.reason);
+      } else {
+        this.handleData(parsed as TData);
+      }
+    }
+  }
+
+  private scheduleReconnect(): void {
+    const maxAttempts = this.options.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS;
+    if (this.reconnectAttempts >= maxAttempts) {
+      this.setState('CLOSED');
+      this.emit('error', new Error(`${this.brokerName} order stream gave up after ${maxAttempts} reconnect attempts`));
+      return;
+    }
+
+    const baseDelay = this.options.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY_MS;
+    const delay = Math.min(baseDelay * 2 ** this.reconnectAttempts, this.options.maxReconnectDelayMs ?? DEFAULT_MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+    this.setState('RECONNECTING');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
+    }, delay);
+  }
+
+  private startHeartbeat(): void {
+    const heartbeat = this.getHeartbeatMessage();
+    this.stopHeartbeat();
+    if (!heartbeat) {
+      return;
+    }
+    this.heartbeatTimer = setInterval(() => {
+      try {
+        this.socket?.send(heartbeat);
+      } catch (error: any) {
+        this.emit('error', error);
+      }
+    }, this.options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private clearTimers(): void {
+    this.stopHeartbeat();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private closeSocket(): void {
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      try {
+        socket.close();
+      } catch {
+        // Already closed
+      }
+    }
+  }
+
+  private setState(state: BrokerStreamState): void {
+    if (this.state !== state) {
+      this.state = state;
+      this.emit('stateChange', state);
+    }
+  }
+}
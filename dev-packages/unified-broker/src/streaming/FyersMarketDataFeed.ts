@@ -0,0 +1,274 @@
+/**
+ * Fyers Market Data Feed
+ * Ticks from the Fyers data socket. Its binary protocol is decoded by the
+ * fyers-api-v3 SDK, so this feed wraps the SDK socket rather than opening
+ * one itself. Symbol feeds ('sf'/'if') and depth ('dp') arrive as separate
+ * messages and are merged per symbol.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  BrokerStreamState,
+  DepthLevel,
+  MarketDataFeed,
+  MarketTick,
+  StreamSession,
+  TickInstrument,
+  TickMode
+} from './types';
+
+const DEPTH_LEVELS = 5;
+
+/**
+ * The parts of the SDK data socket the feed uses
+ */
+export interface FyersDataSocketLike {
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  connect(): void;
+  close(): void;
+  autoreconnect(retries?: number): void;
+  subscribe(symbols: string[], isDepth?: boolean): void;
+  unsubscribe(symbols: string[], isDepth?: boolean): void;
+}
+
+export type FyersDataSocketFactory = (authorization: string) => FyersDataSocketLike;
+
+const sdkSocketFactory: FyersDataSocketFactory = (authorization) => {
+  const { fyersDataSocket } = require('fyers-api-v3');
+  return fyersDataSocket.getInstance(authorization, '', false);
+};
+
+interface Subscription {
+  instrument: TickInstrument;
+  mode: TickMode;
+}
+
+const toNumber = (value: any): number | undefined => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+function getDepthSide(quote: any, side: 'bid' | 'ask'): DepthLevel[] {
+  const levels: DepthLevel[] = [];
+  for (let level = 1; level <= DEPTH_LEVELS; level++) {
+    const price = toNumber(quote[`${side}_price${level}`]);
+    if (price === undefined) {
+      continue;
+    }
+    const orders = toNumber(quote[`${side}_order${level}`]);
+    levels.push({
+      price,
+      quantity: toNumber(quote[`${side}_size${level}`]) || 0,
+      ...(orders !== undefined && { orders })
+    });
+  }
+  return levels;
+}
+
+/**
+ * Fyers symbol for an instrument: its token when given, else NSE equities
+ * take the -EQ series suffix
+ */
+export function getFyersTickSymbol(instrument: TickInstrument): string {
+  if (instrument.token) {
+    return instrument.token;
+  }
+  const series = instrument.exchange === 'NSE' && !instrument.symbol.includes('-') ? '-EQ' : '';
+  return `${instrument.exchange}:${instrument.symbol}${series}`;
+}
+
+/**
+ * Build a tick from a merged Fyers quote, or null before the first price
+ */
+export function parseFyersTick(quote: any, instrument: TickInstrument, mode: TickMode): MarketTick | null {
+  const lastPrice = toNumber(quote.ltp);
+  if (lastPrice === undefined) {
+    return null;
+  }
+
+  const close = toNumber(quote.prev_close_price);
+  const change = toNumber(quote.ch) ?? (close ? lastPrice - close : 0);
+  const open = toNumber(quote.open_price);
+  const high = toNumber(quote.high_price);
+  const low = toNumber(quote.low_price);
+  const averagePrice = toNumber(quote.avg_trade_price);
+  const feedTime = parseInt(quote.exch_feed_time || quote.last_traded_time);
+
+  return {
+    brokerName: 'fyers',
+    exchange: instrument.exchange,
+    symbol: instrument.symbol,
+    lastPrice,
+    change,
+    changePercent: toNumber(quote.chp) ?? (close ? (change / close) * 100 : 0),
+    volume: toNumber(quote.vol_traded_today) || 0,
+    ...(open !== undefined && { open }),
+    ...(high !== undefined && { high }),
+    ...(low !== undefined && { low }),
+    ...(close !== undefined && { close }),
+    ...(averagePrice !== undefined && { averagePrice }),
+    ...(mode === 'DEPTH' && { depth: { bids: getDepthSide(quote, 'bid'), asks: getDepthSide(quote, 'ask') } }),
+    timestamp: feedTime ? new Date(feedTime * 1000) : new Date()
+  };
+}
+
+export class FyersMarketDataFeed extends EventEmitter implements MarketDataFeed {
+  readonly brokerName = 'fyers';
+  private socket: FyersDataSocketLike | null = null;
+  private state: BrokerStreamState = 'IDLE';
+  private subscriptions: Map<string, Subscription> = new Map();
+  private quotes: Map<string, any> = new Map();
+
+  constructor(private socketFactory: FyersDataSocketFactory = sdkSocketFactory) {
+    super();
+  }
+
+  getState(): BrokerStreamState {
+    return this.state;
+  }
+
+  isConnected(): boolean {
+    return this.state === 'CONNECTED';
+  }
+
+  connect(session: StreamSession): void {
+    if (!session.appId) {
+      this.emit('error', new Error('Fyers data socket needs the app id'));
+      return;
+    }
+
+    this.closeSocket();
+    this.setState('CONNECTING');
+    const socket = this.socketFactory(`${session.appId}:${session.accessToken}`);
+    this.socket = socket;
+
+    socket.on('connect', () => {
+      if (this.socket !== socket) {
+        return;
+      }
+      this.setState('CONNECTED');
+      // Restore subscriptions; the SDK replays them itself only within a session
+      for (const mode of ['LTP', 'DEPTH'] as TickMode[]) {
+        const symbols = this.getSymbols(mode);
+        if (symbols.length > 0) {
+          socket.subscribe(symbols, mode === 'DEPTH');
+        }
+      }
+    });
+
+    socket.on('message', (message: any) => {
+      if (this.socket === socket) {
+        this.handleMessage(message);
+      }
+    });
+
+    socket.on('error', (error: any) => {
+      if (this.socket !== socket) {
+        return;
+      }
+      if (/token/i.test(error?.message || String(error))) {
+        this.closeSocket();
+        this.setState('SESSION_EXPIRED');
+        this.emit('sessionExpired', error?.message || 'Fyers token rejected');
+        return;
+      }
+      this.emit('error', error instanceof Error ? error : new Error(error?.message || String(error)));
+    });
+
+    socket.on('close', () => {
+      if (this.socket === socket && this.state !== 'CLOSED') {
+        // The SDK reconnects on its own
+        this.setState('RECONNECTING');
+      }
+    });
+
+    socket.autoreconnect();
+    socket.connect();
+  }
+
+  close(): void {
+    this.setState('CLOSED');
+    this.closeSocket();
+  }
+
+  subscribe(instruments: TickInstrument[], mode: TickMode): void {
+    const added: string[] = [];
+    for (const instrument of instruments) {
+      const symbol = getFyersTickSymbol(instrument);
+      const existing = this.subscriptions.get(symbol);
+      if (existing?.mode === mode) {
+        continue;
+      }
+      if (existing?.mode === 'DEPTH' && this.isConnected()) {
+        this.socket?.unsubscribe([symbol], true);
+      }
+      this.subscriptions.set(symbol, { instrument, mode });
+      added.push(symbol);
+    }
+
+    if (added.length > 0 && this.isConnected()) {
+      this.socket?.subscribe(added, mode === 'DEPTH');
+    }
+  }
+
+  unsubscribe(instruments: TickInstrument[]): void {
+    for (const instrument of instruments) {
+      const symbol = getFyersTickSymbol(instrument);
+      const existing = this.subscriptions.get(symbol);
+      if (!existing) {
+        continue;
+      }
+      if (this.isConnected()) {
+        this.socket?.unsubscribe([symbol], existing.mode === 'DEPTH');
+      }
+      this.subscriptions.delete(symbol);
+      this.quotes.delete(symbol);
+    }
+  }
+
+  private handleMessage(message: any): void {
+    if (message?.s === 'error' && /token/i.test(message.message || '')) {
+      this.closeSocket();
+      this.setState('SESSION_EXPIRED');
+      this.emit('sessionExpired', message.message);
+      return;
+    }
+
+    const subscription = message?.symbol ? this.subscriptions.get(message.symbol) : undefined;
+    if (!subscription) {
+      return;
+    }
+
+    const quote = { ...this.quotes.get(message.symbol), ...message };
+    this.quotes.set(message.symbol, quote);
+    const tick = parseFyersTick(quote, subscription.instrument, subscription.mode);
+    if (tick) {
+      this.emit('tick', tick);
+    }
+  }
+
+  private getSymbols(mode: TickMode): string[] {
+    return Array.from(this.subscriptions.entries())
+      .filter(([, subscription]) => subscription.mode === mode)
+      .map(([symbol]) => symbol);
+  }
+
+  private closeSocket(): void {
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      try {
+        socket.close();
+      } catch {
+        // Already closed
+      }
+    }
+  }
+
+  private setState(state: BrokerStreamState): void {
+    if (this.state !== state) {
+      this.state = state;
+      this.emit('stateChange', state);
+    }
+  }
+}
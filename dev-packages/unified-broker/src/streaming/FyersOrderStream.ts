@@ -0,0 +1,93 @@
+/**
+ * Fyers Order Stream
+ * Order updates from the Fyers v3 trade socket. The socket authorises with
+ * an "appId:accessToken" header; updates arrive under 'orders'.
+ */
+
+import { OrderUpdateStream } from './OrderUpdateStream';
+import { BrokerStreamOptions, StreamMessage, StreamOrderStatus, StreamSession } from './types';
+
+const FYERS_WS_URL = 'wss://socket.fyers.in/trade/v3';
+
+// Error codes Fyers uses for invalid or expired tokens
+const FYERS_AUTH_ERROR_CODES = [-8, -15, -16, -17];
+
+function mapFyersStatus(status: number, filledQuantity: number): StreamOrderStatus {
+  switch (status) {
+    case 1:
+      return 'CANCELLED';
+    case 2:
+      return 'EXECUTED';
+    case 5:
+      return 'REJECTED';
+    case 4:
+      // In transit to the exchange
+      return 'PENDING';
+    default:
+      // 6 = pending at the exchange
+      return filledQuantity > 0 ? 'PARTIALLY_FILLED' : 'PLACED';
+  }
+}
+
+export class FyersOrderStream extends OrderUpdateStream {
+  constructor(options: BrokerStreamOptions) {
+    super('fyers', options);
+  }
+
+  protected getDefaultUrl(): string {
+    return FYERS_WS_URL;
+  }
+
+  protected getConnectOptions(session: StreamSession): { headers: Record<string, string> } {
+    return { headers: { authorization: `${session.appId || ''}:${session.accessToken}` } };
+  }
+
+  protected getOpenMessages(): string[] {
+    return [JSON.stringify({ T: 'SUB_ORD', SLIST: ['orders'], SUB_T: 1 })];
+  }
+
+  protected getHeartbeatMessage(): string {
+    return 'ping';
+  }
+
+  protected parseMessage(message: any): StreamMessage[] {
+    if (message?.s === 'error') {
+      const code = Number(message.code);
+      if (FYERS_AUTH_ERROR_CODES.includes(code) || /token/i.test(message.message || '')) {
+        return [{ type: 'SESSION_EXPIRED', reason: message.message || 'Fyers token rejected' }];
+      }
+      return [];
+    }
+
+    if (message?.s !== 'ok') {
+      return [];
+    }
+
+    const order = message.orders;
+    if (!order) {
+      // Subscription acknowledged
+      return [{ type: 'AUTHENTICATED' }];
+    }
+    if (!order.id) {
+      return [];
+    }
+
+    const filledQuantity = Number(order.filledQty) || 0;
+    const averagePrice = Number(order.tradedPrice) || 0;
+    const status = mapFyersStatus(Number(order.status), filledQuantity);
+    return [{
+      type: 'ORDER_UPDATE',
+      update: {
+        brokerOrderId: String(order.id),
+        status,
+        executionData: {
+          ...(filledQuantity > 0 && { executedQuantity: filledQuantity }),
+          ...(averagePrice > 0 && { averagePrice }),
+          ...(status === 'REJECTED' && order.message && { rejectionReason: order.message }),
+          ...(order.orderDateTime && { updateTime: order.orderDateTime })
+        },
+        raw: message
+      }
+    }];
+  }
+}
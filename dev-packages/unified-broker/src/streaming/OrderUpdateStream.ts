@@ -0,0 +1,23 @@
+/**
+ * Order Update Stream
+ * Base class for broker order-update websockets. Broker subclasses parse
+ * their order messages into ORDER_UPDATE messages.
+ *
+ * Events, besides those of BrokerStream:
+ * - 'orderUpdate' (OrderUpdateEvent)
+ */
+
+import { BrokerStream } from './BrokerStream';
+import { OrderStreamMessage } from './types';
+
+export abstract class OrderUpdateStream extends BrokerStream<OrderStreamMessage> {
+  protected handleData(data: OrderStreamMessage): void {
+    if (this.session) {
+      this.emit('orderUpdate', {
+        ...data.update,
+        brokerName: this.brokerName,
+        accountId: this.session.accountId
+      });
+    }
+  }
+}
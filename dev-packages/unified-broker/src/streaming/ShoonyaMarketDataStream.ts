@@ -0,0 +1,205 @@
+/**
+ * Shoonya Market Data Stream
+ * Touchline and depth ticks from the Noren websocket. Instruments are
+ * subscribed by "EXCHANGE|token"; 'tk'/'dk' acknowledgements carry the full
+ * quote and 'tf'/'df' feeds only the fields that changed, so quotes are
+ * merged per instrument before each tick is emitted.
+ */
+
+import { BrokerStream } from './BrokerStream';
+import {
+  BrokerStreamOptions,
+  DepthLevel,
+  MarketDataFeed,
+  MarketDepth,
+  StreamControlMessage,
+  StreamSession,
+  TickInstrument,
+  TickMode,
+  TickStreamMessage
+} from './types';
+
+const SHOONYA_WS_URL = 'wss://api.shoonya.com/NorenWSTP/';
+const DEPTH_LEVELS = 5;
+
+const SUBSCRIBE_TYPE: Record<TickMode, string> = { LTP: 't', DEPTH: 'd' };
+const UNSUBSCRIBE_TYPE: Record<TickMode, string> = { LTP: 'u', DEPTH: 'ud' };
+
+interface Subscription {
+  instrument: TickInstrument;
+  mode: TickMode;
+}
+
+const toNumber = (value: any): number | undefined => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+function getDepthSide(quote: any, price: string, quantity: string, orders: string): DepthLevel[] {
+  const levels: DepthLevel[] = [];
+  for (let level = 1; level <= DEPTH_LEVELS; level++) {
+    const levelPrice = toNumber(quote[`${price}${level}`]);
+    if (levelPrice === undefined) {
+      continue;
+    }
+    const levelOrders = toNumber(quote[`${orders}${level}`]);
+    levels.push({
+      price: levelPrice,
+      quantity: toNumber(quote[`${quantity}${level}`]) || 0,
+      ...(levelOrders !== undefined && { orders: levelOrders })
+    });
+  }
+  return levels;
+}
+
+export class ShoonyaMarketDataStream extends BrokerStream<TickStreamMessage> implements MarketDataFeed {
+  private subscriptions: Map<string, Subscription> = new Map();
+  private quotes: Map<string, any> = new Map();
+
+  constructor(options: BrokerStreamOptions) {
+    super('shoonya', options);
+  }
+
+  subscribe(instruments: TickInstrument[], mode: TickMode): void {
+    const added: TickInstrument[] = [];
+    for (const instrument of instruments) {
+      const key = this.getInstrumentKey(instrument);
+      if (!key) {
+        this.emit('error', new Error(`Shoonya ticks need an instrument token for ${instrument.exchange}:${instrument.symbol}`));
+        continue;
+      }
+
+      const existing = this.subscriptions.get(key);
+      if (existing?.mode === mode) {
+        continue;
+      }
+      if (existing && this.isConnected()) {
+        this.sendSubscription(UNSUBSCRIBE_TYPE[existing.mode], [existing.instrument]);
+      }
+      this.subscriptions.set(key, { instrument, mode });
+      added.push(instrument);
+    }
+
+    if (added.length > 0 && this.isConnected()) {
+      this.sendSubscription(SUBSCRIBE_TYPE[mode], added);
+    }
+  }
+
+  unsubscribe(instruments: TickInstrument[]): void {
+    for (const instrument of instruments) {
+      const key = this.getInstrumentKey(instrument);
+      const existing = key ? this.subscriptions.get(key) : undefined;
+      if (!key || !existing) {
+        continue;
+      }
+      if (this.isConnected()) {
+        this.sendSubscription(UNSUBSCRIBE_TYPE[existing.mode], [existing.instrument]);
+      }
+      this.subscriptions.delete(key);
+      this.quotes.delete(key);
+    }
+  }
+
+  protected getDefaultUrl(): string {
+    return SHOONYA_WS_URL;
+  }
+
+  protected getOpenMessages(session: StreamSession): string[] {
+    return [JSON.stringify({
+      t: 'c',
+      uid: session.accountId,
+      actid: session.accountId,
+      susertoken: session.accessToken,
+      source: 'API'
+    })];
+  }
+
+  protected getHeartbeatMessage(): string {
+    return JSON.stringify({ t: 'h' });
+  }
+
+  /**
+   * Restore every subscription after a (re)connect
+   */
+  protected onAuthenticated(): void {
+    const subscriptions = Array.from(this.subscriptions.values());
+    for (const mode of ['LTP', 'DEPTH'] as TickMode[]) {
+      const instruments = subscriptions.filter(subscription => subscription.mode === mode).map(subscription => subscription.instrument);
+      if (instruments.length > 0) {
+        this.sendSubscription(SUBSCRIBE_TYPE[mode], instruments);
+      }
+    }
+  }
+
+  protected parseMessage(message: any): Array<StreamControlMessage | TickStreamMessage> {
+    if (message?.t === 'ck') {
+      return message.s === 'OK'
+        ? [{ type: 'AUTHENTICATED' }]
+        : [{ type: 'SESSION_EXPIRED', reason: message.emsg || 'Shoonya session rejected' }];
+    }
+
+    if (!['tk', 'tf', 'dk', 'df'].includes(message?.t) || !message.tk) {
+      return [];
+    }
+
+    const key = `${message.e}|${message.tk}`;
+    const subscription = this.subscriptions.get(key);
+    if (!subscription) {
+      return [];
+    }
+
+    const quote = { ...this.quotes.get(key), ...message };
+    this.quotes.set(key, quote);
+
+    const lastPrice = toNumber(quote.lp);
+    if (lastPrice === undefined) {
+      return [];
+    }
+
+    const close = toNumber(quote.c);
+    const change = close ? lastPrice - close : 0;
+    const open = toNumber(quote.o);
+    const high = toNumber(quote.h);
+    const low = toNumber(quote.l);
+    const averagePrice = toNumber(quote.ap);
+    const feedTime = parseInt(quote.ft);
+    const depth: MarketDepth | undefined = subscription.mode === 'DEPTH'
+      ? { bids: getDepthSide(quote, 'bp', 'bq', 'bo'), asks: getDepthSide(quote, 'sp', 'sq', 'so') }
+      : undefined;
+
+    return [{
+      type: 'TICK',
+      tick: {
+        brokerName: this.brokerName,
+        exchange: subscription.instrument.exchange,
+        symbol: subscription.instrument.symbol,
+        lastPrice,
+        change,
+        changePercent: toNumber(quote.pc) ?? (close ? (change / close) * 100 : 0),
+        volume: toNumber(quote.v) || 0,
+        ...(open !== undefined && { open }),
+        ...(high !== undefined && { high }),
+        ...(low !== undefined && { low }),
+        ...(close !== undefined && { close }),
+        ...(averagePrice !== undefined && { averagePrice }),
+        ...(depth && { depth }),
+        timestamp: feedTime ? new Date(feedTime * 1000) : new Date()
+      }
+    }];
+  }
+
+  protected handleData(data: TickStreamMessage): void {
+    this.emit('tick', data.tick);
+  }
+
+  private sendSubscription(type: string, instruments: TickInstrument[]): void {
+    this.send(JSON.stringify({
+      t: type,
+      k: instruments.map(instrument => this.getInstrumentKey(instrument)).join('#')
+    }));
+  }
+
+  private getInstrumentKey(instrument: TickInstrument): string | null {
+    return instrument.token ? `${instrument.exchange}|${instrument.token}` : null;
+  }
+}
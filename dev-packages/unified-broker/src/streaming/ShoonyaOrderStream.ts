@@ -0,0 +1,95 @@
+/**
+ * Shoonya Order Stream
+ * Order updates from the Noren websocket: log in with the session token,
+ * subscribe to the account's order feed and normalise 'om' messages.
+ */
+
+import { OrderUpdateStream } from './OrderUpdateStream';
+import { BrokerStreamOptions, StreamMessage, StreamOrderStatus, StreamSession } from './types';
+
+const SHOONYA_WS_URL = 'wss://api.shoonya.com/NorenWSTP/';
+
+function mapShoonyaStatus(status: string, filledQuantity: number): StreamOrderStatus {
+  switch ((status || '').toUpperCase()) {
+    case 'COMPLETE':
+      return 'EXECUTED';
+    case 'CANCELED':
+    case 'CANCELLED':
+      return 'CANCELLED';
+    case 'REJECTED':
+      return 'REJECTED';
+    case 'PENDING':
+    case 'TRIGGER_PENDING':
+      return 'PENDING';
+    default:
+      // OPEN
+      return filledQuantity > 0 ? 'PARTIALLY_FILLED' : 'PLACED';
+  }
+}
+
+export class ShoonyaOrderStream extends OrderUpdateStream {
+  constructor(options: BrokerStreamOptions) {
+    super('shoonya', options);
+  }
+
+  protected getDefaultUrl(): string {
+    return SHOONYA_WS_URL;
+  }
+
+  protected getOpenMessages(session: StreamSession): string[] {
+    // The order subscription is sent once the login is acknowledged
+    return [JSON.stringify({
+      t: 'c',
+      uid: session.accountId,
+      actid: session.accountId,
+      susertoken: session.accessToken,
+      source: 'API'
+    })];
+  }
+
+  protected getHeartbeatMessage(): string {
+    return JSON.stringify({ t: 'h' });
+  }
+
+  protected parseMessage(message: any): StreamMessage[] {
+    if (message?.t === 'ck') {
+      if (message.s !== 'OK') {
+        return [{ type: 'SESSION_EXPIRED', reason: message.emsg || 'Shoonya session rejected' }];
+      }
+      this.subscribeOrders();
+      return [];
+    }
+
+    if (message?.t === 'ok') {
+      // Order subscription acknowledged
+      return [{ type: 'AUTHENTICATED' }];
+    }
+
+    if (message?.t === 'om' && message.norenordno) {
+      const filledQuantity = parseInt(message.fillshares) || 0;
+      const averagePrice = parseFloat(message.avgprc) || 0;
+      return [{
+        type: 'ORDER_UPDATE',
+        update: {
+          brokerOrderId: String(message.norenordno),
+          status: mapShoonyaStatus(message.status, filledQuantity),
+          executionData: {
+            ...(filledQuantity > 0 && { executedQuantity: filledQuantity }),
+            ...(averagePrice > 0 && { averagePrice }),
+            ...(message.rejreason && { rejectionReason: message.rejreason }),
+            ...((message.exch_tm || message.norentm) && { updateTime: message.exch_tm || message.norentm })
+          },
+          raw: message
+        }
+      }];
+    }
+
+    return [];
+  }
+
+  private subscribeOrders(): void {
+    if (this.session) {
+      this.send(JSON.stringify({ t: 'o', actid: this.session.accountId }));
+    }
+  }
+}
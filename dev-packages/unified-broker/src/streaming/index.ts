@@ -0,0 +1,53 @@
+/**
+ * Broker streaming: order updates and market data
+ */
+
+import { BrokerStream } from './BrokerStream';
+import { FyersMarketDataFeed, getFyersTickSymbol, parseFyersTick } from './FyersMarketDataFeed';
+import { FyersOrderStream } from './FyersOrderStream';
+import { OrderUpdateStream } from './OrderUpdateStream';
+import { ShoonyaMarketDataStream } from './ShoonyaMarketDataStream';
+import { ShoonyaOrderStream } from './ShoonyaOrderStream';
+import { BrokerStreamOptions, MarketDataFeed } from './types';
+
+export * from './types';
+export type { FyersDataSocketLike, FyersDataSocketFactory } from './FyersMarketDataFeed';
+export {
+  BrokerStream,
+  OrderUpdateStream,
+  ShoonyaOrderStream,
+  FyersOrderStream,
+  ShoonyaMarketDataStream,
+  FyersMarketDataFeed,
+  getFyersTickSymbol,
+  parseFyersTick
+};
+
+/**
+ * Create the order stream for a broker, or null when it has no push feed
+ */
+export function createOrderUpdateStream(brokerName: string, options: BrokerStreamOptions): OrderUpdateStream | null {
+  switch (brokerName.toLowerCase()) {
+    case 'shoonya':
+      return new ShoonyaOrderStream(options);
+    case 'fyers':
+      return new FyersOrderStream(options);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Create the tick feed for a broker, or null when it has none. The Fyers
+ * feed runs on the SDK's own socket and ignores the socket factory.
+ */
+export function createMarketDataFeed(brokerName: string, options: BrokerStreamOptions): MarketDataFeed | null {
+  switch (brokerName.toLowerCase()) {
+    case 'shoonya':
+      return new ShoonyaMarketDataStream(options);
+    case 'fyers':
+      return new FyersMarketDataFeed();
+    default:
+      return null;
+  }
+}
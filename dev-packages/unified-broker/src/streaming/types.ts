@@ -0,0 +1,131 @@
+/**
+ * Broker Streaming Types
+ * Broker-neutral shapes for push order updates (fills, rejections,
+ * cancellations) and market ticks received over broker websockets
+ */
+
+/**
+ * The subset of a websocket client the streams use. The `ws` package's
+ * WebSocket satisfies it, so the host application supplies the transport.
+ */
+export interface StreamSocket {
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  send(data: string): void;
+  close(code?: number): void;
+}
+
+export type StreamSocketFactory = (url: string, options?: { headers?: Record<string, string> }) => StreamSocket;
+
+export type BrokerStreamState = 'IDLE' | 'CONNECTING' | 'CONNECTED' | 'RECONNECTING' | 'SESSION_EXPIRED' | 'CLOSED';
+
+export type StreamOrderStatus = 'PLACED' | 'PENDING' | 'PARTIALLY_FILLED' | 'EXECUTED' | 'CANCELLED' | 'REJECTED';
+
+/**
+ * An order update in the shape the order status pipeline consumes
+ */
+export interface OrderUpdateEvent {
+  brokerName: string;
+  accountId: string;
+  brokerOrderId: string;
+  status: StreamOrderStatus;
+  executionData: {
+    executedQuantity?: number;
+    averagePrice?: number;
+    rejectionReason?: string;
+    updateTime?: string;
+  };
+  raw: any;
+}
+
+/**
+ * Session details a stream authenticates with
+ */
+export interface StreamSession {
+  accountId: string;
+  accessToken: string;
+  appId?: string; // Fyers app id, part of its socket authorization
+}
+
+export interface BrokerStreamOptions {
+  socketFactory: StreamSocketFactory;
+  url?: string;                    // overrides the broker's endpoint, e.g. for a mock server
+  reconnectDelayMs?: number;       // first reconnect delay, doubled on each failure
+  maxReconnectDelayMs?: number;
+  maxReconnectAttempts?: number;   // after this many the stream gives up and closes
+  heartbeatIntervalMs?: number;
+}
+
+/**
+ * Connection-level messages every stream understands
+ */
+export type StreamControlMessage =
+  | { type: 'AUTHENTICATED' }
+  | { type: 'SESSION_EXPIRED'; reason: string };
+
+export type OrderStreamMessage = { type: 'ORDER_UPDATE'; update: Omit<OrderUpdateEvent, 'brokerName' | 'accountId'> };
+
+/**
+ * What a broker order message means to the stream
+ */
+export type StreamMessage = StreamControlMessage | OrderStreamMessage;
+
+/**
+ * An instrument on a tick feed. Brokers that subscribe by instrument token
+ * (Shoonya) need `token`; the others use exchange and symbol.
+ */
+export interface TickInstrument {
+  exchange: string;
+  symbol: string;
+  token?: string | undefined;
+}
+
+export type TickMode = 'LTP' | 'DEPTH';
+
+export interface DepthLevel {
+  price: number;
+  quantity: number;
+  orders?: number;
+}
+
+export interface MarketDepth {
+  bids: DepthLevel[];
+  asks: DepthLevel[];
+}
+
+/**
+ * A market tick, merged from the broker's full and partial updates
+ */
+export interface MarketTick {
+  brokerName: string;
+  exchange: string;
+  symbol: string;
+  lastPrice: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  close?: number;           // previous close
+  averagePrice?: number;
+  depth?: MarketDepth;      // only in DEPTH mode
+  timestamp: Date;
+}
+
+export type TickStreamMessage = { type: 'TICK'; tick: MarketTick };
+
+/**
+ * A broker market data feed. Events: 'tick' (MarketTick), 'stateChange',
+ * 'sessionExpired' and 'error', as for BrokerStream.
+ */
+export interface MarketDataFeed {
+  readonly brokerName: string;
+  connect(session: StreamSession): void;
+  close(): void;
+  subscribe(instruments: TickInstrument[], mode: TickMode): void;
+  unsubscribe(instruments: TickInstrument[]): void;
+  getState(): BrokerStreamState;
+  isConnected(): boolean;
+  on(event: string, listener: (...args: any[]) => void): this;
+  removeAllListeners(event?: string | symbol): this;
+}
@@ -18,6 +18,11 @@ import ComponentDemo from './pages/ComponentDemo';
 import PortfolioAnalytics from './pages/PortfolioAnalytics';
 import NotificationDisplay from './components/NotificationDisplay';
 import AdvancedOrderManagement from './pages/AdvancedOrderManagement';
+import CopyTrading from './pages/CopyTrading';
+import Alerts from './pages/Alerts';
+import SquareOff from './pages/SquareOff';
+import AuditLog from './pages/AuditLog';
+import Workspaces from './pages/Workspaces';
 // Main application pages
 import Dashboard from './pages/Dashboard';
 import Holdings from './pages/Holdings';
@@ -35,6 +40,7 @@ import ErrorBoundary from './components/ErrorBoundary';
 import NavigationErrorBoundary from './components/NavigationErrorBoundary';
 import TradingErrorBoundary from './components/TradingErrorBoundary';
 import AccountErrorBoundary from './components/AccountErrorBoundary';
+import StepUpDialog from './components/StepUpDialog';
 
 // Connection Status Component
 const ConnectionStatus: React.FC = () => {
@@ -209,6 +215,56 @@ const AppContent: React.FC = () => {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/copy-trading"
+          element={
+            <ProtectedRoute>
+              <TradingErrorBoundary>
+                <CopyTrading />
+              </TradingErrorBoundary>
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/alerts"
+          element={
+            <ProtectedRoute>
+              <ErrorBoundary>
+                <Alerts />
+              </ErrorBoundary>
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/square-off"
+          element={
+            <ProtectedRoute>
+              <TradingErrorBoundary>
+                <SquareOff />
+              </TradingErrorBoundary>
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/audit"
+          element={
+            <ProtectedRoute>
+              <ErrorBoundary>
+                <AuditLog />
+              </ErrorBoundary>
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/workspaces"
+          element={
+            <ProtectedRoute>
+              <ErrorBoundary>
+                <Workspaces />
+              </ErrorBoundary>
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/settings"
           element={
@@ -326,6 +382,7 @@ const App: React.FC = () => {
                 <AppContent />
               </NavigationErrorBoundary>
               <NotificationDisplay position="top-right" />
+              <StepUpDialog />
             </ErrorBoundary>
           </ConditionalAccountStatusProvider>
         </AuthProvider>
@@ -0,0 +1,394 @@
+import React, { useState, useEffect } from 'react';
+import {
+  apiKeyService,
+  type ApiKey,
+  type ApiKeyScope,
+  type CreatedApiKey,
+  type Signal,
+  type SignalStatus
+} from '../services/apiKeyService';
+import { accountService, canTradeAccount, type ConnectedAccount } from '../services/accountService';
+import {
+  Card,
+  CardHeader,
+  CardContent,
+  Button,
+  Badge,
+  Stack,
+  Flex,
+  Grid,
+  Checkbox
+} from './ui';
+
+const formatDateTime = (value: string): string => new Date(value).toLocaleString();
+
+const SCOPES: Array<{ value: ApiKeyScope; label: string }> = [
+  { value: 'signals:write', label: 'Send signals (place orders)' },
+  { value: 'signals:read', label: 'Read signal log' }
+];
+
+const STATUS_BADGES: Record<SignalStatus, 'success' | 'warning' | 'error' | 'info'> = {
+  PROCESSING: 'info',
+  COMPLETED: 'success',
+  PARTIAL: 'warning',
+  FAILED: 'error',
+  REJECTED: 'error'
+};
+
+interface GroupForm {
+  name: string;
+  accountIds: string[];
+}
+
+interface KeyForm {
+  name: string;
+  scopes: ApiKeyScope[];
+  ipAllowlist: string;
+  requireSignature: boolean;
+  groups: GroupForm[];
+}
+
+const EMPTY_FORM: KeyForm = {
+  name: '',
+  scopes: ['signals:write'],
+  ipAllowlist: '',
+  requireSignature: true,
+  groups: [{ name: 'Default', accountIds: [] }]
+};
+
+// One-line summary of what a signal asked for
+const describeSignal = (signal: Signal): string => {
+  const order = signal.order || signal.payload;
+  const parts = [order.action, order.quantity, order.symbol].filter(part => part !== undefined && part !== '');
+  return parts.length > 0 ? parts.join(' ') : '—';
+};
+
+const ApiKeySettings: React.FC = () => {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [signals, setSignals] = useState<Signal[]>([]);
+  const [accounts, setAccounts] = useState<ConnectedAccount[]>([]);
+  const [form, setForm] = useState<KeyForm | null>(null);
+  const [created, setCreated] = useState<CreatedApiKey | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [keyList, signalLog, accountList] = await Promise.all([
+        apiKeyService.getApiKeys(),
+        apiKeyService.getSignals({ limit: 25 }),
+        accountService.getConnectedAccounts()
+      ]);
+      setApiKeys(keyList);
+      setSignals(signalLog.signals);
+      setAccounts(accountList.filter(canTradeAccount));
+    } catch (error: unknown) {
+      console.error('Failed to load API keys:', error);
+      setError((error as Error).message || 'Failed to load API keys');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Runs an action with the shared busy/error/success handling
+  const run = async (key: string, action: () => Promise<string | void>) => {
+    setError(null);
+    setSuccess(null);
+
+    try {
+      setBusy(key);
+      const message = await action();
+      if (message) {
+        setSuccess(message);
+      }
+    } catch (error: unknown) {
+      setError((error as Error).message || 'Something went wrong');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const updateForm = (changes: Partial<KeyForm>) => setForm(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const updateGroup = (index: number, changes: Partial<GroupForm>) => {
+    if (!form) return;
+    updateForm({ groups: form.groups.map((group, i) => (i === index ? { ...group, ...changes } : group)) });
+  };
+
+  const toggleGroupAccount = (index: number, accountId: string, checked: boolean) => {
+    const group = form?.groups[index];
+    if (!group) return;
+    updateGroup(index, {
+      accountIds: checked ? [...group.accountIds, accountId] : group.accountIds.filter(id => id !== accountId)
+    });
+  };
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    if (!form) return;
+    updateForm({ scopes: checked ? [...form.scopes, scope] : form.scopes.filter(item => item !== scope) });
+  };
+
+  const handleCreate = () => form && run('create', async () => {
+    const apiKey = await apiKeyService.createApiKey({
+      name: form.name.trim(),
+      scopes: form.scopes,
+      ipAllowlist: form.ipAllowlist.split(/[\s,]+/).filter(Boolean),
+      requireSignature: form.requireSignature,
+      accountGroups: form.groups.filter(group => group.name.trim() && group.accountIds.length > 0)
+    });
+    setCreated(apiKey);
+    setForm(null);
+    setApiKeys(prev => [apiKey, ...prev]);
+    return `Created ${apiKey.name}`;
+  });
+
+  const handleRevoke = (apiKey: ApiKey) => {
+    if (!confirm(`Revoke ${apiKey.name}? Anything sending signals with it will stop working.`)) {
+      return;
+    }
+    run(apiKey.id, async () => {
+      await apiKeyService.revokeApiKey(apiKey.id);
+      setApiKeys(prev => prev.filter(item => item.id !== apiKey.id));
+      return `Revoked ${apiKey.name}`;
+    });
+  };
+
+  const accountName = (accountId: string): string => {
+    const account = accounts.find(item => item.id === accountId);
+    return account ? `${account.brokerName} (${account.accountId})` : accountId;
+  };
+
+  const keyName = (apiKeyId: string): string => apiKeys.find(item => item.id === apiKeyId)?.name || 'Revoked key';
+
+  const renderForm = (keyForm: KeyForm) => (
+    <div className="account-card">
+      <Stack gap={4}>
+        <Grid cols={2} gap={4}>
+          <div>
+            <label className="form-label">Name</label>
+            <input
+              type="text"
+              value={keyForm.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+              placeholder="TradingView alerts"
+              className="form-input"
+            />
+          </div>
+          <div>
+            <label className="form-label">IP allow-list</label>
+            <input
+              type="text"
+              value={keyForm.ipAllowlist}
+              onChange={(e) => updateForm({ ipAllowlist: e.target.value })}
+              placeholder="Any address, or e.g. 52.89.214.238, 10.0.0.0/24"
+              className="form-input"
+            />
+          </div>
+        </Grid>
+
+        <Flex gap={4} align="center">
+          {SCOPES.map(scope => (
+            <Checkbox
+              key={scope.value}
+              checked={keyForm.scopes.includes(scope.value)}
+              onChange={(checked) => toggleScope(scope.value, checked)}
+              label={scope.label}
+              size="sm"
+            />
+          ))}
+          <Checkbox
+            checked={keyForm.requireSignature}
+            onChange={(checked) => updateForm({ requireSignature: checked })}
+            label="Require HMAC signature"
+            size="sm"
+          />
+        </Flex>
+        {!keyForm.requireSignature && (
+          <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+            Unsigned requests are only accepted from the allow-listed addresses, e.g. TradingView's webhook servers.
+          </div>
+        )}
+
+        {keyForm.groups.map((group, index) => (
+          <Stack key={index} gap={2}>
+            <Flex gap={2} align="center">
+              <input
+                type="text"
+                value={group.name}
+                onChange={(e) => updateGroup(index, { name: e.target.value })}
+                placeholder="Account group name"
+                className="form-input"
+                style={{ maxWidth: '240px' }}
+              />
+              {keyForm.groups.length > 1 && (
+                <Button size="sm" variant="ghost" onClick={() => updateForm({ groups: keyForm.groups.filter((_, i) => i !== index) })}>
+                  Remove group
+                </Button>
+              )}
+            </Flex>
+            <Flex gap={4} align="center">
+              {accounts.length === 0 && (
+                <span style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>No accounts you can trade</span>
+              )}
+              {accounts.map(account => (
+                <Checkbox
+                  key={account.id}
+                  checked={group.accountIds.includes(account.id)}
+                  onChange={(checked) => toggleGroupAccount(index, account.id, checked)}
+                  label={`${account.brokerName} (${account.accountId})`}
+                  size="sm"
+                />
+              ))}
+            </Flex>
+          </Stack>
+        ))}
+
+        <Flex gap={2}>
+          <Button size="sm" variant="outline" onClick={() => updateForm({ groups: [...keyForm.groups, { name: '', accountIds: [] }] })}>
+            Add account group
+          </Button>
+          <Button size="sm" onClick={handleCreate} disabled={busy !== null || !keyForm.name.trim() || keyForm.scopes.length === 0}>
+            {busy === 'create' ? 'Creating...' : 'Create key'}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setForm(null)} disabled={busy !== null}>
+            Cancel
+          </Button>
+        </Flex>
+      </Stack>
+    </div>
+  );
+
+  return (
+    <Stack gap={6}>
+      <Card>
+        <CardHeader
+          title="🔑 API Keys"
+          subtitle="Send orders from TradingView alerts, scripts or Amibroker without logging in"
+          action={!form && (
+            <Button size="sm" onClick={() => setForm(EMPTY_FORM)} disabled={busy !== null}>
+              New key
+            </Button>
+          )}
+        />
+        <CardContent>
+          <Stack gap={4}>
+            {error && <div style={{ color: 'var(--color-loss)' }}>❌ {error}</div>}
+            {success && <div style={{ color: 'var(--color-profit)' }}>✅ {success}</div>}
+
+            {created && (
+              <div className="account-card">
+                <Stack gap={2}>
+                  <div style={{ fontWeight: '500' }}>{created.name}</div>
+                  <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                    Send the key as X-API-Key and sign requests with the signing secret. Save both somewhere safe; they are not shown again.
+                  </div>
+                  <div style={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>Key: {created.key}</div>
+                  <div style={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>Signing secret: {created.signingSecret}</div>
+                  <Flex gap={2}>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => navigator.clipboard?.writeText(`API key: ${created.key}\nSigning secret: ${created.signingSecret}`)}
+                    >
+                      Copy
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setCreated(null)}>
+                      I saved them
+                    </Button>
+                  </Flex>
+                </Stack>
+              </div>
+            )}
+
+            {form && renderForm(form)}
+
+            {isLoading && <div style={{ color: 'var(--text-secondary)' }}>Loading API keys...</div>}
+            {!isLoading && apiKeys.length === 0 && !form && (
+              <div style={{ color: 'var(--text-secondary)' }}>No API keys yet</div>
+            )}
+
+            {apiKeys.map(apiKey => (
+              <Flex key={apiKey.id} justify="between" align="center" className="account-card">
+                <div>
+                  <Flex gap={2} align="center">
+                    <span style={{ fontWeight: '500' }}>{apiKey.name}</span>
+                    <code style={{ fontSize: '0.75rem' }}>{apiKey.keyPrefix}…</code>
+                    {apiKey.scopes.map(scope => <Badge key={scope} variant="info" size="sm">{scope}</Badge>)}
+                    {!apiKey.requireSignature && <Badge variant="warning" size="sm">Unsigned</Badge>}
+                  </Flex>
+                  <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                    {apiKey.accountGroups.length > 0
+                      ? apiKey.accountGroups.map(group => `${group.name}: ${group.accountIds.map(accountName).join(', ')}`).join(' · ')
+                      : 'No account groups'}
+                  </div>
+                  <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                    {apiKey.ipAllowlist.length > 0 ? `Allowed from ${apiKey.ipAllowlist.join(', ')}` : 'Allowed from any address'}
+                    {' · '}
+                    {apiKey.lastUsedAt ? `Last used ${formatDateTime(apiKey.lastUsedAt)} from ${apiKey.lastUsedIp || 'unknown IP'}` : 'Never used'}
+                  </div>
+                </div>
+                <Button size="sm" variant="danger" onClick={() => handleRevoke(apiKey)} disabled={busy !== null}>
+                  {busy === apiKey.id ? 'Revoking...' : 'Revoke'}
+                </Button>
+              </Flex>
+            ))}
+          </Stack>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader
+          title="📡 Signal Log"
+          subtitle="Recent signals and the orders they placed"
+          action={(
+            <Button size="sm" variant="outline" onClick={loadSettings} disabled={isLoading}>
+              Refresh
+            </Button>
+          )}
+        />
+        <CardContent>
+          <Stack gap={3}>
+            {!isLoading && signals.length === 0 && (
+              <div style={{ color: 'var(--text-secondary)' }}>No signals received yet</div>
+            )}
+            {signals.map(signal => (
+              <div key={signal.id} className="account-card">
+                <Flex justify="between" align="center">
+                  <Flex gap={2} align="center">
+                    <Badge variant={STATUS_BADGES[signal.status]} size="sm">{signal.status}</Badge>
+                    <span style={{ fontWeight: '500' }}>{describeSignal(signal)}</span>
+                    {signal.accountGroup && <span style={{ color: 'var(--text-secondary)' }}>→ {signal.accountGroup}</span>}
+                  </Flex>
+                  <span style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                    {keyName(signal.apiKeyId)} · {formatDateTime(signal.receivedAt)}
+                  </span>
+                </Flex>
+                {signal.error && (
+                  <div style={{ fontSize: '0.75rem', color: 'var(--color-loss)' }}>{signal.error}</div>
+                )}
+                {signal.orders.map(order => (
+                  <div key={order.accountId} style={{ fontSize: '0.75rem', color: order.success ? 'var(--text-secondary)' : 'var(--color-loss)' }}>
+                    {order.success ? '✅' : '❌'} {accountName(order.accountId)} · qty {order.quantity}
+                    {order.brokerOrderId && ` · order ${order.brokerOrderId}`}
+                    {order.error && ` · ${order.error}`}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </Stack>
+        </CardContent>
+      </Card>
+    </Stack>
+  );
+};
+
+export default ApiKeySettings;
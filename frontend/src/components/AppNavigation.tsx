@@ -1,12 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
 import { useResourceCleanup } from '../hooks/useResourceCleanup';
 import { marketDataService, type MarketIndex } from '../services/marketDataService';
 import { portfolioService } from '../services/portfolioService';
 import useRealTimeData from '../hooks/useRealTimeData';
+import { useEventBus } from '../hooks/useEventBus';
+import { useToast } from './Toast';
+import type { PriceAlertTriggeredEvent } from '../services/alertService';
+import type { SquareOffUpdateEvent } from '../services/squareOffService';
 import '../styles/app-theme.css';
 import Button from './ui/Button';
+import KillSwitchControl from './KillSwitchControl';
 
 interface PortfolioSummary {
   totalValue: number;
@@ -35,6 +40,34 @@ const AppNavigation: React.FC = () => {
   // Real-time data hook for market status
   const { marketStatus } = useRealTimeData();
 
+  // Triggered alerts are toasted on whichever page is open. Pages with their own
+  // real-time connection receive each event more than once, so repeats are dropped.
+  const { showToast } = useToast();
+  const shownAlerts = useRef<Set<string>>(new Set());
+  useEventBus<PriceAlertTriggeredEvent>('priceAlertTriggered', (event) => {
+    const key = `${event.alertId}:${event.timestamp}`;
+    if (shownAlerts.current.has(key)) {
+      return;
+    }
+    shownAlerts.current.add(key);
+    showToast({ type: 'info', title: `🔔 ${event.name}`, message: event.message });
+  });
+
+  // Square-off runs finish in the background near the close, so report them the same way
+  const shownSquareOffs = useRef<Set<string>>(new Set());
+  useEventBus<SquareOffUpdateEvent>('squareOffUpdate', (event) => {
+    if (shownSquareOffs.current.has(event.run.id) || event.run.status === 'NOTHING_TO_DO') {
+      return;
+    }
+    shownSquareOffs.current.add(event.run.id);
+    showToast({
+      type: event.run.status === 'COMPLETED' ? 'success' : 'warning',
+      title: `⏱ Square-off ${event.run.status === 'COMPLETED' ? 'done' : 'incomplete'} - ${event.account}`,
+      message: `${event.run.squared_off_positions} position(s) closed, ${event.run.cancelled_orders} order(s) cancelled` +
+        (event.run.failures.length > 0 ? `, ${event.run.failures.length} failed` : '')
+    });
+  });
+
   // Fetch live market indices and portfolio data
   useEffect(() => {
     const fetchMarketData = async () => {
@@ -95,6 +128,11 @@ const AppNavigation: React.FC = () => {
     { path: '/orders', label: 'Orders', icon: '📋' },
     { path: '/positions', label: 'Positions', icon: '🎯' },
     { path: '/trade-setup', label: 'Trade', icon: '⚡' },
+    { path: '/copy-trading', label: 'Copy', icon: '🔁' },
+    { path: '/alerts', label: 'Alerts', icon: '🔔' },
+    { path: '/square-off', label: 'Square-off', icon: '⏱' },
+    { path: '/audit', label: 'Audit', icon: '🧾' },
+    { path: '/workspaces', label: 'Workspaces', icon: '👥' },
     { path: '/account-setup', label: 'Accounts', icon: '🔗' },
   ];
 
@@ -136,10 +174,17 @@ const AppNavigation: React.FC = () => {
           <div className="nav-user-menu">
             {/* Market Status */}
             <div className="market-status-indicator">
-              <div className="status-dot" style={{ backgroundColor: marketStatus?.isOpen ? 'var(--color-profit)' : 'var(--color-loss)' }}></div>
+              <div className="status-dot" style={{
+                backgroundColor: marketStatus?.isOpen
+                  ? 'var(--color-profit)'
+                  : marketStatus?.phase && marketStatus.phase !== 'CLOSED' ? 'var(--color-warning-500)' : 'var(--color-loss)'
+              }}></div>
               {marketStatus?.status || 'Market Status Unknown'}
             </div>
 
+            {/* Emergency stop for all trading */}
+            <KillSwitchControl />
+
             {/* User Info */}
             <div className="user-info-container">
               <div style={{ textAlign: 'right' }}>
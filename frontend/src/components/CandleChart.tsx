@@ -0,0 +1,282 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  marketDataService,
+  type Candle,
+  type CandleChartData,
+  type CandleInterval
+} from '../services/marketDataService';
+import {
+  Card,
+  CardHeader,
+  CardContent,
+  Button,
+  HStack
+} from './ui';
+
+const INTERVALS: CandleInterval[] = ['1m', '5m', '15m', '1d'];
+
+const INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const MAX_VISIBLE_CANDLES = 120;
+
+// Chart geometry in SVG units; the SVG scales to its container width
+const WIDTH = 800;
+const PRICE_HEIGHT = 260;
+const VOLUME_HEIGHT = 60;
+const AXIS_WIDTH = 64;
+const PLOT_WIDTH = WIDTH - AXIS_WIDTH;
+const HEIGHT = PRICE_HEIGHT + VOLUME_HEIGHT + 20;
+
+// Same bucketing as the server: intraday bars align with UTC (and so IST) minutes, days start at IST midnight
+const getCandleStart = (time: number, interval: CandleInterval): number => {
+  const offset = interval === '1d' ? IST_OFFSET_MS : 0;
+  return Math.floor((time + offset) / INTERVAL_MS[interval]) * INTERVAL_MS[interval] - offset;
+};
+
+const formatPrice = (price: number): string =>
+  new Intl.NumberFormat('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(price);
+
+const formatTime = (start: string, interval: CandleInterval): string =>
+  new Date(start).toLocaleString('en-IN', interval === '1d'
+    ? { day: '2-digit', month: 'short', timeZone: 'Asia/Kolkata' }
+    : { hour: '2-digit', minute: '2-digit', hour12: false, timeZone: 'Asia/Kolkata' });
+
+interface CandleChartProps {
+  symbol: string;
+  exchange?: string;
+  // Latest streamed price, folded into the last bar
+  livePrice?: { price: number; timestamp: Date | string } | null;
+  defaultInterval?: CandleInterval;
+}
+
+const CandleChart: React.FC<CandleChartProps> = ({ symbol, exchange = 'NSE', livePrice = null, defaultInterval = '1d' }) => {
+  const [interval, setSelectedInterval] = useState<CandleInterval>(defaultInterval);
+  const [data, setData] = useState<CandleChartData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const loadCandles = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setData(await marketDataService.getCandles(symbol, exchange, interval));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load chart');
+    } finally {
+      setLoading(false);
+    }
+  }, [symbol, exchange, interval]);
+
+  useEffect(() => {
+    loadCandles();
+
+    // Stored bars catch up with the server once a minute; the live price moves the last bar in between
+    const timer = window.setInterval(loadCandles, 60000);
+    return () => window.clearInterval(timer);
+  }, [loadCandles]);
+
+  const candles = useMemo((): Candle[] => {
+    const bars = (data?.candles || []).slice(-MAX_VISIBLE_CANDLES);
+    if (!livePrice || livePrice.price <= 0) {
+      return bars;
+    }
+
+    const start = new Date(getCandleStart(new Date(livePrice.timestamp).getTime(), interval)).toISOString();
+    const last = bars[bars.length - 1];
+    if (last && last.start === start) {
+      return [...bars.slice(0, -1), {
+        ...last,
+        high: Math.max(last.high, livePrice.price),
+        low: Math.min(last.low, livePrice.price),
+        close: livePrice.price
+      }];
+    }
+    if (!last || last.start < start) {
+      const open = last ? last.close : livePrice.price;
+      return [...bars, {
+        start,
+        open,
+        high: Math.max(open, livePrice.price),
+        low: Math.min(open, livePrice.price),
+        close: livePrice.price,
+        volume: 0,
+        source: 'ticks' as const
+      }].slice(-MAX_VISIBLE_CANDLES);
+    }
+    return bars;
+  }, [data, livePrice, interval]);
+
+  const scale = useMemo(() => {
+    const prices = candles.flatMap(candle => [candle.high, candle.low]);
+    if (data?.position) {
+      prices.push(data.position.averagePrice);
+    }
+    const max = prices.length > 0 ? Math.max(...prices) : 1;
+    const min = prices.length > 0 ? Math.min(...prices) : 0;
+    const padding = (max - min) * 0.05 || max * 0.01 || 1;
+    const maxVolume = Math.max(1, ...candles.map(candle => candle.volume));
+    return {
+      max: max + padding,
+      min: min - padding,
+      maxVolume,
+      step: PLOT_WIDTH / Math.max(candles.length, 1)
+    };
+  }, [candles, data]);
+
+  const y = (price: number) => ((scale.max - price) / (scale.max - scale.min)) * PRICE_HEIGHT;
+  const x = (index: number) => index * scale.step + scale.step / 2;
+
+  // Orders sit on the bar they were placed or filled in
+  const markers = useMemo(() => (data?.markers || [])
+    .map(marker => {
+      const time = new Date(getCandleStart(new Date(marker.time).getTime(), interval)).toISOString();
+      return { ...marker, index: candles.findIndex(candle => candle.start === time) };
+    })
+    .filter(marker => marker.index !== -1), [data, candles, interval]);
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const plotX = ((event.clientX - bounds.left) / bounds.width) * WIDTH;
+    const index = Math.floor(plotX / scale.step);
+    setHoverIndex(plotX <= PLOT_WIDTH && index >= 0 && index < candles.length ? index : null);
+  };
+
+  const shown = candles[hoverIndex ?? candles.length - 1];
+  const gridPrices = [0, 1, 2, 3, 4].map(step => scale.min + ((scale.max - scale.min) * step) / 4);
+  const labelEvery = Math.max(1, Math.ceil(candles.length / 6));
+
+  return (
+    <Card>
+      <CardHeader
+        title={`${symbol} · ${exchange}`}
+        subtitle={shown
+          ? `O ${formatPrice(shown.open)}  H ${formatPrice(shown.high)}  L ${formatPrice(shown.low)}  C ${formatPrice(shown.close)}  V ${shown.volume.toLocaleString('en-IN')}`
+          : undefined}
+        action={
+          <HStack gap={2}>
+            {INTERVALS.map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={interval === option ? 'primary' : 'secondary'}
+                onClick={() => setSelectedInterval(option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </HStack>
+        }
+      />
+      <CardContent>
+        {error && (
+          <div style={{ color: 'var(--color-loss)', fontSize: '0.875rem', marginBottom: '0.5rem' }}>⚠️ {error}</div>
+        )}
+        {candles.length === 0 ? (
+          <div style={{ textAlign: 'center', padding: '3rem 0', color: 'var(--text-secondary)' }}>
+            {loading ? 'Loading chart...' : `No ${interval} bars available for ${symbol}`}
+          </div>
+        ) : (
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            style={{ width: '100%', height: 'auto', fontFamily: 'var(--font-mono)', fontSize: 10 }}
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => setHoverIndex(null)}
+          >
+            {gridPrices.map(price => (
+              <g key={price}>
+                <line x1={0} x2={PLOT_WIDTH} y1={y(price)} y2={y(price)} stroke="var(--border-primary)" strokeWidth={0.5} />
+                <text x={PLOT_WIDTH + 6} y={y(price) + 3} fill="var(--text-secondary)">{formatPrice(price)}</text>
+              </g>
+            ))}
+
+            {candles.map((candle, index) => {
+              const rising = candle.close >= candle.open;
+              const color = rising ? 'var(--color-profit)' : 'var(--color-loss)';
+              const bodyWidth = Math.max(1, scale.step * 0.7);
+              const volumeHeight = (candle.volume / scale.maxVolume) * VOLUME_HEIGHT;
+              return (
+                <g key={candle.start}>
+                  <line x1={x(index)} x2={x(index)} y1={y(candle.high)} y2={y(candle.low)} stroke={color} strokeWidth={1} />
+                  <rect
+                    x={x(index) - bodyWidth / 2}
+                    y={y(Math.max(candle.open, candle.close))}
+                    width={bodyWidth}
+                    height={Math.max(1, Math.abs(y(candle.open) - y(candle.close)))}
+                    fill={color}
+                  />
+                  <rect
+                    x={x(index) - bodyWidth / 2}
+                    y={PRICE_HEIGHT + VOLUME_HEIGHT - volumeHeight}
+                    width={bodyWidth}
+                    height={volumeHeight}
+                    fill={color}
+                    opacity={0.35}
+                  />
+                  {index % labelEvery === 0 && (
+                    <text x={x(index)} y={HEIGHT - 4} textAnchor="middle" fill="var(--text-secondary)">
+                      {formatTime(candle.start, interval)}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+
+            {data?.position && (
+              <g>
+                <line
+                  x1={0}
+                  x2={PLOT_WIDTH}
+                  y1={y(data.position.averagePrice)}
+                  y2={y(data.position.averagePrice)}
+                  stroke="var(--color-primary)"
+                  strokeDasharray="4 3"
+                />
+                <text x={4} y={y(data.position.averagePrice) - 4} fill="var(--color-primary)">
+                  {`${data.position.quantity > 0 ? 'Long' : 'Short'} ${Math.abs(data.position.quantity)} @ ${formatPrice(data.position.averagePrice)}`}
+                </text>
+              </g>
+            )}
+
+            {markers.map(marker => {
+              const candle = candles[marker.index]!;
+              const buy = marker.action === 'BUY';
+              const tipY = buy ? y(candle.low) + 4 : y(candle.high) - 4;
+              const baseY = buy ? tipY + 8 : tipY - 8;
+              return (
+                <polygon
+                  key={marker.orderId}
+                  points={`${x(marker.index)},${tipY} ${x(marker.index) - 5},${baseY} ${x(marker.index) + 5},${baseY}`}
+                  fill={buy ? 'var(--color-profit)' : 'var(--color-loss)'}
+                  opacity={marker.status === 'EXECUTED' || marker.status === 'PARTIALLY_FILLED' ? 1 : 0.45}
+                >
+                  <title>{`${marker.action} ${marker.quantity} @ ${formatPrice(marker.price)} (${marker.status})`}</title>
+                </polygon>
+              );
+            })}
+
+            {hoverIndex !== null && (
+              <line
+                x1={x(hoverIndex)}
+                x2={x(hoverIndex)}
+                y1={0}
+                y2={PRICE_HEIGHT + VOLUME_HEIGHT}
+                stroke="var(--text-secondary)"
+                strokeDasharray="2 2"
+                strokeWidth={0.75}
+              />
+            )}
+          </svg>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CandleChart;
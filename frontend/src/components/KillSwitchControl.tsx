@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import './KillSwitchControl.css';
+import { accountService, type ConnectedAccount } from '../services/accountService';
+import {
+  killSwitchService,
+  type KillSwitch,
+  type KillSwitchEvent
+} from '../services/killSwitchService';
+import { Button, Checkbox, HStack } from './ui';
+
+// Select value of the switch that covers every account
+const ALL_ACCOUNTS = 'all';
+const STATUS_REFRESH_MS = 30000;
+
+const KillSwitchControl: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [switches, setSwitches] = useState<KillSwitch[]>([]);
+  const [accounts, setAccounts] = useState<ConnectedAccount[]>([]);
+  const [scope, setScope] = useState(ALL_ACCOUNTS);
+  const [squareOff, setSquareOff] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [lastEvent, setLastEvent] = useState<KillSwitchEvent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeSwitches = switches.filter(killSwitch => killSwitch.is_active);
+  const tradingHalted = activeSwitches.length > 0;
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const status = await killSwitchService.getStatus();
+      setSwitches(status.switches);
+    } catch (error: unknown) {
+      console.error('Failed to load kill switch status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+    const interval = setInterval(loadStatus, STATUS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [loadStatus]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    accountService.getOwnAccounts()
+      .then(setAccounts)
+      .catch((error: unknown) => console.error('Failed to load accounts:', error));
+    loadStatus();
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isSubmitting) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, isSubmitting, loadStatus]);
+
+  const accountLabel = (accountId: string | null) => {
+    if (!accountId) return 'All accounts';
+    const account = accounts.find(item => item.id === accountId);
+    return account ? `${account.brokerName} (${account.accountId})` : 'Account';
+  };
+
+  const handleActivate = async () => {
+    setError(null);
+    setLastEvent(null);
+
+    try {
+      setIsSubmitting(true);
+      const result = await killSwitchService.activate(
+        scope === ALL_ACCOUNTS ? null : scope,
+        squareOff,
+        reason.trim() || undefined
+      );
+      setLastEvent(result.event);
+      setReason('');
+      await loadStatus();
+    } catch (error: unknown) {
+      setError((error as Error).message || 'Failed to activate kill switch');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRelease = async (accountId: string | null) => {
+    setError(null);
+    setLastEvent(null);
+
+    try {
+      setIsSubmitting(true);
+      await killSwitchService.deactivate(accountId);
+      await loadStatus();
+    } catch (error: unknown) {
+      setError((error as Error).message || 'Failed to release kill switch');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant={tradingHalted ? 'danger' : 'outline'}
+        size="sm"
+        className={`kill-switch-trigger ${tradingHalted ? 'kill-switch-trigger--active' : ''}`}
+        onClick={() => setIsOpen(true)}
+      >
+        🛑 {tradingHalted ? 'Trading Halted' : 'Kill Switch'}
+      </Button>
+
+      {isOpen && (
+        <div className="kill-switch-overlay" onClick={() => !isSubmitting && setIsOpen(false)}>
+          <div className="kill-switch-dialog" onClick={(e) => e.stopPropagation()}>
+            <div className="kill-switch-header">
+              <h3>🛑 Kill Switch</h3>
+              <button
+                type="button"
+                className="kill-switch-close"
+                onClick={() => setIsOpen(false)}
+                disabled={isSubmitting}
+              >
+                ×
+              </button>
+            </div>
+
+            <div className="kill-switch-body">
+              {error && <div className="kill-switch-error">❌ {error}</div>}
+
+              {activeSwitches.length > 0 && (
+                <div className="kill-switch-section">
+                  <h4>Active</h4>
+                  {activeSwitches.map(killSwitch => (
+                    <div key={killSwitch.id} className="kill-switch-active-item">
+                      <div>
+                        <div className="kill-switch-scope">{accountLabel(killSwitch.account_id)}</div>
+                        <div className="kill-switch-meta">
+                          Since {killSwitch.activated_at ? new Date(killSwitch.activated_at).toLocaleTimeString('en-IN') : '-'}
+                          {killSwitch.reason && ` • ${killSwitch.reason}`}
+                        </div>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRelease(killSwitch.account_id)}
+                        disabled={isSubmitting}
+                      >
+                        Release
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="kill-switch-section">
+                <h4>Halt trading</h4>
+                <p className="kill-switch-meta">
+                  Blocks every new order and cancels all open orders on the selected accounts.
+                </p>
+
+                <label className="form-label">Accounts</label>
+                <select
+                  className="form-input"
+                  value={scope}
+                  onChange={(e) => setScope(e.target.value)}
+                  disabled={isSubmitting}
+                >
+                  <option value={ALL_ACCOUNTS}>All accounts</option>
+                  {accounts.map(account => (
+                    <option key={account.id} value={account.id}>
+                      {account.brokerName} ({account.accountId})
+                    </option>
+                  ))}
+                </select>
+
+                <label className="form-label">Reason</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Optional"
+                  maxLength={500}
+                  disabled={isSubmitting}
+                />
+
+                <Checkbox
+                  checked={squareOff}
+                  onChange={setSquareOff}
+                  label="Also square off all open positions at market"
+                  size="sm"
+                />
+              </div>
+
+              {lastEvent && (
+                <div className="kill-switch-result">
+                  ✅ {lastEvent.cancelled_orders} order{lastEvent.cancelled_orders === 1 ? '' : 's'} cancelled
+                  {lastEvent.square_off && `, ${lastEvent.squared_off_positions} position${lastEvent.squared_off_positions === 1 ? '' : 's'} squared off`}
+                  {lastEvent.failures.length > 0 && (
+                    <ul>
+                      {lastEvent.failures.map((failure, index) => (
+                        <li key={index}>
+                          {accountLabel(failure.account_id)}: {failure.reference ? `${failure.reference} - ` : ''}{failure.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="kill-switch-footer">
+              <HStack gap={3}>
+                <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+                  Close
+                </Button>
+                <Button variant="danger" onClick={handleActivate} disabled={isSubmitting}>
+                  {isSubmitting ? 'Working...' : squareOff ? 'Halt & Square Off' : 'Halt Trading'}
+                </Button>
+              </HStack>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default KillSwitchControl;
@@ -3,6 +3,7 @@ import Card from './ui/Card';
 import Badge from './ui/Badge';
 import Button from './ui/Button';
 import { getUserFriendlyError } from '../utils/errorMessages';
+import type { RiskViolation } from '../services/brokerService';
 import './OrderResultDisplay.css';
 
 export interface OrderResult {
@@ -18,6 +19,7 @@ export interface OrderResult {
   message?: string;
   suggestion?: string;
   retryable?: boolean;
+  riskViolations?: RiskViolation[];
 }
 
 export interface OrderResultSummary {
@@ -69,6 +71,8 @@ const OrderResultDisplay: React.FC<OrderResultDisplayProps> = ({
 
   const successRate = totalAccounts > 0 ? (successfulAccounts / totalAccounts) * 100 : 0;
   const failedResults = results.filter(result => !result.success);
+  // Orders blocked by risk limits would be blocked again, so they are not offered for retry
+  const retryableResults = failedResults.filter(result => result.errorType !== 'RISK_VIOLATION');
   const successfulResults = results.filter(result => result.success);
 
   const getOverallStatus = () => {
@@ -112,8 +116,8 @@ const OrderResultDisplay: React.FC<OrderResultDisplayProps> = ({
   };
 
   const handleRetryFailed = () => {
-    if (onRetryFailed && failedResults.length > 0) {
-      onRetryFailed(failedResults);
+    if (onRetryFailed && retryableResults.length > 0) {
+      onRetryFailed(retryableResults);
     }
   };
 
@@ -291,6 +295,8 @@ const OrderResultDisplay: React.FC<OrderResultDisplayProps> = ({
                 const friendlyError = getUserFriendlyError(result.error || result.message, 'trading');
                 const suggestion = result.suggestion || friendlyError.suggestion;
                 const isRetryable = result.retryable !== undefined ? result.retryable : friendlyError.retryable;
+                const riskViolations = result.riskViolations || [];
+                const isRiskBlocked = result.errorType === 'RISK_VIOLATION';
                 
                 return (
                   <div key={`failed-${index}`} className="result-item error">
@@ -301,6 +307,9 @@ const OrderResultDisplay: React.FC<OrderResultDisplayProps> = ({
                         {isRetryable && (
                           <Badge variant="info" size="sm">Retryable</Badge>
                         )}
+                        {isRiskBlocked && (
+                          <Badge variant="warning" size="sm">Risk Limit</Badge>
+                        )}
                       </div>
                       <div className="result-status">
                         <span className="status-icon">❌</span>
@@ -308,12 +317,27 @@ const OrderResultDisplay: React.FC<OrderResultDisplayProps> = ({
                       </div>
                     </div>
                     <div className="result-details">
-                      <div className="detail-row">
-                        <span className="detail-label">Error:</span>
-                        <span className="detail-value error-message">
-                          {friendlyError.title}: {friendlyError.message}
-                        </span>
-                      </div>
+                      {isRiskBlocked ? (
+                        <div className="detail-row">
+                          <span className="detail-label">Blocked:</span>
+                          {riskViolations.length > 0 ? (
+                            <ul className="detail-value error-message risk-violations">
+                              {riskViolations.map((violation, violationIndex) => (
+                                <li key={`${violation.rule}-${violationIndex}`}>{violation.message}</li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <span className="detail-value error-message">{result.error}</span>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="detail-row">
+                          <span className="detail-label">Error:</span>
+                          <span className="detail-value error-message">
+                            {friendlyError.title}: {friendlyError.message}
+                          </span>
+                        </div>
+                      )}
                       {result.errorCode && (
                         <div className="detail-row">
                           <span className="detail-label">Error Code:</span>
@@ -332,7 +356,7 @@ const OrderResultDisplay: React.FC<OrderResultDisplayProps> = ({
                           <span className="detail-value suggestion-text">{suggestion}</span>
                         </div>
                       )}
-                      {result.message && result.message !== result.error && (
+                      {!isRiskBlocked && result.message && result.message !== result.error && (
                         <div className="detail-row">
                           <span className="detail-label">Details:</span>
                           <span className="detail-value">{result.message}</span>
@@ -348,13 +372,13 @@ const OrderResultDisplay: React.FC<OrderResultDisplayProps> = ({
 
         {/* Actions */}
         <div className="order-result-actions">
-          {showRetryOption && failedResults.length > 0 && (
+          {showRetryOption && retryableResults.length > 0 && (
             <Button
               variant="outline"
               onClick={handleRetryFailed}
               className="retry-button"
             >
-              🔄 Retry Failed Orders ({failedResults.length})
+              🔄 Retry Failed Orders ({retryableResults.length})
             </Button>
           )}
           {onClose && (
@@ -0,0 +1,254 @@
+import React, { useState, useEffect } from 'react';
+import { accountService, type ConnectedAccount } from '../services/accountService';
+import {
+  brokerService,
+  type AccountSizingRule,
+  type SizingMethod
+} from '../services/brokerService';
+import {
+  Card,
+  CardHeader,
+  CardContent,
+  Button,
+  Checkbox,
+  Stack,
+  Flex,
+  Grid
+} from './ui';
+
+interface SizingRuleForm {
+  method: SizingMethod | '';
+  value: string;
+  capital: string;
+  minQuantity: string;
+  maxQuantity: string;
+  roundToLot: boolean;
+}
+
+const METHOD_LABELS: Record<SizingMethod, { label: string; valueLabel: string }> = {
+  FIXED_QUANTITY: { label: 'Fixed quantity', valueLabel: 'Quantity' },
+  MULTIPLIER: { label: 'Multiplier of order quantity', valueLabel: 'Multiplier' },
+  PERCENT_OF_CAPITAL: { label: 'Percent of available funds', valueLabel: 'Percent (%)' },
+  FIXED_NOTIONAL: { label: 'Fixed notional (₹)', valueLabel: 'Amount (₹)' }
+};
+
+const emptyForm: SizingRuleForm = {
+  method: '',
+  value: '',
+  capital: '',
+  minQuantity: '',
+  maxQuantity: '',
+  roundToLot: true
+};
+
+const ruleToForm = (rule?: AccountSizingRule): SizingRuleForm => {
+  if (!rule) return emptyForm;
+  return {
+    method: rule.method,
+    value: rule.value.toString(),
+    capital: rule.capital?.toString() || '',
+    minQuantity: rule.min_quantity?.toString() || '',
+    maxQuantity: rule.max_quantity?.toString() || '',
+    roundToLot: rule.round_to_lot
+  };
+};
+
+const toOptionalNumber = (value: string): number | null => (value ? Number(value) : null);
+
+const PositionSizingSettings: React.FC = () => {
+  const [accounts, setAccounts] = useState<ConnectedAccount[]>([]);
+  const [forms, setForms] = useState<Record<string, SizingRuleForm>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingAccountId, setSavingAccountId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [accountList, rulesResponse] = await Promise.all([
+        accountService.getOwnAccounts(),
+        brokerService.getSizingRules()
+      ]);
+      if (!rulesResponse.success) {
+        throw new Error(rulesResponse.message || 'Failed to load sizing rules');
+      }
+
+      const rules = rulesResponse.data || [];
+      setAccounts(accountList);
+      setForms(Object.fromEntries(accountList.map(account => [
+        account.id,
+        ruleToForm(rules.find(rule => rule.account_id === account.id))
+      ])));
+    } catch (error: unknown) {
+      console.error('Failed to load position sizing settings:', error);
+      setError((error as Error).message || 'Failed to load position sizing settings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateForm = (accountId: string, changes: Partial<SizingRuleForm>) => {
+    setForms(prev => ({
+      ...prev,
+      [accountId]: { ...(prev[accountId] || emptyForm), ...changes }
+    }));
+  };
+
+  const handleSave = async (account: ConnectedAccount) => {
+    const form = forms[account.id] || emptyForm;
+    setError(null);
+    setSuccess(null);
+
+    try {
+      setSavingAccountId(account.id);
+
+      // Clearing the method removes the rule so the account trades the entered quantity
+      const response = form.method
+        ? await brokerService.saveSizingRule(account.id, {
+          method: form.method,
+          value: Number(form.value),
+          capital: toOptionalNumber(form.capital),
+          minQuantity: toOptionalNumber(form.minQuantity),
+          maxQuantity: toOptionalNumber(form.maxQuantity),
+          roundToLot: form.roundToLot
+        })
+        : await brokerService.deleteSizingRule(account.id);
+
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+      setSuccess(`Sizing rule for ${account.brokerName} (${account.accountId}) saved`);
+    } catch (error: unknown) {
+      setError((error as Error).message || 'Failed to save sizing rule');
+    } finally {
+      setSavingAccountId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader
+        title="📐 Position Sizing"
+        subtitle="Control how much each account trades when an order is placed on multiple accounts or copied"
+      />
+      <CardContent>
+        <Stack gap={5}>
+          {error && <div style={{ color: 'var(--color-loss)' }}>❌ {error}</div>}
+          {success && <div style={{ color: 'var(--color-profit)' }}>✅ {success}</div>}
+
+          {isLoading ? (
+            <div style={{ color: 'var(--text-secondary)' }}>Loading sizing rules...</div>
+          ) : accounts.length === 0 ? (
+            <div style={{ color: 'var(--text-secondary)' }}>Connect a broker account to configure position sizing.</div>
+          ) : (
+            accounts.map(account => {
+              const form = forms[account.id] || emptyForm;
+              return (
+                <div key={account.id} className="account-card">
+                  <Stack gap={3}>
+                    <Flex justify="between" align="center">
+                      <span style={{ fontWeight: '500' }}>
+                        {account.brokerName} ({account.accountId})
+                      </span>
+                      <Button
+                        size="sm"
+                        onClick={() => handleSave(account)}
+                        disabled={savingAccountId === account.id || (!!form.method && !form.value)}
+                      >
+                        {savingAccountId === account.id ? 'Saving...' : 'Save'}
+                      </Button>
+                    </Flex>
+
+                    <Grid cols={2} gap={4}>
+                      <div>
+                        <label className="form-label">Sizing method</label>
+                        <select
+                          value={form.method}
+                          onChange={(e) => updateForm(account.id, { method: e.target.value as SizingMethod | '' })}
+                          className="form-input"
+                        >
+                          <option value="">Same as entered quantity</option>
+                          {(Object.keys(METHOD_LABELS) as SizingMethod[]).map(method => (
+                            <option key={method} value={method}>{METHOD_LABELS[method].label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      {form.method && (
+                        <div>
+                          <label className="form-label">{METHOD_LABELS[form.method].valueLabel}</label>
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={form.value}
+                            onChange={(e) => updateForm(account.id, { value: e.target.value })}
+                            className="form-input"
+                          />
+                        </div>
+                      )}
+                    </Grid>
+
+                    {form.method && (
+                      <Grid cols={3} gap={4}>
+                        {form.method === 'PERCENT_OF_CAPITAL' && (
+                          <div>
+                            <label className="form-label">Fallback capital (₹)</label>
+                            <input
+                              type="number"
+                              min="0"
+                              value={form.capital}
+                              onChange={(e) => updateForm(account.id, { capital: e.target.value })}
+                              className="form-input"
+                            />
+                          </div>
+                        )}
+                        <div>
+                          <label className="form-label">Min quantity</label>
+                          <input
+                            type="number"
+                            min="1"
+                            value={form.minQuantity}
+                            onChange={(e) => updateForm(account.id, { minQuantity: e.target.value })}
+                            className="form-input"
+                          />
+                        </div>
+                        <div>
+                          <label className="form-label">Max quantity</label>
+                          <input
+                            type="number"
+                            min="1"
+                            value={form.maxQuantity}
+                            onChange={(e) => updateForm(account.id, { maxQuantity: e.target.value })}
+                            className="form-input"
+                          />
+                        </div>
+                      </Grid>
+                    )}
+
+                    {form.method && (
+                      <Checkbox
+                        checked={form.roundToLot}
+                        onChange={(checked) => updateForm(account.id, { roundToLot: checked })}
+                        label="Round down to the instrument's market lot"
+                        size="sm"
+                      />
+                    )}
+                  </Stack>
+                </div>
+              );
+            })
+          )}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PositionSizingSettings;
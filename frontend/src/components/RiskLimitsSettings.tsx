@@ -0,0 +1,285 @@
+import React, { useState, useEffect } from 'react';
+import { accountService, type ConnectedAccount } from '../services/accountService';
+import {
+  brokerService,
+  type RiskLimits
+} from '../services/brokerService';
+import {
+  Card,
+  CardHeader,
+  CardContent,
+  Button,
+  Checkbox,
+  Stack,
+  Flex,
+  Grid
+} from './ui';
+
+interface RiskLimitsForm {
+  exists: boolean;
+  isEnabled: boolean;
+  maxOrderValue: string;
+  maxQuantityPerSymbol: string;
+  maxOpenPositions: string;
+  dailyLossLimit: string;
+  maxOrdersPerMinute: string;
+  allowedExchanges: string;
+  allowedProducts: string;
+  restrictedSymbols: string;
+}
+
+type NumericField = 'maxOrderValue' | 'maxQuantityPerSymbol' | 'maxOpenPositions' | 'dailyLossLimit' | 'maxOrdersPerMinute';
+type ListField = 'allowedExchanges' | 'allowedProducts' | 'restrictedSymbols';
+
+// Form key of the limits that apply to every account
+const ALL_ACCOUNTS = 'all';
+
+const NUMERIC_FIELDS: Array<{ field: NumericField; label: string }> = [
+  { field: 'maxOrderValue', label: 'Max order value (₹)' },
+  { field: 'maxQuantityPerSymbol', label: 'Max quantity per symbol' },
+  { field: 'maxOpenPositions', label: 'Max open positions' },
+  { field: 'dailyLossLimit', label: 'Daily loss limit (₹)' },
+  { field: 'maxOrdersPerMinute', label: 'Max orders per minute' }
+];
+
+const LIST_FIELDS: Array<{ field: ListField; label: string; placeholder: string }> = [
+  { field: 'allowedExchanges', label: 'Allowed exchanges', placeholder: 'All (e.g. NSE, BSE)' },
+  { field: 'allowedProducts', label: 'Allowed products', placeholder: 'All (e.g. CNC, MIS)' },
+  { field: 'restrictedSymbols', label: 'Restricted symbols', placeholder: 'None (e.g. YESBANK, IDEA)' }
+];
+
+const emptyForm: RiskLimitsForm = {
+  exists: false,
+  isEnabled: true,
+  maxOrderValue: '',
+  maxQuantityPerSymbol: '',
+  maxOpenPositions: '',
+  dailyLossLimit: '',
+  maxOrdersPerMinute: '',
+  allowedExchanges: '',
+  allowedProducts: '',
+  restrictedSymbols: ''
+};
+
+const limitsToForm = (limits?: RiskLimits): RiskLimitsForm => {
+  if (!limits) return emptyForm;
+  return {
+    exists: true,
+    isEnabled: limits.is_enabled,
+    maxOrderValue: limits.max_order_value?.toString() || '',
+    maxQuantityPerSymbol: limits.max_quantity_per_symbol?.toString() || '',
+    maxOpenPositions: limits.max_open_positions?.toString() || '',
+    dailyLossLimit: limits.daily_loss_limit?.toString() || '',
+    maxOrdersPerMinute: limits.max_orders_per_minute?.toString() || '',
+    allowedExchanges: limits.allowed_exchanges.join(', '),
+    allowedProducts: limits.allowed_products.join(', '),
+    restrictedSymbols: limits.restricted_symbols.join(', ')
+  };
+};
+
+const toOptionalNumber = (value: string): number | null => (value ? Number(value) : null);
+
+const toList = (value: string): string[] =>
+  value.split(',').map(item => item.trim().toUpperCase()).filter(Boolean);
+
+const RiskLimitsSettings: React.FC = () => {
+  const [accounts, setAccounts] = useState<ConnectedAccount[]>([]);
+  const [forms, setForms] = useState<Record<string, RiskLimitsForm>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [accountList, limitsResponse] = await Promise.all([
+        accountService.getOwnAccounts(),
+        brokerService.getRiskLimits()
+      ]);
+      if (!limitsResponse.success) {
+        throw new Error(limitsResponse.message || 'Failed to load risk limits');
+      }
+
+      const limits = limitsResponse.data || [];
+      setAccounts(accountList);
+      setForms({
+        [ALL_ACCOUNTS]: limitsToForm(limits.find(item => !item.account_id)),
+        ...Object.fromEntries(accountList.map(account => [
+          account.id,
+          limitsToForm(limits.find(item => item.account_id === account.id))
+        ]))
+      });
+    } catch (error: unknown) {
+      console.error('Failed to load risk limits:', error);
+      setError((error as Error).message || 'Failed to load risk limits');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateForm = (key: string, changes: Partial<RiskLimitsForm>) => {
+    setForms(prev => ({
+      ...prev,
+      [key]: { ...(prev[key] || emptyForm), ...changes }
+    }));
+  };
+
+  const handleSave = async (key: string, title: string) => {
+    const form = forms[key] || emptyForm;
+    const accountId = key === ALL_ACCOUNTS ? null : key;
+    setError(null);
+    setSuccess(null);
+
+    try {
+      setSavingKey(key);
+
+      const response = await brokerService.saveRiskLimits(accountId, {
+        isEnabled: form.isEnabled,
+        maxOrderValue: toOptionalNumber(form.maxOrderValue),
+        maxQuantityPerSymbol: toOptionalNumber(form.maxQuantityPerSymbol),
+        maxOpenPositions: toOptionalNumber(form.maxOpenPositions),
+        dailyLossLimit: toOptionalNumber(form.dailyLossLimit),
+        maxOrdersPerMinute: toOptionalNumber(form.maxOrdersPerMinute),
+        allowedExchanges: toList(form.allowedExchanges),
+        allowedProducts: toList(form.allowedProducts),
+        restrictedSymbols: toList(form.restrictedSymbols)
+      });
+
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+      if (response.data) {
+        updateForm(key, limitsToForm(response.data));
+      }
+      setSuccess(`Risk limits for ${title} saved`);
+    } catch (error: unknown) {
+      setError((error as Error).message || 'Failed to save risk limits');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleRemove = async (key: string, title: string) => {
+    setError(null);
+    setSuccess(null);
+
+    try {
+      setSavingKey(key);
+
+      const response = await brokerService.deleteRiskLimits(key === ALL_ACCOUNTS ? null : key);
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+      updateForm(key, emptyForm);
+      setSuccess(`Risk limits for ${title} removed`);
+    } catch (error: unknown) {
+      setError((error as Error).message || 'Failed to remove risk limits');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const renderLimitsForm = (key: string, title: string, description?: string) => {
+    const form = forms[key] || emptyForm;
+    const isSaving = savingKey === key;
+
+    return (
+      <div key={key} className="account-card">
+        <Stack gap={3}>
+          <Flex justify="between" align="center">
+            <div>
+              <div style={{ fontWeight: '500' }}>{title}</div>
+              {description && (
+                <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>{description}</div>
+              )}
+            </div>
+            <Flex gap={2}>
+              {form.exists && (
+                <Button size="sm" variant="outline" onClick={() => handleRemove(key, title)} disabled={isSaving}>
+                  Remove
+                </Button>
+              )}
+              <Button size="sm" onClick={() => handleSave(key, title)} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            </Flex>
+          </Flex>
+
+          <Checkbox
+            checked={form.isEnabled}
+            onChange={(checked) => updateForm(key, { isEnabled: checked })}
+            label="Enforce these limits"
+            size="sm"
+          />
+
+          <Grid cols={3} gap={4}>
+            {NUMERIC_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <label className="form-label">{label}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={form[field]}
+                  onChange={(e) => updateForm(key, { [field]: e.target.value })}
+                  placeholder="No limit"
+                  className="form-input"
+                />
+              </div>
+            ))}
+          </Grid>
+
+          <Grid cols={3} gap={4}>
+            {LIST_FIELDS.map(({ field, label, placeholder }) => (
+              <div key={field}>
+                <label className="form-label">{label}</label>
+                <input
+                  type="text"
+                  value={form[field]}
+                  onChange={(e) => updateForm(key, { [field]: e.target.value })}
+                  placeholder={placeholder}
+                  className="form-input"
+                />
+              </div>
+            ))}
+          </Grid>
+        </Stack>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader
+        title="🛡️ Risk Limits"
+        subtitle="Pre-trade checks applied before any order is sent to a broker"
+      />
+      <CardContent>
+        <Stack gap={5}>
+          {error && <div style={{ color: 'var(--color-loss)' }}>❌ {error}</div>}
+          {success && <div style={{ color: 'var(--color-profit)' }}>✅ {success}</div>}
+
+          {isLoading ? (
+            <div style={{ color: 'var(--text-secondary)' }}>Loading risk limits...</div>
+          ) : (
+            <>
+              {renderLimitsForm(ALL_ACCOUNTS, 'All accounts', 'Applied to every order together with the limits of its account')}
+              {accounts.map(account =>
+                renderLimitsForm(account.id, `${account.brokerName} (${account.accountId})`)
+              )}
+            </>
+          )}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RiskLimitsSettings;
@@ -0,0 +1,267 @@
+import React, { useState, useEffect } from 'react';
+import { authService } from '../services/authService';
+import type { AuthSessionInfo, TwoFactorSetup, TwoFactorStatus } from '../types/auth';
+import {
+  Card,
+  CardHeader,
+  CardContent,
+  Button,
+  Badge,
+  Stack,
+  Flex
+} from './ui';
+
+const formatDateTime = (value: string): string => new Date(value).toLocaleString();
+
+const SecuritySettings: React.FC = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [sessions, setSessions] = useState<AuthSessionInfo[]>([]);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [setupCode, setSetupCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [twoFactorStatus, sessionList] = await Promise.all([
+        authService.getTwoFactorStatus(),
+        authService.getSessions()
+      ]);
+      setStatus(twoFactorStatus);
+      setSessions(sessionList);
+    } catch (error: unknown) {
+      console.error('Failed to load security settings:', error);
+      setError((error as Error).message || 'Failed to load security settings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Runs an action with the shared busy/error/success handling
+  const run = async (key: string, action: () => Promise<string | void>) => {
+    setError(null);
+    setSuccess(null);
+
+    try {
+      setBusy(key);
+      const message = await action();
+      if (message) {
+        setSuccess(message);
+      }
+    } catch (error: unknown) {
+      setError((error as Error).message || 'Something went wrong');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleStartSetup = () => run('setup', async () => {
+    setRecoveryCodes(null);
+    setSetupCode('');
+    setSetup(await authService.setupTwoFactor());
+  });
+
+  const handleEnable = () => run('enable', async () => {
+    const codes = await authService.enableTwoFactor(setupCode.replace(/\s/g, ''));
+    setSetup(null);
+    setRecoveryCodes(codes);
+    setStatus({ enabled: true, recoveryCodesRemaining: codes.length });
+    return 'Two-factor authentication enabled';
+  });
+
+  const handleDisable = () => {
+    if (!confirm('Turn off two-factor authentication? Your account will be protected by your password only.')) {
+      return;
+    }
+    run('disable', async () => {
+      await authService.disableTwoFactor();
+      setRecoveryCodes(null);
+      setStatus({ enabled: false, recoveryCodesRemaining: 0 });
+      return 'Two-factor authentication disabled';
+    });
+  };
+
+  const handleRegenerate = () => {
+    if (!confirm('Generate new recovery codes? Your current codes will stop working.')) {
+      return;
+    }
+    run('regenerate', async () => {
+      const codes = await authService.regenerateRecoveryCodes();
+      setRecoveryCodes(codes);
+      setStatus({ enabled: true, recoveryCodesRemaining: codes.length });
+      return 'New recovery codes generated';
+    });
+  };
+
+  const handleRevoke = (session: AuthSessionInfo) => run(session.id, async () => {
+    await authService.revokeSession(session.id);
+    setSessions(prev => prev.filter(item => item.id !== session.id));
+    return `Logged out ${session.deviceName}`;
+  });
+
+  const handleRevokeOthers = () => run('others', async () => {
+    const revoked = await authService.revokeOtherSessions();
+    setSessions(prev => prev.filter(item => item.current));
+    return `Logged out ${revoked} other session${revoked === 1 ? '' : 's'}`;
+  });
+
+  const renderTwoFactor = () => {
+    if (setup) {
+      return (
+        <Stack gap={3}>
+          <div>
+            1. Add CopyTrade Pro to your authenticator app (Google Authenticator, Authy, 1Password, ...)
+            using this setup key, or open the link on your phone:
+          </div>
+          <code style={{ fontSize: '1rem', letterSpacing: '0.1rem', wordBreak: 'break-all' }}>{setup.secret}</code>
+          <a href={setup.otpauthUrl} style={{ fontSize: '0.875rem' }}>Open in authenticator app</a>
+          <div>2. Enter the 6-digit code the app shows:</div>
+          <Flex gap={2} align="center">
+            <input
+              className="form-input"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              maxLength={7}
+              value={setupCode}
+              onChange={(e) => setSetupCode(e.target.value)}
+              style={{ maxWidth: '160px' }}
+            />
+            <Button size="sm" onClick={handleEnable} disabled={busy !== null || !/^\d{6}$/.test(setupCode.replace(/\s/g, ''))}>
+              {busy === 'enable' ? 'Verifying...' : 'Turn on'}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setSetup(null)} disabled={busy !== null}>
+              Cancel
+            </Button>
+          </Flex>
+        </Stack>
+      );
+    }
+
+    return (
+      <Flex justify="between" align="center">
+        <div>
+          <Flex gap={2} align="center">
+            <span style={{ fontWeight: '500' }}>Authenticator app</span>
+            <Badge variant={status?.enabled ? 'success' : 'default'} size="sm">
+              {status?.enabled ? 'On' : 'Off'}
+            </Badge>
+          </Flex>
+          <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+            {status?.enabled
+              ? `${status.recoveryCodesRemaining} recovery code${status.recoveryCodesRemaining === 1 ? '' : 's'} left`
+              : 'Require a code from your phone when logging in and before sensitive actions'}
+          </div>
+        </div>
+        <Flex gap={2}>
+          {status?.enabled ? (
+            <>
+              <Button size="sm" variant="outline" onClick={handleRegenerate} disabled={busy !== null}>
+                New recovery codes
+              </Button>
+              <Button size="sm" variant="danger" onClick={handleDisable} disabled={busy !== null}>
+                Turn off
+              </Button>
+            </>
+          ) : (
+            <Button size="sm" onClick={handleStartSetup} disabled={busy !== null}>
+              {busy === 'setup' ? 'Starting...' : 'Set up'}
+            </Button>
+          )}
+        </Flex>
+      </Flex>
+    );
+  };
+
+  return (
+    <Stack gap={6}>
+      <Card>
+        <CardHeader
+          title="🔐 Two-Factor Authentication"
+          subtitle="A leaked password alone is not enough to reach your broker accounts"
+        />
+        <CardContent>
+          <Stack gap={4}>
+            {error && <div style={{ color: 'var(--color-loss)' }}>❌ {error}</div>}
+            {success && <div style={{ color: 'var(--color-profit)' }}>✅ {success}</div>}
+
+            {isLoading ? (
+              <div style={{ color: 'var(--text-secondary)' }}>Loading security settings...</div>
+            ) : renderTwoFactor()}
+
+            {recoveryCodes && (
+              <div className="account-card">
+                <Stack gap={2}>
+                  <div style={{ fontWeight: '500' }}>Recovery codes</div>
+                  <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                    Each code logs you in once if you lose your phone. Save them somewhere safe; they are not shown again.
+                  </div>
+                  <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '0.25rem', fontFamily: 'monospace' }}>
+                    {recoveryCodes.map(code => <span key={code}>{code}</span>)}
+                  </div>
+                  <Flex gap={2}>
+                    <Button size="sm" variant="outline" onClick={() => navigator.clipboard?.writeText(recoveryCodes.join('\n'))}>
+                      Copy
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setRecoveryCodes(null)}>
+                      I saved them
+                    </Button>
+                  </Flex>
+                </Stack>
+              </div>
+            )}
+          </Stack>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader
+          title="💻 Active Sessions"
+          subtitle="Devices logged in to your account"
+          action={sessions.length > 1 && (
+            <Button size="sm" variant="outline" onClick={handleRevokeOthers} disabled={busy !== null}>
+              {busy === 'others' ? 'Logging out...' : 'Log out other sessions'}
+            </Button>
+          )}
+        />
+        <CardContent>
+          <Stack gap={3}>
+            {!isLoading && sessions.length === 0 && (
+              <div style={{ color: 'var(--text-secondary)' }}>No active sessions</div>
+            )}
+            {sessions.map(session => (
+              <Flex key={session.id} justify="between" align="center" className="account-card">
+                <div>
+                  <Flex gap={2} align="center">
+                    <span style={{ fontWeight: '500' }}>{session.deviceName}</span>
+                    {session.current && <Badge variant="info" size="sm">This device</Badge>}
+                  </Flex>
+                  <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                    {session.ipAddress || 'Unknown IP'} · Signed in {formatDateTime(session.createdAt)} · Last active {formatDateTime(session.lastUsedAt)}
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button size="sm" variant="ghost" onClick={() => handleRevoke(session)} disabled={busy !== null}>
+                    {busy === session.id ? 'Logging out...' : 'Log out'}
+                  </Button>
+                )}
+              </Flex>
+            ))}
+          </Stack>
+        </CardContent>
+      </Card>
+    </Stack>
+  );
+};
+
+export default SecuritySettings;
@@ -20,6 +20,7 @@ const StatusBadge: React.FC<StatusBadgeProps> = ({ status, className = '' }) =>
       
       case 'PENDING':
       case 'PLACED':
+      case 'AMO_PLACED':
       case 'OPEN':
         return 'pending';
       
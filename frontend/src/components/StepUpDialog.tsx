@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from './ui';
+import { authService } from '../services/authService';
+import { setStepUpHandler } from '../services/authSession';
+import { useAuth } from '../hooks/useAuth';
+
+/**
+ * Asks the user to confirm their identity (authenticator code, or password
+ * without 2FA) when the server needs a fresh step-up before a sensitive
+ * operation such as a multi-account order. The request that asked for it is
+ * replayed once the user confirms.
+ */
+const StepUpDialog: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [twoFactorEnabled, setTwoFactorEnabled] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [value, setValue] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    setStepUpHandler(() => new Promise<boolean>(resolve => {
+      resolveRef.current = resolve;
+      setValue('');
+      setError('');
+      setUseRecoveryCode(false);
+      setOpen(true);
+
+      authService.getTwoFactorStatus()
+        .then(status => setTwoFactorEnabled(status.enabled))
+        .catch(() => setTwoFactorEnabled(false));
+    }));
+
+    return () => setStepUpHandler(null);
+  }, [isAuthenticated]);
+
+  const close = (confirmed: boolean) => {
+    setOpen(false);
+    resolveRef.current?.(confirmed);
+    resolveRef.current = null;
+  };
+
+  const handleConfirm = async () => {
+    if (!value.trim() || submitting) return;
+
+    setSubmitting(true);
+    setError('');
+    try {
+      if (!twoFactorEnabled) {
+        await authService.stepUp({ password: value });
+      } else if (useRecoveryCode) {
+        await authService.stepUp({ recoveryCode: value.trim() });
+      } else {
+        await authService.stepUp({ code: value.replace(/\s/g, '') });
+      }
+      close(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not confirm your identity');
+      setValue('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!open) return null;
+
+  const label = !twoFactorEnabled
+    ? 'Password'
+    : useRecoveryCode ? 'Recovery code' : 'Authenticator code';
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="step-up-title"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 10000
+      }}
+    >
+      <div className="card" style={{ width: '100%', maxWidth: '380px', padding: '1.5rem' }}>
+        <h3 id="step-up-title" style={{ marginTop: 0 }}>🔐 Confirm it's you</h3>
+        <p style={{ color: 'var(--text-secondary)', fontSize: '0.875rem' }}>
+          This action affects your broker accounts. {twoFactorEnabled
+            ? 'Enter a code from your authenticator app to continue.'
+            : 'Enter your password to continue.'}
+        </p>
+
+        <label className="form-label" htmlFor="step-up-input">{label}</label>
+        <input
+          id="step-up-input"
+          className="form-input"
+          type={twoFactorEnabled ? 'text' : 'password'}
+          inputMode={twoFactorEnabled && !useRecoveryCode ? 'numeric' : 'text'}
+          autoComplete={twoFactorEnabled ? 'one-time-code' : 'current-password'}
+          autoFocus
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleConfirm();
+            if (e.key === 'Escape') close(false);
+          }}
+          disabled={submitting}
+        />
+
+        {error && (
+          <div style={{ color: 'var(--color-loss)', fontSize: '0.875rem', marginTop: '0.5rem' }}>{error}</div>
+        )}
+
+        {twoFactorEnabled && (
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setValue('');
+              setError('');
+            }}
+            style={{
+              background: 'none',
+              border: 'none',
+              color: 'var(--text-secondary)',
+              fontSize: '0.8rem',
+              cursor: 'pointer',
+              padding: 0,
+              marginTop: '0.5rem'
+            }}
+          >
+            {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+          </button>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '0.5rem', marginTop: '1.25rem' }}>
+          <Button variant="ghost" onClick={() => close(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleConfirm} loading={submitting} disabled={!value.trim()}>
+            Confirm
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StepUpDialog;
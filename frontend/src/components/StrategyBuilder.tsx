@@ -0,0 +1,481 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  brokerService,
+  type StrategyLegRequest,
+  type StrategyPreview,
+  type StrategyType
+} from '../services/brokerService';
+import { marketDataService, type OptionChain } from '../services/marketDataService';
+import {
+  Card,
+  CardHeader,
+  CardContent,
+  CardFooter,
+  Button,
+  Stack,
+  Flex,
+  Grid
+} from './ui';
+
+type TemplateKey = 'BULL_CALL_SPREAD' | 'BEAR_PUT_SPREAD' | 'LONG_STRADDLE' | 'SHORT_STRADDLE' |
+  'LONG_STRANGLE' | 'SHORT_STRANGLE' | 'IRON_CONDOR' | 'CUSTOM';
+
+interface LegForm {
+  action: 'BUY' | 'SELL';
+  optionType: 'CE' | 'PE';
+  strike: string;
+  premium: string;
+  orderType: 'MARKET' | 'LIMIT';
+  price: string;
+}
+
+// Template legs are placed a number of strikes away from the at-the-money strike
+const TEMPLATES: Record<TemplateKey, {
+  label: string;
+  strategyType: StrategyType;
+  legs: Array<{ action: 'BUY' | 'SELL'; optionType: 'CE' | 'PE'; offset: number }>;
+}> = {
+  BULL_CALL_SPREAD: {
+    label: 'Bull call spread',
+    strategyType: 'SPREAD',
+    legs: [{ action: 'BUY', optionType: 'CE', offset: 0 }, { action: 'SELL', optionType: 'CE', offset: 2 }]
+  },
+  BEAR_PUT_SPREAD: {
+    label: 'Bear put spread',
+    strategyType: 'SPREAD',
+    legs: [{ action: 'BUY', optionType: 'PE', offset: 0 }, { action: 'SELL', optionType: 'PE', offset: -2 }]
+  },
+  LONG_STRADDLE: {
+    label: 'Long straddle',
+    strategyType: 'STRADDLE',
+    legs: [{ action: 'BUY', optionType: 'CE', offset: 0 }, { action: 'BUY', optionType: 'PE', offset: 0 }]
+  },
+  SHORT_STRADDLE: {
+    label: 'Short straddle',
+    strategyType: 'STRADDLE',
+    legs: [{ action: 'SELL', optionType: 'CE', offset: 0 }, { action: 'SELL', optionType: 'PE', offset: 0 }]
+  },
+  LONG_STRANGLE: {
+    label: 'Long strangle',
+    strategyType: 'STRANGLE',
+    legs: [{ action: 'BUY', optionType: 'CE', offset: 2 }, { action: 'BUY', optionType: 'PE', offset: -2 }]
+  },
+  SHORT_STRANGLE: {
+    label: 'Short strangle',
+    strategyType: 'STRANGLE',
+    legs: [{ action: 'SELL', optionType: 'CE', offset: 2 }, { action: 'SELL', optionType: 'PE', offset: -2 }]
+  },
+  IRON_CONDOR: {
+    label: 'Iron condor',
+    strategyType: 'IRON_CONDOR',
+    legs: [
+      { action: 'SELL', optionType: 'PE', offset: -2 },
+      { action: 'BUY', optionType: 'PE', offset: -4 },
+      { action: 'SELL', optionType: 'CE', offset: 2 },
+      { action: 'BUY', optionType: 'CE', offset: 4 }
+    ]
+  },
+  CUSTOM: {
+    label: 'Custom',
+    strategyType: 'CUSTOM',
+    legs: []
+  }
+};
+
+const emptyLeg: LegForm = { action: 'BUY', optionType: 'CE', strike: '', premium: '', orderType: 'MARKET', price: '' };
+
+const formatAmount = (amount: number | null): string =>
+  amount === null
+    ? 'Unlimited'
+    : `₹${new Intl.NumberFormat('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount)}`;
+
+interface StrategyBuilderProps {
+  selectedAccounts: string[];
+}
+
+const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ selectedAccounts }) => {
+  const [underlying, setUnderlying] = useState('NIFTY');
+  const [exchange, setExchange] = useState<'NFO' | 'BFO' | 'MCX'>('NFO');
+  const [chain, setChain] = useState<OptionChain | null>(null);
+  const [template, setTemplate] = useState<TemplateKey>('IRON_CONDOR');
+  const [lots, setLots] = useState('1');
+  const [productType, setProductType] = useState<'NRML' | 'MIS'>('NRML');
+  const [onLegFailure, setOnLegFailure] = useState<'ROLLBACK' | 'ALERT'>('ROLLBACK');
+  const [legs, setLegs] = useState<LegForm[]>([]);
+  const [preview, setPreview] = useState<StrategyPreview | null>(null);
+  const [loadingChain, setLoadingChain] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadChain = async (expiry?: string) => {
+    try {
+      setLoadingChain(true);
+      setError(null);
+      const optionChain = await marketDataService.getOptionChain(underlying.trim().toUpperCase(), exchange, expiry);
+      if (!optionChain) {
+        throw new Error(`No options found for ${underlying}`);
+      }
+      setChain(optionChain);
+      applyTemplate(template, optionChain);
+    } catch (error: unknown) {
+      setChain(null);
+      setLegs([]);
+      setError(error instanceof Error ? error.message : 'Failed to load option chain');
+    } finally {
+      setLoadingChain(false);
+    }
+  };
+
+  const applyTemplate = (key: TemplateKey, optionChain: OptionChain | null = chain) => {
+    setTemplate(key);
+    if (!optionChain || optionChain.rows.length === 0) {
+      setLegs([]);
+      return;
+    }
+
+    const strikes = optionChain.rows.map(row => row.strike);
+    const atmStrike = optionChain.atmStrike ?? strikes[Math.floor(strikes.length / 2)];
+    const atmIndex = Math.max(strikes.indexOf(atmStrike as number), 0);
+    setLegs(TEMPLATES[key].legs.map(leg => ({
+      ...emptyLeg,
+      action: leg.action,
+      optionType: leg.optionType,
+      strike: String(strikes[Math.min(Math.max(atmIndex + leg.offset, 0), strikes.length - 1)])
+    })));
+  };
+
+  const updateLeg = (index: number, updates: Partial<LegForm>) => {
+    setLegs(prev => prev.map((leg, legIndex) => (legIndex === index ? { ...leg, ...updates } : leg)));
+  };
+
+  // Resolve each leg to its contract; null until every leg has a contract and a premium
+  const legRequests = useMemo((): StrategyLegRequest[] | null => {
+    const quantity = (parseInt(lots) || 0) * (chain?.lotSize || 0);
+    if (!chain || legs.length === 0 || quantity <= 0) {
+      return null;
+    }
+
+    const requests: StrategyLegRequest[] = [];
+    for (const leg of legs) {
+      const contract = chain.rows.find(row => row.strike === Number(leg.strike))?.[leg.optionType];
+      if (!contract || leg.premium === '' || (leg.orderType === 'LIMIT' && !leg.price)) {
+        return null;
+      }
+      requests.push({
+        symbol: contract.tradingSymbol,
+        exchange: contract.exchange,
+        action: leg.action,
+        quantity,
+        optionType: leg.optionType,
+        strike: contract.strike ?? undefined,
+        expiry: contract.expiry,
+        orderType: leg.orderType,
+        ...(leg.orderType === 'LIMIT' && { price: parseFloat(leg.price) }),
+        premium: parseFloat(leg.premium),
+        productType
+      });
+    }
+    return requests;
+  }, [chain, legs, lots, productType]);
+
+  // Recompute the payoff whenever the legs change
+  useEffect(() => {
+    if (!legRequests) {
+      setPreview(null);
+      return;
+    }
+
+    const timeoutId = setTimeout(async () => {
+      const response = await brokerService.previewStrategyOrder(legRequests);
+      setPreview(response.success && response.data ? response.data : null);
+    }, 400);
+
+    return () => clearTimeout(timeoutId);
+  }, [legRequests]);
+
+  const handleSubmit = async () => {
+    if (!legRequests || !chain) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      setSuccess(null);
+
+      const response = await brokerService.placeStrategyOrder({
+        selectedAccounts,
+        name: `${chain.underlying} ${TEMPLATES[template].label} ${chain.expiry}`,
+        strategyType: TEMPLATES[template].strategyType,
+        underlying: chain.underlying,
+        onLegFailure,
+        legs: legRequests
+      });
+
+      const failures = (response.data?.strategyOrder.account_results || [])
+        .filter(result => result.status !== 'PLACED')
+        .map(result => `${result.account_id}: ${result.status.replace('_', ' ').toLowerCase()}${result.error ? ` (${result.error})` : ''}`);
+      if (response.success && failures.length === 0) {
+        setSuccess(response.message || 'Strategy placed');
+      } else {
+        setError([response.message || 'Failed to place strategy', ...failures].join(' · '));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader
+        title="Options Strategy"
+        subtitle="Place spreads, straddles, strangles and iron condors as one basket on the selected accounts"
+      />
+      <CardContent>
+        <Stack gap={4}>
+          {error && <div style={{ color: 'var(--color-loss)' }}>❌ {error}</div>}
+          {success && <div style={{ color: 'var(--color-profit)' }}>✅ {success}</div>}
+
+          <Grid cols={4} gap={4}>
+            <div>
+              <label className="form-label">Underlying</label>
+              <input
+                type="text"
+                value={underlying}
+                onChange={(e) => setUnderlying(e.target.value.toUpperCase())}
+                className="form-input"
+              />
+            </div>
+            <div>
+              <label className="form-label">Exchange</label>
+              <select
+                value={exchange}
+                onChange={(e) => setExchange(e.target.value as 'NFO' | 'BFO' | 'MCX')}
+                className="form-input"
+              >
+                <option value="NFO">NFO</option>
+                <option value="BFO">BFO</option>
+                <option value="MCX">MCX</option>
+              </select>
+            </div>
+            <div>
+              <label className="form-label">Expiry</label>
+              <select
+                value={chain?.expiry || ''}
+                onChange={(e) => loadChain(e.target.value)}
+                className="form-input"
+                disabled={!chain}
+              >
+                {(chain?.expiries || []).map(expiry => (
+                  <option key={expiry} value={expiry}>{expiry}</option>
+                ))}
+              </select>
+            </div>
+            <div style={{ alignSelf: 'end' }}>
+              <Button onClick={() => loadChain()} disabled={loadingChain || !underlying.trim()}>
+                {loadingChain ? 'Loading...' : 'Load Option Chain'}
+              </Button>
+            </div>
+          </Grid>
+
+          {chain && (
+            <>
+              <Grid cols={4} gap={4}>
+                <div>
+                  <label className="form-label">Strategy</label>
+                  <select
+                    value={template}
+                    onChange={(e) => applyTemplate(e.target.value as TemplateKey)}
+                    className="form-input"
+                  >
+                    {(Object.keys(TEMPLATES) as TemplateKey[]).map(key => (
+                      <option key={key} value={key}>{TEMPLATES[key].label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="form-label">Lots (lot size {chain.lotSize})</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={lots}
+                    onChange={(e) => setLots(e.target.value)}
+                    className="form-input"
+                  />
+                </div>
+                <div>
+                  <label className="form-label">Product</label>
+                  <select
+                    value={productType}
+                    onChange={(e) => setProductType(e.target.value as 'NRML' | 'MIS')}
+                    className="form-input"
+                  >
+                    <option value="NRML">NRML</option>
+                    <option value="MIS">MIS</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="form-label">If a leg fails</label>
+                  <select
+                    value={onLegFailure}
+                    onChange={(e) => setOnLegFailure(e.target.value as 'ROLLBACK' | 'ALERT')}
+                    className="form-input"
+                  >
+                    <option value="ROLLBACK">Roll back placed legs</option>
+                    <option value="ALERT">Keep placed legs and alert me</option>
+                  </select>
+                </div>
+              </Grid>
+
+              {chain.spotPrice !== null && (
+                <div style={{ fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+                  Spot {chain.spotPrice} · ATM strike {chain.atmStrike}
+                </div>
+              )}
+
+              {legs.map((leg, index) => (
+                <div key={index} className="account-card">
+                  <Grid cols={6} gap={3}>
+                    <div>
+                      <label className="form-label">Leg {index + 1}</label>
+                      <select
+                        value={leg.action}
+                        onChange={(e) => updateLeg(index, { action: e.target.value as 'BUY' | 'SELL' })}
+                        className="form-input"
+                        style={{ color: leg.action === 'BUY' ? 'var(--color-profit)' : 'var(--color-loss)' }}
+                      >
+                        <option value="BUY">BUY</option>
+                        <option value="SELL">SELL</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="form-label">Strike</label>
+                      <select
+                        value={leg.strike}
+                        onChange={(e) => updateLeg(index, { strike: e.target.value })}
+                        className="form-input"
+                      >
+                        {chain.rows.map(row => (
+                          <option key={row.strike} value={row.strike}>{row.strike}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="form-label">Type</label>
+                      <select
+                        value={leg.optionType}
+                        onChange={(e) => updateLeg(index, { optionType: e.target.value as 'CE' | 'PE' })}
+                        className="form-input"
+                      >
+                        <option value="CE">CE</option>
+                        <option value="PE">PE</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="form-label">Premium</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.05"
+                        value={leg.premium}
+                        onChange={(e) => updateLeg(index, { premium: e.target.value })}
+                        className="form-input"
+                      />
+                    </div>
+                    <div>
+                      <label className="form-label">Order</label>
+                      <select
+                        value={leg.orderType}
+                        onChange={(e) => updateLeg(index, { orderType: e.target.value as 'MARKET' | 'LIMIT' })}
+                        className="form-input"
+                      >
+                        <option value="MARKET">MARKET</option>
+                        <option value="LIMIT">LIMIT</option>
+                      </select>
+                    </div>
+                    <Flex align="end" gap={2}>
+                      {leg.orderType === 'LIMIT' && (
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.05"
+                          placeholder="Limit"
+                          value={leg.price}
+                          onChange={(e) => updateLeg(index, { price: e.target.value })}
+                          className="form-input"
+                        />
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setLegs(prev => prev.filter((_, legIndex) => legIndex !== index))}
+                      >
+                        ✕
+                      </Button>
+                    </Flex>
+                  </Grid>
+                </div>
+              ))}
+
+              <div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setLegs(prev => [...prev, { ...emptyLeg, strike: String(chain.atmStrike ?? chain.rows[0]?.strike ?? '') }])}
+                  disabled={legs.length >= 8}
+                >
+                  + Add Leg
+                </Button>
+              </div>
+
+              {preview && (
+                <div className="account-card">
+                  <Stack gap={2}>
+                    <Flex justify="between">
+                      <span>Net {preview.netPremium >= 0 ? 'credit' : 'debit'}:</span>
+                      <span style={{ fontFamily: 'var(--font-mono)' }}>{formatAmount(Math.abs(preview.netPremium))}</span>
+                    </Flex>
+                    <Flex justify="between">
+                      <span>Max profit:</span>
+                      <span style={{ fontFamily: 'var(--font-mono)', color: 'var(--color-profit)' }}>{formatAmount(preview.maxProfit)}</span>
+                    </Flex>
+                    <Flex justify="between">
+                      <span>Max loss:</span>
+                      <span style={{ fontFamily: 'var(--font-mono)', color: 'var(--color-loss)' }}>{formatAmount(preview.maxLoss)}</span>
+                    </Flex>
+                    <Flex justify="between">
+                      <span>Breakevens:</span>
+                      <span style={{ fontFamily: 'var(--font-mono)' }}>{preview.breakevens.join(', ') || '—'}</span>
+                    </Flex>
+                    <div style={{ fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+                      Order of placement: {preview.executionOrder.map(index => `Leg ${index + 1}`).join(' → ')} (hedges first)
+                    </div>
+                    {preview.legErrors.map(legError => (
+                      <div key={legError.legIndex} style={{ fontSize: '0.875rem', color: 'var(--color-loss)' }}>
+                        Leg {legError.legIndex + 1}: {legError.error}
+                      </div>
+                    ))}
+                  </Stack>
+                </div>
+              )}
+            </>
+          )}
+        </Stack>
+      </CardContent>
+      <CardFooter>
+        <Button
+          variant="primary"
+          onClick={handleSubmit}
+          disabled={submitting || !legRequests || selectedAccounts.length === 0 || (preview?.legErrors.length ?? 0) > 0}
+          style={{ width: '100%' }}
+        >
+          {submitting
+            ? `Placing Strategy on ${selectedAccounts.length} Account${selectedAccounts.length > 1 ? 's' : ''}...`
+            : `Place Strategy on ${selectedAccounts.length} Account${selectedAccounts.length > 1 ? 's' : ''}`
+          }
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default StrategyBuilder;
@@ -3,7 +3,8 @@ import { useFormValidation, commonValidationRules } from '../hooks/useFormValida
 import { Input, Button, Select } from './ui';
 import { Checkbox } from './ui/Checkbox';
 import type { ConnectedAccount } from '../services/accountService';
-import { brokerService } from '../services/brokerService';
+import { brokerService, type OrderVariety } from '../services/brokerService';
+import { useRealTimeData } from '../hooks/useRealTimeData';
 
 type SearchResult = { symbol: string; name: string };
 
@@ -22,6 +23,7 @@ interface TradingFormProps {
     orderType: 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET';
     product: 'CNC' | 'MIS' | 'NRML';
     validity: 'DAY' | 'IOC';
+    variety: OrderVariety;
     selectedAccounts: string[];
   }) => Promise<void>;
   onOrderResult?: (result: {
@@ -53,7 +55,17 @@ const TradingForm: React.FC<TradingFormProps> = ({
   const [orderType, setOrderType] = React.useState<'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET'>('MARKET');
   const [product, setProduct] = React.useState<'CNC' | 'MIS' | 'NRML'>('CNC');
   const [validity, setValidity] = React.useState<'DAY' | 'IOC'>('DAY');
+  const [variety, setVariety] = React.useState<OrderVariety>('REGULAR');
   const [selectedAccounts, setSelectedAccounts] = React.useState<string[]>([]);
+  const { marketStatus } = useRealTimeData();
+
+  // Brokers queue after-market orders from the post-close session until the next open
+  const isAmoWindow = marketStatus?.phase === 'POST_CLOSE' || marketStatus?.phase === 'CLOSED';
+
+  // Propose an AMO while the market is closed and go back to regular orders when it opens
+  React.useEffect(() => {
+    setVariety(isAmoWindow ? 'AMO' : 'REGULAR');
+  }, [isAmoWindow]);
 
   // Initialize selected accounts when connectedAccounts change
   React.useEffect(() => {
@@ -136,6 +148,7 @@ const TradingForm: React.FC<TradingFormProps> = ({
         triggerPrice: formData.triggerPrice ? parseFloat(formData.triggerPrice) : undefined,
         exchange,
         productType: product,
+        variety,
         remarks: `Multi-account order placed via CopyTrade Pro`
       };
 
@@ -144,6 +157,11 @@ const TradingForm: React.FC<TradingFormProps> = ({
       // Notify parent component of the result
       onOrderResult?.(result);
 
+      // The market closed while the order was being filled in: switch to AMO for the retry
+      if (result.data?.failedOrders.some(order => order.suggestedVariety === 'AMO')) {
+        setVariety('AMO');
+      }
+
       // If using legacy onSubmit prop, call it as well
       if (onSubmit) {
         await onSubmit({
@@ -153,6 +171,7 @@ const TradingForm: React.FC<TradingFormProps> = ({
           orderType,
           product,
           validity,
+          variety,
           selectedAccounts
         });
       }
@@ -331,6 +350,20 @@ const TradingForm: React.FC<TradingFormProps> = ({
         </Select>
       </div>
 
+      {/* After-market order */}
+      <Select
+        label="Variety"
+        value={variety}
+        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setVariety(e.target.value as OrderVariety)}
+        helperText={isAmoWindow
+          ? `${marketStatus?.status || 'Market Closed'}: AMOs are sent to the exchange when the market opens`
+          : undefined}
+        fullWidth
+      >
+        <option value="REGULAR">Regular</option>
+        <option value="AMO">After-market order (AMO)</option>
+      </Select>
+
       {/* Account Selection */}
       <div className="trading-account-selection-container">
         <div className="trading-account-selection-header">
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import '../styles/app-theme.css';
+
+interface TwoFactorLoginStepProps {
+  email: string;
+  onBack: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '1rem',
+  fontSize: '1.25rem',
+  letterSpacing: '0.25rem',
+  textAlign: 'center',
+  border: '2px solid var(--border-secondary)',
+  borderRadius: 'var(--radius-md)',
+  backgroundColor: 'var(--bg-secondary)',
+  color: 'var(--text-primary)',
+  outline: 'none',
+  boxSizing: 'border-box',
+  marginBottom: '1.5rem'
+};
+
+const linkStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  color: 'var(--text-secondary)',
+  fontSize: '0.875rem',
+  cursor: 'pointer'
+};
+
+/**
+ * Second login step for accounts with two-factor authentication
+ */
+const TwoFactorLoginStep: React.FC<TwoFactorLoginStepProps> = ({ email, onBack }) => {
+  const { verifyTwoFactor } = useAuth();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const canSubmit = useRecoveryCode ? code.trim().length >= 10 : /^\d{6}$/.test(code.replace(/\s/g, ''));
+
+  const handleVerify = async () => {
+    if (loading || !canSubmit) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      await verifyTwoFactor(useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.replace(/\s/g, '') });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed. Please try again.');
+      setCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="app-theme app-layout" style={{
+      minHeight: '100vh',
+      backgroundColor: 'var(--bg-primary)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '2rem'
+    }}>
+      <div style={{ width: '100%', maxWidth: '400px', textAlign: 'center' }}>
+        <div style={{ fontSize: '2.5rem', marginBottom: '1rem' }}>🔐</div>
+        <h2 style={{ color: 'var(--text-primary)', margin: '0 0 0.5rem' }}>Two-factor authentication</h2>
+        <p style={{ color: 'var(--text-secondary)', fontSize: '0.875rem', marginBottom: '2rem' }}>
+          {useRecoveryCode
+            ? `Enter one of the recovery codes saved for ${email}.`
+            : `Enter the 6-digit code from your authenticator app for ${email}.`}
+        </p>
+
+        <input
+          type="text"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          autoFocus
+          placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+          value={code}
+          maxLength={useRecoveryCode ? 20 : 7}
+          onChange={(e) => {
+            setCode(e.target.value);
+            if (error) setError('');
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleVerify();
+          }}
+          disabled={loading}
+          style={{ ...inputStyle, borderColor: error ? 'var(--color-loss)' : 'var(--border-secondary)' }}
+        />
+
+        {error && (
+          <div style={{
+            padding: '0.75rem',
+            backgroundColor: 'var(--bg-loss-light)',
+            border: '1px solid var(--color-loss)',
+            borderRadius: 'var(--radius-md)',
+            color: 'var(--color-loss)',
+            fontSize: '0.875rem',
+            marginBottom: '1.5rem',
+            textAlign: 'left'
+          }}>
+            {error}
+          </div>
+        )}
+
+        <button
+          onClick={handleVerify}
+          disabled={loading || !canSubmit}
+          style={{
+            width: '100%',
+            padding: '1rem',
+            fontSize: '1rem',
+            fontWeight: '600',
+            border: 'none',
+            borderRadius: 'var(--radius-md)',
+            backgroundColor: loading || !canSubmit ? 'var(--bg-tertiary)' : 'var(--interactive-secondary)',
+            color: loading || !canSubmit ? 'var(--text-secondary)' : 'white',
+            cursor: loading || !canSubmit ? 'not-allowed' : 'pointer',
+            marginBottom: '1.5rem'
+          }}
+        >
+          {loading ? 'Verifying...' : 'Verify'}
+        </button>
+
+        <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+          <button style={linkStyle} onClick={onBack} disabled={loading}>
+            ← Back to login
+          </button>
+          <button
+            style={linkStyle}
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode('');
+              setError('');
+            }}
+            disabled={loading}
+          >
+            {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorLoginStep;
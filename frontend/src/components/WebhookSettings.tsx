@@ -0,0 +1,377 @@
+import React, { useState, useEffect } from 'react';
+import {
+  webhookService,
+  type CreatedWebhook,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEvent
+} from '../services/webhookService';
+import {
+  Card,
+  CardHeader,
+  CardContent,
+  Button,
+  Badge,
+  Stack,
+  Flex,
+  Grid,
+  Checkbox
+} from './ui';
+
+const formatDateTime = (value: string): string => new Date(value).toLocaleString();
+
+const EVENTS: Array<{ value: WebhookEvent; label: string }> = [
+  { value: 'order.placed', label: 'Order placed' },
+  { value: 'order.filled', label: 'Order filled' },
+  { value: 'order.rejected', label: 'Order rejected' },
+  { value: 'order.cancelled', label: 'Order cancelled' },
+  { value: 'account.session_expired', label: 'Account session expired' },
+  { value: 'alert.triggered', label: 'Alert triggered' }
+];
+
+const STATUS_BADGES: Record<WebhookDeliveryStatus, 'success' | 'warning' | 'error' | 'info'> = {
+  PENDING: 'info',
+  DELIVERED: 'success',
+  RETRYING: 'warning',
+  DEAD_LETTER: 'error'
+};
+
+interface WebhookForm {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+}
+
+const EMPTY_FORM: WebhookForm = {
+  name: '',
+  url: '',
+  events: ['order.placed', 'order.filled', 'order.rejected', 'order.cancelled']
+};
+
+// What the endpoint answered, or when the next attempt is
+const describeDelivery = (delivery: WebhookDelivery): string => {
+  const parts = [`${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`];
+  if (delivery.lastStatusCode) parts.push(`HTTP ${delivery.lastStatusCode}`);
+  if (delivery.status === 'RETRYING' && delivery.nextAttemptAt) parts.push(`next try ${formatDateTime(delivery.nextAttemptAt)}`);
+  return parts.join(' · ');
+};
+
+const WebhookSettings: React.FC = () => {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deadLetters, setDeadLetters] = useState<WebhookDelivery[]>([]);
+  const [form, setForm] = useState<WebhookForm | null>(null);
+  const [created, setCreated] = useState<CreatedWebhook | null>(null);
+  const [logWebhookId, setLogWebhookId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [webhookList, deadLetterList] = await Promise.all([
+        webhookService.getWebhooks(),
+        webhookService.getDeadLetters()
+      ]);
+      setWebhooks(webhookList);
+      setDeadLetters(deadLetterList.deliveries);
+    } catch (error: unknown) {
+      console.error('Failed to load webhooks:', error);
+      setError((error as Error).message || 'Failed to load webhooks');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Runs an action with the shared busy/error/success handling
+  const run = async (key: string, action: () => Promise<string | void>) => {
+    setError(null);
+    setSuccess(null);
+
+    try {
+      setBusy(key);
+      const message = await action();
+      if (message) {
+        setSuccess(message);
+      }
+    } catch (error: unknown) {
+      setError((error as Error).message || 'Something went wrong');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const updateForm = (changes: Partial<WebhookForm>) => setForm(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    if (!form) return;
+    updateForm({ events: checked ? [...form.events, event] : form.events.filter(item => item !== event) });
+  };
+
+  const loadDeliveries = async (webhookId: string) => {
+    const log = await webhookService.getDeliveries(webhookId, { limit: 25 });
+    setLogWebhookId(webhookId);
+    setDeliveries(log.deliveries);
+  };
+
+  const handleCreate = () => form && run('create', async () => {
+    const webhook = await webhookService.createWebhook({
+      name: form.name.trim(),
+      url: form.url.trim(),
+      events: form.events
+    });
+    setCreated(webhook);
+    setForm(null);
+    setWebhooks(prev => [webhook, ...prev]);
+    return `Created ${webhook.name}`;
+  });
+
+  const handleToggleActive = (webhook: Webhook) => run(webhook.id, async () => {
+    const updated = await webhookService.updateWebhook(webhook.id, { isActive: !webhook.isActive });
+    setWebhooks(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+    return `${updated.isActive ? 'Resumed' : 'Paused'} ${updated.name}`;
+  });
+
+  const handleTest = (webhook: Webhook) => run(webhook.id, async () => {
+    const delivery = await webhookService.sendTestEvent(webhook.id);
+    if (logWebhookId === webhook.id) {
+      setDeliveries(prev => [delivery, ...prev]);
+    }
+    if (delivery.status !== 'DELIVERED') {
+      throw new Error(`Test event to ${webhook.name} failed: ${delivery.lastError || 'no answer'}`);
+    }
+    return `Test event delivered to ${webhook.name} (HTTP ${delivery.lastStatusCode})`;
+  });
+
+  const handleShowLog = (webhook: Webhook) => {
+    if (logWebhookId === webhook.id) {
+      setLogWebhookId(null);
+      return;
+    }
+    run(webhook.id, () => loadDeliveries(webhook.id));
+  };
+
+  const handleDelete = (webhook: Webhook) => {
+    if (!confirm(`Delete ${webhook.name}? Its delivery log is deleted too.`)) {
+      return;
+    }
+    run(webhook.id, async () => {
+      await webhookService.deleteWebhook(webhook.id);
+      setWebhooks(prev => prev.filter(item => item.id !== webhook.id));
+      setDeadLetters(prev => prev.filter(item => item.subscriptionId !== webhook.id));
+      if (logWebhookId === webhook.id) {
+        setLogWebhookId(null);
+      }
+      return `Deleted ${webhook.name}`;
+    });
+  };
+
+  const handleRedeliver = (delivery: WebhookDelivery) => run(delivery.id, async () => {
+    const redelivered = await webhookService.redeliver(delivery.id);
+    if (redelivered.status !== 'DELIVERED') {
+      throw new Error(`Redelivery failed: ${redelivered.lastError || 'no answer'}`);
+    }
+    setDeadLetters(prev => prev.filter(item => item.id !== delivery.id));
+    return `Delivered ${delivery.event}`;
+  });
+
+  const webhookName = (webhookId: string): string => webhooks.find(item => item.id === webhookId)?.name || 'Deleted webhook';
+
+  const renderDelivery = (delivery: WebhookDelivery, showWebhook: boolean) => (
+    <div key={delivery.id} className="account-card">
+      <Flex justify="between" align="center">
+        <Flex gap={2} align="center">
+          <Badge variant={STATUS_BADGES[delivery.status]} size="sm">{delivery.status}</Badge>
+          <code style={{ fontSize: '0.75rem' }}>{delivery.event}</code>
+          {showWebhook && <span style={{ color: 'var(--text-secondary)' }}>→ {webhookName(delivery.subscriptionId)}</span>}
+        </Flex>
+        <Flex gap={2} align="center">
+          <span style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>{formatDateTime(delivery.createdAt)}</span>
+          {delivery.status === 'DEAD_LETTER' && (
+            <Button size="sm" variant="outline" onClick={() => handleRedeliver(delivery)} disabled={busy !== null}>
+              {busy === delivery.id ? 'Sending...' : 'Redeliver'}
+            </Button>
+          )}
+        </Flex>
+      </Flex>
+      <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>{describeDelivery(delivery)}</div>
+      {delivery.lastError && (
+        <div style={{ fontSize: '0.75rem', color: 'var(--color-loss)' }}>{delivery.lastError}</div>
+      )}
+    </div>
+  );
+
+  const renderForm = (webhookForm: WebhookForm) => (
+    <div className="account-card">
+      <Stack gap={4}>
+        <Grid cols={2} gap={4}>
+          <div>
+            <label className="form-label">Name</label>
+            <input
+              type="text"
+              value={webhookForm.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+              placeholder="Bookkeeping"
+              className="form-input"
+            />
+          </div>
+          <div>
+            <label className="form-label">Endpoint URL</label>
+            <input
+              type="url"
+              value={webhookForm.url}
+              onChange={(e) => updateForm({ url: e.target.value })}
+              placeholder="https://example.com/copytrade-webhook"
+              className="form-input"
+            />
+          </div>
+        </Grid>
+
+        <Flex gap={4} align="center">
+          {EVENTS.map(event => (
+            <Checkbox
+              key={event.value}
+              checked={webhookForm.events.includes(event.value)}
+              onChange={(checked) => toggleEvent(event.value, checked)}
+              label={event.label}
+              size="sm"
+            />
+          ))}
+        </Flex>
+
+        <Flex gap={2}>
+          <Button
+            size="sm"
+            onClick={handleCreate}
+            disabled={busy !== null || !webhookForm.name.trim() || !webhookForm.url.trim() || webhookForm.events.length === 0}
+          >
+            {busy === 'create' ? 'Creating...' : 'Create webhook'}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setForm(null)} disabled={busy !== null}>
+            Cancel
+          </Button>
+        </Flex>
+      </Stack>
+    </div>
+  );
+
+  return (
+    <Stack gap={6}>
+      <Card>
+        <CardHeader
+          title="🪝 Webhooks"
+          subtitle="Send order, session and alert events to your bookkeeping tools and bots"
+          action={!form && (
+            <Button size="sm" onClick={() => setForm(EMPTY_FORM)} disabled={busy !== null}>
+              New webhook
+            </Button>
+          )}
+        />
+        <CardContent>
+          <Stack gap={4}>
+            {error && <div style={{ color: 'var(--color-loss)' }}>❌ {error}</div>}
+            {success && <div style={{ color: 'var(--color-profit)' }}>✅ {success}</div>}
+
+            {created && (
+              <div className="account-card">
+                <Stack gap={2}>
+                  <div style={{ fontWeight: '500' }}>{created.name}</div>
+                  <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                    Verify X-Signature on each delivery with this secret. Save it somewhere safe; it is not shown again.
+                  </div>
+                  <div style={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>Signing secret: {created.secret}</div>
+                  <Flex gap={2}>
+                    <Button size="sm" variant="outline" onClick={() => navigator.clipboard?.writeText(created.secret)}>
+                      Copy
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setCreated(null)}>
+                      I saved it
+                    </Button>
+                  </Flex>
+                </Stack>
+              </div>
+            )}
+
+            {form && renderForm(form)}
+
+            {isLoading && <div style={{ color: 'var(--text-secondary)' }}>Loading webhooks...</div>}
+            {!isLoading && webhooks.length === 0 && !form && (
+              <div style={{ color: 'var(--text-secondary)' }}>No webhooks yet</div>
+            )}
+
+            {webhooks.map(webhook => (
+              <Stack key={webhook.id} gap={2}>
+                <Flex justify="between" align="center" className="account-card">
+                  <div>
+                    <Flex gap={2} align="center">
+                      <span style={{ fontWeight: '500' }}>{webhook.name}</span>
+                      {!webhook.isActive && <Badge variant="warning" size="sm">Paused</Badge>}
+                    </Flex>
+                    <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', wordBreak: 'break-all' }}>{webhook.url}</div>
+                    <Flex gap={1} align="center">
+                      {webhook.events.map(event => <Badge key={event} variant="info" size="sm">{event}</Badge>)}
+                    </Flex>
+                  </div>
+                  <Flex gap={2}>
+                    <Button size="sm" variant="outline" onClick={() => handleTest(webhook)} disabled={busy !== null}>
+                      {busy === webhook.id ? 'Working...' : 'Send test event'}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleShowLog(webhook)} disabled={busy !== null}>
+                      {logWebhookId === webhook.id ? 'Hide log' : 'Delivery log'}
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleToggleActive(webhook)} disabled={busy !== null}>
+                      {webhook.isActive ? 'Pause' : 'Resume'}
+                    </Button>
+                    <Button size="sm" variant="danger" onClick={() => handleDelete(webhook)} disabled={busy !== null}>
+                      Delete
+                    </Button>
+                  </Flex>
+                </Flex>
+
+                {logWebhookId === webhook.id && (
+                  <Stack gap={2}>
+                    {deliveries.length === 0 && (
+                      <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>Nothing sent yet</div>
+                    )}
+                    {deliveries.map(delivery => renderDelivery(delivery, false))}
+                  </Stack>
+                )}
+              </Stack>
+            ))}
+          </Stack>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader
+          title="📮 Dead Letters"
+          subtitle="Events that could not be delivered after every retry"
+          action={(
+            <Button size="sm" variant="outline" onClick={loadSettings} disabled={isLoading}>
+              Refresh
+            </Button>
+          )}
+        />
+        <CardContent>
+          <Stack gap={3}>
+            {!isLoading && deadLetters.length === 0 && (
+              <div style={{ color: 'var(--text-secondary)' }}>No undelivered events</div>
+            )}
+            {deadLetters.map(delivery => renderDelivery(delivery, true))}
+          </Stack>
+        </CardContent>
+      </Card>
+    </Stack>
+  );
+};
+
+export default WebhookSettings;
@@ -131,6 +131,32 @@ describe('OrderResultDisplay', () => {
     expect(mockOnRetryFailed).toHaveBeenCalledWith([mockOrderResult.results[2]]);
   });
 
+  it('lists risk limit violations and leaves blocked orders out of retry', () => {
+    const riskBlockedResult: OrderResultSummary = {
+      ...mockOrderResult,
+      results: mockOrderResult.results.slice(0, 2).concat([{
+        accountId: 'acc3',
+        brokerName: 'FYERS',
+        brokerDisplayName: 'Fyers Account 2',
+        success: false,
+        error: 'Account limit: RELIANCE is on the restricted symbol list',
+        errorType: 'RISK_VIOLATION',
+        retryable: false,
+        riskViolations: [{
+          rule: 'RESTRICTED_SYMBOL',
+          scope: 'ACCOUNT',
+          message: 'Account limit: RELIANCE is on the restricted symbol list'
+        }]
+      }])
+    };
+
+    render(<OrderResultDisplay summary={riskBlockedResult} onRetryFailed={vi.fn()} />);
+
+    expect(screen.getByText('Risk Limit')).toBeInTheDocument();
+    expect(screen.getByText('Account limit: RELIANCE is on the restricted symbol list')).toBeInTheDocument();
+    expect(screen.queryByText(/Retry Failed Orders/)).not.toBeInTheDocument();
+  });
+
   it('shows correct status for all successful orders', () => {
     const allSuccessfulResult: OrderResultSummary = {
       ...mockOrderResult,
@@ -1,6 +1,15 @@
-import React, { createContext, useContext, useReducer, useEffect } from 'react';
-import type { User, AuthContextType, LoginCredentials, RegisterCredentials } from '../types/auth';
+import React, { createContext, useContext, useReducer, useEffect, useRef } from 'react';
+import type {
+  User,
+  AuthContextType,
+  AuthResponse,
+  LoginCredentials,
+  LoginResult,
+  RegisterCredentials,
+  TwoFactorCredentials,
+} from '../types/auth';
 import { authService } from '../services/authService';
+import { clearSessionTokens, resumeSessionRefresh, storeSessionTokens } from '../services/authSession';
 
 // Auth state interface
 interface AuthState {
@@ -68,6 +77,18 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 // Auth provider component
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
+  // Challenge from a password login that still needs the two-factor code
+  const challengeTokenRef = useRef<string | null>(null);
+
+  const completeLogin = (data: NonNullable<AuthResponse['data']>) => {
+    storeSessionTokens(data);
+    localStorage.setItem('user', JSON.stringify(data.user));
+
+    dispatch({
+      type: 'LOGIN_SUCCESS',
+      payload: { user: data.user, token: data.token },
+    });
+  };
 
   // Initialize auth state from localStorage
   useEffect(() => {
@@ -78,6 +99,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
         if (token && userStr) {
           const user = JSON.parse(userStr);
+          resumeSessionRefresh();
 
           // First, optimistically set the user as authenticated
           dispatch({
@@ -103,8 +125,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                   // Keep user logged in during development
                 } else {
                   console.warn('🔑 Token validation failed, logging out');
-                  localStorage.removeItem('token');
-                  localStorage.removeItem('user');
+                  clearSessionTokens();
                   dispatch({ type: 'LOGOUT' });
                 }
               }
@@ -137,23 +158,21 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   }, []);
 
   // Login function
-  const login = async (credentials: LoginCredentials): Promise<void> => {
+  const login = async (credentials: LoginCredentials): Promise<LoginResult> => {
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
       
       const response = await authService.login(credentials);
       
       if (response.success && response.data) {
-        const { user, token } = response.data;
-        
-        // Store in localStorage
-        localStorage.setItem('token', token);
-        localStorage.setItem('user', JSON.stringify(user));
-        
-        dispatch({
-          type: 'LOGIN_SUCCESS',
-          payload: { user, token },
-        });
+        if ('requiresTwoFactor' in response.data) {
+          challengeTokenRef.current = response.data.challengeToken;
+          dispatch({ type: 'SET_LOADING', payload: false });
+          return { requiresTwoFactor: true };
+        }
+
+        completeLogin(response.data);
+        return { requiresTwoFactor: false };
       } else {
         dispatch({ type: 'SET_LOADING', payload: false });
         throw new Error(response.message || 'Login failed');
@@ -164,6 +183,22 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Finish a login that needs a two-factor code
+  const verifyTwoFactor = async (credentials: TwoFactorCredentials): Promise<void> => {
+    const challengeToken = challengeTokenRef.current;
+    if (!challengeToken) {
+      throw new Error('Login attempt expired. Please log in again.');
+    }
+
+    const response = await authService.verifyTwoFactor(challengeToken, credentials);
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Two-factor verification failed');
+    }
+
+    challengeTokenRef.current = null;
+    completeLogin(response.data);
+  };
+
   // Register function
   const register = async (credentials: RegisterCredentials): Promise<void> => {
     try {
@@ -172,16 +207,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const response = await authService.register(credentials);
       
       if (response.success && response.data) {
-        const { user, token } = response.data;
-        
-        // Store in localStorage
-        localStorage.setItem('token', token);
-        localStorage.setItem('user', JSON.stringify(user));
-        
-        dispatch({
-          type: 'LOGIN_SUCCESS',
-          payload: { user, token },
-        });
+        completeLogin(response.data);
       } else {
         dispatch({ type: 'SET_LOADING', payload: false });
         throw new Error(response.message || 'Registration failed');
@@ -209,6 +235,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     isAuthenticated: state.isAuthenticated,
     loading: state.loading,
     login,
+    verifyTwoFactor,
     register,
     logout,
   };
@@ -9,6 +9,17 @@ import { eventBusService } from '../services/eventBusService';
 import { useResourceCleanup } from './useResourceCleanup';
 import { useAuth } from './useAuth';
 
+interface DepthLevel {
+  price: number;
+  quantity: number;
+  orders?: number;
+}
+
+interface MarketDepth {
+  bids: DepthLevel[];
+  asks: DepthLevel[];
+}
+
 interface LivePrice {
   symbol: string;
   price: number;
@@ -17,6 +28,18 @@ interface LivePrice {
   volume: number;
   timestamp: Date;
   exchange: string;
+  open?: number;
+  high?: number;
+  low?: number;
+  close?: number;
+  depth?: MarketDepth; // only for symbols subscribed with depth
+  source?: 'broker_feed' | 'realtime_service';
+}
+
+// Whether prices are streaming from a broker tick feed or polled
+interface MarketFeedStatus {
+  live: boolean;
+  brokerName: string | null;
 }
 
 interface MarketIndex {
@@ -35,6 +58,7 @@ interface IndicesUpdate {
 interface MarketStatusUpdate {
   status: string;
   isOpen: boolean;
+  phase?: 'PRE_OPEN' | 'NORMAL' | 'CLOSING' | 'POST_CLOSE' | 'CLOSED';
   timestamp: Date;
 }
 
@@ -69,10 +93,12 @@ export const useRealTimeData = () => {
   const [livePrices, setLivePrices] = useState<Map<string, LivePrice>>(new Map());
   const [marketIndices, setMarketIndices] = useState<MarketIndex[]>([]);
   const [marketStatus, setMarketStatus] = useState<MarketStatusUpdate | null>(null);
+  const [feedStatus, setFeedStatus] = useState<MarketFeedStatus>({ live: false, brokerName: null });
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
   const [lastError, setLastError] = useState<string | null>(null);
   
   const subscribedSymbols = useRef<Set<string>>(new Set());
+  const depthSymbols = useRef<Set<string>>(new Set());
   const subscribedToIndices = useRef(false);
   const reconnectAttempts = useRef(0);
   const reconnectTimeout = useRef<NodeJS.Timeout | null>(null);
@@ -211,6 +237,14 @@ export const useRealTimeData = () => {
       eventBusService.emit('portfolioUpdate', data);
     });
 
+    newSocket.on('priceAlertTriggered', (data) => {
+      eventBusService.emit('priceAlertTriggered', data);
+    });
+
+    newSocket.on('squareOffUpdate', (data) => {
+      eventBusService.emit('squareOffUpdate', data);
+    });
+
   }, [connecting, registerWebSocket]);
 
   // Initialize socket connection with enhanced error handling
@@ -337,6 +371,11 @@ export const useRealTimeData = () => {
       eventBusService.emit('market_status_update', data);
     });
 
+    newSocket.on('market_feed_status', (data: MarketFeedStatus) => {
+      setFeedStatus(data);
+      eventBusService.emit('market_feed_status', data);
+    });
+
     // Handle connection errors
     newSocket.on('connect_error', (error) => {
       console.error('🚨 Real-time data connection error:', error);
@@ -377,6 +416,14 @@ export const useRealTimeData = () => {
       eventBusService.emit('portfolioUpdate', data);
     });
 
+    newSocket.on('priceAlertTriggered', (data) => {
+      eventBusService.emit('priceAlertTriggered', data);
+    });
+
+    newSocket.on('squareOffUpdate', (data) => {
+      eventBusService.emit('squareOffUpdate', data);
+    });
+
   }, [scheduleReconnect, registerWebSocket]);
 
   // Update connection activity
@@ -419,7 +466,7 @@ export const useRealTimeData = () => {
     // Resubscribe to symbols
     subscribedSymbols.current.forEach(key => {
       const [symbol, exchange] = key.split(':');
-      socket.emit('subscribe_symbol', { symbol, exchange, userId });
+      socket.emit('subscribe_symbol', { symbol, exchange, userId, depth: depthSymbols.current.has(key) });
     });
 
     // Resubscribe to indices if previously subscribed
@@ -473,23 +520,30 @@ export const useRealTimeData = () => {
     };
   }, []); // Empty dependency array for unmount only
 
-  // Subscribe to symbol price updates
-  const subscribeToSymbol = useCallback((symbol: string, exchange: string = 'NSE') => {
+  // Subscribe to symbol price updates, with market depth when asked for
+  const subscribeToSymbol = useCallback((symbol: string, exchange: string = 'NSE', options: { depth?: boolean } = {}) => {
     if (!socket || !connected) return;
 
     const key = `${symbol}:${exchange}`;
-    if (subscribedSymbols.current.has(key)) return;
+    const depth = !!options.depth;
+    if (subscribedSymbols.current.has(key) && depthSymbols.current.has(key) === depth) return;
 
     const userId = localStorage.getItem('userId') || 'anonymous';
     
     socket.emit('subscribe_symbol', {
       symbol,
       exchange,
-      userId
+      userId,
+      depth
     });
 
     subscribedSymbols.current.add(key);
-    console.log(`📈 Subscribed to ${symbol} on ${exchange}`);
+    if (depth) {
+      depthSymbols.current.add(key);
+    } else {
+      depthSymbols.current.delete(key);
+    }
+    console.log(`📈 Subscribed to ${symbol} on ${exchange}${depth ? ' with depth' : ''}`);
   }, [socket, connected]);
 
   // Unsubscribe from symbol price updates
@@ -505,6 +559,7 @@ export const useRealTimeData = () => {
     });
 
     subscribedSymbols.current.delete(key);
+    depthSymbols.current.delete(key);
     
     // Remove from live prices
     setLivePrices(prev => {
@@ -541,6 +596,11 @@ export const useRealTimeData = () => {
     return livePrices.get(key) || null;
   }, [livePrices]);
 
+  // Get market depth for a symbol subscribed with depth
+  const getMarketDepth = useCallback((symbol: string, exchange: string = 'NSE'): MarketDepth | null => {
+    return livePrices.get(`${symbol}:${exchange}`)?.depth || null;
+  }, [livePrices]);
+
   // Subscribe to multiple symbols at once
   const subscribeToSymbols = useCallback((symbols: Array<{ symbol: string; exchange?: string }>) => {
     symbols.forEach(({ symbol, exchange = 'NSE' }) => {
@@ -579,6 +639,7 @@ export const useRealTimeData = () => {
     livePrices: Array.from(livePrices.values()),
     marketIndices,
     marketStatus,
+    feedStatus,
     
     // Methods
     subscribeToSymbol,
@@ -588,6 +649,7 @@ export const useRealTimeData = () => {
     subscribeToIndices,
     unsubscribeFromIndices,
     getLivePrice,
+    getMarketDepth,
     clearAllSubscriptions,
     
     // Connection management
@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import AppNavigation from '../components/AppNavigation';
-import { brokerService, type ShoonyaCredentials, type FyersCredentials } from '../services/brokerService';
-import { accountService } from '../services/accountService';
+import { brokerService, type ShoonyaCredentials, type FyersCredentials, type PaperCredentials } from '../services/brokerService';
+import { accountService, isSharedAccount } from '../services/accountService';
 import { useAccountStatusContext } from '../context/AccountStatusContext';
 import AccountStatusIndicator from '../components/AccountStatusIndicator';
 import { AuthenticationStep } from '@copytrade/shared-types';
@@ -26,6 +26,13 @@ const ALL_BROKERS = [
     logo: '🚀',
     features: ['Professional trading tools', 'Real-time market data', 'Advanced order types']
   },
+  {
+    id: 'paper',
+    name: 'Paper Trading',
+    description: 'Simulated trading with a virtual cash balance',
+    logo: '🧪',
+    features: ['No real money at risk', 'Orders filled at live market prices', 'Test strategies and copy trading']
+  },
 ];
 
 interface FormData {
@@ -41,6 +48,9 @@ interface FormData {
   clientId: string;
   secretKey: string;
   redirectUri: string;
+  // Paper trading fields
+  paperAccountName: string;
+  initialCapital: string;
 }
 
 const AccountSetup: React.FC = () => {
@@ -86,6 +96,8 @@ const AccountSetup: React.FC = () => {
     clientId: '',
     secretKey: '',
     redirectUri: '',
+    paperAccountName: '',
+    initialCapital: '',
   });
 
   useEffect(() => {
@@ -290,6 +302,12 @@ const AccountSetup: React.FC = () => {
           redirectUri: formData.redirectUri,
         };
         result = await brokerService.connectBroker('fyers', credentials);
+      } else if (formData.brokerName === 'paper') {
+        const credentials: PaperCredentials = {
+          ...(formData.paperAccountName.trim() && { accountName: formData.paperAccountName.trim() }),
+          ...(formData.initialCapital && { initialCapital: Number(formData.initialCapital) }),
+        };
+        result = await brokerService.connectBroker('paper', credentials);
       } else {
         throw new Error('Unsupported broker');
       }
@@ -321,6 +339,8 @@ const AccountSetup: React.FC = () => {
               clientId: '',
               secretKey: '',
               redirectUri: '',
+              paperAccountName: '',
+              initialCapital: '',
             });
           } catch (oauthError: any) {
             console.error('❌ OAuth flow failed:', oauthError);
@@ -349,6 +369,8 @@ const AccountSetup: React.FC = () => {
             clientId: '',
             secretKey: '',
             redirectUri: '',
+            paperAccountName: '',
+            initialCapital: '',
           });
         }
       } else {
@@ -550,6 +572,17 @@ const AccountSetup: React.FC = () => {
                             {account.userName}
                           </div>
                         )}
+                        {isSharedAccount(account) && (
+                          <div style={{
+                            fontSize: '0.75rem',
+                            color: 'var(--text-secondary)',
+                            marginTop: '0.125rem'
+                          }}>
+                            Shared by {account.ownerName || 'a client'}
+                            {account.workspaces?.length ? ` in ${account.workspaces.map(workspace => workspace.name).join(', ')}` : ''}
+                            {' · '}{account.permissions?.includes('TRADE') ? 'Can trade' : 'View only'}
+                          </div>
+                        )}
                       </td>
                       <td>
                         {(() => {
@@ -592,7 +625,8 @@ const AccountSetup: React.FC = () => {
                       <td>
                         <div style={{ display: 'flex', gap: '0.5rem' }}>
                           <AccountStatusIndicator accountId={account.id} showDetails={false} />
-                          {account.isActive ? (
+                          {/* Shared accounts are connected and removed by their owner */}
+                          {!isSharedAccount(account) && (account.isActive ? (
                             <Button
                               variant="outline"
                               onClick={() => handleDeactivateAccount(account.id)}
@@ -609,14 +643,16 @@ const AccountSetup: React.FC = () => {
                               {oauthInProgress ? 'Authenticating...' :
                                isOperationInProgress(account.id) ? 'Activating...' : 'Activate'}
                             </Button>
+                          ))}
+                          {!isSharedAccount(account) && (
+                            <Button
+                              variant="danger"
+                              onClick={() => handleRemoveAccount(account.id)}
+                              disabled={isOperationInProgress(account.id)}
+                            >
+                              Remove
+                            </Button>
                           )}
-                          <Button
-                            variant="danger"
-                            onClick={() => handleRemoveAccount(account.id)}
-                            disabled={isOperationInProgress(account.id)}
-                          >
-                            Remove
-                          </Button>
                         </div>
                       </td>
                     </tr>
@@ -877,6 +913,43 @@ const AccountSetup: React.FC = () => {
                     </div>
                   )}
 
+                  {selectedBroker === 'paper' && (
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+                      <div>
+                        <label style={{ fontSize: '0.875rem', fontWeight: '500', color: 'var(--text-primary)', marginBottom: '0.5rem', display: 'block' }}>
+                          Account Name
+                        </label>
+                        <input
+                          type="text"
+                          placeholder="Paper Trader"
+                          value={formData.paperAccountName}
+                          onChange={(e) => handleInputChange('paperAccountName', e.target.value)}
+                          className="form-input"
+                          style={{ fontSize: '1rem' }}
+                        />
+                      </div>
+
+                      <div>
+                        <label style={{ fontSize: '0.875rem', fontWeight: '500', color: 'var(--text-primary)', marginBottom: '0.5rem', display: 'block' }}>
+                          Starting Capital (₹)
+                        </label>
+                        <input
+                          type="number"
+                          min="1"
+                          placeholder="1000000"
+                          value={formData.initialCapital}
+                          onChange={(e) => handleInputChange('initialCapital', e.target.value)}
+                          className="form-input"
+                          style={{ fontSize: '1rem' }}
+                        />
+                      </div>
+
+                      <div style={{ fontSize: '0.8rem', color: 'var(--text-secondary)', lineHeight: '1.4' }}>
+                        Orders are simulated against live market prices. No real orders are sent to an exchange.
+                      </div>
+                    </div>
+                  )}
+
                   {/* OAuth Progress Display */}
                   {oauthInProgress && (
                     <div style={{
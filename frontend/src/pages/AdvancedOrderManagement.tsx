@@ -18,9 +18,11 @@ import {
   TableHeaderCell,
   TableCell,
   StatusBadge,
-  Input
+  Input,
+  Checkbox
 } from '../components/ui';
-import { advancedOrderService, type OrderTemplate, type AdvancedOrder } from '../services/advancedOrderService';
+import { advancedOrderService, type OrderTemplate, type AdvancedOrder, type PriceConditionType } from '../services/advancedOrderService';
+import { accountService, type ConnectedAccount } from '../services/accountService';
 import { useFormValidation, commonValidationRules } from '../hooks/useFormValidation';
 
 interface AdvancedOrderFormData {
@@ -37,8 +39,18 @@ interface AdvancedOrderFormData {
   exchange: string;
   product_type: string;
   validity: 'DAY' | 'IOC' | 'GTD';
+  trigger_order_type: 'MARKET' | 'LIMIT';
+  condition_type: PriceConditionType;
+  condition_value: string;
+  oco_condition_type: PriceConditionType | '';
+  oco_condition_value: string;
+  oco_action: 'BUY' | 'SELL';
+  expiry_date: string;
+  scheduled_time: string;
 }
 
+type CreateOrderType = 'bracket' | 'iceberg' | 'trailing-stop' | 'conditional' | 'scheduled';
+
 const AdvancedOrderManagement: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'templates' | 'advanced-orders' | 'create'>('templates');
   const [templates, setTemplates] = useState<OrderTemplate[]>([]);
@@ -48,7 +60,12 @@ const AdvancedOrderManagement: React.FC = () => {
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
   // Form states for creating orders
-  const [orderType, setOrderType] = useState<'bracket' | 'iceberg' | 'trailing-stop'>('bracket');
+  const [orderType, setOrderType] = useState<CreateOrderType>('bracket');
+  const [accounts, setAccounts] = useState<ConnectedAccount[]>([]);
+  const [selectedAccountId, setSelectedAccountId] = useState('');
+  // Conditional and scheduled orders fan out to several accounts
+  const [selectedAccountIds, setSelectedAccountIds] = useState<string[]>([]);
+  const isTriggeredOrder = orderType === 'conditional' || orderType === 'scheduled';
 
   // Form validation hook
   const {
@@ -72,7 +89,15 @@ const AdvancedOrderManagement: React.FC = () => {
       trail_percent: '',
       exchange: 'NSE',
       product_type: 'C',
-      validity: 'DAY'
+      validity: 'DAY',
+      trigger_order_type: 'MARKET',
+      condition_type: 'PRICE_ABOVE',
+      condition_value: '',
+      oco_condition_type: '',
+      oco_condition_value: '',
+      oco_action: 'SELL',
+      expiry_date: '',
+      scheduled_time: '09:15:05'
     },
     {
       symbol: commonValidationRules.symbol,
@@ -80,10 +105,10 @@ const AdvancedOrderManagement: React.FC = () => {
       price: {
         ...commonValidationRules.price,
         custom: (value: string) => {
-          if (orderType === 'bracket' || orderType === 'iceberg') {
+          if (orderType === 'bracket' || orderType === 'iceberg' || (isTriggeredOrder && formData.trigger_order_type === 'LIMIT')) {
             return commonValidationRules.price.custom!(value);
           }
-          return null; // Not required for trailing-stop
+          return null; // Not required for trailing-stop or market orders
         }
       },
       stop_loss: {
@@ -157,9 +182,24 @@ const AdvancedOrderManagement: React.FC = () => {
       loadTemplates();
     } else if (activeTab === 'advanced-orders') {
       loadAdvancedOrders();
+    } else if (activeTab === 'create') {
+      loadAccounts();
     }
   }, [activeTab]);
 
+  const loadAccounts = async () => {
+    try {
+      const accountList = await accountService.getOwnAccounts();
+      const activeAccounts = accountList.filter(account => account.isActive);
+      setAccounts(activeAccounts);
+      setSelectedAccountId(prev => prev || activeAccounts[0]?.id || '');
+      setSelectedAccountIds(prev => prev.length > 0 ? prev : activeAccounts.slice(0, 1).map(account => account.id));
+    } catch (error: unknown) {
+      console.error('Failed to load accounts:', error);
+      setError((error as Error).message || 'Failed to load broker accounts');
+    }
+  };
+
   const loadTemplates = async () => {
     try {
       setLoading(true);
@@ -194,6 +234,12 @@ const AdvancedOrderManagement: React.FC = () => {
     handleChange(field, value);
   };
 
+  const toggleAccount = (accountId: string) => {
+    setSelectedAccountIds(prev => prev.includes(accountId)
+      ? prev.filter(id => id !== accountId)
+      : [...prev, accountId]);
+  };
+
   const handleCreateAdvancedOrder = async () => {
     try {
       setLoading(true);
@@ -202,6 +248,7 @@ const AdvancedOrderManagement: React.FC = () => {
 
       if (orderType === 'bracket') {
         const orderData = {
+          account_id: selectedAccountId,
           symbol: formData.symbol,
           action: formData.action,
           quantity: parseInt(formData.quantity),
@@ -227,6 +274,7 @@ const AdvancedOrderManagement: React.FC = () => {
 
       } else if (orderType === 'iceberg') {
         const orderData = {
+          account_id: selectedAccountId,
           symbol: formData.symbol,
           action: formData.action,
           quantity: parseInt(formData.quantity),
@@ -248,6 +296,7 @@ const AdvancedOrderManagement: React.FC = () => {
 
       } else if (orderType === 'trailing-stop') {
         const orderData = {
+          account_id: selectedAccountId,
           symbol: formData.symbol,
           action: formData.action,
           quantity: parseInt(formData.quantity),
@@ -267,6 +316,61 @@ const AdvancedOrderManagement: React.FC = () => {
 
         const result = await advancedOrderService.createTrailingStopOrder(orderData);
         setSuccessMessage(`Trailing stop order created successfully! Order ID: ${result.order.id}`);
+
+      } else if (orderType === 'conditional') {
+        const orderData = {
+          account_ids: selectedAccountIds,
+          symbol: formData.symbol,
+          action: formData.action,
+          quantity: parseInt(formData.quantity),
+          order_type: formData.trigger_order_type,
+          ...(formData.trigger_order_type === 'LIMIT' && { price: parseFloat(formData.price) }),
+          condition_type: formData.condition_type,
+          condition_value: parseFloat(formData.condition_value),
+          exchange: formData.exchange,
+          product_type: formData.product_type,
+          ...(formData.expiry_date && { expiry_date: new Date(`${formData.expiry_date}T15:30:00+05:30`).toISOString() }),
+          ...(formData.oco_condition_type && {
+            oco: {
+              condition_type: formData.oco_condition_type,
+              condition_value: parseFloat(formData.oco_condition_value),
+              action: formData.oco_action
+            }
+          })
+        };
+
+        const errors = advancedOrderService.validateConditionalOrder(orderData);
+        if (errors.length > 0) {
+          setError(errors.join(', '));
+          return;
+        }
+
+        const result = await advancedOrderService.createConditionalOrder(orderData);
+        setSuccessMessage(result.message);
+        resetForm();
+
+      } else if (orderType === 'scheduled') {
+        const orderData = {
+          account_ids: selectedAccountIds,
+          symbol: formData.symbol,
+          action: formData.action,
+          quantity: parseInt(formData.quantity),
+          order_type: formData.trigger_order_type,
+          ...(formData.trigger_order_type === 'LIMIT' && { price: parseFloat(formData.price) }),
+          scheduled_time: formData.scheduled_time,
+          exchange: formData.exchange,
+          product_type: formData.product_type
+        };
+
+        const errors = advancedOrderService.validateScheduledOrder(orderData);
+        if (errors.length > 0) {
+          setError(errors.join(', '));
+          return;
+        }
+
+        const result = await advancedOrderService.createScheduledOrder(orderData);
+        setSuccessMessage(result.message);
+        resetForm();
       }
 
       // Auto-clear success message after 5 seconds
@@ -280,7 +384,7 @@ const AdvancedOrderManagement: React.FC = () => {
     }
   };
 
-  const handleCancelOrder = async (orderId: number) => {
+  const handleCancelOrder = async (orderId: string) => {
     try {
       setError(null);
       
@@ -385,7 +489,7 @@ const AdvancedOrderManagement: React.FC = () => {
             <Card>
               <CardHeader 
                 title="Advanced Orders" 
-                subtitle="Monitor your bracket, iceberg, and trailing stop orders"
+                subtitle="Monitor your bracket, iceberg, trailing stop, conditional and scheduled orders"
               />
               <CardContent>
                 {loading ? (
@@ -424,6 +528,17 @@ const AdvancedOrderManagement: React.FC = () => {
                           </TableCell>
                           <TableCell>
                             {advancedOrderService.getOrderTypeDisplayName(order.order_type)}
+                            {order.leg && order.leg !== 'ENTRY' && (
+                              <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                                {order.leg.replace('_', ' ')} leg
+                              </div>
+                            )}
+                            {order.condition_type && (
+                              <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                                {advancedOrderService.getConditionDisplay(order)}
+                                {order.account_ids && order.account_ids.length > 1 && ` · ${order.account_ids.length} accounts`}
+                              </div>
+                            )}
                           </TableCell>
                           <TableCell>
                             <StatusBadge status={order.action === 'BUY' ? 'active' : 'inactive'}>
@@ -458,6 +573,11 @@ const AdvancedOrderManagement: React.FC = () => {
                             >
                               {advancedOrderService.getStatusDisplayName(order.status)}
                             </StatusBadge>
+                            {order.error_message && (
+                              <div style={{ fontSize: '0.75rem', color: 'var(--pnl-negative)' }}>
+                                {order.error_message}
+                              </div>
+                            )}
                           </TableCell>
                           <TableCell>
                             {order.created_at ? new Date(order.created_at).toLocaleDateString() : '-'}
@@ -492,7 +612,7 @@ const AdvancedOrderManagement: React.FC = () => {
         return (
           <Stack gap={6}>
             <Card>
-              <CardHeader title="Create Advanced Order" subtitle="Create bracket, iceberg, or trailing stop orders" />
+              <CardHeader title="Create Advanced Order" subtitle="Create bracket, iceberg, trailing stop, conditional or scheduled orders" />
               <CardContent>
                 <Stack gap={6}>
                   {/* Order Type Selection */}
@@ -502,14 +622,53 @@ const AdvancedOrderManagement: React.FC = () => {
                     </label>
                     <Select
                       value={orderType}
-                      onChange={(e) => setOrderType(e.target.value as unknown as 'bracket' | 'iceberg' | 'trailing-stop')}
+                      onChange={(e) => setOrderType(e.target.value as unknown as CreateOrderType)}
                     >
                       <option value="bracket">Bracket Order (Entry + Stop Loss + Take Profit)</option>
                       <option value="iceberg">Iceberg Order (Hidden Quantity)</option>
                       <option value="trailing-stop">Trailing Stop Loss</option>
+                      <option value="conditional">Conditional Order (GTT, optional OCO)</option>
+                      <option value="scheduled">Scheduled Order (At a Market Time)</option>
                     </Select>
                   </div>
 
+                  {/* Account Selection */}
+                  {isTriggeredOrder ? (
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
+                        Accounts *
+                      </label>
+                      {accounts.length === 0 && <p>No active broker accounts</p>}
+                      <Flex gap={4} wrap>
+                        {accounts.map(account => (
+                          <Checkbox
+                            key={account.id}
+                            label={`${account.brokerName} (${account.accountId})`}
+                            checked={selectedAccountIds.includes(account.id)}
+                            onChange={() => toggleAccount(account.id)}
+                          />
+                        ))}
+                      </Flex>
+                    </div>
+                  ) : (
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
+                        Account *
+                      </label>
+                      <Select
+                        value={selectedAccountId}
+                        onChange={(e) => setSelectedAccountId(e.target.value as unknown as string)}
+                      >
+                        {accounts.length === 0 && <option value="">No active broker accounts</option>}
+                        {accounts.map(account => (
+                          <option key={account.id} value={account.id}>
+                            {account.brokerName} ({account.accountId})
+                          </option>
+                        ))}
+                      </Select>
+                    </div>
+                  )}
+
                   {/* Common Fields */}
                   <Grid cols={3} gap={4}>
                     <div>
@@ -669,6 +828,136 @@ const AdvancedOrderManagement: React.FC = () => {
                     </Grid>
                   )}
 
+                  {isTriggeredOrder && (
+                    <Grid cols={3} gap={4}>
+                      <div>
+                        <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
+                          Order Type
+                        </label>
+                        <Select
+                          value={formData.trigger_order_type}
+                          onChange={(e) => handleInputChange('trigger_order_type', e.target.value)}
+                        >
+                          <option value="MARKET">Market</option>
+                          <option value="LIMIT">Limit</option>
+                        </Select>
+                      </div>
+                      {formData.trigger_order_type === 'LIMIT' && (
+                        <div>
+                          <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
+                            Limit Price *
+                          </label>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={formData.price}
+                            onChange={(e) => handleInputChange('price', e.target.value)}
+                            placeholder="2500.00"
+                          />
+                        </div>
+                      )}
+                      {orderType === 'scheduled' && (
+                        <div>
+                          <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
+                            Market Time (IST) *
+                          </label>
+                          <Input
+                            value={formData.scheduled_time}
+                            onChange={(e) => handleInputChange('scheduled_time', e.target.value)}
+                            placeholder="09:15:05"
+                          />
+                          <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '0.25rem' }}>
+                            Placed at the next weekday occurrence, e.g. 09:15:05 or 15:20
+                          </div>
+                        </div>
+                      )}
+                    </Grid>
+                  )}
+
+                  {orderType === 'conditional' && (
+                    <Grid cols={3} gap={4}>
+                      <div>
+                        <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
+                          Condition
+                        </label>
+                        <Select
+                          value={formData.condition_type}
+                          onChange={(e) => handleInputChange('condition_type', e.target.value)}
+                        >
+                          <option value="PRICE_ABOVE">Price rises to</option>
+                          <option value="PRICE_BELOW">Price falls to</option>
+                          <option value="VOLUME_BASED">Day volume reaches</option>
+                        </Select>
+                      </div>
+                      <div>
+                        <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
+                          Trigger Value *
+                        </label>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          value={formData.condition_value}
+                          onChange={(e) => handleInputChange('condition_value', e.target.value)}
+                          placeholder="2550.00"
+                        />
+                      </div>
+                      <div>
+                        <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
+                          Expires On
+                        </label>
+                        <Input
+                          type="date"
+                          value={formData.expiry_date}
+                          onChange={(e) => handleInputChange('expiry_date', e.target.value)}
+                        />
+                        <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '0.25rem' }}>
+                          Defaults to one year
+                        </div>
+                      </div>
+                      <div>
+                        <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
+                          One-Cancels-Other
+                        </label>
+                        <Select
+                          value={formData.oco_condition_type}
+                          onChange={(e) => handleInputChange('oco_condition_type', e.target.value)}
+                        >
+                          <option value="">None</option>
+                          <option value="PRICE_ABOVE">Or when price rises to</option>
+                          <option value="PRICE_BELOW">Or when price falls to</option>
+                        </Select>
+                      </div>
+                      {formData.oco_condition_type && (
+                        <>
+                          <div>
+                            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
+                              OCO Trigger Price *
+                            </label>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              value={formData.oco_condition_value}
+                              onChange={(e) => handleInputChange('oco_condition_value', e.target.value)}
+                              placeholder="2400.00"
+                            />
+                          </div>
+                          <div>
+                            <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
+                              OCO Action
+                            </label>
+                            <Select
+                              value={formData.oco_action}
+                              onChange={(e) => handleInputChange('oco_action', e.target.value)}
+                            >
+                              <option value="BUY">BUY</option>
+                              <option value="SELL">SELL</option>
+                            </Select>
+                          </div>
+                        </>
+                      )}
+                    </Grid>
+                  )}
+
                   {/* Additional Settings */}
                   <Grid cols={3} gap={4}>
                     <div>
@@ -696,19 +985,21 @@ const AdvancedOrderManagement: React.FC = () => {
                         <option value="I">Intraday</option>
                       </Select>
                     </div>
-                    <div>
-                      <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
-                        Validity
-                      </label>
-                      <Select
-                        value={formData.validity}
-                        onChange={(e) => handleInputChange('validity', e.target.value)}
-                      >
-                        <option value="DAY">Day</option>
-                        <option value="IOC">Immediate or Cancel</option>
-                        <option value="GTD">Good Till Date</option>
-                      </Select>
-                    </div>
+                    {!isTriggeredOrder && (
+                      <div>
+                        <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: '500' }}>
+                          Validity
+                        </label>
+                        <Select
+                          value={formData.validity}
+                          onChange={(e) => handleInputChange('validity', e.target.value)}
+                        >
+                          <option value="DAY">Day</option>
+                          <option value="IOC">Immediate or Cancel</option>
+                          <option value="GTD">Good Till Date</option>
+                        </Select>
+                      </div>
+                    )}
                   </Grid>
 
                   {/* Action Buttons */}
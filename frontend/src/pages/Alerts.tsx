@@ -0,0 +1,386 @@
+import React, { useState, useEffect } from 'react';
+import AppNavigation from '../components/AppNavigation';
+import {
+  alertService,
+  type PriceAlert,
+  type PriceAlertChannel,
+  type PriceAlertCondition,
+  type PriceAlertTrigger
+} from '../services/alertService';
+import { useEventBus } from '../hooks/useEventBus';
+import '../styles/app-theme.css';
+import Button from '../components/ui/Button';
+import { useToast } from '../components/Toast';
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Something went wrong';
+
+const CONDITIONS: Array<{ value: PriceAlertCondition; label: string; threshold: string | null }> = [
+  { value: 'PRICE_ABOVE', label: 'Price crosses above', threshold: 'Price (₹)' },
+  { value: 'PRICE_BELOW', label: 'Price crosses below', threshold: 'Price (₹)' },
+  { value: 'PERCENT_CHANGE', label: 'Day change reaches', threshold: 'Change % (negative for a fall)' },
+  { value: 'VOLUME_SPIKE', label: 'Volume spike', threshold: 'Multiple of 20-day avg volume' },
+  { value: 'WEEK52_HIGH', label: 'New 52-week high', threshold: null },
+  { value: 'WEEK52_LOW', label: 'New 52-week low', threshold: null },
+  { value: 'POSITION_PNL', label: 'Position P&L reaches', threshold: 'P&L ₹ (negative for a loss)' },
+  { value: 'PORTFOLIO_DRAWDOWN', label: 'Portfolio drawdown', threshold: 'Drawdown %' }
+];
+
+const CHANNELS: Array<{ value: PriceAlertChannel; label: string }> = [
+  { value: 'WEBSOCKET', label: 'In-app' },
+  { value: 'PUSH', label: 'Push' },
+  { value: 'EMAIL', label: 'Email' },
+  { value: 'WEBHOOK', label: 'Webhook' }
+];
+
+const formatNumber = (value: number): string =>
+  value.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+
+const describeAlert = (alert: PriceAlert): string => {
+  const option = CONDITIONS.find(condition => condition.value === alert.condition);
+  const target = alert.condition === 'PORTFOLIO_DRAWDOWN' ? 'Portfolio' : `${alert.symbol} · ${alert.exchange}`;
+  switch (alert.condition) {
+    case 'WEEK52_HIGH':
+    case 'WEEK52_LOW':
+      return `${target}: ${option?.label}`;
+    case 'PERCENT_CHANGE':
+    case 'PORTFOLIO_DRAWDOWN':
+      return `${target}: ${option?.label} ${formatNumber(alert.threshold)}%`;
+    case 'VOLUME_SPIKE':
+      return `${target}: ${option?.label} ${formatNumber(alert.threshold)}x`;
+    default:
+      return `${target}: ${option?.label} ₹${formatNumber(alert.threshold)}`;
+  }
+};
+
+const Alerts: React.FC = () => {
+  const { showToast } = useToast();
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [name, setName] = useState('');
+  const [condition, setCondition] = useState<PriceAlertCondition>('PRICE_ABOVE');
+  const [symbol, setSymbol] = useState('');
+  const [exchange, setExchange] = useState('NSE');
+  const [threshold, setThreshold] = useState('');
+  const [trigger, setTrigger] = useState<PriceAlertTrigger>('ONCE');
+  const [cooldownMinutes, setCooldownMinutes] = useState('15');
+  const [channels, setChannels] = useState<PriceAlertChannel[]>(['WEBSOCKET', 'PUSH']);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const conditionOption = CONDITIONS.find(option => option.value === condition)!;
+  const perSymbol = condition !== 'PORTFOLIO_DRAWDOWN';
+
+  const fetchData = async () => {
+    try {
+      setError(null);
+      setAlerts(await alertService.getAlerts());
+    } catch (error) {
+      console.error('Failed to load alerts:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  // Navigation shows the toast; the list only needs the new trigger count and status
+  useEventBus('priceAlertTriggered', () => {
+    fetchData();
+  });
+
+  const toggleChannel = (channel: PriceAlertChannel) => {
+    setChannels(current => current.includes(channel)
+      ? current.filter(selected => selected !== channel)
+      : [...current, channel]);
+  };
+
+  const handleCreate = async () => {
+    if (perSymbol && !symbol.trim()) {
+      showToast({ type: 'warning', title: 'Symbol Required', message: 'Enter the symbol to watch.' });
+      return;
+    }
+    if (conditionOption.threshold && threshold.trim() === '') {
+      showToast({ type: 'warning', title: 'Threshold Required', message: `Enter the ${conditionOption.threshold.toLowerCase()}.` });
+      return;
+    }
+    if (channels.length === 0) {
+      showToast({ type: 'warning', title: 'Choose a Channel', message: 'Pick at least one way to be notified.' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const created = await alertService.createAlert({
+        name: name.trim() || `${perSymbol ? symbol.trim().toUpperCase() : 'Portfolio'} - ${conditionOption.label}`,
+        condition,
+        ...(perSymbol && { symbol: symbol.trim().toUpperCase(), exchange }),
+        ...(conditionOption.threshold && { threshold: Number(threshold) }),
+        trigger,
+        ...(trigger === 'RECURRING' && { cooldownMinutes: Number(cooldownMinutes) }),
+        channels,
+        ...(channels.includes('WEBHOOK') && { webhookUrl: webhookUrl.trim() })
+      });
+      showToast({ type: 'success', title: 'Alert Created', message: describeAlert(created) });
+      setName('');
+      setThreshold('');
+      await fetchData();
+    } catch (error) {
+      showToast({ type: 'error', title: 'Create Failed', message: getErrorMessage(error) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (alert: PriceAlert) => {
+    try {
+      await alertService.updateAlert(alert.id, { status: alert.status === 'ACTIVE' ? 'DISABLED' : 'ACTIVE' });
+      await fetchData();
+    } catch (error) {
+      showToast({ type: 'error', title: 'Update Failed', message: getErrorMessage(error) });
+    }
+  };
+
+  const handleDelete = async (alert: PriceAlert) => {
+    if (!confirm(`Delete the alert "${alert.name}"?`)) {
+      return;
+    }
+
+    try {
+      await alertService.deleteAlert(alert.id);
+      await fetchData();
+    } catch (error) {
+      showToast({ type: 'error', title: 'Delete Failed', message: getErrorMessage(error) });
+    }
+  };
+
+  const getStatusColor = (status: PriceAlert['status']): string => {
+    switch (status) {
+      case 'ACTIVE': return 'var(--color-profit)';
+      case 'TRIGGERED': return 'var(--color-primary)';
+      default: return 'var(--text-secondary)';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="app-theme app-layout">
+        <AppNavigation />
+        <div className="app-main">
+          <div style={{ textAlign: 'center', padding: '3rem', color: 'var(--text-secondary)' }}>
+            Loading alerts...
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="app-theme app-layout">
+      <AppNavigation />
+      <div className="app-main">
+        {error && (
+          <div className="card" style={{ color: 'var(--color-loss)', padding: '1rem' }}>
+            ⚠️ {error}
+          </div>
+        )}
+
+        {/* New Alert */}
+        <div className="card">
+          <div className="card-header">
+            <h2 className="card-title">New Alert</h2>
+          </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))', gap: '1rem', alignItems: 'end', marginBottom: '1rem' }}>
+            <div>
+              <label className="form-label">Condition</label>
+              <select
+                value={condition}
+                onChange={(e) => setCondition(e.target.value as PriceAlertCondition)}
+                className="form-input"
+              >
+                {CONDITIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            {perSymbol && (
+              <>
+                <div>
+                  <label className="form-label">Symbol</label>
+                  <input
+                    value={symbol}
+                    onChange={(e) => setSymbol(e.target.value)}
+                    placeholder="e.g. RELIANCE"
+                    className="form-input"
+                  />
+                </div>
+                <div>
+                  <label className="form-label">Exchange</label>
+                  <select value={exchange} onChange={(e) => setExchange(e.target.value)} className="form-input">
+                    <option value="NSE">NSE</option>
+                    <option value="BSE">BSE</option>
+                    <option value="NFO">NFO</option>
+                  </select>
+                </div>
+              </>
+            )}
+            {conditionOption.threshold && (
+              <div>
+                <label className="form-label">{conditionOption.threshold}</label>
+                <input
+                  type="number"
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  className="form-input"
+                />
+              </div>
+            )}
+            <div>
+              <label className="form-label">Name (optional)</label>
+              <input value={name} onChange={(e) => setName(e.target.value)} className="form-input" />
+            </div>
+          </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))', gap: '1rem', alignItems: 'end' }}>
+            <div>
+              <label className="form-label">Trigger</label>
+              <select
+                value={trigger}
+                onChange={(e) => setTrigger(e.target.value as PriceAlertTrigger)}
+                className="form-input"
+              >
+                <option value="ONCE">Once</option>
+                <option value="RECURRING">Every time it happens</option>
+              </select>
+            </div>
+            {trigger === 'RECURRING' && (
+              <div>
+                <label className="form-label">Cooldown (minutes)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={cooldownMinutes}
+                  onChange={(e) => setCooldownMinutes(e.target.value)}
+                  className="form-input"
+                />
+              </div>
+            )}
+            <div>
+              <label className="form-label">Notify via</label>
+              <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', paddingTop: '0.5rem' }}>
+                {CHANNELS.map(channel => (
+                  <label key={channel.value} style={{ display: 'flex', gap: '0.25rem', alignItems: 'center', fontSize: '0.875rem' }}>
+                    <input
+                      type="checkbox"
+                      checked={channels.includes(channel.value)}
+                      onChange={() => toggleChannel(channel.value)}
+                    />
+                    {channel.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            {channels.includes('WEBHOOK') && (
+              <div>
+                <label className="form-label">Webhook URL</label>
+                <input
+                  value={webhookUrl}
+                  onChange={(e) => setWebhookUrl(e.target.value)}
+                  placeholder="https://..."
+                  className="form-input"
+                />
+              </div>
+            )}
+            <Button variant="primary" onClick={handleCreate} disabled={saving}>
+              {saving ? 'Creating...' : '+ Create Alert'}
+            </Button>
+          </div>
+
+          <div style={{ marginTop: '1rem', fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+            Alerts are checked on the server every 15 seconds, even when this page is closed. Push and email
+            follow the market and portfolio alert switches in Settings and are held back during quiet hours.
+          </div>
+        </div>
+
+        {/* Alert List */}
+        <div className="card">
+          <div className="card-header">
+            <h2 className="card-title">My Alerts ({alerts.length})</h2>
+            <Button variant="outline" size="sm" onClick={fetchData}>
+              🔄 Refresh
+            </Button>
+          </div>
+
+          {alerts.length > 0 ? (
+            <div style={{ overflowX: 'auto' }}>
+              <table className="table table-trading">
+                <thead>
+                  <tr>
+                    <th>Name</th>
+                    <th>Condition</th>
+                    <th>Trigger</th>
+                    <th>Channels</th>
+                    <th>Status</th>
+                    <th>Last Triggered</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {alerts.map(alert => (
+                    <tr key={alert.id}>
+                      <td style={{ fontWeight: '500' }}>{alert.name}</td>
+                      <td>{describeAlert(alert)}</td>
+                      <td>
+                        {alert.trigger === 'ONCE' ? 'Once' : `Recurring · ${alert.cooldown_minutes}m`}
+                      </td>
+                      <td style={{ fontSize: '0.75rem' }}>
+                        {alert.channels.map(channel => CHANNELS.find(option => option.value === channel)?.label).join(', ')}
+                      </td>
+                      <td style={{ color: getStatusColor(alert.status), fontWeight: '500' }}>
+                        {alert.status === 'ACTIVE' ? 'Active' : alert.status === 'TRIGGERED' ? 'Triggered' : 'Paused'}
+                      </td>
+                      <td>
+                        {alert.last_triggered_at ? (
+                          <>
+                            <div>{new Date(alert.last_triggered_at).toLocaleString('en-IN')}</div>
+                            <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                              {alert.trigger_count} time{alert.trigger_count === 1 ? '' : 's'}
+                            </div>
+                          </>
+                        ) : (
+                          <span style={{ color: 'var(--text-secondary)' }}>Never</span>
+                        )}
+                      </td>
+                      <td>
+                        <div style={{ display: 'flex', gap: '0.5rem' }}>
+                          <Button variant="outline" size="sm" onClick={() => handleToggle(alert)}>
+                            {alert.status === 'ACTIVE' ? 'Pause' : 'Re-arm'}
+                          </Button>
+                          <Button variant="danger" size="sm" onClick={() => handleDelete(alert)}>
+                            Delete
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div style={{ textAlign: 'center', padding: '2rem', color: 'var(--text-secondary)' }}>
+              <div style={{ fontSize: '2rem', marginBottom: '0.5rem' }}>🔔</div>
+              <div>No alerts yet. Create one to be told when a price, volume or P&L level is reached.</div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Alerts;
@@ -0,0 +1,406 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import AppNavigation from '../components/AppNavigation';
+import {
+  auditService,
+  type AuditAction,
+  type AuditCategory,
+  type AuditChainVerification,
+  type AuditEvent,
+  type AuditExportFormat,
+  type AuditSearchFilters,
+  type AuditSearchResult
+} from '../services/auditService';
+import '../styles/app-theme.css';
+import Button from '../components/ui/Button';
+import { useToast } from '../components/Toast';
+
+const PAGE_SIZE = 50;
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Something went wrong';
+
+const CATEGORIES: AuditCategory[] = ['ORDER', 'ACCOUNT', 'RISK', 'SETTINGS', 'SECURITY', 'SYSTEM'];
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  ORDER_PLACED: 'Order placed',
+  ORDER_MODIFIED: 'Order modified',
+  ORDER_CANCELLED: 'Order cancelled',
+  ORDER_RETRIED: 'Order retried',
+  ACCOUNT_CONNECTED: 'Account connected',
+  ACCOUNT_OAUTH_COMPLETED: 'OAuth completed',
+  ACCOUNT_ACTIVATED: 'Account activated',
+  ACCOUNT_DEACTIVATED: 'Account deactivated',
+  ACCOUNT_REMOVED: 'Account removed',
+  RISK_LIMITS_UPDATED: 'Risk limits updated',
+  RISK_LIMITS_REMOVED: 'Risk limits removed',
+  KILL_SWITCH_ACTIVATED: 'Kill switch activated',
+  KILL_SWITCH_DEACTIVATED: 'Kill switch deactivated',
+  SIZING_RULE_UPDATED: 'Sizing rule updated',
+  SIZING_RULE_REMOVED: 'Sizing rule removed',
+  SQUARE_OFF_SETTINGS_UPDATED: 'Square-off schedule updated',
+  SQUARE_OFF_SETTINGS_REMOVED: 'Square-off override removed',
+  NOTIFICATION_PREFERENCES_UPDATED: 'Notification preferences updated',
+  TWO_FACTOR_ENABLED: 'Two-factor enabled',
+  TWO_FACTOR_DISABLED: 'Two-factor disabled',
+  RECOVERY_CODES_REGENERATED: 'Recovery codes regenerated',
+  SESSION_REVOKED: 'Session revoked',
+  OTHER_SESSIONS_REVOKED: 'Other sessions logged out',
+  WORKSPACE_CREATED: 'Workspace created',
+  WORKSPACE_MEMBER_ADDED: 'Workspace member added',
+  WORKSPACE_MEMBER_UPDATED: 'Workspace role changed',
+  WORKSPACE_MEMBER_REMOVED: 'Workspace member removed',
+  ACCOUNT_ACCESS_GRANTED: 'Account access granted',
+  ACCOUNT_ACCESS_UPDATED: 'Account access changed',
+  ACCOUNT_ACCESS_REVOKED: 'Account access revoked',
+  API_KEY_CREATED: 'API key created',
+  API_KEY_UPDATED: 'API key changed',
+  API_KEY_REVOKED: 'API key revoked',
+  SIGNAL_REJECTED: 'Signal rejected',
+  WEBHOOK_CREATED: 'Webhook created',
+  WEBHOOK_UPDATED: 'Webhook changed',
+  WEBHOOK_DELETED: 'Webhook deleted',
+  AUDIT_RETENTION_APPLIED: 'Retention applied'
+};
+
+interface FilterForm {
+  category: AuditCategory | '';
+  action: AuditAction | '';
+  outcome: 'ALL' | 'SUCCESS' | 'FAILED';
+  requestId: string;
+  userId: string;
+  startDate: string;
+  endDate: string;
+}
+
+const EMPTY_FILTERS: FilterForm = {
+  category: '',
+  action: '',
+  outcome: 'ALL',
+  requestId: '',
+  userId: '',
+  startDate: '',
+  endDate: ''
+};
+
+const toSearchFilters = (form: FilterForm): AuditSearchFilters => ({
+  ...(form.category && { category: form.category }),
+  ...(form.action && { action: form.action }),
+  ...(form.outcome !== 'ALL' && { success: form.outcome === 'SUCCESS' }),
+  ...(form.requestId.trim() && { requestId: form.requestId.trim() }),
+  ...(form.userId.trim() && { userId: form.userId.trim() }),
+  // Date inputs are local days; the end date covers the whole day
+  ...(form.startDate && { startDate: new Date(`${form.startDate}T00:00:00`).toISOString() }),
+  ...(form.endDate && { endDate: new Date(`${form.endDate}T23:59:59.999`).toISOString() })
+});
+
+const describeTarget = (event: AuditEvent): string => {
+  const parts = [event.broker_name, event.account_id && `account ${event.account_id}`, event.resource_id && `#${event.resource_id}`];
+  return parts.filter(Boolean).join(' · ') || '—';
+};
+
+const AuditLog: React.FC = () => {
+  const { showToast } = useToast();
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditSearchFilters>({});
+  const [offset, setOffset] = useState(0);
+  const [result, setResult] = useState<AuditSearchResult | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [exporting, setExporting] = useState<AuditExportFormat | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setResult(await auditService.search(filters, PAGE_SIZE, offset));
+    } catch (error) {
+      console.error('Failed to load audit events:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, offset]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setOffset(0);
+    setFilters(toSearchFilters(form));
+  };
+
+  const handleReset = () => {
+    setForm(EMPTY_FILTERS);
+    setOffset(0);
+    setFilters({});
+  };
+
+  const handleExport = async (format: AuditExportFormat) => {
+    try {
+      setExporting(format);
+      await auditService.exportEvents(filters, format);
+    } catch (error) {
+      showToast({ type: 'error', title: 'Export Failed', message: getErrorMessage(error) });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleVerify = async () => {
+    try {
+      setVerifying(true);
+      setVerification(await auditService.verify());
+    } catch (error) {
+      showToast({ type: 'error', title: 'Verification Failed', message: getErrorMessage(error) });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const total = result?.total ?? 0;
+  const lastShown = Math.min(offset + PAGE_SIZE, total);
+
+  return (
+    <div className="app-theme app-layout">
+      <AppNavigation />
+      <div className="app-main">
+        {/* Filters */}
+        <div className="card">
+          <div className="card-header">
+            <h2 className="card-title">Audit Log</h2>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={exporting !== null}>
+                {exporting === 'csv' ? 'Exporting...' : 'Export CSV'}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={exporting !== null}>
+                {exporting === 'json' ? 'Exporting...' : 'Export JSON'}
+              </Button>
+              {result?.isAdmin && (
+                <Button variant="primary" size="sm" onClick={handleVerify} disabled={verifying}>
+                  {verifying ? 'Verifying...' : 'Verify chain'}
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <form onSubmit={handleSearch} style={{ display: 'flex', gap: '0.75rem', alignItems: 'flex-end', flexWrap: 'wrap' }}>
+            <div>
+              <label className="form-label">Category</label>
+              <select
+                className="form-input"
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value as FilterForm['category'] })}
+              >
+                <option value="">All</option>
+                {CATEGORIES.map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label">Action</label>
+              <select
+                className="form-input"
+                value={form.action}
+                onChange={(e) => setForm({ ...form, action: e.target.value as FilterForm['action'] })}
+              >
+                <option value="">All</option>
+                {(Object.keys(ACTION_LABELS) as AuditAction[]).map(action => (
+                  <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label">Outcome</label>
+              <select
+                className="form-input"
+                value={form.outcome}
+                onChange={(e) => setForm({ ...form, outcome: e.target.value as FilterForm['outcome'] })}
+              >
+                <option value="ALL">All</option>
+                <option value="SUCCESS">Succeeded</option>
+                <option value="FAILED">Failed</option>
+              </select>
+            </div>
+            <div>
+              <label className="form-label">From</label>
+              <input
+                type="date"
+                className="form-input"
+                value={form.startDate}
+                onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="form-label">To</label>
+              <input
+                type="date"
+                className="form-input"
+                value={form.endDate}
+                onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="form-label">Request ID</label>
+              <input
+                type="text"
+                className="form-input"
+                value={form.requestId}
+                onChange={(e) => setForm({ ...form, requestId: e.target.value })}
+                placeholder="X-Request-ID"
+              />
+            </div>
+            {result?.isAdmin && (
+              <div>
+                <label className="form-label">User ID</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={form.userId}
+                  onChange={(e) => setForm({ ...form, userId: e.target.value })}
+                  placeholder="All users"
+                />
+              </div>
+            )}
+            <Button type="submit" variant="primary">Search</Button>
+            <Button type="button" variant="outline" onClick={handleReset}>Reset</Button>
+          </form>
+
+          {verification && (
+            <div
+              style={{
+                marginTop: '1rem',
+                fontSize: '0.875rem',
+                color: verification.valid ? 'var(--color-profit)' : 'var(--color-loss)'
+              }}
+            >
+              {verification.valid
+                ? `✓ Chain intact: ${verification.checked} event(s)${verification.firstSequence !== null ? ` from #${verification.firstSequence} to #${verification.lastSequence}` : ''}`
+                : `⚠️ Chain broken at event #${verification.brokenAt}: ${verification.reason}`}
+              <span style={{ color: 'var(--text-secondary)', marginLeft: '0.5rem' }}>
+                {verification.retentionDays > 0 ? `Events are kept for ${verification.retentionDays} days.` : 'Events are kept indefinitely.'}
+              </span>
+            </div>
+          )}
+        </div>
+
+        {/* Events */}
+        <div className="card">
+          <div className="card-header">
+            <h2 className="card-title">Events ({total})</h2>
+            <Button variant="outline" size="sm" onClick={fetchEvents}>
+              🔄 Refresh
+            </Button>
+          </div>
+
+          {error ? (
+            <div style={{ color: 'var(--color-loss)', padding: '1rem' }}>⚠️ {error}</div>
+          ) : loading && !result ? (
+            <div style={{ textAlign: 'center', padding: '2rem', color: 'var(--text-secondary)' }}>
+              Loading audit events...
+            </div>
+          ) : result && result.events.length > 0 ? (
+            <>
+              <div style={{ overflowX: 'auto' }}>
+                <table className="table table-trading">
+                  <thead>
+                    <tr>
+                      <th>#</th>
+                      <th>Time</th>
+                      <th>Action</th>
+                      <th>Target</th>
+                      <th>Outcome</th>
+                      <th>Request</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.events.map(event => (
+                      <React.Fragment key={event.id}>
+                        <tr
+                          onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                          style={{ cursor: 'pointer' }}
+                        >
+                          <td>{event.sequence}</td>
+                          <td>{new Date(event.created_at).toLocaleString('en-IN')}</td>
+                          <td>
+                            <div style={{ fontWeight: '500' }}>{ACTION_LABELS[event.action] ?? event.action}</div>
+                            <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                              {event.category}{result.isAdmin && event.user_id ? ` · user ${event.user_id}` : ''}
+                            </div>
+                          </td>
+                          <td>{describeTarget(event)}</td>
+                          <td style={{ color: event.success ? 'var(--color-profit)' : 'var(--color-loss)', fontWeight: '500' }}>
+                            {event.success ? 'Succeeded' : 'Failed'}
+                            {event.error_message && (
+                              <div style={{ fontSize: '0.75rem', fontWeight: 'normal' }}>{event.error_message}</div>
+                            )}
+                          </td>
+                          <td style={{ fontSize: '0.75rem', fontFamily: 'monospace' }}>
+                            {event.request_id ?? '—'}
+                            {event.ip_address && (
+                              <div style={{ color: 'var(--text-secondary)' }}>{event.ip_address}</div>
+                            )}
+                          </td>
+                        </tr>
+                        {expanded === event.id && (
+                          <tr>
+                            <td colSpan={6}>
+                              <pre style={{ fontSize: '0.75rem', whiteSpace: 'pre-wrap', margin: 0 }}>
+                                {JSON.stringify(event.details, null, 2)}
+                              </pre>
+                              <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', fontFamily: 'monospace', marginTop: '0.5rem' }}>
+                                <div>hash {event.hash}</div>
+                                <div>prev {event.previous_hash}</div>
+                                {event.user_agent && <div>{event.user_agent}</div>}
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '1rem' }}>
+                <span style={{ fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+                  {offset + 1}–{lastShown} of {total}
+                </span>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                    disabled={offset === 0 || loading}
+                  >
+                    Newer
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setOffset(offset + PAGE_SIZE)}
+                    disabled={lastShown >= total || loading}
+                  >
+                    Older
+                  </Button>
+                </div>
+              </div>
+            </>
+          ) : (
+            <div style={{ textAlign: 'center', padding: '2rem', color: 'var(--text-secondary)' }}>
+              <div style={{ fontSize: '2rem', marginBottom: '0.5rem' }}>🧾</div>
+              <div>No audit events match these filters.</div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useAuth } from '../hooks/useAuth';
+import TwoFactorLoginStep from '../components/TwoFactorLoginStep';
 import '../styles/app-theme.css';
 
 const CopyTradeLogin: React.FC = () => {
@@ -12,6 +13,7 @@ const CopyTradeLogin: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [isRegisterMode, setIsRegisterMode] = useState(false);
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
 
   const handleEmailChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setEmail(e.target.value);
@@ -43,10 +45,13 @@ const CopyTradeLogin: React.FC = () => {
     setError('');
 
     try {
-      await login({
+      const result = await login({
         email: email.trim().toLowerCase(),
         password: password,
       });
+      if (result.requiresTwoFactor) {
+        setTwoFactorStep(true);
+      }
     } catch (err: any) {
       let errorMessage = 'Login failed. Please try again.';
 
@@ -146,6 +151,18 @@ const CopyTradeLogin: React.FC = () => {
     return email.substring(0, 2).toUpperCase();
   };
 
+  if (twoFactorStep) {
+    return (
+      <TwoFactorLoginStep
+        email={email.trim().toLowerCase()}
+        onBack={() => {
+          setTwoFactorStep(false);
+          setPassword('');
+        }}
+      />
+    );
+  }
+
   return (
     <div className="app-theme app-layout" style={{
       minHeight: '100vh',
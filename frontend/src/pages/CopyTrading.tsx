@@ -0,0 +1,276 @@
+import React, { useState, useEffect } from 'react';
+import AppNavigation from '../components/AppNavigation';
+import { accountService, type ConnectedAccount } from '../services/accountService';
+import { copyTradingService, type CopyTradeLink, type CopiedOrder } from '../services/copyTradingService';
+import '../styles/app-theme.css';
+import Button from '../components/ui/Button';
+import { useToast } from '../components/Toast';
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Something went wrong';
+
+const CopyTrading: React.FC = () => {
+  const { showToast } = useToast();
+  const [accounts, setAccounts] = useState<ConnectedAccount[]>([]);
+  const [links, setLinks] = useState<CopyTradeLink[]>([]);
+  const [copiedOrders, setCopiedOrders] = useState<CopiedOrder[]>([]);
+  const [engineRunning, setEngineRunning] = useState(false);
+  const [masterAccountId, setMasterAccountId] = useState('');
+  const [followerAccountId, setFollowerAccountId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = async () => {
+    try {
+      setError(null);
+      const [accountList, linkData, orders] = await Promise.all([
+        accountService.getOwnAccounts(),
+        copyTradingService.getLinks(),
+        copyTradingService.getCopiedOrders(50)
+      ]);
+      setAccounts(accountList);
+      setLinks(linkData.links);
+      setEngineRunning(linkData.engineRunning);
+      setCopiedOrders(orders);
+    } catch (error) {
+      console.error('Failed to load copy trading data:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const getAccountLabel = (accountId: string): string => {
+    const account = accounts.find(a => a.id === accountId);
+    if (!account) return 'Unknown account';
+    return `${account.userName || account.accountId} (${account.brokerDisplayName || account.brokerName})`;
+  };
+
+  const handleCreateLink = async () => {
+    if (!masterAccountId || !followerAccountId) {
+      showToast({ type: 'warning', title: 'Select Accounts', message: 'Choose both a master and a follower account.' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await copyTradingService.createLink(masterAccountId, followerAccountId);
+      showToast({ type: 'success', title: 'Follower Linked', message: `${getAccountLabel(followerAccountId)} now copies ${getAccountLabel(masterAccountId)}.` });
+      setFollowerAccountId('');
+      await fetchData();
+    } catch (error) {
+      showToast({ type: 'error', title: 'Link Failed', message: getErrorMessage(error) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleLink = async (link: CopyTradeLink) => {
+    try {
+      await copyTradingService.setLinkActive(link.id, !link.is_active);
+      await fetchData();
+    } catch (error) {
+      showToast({ type: 'error', title: 'Update Failed', message: getErrorMessage(error) });
+    }
+  };
+
+  const handleDeleteLink = async (link: CopyTradeLink) => {
+    if (!confirm(`Stop copying ${getAccountLabel(link.master_account_id)} to ${getAccountLabel(link.follower_account_id)}?`)) {
+      return;
+    }
+
+    try {
+      await copyTradingService.deleteLink(link.id);
+      await fetchData();
+    } catch (error) {
+      showToast({ type: 'error', title: 'Remove Failed', message: getErrorMessage(error) });
+    }
+  };
+
+  const getStatusColor = (status: CopiedOrder['status']): string => {
+    switch (status) {
+      case 'COPIED': return 'var(--color-profit)';
+      case 'FAILED': return 'var(--color-loss)';
+      default: return 'var(--text-secondary)';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="app-theme app-layout">
+        <AppNavigation />
+        <div className="app-main">
+          <div style={{ textAlign: 'center', padding: '3rem', color: 'var(--text-secondary)' }}>
+            Loading copy trading...
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="app-theme app-layout">
+      <AppNavigation />
+      <div className="app-main">
+        {error && (
+          <div className="card" style={{ color: 'var(--color-loss)', padding: '1rem' }}>
+            ⚠️ {error}
+          </div>
+        )}
+
+        {/* Master / Follower Links */}
+        <div className="card">
+          <div className="card-header">
+            <h2 className="card-title">Copy Trading ({links.length} links)</h2>
+            <span style={{ fontSize: '0.875rem', color: engineRunning ? 'var(--color-profit)' : 'var(--color-loss)' }}>
+              {engineRunning ? '● Engine running' : '● Engine stopped'}
+            </span>
+          </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr auto', gap: '1rem', alignItems: 'end', marginBottom: '1.5rem' }}>
+            <div>
+              <label className="form-label">Master account</label>
+              <select
+                value={masterAccountId}
+                onChange={(e) => setMasterAccountId(e.target.value)}
+                className="form-input"
+              >
+                <option value="">Select master...</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>{getAccountLabel(account.id)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label">Follower account</label>
+              <select
+                value={followerAccountId}
+                onChange={(e) => setFollowerAccountId(e.target.value)}
+                className="form-input"
+              >
+                <option value="">Select follower...</option>
+                {accounts.filter(account => account.id !== masterAccountId).map(account => (
+                  <option key={account.id} value={account.id}>{getAccountLabel(account.id)}</option>
+                ))}
+              </select>
+            </div>
+            <Button variant="primary" onClick={handleCreateLink} disabled={saving}>
+              {saving ? 'Linking...' : '+ Add Follower'}
+            </Button>
+          </div>
+
+          {links.length > 0 ? (
+            <div style={{ overflowX: 'auto' }}>
+              <table className="table table-trading">
+                <thead>
+                  <tr>
+                    <th>Master</th>
+                    <th>Follower</th>
+                    <th>Status</th>
+                    <th>Since</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {links.map(link => (
+                    <tr key={link.id}>
+                      <td>{getAccountLabel(link.master_account_id)}</td>
+                      <td>{getAccountLabel(link.follower_account_id)}</td>
+                      <td style={{ color: link.is_active ? 'var(--color-profit)' : 'var(--text-secondary)', fontWeight: '500' }}>
+                        {link.is_active ? 'Active' : 'Paused'}
+                      </td>
+                      <td>{new Date(link.created_at).toLocaleDateString('en-IN')}</td>
+                      <td>
+                        <div style={{ display: 'flex', gap: '0.5rem' }}>
+                          <Button variant="outline" size="sm" onClick={() => handleToggleLink(link)}>
+                            {link.is_active ? 'Pause' : 'Resume'}
+                          </Button>
+                          <Button variant="danger" size="sm" onClick={() => handleDeleteLink(link)}>
+                            Remove
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div style={{ textAlign: 'center', padding: '2rem', color: 'var(--text-secondary)' }}>
+              <div style={{ fontSize: '2rem', marginBottom: '0.5rem' }}>🔁</div>
+              <div>No followers yet. Link a follower account to start mirroring a master account's orders.</div>
+            </div>
+          )}
+        </div>
+
+        {/* Copied Orders */}
+        <div className="card">
+          <div className="card-header">
+            <h2 className="card-title">Recently Copied Orders</h2>
+            <Button variant="outline" size="sm" onClick={fetchData}>
+              🔄 Refresh
+            </Button>
+          </div>
+
+          {copiedOrders.length > 0 ? (
+            <div style={{ overflowX: 'auto' }}>
+              <table className="table table-trading">
+                <thead>
+                  <tr>
+                    <th>Time</th>
+                    <th>Instrument</th>
+                    <th>Type</th>
+                    <th>Qty.</th>
+                    <th>Master Order</th>
+                    <th>Follower</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {copiedOrders.map(order => (
+                    <tr key={order.id}>
+                      <td>{new Date(order.created_at).toLocaleTimeString('en-IN')}</td>
+                      <td style={{ fontWeight: '500' }}>{order.symbol}</td>
+                      <td style={{ color: order.action === 'BUY' ? 'var(--color-profit)' : 'var(--color-loss)', fontWeight: '600' }}>
+                        {order.action} · {order.order_type}
+                      </td>
+                      <td style={{ fontFamily: 'var(--font-mono)' }}>{order.quantity}</td>
+                      <td>
+                        <div>{getAccountLabel(order.master_account_id)}</div>
+                        <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', fontFamily: 'var(--font-mono)' }}>
+                          #{order.master_broker_order_id}
+                        </div>
+                      </td>
+                      <td>
+                        <div>{getAccountLabel(order.follower_account_id)}</div>
+                        {order.follower_broker_order_id && (
+                          <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', fontFamily: 'var(--font-mono)' }}>
+                            #{order.follower_broker_order_id}
+                          </div>
+                        )}
+                      </td>
+                      <td style={{ color: getStatusColor(order.status), fontWeight: '500' }} title={order.error_message}>
+                        {order.status}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div style={{ textAlign: 'center', padding: '2rem', color: 'var(--text-secondary)' }}>
+              No orders have been copied yet.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CopyTrading;
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import AppNavigation from '../components/AppNavigation';
-import { portfolioService } from '../services/portfolioService';
+import { brokerService } from '../services/brokerService';
 import '../styles/app-theme.css';
 import Button from '../components/ui/Button';
 
@@ -17,6 +17,7 @@ interface Holding {
   dayChangePercent: number;
   exchange?: string;
   product?: string;
+  t1Qty?: number;
 }
 
 interface HoldingsSummary {
@@ -40,6 +41,7 @@ const Holdings: React.FC = () => {
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [accountErrors, setAccountErrors] = useState<string[]>([]);
 
   useEffect(() => {
     const fetchHoldingsData = async () => {
@@ -47,35 +49,40 @@ const Holdings: React.FC = () => {
         setLoading(true);
         setError(null);
 
-        // Fetch portfolio summary
-        const summaryResponse = await portfolioService.getSummary();
+        // Demat holdings reported by the brokers, merged across accounts
+        const response = await brokerService.getHoldings();
+        if (!response.success || !response.data) {
+          throw new Error(response.message || 'Failed to fetch holdings');
+        }
+
+        const { holdings: brokerHoldings, summary, accounts } = response.data;
         setPortfolioSummary({
-          totalValue: summaryResponse.summary.portfolioValue,
-          totalInvested: summaryResponse.metrics.totalInvested,
-          totalPnL: summaryResponse.summary.totalPnL,
-          dayPnL: summaryResponse.summary.dayPnL,
-          totalPnLPercent: summaryResponse.metrics.totalPnLPercentage,
-          dayPnLPercent: (summaryResponse.summary.dayPnL / summaryResponse.summary.portfolioValue) * 100
+          totalValue: summary.currentValue,
+          totalInvested: summary.invested,
+          totalPnL: summary.pnl,
+          dayPnL: 0, // Not reported by broker holdings
+          totalPnLPercent: summary.pnlPercent,
+          dayPnLPercent: 0
         });
 
-        // Fetch positions (treating them as holdings for now)
-        const positionsResponse = await portfolioService.getPositions();
-        // Convert PortfolioPosition to holdings format
-        const holdingsData = positionsResponse.positions.map((position: any) => ({
-            symbol: position.symbol,
-            qty: position.totalQuantity,
-            avgCost: position.averagePrice,
-            ltp: position.currentValue / position.totalQuantity, // Calculate LTP
-            invested: position.investedValue,
-            currentValue: position.currentValue,
-            pnl: position.pnl,
-            pnlPercent: position.pnlPercentage,
-            dayChange: 0, // Not available in current API
-            dayChangePercent: 0, // Not available in current API
-            exchange: 'NSE', // Default exchange
-            product: 'CNC' // Default product
-          }));
-          setHoldings(holdingsData);
+        setHoldings(brokerHoldings.map(holding => ({
+          symbol: holding.symbol,
+          qty: holding.quantity,
+          avgCost: holding.averagePrice,
+          ltp: holding.lastPrice,
+          invested: holding.invested,
+          currentValue: holding.currentValue,
+          pnl: holding.pnl,
+          pnlPercent: holding.pnlPercent,
+          dayChange: 0, // Not reported by broker holdings
+          dayChangePercent: 0,
+          exchange: holding.exchange,
+          product: 'CNC',
+          t1Qty: holding.t1Quantity
+        })));
+        setAccountErrors(accounts
+          .filter(account => account.error)
+          .map(account => `${account.brokerName} (${account.brokerAccountId}): ${account.error}`));
 
       } catch (error: any) {
         console.error('Failed to fetch holdings data:', error);
@@ -162,6 +169,18 @@ const Holdings: React.FC = () => {
             </div>
           </div>
 
+          {accountErrors.length > 0 && (
+            <div style={{
+              marginBottom: '1rem',
+              fontSize: '0.875rem',
+              color: 'var(--color-loss)'
+            }}>
+              {accountErrors.map(accountError => (
+                <div key={accountError}>⚠️ Holdings unavailable for {accountError}</div>
+              ))}
+            </div>
+          )}
+
           {/* Summary Stats */}
           <div style={{ 
             display: 'grid', 
@@ -265,9 +284,17 @@ const Holdings: React.FC = () => {
                       <div style={{ fontWeight: '500', color: 'var(--text-primary)' }}>
                         {holding.symbol}
                       </div>
+                      <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                        {holding.exchange}
+                      </div>
                     </td>
                     <td style={{ fontFamily: 'var(--font-mono)' }}>
                       {holding.qty}
+                      {!!holding.t1Qty && (
+                        <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                          T1: {holding.t1Qty}
+                        </div>
+                      )}
                     </td>
                     <td style={{ fontFamily: 'var(--font-mono)' }}>
                       {formatNumber(holding.avgCost)}
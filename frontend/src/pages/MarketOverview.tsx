@@ -31,6 +31,7 @@ import AnimatedPrice from '../components/AnimatedPrice';
 import AnimatedMarketCard from '../components/AnimatedMarketCard';
 import MarketDataStatusIndicator from '../components/MarketDataStatusIndicator';
 import LivePriceTicker from '../components/LivePriceTicker';
+import CandleChart from '../components/CandleChart';
 
 interface MarketData {
   indices: MarketIndex[];
@@ -58,6 +59,7 @@ const MarketOverview: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'gainers' | 'losers' | '52week' | 'volume'>('gainers');
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [chartSymbol, setChartSymbol] = useState('RELIANCE');
 
   // Real-time data hook
   const {
@@ -65,6 +67,9 @@ const MarketOverview: React.FC = () => {
     marketIndices: rtMarketIndices,
     marketStatus: rtMarketStatus,
     subscribeToIndices,
+    subscribeToSymbol,
+    unsubscribeFromSymbol,
+    getLivePrice,
     lastUpdate: rtLastUpdate
   } = useRealTimeData();
 
@@ -124,6 +129,12 @@ const MarketOverview: React.FC = () => {
     return () => clearInterval(interval);
   }, [subscribeToIndices]);
 
+  // Stream the charted symbol so its last bar moves with the market
+  useEffect(() => {
+    subscribeToSymbol(chartSymbol, 'NSE');
+    return () => unsubscribeFromSymbol(chartSymbol, 'NSE');
+  }, [chartSymbol, subscribeToSymbol, unsubscribeFromSymbol]);
+
   // Update indices from real-time data
   useEffect(() => {
     if (rtMarketIndices.length > 0) {
@@ -194,7 +205,12 @@ const MarketOverview: React.FC = () => {
         </TableHeader>
         <TableBody>
           {stocks.slice(0, 10).map((stock, index) => (
-            <TableRow key={index}>
+            <TableRow
+              key={index}
+              clickable
+              selected={stock.symbol === chartSymbol}
+              onClick={() => setChartSymbol(stock.symbol)}
+            >
               <TableCell>
                 <div className="font-medium">{stock.symbol}</div>
                 {stock.series && (
@@ -331,6 +347,11 @@ const MarketOverview: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Price chart of the selected mover */}
+        <div className="mb-6">
+          <CandleChart symbol={chartSymbol} exchange="NSE" livePrice={getLivePrice(chartSymbol, 'NSE')} />
+        </div>
+
         {/* Market Movers */}
         <Card>
           <CardHeader>
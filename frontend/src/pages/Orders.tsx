@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import AppNavigation from '../components/AppNavigation';
 import { brokerService } from '../services/brokerService';
+import type { StrategyOrder } from '../services/brokerService';
 import { accountService } from '../services/accountService';
 import '../styles/app-theme.css';
 import Button from '../components/ui/Button';
@@ -16,7 +17,7 @@ interface Order {
   qty: number;
   price?: number;
   triggerPrice?: number;
-  status: 'PLACED' | 'PENDING' | 'EXECUTED' | 'CANCELLED' | 'REJECTED' | 'PARTIALLY_FILLED' | 'FAILED';
+  status: 'PLACED' | 'AMO_PLACED' | 'PENDING' | 'EXECUTED' | 'CANCELLED' | 'REJECTED' | 'PARTIALLY_FILLED' | 'FAILED';
   time: string;
   filledQty: number;
   avgPrice?: number;
@@ -27,7 +28,7 @@ interface Order {
   // Enhanced fields for error handling
   errorMessage?: string;
   errorCode?: string;
-  errorType?: 'NETWORK' | 'BROKER' | 'VALIDATION' | 'AUTH' | 'SYSTEM' | 'MARKET';
+  errorType?: 'NETWORK' | 'BROKER' | 'VALIDATION' | 'AUTH' | 'SYSTEM' | 'MARKET' | 'RISK';
   retryCount?: number;
   maxRetries?: number;
   isRetryable?: boolean;
@@ -37,12 +38,37 @@ interface Order {
     user_name: string;
     email: string;
   };
+  // Copy trading linkage
+  source?: 'MANUAL' | 'COPY_TRADE' | 'ADVANCED_ORDER' | 'KILL_SWITCH' | 'STRATEGY' | 'SQUARE_OFF';
+  parentBrokerOrderId?: string;
+  masterAccountId?: string;
+  // Strategy linkage - legs of one multi-leg strategy are shown together
+  strategyOrderId?: string;
+  strategyLeg?: number;
 }
 
+// An order row, preceded by its strategy header when it's the first leg shown
+interface OrderRow {
+  order: Order;
+  strategyHeader?: {
+    strategy: StrategyOrder | undefined;
+    legCount: number;
+  };
+}
+
+const getStrategyStatusColor = (status: StrategyOrder['status']): string => {
+  switch (status) {
+    case 'PLACED': return 'var(--color-profit)';
+    case 'PARTIALLY_PLACED': return 'var(--color-neutral)';
+    default: return 'var(--color-loss)';
+  }
+};
+
 const Orders: React.FC = () => {
   const navigate = useNavigate();
   const { showToast } = useToast();
   const [orders, setOrders] = useState<Order[]>([]);
+  const [strategyOrders, setStrategyOrders] = useState<Map<string, StrategyOrder>>(new Map());
   const [activeTab, setActiveTab] = useState<'all' | 'pending' | 'executed' | 'failed'>('all');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -129,8 +155,14 @@ const Orders: React.FC = () => {
       if (startDate) filters.startDate = startDate;
       if (endDate) filters.endDate = endDate;
 
-      // Fetch orders from broker order history with filters
-      const response = await brokerService.getOrderHistory(100, 0, filters);
+      // Fetch orders from broker order history with filters, and the strategies their legs belong to
+      const [response, strategyResponse] = await Promise.all([
+        brokerService.getOrderHistory(100, 0, filters),
+        brokerService.getStrategyOrders()
+      ]);
+      if (strategyResponse.success && strategyResponse.data) {
+        setStrategyOrders(new Map(strategyResponse.data.map(strategy => [strategy.id, strategy])));
+      }
 
       if (response.success && response.data) {
         // Convert backend order format to our interface
@@ -142,7 +174,7 @@ const Orders: React.FC = () => {
           qty: order.quantity,
           price: order.price,
           triggerPrice: 0, // Not available in broker order history
-          status: order.status.toUpperCase() as 'PLACED' | 'PENDING' | 'EXECUTED' | 'CANCELLED' | 'REJECTED' | 'PARTIALLY_FILLED' | 'FAILED',
+          status: order.status.toUpperCase() as 'PLACED' | 'AMO_PLACED' | 'PENDING' | 'EXECUTED' | 'CANCELLED' | 'REJECTED' | 'PARTIALLY_FILLED' | 'FAILED',
           time: new Date(order.executed_at || order.created_at).toLocaleTimeString('en-IN', {
             hour: '2-digit',
             minute: '2-digit',
@@ -162,7 +194,12 @@ const Orders: React.FC = () => {
           maxRetries: order.max_retries || 3,
           isRetryable: order.is_retryable || false,
           failureReason: order.failure_reason,
-          accountInfo: order.account_info
+          accountInfo: order.account_info,
+          source: order.source,
+          parentBrokerOrderId: order.parent_broker_order_id,
+          masterAccountId: order.master_account_id,
+          strategyOrderId: order.strategy_order_id,
+          strategyLeg: order.strategy_leg
         }));
 
         setOrders(ordersData);
@@ -272,12 +309,38 @@ const Orders: React.FC = () => {
 
   // Apply both status and account filters
   const filteredOrders = filterOrdersByAccount(orders).filter(order => {
-    if (activeTab === 'pending') return ['PLACED', 'PENDING', 'PARTIALLY_FILLED'].includes(order.status);
+    if (activeTab === 'pending') return ['PLACED', 'AMO_PLACED', 'PENDING', 'PARTIALLY_FILLED'].includes(order.status);
     if (activeTab === 'executed') return order.status === 'EXECUTED';
     if (activeTab === 'failed') return ['FAILED', 'REJECTED', 'CANCELLED'].includes(order.status);
     return true;
   });
 
+  // Pull the legs of each strategy together under one header, where its first leg appears
+  const orderRows: OrderRow[] = [];
+  const groupedStrategies = new Set<string>();
+  for (const order of filteredOrders) {
+    const strategyOrderId = order.strategyOrderId;
+    if (!strategyOrderId) {
+      orderRows.push({ order });
+      continue;
+    }
+    if (groupedStrategies.has(strategyOrderId)) {
+      continue;
+    }
+    groupedStrategies.add(strategyOrderId);
+    const legs = filteredOrders
+      .filter(leg => leg.strategyOrderId === strategyOrderId)
+      .sort((a, b) => (a.accountInfo?.account_id || '').localeCompare(b.accountInfo?.account_id || '') ||
+        (a.strategyLeg ?? 0) - (b.strategyLeg ?? 0) ||
+        (a.createdAt || '').localeCompare(b.createdAt || ''));
+    legs.forEach((leg, index) => orderRows.push({
+      order: leg,
+      ...(index === 0 && {
+        strategyHeader: { strategy: strategyOrders.get(strategyOrderId), legCount: legs.length }
+      })
+    }));
+  }
+
   const formatCurrency = (amount: number): string => {
     return new Intl.NumberFormat('en-IN', {
       minimumFractionDigits: 2,
@@ -288,6 +351,7 @@ const Orders: React.FC = () => {
   const getStatusColor = (status: string): string => {
     switch (status) {
       case 'PLACED': return 'var(--color-neutral)';
+      case 'AMO_PLACED': return 'var(--color-warning-500)';
       case 'PENDING': return 'var(--color-neutral)';
       case 'EXECUTED': return 'var(--color-profit)';
       case 'PARTIALLY_FILLED': return 'var(--color-neutral)';
@@ -882,7 +946,7 @@ const Orders: React.FC = () => {
               <span className="filter-label">Status:</span>
               {[
                 { key: 'all', label: 'All', count: orders.length },
-                { key: 'pending', label: 'Pending', count: orders.filter(o => ['PLACED', 'PENDING', 'PARTIALLY_FILLED'].includes(o.status)).length },
+                { key: 'pending', label: 'Pending', count: orders.filter(o => ['PLACED', 'AMO_PLACED', 'PENDING', 'PARTIALLY_FILLED'].includes(o.status)).length },
                 { key: 'executed', label: 'Executed', count: orders.filter(o => o.status === 'EXECUTED').length },
                 { key: 'failed', label: 'Failed', count: orders.filter(o => ['FAILED', 'REJECTED', 'CANCELLED'].includes(o.status)).length }
               ].map(tab => (
@@ -998,206 +1062,255 @@ const Orders: React.FC = () => {
                   </tr>
                 </thead>
                 <tbody>
-                  {filteredOrders.map((order) => (
-                    <tr key={order.id}>
-                      <td className="time-cell">
-                        {order.time}
-                      </td>
-                      <td className="instrument-cell">
-                        <div className="compact-info">
-                          <div className="symbol-row">
+                  {orderRows.map(({ order, strategyHeader }) => (
+                    <React.Fragment key={order.id}>
+                      {strategyHeader && (
+                        <tr className="strategy-group-row">
+                          <td colSpan={11} style={{ backgroundColor: 'var(--bg-secondary)', fontSize: '0.8rem' }}>
                             <span style={{ fontWeight: '600', color: 'var(--text-primary)' }}>
-                              {order.symbol?.replace(/-[A-Z]+$/, '') || order.symbol}
+                              🧩 {strategyHeader.strategy?.name || 'Strategy'}
                             </span>
-                            {order.exchange && (
-                              <span className="exchange-badge" style={{
-                                backgroundColor: order.exchange === 'NSE' ? '#1e40af' : '#7c3aed',
-                                color: 'white'
-                              }}>
-                                {order.exchange}
-                              </span>
+                            {strategyHeader.strategy && (
+                              <>
+                                <span className="account-badge" style={{ marginLeft: '0.5rem' }}>
+                                  {strategyHeader.strategy.strategy_type.replace('_', ' ')}
+                                </span>
+                                <span style={{ marginLeft: '0.5rem', color: 'var(--text-secondary)' }}>
+                                  Net {strategyHeader.strategy.net_premium >= 0 ? 'credit' : 'debit'} ₹{formatCurrency(Math.abs(strategyHeader.strategy.net_premium))}
+                                  {' · '}Max profit {strategyHeader.strategy.max_profit === null ? 'unlimited' : `₹${formatCurrency(strategyHeader.strategy.max_profit)}`}
+                                  {' · '}Max loss {strategyHeader.strategy.max_loss === null ? 'unlimited' : `₹${formatCurrency(strategyHeader.strategy.max_loss)}`}
+                                </span>
+                                <span style={{ marginLeft: '0.5rem', fontWeight: '600', color: getStrategyStatusColor(strategyHeader.strategy.status) }}>
+                                  {strategyHeader.strategy.status.replace('_', ' ')}
+                                </span>
+                              </>
                             )}
-                          </div>
-                          {order.accountInfo && (
-                            <div className="account-row">
-                              <span className="account-badge">
-                                {order.accountInfo.account_id}
+                            <span style={{ marginLeft: '0.5rem', color: 'var(--text-secondary)' }}>
+                              {strategyHeader.legCount} order{strategyHeader.legCount === 1 ? '' : 's'}
+                            </span>
+                          </td>
+                        </tr>
+                      )}
+                      <tr>
+                        <td className="time-cell">
+                          {order.time}
+                        </td>
+                        <td className="instrument-cell">
+                          <div className="compact-info">
+                            <div className="symbol-row">
+                              <span style={{ fontWeight: '600', color: 'var(--text-primary)' }}>
+                                {order.symbol?.replace(/-[A-Z]+$/, '') || order.symbol}
                               </span>
-                              <span>{order.accountInfo.user_name}</span>
+                              {order.exchange && (
+                                <span className="exchange-badge" style={{
+                                  backgroundColor: order.exchange === 'NSE' ? '#1e40af' : '#7c3aed',
+                                  color: 'white'
+                                }}>
+                                  {order.exchange}
+                                </span>
+                              )}
                             </div>
-                          )}
-                        </div>
-                      </td>
-                      <td>
-                        <span style={{
-                          color: getTypeColor(order.type),
-                          fontWeight: '600',
-                          fontSize: '0.8rem'
-                        }}>
-                          {order.type}
-                        </span>
-                      </td>
-                      <td style={{ fontSize: '0.8rem' }}>
-                        {order.orderType}
-                      </td>
-                      <td className="numeric-cell">
-                        {order.qty}
-                      </td>
-                      <td className="numeric-cell">
-                        {order.price ? formatCurrency(order.price) : '-'}
-                      </td>
-                      <td className="numeric-cell">
-                        {order.triggerPrice ? formatCurrency(order.triggerPrice) : '-'}
-                      </td>
-                      <td>
-                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-                          <span className="status-badge" style={{
-                            color: getStatusColor(order.status),
-                            backgroundColor: `${getStatusColor(order.status)}15`
+                            {order.accountInfo && (
+                              <div className="account-row">
+                                <span className="account-badge">
+                                  {order.accountInfo.account_id}
+                                </span>
+                                <span>{order.accountInfo.user_name}</span>
+                              </div>
+                            )}
+                            {order.source === 'COPY_TRADE' && order.parentBrokerOrderId && (
+                              <div className="account-row" title={`Copied from master order ${order.parentBrokerOrderId}`}>
+                                <span className="account-badge">🔁 Copy</span>
+                                <span>
+                                  of #{order.parentBrokerOrderId}
+                                  {order.masterAccountId && ` · ${availableAccounts.find(a => a.mongoId === order.masterAccountId)?.name || 'master'}`}
+                                </span>
+                              </div>
+                            )}
+                            {order.source === 'SQUARE_OFF' && (
+                              <div className="account-row">
+                                <span className="account-badge">⏱ Auto square-off</span>
+                              </div>
+                            )}
+                            {order.source === 'STRATEGY' && order.strategyLeg !== undefined && (
+                              <div className="account-row">
+                                <span className="account-badge">🧩 Leg {order.strategyLeg + 1}</span>
+                                {order.strategyOrderId && strategyOrders.get(order.strategyOrderId)?.name}
+                              </div>
+                            )}
+                          </div>
+                        </td>
+                        <td>
+                          <span style={{
+                            color: getTypeColor(order.type),
+                            fontWeight: '600',
+                            fontSize: '0.8rem'
                           }}>
-                            {order.status}
+                            {order.type}
                           </span>
+                        </td>
+                        <td style={{ fontSize: '0.8rem' }}>
+                          {order.orderType}
+                        </td>
+                        <td className="numeric-cell">
+                          {order.qty}
+                        </td>
+                        <td className="numeric-cell">
+                          {order.price ? formatCurrency(order.price) : '-'}
+                        </td>
+                        <td className="numeric-cell">
+                          {order.triggerPrice ? formatCurrency(order.triggerPrice) : '-'}
+                        </td>
+                        <td>
+                          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                            <span className="status-badge" style={{
+                              color: getStatusColor(order.status),
+                              backgroundColor: `${getStatusColor(order.status)}15`
+                            }} title={order.status === 'AMO_PLACED' ? 'After-market order queued with the broker for the next session' : undefined}>
+                              {order.status}
+                            </span>
 
-                          {/* Error indicator for failed orders - shows details on hover */}
-                          {['FAILED', 'REJECTED'].includes(order.status) && order.errorMessage && (
-                            <Popover
-                              placement="top"
-                              delay={200}
-                              trigger={
-                                <div
-                                  style={{
-                                    display: 'inline-flex',
-                                    alignItems: 'center',
-                                    justifyContent: 'center',
-                                    width: '16px',
-                                    height: '16px',
-                                    backgroundColor: 'var(--color-loss)',
-                                    color: 'white',
-                                    borderRadius: '50%',
-                                    fontSize: '10px',
-                                    fontWeight: 'bold',
-                                    cursor: 'help',
-                                    flexShrink: 0
-                                  }}
-                                >
-                                  !
-                                </div>
-                              }
-                              content={
-                                <div>
-                                  <div style={{ fontWeight: '600', marginBottom: '0.5rem', color: 'var(--color-loss)' }}>
-                                    {order.errorType || 'Error'}
-                                  </div>
-                                  <div style={{ marginBottom: '0.5rem' }}>
-                                    {order.failureReason || order.errorMessage}
+                            {/* Error indicator for failed orders - shows details on hover */}
+                            {['FAILED', 'REJECTED'].includes(order.status) && order.errorMessage && (
+                              <Popover
+                                placement="top"
+                                delay={200}
+                                trigger={
+                                  <div
+                                    style={{
+                                      display: 'inline-flex',
+                                      alignItems: 'center',
+                                      justifyContent: 'center',
+                                      width: '16px',
+                                      height: '16px',
+                                      backgroundColor: 'var(--color-loss)',
+                                      color: 'white',
+                                      borderRadius: '50%',
+                                      fontSize: '10px',
+                                      fontWeight: 'bold',
+                                      cursor: 'help',
+                                      flexShrink: 0
+                                    }}
+                                  >
+                                    !
                                   </div>
-                                  <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
-                                    Retries: {order.retryCount || 0}/{order.maxRetries || 3}
-                                    {order.isRetryable && (
-                                      <span style={{ color: 'var(--color-warning)', marginLeft: '0.5rem' }}>
-                                        • Retryable
-                                      </span>
-                                    )}
+                                }
+                                content={
+                                  <div>
+                                    <div style={{ fontWeight: '600', marginBottom: '0.5rem', color: 'var(--color-loss)' }}>
+                                      {order.errorType || 'Error'}
+                                    </div>
+                                    <div style={{ marginBottom: '0.5rem' }}>
+                                      {order.failureReason || order.errorMessage}
+                                    </div>
+                                    <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                                      Retries: {order.retryCount || 0}/{order.maxRetries || 3}
+                                      {order.isRetryable && (
+                                        <span style={{ color: 'var(--color-warning)', marginLeft: '0.5rem' }}>
+                                          • Retryable
+                                        </span>
+                                      )}
+                                    </div>
                                   </div>
-                                </div>
-                              }
-                            />
-                          )}
-                        </div>
-                      </td>
-                      <td className="numeric-cell">
-                        {order.filledQty}/{order.qty}
-                      </td>
-                      <td className="numeric-cell">
-                        {order.avgPrice ? formatCurrency(order.avgPrice) : '-'}
-                      </td>
-                      <td className="actions-cell">
-                        <div className="action-buttons">
-                          {/* Check Status button */}
-                          <button
-                            className="compact-button"
-                            onClick={() => handleCheckOrderStatus(order.id)}
-                            disabled={checkingStatus.has(order.id)}
-                            title="Check current order status from broker"
-                          >
-                            {checkingStatus.has(order.id) ? (
+                                }
+                              />
+                            )}
+                          </div>
+                        </td>
+                        <td className="numeric-cell">
+                          {order.filledQty}/{order.qty}
+                        </td>
+                        <td className="numeric-cell">
+                          {order.avgPrice ? formatCurrency(order.avgPrice) : '-'}
+                        </td>
+                        <td className="actions-cell">
+                          <div className="action-buttons">
+                            {/* Check Status button */}
+                            <button
+                              className="compact-button"
+                              onClick={() => handleCheckOrderStatus(order.id)}
+                              disabled={checkingStatus.has(order.id)}
+                              title="Check current order status from broker"
+                            >
+                              {checkingStatus.has(order.id) ? (
+                                <>
+                                  <span style={{
+                                    display: 'inline-block',
+                                    width: '0.6rem',
+                                    height: '0.6rem',
+                                    border: '1px solid currentColor',
+                                    borderTop: '1px solid transparent',
+                                    borderRadius: '50%',
+                                    animation: 'spin 1s linear infinite'
+                                  }}></span>
+                                </>
+                              ) : (
+                                '🔄'
+                              )}
+                            </button>
+
+                            {['PLACED', 'AMO_PLACED', 'PENDING', 'PARTIALLY_FILLED'].includes(order.status) && (
                               <>
-                                <span style={{
-                                  display: 'inline-block',
-                                  width: '0.6rem',
-                                  height: '0.6rem',
-                                  border: '1px solid currentColor',
-                                  borderTop: '1px solid transparent',
-                                  borderRadius: '50%',
-                                  animation: 'spin 1s linear infinite'
-                                }}></span>
+                                <button
+                                  className="compact-button"
+                                  onClick={() => handleModifyOrder(order.id)}
+                                  title="Modify order"
+                                >
+                                  Modify
+                                </button>
+                                <button
+                                  className="compact-button danger"
+                                  onClick={() => handleCancelOrder(order.id)}
+                                  title="Cancel order"
+                                >
+                                  Cancel
+                                </button>
                               </>
-                            ) : (
-                              '🔄'
                             )}
-                          </button>
-
-                          {['PLACED', 'PENDING', 'PARTIALLY_FILLED'].includes(order.status) && (
-                            <>
-                              <button
-                                className="compact-button"
-                                onClick={() => handleModifyOrder(order.id)}
-                                title="Modify order"
-                              >
-                                Modify
-                              </button>
-                              <button
-                                className="compact-button danger"
-                                onClick={() => handleCancelOrder(order.id)}
-                                title="Cancel order"
-                              >
-                                Cancel
-                              </button>
-                            </>
-                          )}
-
-                          {/* Retry and Delete buttons for failed orders */}
-                          {['FAILED', 'REJECTED'].includes(order.status) && (
-                            <>
-                              {order.isRetryable && (order.retryCount || 0) < (order.maxRetries || 3) && (
+
+                            {/* Retry and Delete buttons for failed orders */}
+                            {['FAILED', 'REJECTED'].includes(order.status) && (
+                              <>
+                                {order.isRetryable && (order.retryCount || 0) < (order.maxRetries || 3) && (
+                                  <button
+                                    className="compact-button"
+                                    onClick={() => handleRetryOrder(order.id)}
+                                    disabled={checkingStatus.has(order.id)}
+                                    title={`Retry failed order (${order.retryCount || 0}/${order.maxRetries || 3} attempts)`}
+                                    style={{
+                                      backgroundColor: 'var(--color-warning)',
+                                      color: 'white'
+                                    }}
+                                  >
+                                    {checkingStatus.has(order.id) ? (
+                                      <span style={{
+                                        display: 'inline-block',
+                                        width: '0.6rem',
+                                        height: '0.6rem',
+                                        border: '1px solid currentColor',
+                                        borderTop: '1px solid transparent',
+                                        borderRadius: '50%',
+                                        animation: 'spin 1s linear infinite'
+                                      }}></span>
+                                    ) : (
+                                      '🔄 Retry'
+                                    )}
+                                  </button>
+                                )}
                                 <button
-                                  className="compact-button"
-                                  onClick={() => handleRetryOrder(order.id)}
+                                  className="compact-button danger"
+                                  onClick={() => handleDeleteOrder(order.id)}
                                   disabled={checkingStatus.has(order.id)}
-                                  title={`Retry failed order (${order.retryCount || 0}/${order.maxRetries || 3} attempts)`}
-                                  style={{
-                                    backgroundColor: 'var(--color-warning)',
-                                    color: 'white'
-                                  }}
+                                  title="Delete failed order"
                                 >
-                                  {checkingStatus.has(order.id) ? (
-                                    <span style={{
-                                      display: 'inline-block',
-                                      width: '0.6rem',
-                                      height: '0.6rem',
-                                      border: '1px solid currentColor',
-                                      borderTop: '1px solid transparent',
-                                      borderRadius: '50%',
-                                      animation: 'spin 1s linear infinite'
-                                    }}></span>
-                                  ) : (
-                                    '🔄 Retry'
-                                  )}
+                                  {checkingStatus.has(order.id) ? '...' : '🗑️ Delete'}
                                 </button>
-                              )}
-                              <button
-                                className="compact-button danger"
-                                onClick={() => handleDeleteOrder(order.id)}
-                                disabled={checkingStatus.has(order.id)}
-                                title="Delete failed order"
-                              >
-                                {checkingStatus.has(order.id) ? '...' : '🗑️ Delete'}
-                              </button>
-                            </>
-                          )}
-                        </div>
-                      </td>
-                    </tr>
+                              </>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    </React.Fragment>
                   ))}
                 </tbody>
               </table>
@@ -1265,7 +1378,7 @@ const Orders: React.FC = () => {
               </div>
               <div>
                 <div style={{ fontSize: '1.25rem', fontWeight: '700', color: 'var(--color-neutral)' }}>
-                  {orders.filter(o => ['PLACED', 'PENDING', 'PARTIALLY_FILLED'].includes(o.status)).length}
+                  {orders.filter(o => ['PLACED', 'AMO_PLACED', 'PENDING', 'PARTIALLY_FILLED'].includes(o.status)).length}
                 </div>
                 <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
                   Pending
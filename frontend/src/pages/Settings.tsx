@@ -1,6 +1,11 @@
 import React, { useState } from 'react';
 import Navigation from '../components/Navigation';
 import NotificationSettings from '../components/NotificationSettings';
+import PositionSizingSettings from '../components/PositionSizingSettings';
+import RiskLimitsSettings from '../components/RiskLimitsSettings';
+import SecuritySettings from '../components/SecuritySettings';
+import ApiKeySettings from '../components/ApiKeySettings';
+import WebhookSettings from '../components/WebhookSettings';
 import {
   Container,
   PageHeader,
@@ -8,13 +13,13 @@ import {
   CardHeader,
   CardContent,
   Grid,
-
+  Stack,
   Badge
 } from '../components/ui';
 import './Settings.css';
 
 const Settings: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'notifications' | 'account' | 'trading'>('notifications');
+  const [activeTab, setActiveTab] = useState<'notifications' | 'account' | 'security' | 'trading' | 'integrations'>('notifications');
 
   const renderTabContent = () => {
     switch (activeTab) {
@@ -38,21 +43,23 @@ const Settings: React.FC = () => {
           </Card>
         );
       
+      case 'security':
+        return <SecuritySettings />;
+
       case 'trading':
         return (
-          <Card>
-            <CardHeader
-              title="📈 Trading Settings"
-              subtitle="Configure your trading preferences and risk management"
-            />
-            <CardContent>
-              <div className="settings-coming-soon">
-                <span className="coming-soon-icon">🚧</span>
-                <h3>Coming Soon</h3>
-                <p>Trading settings will be available in a future update.</p>
-              </div>
-            </CardContent>
-          </Card>
+          <Stack gap={6}>
+            <PositionSizingSettings />
+            <RiskLimitsSettings />
+          </Stack>
+        );
+
+      case 'integrations':
+        return (
+          <Stack gap={6}>
+            <ApiKeySettings />
+            <WebhookSettings />
+          </Stack>
         );
       
       default:
@@ -92,6 +99,14 @@ const Settings: React.FC = () => {
                     <span className="nav-label">Account</span>
                   </button>
 
+                  <button
+                    className={`settings-nav-item ${activeTab === 'security' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('security')}
+                  >
+                    <span className="nav-icon">🔐</span>
+                    <span className="nav-label">Security</span>
+                  </button>
+
                   <button
                     className={`settings-nav-item ${activeTab === 'trading' ? 'active' : ''}`}
                     onClick={() => setActiveTab('trading')}
@@ -99,6 +114,14 @@ const Settings: React.FC = () => {
                     <span className="nav-icon">📈</span>
                     <span className="nav-label">Trading</span>
                   </button>
+
+                  <button
+                    className={`settings-nav-item ${activeTab === 'integrations' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('integrations')}
+                  >
+                    <span className="nav-icon">🔌</span>
+                    <span className="nav-label">Integrations</span>
+                  </button>
                 </nav>
               </CardContent>
             </Card>
@@ -0,0 +1,382 @@
+import React, { useState, useEffect } from 'react';
+import AppNavigation from '../components/AppNavigation';
+import {
+  squareOffService,
+  type SquareOffAccount,
+  type SquareOffOverview,
+  type SquareOffRun,
+  type SquareOffSettings
+} from '../services/squareOffService';
+import { useEventBus } from '../hooks/useEventBus';
+import '../styles/app-theme.css';
+import Button from '../components/ui/Button';
+import { useToast } from '../components/Toast';
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Something went wrong';
+
+interface ScheduleForm {
+  enabled: boolean;
+  squareOffTime: string;
+  cancelPendingOrders: boolean;
+}
+
+const formOf = (settings: SquareOffSettings | undefined, defaultTime: string): ScheduleForm => ({
+  enabled: settings?.enabled ?? false,
+  squareOffTime: settings?.square_off_time ?? defaultTime,
+  cancelPendingOrders: settings?.cancel_pending_orders ?? true
+});
+
+const describeSchedule = (settings: SquareOffSettings | undefined): string => {
+  if (!settings) {
+    return 'Not scheduled';
+  }
+  if (!settings.enabled) {
+    return 'Off';
+  }
+  return `${settings.square_off_time} IST${settings.cancel_pending_orders ? ' · cancels pending orders' : ''}`;
+};
+
+const RUN_STATUS_LABELS: Record<SquareOffRun['status'], { label: string; color: string }> = {
+  COMPLETED: { label: 'Completed', color: 'var(--color-profit)' },
+  PARTIAL: { label: 'Partial', color: 'var(--color-warning, #f59e0b)' },
+  FAILED: { label: 'Failed', color: 'var(--color-loss)' },
+  NOTHING_TO_DO: { label: 'Nothing open', color: 'var(--text-secondary)' }
+};
+
+const ScheduleFields: React.FC<{ form: ScheduleForm; onChange: (form: ScheduleForm) => void }> = ({ form, onChange }) => (
+  <>
+    <label style={{ display: 'flex', gap: '0.25rem', alignItems: 'center', fontSize: '0.875rem' }}>
+      <input
+        type="checkbox"
+        checked={form.enabled}
+        onChange={(e) => onChange({ ...form, enabled: e.target.checked })}
+      />
+      Enabled
+    </label>
+    <input
+      type="time"
+      min="09:16"
+      max="15:29"
+      value={form.squareOffTime}
+      onChange={(e) => onChange({ ...form, squareOffTime: e.target.value })}
+      className="form-input"
+      style={{ maxWidth: '140px' }}
+    />
+    <label style={{ display: 'flex', gap: '0.25rem', alignItems: 'center', fontSize: '0.875rem' }}>
+      <input
+        type="checkbox"
+        checked={form.cancelPendingOrders}
+        onChange={(e) => onChange({ ...form, cancelPendingOrders: e.target.checked })}
+      />
+      Cancel pending intraday orders
+    </label>
+  </>
+);
+
+const SquareOff: React.FC = () => {
+  const { showToast } = useToast();
+  const [overview, setOverview] = useState<SquareOffOverview | null>(null);
+  const [defaultForm, setDefaultForm] = useState<ScheduleForm | null>(null);
+  const [editing, setEditing] = useState<{ accountId: string; form: ScheduleForm } | null>(null);
+  const [running, setRunning] = useState<string | null>(null); // account id, or 'ALL'
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = async () => {
+    try {
+      setError(null);
+      const data = await squareOffService.getOverview();
+      setOverview(data);
+      setDefaultForm(current => current ?? formOf(data.settings.find(entry => entry.account_id === null), data.defaultSquareOffTime));
+    } catch (error) {
+      console.error('Failed to load square-off settings:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  // Navigation shows the toast; the page only needs the new run
+  useEventBus('squareOffUpdate', () => {
+    fetchData();
+  });
+
+  const save = async (accountId: string | null, form: ScheduleForm): Promise<boolean> => {
+    try {
+      setSaving(true);
+      await squareOffService.saveSettings({ accountId, ...form });
+      showToast({ type: 'success', title: 'Schedule Saved', message: form.enabled ? `Square-off at ${form.squareOffTime} IST` : 'Square-off is off' });
+      await fetchData();
+      return true;
+    } catch (error) {
+      showToast({ type: 'error', title: 'Save Failed', message: getErrorMessage(error) });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveOverride = async () => {
+    if (editing && await save(editing.accountId, editing.form)) {
+      setEditing(null);
+    }
+  };
+
+  const handleRemoveOverride = async (account: SquareOffAccount) => {
+    try {
+      await squareOffService.removeOverride(account.id);
+      await fetchData();
+    } catch (error) {
+      showToast({ type: 'error', title: 'Update Failed', message: getErrorMessage(error) });
+    }
+  };
+
+  const handleRunNow = async (account: SquareOffAccount | null) => {
+    const target = account ? `${account.broker_name} (${account.account_id})` : 'all accounts';
+    if (!confirm(`Cancel intraday orders and close all MIS positions on ${target} now?`)) {
+      return;
+    }
+
+    try {
+      setRunning(account?.id ?? 'ALL');
+      const runs = await squareOffService.runNow(account?.id ?? null);
+      const closed = runs.reduce((total, run) => total + run.squared_off_positions, 0);
+      const failed = runs.filter(run => run.status === 'FAILED' || run.status === 'PARTIAL').length;
+      showToast({
+        type: failed > 0 ? 'warning' : 'success',
+        title: 'Square-off Finished',
+        message: `${closed} position(s) closed${failed > 0 ? `, ${failed} account(s) need attention` : ''}`
+      });
+      await fetchData();
+    } catch (error) {
+      showToast({ type: 'error', title: 'Square-off Failed', message: getErrorMessage(error) });
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  if (loading || !overview || !defaultForm) {
+    return (
+      <div className="app-theme app-layout">
+        <AppNavigation />
+        <div className="app-main">
+          <div style={{ textAlign: 'center', padding: '3rem', color: 'var(--text-secondary)' }}>
+            {error ? `⚠️ ${error}` : 'Loading square-off settings...'}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const defaults = overview.settings.find(entry => entry.account_id === null);
+  const accountName = (accountId: string): string => {
+    const account = overview.accounts.find(entry => entry.id === accountId);
+    return account ? `${account.broker_name} (${account.account_id})` : accountId;
+  };
+
+  return (
+    <div className="app-theme app-layout">
+      <AppNavigation />
+      <div className="app-main">
+        {error && (
+          <div className="card" style={{ color: 'var(--color-loss)', padding: '1rem' }}>
+            ⚠️ {error}
+          </div>
+        )}
+
+        {/* Default Schedule */}
+        <div className="card">
+          <div className="card-header">
+            <h2 className="card-title">Intraday Square-off</h2>
+            <Button
+              variant="danger"
+              size="sm"
+              onClick={() => handleRunNow(null)}
+              disabled={running !== null}
+            >
+              {running === 'ALL' ? 'Squaring off...' : 'Square off all now'}
+            </Button>
+          </div>
+
+          <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', flexWrap: 'wrap' }}>
+            <span className="form-label" style={{ margin: 0 }}>Default for all accounts</span>
+            <ScheduleFields form={defaultForm} onChange={setDefaultForm} />
+            <Button variant="primary" onClick={() => save(null, defaultForm)} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+
+          <div style={{ marginTop: '1rem', fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+            At the chosen time on trading days the server cancels open intraday orders and closes MIS, CO and BO
+            positions on each account, retrying failed exit orders. Exchange holidays and weekends are skipped.
+            Delivery (CNC) and NRML positions are never touched.
+          </div>
+        </div>
+
+        {/* Accounts */}
+        <div className="card">
+          <div className="card-header">
+            <h2 className="card-title">Accounts ({overview.accounts.length})</h2>
+          </div>
+
+          {overview.accounts.length > 0 ? (
+            <div style={{ overflowX: 'auto' }}>
+              <table className="table table-trading">
+                <thead>
+                  <tr>
+                    <th>Account</th>
+                    <th>Schedule</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {overview.accounts.map(account => {
+                    const override = overview.settings.find(entry => entry.account_id === account.id);
+                    const isEditing = editing?.accountId === account.id;
+                    return (
+                      <tr key={account.id}>
+                        <td style={{ fontWeight: '500' }}>
+                          <div>{account.broker_name} ({account.account_id})</div>
+                          <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>{account.user_name}</div>
+                        </td>
+                        <td>
+                          {isEditing ? (
+                            <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', flexWrap: 'wrap' }}>
+                              <ScheduleFields
+                                form={editing.form}
+                                onChange={(form) => setEditing({ accountId: account.id, form })}
+                              />
+                            </div>
+                          ) : (
+                            <>
+                              <div>{describeSchedule(override ?? defaults)}</div>
+                              <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                                {override ? 'Account override' : 'Default'}
+                              </div>
+                            </>
+                          )}
+                        </td>
+                        <td>
+                          <div style={{ display: 'flex', gap: '0.5rem' }}>
+                            {isEditing ? (
+                              <>
+                                <Button variant="primary" size="sm" onClick={handleSaveOverride} disabled={saving}>
+                                  Save
+                                </Button>
+                                <Button variant="outline" size="sm" onClick={() => setEditing(null)}>
+                                  Cancel
+                                </Button>
+                              </>
+                            ) : (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setEditing({ accountId: account.id, form: formOf(override ?? defaults, overview.defaultSquareOffTime) })}
+                              >
+                                {override ? 'Edit' : 'Override'}
+                              </Button>
+                            )}
+                            {override && !isEditing && (
+                              <Button variant="outline" size="sm" onClick={() => handleRemoveOverride(account)}>
+                                Use default
+                              </Button>
+                            )}
+                            <Button
+                              variant="danger"
+                              size="sm"
+                              onClick={() => handleRunNow(account)}
+                              disabled={running !== null}
+                            >
+                              {running === account.id ? 'Squaring off...' : 'Square off now'}
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div style={{ textAlign: 'center', padding: '2rem', color: 'var(--text-secondary)' }}>
+              No broker accounts connected.
+            </div>
+          )}
+        </div>
+
+        {/* Run History */}
+        <div className="card">
+          <div className="card-header">
+            <h2 className="card-title">Recent Runs</h2>
+            <Button variant="outline" size="sm" onClick={fetchData}>
+              🔄 Refresh
+            </Button>
+          </div>
+
+          {overview.runs.length > 0 ? (
+            <div style={{ overflowX: 'auto' }}>
+              <table className="table table-trading">
+                <thead>
+                  <tr>
+                    <th>Time</th>
+                    <th>Account</th>
+                    <th>Trigger</th>
+                    <th>Status</th>
+                    <th>Positions Closed</th>
+                    <th>Orders Cancelled</th>
+                    <th>Failures</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {overview.runs.map(run => (
+                    <tr key={run.id}>
+                      <td>{new Date(run.created_at).toLocaleString('en-IN')}</td>
+                      <td>{accountName(run.account_id)}</td>
+                      <td>{run.trigger === 'SCHEDULED' ? 'Scheduled' : 'Manual'}</td>
+                      <td style={{ color: RUN_STATUS_LABELS[run.status].color, fontWeight: '500' }}>
+                        {RUN_STATUS_LABELS[run.status].label}
+                      </td>
+                      <td>{run.squared_off_positions}</td>
+                      <td>
+                        {run.cancelled_orders}
+                        {run.retried_orders > 0 && (
+                          <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                            {run.retried_orders} exit(s) retried
+                          </div>
+                        )}
+                      </td>
+                      <td style={{ fontSize: '0.75rem' }}>
+                        {run.failures.length > 0 ? (
+                          run.failures.map((failure, index) => (
+                            <div key={index} style={{ color: 'var(--color-loss)' }}>
+                              {failure.reference ? `${failure.reference}: ` : ''}{failure.message}
+                            </div>
+                          ))
+                        ) : (
+                          <span style={{ color: 'var(--text-secondary)' }}>None</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div style={{ textAlign: 'center', padding: '2rem', color: 'var(--text-secondary)' }}>
+              <div style={{ fontSize: '2rem', marginBottom: '0.5rem' }}>⏱</div>
+              <div>No square-off runs yet.</div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SquareOff;
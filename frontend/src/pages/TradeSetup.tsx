@@ -2,8 +2,11 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import AppNavigation from '../components/AppNavigation';
 import OrderResultDisplay, { type OrderResultSummary } from '../components/OrderResultDisplay';
-import { brokerService, type PlaceMultiAccountOrderRequest } from '../services/brokerService';
-import { accountService, type ConnectedAccount } from '../services/accountService';
+import StrategyBuilder from '../components/StrategyBuilder';
+import CandleChart from '../components/CandleChart';
+import { useRealTimeData } from '../hooks/useRealTimeData';
+import { brokerService, type OrderPreview, type OrderVariety, type PlaceMultiAccountOrderRequest } from '../services/brokerService';
+import { accountService, canTradeAccount, type ConnectedAccount } from '../services/accountService';
 import { fundsService } from '../services/fundsService';
 import { marketDataService } from '../services/marketDataService';
 import { transformBrokerResponseToOrderResult } from '../utils/orderResultTransformer';
@@ -34,6 +37,7 @@ interface OrderForm {
   orderType: OrderType;
   product: Product;
   validity: 'DAY' | 'IOC';
+  variety: OrderVariety;
   triggerPrice: string;
   selectedAccounts: string[]; // Changed from single brokerAccount to array of selected account IDs
 }
@@ -56,6 +60,7 @@ const TradeSetup: React.FC = () => {
     orderType: 'MARKET',
     product: 'CNC',
     validity: 'DAY',
+    variety: 'REGULAR',
     triggerPrice: '',
     selectedAccounts: []
   });
@@ -72,6 +77,24 @@ const TradeSetup: React.FC = () => {
   const [searchLoading, setSearchLoading] = useState(false);
   const [orderResult, setOrderResult] = useState<OrderResultSummary | null>(null);
   const [showOrderResult, setShowOrderResult] = useState(false);
+  const [quantityPreview, setQuantityPreview] = useState<OrderPreview | null>(null);
+  const [chartSymbol, setChartSymbol] = useState<{ symbol: string; exchange: 'NSE' | 'BSE' } | null>(null);
+  const { subscribeToSymbol, unsubscribeFromSymbol, getLivePrice, marketStatus } = useRealTimeData();
+
+  // Brokers queue after-market orders from the post-close session until the next open
+  const isAmoWindow = marketStatus?.phase === 'POST_CLOSE' || marketStatus?.phase === 'CLOSED';
+
+  // Propose an AMO while the market is closed and go back to regular orders when it opens
+  useEffect(() => {
+    setOrderForm(prev => ({ ...prev, variety: isAmoWindow ? 'AMO' : 'REGULAR' }));
+  }, [isAmoWindow]);
+
+  // Stream the charted symbol so its last bar moves with the market
+  useEffect(() => {
+    if (!chartSymbol) return;
+    subscribeToSymbol(chartSymbol.symbol, chartSymbol.exchange);
+    return () => unsubscribeFromSymbol(chartSymbol.symbol, chartSymbol.exchange);
+  }, [chartSymbol, subscribeToSymbol, unsubscribeFromSymbol]);
 
   useEffect(() => {
     const fetchAccounts = async () => {
@@ -79,7 +102,8 @@ const TradeSetup: React.FC = () => {
         setLoading(true);
         setError(null);
 
-        const accounts = await accountService.getConnectedAccounts();
+        // View-only client accounts can't take orders
+        const accounts = (await accountService.getConnectedAccounts()).filter(canTradeAccount);
         console.log('🔍 DEBUG: Fetched accounts:', accounts);
         setConnectedAccounts(accounts);
 
@@ -124,6 +148,29 @@ const TradeSetup: React.FC = () => {
     }
   }, [orderForm.symbol, orderForm.quantity, orderForm.price, orderForm.orderType]);
 
+  // Preview the quantity each selected account will trade after sizing rules
+  useEffect(() => {
+    const quantity = parseInt(orderForm.quantity);
+    if (!orderForm.symbol || !quantity || quantity <= 0 || orderForm.selectedAccounts.length === 0) {
+      setQuantityPreview(null);
+      return;
+    }
+
+    const timeoutId = setTimeout(async () => {
+      const response = await brokerService.previewMultiAccountOrder({
+        selectedAccounts: orderForm.selectedAccounts,
+        symbol: orderForm.symbol,
+        quantity,
+        exchange: orderForm.exchange,
+        ...(orderForm.orderType !== 'MARKET' && orderForm.price && { price: parseFloat(orderForm.price) }),
+        ...(orderForm.triggerPrice && { triggerPrice: parseFloat(orderForm.triggerPrice) })
+      });
+      setQuantityPreview(response.success && response.data ? response.data : null);
+    }, 400);
+
+    return () => clearTimeout(timeoutId);
+  }, [orderForm.symbol, orderForm.exchange, orderForm.quantity, orderForm.price, orderForm.triggerPrice, orderForm.orderType, orderForm.selectedAccounts]);
+
   // Debounced symbol search
   const handleSymbolSearch = React.useCallback((searchTerm: string) => {
     if (searchTerm.length < 2) {
@@ -187,6 +234,7 @@ const TradeSetup: React.FC = () => {
         exchange,
         price: prev.price
       }));
+      setChartSymbol({ symbol, exchange });
       setShowSearchResults(false);
     }
   };
@@ -246,6 +294,7 @@ const TradeSetup: React.FC = () => {
           : undefined,
         exchange: orderForm.exchange,
         productType: orderForm.product,
+        variety: orderForm.variety,
         remarks: `${orderForm.validity} order placed via CopyTrade Pro`
       };
 
@@ -267,6 +316,11 @@ const TradeSetup: React.FC = () => {
       setOrderResult(orderResultSummary);
       setShowOrderResult(true);
 
+      // The market closed while the order was being filled in: switch to AMO for the retry
+      if (response.data?.failedOrders.some(order => order.suggestedVariety === 'AMO')) {
+        setOrderForm(prev => ({ ...prev, variety: 'AMO' }));
+      }
+
       if (orderResultSummary.failedAccounts === 0) {
         setOrderForm(prev => ({
           ...prev,
@@ -520,6 +574,23 @@ const TradeSetup: React.FC = () => {
                         </div>
                       )}
 
+                      {/* After-market order */}
+                      <div>
+                        <Checkbox
+                          checked={orderForm.variety === 'AMO'}
+                          onChange={(checked) => setOrderForm(prev => ({ ...prev, variety: checked ? 'AMO' : 'REGULAR' }))}
+                          label="After-market order (AMO) - queued with the broker for the next session"
+                          size="base"
+                        />
+                        {isAmoWindow && (
+                          <div className="alert alert-warning" style={{ marginTop: '0.5rem' }}>
+                            {marketStatus?.status || 'Market Closed'}. {orderForm.variety === 'AMO'
+                              ? 'This order will be sent to the exchange when the market opens.'
+                              : 'Regular orders may be rejected until the market opens; place it as an AMO instead.'}
+                          </div>
+                        )}
+                      </div>
+
                       {/* Error Display */}
                       {error && (
                         <div className="alert alert-error">
@@ -543,6 +614,16 @@ const TradeSetup: React.FC = () => {
                   </CardFooter>
                 </Card>
 
+                {/* Chart of the selected symbol with the user's orders and position on it */}
+                {chartSymbol && (
+                  <CandleChart
+                    symbol={chartSymbol.symbol}
+                    exchange={chartSymbol.exchange}
+                    livePrice={getLivePrice(chartSymbol.symbol, chartSymbol.exchange)}
+                    defaultInterval="5m"
+                  />
+                )}
+
                 {/* Account Selection */}
                 <Card>
                   <CardHeader
@@ -576,6 +657,7 @@ const TradeSetup: React.FC = () => {
                           </div>
                           <div className="account-meta">
                             ID: {account.id} | User: {account.userName || 'N/A'} | Account: {account.accountId || 'N/A'}
+                            {account.accessType === 'DELEGATED' && ` | Client: ${account.ownerName || 'Unknown'}`}
                           </div>
                         </div>
                       ))}
@@ -587,6 +669,9 @@ const TradeSetup: React.FC = () => {
                     </Stack>
                   </CardContent>
                 </Card>
+
+                {/* Multi-leg options strategies go to the same selected accounts */}
+                <StrategyBuilder selectedAccounts={orderForm.selectedAccounts} />
               </Stack>
             </div>
 
@@ -641,6 +726,12 @@ const TradeSetup: React.FC = () => {
                           <span style={{ color: 'var(--text-secondary)' }}>Product:</span>
                           <span style={{ fontWeight: '500' }}>{orderForm.product}</span>
                         </Flex>
+                        {orderForm.variety === 'AMO' && (
+                          <Flex justify="between">
+                            <span style={{ color: 'var(--text-secondary)' }}>Variety:</span>
+                            <span style={{ fontWeight: '500' }}>AMO</span>
+                          </Flex>
+                        )}
                         {orderForm.quantity && orderForm.price && (
                           <>
                             <hr style={{ border: 'none', borderTop: '1px solid var(--border-secondary)', margin: '0.5rem 0' }} />
@@ -661,6 +752,41 @@ const TradeSetup: React.FC = () => {
                   </CardContent>
                 </Card>
 
+                {/* Per-account quantity preview */}
+                {quantityPreview && (
+                  <Card>
+                    <CardHeader title="Quantity per Account" />
+                    <CardContent>
+                      <Stack gap={3}>
+                        {quantityPreview.accounts.map(account => (
+                          <div key={account.accountId}>
+                            <Flex justify="between">
+                              <span style={{ color: 'var(--text-secondary)' }}>{account.accountDisplayName}</span>
+                              <span style={{
+                                fontWeight: '500',
+                                fontFamily: 'var(--font-mono)',
+                                color: account.quantity > 0 ? undefined : 'var(--color-loss)'
+                              }}>
+                                {account.quantity}
+                              </span>
+                            </Flex>
+                            {(account.method !== 'SOURCE' || account.note) && (
+                              <div style={{ fontSize: '0.75rem', color: account.note ? 'var(--color-loss)' : 'var(--text-secondary)' }}>
+                                {account.note || account.method.replace(/_/g, ' ').toLowerCase()}
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                        {quantityPreview.lotSize > 1 && (
+                          <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                            Lot size: {quantityPreview.lotSize}
+                          </div>
+                        )}
+                      </Stack>
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Margin Info */}
                 {marginInfo.required > 0 && (
                   <Card>
@@ -0,0 +1,449 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import AppNavigation from '../components/AppNavigation';
+import {
+  workspaceService,
+  type AccountGrant,
+  type AccountPermission,
+  type Workspace,
+  type WorkspaceDetails,
+  type WorkspaceRole
+} from '../services/workspaceService';
+import { accountService, type ConnectedAccount } from '../services/accountService';
+import { useAuth } from '../hooks/useAuth';
+import '../styles/app-theme.css';
+import Button from '../components/ui/Button';
+import { useToast } from '../components/Toast';
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Something went wrong';
+
+const ROLES: Array<{ value: WorkspaceRole; label: string; description: string }> = [
+  { value: 'owner', label: 'Owner', description: 'Manages members; views and trades shared accounts' },
+  { value: 'trader', label: 'Trader', description: 'Views and trades shared accounts' },
+  { value: 'viewer', label: 'Viewer', description: 'Views shared accounts only' }
+];
+
+const ACCESS_LEVELS: Array<{ value: AccountPermission[]; label: string }> = [
+  { value: ['VIEW'], label: 'View only' },
+  { value: ['VIEW', 'TRADE'], label: 'View & trade' }
+];
+
+const describePermissions = (permissions: AccountPermission[]): string =>
+  permissions.includes('TRADE') ? 'View & trade' : 'View only';
+
+const accountLabel = (grant: AccountGrant): string => `${grant.brokerName} (${grant.brokerAccountId})`;
+
+const Workspaces: React.FC = () => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [selected, setSelected] = useState<WorkspaceDetails | null>(null);
+  const [ownAccounts, setOwnAccounts] = useState<ConnectedAccount[]>([]);
+  const [myGrants, setMyGrants] = useState<AccountGrant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [memberEmail, setMemberEmail] = useState('');
+  const [memberRole, setMemberRole] = useState<WorkspaceRole>('trader');
+  const [shareAccountId, setShareAccountId] = useState('');
+  const [shareTrade, setShareTrade] = useState(true);
+
+  const loadWorkspace = useCallback(async (workspaceId: string) => {
+    setSelected(await workspaceService.getWorkspace(workspaceId));
+  }, []);
+
+  // Reloads everything, keeping the given workspace open when it still exists
+  const fetchData = useCallback(async (workspaceId?: string) => {
+    try {
+      setError(null);
+      const [workspaceList, accounts, grants] = await Promise.all([
+        workspaceService.getWorkspaces(),
+        accountService.getOwnAccounts(),
+        workspaceService.getMyGrants()
+      ]);
+      setWorkspaces(workspaceList);
+      setOwnAccounts(accounts);
+      setMyGrants(grants);
+      setShareAccountId(prev => prev || accounts[0]?.id || '');
+
+      const current = workspaceList.find(workspace => workspace.id === workspaceId) || workspaceList[0];
+      if (current) {
+        await loadWorkspace(current.id);
+      } else {
+        setSelected(null);
+      }
+    } catch (error) {
+      console.error('Failed to load workspaces:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [loadWorkspace]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Runs an action with the shared busy state, then reloads the given workspace
+  const run = async (key: string, action: () => Promise<string>, workspaceId = selected?.id) => {
+    try {
+      setBusy(key);
+      const message = await action();
+      showToast({ type: 'success', title: 'Workspace Updated', message });
+      await fetchData(workspaceId);
+    } catch (error) {
+      showToast({ type: 'error', title: 'Update Failed', message: getErrorMessage(error) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      setBusy('create');
+      const workspace = await workspaceService.createWorkspace(newWorkspaceName.trim());
+      setNewWorkspaceName('');
+      showToast({ type: 'success', title: 'Workspace Created', message: `Created ${workspace.name}` });
+      await fetchData(workspace.id);
+    } catch (error) {
+      showToast({ type: 'error', title: 'Create Failed', message: getErrorMessage(error) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleAddMember = () => selected && run('member', async () => {
+    const member = await workspaceService.addMember(selected.id, memberEmail.trim(), memberRole);
+    setMemberEmail('');
+    return `Added ${member.name || member.email} as ${member.role}`;
+  });
+
+  const handleRoleChange = (userId: string, role: WorkspaceRole) => selected && run(userId, async () => {
+    await workspaceService.updateMemberRole(selected.id, userId, role);
+    return `Role changed to ${role}`;
+  });
+
+  const handleRemoveMember = (userId: string, name: string | null) => {
+    if (!selected) return;
+    const leaving = userId === user?.id;
+    if (!confirm(leaving
+      ? `Leave ${selected.name}? Accounts you shared with it stop being shared.`
+      : `Remove ${name || 'this member'} from ${selected.name}? Accounts they shared stop being shared.`)) {
+      return;
+    }
+    run(userId, async () => {
+      await workspaceService.removeMember(selected.id, userId);
+      return leaving ? `Left ${selected.name}` : `Removed ${name || 'member'}`;
+    }, leaving ? undefined : selected.id);
+  };
+
+  const handleShare = () => selected && run('share', async () => {
+    const grant = await workspaceService.grantAccess(selected.id, shareAccountId, shareTrade ? ['VIEW', 'TRADE'] : ['VIEW']);
+    return `Shared ${accountLabel(grant)} with ${selected.name}`;
+  });
+
+  const handleUpdateGrant = (grant: AccountGrant, permissions: AccountPermission[]) => run(grant.id, async () => {
+    await workspaceService.updateGrant(grant.workspaceId, grant.id, permissions);
+    return `${accountLabel(grant)} is now ${describePermissions(permissions).toLowerCase()}`;
+  });
+
+  const handleRevoke = (grant: AccountGrant) => {
+    if (!confirm(`Stop sharing ${accountLabel(grant)}? Workspace members lose access immediately.`)) {
+      return;
+    }
+    run(grant.id, async () => {
+      await workspaceService.revokeGrant(grant.workspaceId, grant.id);
+      return `Stopped sharing ${accountLabel(grant)}`;
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="app-theme app-layout">
+        <AppNavigation />
+        <div className="app-main">
+          <div style={{ textAlign: 'center', padding: '3rem', color: 'var(--text-secondary)' }}>
+            {error ? `⚠️ ${error}` : 'Loading workspaces...'}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const isWorkspaceOwner = selected?.role === 'owner';
+  const sharedAccountIds = new Set(selected?.grants.map(grant => grant.accountId) || []);
+  const shareableAccounts = ownAccounts.filter(account => !sharedAccountIds.has(account.id));
+
+  return (
+    <div className="app-theme app-layout">
+      <AppNavigation />
+      <div className="app-main">
+        {error && (
+          <div className="card" style={{ color: 'var(--color-loss)', padding: '1rem' }}>
+            ⚠️ {error}
+          </div>
+        )}
+
+        {/* Workspaces */}
+        <div className="card">
+          <div className="card-header">
+            <h2 className="card-title">Workspaces ({workspaces.length})</h2>
+          </div>
+
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '1rem' }}>
+            {workspaces.map(workspace => (
+              <Button
+                key={workspace.id}
+                variant={workspace.id === selected?.id ? 'primary' : 'outline'}
+                size="sm"
+                onClick={() => loadWorkspace(workspace.id).catch(error => setError(getErrorMessage(error)))}
+              >
+                {workspace.name} · {workspace.role}
+              </Button>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+            <input
+              className="form-input"
+              placeholder="New workspace, e.g. Sharma Advisory"
+              value={newWorkspaceName}
+              maxLength={100}
+              onChange={(e) => setNewWorkspaceName(e.target.value)}
+              style={{ maxWidth: '320px' }}
+            />
+            <Button variant="primary" onClick={handleCreate} disabled={busy !== null || !newWorkspaceName.trim()}>
+              {busy === 'create' ? 'Creating...' : 'Create'}
+            </Button>
+          </div>
+
+          <div style={{ marginTop: '1rem', fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+            Clients share their connected accounts with a workspace; members see and trade them within their role.
+            Orders on a shared account run as its owner, so the owner's kill switch and risk limits still apply.
+          </div>
+        </div>
+
+        {selected && (
+          <>
+            {/* Members */}
+            <div className="card">
+              <div className="card-header">
+                <h2 className="card-title">{selected.name} · Members ({selected.members.length})</h2>
+              </div>
+
+              <div style={{ overflowX: 'auto' }}>
+                <table className="table table-trading">
+                  <thead>
+                    <tr>
+                      <th>Name</th>
+                      <th>Email</th>
+                      <th>Role</th>
+                      <th>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selected.members.map(member => {
+                      const isCreator = member.userId === selected.ownerId;
+                      const isMe = member.userId === user?.id;
+                      return (
+                        <tr key={member.userId}>
+                          <td>{member.name || '—'}{isMe && ' (you)'}</td>
+                          <td>{member.email || '—'}</td>
+                          <td>
+                            {isWorkspaceOwner && !isCreator ? (
+                              <select
+                                className="form-input"
+                                value={member.role}
+                                onChange={(e) => handleRoleChange(member.userId, e.target.value as WorkspaceRole)}
+                                disabled={busy !== null}
+                              >
+                                {ROLES.map(role => <option key={role.value} value={role.value}>{role.label}</option>)}
+                              </select>
+                            ) : (
+                              ROLES.find(role => role.value === member.role)?.label
+                            )}
+                          </td>
+                          <td>
+                            {!isCreator && (isWorkspaceOwner || isMe) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRemoveMember(member.userId, member.name)}
+                                disabled={busy !== null}
+                              >
+                                {isMe ? 'Leave' : 'Remove'}
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {isWorkspaceOwner && (
+                <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginTop: '1rem', flexWrap: 'wrap' }}>
+                  <input
+                    className="form-input"
+                    type="email"
+                    placeholder="Email of a registered user"
+                    value={memberEmail}
+                    onChange={(e) => setMemberEmail(e.target.value)}
+                    style={{ maxWidth: '280px' }}
+                  />
+                  <select
+                    className="form-input"
+                    value={memberRole}
+                    onChange={(e) => setMemberRole(e.target.value as WorkspaceRole)}
+                    style={{ maxWidth: '160px' }}
+                  >
+                    {ROLES.map(role => <option key={role.value} value={role.value}>{role.label}</option>)}
+                  </select>
+                  <Button variant="primary" onClick={handleAddMember} disabled={busy !== null || !memberEmail.trim()}>
+                    {busy === 'member' ? 'Adding...' : 'Add member'}
+                  </Button>
+                  <span style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                    {ROLES.find(role => role.value === memberRole)?.description}
+                  </span>
+                </div>
+              )}
+            </div>
+
+            {/* Shared accounts */}
+            <div className="card">
+              <div className="card-header">
+                <h2 className="card-title">Shared Accounts ({selected.grants.length})</h2>
+              </div>
+
+              {selected.grants.length > 0 ? (
+                <div style={{ overflowX: 'auto' }}>
+                  <table className="table table-trading">
+                    <thead>
+                      <tr>
+                        <th>Account</th>
+                        <th>Client</th>
+                        <th>Access</th>
+                        <th>Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {selected.grants.map(grant => {
+                        const isMine = grant.ownerId === user?.id;
+                        return (
+                          <tr key={grant.id}>
+                            <td>
+                              <div style={{ fontWeight: '500' }}>{accountLabel(grant)}</div>
+                              <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>{grant.accountName}</div>
+                            </td>
+                            <td>{grant.ownerName || '—'}{isMine && ' (you)'}</td>
+                            <td>
+                              {isMine ? (
+                                <select
+                                  className="form-input"
+                                  value={describePermissions(grant.permissions)}
+                                  onChange={(e) => {
+                                    const level = ACCESS_LEVELS.find(entry => entry.label === e.target.value);
+                                    if (level) handleUpdateGrant(grant, level.value);
+                                  }}
+                                  disabled={busy !== null}
+                                >
+                                  {ACCESS_LEVELS.map(level => <option key={level.label} value={level.label}>{level.label}</option>)}
+                                </select>
+                              ) : (
+                                describePermissions(grant.permissions)
+                              )}
+                            </td>
+                            <td>
+                              {(isMine || isWorkspaceOwner) && (
+                                <Button variant="danger" size="sm" onClick={() => handleRevoke(grant)} disabled={busy !== null}>
+                                  {busy === grant.id ? 'Revoking...' : 'Revoke'}
+                                </Button>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div style={{ padding: '1rem', color: 'var(--text-secondary)' }}>
+                  No accounts are shared with this workspace yet.
+                </div>
+              )}
+
+              {shareableAccounts.length > 0 && (
+                <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginTop: '1rem', flexWrap: 'wrap' }}>
+                  <span className="form-label" style={{ margin: 0 }}>Share your account</span>
+                  <select
+                    className="form-input"
+                    value={shareAccountId}
+                    onChange={(e) => setShareAccountId(e.target.value)}
+                    style={{ maxWidth: '240px' }}
+                  >
+                    {shareableAccounts.map(account => (
+                      <option key={account.id} value={account.id}>{account.brokerName} ({account.accountId})</option>
+                    ))}
+                  </select>
+                  <label style={{ display: 'flex', gap: '0.25rem', alignItems: 'center', fontSize: '0.875rem' }}>
+                    <input type="checkbox" checked={shareTrade} onChange={(e) => setShareTrade(e.target.checked)} />
+                    Allow trading
+                  </label>
+                  <Button
+                    variant="primary"
+                    onClick={handleShare}
+                    disabled={busy !== null || !shareableAccounts.some(account => account.id === shareAccountId)}
+                  >
+                    {busy === 'share' ? 'Sharing...' : 'Share'}
+                  </Button>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        {/* Everything the user shares, across workspaces */}
+        {myGrants.length > 0 && (
+          <div className="card">
+            <div className="card-header">
+              <h2 className="card-title">Accounts You Share ({myGrants.length})</h2>
+            </div>
+            <div style={{ overflowX: 'auto' }}>
+              <table className="table table-trading">
+                <thead>
+                  <tr>
+                    <th>Account</th>
+                    <th>Workspace</th>
+                    <th>Access</th>
+                    <th>Since</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {myGrants.map(grant => (
+                    <tr key={grant.id}>
+                      <td>{accountLabel(grant)}</td>
+                      <td>{grant.workspaceName || '—'}</td>
+                      <td>{describePermissions(grant.permissions)}</td>
+                      <td>{new Date(grant.grantedAt).toLocaleDateString('en-IN')}</td>
+                      <td>
+                        <Button variant="danger" size="sm" onClick={() => handleRevoke(grant)} disabled={busy !== null}>
+                          {busy === grant.id ? 'Revoking...' : 'Revoke'}
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Workspaces;
@@ -17,6 +17,11 @@ export interface ConnectedAccount {
   accountStatus: AccountStatus; // New authentication status
   tokenExpiryTime: string | null; // ISO string or null for infinity (Shoonya)
   createdAt: Date | string;
+  // Accounts shared through a workspace belong to someone else and may be view-only
+  accessType?: 'OWNER' | 'DELEGATED';
+  permissions?: Array<'VIEW' | 'TRADE' | 'MANAGE'>;
+  ownerName?: string | null;
+  workspaces?: Array<{ id: string; name: string | null; role: 'owner' | 'trader' | 'viewer' }>;
   accessToken?: string;
   // Fyers specific
   authUrl?: string;
@@ -30,6 +35,11 @@ export interface AccountResponse {
   accounts?: ConnectedAccount[];
 }
 
+export const canTradeAccount = (account: ConnectedAccount): boolean =>
+  !account.permissions || account.permissions.includes('TRADE');
+
+export const isSharedAccount = (account: ConnectedAccount): boolean => account.accessType === 'DELEGATED';
+
 export const accountService = {
   // Get all connected accounts for the current user
   async getConnectedAccounts(): Promise<ConnectedAccount[]> {
@@ -42,6 +52,12 @@ export const accountService = {
     }
   },
 
+  // Accounts the user owns, leaving out those shared with them through a workspace
+  async getOwnAccounts(): Promise<ConnectedAccount[]> {
+    const accounts = await this.getConnectedAccounts();
+    return accounts.filter(account => !isSharedAccount(account));
+  },
+
   // Save a connected account
   async saveConnectedAccount(account: Omit<ConnectedAccount, 'id' | 'createdAt'>): Promise<ConnectedAccount | null> {
     try {
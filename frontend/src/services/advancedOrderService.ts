@@ -1,8 +1,8 @@
 import { authService } from './authService';
 
 export interface OrderTemplate {
-  id?: number;
-  user_id: number;
+  id?: string;
+  user_id: string;
   name: string;
   description?: string;
   symbol: string;
@@ -25,10 +25,13 @@ export interface OrderTemplate {
 }
 
 export interface AdvancedOrder {
-  id?: number;
-  user_id: number;
-  parent_order_id?: number;
+  id?: string;
+  user_id: string;
+  account_id: string;
+  account_ids?: string[];
+  parent_order_id?: string;
   order_group_id?: string;
+  leg?: 'ENTRY' | 'STOP_LOSS' | 'TAKE_PROFIT' | 'SLICE';
   symbol: string;
   action: 'BUY' | 'SELL';
   quantity: number;
@@ -49,9 +52,13 @@ export interface AdvancedOrder {
   trail_trigger_price?: number;
   condition_type?: 'PRICE_ABOVE' | 'PRICE_BELOW' | 'TIME_BASED' | 'VOLUME_BASED';
   condition_value?: number;
+  scheduled_at?: string;
   is_bracket_order: boolean;
   bracket_stop_loss?: number;
   bracket_take_profit?: number;
+  broker_order_id?: string;
+  order_history_id?: string;
+  error_message?: string;
   remarks?: string;
   created_at?: string;
   updated_at?: string;
@@ -59,10 +66,10 @@ export interface AdvancedOrder {
 }
 
 export interface OrderModification {
-  id?: number;
-  user_id: number;
-  order_id: number;
-  broker_order_id: string;
+  id?: string;
+  user_id: string;
+  order_id: string;
+  broker_order_id?: string;
   modification_type: 'PRICE' | 'QUANTITY' | 'TRIGGER_PRICE' | 'STOP_LOSS' | 'TAKE_PROFIT' | 'CANCEL';
   old_value?: number;
   new_value?: number;
@@ -72,6 +79,7 @@ export interface OrderModification {
 }
 
 export interface BracketOrderRequest {
+  account_id: string;
   symbol: string;
   action: 'BUY' | 'SELL';
   quantity: number;
@@ -84,6 +92,7 @@ export interface BracketOrderRequest {
 }
 
 export interface IcebergOrderRequest {
+  account_id: string;
   symbol: string;
   action: 'BUY' | 'SELL';
   quantity: number;
@@ -95,6 +104,7 @@ export interface IcebergOrderRequest {
 }
 
 export interface TrailingStopOrderRequest {
+  account_id: string;
   symbol: string;
   action: 'BUY' | 'SELL';
   quantity: number;
@@ -106,6 +116,42 @@ export interface TrailingStopOrderRequest {
   validity?: 'DAY' | 'IOC' | 'GTD';
 }
 
+export type PriceConditionType = 'PRICE_ABOVE' | 'PRICE_BELOW' | 'VOLUME_BASED';
+
+export interface ConditionalOrderRequest {
+  account_ids: string[];
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  order_type: 'MARKET' | 'LIMIT';
+  price?: number;
+  condition_type: PriceConditionType;
+  condition_value: number;
+  exchange?: string;
+  product_type?: string;
+  expiry_date?: string;
+  oco?: {
+    condition_type: PriceConditionType;
+    condition_value: number;
+    action?: 'BUY' | 'SELL';
+    order_type?: 'MARKET' | 'LIMIT';
+    price?: number;
+  };
+}
+
+export interface ScheduledOrderRequest {
+  account_ids: string[];
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  order_type: 'MARKET' | 'LIMIT';
+  price?: number;
+  scheduled_at?: string;
+  scheduled_time?: string;
+  exchange?: string;
+  product_type?: string;
+}
+
 export interface BulkOrderRequest {
   orders: Array<{
     symbol: string;
@@ -164,18 +210,18 @@ class AdvancedOrderService {
     return this.makeRequest(`/templates${params}`);
   }
 
-  async getOrderTemplate(templateId: number): Promise<OrderTemplate> {
+  async getOrderTemplate(templateId: string): Promise<OrderTemplate> {
     return this.makeRequest(`/templates/${templateId}`);
   }
 
-  async updateOrderTemplate(templateId: number, updates: Partial<OrderTemplate>): Promise<OrderTemplate> {
+  async updateOrderTemplate(templateId: string, updates: Partial<OrderTemplate>): Promise<OrderTemplate> {
     return this.makeRequest(`/templates/${templateId}`, {
       method: 'PUT',
       body: JSON.stringify(updates),
     });
   }
 
-  async deleteOrderTemplate(templateId: number): Promise<{ message: string }> {
+  async deleteOrderTemplate(templateId: string): Promise<{ message: string }> {
     return this.makeRequest(`/templates/${templateId}`, {
       method: 'DELETE',
     });
@@ -205,16 +251,30 @@ class AdvancedOrderService {
     });
   }
 
+  async createConditionalOrder(orderData: ConditionalOrderRequest): Promise<{ orders: AdvancedOrder[]; orderGroupId: string; message: string }> {
+    return this.makeRequest('/conditional', {
+      method: 'POST',
+      body: JSON.stringify(orderData),
+    });
+  }
+
+  async createScheduledOrder(orderData: ScheduledOrderRequest): Promise<{ order: AdvancedOrder; message: string }> {
+    return this.makeRequest('/scheduled', {
+      method: 'POST',
+      body: JSON.stringify(orderData),
+    });
+  }
+
   async getAdvancedOrders(status?: string): Promise<{ orders: AdvancedOrder[]; count: number }> {
     const params = status ? `?status=${status}` : '';
     return this.makeRequest(`/orders${params}`);
   }
 
-  async getAdvancedOrder(orderId: number): Promise<{ order: AdvancedOrder; modifications: OrderModification[] }> {
+  async getAdvancedOrder(orderId: string): Promise<{ order: AdvancedOrder; modifications: OrderModification[] }> {
     return this.makeRequest(`/orders/${orderId}`);
   }
 
-  async cancelAdvancedOrder(orderId: number): Promise<{ message: string }> {
+  async cancelAdvancedOrder(orderId: string): Promise<{ message: string }> {
     return this.makeRequest(`/orders/${orderId}/cancel`, {
       method: 'POST',
     });
@@ -261,6 +321,21 @@ class AdvancedOrderService {
     return displayNames[status] || status;
   }
 
+  getConditionDisplay(order: AdvancedOrder): string | null {
+    switch (order.condition_type) {
+      case 'PRICE_ABOVE':
+        return `When price ≥ ${this.formatPrice(order.condition_value)}`;
+      case 'PRICE_BELOW':
+        return `When price ≤ ${this.formatPrice(order.condition_value)}`;
+      case 'VOLUME_BASED':
+        return `When volume ≥ ${order.condition_value?.toLocaleString()}`;
+      case 'TIME_BASED':
+        return order.scheduled_at ? `At ${new Date(order.scheduled_at).toLocaleString()}` : 'Scheduled';
+      default:
+        return null;
+    }
+  }
+
   formatPrice(price: number | undefined, currency: string = '₹'): string {
     if (price === undefined || price === null) return '-';
     return `${currency}${price.toFixed(2)}`;
@@ -269,6 +344,7 @@ class AdvancedOrderService {
   validateBracketOrder(orderData: BracketOrderRequest): string[] {
     const errors: string[] = [];
 
+    if (!orderData.account_id) errors.push('Account is required');
     if (!orderData.symbol) errors.push('Symbol is required');
     if (!orderData.action) errors.push('Action is required');
     if (!orderData.quantity || orderData.quantity <= 0) errors.push('Quantity must be positive');
@@ -298,6 +374,7 @@ class AdvancedOrderService {
   validateIcebergOrder(orderData: IcebergOrderRequest): string[] {
     const errors: string[] = [];
 
+    if (!orderData.account_id) errors.push('Account is required');
     if (!orderData.symbol) errors.push('Symbol is required');
     if (!orderData.action) errors.push('Action is required');
     if (!orderData.quantity || orderData.quantity <= 0) errors.push('Quantity must be positive');
@@ -311,9 +388,39 @@ class AdvancedOrderService {
     return errors;
   }
 
+  validateConditionalOrder(orderData: ConditionalOrderRequest): string[] {
+    const errors: string[] = [];
+
+    if (orderData.account_ids.length === 0) errors.push('Select at least one account');
+    if (!orderData.symbol) errors.push('Symbol is required');
+    if (!orderData.quantity || orderData.quantity <= 0) errors.push('Quantity must be positive');
+    if (!orderData.condition_value || orderData.condition_value <= 0) errors.push('Condition value must be positive');
+    if (orderData.order_type === 'LIMIT' && (!orderData.price || orderData.price <= 0)) errors.push('Limit price must be positive');
+    if (orderData.oco && (!orderData.oco.condition_value || orderData.oco.condition_value <= 0)) {
+      errors.push('OCO condition value must be positive');
+    }
+
+    return errors;
+  }
+
+  validateScheduledOrder(orderData: ScheduledOrderRequest): string[] {
+    const errors: string[] = [];
+
+    if (orderData.account_ids.length === 0) errors.push('Select at least one account');
+    if (!orderData.symbol) errors.push('Symbol is required');
+    if (!orderData.quantity || orderData.quantity <= 0) errors.push('Quantity must be positive');
+    if (orderData.order_type === 'LIMIT' && (!orderData.price || orderData.price <= 0)) errors.push('Limit price must be positive');
+    if (!orderData.scheduled_time || !/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(orderData.scheduled_time)) {
+      errors.push('Market time must be HH:MM or HH:MM:SS');
+    }
+
+    return errors;
+  }
+
   validateTrailingStopOrder(orderData: TrailingStopOrderRequest): string[] {
     const errors: string[] = [];
 
+    if (!orderData.account_id) errors.push('Account is required');
     if (!orderData.symbol) errors.push('Symbol is required');
     if (!orderData.action) errors.push('Action is required');
     if (!orderData.quantity || orderData.quantity <= 0) errors.push('Quantity must be positive');
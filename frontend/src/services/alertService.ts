@@ -0,0 +1,120 @@
+import { authService } from './authService';
+
+export type PriceAlertCondition =
+  | 'PRICE_ABOVE'
+  | 'PRICE_BELOW'
+  | 'PERCENT_CHANGE'
+  | 'VOLUME_SPIKE'
+  | 'WEEK52_HIGH'
+  | 'WEEK52_LOW'
+  | 'POSITION_PNL'
+  | 'PORTFOLIO_DRAWDOWN';
+export type PriceAlertTrigger = 'ONCE' | 'RECURRING';
+export type PriceAlertStatus = 'ACTIVE' | 'TRIGGERED' | 'DISABLED';
+export type PriceAlertChannel = 'PUSH' | 'WEBSOCKET' | 'EMAIL' | 'WEBHOOK';
+
+export interface PriceAlert {
+  id: string;
+  user_id: string;
+  name: string;
+  condition: PriceAlertCondition;
+  symbol: string | null;
+  exchange: string | null;
+  threshold: number;
+  trigger: PriceAlertTrigger;
+  cooldown_minutes: number;
+  channels: PriceAlertChannel[];
+  webhook_url: string | null;
+  status: PriceAlertStatus;
+  armed: boolean;
+  peak_value: number | null;
+  last_value: number | null;
+  last_triggered_at: string | null;
+  trigger_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreatePriceAlertRequest {
+  name: string;
+  condition: PriceAlertCondition;
+  symbol?: string;
+  exchange?: string;
+  threshold?: number;
+  trigger: PriceAlertTrigger;
+  cooldownMinutes?: number;
+  channels: PriceAlertChannel[];
+  webhookUrl?: string | null;
+}
+
+export type UpdatePriceAlertRequest = Partial<Pick<CreatePriceAlertRequest, 'name' | 'threshold' | 'trigger' | 'cooldownMinutes' | 'channels' | 'webhookUrl'>> & {
+  status?: 'ACTIVE' | 'DISABLED';
+};
+
+// Sent over the websocket when an alert fires
+export interface PriceAlertTriggeredEvent {
+  alertId: string;
+  name: string;
+  condition: PriceAlertCondition;
+  symbol: string | null;
+  exchange: string | null;
+  threshold: number;
+  value: number;
+  message: string;
+  status: PriceAlertStatus;
+  timestamp: string;
+}
+
+class AlertService {
+  private baseURL = '/api/alerts';
+
+  private async makeRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const token = authService.getToken();
+
+    const response = await fetch(`${this.baseURL}${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const validationMessage = Array.isArray(errorData.details) ? errorData.details[0]?.msg : errorData.details;
+      throw new Error(validationMessage || errorData.error || `HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Request failed');
+    }
+
+    return data.data;
+  }
+
+  async getAlerts(): Promise<PriceAlert[]> {
+    return this.makeRequest('');
+  }
+
+  async createAlert(alert: CreatePriceAlertRequest): Promise<PriceAlert> {
+    return this.makeRequest('', {
+      method: 'POST',
+      body: JSON.stringify(alert),
+    });
+  }
+
+  async updateAlert(id: string, update: UpdatePriceAlertRequest): Promise<PriceAlert> {
+    return this.makeRequest(`/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(update),
+    });
+  }
+
+  async deleteAlert(id: string): Promise<void> {
+    await this.makeRequest(`/${id}`, { method: 'DELETE' });
+  }
+}
+
+export const alertService = new AlertService();
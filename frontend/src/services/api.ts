@@ -3,12 +3,15 @@ import type { AxiosInstance, AxiosError, AxiosRequestConfig, AxiosResponse, Inte
 import { frontendLogger } from './loggingService';
 import { apiCache } from './cacheManager';
 import { performanceMonitorService } from './performanceMonitorService';
+import { clearSessionTokens, refreshAccessToken, requestStepUp } from './authSession';
 
 // Enhanced request configuration with retry metadata
 interface EnhancedAxiosRequestConfig extends InternalAxiosRequestConfig {
   _retryCount?: number;
   _requestId?: string;
   _startTime?: number;
+  _tokenRefreshed?: boolean;
+  _steppedUp?: boolean;
 }
 
 // Request deduplication cache
@@ -140,7 +143,23 @@ api.interceptors.response.use(
       pendingRequests.delete(requestKey);
     }
 
+    const errorType = (axiosError.response?.data as { errorType?: string } | undefined)?.errorType;
 
+    // Expired access token: refresh it once and replay the request
+    if (config && errorType === 'TOKEN_EXPIRED' && !config._tokenRefreshed) {
+      config._tokenRefreshed = true;
+      if (await refreshAccessToken()) {
+        return api.request(config);
+      }
+    }
+
+    // Sensitive operation: have the user confirm their identity, then replay
+    if (config && errorType === 'STEP_UP_REQUIRED' && !config._steppedUp) {
+      config._steppedUp = true;
+      if (await requestStepUp()) {
+        return api.request(config);
+      }
+    }
 
     // Enhanced error logging
     const errorDetails = {
@@ -193,15 +212,18 @@ api.interceptors.response.use(
     if (axiosError.response?.status === 401 || axiosError.response?.status === 403) {
       const url = config?.url || '';
       const isDevelopment = import.meta.env.DEV;
+      // Wrong password or code, not a failed session
+      const isCredentialCheck = ['/auth/login', '/auth/register', '/auth/step-up'].some(path => url.includes(path));
 
       if (isDevelopment) {
         console.log('🔍 Auth error in development, keeping user logged in:', url);
+      } else if (errorType === 'STEP_UP_REQUIRED' || isCredentialCheck) {
+        console.log('🔍 Identity not confirmed, keeping user logged in');
       } else {
-        // Production: Only logout for authentication-related endpoints
-        if (url.includes('/auth/') || url.includes('/profile')) {
+        // Production: Only logout for authentication-related endpoints or ended sessions
+        if (url.includes('/auth/') || url.includes('/profile') || errorType === 'SESSION_REVOKED') {
           console.log('🚨 User authentication failed, logging out');
-          localStorage.removeItem('token');
-          localStorage.removeItem('user');
+          clearSessionTokens();
           window.location.href = '/';
         } else {
           console.log('🔍 Broker operation failed, keeping user logged in');
@@ -0,0 +1,125 @@
+import api from './api';
+
+export type ApiKeyScope = 'signals:write' | 'signals:read';
+export type SignalStatus = 'PROCESSING' | 'COMPLETED' | 'PARTIAL' | 'FAILED' | 'REJECTED';
+
+export interface ApiKeyAccountGroup {
+  name: string;
+  accountIds: string[];
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  ipAllowlist: string[];
+  requireSignature: boolean;
+  accountGroups: ApiKeyAccountGroup[];
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+}
+
+// Returned once, when the key is created
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+  signingSecret: string;
+}
+
+export interface ApiKeySettings {
+  name: string;
+  scopes: ApiKeyScope[];
+  ipAllowlist: string[];
+  requireSignature: boolean;
+  accountGroups: ApiKeyAccountGroup[];
+}
+
+export interface SignalOrder {
+  accountId: string;
+  brokerName: string;
+  orderHistoryId: string | null;
+  brokerOrderId: string | null;
+  quantity: number;
+  success: boolean;
+  error: string | null;
+}
+
+export interface Signal {
+  id: string;
+  apiKeyId: string;
+  idempotencyKey: string | null;
+  status: SignalStatus;
+  error: string | null;
+  accountGroup: string | null;
+  order: Record<string, unknown> | null;
+  payload: Record<string, unknown>;
+  orders: SignalOrder[];
+  sourceIp: string | null;
+  receivedAt: string;
+  completedAt: string | null;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+}
+
+// Validation failures carry their messages in details; other errors in error
+const toApiKeyError = (error: unknown, fallback: string): Error => {
+  if (error && typeof error === 'object' && 'response' in error) {
+    const axiosError = error as { response?: { data?: { error?: string; message?: string; details?: Array<{ msg?: string }> } } };
+    const data = axiosError.response?.data;
+    if (data) {
+      return new Error((Array.isArray(data.details) && data.details[0]?.msg) || data.error || data.message || fallback);
+    }
+  }
+  return new Error('Network error. Please check your connection and try again.');
+};
+
+export const apiKeyService = {
+  async getApiKeys(): Promise<ApiKey[]> {
+    try {
+      const response = await api.get<ApiResponse<ApiKey[]>>('/api-keys');
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toApiKeyError(error, 'Failed to load API keys');
+    }
+  },
+
+  async createApiKey(settings: ApiKeySettings): Promise<CreatedApiKey> {
+    try {
+      const response = await api.post<ApiResponse<CreatedApiKey>>('/api-keys', settings);
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toApiKeyError(error, 'Failed to create API key');
+    }
+  },
+
+  async updateApiKey(keyId: string, settings: Partial<ApiKeySettings>): Promise<ApiKey> {
+    try {
+      const response = await api.put<ApiResponse<ApiKey>>(`/api-keys/${keyId}`, settings);
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toApiKeyError(error, 'Failed to update API key');
+    }
+  },
+
+  async revokeApiKey(keyId: string): Promise<void> {
+    try {
+      await api.delete(`/api-keys/${keyId}`);
+    } catch (error: unknown) {
+      throw toApiKeyError(error, 'Failed to revoke API key');
+    }
+  },
+
+  // Signals received with the user's keys, newest first
+  async getSignals(filters: { apiKeyId?: string; status?: SignalStatus; limit?: number } = {}): Promise<{ signals: Signal[]; total: number }> {
+    try {
+      const response = await api.get<ApiResponse<{ signals: Signal[]; total: number }>>('/api-keys/signals', { params: filters });
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toApiKeyError(error, 'Failed to load signals');
+    }
+  }
+};
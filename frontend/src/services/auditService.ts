@@ -0,0 +1,167 @@
+import { authService } from './authService';
+
+export type AuditCategory = 'ORDER' | 'ACCOUNT' | 'RISK' | 'SETTINGS' | 'SECURITY' | 'SYSTEM';
+
+export type AuditAction =
+  | 'ORDER_PLACED'
+  | 'ORDER_MODIFIED'
+  | 'ORDER_CANCELLED'
+  | 'ORDER_RETRIED'
+  | 'ACCOUNT_CONNECTED'
+  | 'ACCOUNT_OAUTH_COMPLETED'
+  | 'ACCOUNT_ACTIVATED'
+  | 'ACCOUNT_DEACTIVATED'
+  | 'ACCOUNT_REMOVED'
+  | 'RISK_LIMITS_UPDATED'
+  | 'RISK_LIMITS_REMOVED'
+  | 'KILL_SWITCH_ACTIVATED'
+  | 'KILL_SWITCH_DEACTIVATED'
+  | 'SIZING_RULE_UPDATED'
+  | 'SIZING_RULE_REMOVED'
+  | 'SQUARE_OFF_SETTINGS_UPDATED'
+  | 'SQUARE_OFF_SETTINGS_REMOVED'
+  | 'NOTIFICATION_PREFERENCES_UPDATED'
+  | 'TWO_FACTOR_ENABLED'
+  | 'TWO_FACTOR_DISABLED'
+  | 'RECOVERY_CODES_REGENERATED'
+  | 'SESSION_REVOKED'
+  | 'OTHER_SESSIONS_REVOKED'
+  | 'WORKSPACE_CREATED'
+  | 'WORKSPACE_MEMBER_ADDED'
+  | 'WORKSPACE_MEMBER_UPDATED'
+  | 'WORKSPACE_MEMBER_REMOVED'
+  | 'ACCOUNT_ACCESS_GRANTED'
+  | 'ACCOUNT_ACCESS_UPDATED'
+  | 'ACCOUNT_ACCESS_REVOKED'
+  | 'API_KEY_CREATED'
+  | 'API_KEY_UPDATED'
+  | 'API_KEY_REVOKED'
+  | 'SIGNAL_REJECTED'
+  | 'WEBHOOK_CREATED'
+  | 'WEBHOOK_UPDATED'
+  | 'WEBHOOK_DELETED'
+  | 'AUDIT_RETENTION_APPLIED';
+
+export interface AuditEvent {
+  id: string;
+  sequence: number;
+  user_id: string | null;
+  action: AuditAction;
+  category: AuditCategory;
+  account_id: string | null;
+  broker_name: string | null;
+  resource_id: string | null;
+  details: Record<string, unknown>;
+  success: boolean;
+  error_message: string | null;
+  request_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  previous_hash: string;
+  hash: string;
+  created_at: string;
+}
+
+export interface AuditSearchFilters {
+  userId?: string; // administrators only
+  accountId?: string;
+  category?: AuditCategory;
+  action?: AuditAction;
+  requestId?: string;
+  success?: boolean;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface AuditSearchResult {
+  events: AuditEvent[];
+  total: number;
+  limit: number;
+  offset: number;
+  isAdmin: boolean;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  firstSequence: number | null;
+  lastSequence: number | null;
+  brokenAt: number | null;
+  reason: string | null;
+  retentionDays: number;
+}
+
+export type AuditExportFormat = 'csv' | 'json';
+
+const toQuery = (params: Record<string, string | number | boolean | undefined>): string => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      query.set(key, String(value));
+    }
+  });
+  const text = query.toString();
+  return text ? `?${text}` : '';
+};
+
+class AuditService {
+  private baseURL = '/api/audit';
+
+  private async makeRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const token = authService.getToken();
+
+    const response = await fetch(`${this.baseURL}${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const validationMessage = Array.isArray(errorData.details) ? errorData.details[0]?.msg : errorData.details;
+      throw new Error(validationMessage || errorData.error || errorData.message || `HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Request failed');
+    }
+
+    return data.data;
+  }
+
+  async search(filters: AuditSearchFilters, limit: number, offset: number): Promise<AuditSearchResult> {
+    return this.makeRequest(toQuery({ ...filters, limit, offset }));
+  }
+
+  async verify(): Promise<AuditChainVerification> {
+    return this.makeRequest('/verify');
+  }
+
+  /**
+   * Download the matching events as a file
+   */
+  async exportEvents(filters: AuditSearchFilters, format: AuditExportFormat): Promise<void> {
+    const response = await fetch(`${this.baseURL}/export${toQuery({ ...filters, format })}`, {
+      headers: { 'Authorization': `Bearer ${authService.getToken()}` },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+
+    const blob = await response.blob();
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
+
+export const auditService = new AuditService();
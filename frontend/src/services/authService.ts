@@ -1,10 +1,32 @@
 import api from './api';
-import type { LoginCredentials, RegisterCredentials, AuthResponse } from '../types/auth';
+import { clearSessionTokens } from './authSession';
+import type {
+  LoginCredentials,
+  RegisterCredentials,
+  AuthResponse,
+  LoginResponse,
+  TwoFactorCredentials,
+  AuthSessionInfo,
+  TwoFactorStatus,
+  TwoFactorSetup,
+  StepUpCredentials,
+} from '../types/auth';
+
+// Message from an API error response, or a generic network error
+const toAuthError = (error: unknown, fallback: string): Error => {
+  if (error && typeof error === 'object' && 'response' in error) {
+    const axiosError = error as { response?: { data?: { message?: string } } };
+    if (axiosError.response?.data) {
+      return new Error(axiosError.response.data.message || fallback);
+    }
+  }
+  return new Error('Network error. Please check your connection and try again.');
+};
 
 export const authService = {
-  async login(credentials: LoginCredentials): Promise<AuthResponse> {
+  async login(credentials: LoginCredentials): Promise<LoginResponse> {
     try {
-      const response = await api.post<AuthResponse>('/auth/login', credentials);
+      const response = await api.post<LoginResponse>('/auth/login', credentials);
       return response.data;
     } catch (error: unknown) {
       console.error('🚨 Login error:', error);
@@ -44,6 +66,19 @@ export const authService = {
     }
   },
 
+  /**
+   * Second login step: the challenge from login plus an authenticator or recovery code
+   */
+  async verifyTwoFactor(challengeToken: string, credentials: TwoFactorCredentials): Promise<AuthResponse> {
+    try {
+      const response = await api.post<AuthResponse>('/auth/login/2fa', { challengeToken, ...credentials });
+      return response.data;
+    } catch (error: unknown) {
+      console.error('🚨 Two-factor login error:', error);
+      throw toAuthError(error, 'Two-factor verification failed');
+    }
+  },
+
   async logout(): Promise<void> {
     try {
       await api.post('/auth/logout');
@@ -51,8 +86,7 @@ export const authService = {
       console.error('🚨 Logout error:', error);
       // Continue with logout even if API call fails
     } finally {
-      localStorage.removeItem('token');
-      localStorage.removeItem('user');
+      clearSessionTokens();
     }
   },
 
@@ -80,4 +114,91 @@ export const authService = {
   getToken(): string | null {
     return localStorage.getItem('token');
   },
+
+  async getSessions(): Promise<AuthSessionInfo[]> {
+    try {
+      const response = await api.get<{ data: { sessions: AuthSessionInfo[] } }>('/auth/sessions');
+      return response.data.data.sessions;
+    } catch (error: unknown) {
+      throw toAuthError(error, 'Failed to load sessions');
+    }
+  },
+
+  async revokeSession(sessionId: string): Promise<void> {
+    try {
+      await api.delete(`/auth/sessions/${sessionId}`);
+    } catch (error: unknown) {
+      throw toAuthError(error, 'Failed to log out session');
+    }
+  },
+
+  /**
+   * Log out every session except this one; returns how many were ended
+   */
+  async revokeOtherSessions(): Promise<number> {
+    try {
+      const response = await api.post<{ data: { revoked: number } }>('/auth/sessions/revoke-others');
+      return response.data.data.revoked;
+    } catch (error: unknown) {
+      throw toAuthError(error, 'Failed to log out other sessions');
+    }
+  },
+
+  /**
+   * Confirm identity before a sensitive operation
+   */
+  async stepUp(credentials: StepUpCredentials): Promise<void> {
+    try {
+      await api.post('/auth/step-up', credentials);
+    } catch (error: unknown) {
+      throw toAuthError(error, 'Could not confirm your identity');
+    }
+  },
+
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    try {
+      const response = await api.get<{ data: TwoFactorStatus }>('/auth/2fa');
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toAuthError(error, 'Failed to load two-factor status');
+    }
+  },
+
+  async setupTwoFactor(): Promise<TwoFactorSetup> {
+    try {
+      const response = await api.post<{ data: TwoFactorSetup }>('/auth/2fa/setup');
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toAuthError(error, 'Failed to start two-factor setup');
+    }
+  },
+
+  /**
+   * Confirm the first authenticator code; returns the recovery codes
+   */
+  async enableTwoFactor(code: string): Promise<string[]> {
+    try {
+      const response = await api.post<{ data: { recoveryCodes: string[] } }>('/auth/2fa/enable', { code });
+      return response.data.data.recoveryCodes;
+    } catch (error: unknown) {
+      throw toAuthError(error, 'Failed to enable two-factor authentication');
+    }
+  },
+
+  async disableTwoFactor(): Promise<void> {
+    try {
+      await api.post('/auth/2fa/disable');
+    } catch (error: unknown) {
+      throw toAuthError(error, 'Failed to disable two-factor authentication');
+    }
+  },
+
+  async regenerateRecoveryCodes(): Promise<string[]> {
+    try {
+      const response = await api.post<{ data: { recoveryCodes: string[] } }>('/auth/2fa/recovery-codes');
+      return response.data.data.recoveryCodes;
+    } catch (error: unknown) {
+      throw toAuthError(error, 'Failed to generate recovery codes');
+    }
+  },
 };
@@ -0,0 +1,158 @@
+import axios from 'axios';
+
+// Access tokens are short-lived; the refresh token (rotated by the server on
+// every use) gets a new one shortly before it expires, or after a request
+// comes back with TOKEN_EXPIRED. Tabs share the stored tokens, so only one tab
+// refreshes at a time and the others pick up what it stored.
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+const REFRESH_AHEAD_MS = 60 * 1000;
+const REFRESH_LOCK = 'copytrade-token-refresh';
+
+export interface SessionTokens {
+  token: string;
+  refreshToken?: string;
+  expiresIn?: number; // seconds
+}
+
+type StepUpHandler = () => Promise<boolean>;
+
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshInFlight: Promise<string | null> | null = null;
+let stepUpHandler: StepUpHandler | null = null;
+let stepUpInFlight: Promise<boolean> | null = null;
+let followingOtherTabs = false;
+
+const scheduleRefresh = (expiresAt: number): void => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+  }
+  const delay = Math.max(expiresAt - Date.now() - REFRESH_AHEAD_MS, 0);
+  refreshTimer = setTimeout(() => {
+    refreshAccessToken().catch(() => undefined);
+  }, delay);
+};
+
+export const storeSessionTokens = (tokens: SessionTokens): void => {
+  localStorage.setItem('token', tokens.token);
+  if (tokens.refreshToken) {
+    localStorage.setItem('refreshToken', tokens.refreshToken);
+  }
+  if (tokens.expiresIn) {
+    const expiresAt = Date.now() + tokens.expiresIn * 1000;
+    localStorage.setItem('tokenExpiresAt', String(expiresAt));
+    scheduleRefresh(expiresAt);
+  }
+};
+
+export const clearSessionTokens = (): void => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('tokenExpiresAt');
+  localStorage.removeItem('user');
+};
+
+// Another tab refreshed (or logged out): follow its schedule instead of refreshing too
+const onStorageChange = (event: StorageEvent): void => {
+  if (event.key === 'tokenExpiresAt' && event.newValue) {
+    scheduleRefresh(Number(event.newValue));
+  } else if (event.key === 'refreshToken' && !event.newValue && refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+};
+
+/**
+ * Pick up the refresh schedule of a session stored by an earlier page load
+ */
+export const resumeSessionRefresh = (): void => {
+  if (!followingOtherTabs) {
+    window.addEventListener('storage', onStorageChange);
+    followingOtherTabs = true;
+  }
+
+  const expiresAt = Number(localStorage.getItem('tokenExpiresAt'));
+  if (localStorage.getItem('refreshToken') && expiresAt) {
+    scheduleRefresh(expiresAt);
+  }
+};
+
+// Runs the task while no other tab is refreshing (where the browser supports Web Locks)
+const withRefreshLock = <T>(task: () => Promise<T>): Promise<T> => (
+  navigator.locks ? navigator.locks.request(REFRESH_LOCK, task) : task()
+);
+
+const requestRefresh = (refreshToken: string): Promise<string | null> => (
+  axios
+    .post(`${API_BASE_URL}/auth/refresh`, { refreshToken })
+    .then(response => {
+      const data = response.data?.data;
+      if (!data?.token) {
+        return null;
+      }
+      storeSessionTokens(data);
+      if (data.user) {
+        localStorage.setItem('user', JSON.stringify(data.user));
+      }
+      return data.token as string;
+    })
+    .catch(error => {
+      // Only a rejected refresh ends the session; network errors may pass
+      if (error?.response?.status === 401) {
+        clearSessionTokens();
+      }
+      return null;
+    })
+);
+
+/**
+ * New access token from the refresh token, or null when the session has ended.
+ * Concurrent callers share one request, and a tab that waited for another tab's
+ * refresh uses the tokens it stored, so the refresh token is only used once.
+ */
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (refreshInFlight) {
+    return refreshInFlight;
+  }
+
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken) {
+    return Promise.resolve(null);
+  }
+
+  refreshInFlight = withRefreshLock(() => {
+    const storedRefreshToken = localStorage.getItem('refreshToken');
+    if (storedRefreshToken !== refreshToken) {
+      return Promise.resolve(storedRefreshToken ? localStorage.getItem('token') : null);
+    }
+    return requestRefresh(refreshToken);
+  }).finally(() => {
+    refreshInFlight = null;
+  });
+
+  return refreshInFlight;
+};
+
+/**
+ * Registered by the step-up dialog; resolves true once the user has confirmed
+ * their identity and false if they cancel
+ */
+export const setStepUpHandler = (handler: StepUpHandler | null): void => {
+  stepUpHandler = handler;
+};
+
+export const requestStepUp = (): Promise<boolean> => {
+  if (!stepUpHandler) {
+    return Promise.resolve(false);
+  }
+  if (!stepUpInFlight) {
+    stepUpInFlight = stepUpHandler().finally(() => {
+      stepUpInFlight = null;
+    });
+  }
+  return stepUpInFlight;
+};
@@ -48,6 +48,11 @@ export interface FyersCredentials {
   totpKey?: string;
 }
 
+export interface PaperCredentials {
+  accountName?: string;
+  initialCapital?: number;
+}
+
 export interface BrokerConnectionResponse {
   success: boolean;
   message: string;
@@ -73,6 +78,9 @@ export interface BrokerConnectionResponse {
   }>;
 }
 
+// AMO (after-market) orders are queued by the broker for the next session
+export type OrderVariety = 'REGULAR' | 'AMO';
+
 export interface PlaceOrderRequest {
   brokerName: string;
   accountId: string; // ID of the specific broker account to use
@@ -84,6 +92,7 @@ export interface PlaceOrderRequest {
   triggerPrice?: number;
   exchange?: string;
   productType?: string;
+  variety?: OrderVariety;
   remarks?: string;
 }
 
@@ -97,9 +106,259 @@ export interface PlaceMultiAccountOrderRequest {
   triggerPrice?: number;
   exchange?: string;
   productType?: string;
+  variety?: OrderVariety;
   remarks?: string;
 }
 
+export type SizingMethod = 'FIXED_QUANTITY' | 'MULTIPLIER' | 'PERCENT_OF_CAPITAL' | 'FIXED_NOTIONAL';
+
+export interface AccountSizingRule {
+  id: string;
+  user_id: string;
+  account_id: string;
+  method: SizingMethod;
+  value: number;
+  capital?: number;
+  min_quantity?: number;
+  max_quantity?: number;
+  round_to_lot: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SaveSizingRuleRequest {
+  method: SizingMethod;
+  value: number;
+  capital?: number | null;
+  minQuantity?: number | null;
+  maxQuantity?: number | null;
+  roundToLot: boolean;
+}
+
+export interface OrderPreviewRequest {
+  selectedAccounts: string[];
+  symbol: string;
+  quantity: number;
+  price?: number;
+  triggerPrice?: number;
+  exchange?: string;
+}
+
+export interface OrderPreviewAccount {
+  accountId: string;
+  brokerName: string;
+  accountDisplayName: string;
+  quantity: number;
+  method: SizingMethod | 'SOURCE';
+  note?: string;
+}
+
+export interface OrderPreview {
+  symbol: string;
+  exchange: string;
+  sourceQuantity: number;
+  lotSize: number;
+  accounts: OrderPreviewAccount[];
+}
+
+export type RiskRule =
+  | 'RESTRICTED_SYMBOL'
+  | 'EXCHANGE_NOT_ALLOWED'
+  | 'PRODUCT_NOT_ALLOWED'
+  | 'MAX_ORDER_VALUE'
+  | 'MAX_QUANTITY_PER_SYMBOL'
+  | 'MAX_OPEN_POSITIONS'
+  | 'DAILY_LOSS_LIMIT'
+  | 'MAX_ORDERS_PER_MINUTE';
+
+export interface RiskViolation {
+  rule: RiskRule;
+  scope: 'USER' | 'ACCOUNT';
+  message: string;
+}
+
+export interface RiskLimits {
+  id: string;
+  user_id: string;
+  account_id: string | null; // null for the limits that apply to every account
+  is_enabled: boolean;
+  max_order_value?: number;
+  max_quantity_per_symbol?: number;
+  max_open_positions?: number;
+  daily_loss_limit?: number;
+  max_orders_per_minute?: number;
+  allowed_exchanges: string[];
+  allowed_products: string[];
+  restricted_symbols: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SaveRiskLimitsRequest {
+  isEnabled: boolean;
+  maxOrderValue?: number | null;
+  maxQuantityPerSymbol?: number | null;
+  maxOpenPositions?: number | null;
+  dailyLossLimit?: number | null;
+  maxOrdersPerMinute?: number | null;
+  allowedExchanges: string[];
+  allowedProducts: string[];
+  restrictedSymbols: string[];
+}
+
+// Result of one connected account; data is null when its broker call failed
+export interface AccountDataResult<T> {
+  accountId: string;
+  brokerName: string;
+  brokerAccountId: string;
+  data: T | null;
+  error?: string;
+}
+
+export interface BrokerHolding {
+  symbol: string;
+  exchange: string;
+  isin?: string;
+  quantity: number;
+  t1Quantity: number;
+  averagePrice: number;
+  lastPrice: number;
+  pnl: number;
+}
+
+export interface AggregatedHolding extends BrokerHolding {
+  invested: number;
+  currentValue: number;
+  pnlPercent: number;
+  accounts: Array<{
+    accountId: string;
+    brokerName: string;
+    brokerAccountId: string;
+    quantity: number;
+    averagePrice: number;
+  }>;
+}
+
+export interface HoldingsOverview {
+  holdings: AggregatedHolding[];
+  summary: {
+    invested: number;
+    currentValue: number;
+    pnl: number;
+    pnlPercent: number;
+  };
+  accounts: AccountDataResult<BrokerHolding[]>[];
+}
+
+export interface BrokerFunds {
+  availableCash: number;
+  usedMargin: number;
+  totalBalance: number;
+  collateral: number;
+  realizedPnl: number;
+}
+
+export interface FundsOverview {
+  totals: BrokerFunds;
+  accounts: AccountDataResult<BrokerFunds>[];
+}
+
+export interface BrokerTrade {
+  tradeId: string;
+  orderId: string;
+  symbol: string;
+  exchange: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  productType: string;
+  tradeTime: string | null;
+}
+
+export interface TradeBookOverview {
+  trades: Array<BrokerTrade & { accountId: string; brokerName: string; brokerAccountId: string }>;
+  accounts: AccountDataResult<BrokerTrade[]>[];
+}
+
+export type StrategyType = 'SPREAD' | 'STRADDLE' | 'STRANGLE' | 'IRON_CONDOR' | 'CUSTOM';
+export type StrategyOrderStatus = 'PENDING' | 'PLACED' | 'PARTIALLY_PLACED' | 'ROLLED_BACK' | 'FAILED';
+
+export interface StrategyLegRequest {
+  symbol: string;
+  exchange: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  optionType?: 'CE' | 'PE';
+  strike?: number;
+  expiry?: string;
+  orderType: 'MARKET' | 'LIMIT';
+  price?: number;
+  premium: number;
+  productType: string;
+}
+
+export interface StrategyOrderRequest {
+  selectedAccounts: string[];
+  name?: string;
+  strategyType: StrategyType;
+  underlying?: string;
+  onLegFailure: 'ROLLBACK' | 'ALERT';
+  legs: StrategyLegRequest[];
+}
+
+export interface StrategyPreview {
+  netPremium: number;
+  maxProfit: number | null; // null when unlimited
+  maxLoss: number | null;
+  breakevens: number[];
+  executionOrder: number[];
+  legErrors: Array<{ legIndex: number; error: string }>;
+}
+
+// Stored strategy order, in the backend's field names
+export interface StrategyOrder {
+  id: string;
+  name: string;
+  strategy_type: StrategyType;
+  underlying?: string;
+  legs: Array<{
+    symbol: string;
+    exchange: string;
+    action: 'BUY' | 'SELL';
+    quantity: number;
+    option_type?: 'CE' | 'PE';
+    strike?: number;
+    expiry?: string;
+    order_type: 'MARKET' | 'LIMIT';
+    price?: number;
+    premium: number;
+    product_type: string;
+  }>;
+  net_premium: number;
+  max_profit: number | null;
+  max_loss: number | null;
+  breakevens: number[];
+  on_leg_failure: 'ROLLBACK' | 'ALERT';
+  status: StrategyOrderStatus;
+  account_results: Array<{
+    account_id: string;
+    status: 'PLACED' | 'ROLLED_BACK' | 'PARTIALLY_PLACED' | 'FAILED';
+    placed_legs: Array<{ leg_index: number; broker_order_id: string }>;
+    failed_leg?: number;
+    error?: string;
+    rollback_errors?: string[];
+  }>;
+  created_at: string;
+  updated_at: string;
+}
+
+const getResponseData = <T>(error: unknown): T | undefined => {
+  if (error && typeof error === 'object' && 'response' in error) {
+    return (error as { response?: { data?: T } }).response?.data;
+  }
+  return undefined;
+};
+
 export interface OrderResponse {
   success: boolean;
   message: string;
@@ -127,7 +386,7 @@ export const brokerService = {
     return response.data;
   },
 
-  async connectBroker(brokerName: string, credentials: ShoonyaCredentials | FyersCredentials): Promise<BrokerConnectionResponse> {
+  async connectBroker(brokerName: string, credentials: ShoonyaCredentials | FyersCredentials | PaperCredentials): Promise<BrokerConnectionResponse> {
     try {
       const response = await api.post<BrokerConnectionResponse>('/broker/connect', {
         brokerName,
@@ -206,6 +465,7 @@ export const brokerService = {
         accountId: string;
         brokerName: string;
         accountDisplayName: string;
+        quantity?: number;
         orderId: string;
         message: string;
       }>;
@@ -213,8 +473,11 @@ export const brokerService = {
         accountId: string;
         brokerName: string;
         accountDisplayName: string;
+        quantity?: number;
         error: string;
         errorType: string;
+        suggestedVariety?: OrderVariety; // the market is closed but the order can be queued as an AMO
+        riskViolations?: RiskViolation[];
       }>;
       timestamp: string;
     };
@@ -236,6 +499,151 @@ export const brokerService = {
     }
   },
 
+  async previewMultiAccountOrder(previewData: OrderPreviewRequest): Promise<{ success: boolean; message?: string; data?: OrderPreview }> {
+    try {
+      const response = await api.post('/broker/preview-multi-account-order', previewData);
+      return response.data as { success: boolean; data?: OrderPreview };
+    } catch (error: unknown) {
+      console.error('🚨 Order preview error:', error);
+
+      return getResponseData<{ success: boolean; message?: string }>(error) || {
+        success: false,
+        message: 'Network error. Please check your connection and try again.',
+      };
+    }
+  },
+
+  async previewStrategyOrder(legs: StrategyLegRequest[]): Promise<{ success: boolean; message?: string; data?: StrategyPreview }> {
+    try {
+      const response = await api.post('/broker/strategy-orders/preview', { legs });
+      return response.data as { success: boolean; data?: StrategyPreview };
+    } catch (error: unknown) {
+      console.error('🚨 Strategy preview error:', error);
+
+      return getResponseData<{ success: boolean; message?: string }>(error) || {
+        success: false,
+        message: 'Network error. Please check your connection and try again.',
+      };
+    }
+  },
+
+  async placeStrategyOrder(strategyData: StrategyOrderRequest): Promise<{
+    success: boolean;
+    message?: string;
+    data?: { strategyOrder: StrategyOrder; timestamp: string };
+  }> {
+    try {
+      const response = await api.post('/broker/strategy-orders', strategyData);
+      return response.data as { success: boolean; message?: string; data?: { strategyOrder: StrategyOrder; timestamp: string } };
+    } catch (error: unknown) {
+      console.error('🚨 Place strategy order error:', error);
+
+      return getResponseData<{ success: boolean; message?: string; data?: { strategyOrder: StrategyOrder; timestamp: string } }>(error) || {
+        success: false,
+        message: 'Network error. Please check your connection and try again.',
+      };
+    }
+  },
+
+  async getStrategyOrders(limit?: number): Promise<{ success: boolean; message?: string; data?: StrategyOrder[] }> {
+    try {
+      const response = await api.get('/broker/strategy-orders', { params: limit ? { limit } : {} });
+      return response.data as { success: boolean; data?: StrategyOrder[] };
+    } catch (error: unknown) {
+      console.error('🚨 Get strategy orders error:', error);
+
+      return getResponseData<{ success: boolean; message?: string }>(error) || {
+        success: false,
+        message: 'Network error. Please check your connection and try again.',
+      };
+    }
+  },
+
+  async getSizingRules(): Promise<{ success: boolean; message?: string; data?: AccountSizingRule[] }> {
+    try {
+      const response = await api.get('/broker/sizing-rules');
+      return response.data as { success: boolean; data?: AccountSizingRule[] };
+    } catch (error: unknown) {
+      console.error('🚨 Get sizing rules error:', error);
+
+      return getResponseData<{ success: boolean; message?: string }>(error) || {
+        success: false,
+        message: 'Network error. Please check your connection and try again.',
+      };
+    }
+  },
+
+  async saveSizingRule(accountId: string, rule: SaveSizingRuleRequest): Promise<{ success: boolean; message: string; data?: AccountSizingRule }> {
+    try {
+      const response = await api.put(`/broker/sizing-rules/${accountId}`, rule);
+      return response.data as { success: boolean; message: string; data?: AccountSizingRule };
+    } catch (error: unknown) {
+      console.error('🚨 Save sizing rule error:', error);
+
+      return getResponseData<{ success: boolean; message: string }>(error) || {
+        success: false,
+        message: 'Network error. Please check your connection and try again.',
+      };
+    }
+  },
+
+  async deleteSizingRule(accountId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await api.delete(`/broker/sizing-rules/${accountId}`);
+      return response.data as { success: boolean; message: string };
+    } catch (error: unknown) {
+      console.error('🚨 Delete sizing rule error:', error);
+
+      return getResponseData<{ success: boolean; message: string }>(error) || {
+        success: false,
+        message: 'Network error. Please check your connection and try again.',
+      };
+    }
+  },
+
+  async getRiskLimits(): Promise<{ success: boolean; message?: string; data?: RiskLimits[] }> {
+    try {
+      const response = await api.get('/broker/risk-limits');
+      return response.data as { success: boolean; data?: RiskLimits[] };
+    } catch (error: unknown) {
+      console.error('🚨 Get risk limits error:', error);
+
+      return getResponseData<{ success: boolean; message?: string }>(error) || {
+        success: false,
+        message: 'Network error. Please check your connection and try again.',
+      };
+    }
+  },
+
+  // accountId null saves the limits that apply to every account
+  async saveRiskLimits(accountId: string | null, limits: SaveRiskLimitsRequest): Promise<{ success: boolean; message: string; data?: RiskLimits }> {
+    try {
+      const response = await api.put(accountId ? `/broker/risk-limits/${accountId}` : '/broker/risk-limits', limits);
+      return response.data as { success: boolean; message: string; data?: RiskLimits };
+    } catch (error: unknown) {
+      console.error('🚨 Save risk limits error:', error);
+
+      return getResponseData<{ success: boolean; message: string }>(error) || {
+        success: false,
+        message: 'Network error. Please check your connection and try again.',
+      };
+    }
+  },
+
+  async deleteRiskLimits(accountId: string | null): Promise<{ success: boolean; message: string }> {
+    try {
+      const response = await api.delete(accountId ? `/broker/risk-limits/${accountId}` : '/broker/risk-limits');
+      return response.data as { success: boolean; message: string };
+    } catch (error: unknown) {
+      console.error('🚨 Delete risk limits error:', error);
+
+      return getResponseData<{ success: boolean; message: string }>(error) || {
+        success: false,
+        message: 'Network error. Please check your connection and try again.',
+      };
+    }
+  },
+
   async getOrderBook(brokerName: string): Promise<{ success: boolean; data?: Order[]; message?: string }> {
     try {
       const response = await api.get(`/broker/orders/${brokerName}`);
@@ -298,6 +706,51 @@ export const brokerService = {
     }
   },
 
+  // Aggregated across all connected accounts unless accountId is given
+  async getHoldings(accountId?: string): Promise<{ success: boolean; message?: string; data?: HoldingsOverview }> {
+    try {
+      const response = await api.get('/broker/holdings', { params: accountId ? { accountId } : {} });
+      return response.data as { success: boolean; data?: HoldingsOverview };
+    } catch (error: unknown) {
+      console.error('🚨 Get holdings error:', error);
+
+      return getResponseData<{ success: boolean; message?: string }>(error) || {
+        success: false,
+        message: 'Network error. Please check your connection and try again.',
+      };
+    }
+  },
+
+  // Aggregated across all connected accounts unless accountId is given
+  async getFunds(accountId?: string): Promise<{ success: boolean; message?: string; data?: FundsOverview }> {
+    try {
+      const response = await api.get('/broker/funds', { params: accountId ? { accountId } : {} });
+      return response.data as { success: boolean; data?: FundsOverview };
+    } catch (error: unknown) {
+      console.error('🚨 Get funds error:', error);
+
+      return getResponseData<{ success: boolean; message?: string }>(error) || {
+        success: false,
+        message: 'Network error. Please check your connection and try again.',
+      };
+    }
+  },
+
+  // Aggregated across all connected accounts unless accountId is given
+  async getTradeBook(accountId?: string): Promise<{ success: boolean; message?: string; data?: TradeBookOverview }> {
+    try {
+      const response = await api.get('/broker/tradebook', { params: accountId ? { accountId } : {} });
+      return response.data as { success: boolean; data?: TradeBookOverview };
+    } catch (error: unknown) {
+      console.error('🚨 Get trade book error:', error);
+
+      return getResponseData<{ success: boolean; message?: string }>(error) || {
+        success: false,
+        message: 'Network error. Please check your connection and try again.',
+      };
+    }
+  },
+
 
 
   async getQuotes(brokerName: string, exchange: string, token: string): Promise<{ success: boolean; data?: Quote; message?: string }> {
@@ -347,6 +800,9 @@ export const brokerService = {
         exchange: string;
         executed_at: string;
         created_at: string;
+        source?: 'MANUAL' | 'COPY_TRADE';
+        parent_broker_order_id?: string;
+        master_account_id?: string;
       }>;
       totalCount: number;
       limit: number;
@@ -0,0 +1,104 @@
+import { authService } from './authService';
+
+export interface CopyTradeLink {
+  id: string;
+  user_id: string;
+  master_account_id: string;
+  follower_account_id: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CopiedOrder {
+  id: string;
+  user_id: string;
+  link_id: string;
+  master_account_id: string;
+  master_broker_order_id: string;
+  follower_account_id: string;
+  follower_order_id?: string;
+  follower_broker_order_id?: string;
+  status: 'COPIED' | 'FAILED' | 'CANCELLED';
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  trigger_price?: number;
+  order_type: 'MARKET' | 'LIMIT' | 'SL-LIMIT' | 'SL-MARKET';
+  error_message?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+class CopyTradingService {
+  private baseURL = '/api/copy-trading';
+
+  private async makeRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const token = authService.getToken();
+
+    const response = await fetch(`${this.baseURL}${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.details || errorData.error || `HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Request failed');
+    }
+
+    return data.data;
+  }
+
+  /**
+   * Get master -> follower links
+   */
+  async getLinks(): Promise<{ links: CopyTradeLink[]; engineRunning: boolean }> {
+    return this.makeRequest('/links');
+  }
+
+  /**
+   * Make a follower account mirror a master account
+   */
+  async createLink(masterAccountId: string, followerAccountId: string): Promise<CopyTradeLink> {
+    return this.makeRequest('/links', {
+      method: 'POST',
+      body: JSON.stringify({ masterAccountId, followerAccountId }),
+    });
+  }
+
+  /**
+   * Pause or resume a link
+   */
+  async setLinkActive(linkId: string, isActive: boolean): Promise<CopyTradeLink> {
+    return this.makeRequest(`/links/${linkId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ isActive }),
+    });
+  }
+
+  /**
+   * Remove a link
+   */
+  async deleteLink(linkId: string): Promise<void> {
+    await this.makeRequest(`/links/${linkId}`, { method: 'DELETE' });
+  }
+
+  /**
+   * Get recently copied orders
+   */
+  async getCopiedOrders(limit: number = 50, offset: number = 0): Promise<CopiedOrder[]> {
+    return this.makeRequest(`/orders?limit=${limit}&offset=${offset}`);
+  }
+}
+
+export const copyTradingService = new CopyTradingService();
@@ -1,4 +1,5 @@
 // import { authService } from './authService';
+import { brokerService } from './brokerService';
 
 export interface FundTransaction {
   id: string;
@@ -59,17 +60,24 @@ class FundsService {
   */
 
   /**
-   * Get funds balance and margin information
+   * Get funds balance and margin information, summed across the broker
+   * accounts of the user
    */
   async getFundsBalance(): Promise<FundsBalance> {
-    // For now, return mock data since we don't have a funds API yet
+    const response = await brokerService.getFunds();
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Failed to fetch funds');
+    }
+
+    const { totals } = response.data;
     return {
-      availableFunds: 125000,
-      usedMargin: 75000,
-      totalBalance: 200000,
-      withdrawableBalance: 125000,
-      marginUtilized: 75000,
-      marginAvailable: 125000
+      availableFunds: totals.availableCash,
+      usedMargin: totals.usedMargin,
+      totalBalance: totals.totalBalance,
+      // Pledged collateral counts towards margin but can't be withdrawn
+      withdrawableBalance: Math.max(0, Math.min(totals.availableCash, totals.totalBalance - totals.usedMargin)),
+      marginUtilized: totals.usedMargin,
+      marginAvailable: totals.availableCash
     };
   }
 
@@ -168,9 +176,9 @@ class FundsService {
     available: number;
     shortfall: number;
   }> {
-    // For now, simulate margin calculation
+    // Margin rates aren't fetched from the broker yet
     const required = quantity * price * 0.2; // 20% margin requirement
-    const available = 125000; // Available margin
+    const { marginAvailable: available } = await this.getFundsBalance();
     const shortfall = Math.max(0, required - available);
     
     return {
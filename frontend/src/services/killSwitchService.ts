@@ -0,0 +1,103 @@
+import { authService } from './authService';
+
+export interface KillSwitch {
+  id: string;
+  user_id: string;
+  account_id: string | null;
+  is_active: boolean;
+  reason?: string;
+  activated_at?: string;
+  deactivated_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface KillSwitchFailure {
+  account_id: string;
+  operation: 'ACTIVATE_ACCOUNT' | 'CANCEL_ORDER' | 'SQUARE_OFF' | 'FETCH_ORDERS' | 'FETCH_POSITIONS';
+  reference?: string;
+  message: string;
+}
+
+export interface KillSwitchEvent {
+  id: string;
+  user_id: string;
+  account_id: string | null;
+  action: 'ACTIVATED' | 'DEACTIVATED';
+  reason?: string;
+  square_off: boolean;
+  cancelled_orders: number;
+  squared_off_positions: number;
+  failures: KillSwitchFailure[];
+  created_at: string;
+}
+
+export interface KillSwitchStatus {
+  tradingHalted: boolean;
+  switches: KillSwitch[];
+  recentEvents: KillSwitchEvent[];
+}
+
+export interface KillSwitchResult {
+  killSwitch: KillSwitch;
+  event: KillSwitchEvent;
+}
+
+class KillSwitchService {
+  private baseURL = '/api/kill-switch';
+
+  private async makeRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const token = authService.getToken();
+
+    const response = await fetch(`${this.baseURL}${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.details || errorData.error || `HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Request failed');
+    }
+
+    return data.data;
+  }
+
+  /**
+   * Get active switches and recent activations
+   */
+  async getStatus(): Promise<KillSwitchStatus> {
+    return this.makeRequest('');
+  }
+
+  /**
+   * Halt trading on one account (or all accounts when accountId is null),
+   * cancel open orders and optionally square off open positions
+   */
+  async activate(accountId: string | null, squareOff: boolean, reason?: string): Promise<KillSwitchResult> {
+    return this.makeRequest('/activate', {
+      method: 'POST',
+      body: JSON.stringify({ accountId, squareOff, reason }),
+    });
+  }
+
+  /**
+   * Allow trading again
+   */
+  async deactivate(accountId: string | null, reason?: string): Promise<KillSwitchResult> {
+    return this.makeRequest('/deactivate', {
+      method: 'POST',
+      body: JSON.stringify({ accountId, reason }),
+    });
+  }
+}
+
+export const killSwitchService = new KillSwitchService();
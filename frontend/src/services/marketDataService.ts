@@ -32,6 +32,62 @@ export interface SymbolSearchResult {
   brokerData?: Record<string, unknown>;
 }
 
+export interface DerivativeInstrument {
+  token: string;
+  tradingSymbol: string;
+  name: string;
+  exchange: 'NFO' | 'BFO' | 'MCX';
+  underlying: string;
+  instrumentType: 'FUT' | 'OPT';
+  expiry: string; // YYYY-MM-DD
+  strike: number | null;
+  optionType: 'CE' | 'PE' | null;
+  lotSize: number;
+  tickSize: number;
+}
+
+export interface OptionChain {
+  underlying: string;
+  exchange: 'NFO' | 'BFO' | 'MCX';
+  expiry: string;
+  expiries: string[];
+  lotSize: number;
+  rows: Array<{ strike: number; CE: DerivativeInstrument | null; PE: DerivativeInstrument | null }>;
+  spotPrice: number | null;
+  atmStrike: number | null;
+}
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1d';
+
+export interface Candle {
+  start: string; // bar start, ISO
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  source: 'broker' | 'file' | 'ticks';
+}
+
+// One of the user's orders on the charted symbol
+export interface ChartMarker {
+  orderId: string;
+  time: string;
+  action: 'BUY' | 'SELL';
+  price: number;
+  quantity: number;
+  status: string;
+}
+
+export interface CandleChartData {
+  symbol: string;
+  exchange: string;
+  interval: CandleInterval;
+  candles: Candle[];
+  markers: ChartMarker[];
+  position: { quantity: number; averagePrice: number } | null;
+}
+
 interface CacheEntry<T> {
   data: T;
   timestamp: Date;
@@ -492,6 +548,26 @@ class MarketDataService {
     }
   }
 
+  /**
+   * Calls and puts of one expiry by strike (nearest expiry when none is given),
+   * with every upcoming expiry of the underlying
+   */
+  async getOptionChain(underlying: string, exchange: string = 'NFO', expiry?: string): Promise<OptionChain | null> {
+    const query = new URLSearchParams({ exchange, ...(expiry && { expiry }) });
+    const response = await this.makeRequest(`/option-chain/${encodeURIComponent(underlying)}?${query.toString()}`);
+    return response.success ? response.data : null;
+  }
+
+  /**
+   * OHLCV bars of a symbol (the server picks a range for the interval when
+   * none is given), with the user's orders and open position for markers
+   */
+  async getCandles(symbol: string, exchange: string = 'NSE', interval: CandleInterval = '1d', from?: string, to?: string): Promise<CandleChartData | null> {
+    const query = new URLSearchParams({ exchange, interval, ...(from && { from }), ...(to && { to }) });
+    const response = await this.makeRequest(`/candles/${encodeURIComponent(symbol)}?${query.toString()}`);
+    return response.success ? response.data : null;
+  }
+
   /**
    * Get local cache statistics
    */
@@ -0,0 +1,120 @@
+import { authService } from './authService';
+
+export type SquareOffTrigger = 'SCHEDULED' | 'MANUAL';
+export type SquareOffRunStatus = 'COMPLETED' | 'PARTIAL' | 'FAILED' | 'NOTHING_TO_DO';
+
+export interface SquareOffSettings {
+  id: string;
+  user_id: string;
+  account_id: string | null; // null = default for every account without an override
+  enabled: boolean;
+  square_off_time: string; // HH:MM IST
+  cancel_pending_orders: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SquareOffFailure {
+  account_id: string;
+  operation: string;
+  reference?: string;
+  message: string;
+}
+
+export interface SquareOffRun {
+  id: string;
+  user_id: string;
+  account_id: string;
+  trading_date: string;
+  trigger: SquareOffTrigger;
+  status: SquareOffRunStatus;
+  cancelled_orders: number;
+  squared_off_positions: number;
+  retried_orders: number;
+  failures: SquareOffFailure[];
+  created_at: string;
+}
+
+export interface SquareOffAccount {
+  id: string;
+  broker_name: string;
+  account_id: string;
+  user_name: string;
+  broker_display_name: string;
+  account_status: string;
+}
+
+export interface SquareOffOverview {
+  settings: SquareOffSettings[];
+  runs: SquareOffRun[];
+  accounts: SquareOffAccount[];
+  defaultSquareOffTime: string;
+}
+
+export interface SaveSquareOffSettingsRequest {
+  accountId: string | null;
+  enabled: boolean;
+  squareOffTime: string;
+  cancelPendingOrders: boolean;
+}
+
+// Sent over the websocket when a square-off run finishes
+export interface SquareOffUpdateEvent {
+  run: SquareOffRun;
+  account: string;
+  timestamp: string;
+}
+
+class SquareOffService {
+  private baseURL = '/api/square-off';
+
+  private async makeRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const token = authService.getToken();
+
+    const response = await fetch(`${this.baseURL}${endpoint}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const validationMessage = Array.isArray(errorData.details) ? errorData.details[0]?.msg : errorData.details;
+      throw new Error(validationMessage || errorData.error || `HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Request failed');
+    }
+
+    return data.data;
+  }
+
+  async getOverview(): Promise<SquareOffOverview> {
+    return this.makeRequest('');
+  }
+
+  async saveSettings(settings: SaveSquareOffSettingsRequest): Promise<SquareOffSettings> {
+    return this.makeRequest('', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  async removeOverride(accountId: string): Promise<void> {
+    await this.makeRequest(`/${accountId}`, { method: 'DELETE' });
+  }
+
+  async runNow(accountId: string | null): Promise<SquareOffRun[]> {
+    return this.makeRequest('/run', {
+      method: 'POST',
+      body: JSON.stringify({ accountId }),
+    });
+  }
+}
+
+export const squareOffService = new SquareOffService();
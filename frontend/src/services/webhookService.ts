@@ -0,0 +1,139 @@
+import api from './api';
+
+export type WebhookEvent =
+  | 'order.placed'
+  | 'order.filled'
+  | 'order.rejected'
+  | 'order.cancelled'
+  | 'account.session_expired'
+  | 'alert.triggered'
+  | 'webhook.test';
+
+export type WebhookDeliveryStatus = 'PENDING' | 'DELIVERED' | 'RETRYING' | 'DEAD_LETTER';
+
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Returned once, when the webhook is created
+export interface CreatedWebhook extends Webhook {
+  secret: string;
+}
+
+export interface WebhookSettings {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  isActive: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: WebhookEvent;
+  data: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+}
+
+// Validation failures carry their messages in details; other errors in error
+const toWebhookError = (error: unknown, fallback: string): Error => {
+  if (error && typeof error === 'object' && 'response' in error) {
+    const axiosError = error as { response?: { data?: { error?: string; message?: string; details?: Array<{ msg?: string }> } } };
+    const data = axiosError.response?.data;
+    if (data) {
+      return new Error((Array.isArray(data.details) && data.details[0]?.msg) || data.error || data.message || fallback);
+    }
+  }
+  return new Error('Network error. Please check your connection and try again.');
+};
+
+export const webhookService = {
+  async getWebhooks(): Promise<Webhook[]> {
+    try {
+      const response = await api.get<ApiResponse<Webhook[]>>('/webhooks');
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toWebhookError(error, 'Failed to load webhooks');
+    }
+  },
+
+  async createWebhook(settings: Omit<WebhookSettings, 'isActive'>): Promise<CreatedWebhook> {
+    try {
+      const response = await api.post<ApiResponse<CreatedWebhook>>('/webhooks', settings);
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toWebhookError(error, 'Failed to create webhook');
+    }
+  },
+
+  async updateWebhook(webhookId: string, settings: Partial<WebhookSettings>): Promise<Webhook> {
+    try {
+      const response = await api.put<ApiResponse<Webhook>>(`/webhooks/${webhookId}`, settings);
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toWebhookError(error, 'Failed to update webhook');
+    }
+  },
+
+  async deleteWebhook(webhookId: string): Promise<void> {
+    try {
+      await api.delete(`/webhooks/${webhookId}`);
+    } catch (error: unknown) {
+      throw toWebhookError(error, 'Failed to delete webhook');
+    }
+  },
+
+  // Resolves with the test delivery whether or not the endpoint accepted it
+  async sendTestEvent(webhookId: string): Promise<WebhookDelivery> {
+    try {
+      const response = await api.post<ApiResponse<WebhookDelivery>>(`/webhooks/${webhookId}/test`);
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toWebhookError(error, 'Failed to send test event');
+    }
+  },
+
+  async getDeliveries(webhookId: string, filters: { status?: WebhookDeliveryStatus; limit?: number } = {}): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    try {
+      const response = await api.get<ApiResponse<{ deliveries: WebhookDelivery[]; total: number }>>(`/webhooks/${webhookId}/deliveries`, { params: filters });
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toWebhookError(error, 'Failed to load deliveries');
+    }
+  },
+
+  async getDeadLetters(limit: number = 25): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    try {
+      const response = await api.get<ApiResponse<{ deliveries: WebhookDelivery[]; total: number }>>('/webhooks/dead-letters', { params: { limit } });
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toWebhookError(error, 'Failed to load dead letters');
+    }
+  },
+
+  async redeliver(deliveryId: string): Promise<WebhookDelivery> {
+    try {
+      const response = await api.post<ApiResponse<WebhookDelivery>>(`/webhooks/deliveries/${deliveryId}/redeliver`);
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toWebhookError(error, 'Failed to redeliver');
+    }
+  }
+};
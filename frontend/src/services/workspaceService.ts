@@ -0,0 +1,148 @@
+import api from './api';
+
+export type WorkspaceRole = 'owner' | 'trader' | 'viewer';
+export type AccountPermission = 'VIEW' | 'TRADE';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  ownerId: string;
+  role: WorkspaceRole; // the current user's role
+  createdAt: string;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  name: string | null;
+  email: string | null;
+  role: WorkspaceRole;
+  addedAt: string;
+}
+
+// One connected account a client shared with a workspace
+export interface AccountGrant {
+  id: string;
+  workspaceId: string;
+  workspaceName?: string | null;
+  accountId: string;
+  brokerName: string;
+  brokerAccountId: string;
+  accountName: string;
+  ownerId: string;
+  ownerName: string | null;
+  permissions: AccountPermission[];
+  grantedAt: string;
+}
+
+export interface WorkspaceDetails extends Workspace {
+  members: WorkspaceMember[];
+  grants: AccountGrant[];
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+}
+
+// Validation failures carry their messages in details; other errors in error
+const toWorkspaceError = (error: unknown, fallback: string): Error => {
+  if (error && typeof error === 'object' && 'response' in error) {
+    const axiosError = error as { response?: { data?: { error?: string; details?: Array<{ msg?: string }> } } };
+    const data = axiosError.response?.data;
+    if (data) {
+      return new Error((Array.isArray(data.details) && data.details[0]?.msg) || data.error || fallback);
+    }
+  }
+  return new Error('Network error. Please check your connection and try again.');
+};
+
+export const workspaceService = {
+  async getWorkspaces(): Promise<Workspace[]> {
+    try {
+      const response = await api.get<ApiResponse<Workspace[]>>('/workspaces');
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toWorkspaceError(error, 'Failed to load workspaces');
+    }
+  },
+
+  async createWorkspace(name: string): Promise<Workspace> {
+    try {
+      const response = await api.post<ApiResponse<Workspace>>('/workspaces', { name });
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toWorkspaceError(error, 'Failed to create workspace');
+    }
+  },
+
+  async getWorkspace(workspaceId: string): Promise<WorkspaceDetails> {
+    try {
+      const response = await api.get<ApiResponse<WorkspaceDetails>>(`/workspaces/${workspaceId}`);
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toWorkspaceError(error, 'Failed to load workspace');
+    }
+  },
+
+  async addMember(workspaceId: string, email: string, role: WorkspaceRole): Promise<WorkspaceMember> {
+    try {
+      const response = await api.post<ApiResponse<WorkspaceMember>>(`/workspaces/${workspaceId}/members`, { email, role });
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toWorkspaceError(error, 'Failed to add member');
+    }
+  },
+
+  async updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void> {
+    try {
+      await api.put(`/workspaces/${workspaceId}/members/${userId}`, { role });
+    } catch (error: unknown) {
+      throw toWorkspaceError(error, 'Failed to change role');
+    }
+  },
+
+  // Removes a member, or leaves the workspace when it is the current user
+  async removeMember(workspaceId: string, userId: string): Promise<void> {
+    try {
+      await api.delete(`/workspaces/${workspaceId}/members/${userId}`);
+    } catch (error: unknown) {
+      throw toWorkspaceError(error, 'Failed to remove member');
+    }
+  },
+
+  // Accounts the current user has shared, across workspaces
+  async getMyGrants(): Promise<AccountGrant[]> {
+    try {
+      const response = await api.get<ApiResponse<AccountGrant[]>>('/workspaces/grants');
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toWorkspaceError(error, 'Failed to load shared accounts');
+    }
+  },
+
+  async grantAccess(workspaceId: string, accountId: string, permissions: AccountPermission[]): Promise<AccountGrant> {
+    try {
+      const response = await api.post<ApiResponse<AccountGrant>>(`/workspaces/${workspaceId}/grants`, { accountId, permissions });
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toWorkspaceError(error, 'Failed to share account');
+    }
+  },
+
+  async updateGrant(workspaceId: string, grantId: string, permissions: AccountPermission[]): Promise<AccountGrant> {
+    try {
+      const response = await api.put<ApiResponse<AccountGrant>>(`/workspaces/${workspaceId}/grants/${grantId}`, { permissions });
+      return response.data.data;
+    } catch (error: unknown) {
+      throw toWorkspaceError(error, 'Failed to change permissions');
+    }
+  },
+
+  async revokeGrant(workspaceId: string, grantId: string): Promise<void> {
+    try {
+      await api.delete(`/workspaces/${workspaceId}/grants/${grantId}`);
+    } catch (error: unknown) {
+      throw toWorkspaceError(error, 'Failed to revoke access');
+    }
+  }
+};
@@ -3,6 +3,7 @@ export interface User {
   email: string;
   name: string;
   createdAt: string;
+  twoFactorEnabled?: boolean;
 }
 
 export interface LoginCredentials {
@@ -16,12 +17,20 @@ export interface RegisterCredentials {
   name: string;
 }
 
+export interface TwoFactorCredentials {
+  code?: string;
+  recoveryCode?: string;
+}
+
 export interface AuthResponse {
   success: boolean;
   message: string;
   data?: {
     user: User;
     token: string;
+    refreshToken?: string;
+    expiresIn?: number; // seconds until the access token expires
+    remainingRecoveryCodes?: number; // set when a recovery code was used to log in
   };
   errors?: Array<{
     field: string;
@@ -29,12 +38,52 @@ export interface AuthResponse {
   }>;
 }
 
+// Password accepted, but a two-factor code is needed to finish logging in
+export interface TwoFactorChallenge {
+  requiresTwoFactor: true;
+  challengeToken: string;
+}
+
+export interface LoginResponse extends Omit<AuthResponse, 'data'> {
+  data?: AuthResponse['data'] | TwoFactorChallenge;
+}
+
+export interface LoginResult {
+  requiresTwoFactor: boolean;
+}
+
+export interface AuthSessionInfo {
+  id: string;
+  deviceName: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface StepUpCredentials extends TwoFactorCredentials {
+  password?: string;
+}
+
 export interface AuthContextType {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
   loading: boolean;
-  login: (credentials: LoginCredentials) => Promise<void>;
+  login: (credentials: LoginCredentials) => Promise<LoginResult>;
+  verifyTwoFactor: (credentials: TwoFactorCredentials) => Promise<void>;
   register: (credentials: RegisterCredentials) => Promise<void>;
   logout: () => void;
 }
@@ -51,7 +51,25 @@ export function transformBrokerResponseToOrderResult(
         errorType: order.errorType,
         message: friendlyError.message,
         suggestion: friendlyError.suggestion,
-        retryable: friendlyError.retryable
+        retryable: friendlyError.retryable,
+        ...(order.errorType === 'RISK_VIOLATION' && {
+          message: order.error,
+          suggestion: 'Adjust the order or review your risk limits in Settings.',
+          retryable: false,
+          riskViolations: order.riskViolations || []
+        }),
+        ...(order.errorType === 'KILL_SWITCH_ACTIVE' && {
+          message: order.error,
+          suggestion: 'Release the kill switch before placing new orders.',
+          retryable: false
+        }),
+        ...(order.errorType === 'MARKET_CLOSED' && {
+          message: order.error,
+          suggestion: order.suggestedVariety === 'AMO'
+            ? 'Place it as an after-market order (AMO) to queue it for the next session.'
+            : 'Use a limit order, or place it once the market opens.',
+          retryable: false
+        })
       };
     });
 